@@ -12,6 +12,11 @@ import Disabled from "@/pages/Disabled";
 import Dashboard from "@/pages/Dashboard";
 import SignalDetail from "@/pages/SignalDetail";
 import History from "@/pages/History";
+import Performance from "@/pages/Performance";
+import MyScan from "@/pages/MyScan";
+import Scorecard from "@/pages/Scorecard";
+import Positions from "@/pages/Positions";
+import SignalsArchive from "@/pages/SignalsArchive";
 import Settings from "@/pages/Settings";
 import FundingMonitor from "@/pages/FundingMonitor";
 import FundingSymbolDetail from "@/pages/FundingSymbolDetail";
@@ -20,6 +25,7 @@ import AdminDashboard from "@/pages/admin/AdminDashboard";
 import UserManagement from "@/pages/admin/UserManagement";
 import ScanConfig from "@/pages/admin/ScanConfig";
 import DataManagement from "@/pages/admin/DataManagement";
+import RiskLimits from "@/pages/admin/RiskLimits";
 import NotFound from "./pages/NotFound";
 
 const queryClient = new QueryClient();
@@ -38,7 +44,12 @@ const App = () => (
               <Route path="/disabled" element={<Disabled />} />
               <Route path="/" element={<ProtectedRoute><Dashboard /></ProtectedRoute>} />
               <Route path="/signal/:id" element={<ProtectedRoute><SignalDetail /></ProtectedRoute>} />
+              <Route path="/scan" element={<ProtectedRoute><MyScan /></ProtectedRoute>} />
+              <Route path="/archive" element={<ProtectedRoute><SignalsArchive /></ProtectedRoute>} />
+              <Route path="/scorecard" element={<ProtectedRoute><Scorecard /></ProtectedRoute>} />
+              <Route path="/positions" element={<ProtectedRoute><Positions /></ProtectedRoute>} />
               <Route path="/history" element={<ProtectedRoute><History /></ProtectedRoute>} />
+              <Route path="/performance" element={<ProtectedRoute><Performance /></ProtectedRoute>} />
               <Route path="/settings" element={<ProtectedRoute><Settings /></ProtectedRoute>} />
               <Route path="/funding" element={<ProtectedRoute><FundingMonitor /></ProtectedRoute>} />
               <Route path="/funding/:symbol" element={<ProtectedRoute><FundingSymbolDetail /></ProtectedRoute>} />
@@ -47,6 +58,7 @@ const App = () => (
               <Route path="/admin/users" element={<ProtectedRoute requireAdmin><UserManagement /></ProtectedRoute>} />
               <Route path="/admin/scan-config" element={<ProtectedRoute requireAdmin><ScanConfig /></ProtectedRoute>} />
               <Route path="/admin/data" element={<ProtectedRoute requireAdmin><DataManagement /></ProtectedRoute>} />
+              <Route path="/admin/risk-limits" element={<ProtectedRoute requireAdmin><RiskLimits /></ProtectedRoute>} />
               <Route path="*" element={<NotFound />} />
             </Routes>
           </BrowserRouter>
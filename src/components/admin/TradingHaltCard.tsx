@@ -0,0 +1,167 @@
+import { useState } from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from '@/components/ui/alert-dialog';
+import { Loader2, OctagonAlert, PlayCircle } from 'lucide-react';
+import { toast } from 'sonner';
+import { supabase } from '@/integrations/supabase/client';
+import { useTradingHalt } from '@/hooks/useTradingHalt';
+import { logAuditEvent } from '@/lib/audit';
+import { cn } from '@/lib/utils';
+
+export default function TradingHaltCard() {
+  const { halt, halted, refetch } = useTradingHalt();
+  const [reason, setReason] = useState('');
+  const [cancelOpen, setCancelOpen] = useState(true);
+  const [confirming, setConfirming] = useState(false);
+  const [saving, setSaving] = useState(false);
+
+  const setTradingHalt = async (nextHalted: boolean) => {
+    setSaving(true);
+    try {
+      const trimmed = reason.trim();
+      const { data: cancelled, error } = await supabase.rpc('set_trading_halt', {
+        _halted: nextHalted,
+        _reason: nextHalted ? trimmed : undefined,
+        _cancel_open: nextHalted && cancelOpen,
+      });
+      if (error) throw error;
+
+      await logAuditEvent({
+        action: nextHalted ? 'trading_halted' : 'trading_resumed',
+        entityType: 'global_scan_config',
+        entityId: halt?.configId,
+        details: nextHalted
+          ? { reason: trimmed, cancelled_executions: cancelled ?? 0 }
+          : { previous_reason: halt?.reason ?? null },
+      });
+
+      if (nextHalted) {
+        toast.success(
+          cancelled ? `Trading halted; ${cancelled} open execution(s) cancelled` : 'Trading halted'
+        );
+        setReason('');
+      } else {
+        toast.success('Trading resumed');
+      }
+      refetch();
+    } catch (e) {
+      if (import.meta.env.DEV) console.error('Error setting trading halt:', e);
+      toast.error(nextHalted ? 'Failed to halt trading' : 'Failed to resume trading');
+    } finally {
+      setSaving(false);
+      setConfirming(false);
+    }
+  };
+
+  return (
+    <Card className={cn(halted && 'border-destructive/50')}>
+      <CardHeader>
+        <div className="flex items-center justify-between">
+          <div>
+            <CardTitle className="flex items-center gap-2">
+              <OctagonAlert className="h-5 w-5 text-destructive" />
+              Trading Kill Switch
+            </CardTitle>
+            <CardDescription>
+              Stop every user from opening new executions until trading is resumed
+            </CardDescription>
+          </div>
+          <Badge
+            variant="outline"
+            className={
+              halted
+                ? 'bg-destructive/10 text-destructive border-destructive/50'
+                : 'bg-success/10 text-success border-success/50'
+            }
+          >
+            {halted ? 'Halted' : 'Trading'}
+          </Badge>
+        </div>
+      </CardHeader>
+      <CardContent>
+        {halted ? (
+          <div className="flex flex-wrap items-end justify-between gap-4">
+            <div className="space-y-1 text-sm">
+              <p className="font-medium">{halt?.reason}</p>
+              {halt?.haltedAt && (
+                <p className="text-muted-foreground">
+                  Halted {new Date(halt.haltedAt).toLocaleString()}
+                </p>
+              )}
+            </div>
+            <Button onClick={() => setTradingHalt(false)} disabled={saving}>
+              {saving ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <PlayCircle className="mr-2 h-4 w-4" />}
+              Resume Trading
+            </Button>
+          </div>
+        ) : (
+          <div className="space-y-4">
+            <div className="space-y-2">
+              <Label htmlFor="halt-reason">Reason</Label>
+              <Textarea
+                id="halt-reason"
+                value={reason}
+                onChange={(e) => setReason(e.target.value)}
+                placeholder="Shown to every user while trading is halted"
+                rows={2}
+              />
+            </div>
+            <div className="flex flex-wrap items-center justify-between gap-4">
+              <div className="flex items-center gap-2">
+                <Checkbox
+                  id="halt-cancel-open"
+                  checked={cancelOpen}
+                  onCheckedChange={(checked) => setCancelOpen(checked === true)}
+                />
+                <Label htmlFor="halt-cancel-open" className="font-normal">
+                  Cancel open previews and confirmed executions
+                </Label>
+              </div>
+              <Button
+                variant="destructive"
+                onClick={() => setConfirming(true)}
+                disabled={saving || !reason.trim()}
+              >
+                <OctagonAlert className="mr-2 h-4 w-4" />
+                Halt Trading
+              </Button>
+            </div>
+          </div>
+        )}
+      </CardContent>
+
+      <AlertDialog open={confirming} onOpenChange={setConfirming}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Halt all trading?</AlertDialogTitle>
+            <AlertDialogDescription>
+              No user will be able to create or confirm an execution until trading is resumed.
+              {cancelOpen && ' Every open preview and confirmed execution will be cancelled.'}
+              {' '}Orders already routing to an exchange are left to finish.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel disabled={saving}>Cancel</AlertDialogCancel>
+            <AlertDialogAction onClick={() => setTradingHalt(true)} disabled={saving}>
+              Halt Trading
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </Card>
+  );
+}
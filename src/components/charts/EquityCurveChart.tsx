@@ -0,0 +1,70 @@
+import { useEffect, useRef } from 'react';
+import { createChart, ColorType, IChartApi, LineData, Time, AreaSeries } from 'lightweight-charts';
+import { useTheme } from '@/contexts/ThemeContext';
+
+interface EquityCurveChartProps {
+  equityData: LineData<Time>[];
+  height?: number;
+  title?: string;
+}
+
+export default function EquityCurveChart({ equityData, height = 250, title = 'Equity' }: EquityCurveChartProps) {
+  const containerRef = useRef<HTMLDivElement>(null);
+  const chartRef = useRef<IChartApi | null>(null);
+  const { theme } = useTheme();
+
+  useEffect(() => {
+    if (!containerRef.current || equityData.length === 0) return;
+
+    const isDark = theme === 'dark';
+
+    const chart = createChart(containerRef.current, {
+      layout: {
+        background: { type: ColorType.Solid, color: 'transparent' },
+        textColor: isDark ? 'hsl(215, 20%, 65%)' : 'hsl(220, 9%, 46%)',
+      },
+      grid: {
+        vertLines: { color: isDark ? 'hsl(225, 15%, 18%)' : 'hsl(220, 13%, 91%)' },
+        horzLines: { color: isDark ? 'hsl(225, 15%, 18%)' : 'hsl(220, 13%, 91%)' },
+      },
+      width: containerRef.current.clientWidth,
+      height,
+      rightPriceScale: {
+        borderColor: isDark ? 'hsl(225, 15%, 18%)' : 'hsl(220, 13%, 91%)',
+      },
+      timeScale: {
+        borderColor: isDark ? 'hsl(225, 15%, 18%)' : 'hsl(220, 13%, 91%)',
+        timeVisible: true,
+        secondsVisible: false,
+      },
+    });
+
+    chartRef.current = chart;
+
+    const equitySeries = chart.addSeries(AreaSeries, {
+      lineColor: 'hsl(43, 96%, 56%)',
+      topColor: 'rgba(251, 191, 36, 0.3)',
+      bottomColor: 'rgba(251, 191, 36, 0.02)',
+      lineWidth: 2,
+      title,
+    });
+    equitySeries.setData(equityData);
+
+    chart.timeScale().fitContent();
+
+    const handleResize = () => {
+      if (containerRef.current) {
+        chart.applyOptions({ width: containerRef.current.clientWidth });
+      }
+    };
+
+    window.addEventListener('resize', handleResize);
+
+    return () => {
+      window.removeEventListener('resize', handleResize);
+      chart.remove();
+    };
+  }, [equityData, height, title, theme]);
+
+  return <div ref={containerRef} className="w-full" />;
+}
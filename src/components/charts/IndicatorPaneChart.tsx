@@ -0,0 +1,119 @@
+import { useEffect, useRef } from 'react';
+import {
+  createChart,
+  ColorType,
+  LineSeries,
+} from 'lightweight-charts';
+import { useTheme } from '@/contexts/ThemeContext';
+import type { RegisterSyncedChart } from '@/hooks/useChartSync';
+import type { IndicatorDataPoint } from '@/lib/indicators';
+
+export interface PaneReferenceLine {
+  value: number;
+  title?: string;
+  color?: string;
+}
+
+interface IndicatorPaneChartProps {
+  /** Unique sync id; panes sharing a RegisterSyncedChart must not collide. */
+  id: string;
+  title: string;
+  data: IndicatorDataPoint[];
+  color?: string;
+  referenceLines?: PaneReferenceLine[];
+  precision?: number;
+  height?: number;
+  syncChart?: RegisterSyncedChart;
+}
+
+const NO_REFERENCE_LINES: PaneReferenceLine[] = [];
+
+/** Single-line indicator sub-pane that scrolls with the pair chart. */
+export default function IndicatorPaneChart({
+  id,
+  title,
+  data,
+  color = 'hsl(217, 91%, 60%)',
+  referenceLines = NO_REFERENCE_LINES,
+  precision = 2,
+  height = 140,
+  syncChart,
+}: IndicatorPaneChartProps) {
+  const containerRef = useRef<HTMLDivElement>(null);
+  const { theme } = useTheme();
+
+  useEffect(() => {
+    if (!containerRef.current) return;
+
+    const isDark = theme === 'dark';
+
+    const chart = createChart(containerRef.current, {
+      layout: {
+        background: { type: ColorType.Solid, color: 'transparent' },
+        textColor: isDark ? 'hsl(215, 20%, 65%)' : 'hsl(220, 9%, 46%)',
+      },
+      grid: {
+        vertLines: { color: isDark ? 'hsl(225, 15%, 18%)' : 'hsl(220, 13%, 91%)' },
+        horzLines: { color: isDark ? 'hsl(225, 15%, 18%)' : 'hsl(220, 13%, 91%)' },
+      },
+      width: containerRef.current.clientWidth,
+      height,
+      rightPriceScale: {
+        borderColor: isDark ? 'hsl(225, 15%, 18%)' : 'hsl(220, 13%, 91%)',
+      },
+      timeScale: {
+        borderColor: isDark ? 'hsl(225, 15%, 18%)' : 'hsl(220, 13%, 91%)',
+        timeVisible: true,
+        secondsVisible: false,
+      },
+    });
+
+    const times = data.map((d) => d.time);
+    const priceFormat = { type: 'price' as const, precision, minMove: Math.pow(10, -precision) };
+
+    for (const line of referenceLines) {
+      const series = chart.addSeries(LineSeries, {
+        color: line.color ?? (isDark ? 'hsl(215, 20%, 50%)' : 'hsl(220, 9%, 50%)'),
+        lineWidth: 1,
+        lineStyle: 2,
+        title: line.title,
+        priceLineVisible: false,
+        lastValueVisible: false,
+        priceFormat,
+      });
+      series.setData(times.map((t) => ({ time: t, value: line.value })));
+    }
+
+    const series = chart.addSeries(LineSeries, {
+      color,
+      lineWidth: 2,
+      title,
+      priceFormat,
+    });
+    series.setData(data);
+
+    chart.timeScale().fitContent();
+    syncChart?.(id, { chart, series });
+
+    const handleResize = () => {
+      if (containerRef.current) {
+        chart.applyOptions({ width: containerRef.current.clientWidth });
+      }
+    };
+
+    window.addEventListener('resize', handleResize);
+
+    return () => {
+      window.removeEventListener('resize', handleResize);
+      syncChart?.(id, null);
+      chart.remove();
+    };
+  }, [id, title, data, color, referenceLines, precision, height, theme, syncChart]);
+
+  return (
+    <div>
+      <p className="text-xs text-muted-foreground mb-2">{title}</p>
+      <div ref={containerRef} className="w-full" />
+    </div>
+  );
+}
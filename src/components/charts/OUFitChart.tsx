@@ -0,0 +1,100 @@
+import { useEffect, useRef } from 'react';
+import { createChart, ColorType, IChartApi, LineData, Time, LineSeries } from 'lightweight-charts';
+import { useTheme } from '@/contexts/ThemeContext';
+
+export interface OUProjectionPoint {
+  time: Time;
+  mean: number;
+  lower: number;
+  upper: number;
+}
+
+interface OUFitChartProps {
+  spreadData: LineData<Time>[];
+  projection: OUProjectionPoint[];
+  mu: number;
+  height?: number;
+}
+
+export default function OUFitChart({ spreadData, projection, mu, height = 300 }: OUFitChartProps) {
+  const containerRef = useRef<HTMLDivElement>(null);
+  const chartRef = useRef<IChartApi | null>(null);
+  const { theme } = useTheme();
+
+  useEffect(() => {
+    if (!containerRef.current || spreadData.length === 0) return;
+
+    const isDark = theme === 'dark';
+
+    const chart = createChart(containerRef.current, {
+      layout: {
+        background: { type: ColorType.Solid, color: 'transparent' },
+        textColor: isDark ? 'hsl(215, 20%, 65%)' : 'hsl(220, 9%, 46%)',
+      },
+      grid: {
+        vertLines: { color: isDark ? 'hsl(225, 15%, 18%)' : 'hsl(220, 13%, 91%)' },
+        horzLines: { color: isDark ? 'hsl(225, 15%, 18%)' : 'hsl(220, 13%, 91%)' },
+      },
+      width: containerRef.current.clientWidth,
+      height,
+      rightPriceScale: {
+        borderColor: isDark ? 'hsl(225, 15%, 18%)' : 'hsl(220, 13%, 91%)',
+      },
+      timeScale: {
+        borderColor: isDark ? 'hsl(225, 15%, 18%)' : 'hsl(220, 13%, 91%)',
+        timeVisible: true,
+        secondsVisible: false,
+      },
+    });
+
+    chartRef.current = chart;
+
+    // Equilibrium level across history and projection
+    const allTimes = [...spreadData.map((d) => d.time), ...projection.slice(1).map((p) => p.time)];
+    const muSeries = chart.addSeries(LineSeries, {
+      color: isDark ? 'hsl(215, 20%, 50%)' : 'hsl(220, 9%, 50%)',
+      lineWidth: 1,
+      lineStyle: 1,
+      title: 'μ',
+    });
+    muSeries.setData(allTimes.map((time) => ({ time, value: mu })));
+
+    const bandColor = isDark ? 'hsla(43, 96%, 56%, 0.5)' : 'hsla(43, 96%, 46%, 0.5)';
+    const upper = chart.addSeries(LineSeries, { color: bandColor, lineWidth: 1, lineStyle: 2 });
+    upper.setData(projection.map((p) => ({ time: p.time, value: p.upper })));
+    const lower = chart.addSeries(LineSeries, { color: bandColor, lineWidth: 1, lineStyle: 2 });
+    lower.setData(projection.map((p) => ({ time: p.time, value: p.lower })));
+
+    const spreadSeries = chart.addSeries(LineSeries, {
+      color: 'hsl(217, 91%, 60%)',
+      lineWidth: 2,
+      title: 'Spread',
+    });
+    spreadSeries.setData(spreadData);
+
+    const expected = chart.addSeries(LineSeries, {
+      color: 'hsl(43, 96%, 56%)',
+      lineWidth: 2,
+      lineStyle: 2,
+      title: 'E[path]',
+    });
+    expected.setData(projection.map((p) => ({ time: p.time, value: p.mean })));
+
+    chart.timeScale().fitContent();
+
+    const handleResize = () => {
+      if (containerRef.current) {
+        chart.applyOptions({ width: containerRef.current.clientWidth });
+      }
+    };
+
+    window.addEventListener('resize', handleResize);
+
+    return () => {
+      window.removeEventListener('resize', handleResize);
+      chart.remove();
+    };
+  }, [spreadData, projection, mu, height, theme]);
+
+  return <div ref={containerRef} className="w-full" />;
+}
@@ -1,6 +1,7 @@
 import { useEffect, useRef } from 'react';
 import { createChart, ColorType, IChartApi, ISeriesApi, LineData, Time, LineSeries } from 'lightweight-charts';
 import { useTheme } from '@/contexts/ThemeContext';
+import type { RegisterSyncedChart } from '@/hooks/useChartSync';
 
 interface PriceChartProps {
   dataA: LineData<Time>[];
@@ -8,9 +9,10 @@ interface PriceChartProps {
   symbolA: string;
   symbolB: string;
   height?: number;
+  syncChart?: RegisterSyncedChart;
 }
 
-export default function PriceChart({ dataA, dataB, symbolA, symbolB, height = 300 }: PriceChartProps) {
+export default function PriceChart({ dataA, dataB, symbolA, symbolB, height = 300, syncChart }: PriceChartProps) {
   const containerRef = useRef<HTMLDivElement>(null);
   const chartRef = useRef<IChartApi | null>(null);
   const seriesARef = useRef<ISeriesApi<'Line'> | null>(null);
@@ -77,6 +79,7 @@ export default function PriceChart({ dataA, dataB, symbolA, symbolB, height = 30
     seriesBRef.current = seriesB;
 
     chart.timeScale().fitContent();
+    syncChart?.('legs', { chart, series: seriesA });
 
     const handleResize = () => {
       if (containerRef.current) {
@@ -88,9 +91,10 @@ export default function PriceChart({ dataA, dataB, symbolA, symbolB, height = 30
 
     return () => {
       window.removeEventListener('resize', handleResize);
+      syncChart?.('legs', null);
       chart.remove();
     };
-  }, [dataA, dataB, symbolA, symbolB, height, theme]);
+  }, [dataA, dataB, symbolA, symbolB, height, theme, syncChart]);
 
   return <div ref={containerRef} className="w-full" />;
 }
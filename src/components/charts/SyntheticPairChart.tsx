@@ -7,32 +7,102 @@ import {
   LineSeries,
 } from 'lightweight-charts';
 import { useTheme } from '@/contexts/ThemeContext';
+import type { RegisterSyncedChart } from '@/hooks/useChartSync';
 import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
-import { AlertCircle } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import {
+  DropdownMenu,
+  DropdownMenuCheckboxItem,
+  DropdownMenuContent,
+  DropdownMenuLabel,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from '@/components/ui/dropdown-menu';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { AlertCircle, ChevronDown } from 'lucide-react';
 import {
   computeZScore,
   computeRSI,
   computeZScoreRSIArrows,
   computePriceBands,
-  generateSyntheticPairOHLC,
+  computeRollingMeanStd,
+  computeSMA,
+  computeEMA,
+  IndicatorDataPoint,
   ohlcToClose,
+  OHLCDataPoint,
+  RSIMode,
 } from '@/lib/indicators';
+import {
+  BOLLINGER_LENGTH,
+  BOLLINGER_MULTIPLIER,
+  OVERLAY_INDICATOR_LABELS,
+  OverlayIndicator,
+  PANE_INDICATOR_LABELS,
+  PaneIndicator,
+} from '@/types/indicators';
+
+const OVERLAY_COLORS: Record<OverlayIndicator, string> = {
+  sma: 'hsl(199, 89%, 48%)',
+  ema: 'hsl(280, 65%, 60%)',
+  bollinger: 'rgba(20, 184, 166, 0.7)',
+};
+
+interface OverlayLine {
+  key: string;
+  title: string;
+  color: string;
+  dashed: boolean;
+  data: IndicatorDataPoint[];
+}
+
+export interface PairIndicatorSettings {
+  zScoreLength: number;
+  rsiLength: number;
+  rsiMode: RSIMode;
+  zThreshold: number;
+  rsiOversold: number;
+  rsiOverbought: number;
+  panes: PaneIndicator[];
+  /** Window for the rolling correlation and beta panes. */
+  correlationLength: number;
+}
 
 interface SyntheticPairChartProps {
-  entryPriceA: number;
-  entryPriceB: number;
+  ohlcData: OHLCDataPoint[];
   symbolA: string;
   symbolB: string;
   height?: number;
+  seriesLabel?: string;
+  initialZThreshold?: number;
+  onSettingsChange?: (settings: PairIndicatorSettings) => void;
+  syncChart?: RegisterSyncedChart;
+}
+
+/** Enough decimals to resolve the series range: ratios and log spreads move in small units. */
+function pricePrecision(data: OHLCDataPoint[]): number {
+  if (data.length === 0) return 2;
+  const range = Math.max(...data.map((d) => d.high)) - Math.min(...data.map((d) => d.low));
+  if (!(range > 0)) return 2;
+  return Math.min(8, Math.max(2, Math.ceil(-Math.log10(range)) + 3));
 }
 
 export default function SyntheticPairChart({
-  entryPriceA,
-  entryPriceB,
+  ohlcData,
   symbolA,
   symbolB,
   height = 400,
+  seriesLabel,
+  initialZThreshold = 2,
+  onSettingsChange,
+  syncChart,
 }: SyntheticPairChartProps) {
   const containerRef = useRef<HTMLDivElement>(null);
   const chartRef = useRef<IChartApi | null>(null);
@@ -41,28 +111,42 @@ export default function SyntheticPairChart({
   // User configurable inputs
   const [zScoreLength, setZScoreLength] = useState(250);
   const [rsiLength, setRsiLength] = useState(14);
-  const [zThreshold, setZThreshold] = useState(2);
+  const [zThreshold, setZThreshold] = useState(initialZThreshold);
   const [rsiOversold, setRsiOversold] = useState(30);
   const [rsiOverbought, setRsiOverbought] = useState(70);
+  const [rsiMode, setRsiMode] = useState<RSIMode>('simple');
+  const [overlays, setOverlays] = useState<OverlayIndicator[]>([]);
+  const [panes, setPanes] = useState<PaneIndicator[]>([]);
+  const [maLength, setMaLength] = useState(50);
+  const [correlationLength, setCorrelationLength] = useState(100);
+
+  // Let a parent keep sub-panes on the same lengths/thresholds
+  useEffect(() => {
+    onSettingsChange?.({
+      zScoreLength,
+      rsiLength,
+      rsiMode,
+      zThreshold,
+      rsiOversold,
+      rsiOverbought,
+      panes,
+      correlationLength,
+    });
+  }, [onSettingsChange, zScoreLength, rsiLength, rsiMode, zThreshold, rsiOversold, rsiOverbought, panes, correlationLength]);
+
+  const toggle = <T,>(list: T[], item: T, on: boolean) =>
+    on ? [...list, item] : list.filter((x) => x !== item);
 
   // Check if we have valid OHLC data
-  const hasOHLCData = entryPriceA > 0 && entryPriceB > 0;
+  const hasOHLCData = ohlcData.length > 0;
 
-  // Generate synthetic pair OHLC data and compute indicators
+  // Compute indicators on the pair OHLC series
   const chartData = useMemo(() => {
     if (!hasOHLCData) return null;
 
-    const numPoints = Math.max(zScoreLength + 50, 300);
-    const ohlcData = generateSyntheticPairOHLC(
-      entryPriceA,
-      entryPriceB,
-      numPoints,
-      0.015
-    );
-    
     const closePrices = ohlcToClose(ohlcData);
     const zScoreData = computeZScore(closePrices, zScoreLength);
-    const rsiData = computeRSI(closePrices, rsiLength);
+    const rsiData = computeRSI(closePrices, rsiLength, rsiMode);
     const priceBands = computePriceBands(closePrices, zScoreLength);
     const arrows = computeZScoreRSIArrows(
       ohlcData, 
@@ -73,8 +157,26 @@ export default function SyntheticPairChart({
       rsiOversold
     );
 
-    return { ohlcData, priceBands, arrows };
-  }, [entryPriceA, entryPriceB, zScoreLength, rsiLength, zThreshold, rsiOversold, rsiOverbought, hasOHLCData]);
+    const overlayLines: OverlayLine[] = [];
+    if (overlays.includes('sma')) {
+      overlayLines.push({ key: 'sma', title: `SMA ${maLength}`, color: OVERLAY_COLORS.sma, dashed: false, data: computeSMA(closePrices, maLength) });
+    }
+    if (overlays.includes('ema')) {
+      overlayLines.push({ key: 'ema', title: `EMA ${maLength}`, color: OVERLAY_COLORS.ema, dashed: false, data: computeEMA(closePrices, maLength) });
+    }
+    if (overlays.includes('bollinger')) {
+      const { mean, std } = computeRollingMeanStd(closePrices, BOLLINGER_LENGTH);
+      const band = (sign: number) =>
+        mean.map((m, i) => ({ time: m.time, value: m.value + sign * BOLLINGER_MULTIPLIER * std[i].value }));
+      overlayLines.push(
+        { key: 'bb-upper', title: 'BB upper', color: OVERLAY_COLORS.bollinger, dashed: true, data: band(1) },
+        { key: 'bb-basis', title: 'BB basis', color: OVERLAY_COLORS.bollinger, dashed: false, data: mean },
+        { key: 'bb-lower', title: 'BB lower', color: OVERLAY_COLORS.bollinger, dashed: true, data: band(-1) },
+      );
+    }
+
+    return { ohlcData, priceBands, arrows, overlayLines };
+  }, [ohlcData, zScoreLength, rsiLength, rsiMode, zThreshold, rsiOversold, rsiOverbought, overlays, maLength, hasOHLCData]);
 
   useEffect(() => {
     if (!containerRef.current || !chartData) return;
@@ -120,7 +222,7 @@ export default function SyntheticPairChart({
     chartRef.current = chart;
 
     // Add Z-Score bands as overlay lines (draw first so candles are on top)
-    const { priceBands, ohlcData, arrows } = chartData;
+    const { priceBands, ohlcData, arrows, overlayLines } = chartData;
 
     // Upper Band 2 (+2σ)
     const upperBand2Series = chart.addSeries(LineSeries, {
@@ -176,7 +278,21 @@ export default function SyntheticPairChart({
     });
     lowerBand2Series.setData(priceBands.lowerBand2);
 
+    // Selected overlays (moving averages, Bollinger Bands)
+    for (const line of overlayLines) {
+      const overlaySeries = chart.addSeries(LineSeries, {
+        color: line.color,
+        lineWidth: line.dashed ? 1 : 2,
+        lineStyle: line.dashed ? 2 : 0,
+        title: line.title,
+        priceLineVisible: false,
+        lastValueVisible: false,
+      });
+      overlaySeries.setData(line.data);
+    }
+
     // Main candlestick series
+    const precision = pricePrecision(ohlcData);
     const candlestickSeries = chart.addSeries(CandlestickSeries, {
       upColor: 'hsl(142, 71%, 45%)',
       downColor: 'hsl(0, 84%, 60%)',
@@ -184,7 +300,8 @@ export default function SyntheticPairChart({
       borderDownColor: 'hsl(0, 84%, 60%)',
       wickUpColor: 'hsl(142, 71%, 45%)',
       wickDownColor: 'hsl(0, 84%, 60%)',
-      title: `${symbolA}/${symbolB}`,
+      title: seriesLabel ?? `${symbolA}/${symbolB}`,
+      priceFormat: { type: 'price', precision, minMove: Math.pow(10, -precision) },
     });
     candlestickSeries.setData(ohlcData);
 
@@ -228,6 +345,7 @@ export default function SyntheticPairChart({
     }
 
     chart.timeScale().fitContent();
+    syncChart?.('pair', { chart, series: candlestickSeries });
 
     const handleResize = () => {
       if (containerRef.current) {
@@ -239,9 +357,10 @@ export default function SyntheticPairChart({
 
     return () => {
       window.removeEventListener('resize', handleResize);
+      syncChart?.('pair', null);
       chart.remove();
     };
-  }, [chartData, symbolA, symbolB, height, theme]);
+  }, [chartData, symbolA, symbolB, seriesLabel, height, theme, syncChart]);
 
   if (!hasOHLCData) {
     return (
@@ -329,6 +448,83 @@ export default function SyntheticPairChart({
             max={95}
           />
         </div>
+        <div className="space-y-1.5">
+          <Label className="text-xs text-muted-foreground">RSI Smoothing</Label>
+          <Select value={rsiMode} onValueChange={(v) => setRsiMode(v as RSIMode)}>
+            <SelectTrigger className="w-28 h-8 text-sm">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="simple">Simple</SelectItem>
+              <SelectItem value="wilder">Wilder</SelectItem>
+            </SelectContent>
+          </Select>
+        </div>
+        <DropdownMenu>
+          <DropdownMenuTrigger asChild>
+            <Button variant="outline" size="sm" className="h-8">
+              Indicators{overlays.length + panes.length > 0 && ` (${overlays.length + panes.length})`}
+              <ChevronDown className="h-4 w-4 ml-1" />
+            </Button>
+          </DropdownMenuTrigger>
+          <DropdownMenuContent align="start" className="w-60">
+            <DropdownMenuLabel>Overlays</DropdownMenuLabel>
+            {(Object.keys(OVERLAY_INDICATOR_LABELS) as OverlayIndicator[]).map((key) => (
+              <DropdownMenuCheckboxItem
+                key={key}
+                checked={overlays.includes(key)}
+                onCheckedChange={(on) => setOverlays((list) => toggle(list, key, on))}
+                onSelect={(e) => e.preventDefault()}
+              >
+                {OVERLAY_INDICATOR_LABELS[key]}
+              </DropdownMenuCheckboxItem>
+            ))}
+            <DropdownMenuSeparator />
+            <DropdownMenuLabel>Sub-panes</DropdownMenuLabel>
+            {(Object.keys(PANE_INDICATOR_LABELS) as PaneIndicator[]).map((key) => (
+              <DropdownMenuCheckboxItem
+                key={key}
+                checked={panes.includes(key)}
+                onCheckedChange={(on) => setPanes((list) => toggle(list, key, on))}
+                onSelect={(e) => e.preventDefault()}
+              >
+                {PANE_INDICATOR_LABELS[key]}
+              </DropdownMenuCheckboxItem>
+            ))}
+          </DropdownMenuContent>
+        </DropdownMenu>
+        {(overlays.includes('sma') || overlays.includes('ema')) && (
+          <div className="space-y-1.5">
+            <Label htmlFor="maLength" className="text-xs text-muted-foreground">
+              MA Length
+            </Label>
+            <Input
+              id="maLength"
+              type="number"
+              value={maLength}
+              onChange={(e) => setMaLength(Math.max(2, parseInt(e.target.value) || 50))}
+              className="w-20 h-8 text-sm font-mono"
+              min={2}
+              max={500}
+            />
+          </div>
+        )}
+        {(panes.includes('correlation') || panes.includes('beta')) && (
+          <div className="space-y-1.5">
+            <Label htmlFor="correlationLength" className="text-xs text-muted-foreground">
+              Corr./Beta Length
+            </Label>
+            <Input
+              id="correlationLength"
+              type="number"
+              value={correlationLength}
+              onChange={(e) => setCorrelationLength(Math.max(10, parseInt(e.target.value) || 100))}
+              className="w-20 h-8 text-sm font-mono"
+              min={10}
+              max={1000}
+            />
+          </div>
+        )}
       </div>
 
       {/* Legend */}
@@ -349,6 +545,12 @@ export default function SyntheticPairChart({
           <span className="w-3 h-0.5 bg-[rgba(34,197,94,0.6)]" />
           <span>-2σ</span>
         </div>
+        {overlays.map((key) => (
+          <div key={key} className="flex items-center gap-1.5">
+            <span className="w-3 h-0.5" style={{ backgroundColor: OVERLAY_COLORS[key] }} />
+            <span>{key === 'bollinger' ? OVERLAY_INDICATOR_LABELS[key] : `${OVERLAY_INDICATOR_LABELS[key]} ${maLength}`}</span>
+          </div>
+        ))}
         <div className="ml-auto flex items-center gap-4">
           <div className="flex items-center gap-1.5">
             <span className="w-0 h-0 border-l-[5px] border-l-transparent border-r-[5px] border-r-transparent border-b-[8px] border-b-long" />
@@ -7,26 +7,39 @@ import {
   LineSeries,
 } from 'lightweight-charts';
 import { useTheme } from '@/contexts/ThemeContext';
+import type { RegisterSyncedChart } from '@/hooks/useChartSync';
 import {
   computeZScore,
   computeRSI,
-  generateSyntheticPairPrice,
+  ohlcToClose,
+  OHLCDataPoint,
+  RSIMode,
 } from '@/lib/indicators';
 
 interface ZScoreRSISubChartProps {
-  entryPriceA: number;
-  entryPriceB: number;
+  ohlcData: OHLCDataPoint[];
   zScoreLength: number;
   rsiLength: number;
+  rsiMode?: RSIMode;
+  entryThreshold?: number;
+  exitThreshold?: number;
+  rsiOverbought?: number;
+  rsiOversold?: number;
   height?: number;
+  syncChart?: RegisterSyncedChart;
 }
 
 export default function ZScoreRSISubChart({
-  entryPriceA,
-  entryPriceB,
+  ohlcData,
   zScoreLength,
   rsiLength,
+  rsiMode = 'simple',
+  entryThreshold = 2,
+  exitThreshold = 1,
+  rsiOverbought = 70,
+  rsiOversold = 30,
   height = 200,
+  syncChart,
 }: ZScoreRSISubChartProps) {
   const zScoreContainerRef = useRef<HTMLDivElement>(null);
   const rsiContainerRef = useRef<HTMLDivElement>(null);
@@ -34,20 +47,14 @@ export default function ZScoreRSISubChart({
   const rsiChartRef = useRef<IChartApi | null>(null);
   const { theme } = useTheme();
 
-  // Generate data
+  // Compute indicators on pair closes
   const { zScoreData, rsiData } = useMemo(() => {
-    const numPoints = Math.max(zScoreLength + 50, 300);
-    const syntheticPrices = generateSyntheticPairPrice(
-      entryPriceA,
-      entryPriceB,
-      numPoints,
-      0.015
-    );
-    const zScoreData = computeZScore(syntheticPrices, zScoreLength);
-    const rsiData = computeRSI(syntheticPrices, rsiLength);
+    const closePrices = ohlcToClose(ohlcData);
+    const zScoreData = computeZScore(closePrices, zScoreLength);
+    const rsiData = computeRSI(closePrices, rsiLength, rsiMode);
 
     return { zScoreData, rsiData };
-  }, [entryPriceA, entryPriceB, zScoreLength, rsiLength]);
+  }, [ohlcData, zScoreLength, rsiLength, rsiMode]);
 
   // Z-Score chart
   useEffect(() => {
@@ -82,22 +89,22 @@ export default function ZScoreRSISubChart({
     const bandColor = isDark ? 'rgba(255, 255, 255, 0.1)' : 'rgba(0, 0, 0, 0.1)';
     const times = zScoreData.map((d) => d.time);
 
-    // +2 band
+    // +entry band
     const upper2 = chart.addSeries(LineSeries, {
       color: 'hsl(0, 84%, 60%)',
       lineWidth: 1,
       lineStyle: 2,
-      title: '+2σ',
+      title: `+${entryThreshold}σ`,
     });
-    upper2.setData(times.map((t) => ({ time: t, value: 2 })));
+    upper2.setData(times.map((t) => ({ time: t, value: entryThreshold })));
 
-    // +1 band
+    // +exit band
     const upper1 = chart.addSeries(LineSeries, {
       color: bandColor,
       lineWidth: 1,
       lineStyle: 2,
     });
-    upper1.setData(times.map((t) => ({ time: t, value: 1 })));
+    upper1.setData(times.map((t) => ({ time: t, value: exitThreshold })));
 
     // Mean
     const mean = chart.addSeries(LineSeries, {
@@ -108,22 +115,22 @@ export default function ZScoreRSISubChart({
     });
     mean.setData(times.map((t) => ({ time: t, value: 0 })));
 
-    // -1 band
+    // -exit band
     const lower1 = chart.addSeries(LineSeries, {
       color: bandColor,
       lineWidth: 1,
       lineStyle: 2,
     });
-    lower1.setData(times.map((t) => ({ time: t, value: -1 })));
+    lower1.setData(times.map((t) => ({ time: t, value: -exitThreshold })));
 
-    // -2 band
+    // -entry band
     const lower2 = chart.addSeries(LineSeries, {
       color: 'hsl(142, 71%, 45%)',
       lineWidth: 1,
       lineStyle: 2,
-      title: '-2σ',
+      title: `-${entryThreshold}σ`,
     });
-    lower2.setData(times.map((t) => ({ time: t, value: -2 })));
+    lower2.setData(times.map((t) => ({ time: t, value: -entryThreshold })));
 
     // Z-Score line
     const zScoreSeries = chart.addSeries(LineSeries, {
@@ -134,6 +141,7 @@ export default function ZScoreRSISubChart({
     zScoreSeries.setData(zScoreData.map((d) => ({ time: d.time, value: d.value })));
 
     chart.timeScale().fitContent();
+    syncChart?.('zscore', { chart, series: zScoreSeries });
 
     const handleResize = () => {
       if (zScoreContainerRef.current) {
@@ -145,9 +153,10 @@ export default function ZScoreRSISubChart({
 
     return () => {
       window.removeEventListener('resize', handleResize);
+      syncChart?.('zscore', null);
       chart.remove();
     };
-  }, [zScoreData, height, theme]);
+  }, [zScoreData, entryThreshold, exitThreshold, height, theme, syncChart]);
 
   // RSI chart
   useEffect(() => {
@@ -180,14 +189,14 @@ export default function ZScoreRSISubChart({
 
     const times = rsiData.map((d) => d.time);
 
-    // Overbought line (70)
+    // Overbought line
     const overbought = chart.addSeries(LineSeries, {
       color: 'hsl(0, 84%, 60%)',
       lineWidth: 1,
       lineStyle: 2,
-      title: '70',
+      title: String(rsiOverbought),
     });
-    overbought.setData(times.map((t) => ({ time: t, value: 70 })));
+    overbought.setData(times.map((t) => ({ time: t, value: rsiOverbought })));
 
     // Middle line (50)
     const middle = chart.addSeries(LineSeries, {
@@ -197,14 +206,14 @@ export default function ZScoreRSISubChart({
     });
     middle.setData(times.map((t) => ({ time: t, value: 50 })));
 
-    // Oversold line (30)
+    // Oversold line
     const oversold = chart.addSeries(LineSeries, {
       color: 'hsl(142, 71%, 45%)',
       lineWidth: 1,
       lineStyle: 2,
-      title: '30',
+      title: String(rsiOversold),
     });
-    oversold.setData(times.map((t) => ({ time: t, value: 30 })));
+    oversold.setData(times.map((t) => ({ time: t, value: rsiOversold })));
 
     // RSI line
     const rsiSeries = chart.addSeries(LineSeries, {
@@ -215,6 +224,7 @@ export default function ZScoreRSISubChart({
     rsiSeries.setData(rsiData.map((d) => ({ time: d.time, value: d.value })));
 
     chart.timeScale().fitContent();
+    syncChart?.('rsi', { chart, series: rsiSeries });
 
     const handleResize = () => {
       if (rsiContainerRef.current) {
@@ -226,9 +236,10 @@ export default function ZScoreRSISubChart({
 
     return () => {
       window.removeEventListener('resize', handleResize);
+      syncChart?.('rsi', null);
       chart.remove();
     };
-  }, [rsiData, height, theme]);
+  }, [rsiData, rsiOverbought, rsiOversold, height, theme, syncChart]);
 
   return (
     <div className="space-y-4">
@@ -237,7 +248,7 @@ export default function ZScoreRSISubChart({
         <div ref={zScoreContainerRef} className="w-full" />
       </div>
       <div>
-        <p className="text-xs text-muted-foreground mb-2">RSI (Length: {rsiLength})</p>
+        <p className="text-xs text-muted-foreground mb-2">RSI (Length: {rsiLength}{rsiMode === 'wilder' ? ', Wilder' : ''})</p>
         <div ref={rsiContainerRef} className="w-full" />
       </div>
     </div>
@@ -2,6 +2,7 @@ import { ReactNode } from 'react';
 import { Link, useLocation } from 'react-router-dom';
 import { useAuth } from '@/contexts/AuthContext';
 import { useTheme } from '@/contexts/ThemeContext';
+import { useTradingHalt } from '@/hooks/useTradingHalt';
 import { Button } from '@/components/ui/button';
 import {
   DropdownMenu,
@@ -24,6 +25,12 @@ import {
   User,
   DollarSign,
   Activity,
+  Radar,
+  Target,
+  Archive,
+  Briefcase,
+  OctagonAlert,
+  LineChart,
 } from 'lucide-react';
 import { cn } from '@/lib/utils';
 
@@ -33,9 +40,14 @@ interface AppLayoutProps {
 
 const navItems = [
   { path: '/', label: 'Dashboard', icon: LayoutDashboard },
+  { path: '/scan', label: 'My Scan', icon: Radar },
+  { path: '/archive', label: 'Archive', icon: Archive },
+  { path: '/scorecard', label: 'Scorecard', icon: Target },
+  { path: '/positions', label: 'Positions', icon: Briefcase },
   { path: '/funding', label: 'Funding', icon: DollarSign },
   { path: '/options', label: 'Options', icon: Activity },
   { path: '/history', label: 'History', icon: History },
+  { path: '/performance', label: 'Performance', icon: LineChart },
   { path: '/settings', label: 'Settings', icon: Settings },
 ];
 
@@ -47,6 +59,7 @@ export default function AppLayout({ children }: AppLayoutProps) {
   const { profile, isAdmin, signOut } = useAuth();
   const { theme, toggleTheme } = useTheme();
   const location = useLocation();
+  const { halt } = useTradingHalt();
 
   const initials = profile?.display_name
     ? profile.display_name.slice(0, 2).toUpperCase()
@@ -171,6 +184,22 @@ export default function AppLayout({ children }: AppLayoutProps) {
         </div>
       </header>
 
+      {/* Trading halt */}
+      {halt?.halted && (
+        <div className="border-b border-destructive/50 bg-destructive/10">
+          <div className="container flex flex-wrap items-center gap-x-3 gap-y-1 py-2 text-sm text-destructive">
+            <OctagonAlert className="h-4 w-4 shrink-0" />
+            <span className="font-semibold">Trading halted</span>
+            {halt.reason && <span>{halt.reason}</span>}
+            {halt.haltedAt && (
+              <span className="text-xs opacity-80 sm:ml-auto">
+                since {new Date(halt.haltedAt).toLocaleString()}
+              </span>
+            )}
+          </div>
+        </div>
+      )}
+
       {/* Main Content */}
       <main className="container py-6">{children}</main>
     </div>
@@ -0,0 +1,60 @@
+import { useMemo } from 'react';
+import { calendarMonths } from '@/lib/performanceAnalytics';
+import { cn } from '@/lib/utils';
+import type { DailyPerformance } from '@/types/analytics';
+
+interface ReturnsCalendarProps {
+  days: DailyPerformance[];
+}
+
+const WEEKDAYS = ['M', 'T', 'W', 'T', 'F', 'S', 'S'];
+
+const formatReturn = (r: number) => `${r >= 0 ? '+' : ''}${(r * 100).toFixed(2)}%`;
+
+function monthLabel(month: string): string {
+  return new Date(`${month}-01T00:00:00.000Z`).toLocaleDateString('en-US', {
+    month: 'short',
+    year: 'numeric',
+    timeZone: 'UTC',
+  });
+}
+
+export default function ReturnsCalendar({ days }: ReturnsCalendarProps) {
+  const months = useMemo(() => calendarMonths(days), [days]);
+  // Shade relative to the biggest day in view so quiet periods still show contrast
+  const scale = useMemo(() => Math.max(...days.map((d) => Math.abs(d.return)), 0), [days]);
+
+  if (months.length === 0) {
+    return <p className="text-sm text-muted-foreground">No days in range</p>;
+  }
+
+  return (
+    <div className="flex flex-wrap gap-6">
+      {months.map(({ month, cells }) => (
+        <div key={month} className="space-y-1">
+          <p className="text-xs font-medium text-muted-foreground">{monthLabel(month)}</p>
+          <div className="grid grid-cols-7 gap-1">
+            {WEEKDAYS.map((d, i) => (
+              <span key={i} className="h-4 w-4 text-center text-[10px] text-muted-foreground">{d}</span>
+            ))}
+            {cells.map((cell, i) => {
+              if (!cell) return <span key={i} className="h-4 w-4" />;
+              const intensity = scale > 0 ? Math.abs(cell.return) / scale : 0;
+              return (
+                <span
+                  key={i}
+                  title={`${cell.date}: ${formatReturn(cell.return)}`}
+                  className={cn(
+                    'h-4 w-4 rounded-sm',
+                    cell.pnl === 0 ? 'bg-muted' : cell.pnl > 0 ? 'bg-success' : 'bg-destructive'
+                  )}
+                  style={cell.pnl === 0 ? undefined : { opacity: 0.25 + 0.75 * intensity }}
+                />
+              );
+            })}
+          </div>
+        </div>
+      ))}
+    </div>
+  );
+}
@@ -0,0 +1,208 @@
+import { useEffect, useMemo, useState } from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Skeleton } from '@/components/ui/skeleton';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+import { AlertCircle, AlertTriangle, Layers, Loader2, Save } from 'lucide-react';
+import { toast } from 'sonner';
+import { supabase } from '@/integrations/supabase/client';
+import { useAuth } from '@/contexts/AuthContext';
+import type { UserSettings } from '@/hooks/useUserSettings';
+import type { ExecutionRow } from '@/lib/executionStore';
+import { parseOrderDetails } from '@/lib/executions';
+import { aggregateExposure, exposureCap } from '@/lib/portfolioRisk';
+import { cn } from '@/lib/utils';
+import type { ExposureLeg, ExposureMarket } from '@/types/portfolio';
+
+interface PortfolioExposureCardProps {
+  legs: ExposureLeg[];
+  /** Executions whose unwind failed, leaving one leg open on its own. */
+  stranded: ExecutionRow[];
+  market: ExposureMarket;
+  loading: boolean;
+  error: string | null;
+  settings: UserSettings | null;
+  onCapSaved: () => void;
+}
+
+const formatUsd = (v: number) => `$${Math.abs(v).toLocaleString(undefined, { maximumFractionDigits: 0 })}`;
+const formatSigned = (v: number) => `${v < 0 ? '−' : v > 0 ? '+' : ''}${formatUsd(v)}`;
+
+export default function PortfolioExposureCard({ legs, stranded, market, loading, error, settings, onCapSaved }: PortfolioExposureCardProps) {
+  const { user } = useAuth();
+  const cap = exposureCap(settings);
+  const [capInput, setCapInput] = useState('');
+  const [saving, setSaving] = useState(false);
+  const exposure = useMemo(() => aggregateExposure(legs, market), [legs, market]);
+
+  useEffect(() => {
+    setCapInput(cap === null ? '' : String(cap));
+  }, [cap]);
+
+  const handleSaveCap = async () => {
+    if (!user) return;
+    setSaving(true);
+    try {
+      const value = parseFloat(capInput);
+      const { error: saveError } = await supabase
+        .from('user_settings')
+        .update({ max_asset_exposure_usd: Number.isFinite(value) && value > 0 ? value : null })
+        .eq('user_id', user.id);
+      if (saveError) throw saveError;
+      toast.success('Exposure cap saved');
+      onCapSaved();
+    } catch (e) {
+      if (import.meta.env.DEV) console.error('Error saving exposure cap:', e);
+      toast.error('Failed to save exposure cap');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Layers className="h-5 w-5" />
+          Portfolio Exposure
+        </CardTitle>
+        <CardDescription>
+          Open legs across every pair netted by asset, marked at the latest price. β is each asset's hourly
+          return beta to BTC.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {stranded.length > 0 && (
+          <div className="space-y-1 rounded-lg border border-destructive/50 bg-destructive/10 p-3 text-sm text-destructive">
+            <p className="flex items-center gap-1.5 font-medium">
+              <AlertTriangle className="h-4 w-4 shrink-0" />
+              Unhedged legs left open by a failed unwind; close them on the exchange
+            </p>
+            {stranded.map((row) => {
+              const fills = parseOrderDetails(row.order_details)?.fills ?? [];
+              return (
+                <p key={row.id} className="font-mono text-xs">
+                  {fills.map((f) => `${f.side} ${f.quantity} ${f.symbol}`).join(', ') || row.id.slice(0, 8)}
+                  {row.error_message && <span className="font-sans"> · {row.error_message}</span>}
+                </p>
+              );
+            })}
+          </div>
+        )}
+        {error ? (
+          <div className="flex items-center gap-2 text-sm text-destructive">
+            <AlertCircle className="h-4 w-4" />
+            {error}
+          </div>
+        ) : loading ? (
+          <div className="space-y-2">
+            {[...Array(3)].map((_, i) => <Skeleton key={i} className="h-10 w-full" />)}
+          </div>
+        ) : legs.length === 0 ? (
+          <p className="text-center py-6 text-sm text-muted-foreground">No open exposure</p>
+        ) : (
+          <>
+            <div className="grid gap-4 sm:grid-cols-4 text-sm">
+              <div>
+                <p className="text-xs text-muted-foreground">Gross Notional</p>
+                <p className="font-mono font-medium">{formatUsd(exposure.gross)}</p>
+              </div>
+              <div>
+                <p className="text-xs text-muted-foreground">Net Notional</p>
+                <p className="font-mono font-medium">{formatSigned(exposure.net)}</p>
+              </div>
+              <div>
+                <p className="text-xs text-muted-foreground">BTC β-Weighted</p>
+                <p className="font-mono font-medium">{formatSigned(exposure.btcExposure)}</p>
+              </div>
+              <div>
+                <p className="text-xs text-muted-foreground">Margin Committed</p>
+                <p className="font-mono font-medium">{formatUsd(exposure.margin)}</p>
+              </div>
+            </div>
+
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Asset</TableHead>
+                  <TableHead>Venues</TableHead>
+                  <TableHead className="text-right">Long</TableHead>
+                  <TableHead className="text-right">Short</TableHead>
+                  <TableHead className="text-right">Net</TableHead>
+                  <TableHead className="text-right">Gross</TableHead>
+                  <TableHead className="text-right">β to BTC</TableHead>
+                  <TableHead className="text-right">BTC β-Weighted</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {exposure.assets.map((asset) => (
+                  <TableRow key={asset.asset}>
+                    <TableCell className="font-mono font-medium">{asset.asset}</TableCell>
+                    <TableCell>
+                      <div className="flex flex-wrap gap-1">
+                        {asset.exchanges.map((e) => (
+                          <Badge key={e} variant="outline" className="text-xs capitalize">{e}</Badge>
+                        ))}
+                      </div>
+                    </TableCell>
+                    <TableCell className="text-right font-mono text-long">{formatUsd(asset.long)}</TableCell>
+                    <TableCell className="text-right font-mono text-short">{formatUsd(asset.short)}</TableCell>
+                    <TableCell
+                      className={cn('text-right font-mono font-medium', cap !== null && Math.abs(asset.net) > cap && 'text-warning')}
+                    >
+                      {formatSigned(asset.net)}
+                    </TableCell>
+                    <TableCell className="text-right font-mono">{formatUsd(asset.gross)}</TableCell>
+                    <TableCell className="text-right font-mono">{asset.beta.toFixed(2)}</TableCell>
+                    <TableCell className="text-right font-mono">{formatSigned(asset.btcExposure)}</TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+
+            <div className="flex flex-wrap gap-4 text-xs text-muted-foreground">
+              {exposure.exchanges.map((e) => (
+                <span key={e.exchange}>
+                  <span className="capitalize font-medium text-foreground">{e.exchange}</span>: {formatUsd(e.gross)} gross,{' '}
+                  {formatSigned(e.net)} net, {formatUsd(e.margin)} margin
+                </span>
+              ))}
+            </div>
+          </>
+        )}
+
+        <div className="flex flex-col gap-2 sm:flex-row sm:items-end">
+          <div className="space-y-1.5 sm:w-64">
+            <Label htmlFor="exposure-cap" className="text-xs text-muted-foreground">Per-asset net exposure cap (USD)</Label>
+            <Input
+              id="exposure-cap"
+              type="number"
+              min={0}
+              step={100}
+              placeholder="Off"
+              value={capInput}
+              onChange={(e) => setCapInput(e.target.value)}
+            />
+          </div>
+          <Button variant="outline" onClick={handleSaveCap} disabled={saving || !user}>
+            {saving ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <Save className="mr-2 h-4 w-4" />}
+            Save Cap
+          </Button>
+          <p className="text-xs text-muted-foreground sm:pb-2">
+            Execution previews warn when a new pair would push any asset past it
+          </p>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,170 @@
+import { Link } from 'react-router-dom';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Skeleton } from '@/components/ui/skeleton';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+import { AlertCircle, Eye, Radar, RefreshCw } from 'lucide-react';
+import { cn } from '@/lib/utils';
+import type { OpenPairPosition, PositionReading } from '@/hooks/usePositionMonitor';
+import { formatHoldingTime } from '@/lib/executionHistory';
+import { POSITION_ACTION_LABELS, PositionAction } from '@/lib/positionMonitor';
+
+interface PositionMonitorCardProps {
+  positions: OpenPairPosition[];
+  readings: Record<string, PositionReading>;
+  readErrors: Record<string, string>;
+  loading: boolean;
+  reading: boolean;
+  error: string | null;
+  exitZ: number;
+  stopZ: number | null;
+  onRefresh: () => void;
+}
+
+const actionClasses: Record<PositionAction, string> = {
+  exit: 'bg-success/10 text-success border-success/50',
+  hold: 'bg-muted text-muted-foreground border-muted',
+  stop: 'bg-destructive/10 text-destructive border-destructive/50',
+};
+
+const formatZ = (z: number) => `${z > 0 ? '+' : ''}${z.toFixed(2)}`;
+
+export default function PositionMonitorCard({
+  positions,
+  readings,
+  readErrors,
+  loading,
+  reading,
+  error,
+  exitZ,
+  stopZ,
+  onRefresh,
+}: PositionMonitorCardProps) {
+  return (
+    <Card>
+      <CardHeader className="flex flex-row items-start justify-between space-y-0">
+        <div className="space-y-1.5">
+          <CardTitle className="flex items-center gap-2">
+            <Radar className="h-5 w-5" />
+            Open Pair Monitor
+          </CardTitle>
+          <CardDescription>
+            Paper and exchange pairs against your exit band of ±{exitZ}
+            {stopZ !== null ? ` and stop at |Z| ${stopZ}` : ''}
+          </CardDescription>
+        </div>
+        <Button variant="outline" size="sm" onClick={onRefresh} disabled={reading || positions.length === 0}>
+          <RefreshCw className={cn('mr-2 h-4 w-4', reading && 'animate-spin')} />
+          Re-read
+        </Button>
+      </CardHeader>
+      <CardContent>
+        {error ? (
+          <div className="text-center py-8 text-muted-foreground">
+            <AlertCircle className="h-8 w-8 mx-auto mb-4 opacity-50" />
+            <p>{error}</p>
+          </div>
+        ) : loading ? (
+          <div className="space-y-3">
+            {[...Array(2)].map((_, i) => (
+              <Skeleton key={i} className="h-12 w-full" />
+            ))}
+          </div>
+        ) : positions.length === 0 ? (
+          <p className="text-center py-8 text-sm text-muted-foreground">No open pair positions</p>
+        ) : (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Pair</TableHead>
+                <TableHead>Venue</TableHead>
+                <TableHead className="text-right">Entry Z</TableHead>
+                <TableHead className="text-right">Current Z</TableHead>
+                <TableHead className="text-right">To Exit</TableHead>
+                <TableHead className="text-right">Held / Half-Life</TableHead>
+                <TableHead>Recommendation</TableHead>
+                <TableHead></TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {positions.map((position) => {
+                const id = position.execution.id;
+                const readingRow = readings[id];
+                const monitor = readingRow?.monitor;
+                const readError = readErrors[id];
+                const [legA, legB] = position.details.legs;
+                const heldMs = (readingRow?.markedAt ?? Date.now()) - position.openedAt;
+
+                return (
+                  <TableRow key={id}>
+                    <TableCell className="font-mono font-medium">
+                      {legA.symbol} / {legB.symbol}
+                      <div className="text-xs text-muted-foreground font-sans">
+                        {position.details.direction === 'long_a_short_b' ? 'Long A / Short B' : 'Short A / Long B'}
+                      </div>
+                    </TableCell>
+                    <TableCell className="text-sm capitalize">{position.details.exchange ?? position.details.venue}</TableCell>
+                    <TableCell className="text-right font-mono">
+                      {readingRow?.entryZ == null ? '—' : formatZ(readingRow.entryZ)}
+                    </TableCell>
+                    <TableCell className="text-right font-mono">
+                      {readingRow ? formatZ(readingRow.z) : '—'}
+                    </TableCell>
+                    <TableCell className="text-right font-mono">
+                      {monitor ? (
+                        <span className={cn(monitor.distanceToExit <= 0 && 'text-success')}>
+                          {monitor.distanceToExit <= 0 ? 'In band' : monitor.distanceToExit.toFixed(2)}
+                        </span>
+                      ) : '—'}
+                    </TableCell>
+                    <TableCell className="text-right font-mono text-sm">
+                      {formatHoldingTime(Math.max(0, heldMs))}
+                      <span className="text-muted-foreground">
+                        {' / '}
+                        {position.halfLifeHours === null ? '—' : `${position.halfLifeHours.toFixed(1)}h`}
+                      </span>
+                      {monitor?.halfLivesElapsed != null && (
+                        <div className="text-xs text-muted-foreground">{monitor.halfLivesElapsed.toFixed(1)} half-lives</div>
+                      )}
+                    </TableCell>
+                    <TableCell className="max-w-[260px]">
+                      {monitor ? (
+                        <div className="space-y-1">
+                          <Badge variant="outline" className={actionClasses[monitor.action]}>
+                            {POSITION_ACTION_LABELS[monitor.action]}
+                          </Badge>
+                          <p className="text-xs text-muted-foreground">{monitor.reason}</p>
+                        </div>
+                      ) : readError ? (
+                        <span className="text-xs text-destructive">{readError}</span>
+                      ) : (
+                        <span className="text-xs text-muted-foreground">Reading…</span>
+                      )}
+                    </TableCell>
+                    <TableCell>
+                      {position.execution.signal_id && (
+                        <Link to={`/signal/${position.execution.signal_id}`}>
+                          <Button variant="ghost" size="sm">
+                            <Eye className="h-4 w-4" />
+                          </Button>
+                        </Link>
+                      )}
+                    </TableCell>
+                  </TableRow>
+                );
+              })}
+            </TableBody>
+          </Table>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
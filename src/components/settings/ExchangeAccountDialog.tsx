@@ -0,0 +1,170 @@
+import { useEffect, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { Loader2 } from 'lucide-react';
+import type { ExchangeAccountRow } from '@/lib/exchangeAccountStore';
+import { validateExchangeKeyInput } from '@/lib/exchangeKeys';
+import { ExchangeAccountForm, TRADING_EXCHANGE_LABELS } from '@/types/exchangeAccount';
+import { TRADING_EXCHANGES, TradingExchange } from '@/types/trading';
+
+interface ExchangeAccountDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  /** Account being edited; null adds a new one. */
+  account: ExchangeAccountRow | null;
+  onSubmit: (form: ExchangeAccountForm) => Promise<void>;
+}
+
+const emptyForm = (account: ExchangeAccountRow | null): ExchangeAccountForm => ({
+  exchange: (account?.exchange_name as TradingExchange) ?? 'bybit',
+  label: account?.label ?? '',
+  apiKey: '',
+  apiSecret: '',
+  passphrase: '',
+});
+
+export default function ExchangeAccountDialog({ open, onOpenChange, account, onSubmit }: ExchangeAccountDialogProps) {
+  const [form, setForm] = useState<ExchangeAccountForm>(() => emptyForm(account));
+  const [saving, setSaving] = useState(false);
+  const [problem, setProblem] = useState<string | null>(null);
+
+  // Secrets never linger in state between openings
+  useEffect(() => {
+    if (open) {
+      setForm(emptyForm(account));
+      setProblem(null);
+    }
+  }, [open, account]);
+
+  const editing = account !== null;
+  const rotating = form.apiKey.trim() !== '' || form.apiSecret.trim() !== '';
+  const set = (patch: Partial<ExchangeAccountForm>) => setForm((prev) => ({ ...prev, ...patch }));
+
+  const handleSubmit = async () => {
+    const invalid = editing && !rotating ? null : validateExchangeKeyInput(form);
+    if (invalid) {
+      setProblem(invalid);
+      return;
+    }
+    setSaving(true);
+    setProblem(null);
+    try {
+      await onSubmit(form);
+      onOpenChange(false);
+    } catch (e) {
+      setProblem(e instanceof Error ? e.message : 'Failed to save exchange account');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={(next) => !saving && onOpenChange(next)}>
+      <DialogContent className="sm:max-w-md">
+        <DialogHeader>
+          <DialogTitle>{editing ? 'Edit Exchange Account' : 'Add Exchange Account'}</DialogTitle>
+          <DialogDescription>
+            {editing
+              ? `Key ending ${account.api_key_hint ?? '????'} is stored encrypted. Enter a new key only to replace it.`
+              : 'The secret is encrypted server-side and cannot be viewed again after saving.'}
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="space-y-2">
+            <Label>Exchange</Label>
+            <Select
+              value={form.exchange}
+              onValueChange={(v) => set({ exchange: v as TradingExchange })}
+              disabled={editing}
+            >
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {TRADING_EXCHANGES.map((exchange) => (
+                  <SelectItem key={exchange} value={exchange}>
+                    {TRADING_EXCHANGE_LABELS[exchange]}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="exchange-label">Label</Label>
+            <Input
+              id="exchange-label"
+              placeholder="e.g. Main futures"
+              value={form.label}
+              onChange={(e) => set({ label: e.target.value })}
+            />
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="exchange-api-key">{editing ? 'New API Key' : 'API Key'}</Label>
+            <Input
+              id="exchange-api-key"
+              autoComplete="off"
+              spellCheck={false}
+              value={form.apiKey}
+              onChange={(e) => set({ apiKey: e.target.value })}
+            />
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="exchange-api-secret">{editing ? 'New API Secret' : 'API Secret'}</Label>
+            <Input
+              id="exchange-api-secret"
+              type="password"
+              autoComplete="new-password"
+              value={form.apiSecret}
+              onChange={(e) => set({ apiSecret: e.target.value })}
+            />
+          </div>
+
+          {form.exchange === 'okx' && (
+            <div className="space-y-2">
+              <Label htmlFor="exchange-passphrase">Passphrase</Label>
+              <Input
+                id="exchange-passphrase"
+                type="password"
+                autoComplete="new-password"
+                value={form.passphrase}
+                onChange={(e) => set({ passphrase: e.target.value })}
+              />
+            </div>
+          )}
+
+          {problem && <p className="text-sm text-destructive">{problem}</p>}
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)} disabled={saving}>
+            Cancel
+          </Button>
+          <Button onClick={handleSubmit} disabled={saving}>
+            {saving && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+            {editing ? 'Save Changes' : 'Add Account'}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,238 @@
+import { useState } from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from '@/components/ui/alert-dialog';
+import { AlertTriangle, Key, Loader2, Pencil, Plus, PlugZap, Trash2 } from 'lucide-react';
+import { toast } from 'sonner';
+import ExchangeAccountDialog from '@/components/settings/ExchangeAccountDialog';
+import { useExchangeAccounts } from '@/hooks/useExchangeAccounts';
+import type { ExchangeAccountRow } from '@/lib/exchangeAccountStore';
+import { cn } from '@/lib/utils';
+import {
+  EXCHANGE_ACCOUNT_STATUS_LABELS,
+  ExchangeAccountForm,
+  ExchangeAccountStatus,
+  TRADING_EXCHANGE_LABELS,
+} from '@/types/exchangeAccount';
+import type { TradingExchange } from '@/types/trading';
+
+const statusClasses: Record<ExchangeAccountStatus, string> = {
+  untested: 'bg-muted text-muted-foreground',
+  connected: 'bg-success/20 text-success',
+  failed: 'bg-destructive/20 text-destructive',
+  revoked: 'bg-muted text-muted-foreground line-through',
+};
+
+const errorMessage = (e: unknown, fallback: string) => (e instanceof Error ? e.message : fallback);
+
+function AccountRow({
+  account,
+  testing,
+  revoking,
+  onTest,
+  onEdit,
+  onRevoke,
+}: {
+  account: ExchangeAccountRow;
+  testing: boolean;
+  revoking: boolean;
+  onTest: () => void;
+  onEdit: () => void;
+  onRevoke: () => void;
+}) {
+  const status = account.status as ExchangeAccountStatus;
+  const revoked = status === 'revoked';
+  const busy = testing || revoking;
+
+  return (
+    <div className={cn('rounded-lg border p-4 space-y-2', revoked && 'opacity-60')}>
+      <div className="flex flex-wrap items-center justify-between gap-3">
+        <div className="flex items-center gap-3">
+          <Key className="h-4 w-4 text-muted-foreground" />
+          <div>
+            <p className="font-medium">
+              {account.label || TRADING_EXCHANGE_LABELS[account.exchange_name as TradingExchange] || account.exchange_name}
+            </p>
+            <p className="text-xs text-muted-foreground font-mono">
+              {TRADING_EXCHANGE_LABELS[account.exchange_name as TradingExchange] ?? account.exchange_name} · ••••{account.api_key_hint}
+            </p>
+          </div>
+          <Badge variant="outline" className={statusClasses[status]}>
+            {EXCHANGE_ACCOUNT_STATUS_LABELS[status] ?? account.status}
+          </Badge>
+        </div>
+        {!revoked && (
+          <div className="flex gap-2">
+            <Button variant="outline" size="sm" onClick={onTest} disabled={busy}>
+              {testing ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <PlugZap className="mr-2 h-4 w-4" />}
+              Test Connection
+            </Button>
+            <Button variant="outline" size="sm" onClick={onEdit} disabled={busy}>
+              <Pencil className="mr-2 h-4 w-4" />
+              Edit
+            </Button>
+            <Button variant="outline" size="sm" className="text-destructive" onClick={onRevoke} disabled={busy}>
+              {revoking ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <Trash2 className="mr-2 h-4 w-4" />}
+              Revoke
+            </Button>
+          </div>
+        )}
+      </div>
+
+      <div className="flex flex-wrap gap-x-4 gap-y-1 text-xs text-muted-foreground">
+        {account.permissions && account.permissions.length > 0 && (
+          <span>Permissions: {account.permissions.join(', ')}</span>
+        )}
+        {account.last_tested_at && <span>Last tested {new Date(account.last_tested_at).toLocaleString()}</span>}
+        {account.revoked_at && <span>Revoked {new Date(account.revoked_at).toLocaleString()}</span>}
+      </div>
+      {status === 'failed' && account.last_test_error && (
+        <p className="text-sm text-destructive">{account.last_test_error}</p>
+      )}
+    </div>
+  );
+}
+
+export default function ExchangeAccountsCard() {
+  const { accounts, loading, error, testingId, revokingId, add, update, revoke, test } = useExchangeAccounts();
+  const [dialogOpen, setDialogOpen] = useState(false);
+  const [editing, setEditing] = useState<ExchangeAccountRow | null>(null);
+  const [revokeTarget, setRevokeTarget] = useState<ExchangeAccountRow | null>(null);
+
+  const openDialog = (account: ExchangeAccountRow | null) => {
+    setEditing(account);
+    setDialogOpen(true);
+  };
+
+  const handleSubmit = async (form: ExchangeAccountForm) => {
+    if (editing) {
+      await update(editing.id, form);
+      toast.success(form.apiKey.trim() ? 'API key replaced. Test the connection before trading.' : 'Exchange account updated');
+    } else {
+      await add(form);
+      toast.success('Exchange account added. Test the connection before trading.');
+    }
+  };
+
+  const handleTest = async (account: ExchangeAccountRow) => {
+    try {
+      const result = await test(account.id);
+      if (result.connected) toast.success('Connected: key has trade-only permissions');
+      else toast.error(result.error ?? 'Connection test failed');
+    } catch (e) {
+      if (import.meta.env.DEV) console.error('Connection test error:', e);
+      toast.error(errorMessage(e, 'Connection test failed'));
+    }
+  };
+
+  const handleRevoke = async () => {
+    if (!revokeTarget) return;
+    const target = revokeTarget;
+    setRevokeTarget(null);
+    try {
+      await revoke(target.id);
+      toast.success('Exchange account revoked and its key deleted');
+    } catch (e) {
+      if (import.meta.env.DEV) console.error('Revoke error:', e);
+      toast.error(errorMessage(e, 'Failed to revoke exchange account'));
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader className="flex flex-row items-start justify-between space-y-0">
+        <div className="space-y-1.5">
+          <CardTitle>Exchange Accounts</CardTitle>
+          <CardDescription>
+            Connect your exchange API keys for trade execution
+          </CardDescription>
+        </div>
+        {accounts.length > 0 && (
+          <Button size="sm" onClick={() => openDialog(null)}>
+            <Plus className="mr-2 h-4 w-4" />
+            Add Account
+          </Button>
+        )}
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="rounded-lg border border-warning/50 bg-warning/5 p-4">
+          <div className="flex gap-3">
+            <AlertTriangle className="h-5 w-5 text-warning shrink-0 mt-0.5" />
+            <div className="space-y-1">
+              <p className="font-medium text-warning">Trade-Only Permissions Required</p>
+              <p className="text-sm text-muted-foreground">
+                Only create API keys with trade permissions. Keys with withdrawal or transfer permission fail the
+                connection test and cannot be used. Secrets are encrypted server-side and never shown again.
+              </p>
+            </div>
+          </div>
+        </div>
+
+        {loading ? (
+          <div className="flex justify-center py-8">
+            <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+          </div>
+        ) : error ? (
+          <p className="text-sm text-destructive">{error}</p>
+        ) : accounts.length === 0 ? (
+          <div className="text-center py-8 text-muted-foreground">
+            <Key className="h-12 w-12 mx-auto mb-4 opacity-50" />
+            <p>No exchange accounts connected</p>
+            <p className="text-sm mb-4">Connect your exchange to enable trade execution</p>
+            <Button onClick={() => openDialog(null)}>
+              <Plus className="mr-2 h-4 w-4" />
+              Add Exchange Account
+            </Button>
+          </div>
+        ) : (
+          <div className="space-y-3">
+            {accounts.map((account) => (
+              <AccountRow
+                key={account.id}
+                account={account}
+                testing={testingId === account.id}
+                revoking={revokingId === account.id}
+                onTest={() => handleTest(account)}
+                onEdit={() => openDialog(account)}
+                onRevoke={() => setRevokeTarget(account)}
+              />
+            ))}
+          </div>
+        )}
+      </CardContent>
+
+      <ExchangeAccountDialog
+        open={dialogOpen}
+        onOpenChange={setDialogOpen}
+        account={editing}
+        onSubmit={handleSubmit}
+      />
+
+      <AlertDialog open={revokeTarget !== null} onOpenChange={(open) => !open && setRevokeTarget(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Revoke exchange account?</AlertDialogTitle>
+            <AlertDialogDescription>
+              The stored key ending {revokeTarget?.api_key_hint} is deleted and can no longer be used for
+              trading. Also delete the key on the exchange itself.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction onClick={handleRevoke}>Revoke</AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </Card>
+  );
+}
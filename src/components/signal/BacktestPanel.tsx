@@ -0,0 +1,342 @@
+import { useMemo, useState } from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+import { AlertCircle, Loader2, Play, TrendingDown, TrendingUp } from 'lucide-react';
+import EquityCurveChart from '@/components/charts/EquityCurveChart';
+import { usePairCandles } from '@/hooks/usePairCandles';
+import type { UserSettings } from '@/hooks/useUserSettings';
+import { BacktestConfig, ExitReason, runPairBacktest } from '@/lib/backtest';
+import { cn } from '@/lib/utils';
+import {
+  BAR_INTERVAL_SECONDS,
+  BarInterval,
+  DEFAULT_KALMAN_PARAMS,
+  MarketDataExchange,
+  PairConstruction,
+} from '@/types/marketData';
+
+const MAX_BACKTEST_BARS = 5000;
+
+const exitReasonLabels: Record<ExitReason, string> = {
+  exit_threshold: 'Exit Z',
+  stop_loss: 'Stop',
+  time_stop: 'Time',
+  end_of_data: 'End',
+};
+
+interface BacktestPanelProps {
+  symbolA: string;
+  symbolB: string;
+  beta: number | null;
+  halfLifeHours: number | null;
+  interval: BarInterval;
+  settings: UserSettings | null;
+  exchange?: MarketDataExchange;
+}
+
+interface BacktestForm {
+  mode: PairConstruction['mode'];
+  zScoreLength: number;
+  entryZ: number;
+  exitZ: number;
+  stopEnabled: boolean;
+  stopZ: number;
+  timeStopEnabled: boolean;
+  halfLifeMultiple: number;
+  rsiEnabled: boolean;
+  feePercent: number;
+  slippagePercent: number;
+}
+
+function formatPct(v: number, digits = 2): string {
+  return `${v >= 0 ? '+' : ''}${(v * 100).toFixed(digits)}%`;
+}
+
+function formatBarTime(time: unknown): string {
+  return new Date(Number(time) * 1000).toLocaleString('en-US', {
+    month: 'short',
+    day: 'numeric',
+    hour: '2-digit',
+    minute: '2-digit',
+  });
+}
+
+export default function BacktestPanel({
+  symbolA,
+  symbolB,
+  beta,
+  halfLifeHours,
+  interval,
+  settings,
+  exchange = 'bybit',
+}: BacktestPanelProps) {
+  const barSeconds = BAR_INTERVAL_SECONDS[interval];
+  const lookbackDays = Number(settings?.lookback_days ?? 90);
+  const limit = Math.min(Math.round((lookbackDays * 86400) / barSeconds), MAX_BACKTEST_BARS);
+
+  const { aligned, loading, error } = usePairCandles({ symbolA, symbolB, interval, limit, exchange });
+
+  const [form, setForm] = useState<BacktestForm>({
+    mode: 'ratio',
+    zScoreLength: 250,
+    entryZ: Number(settings?.zscore_entry_threshold ?? 2),
+    exitZ: Number(settings?.zscore_exit_threshold ?? 0.5),
+    stopEnabled: true,
+    stopZ: 4,
+    timeStopEnabled: halfLifeHours !== null && halfLifeHours > 0,
+    halfLifeMultiple: 3,
+    rsiEnabled: false,
+    feePercent: 0.055,
+    slippagePercent: Number(settings?.max_slippage_percent ?? 0.5),
+  });
+  const [appliedForm, setAppliedForm] = useState<BacktestForm>(form);
+
+  const result = useMemo(() => {
+    if (aligned.length === 0) return null;
+
+    const maxHoldingBars = appliedForm.timeStopEnabled && halfLifeHours
+      ? Math.max(1, Math.round(((halfLifeHours * 3600) / barSeconds) * appliedForm.halfLifeMultiple))
+      : null;
+
+    const config: BacktestConfig = {
+      construction: appliedForm.mode === 'kalman'
+        ? { mode: 'kalman', ...DEFAULT_KALMAN_PARAMS }
+        : appliedForm.mode === 'spread' && beta !== null ? { mode: 'spread', beta } : { mode: 'ratio' },
+      zScoreLength: appliedForm.zScoreLength,
+      entryZ: appliedForm.entryZ,
+      exitZ: appliedForm.exitZ,
+      stopZ: appliedForm.stopEnabled ? appliedForm.stopZ : null,
+      maxHoldingBars,
+      rsi: appliedForm.rsiEnabled ? { length: 14, overbought: 70, oversold: 30 } : null,
+      feeRate: appliedForm.feePercent / 100,
+      slippageRate: appliedForm.slippagePercent / 100,
+      periodsPerYear: (365 * 86400) / barSeconds,
+    };
+
+    return runPairBacktest(aligned, config);
+  }, [aligned, appliedForm, beta, halfLifeHours, barSeconds]);
+
+  const numberField = (key: keyof BacktestForm, label: string, step = 0.1, min = 0) => (
+    <div className="space-y-1.5">
+      <Label htmlFor={`bt-${key}`} className="text-xs text-muted-foreground">
+        {label}
+      </Label>
+      <Input
+        id={`bt-${key}`}
+        type="number"
+        value={form[key] as number}
+        step={step}
+        min={min}
+        onChange={(e) => setForm((f) => ({ ...f, [key]: Math.max(min, parseFloat(e.target.value) || 0) }))}
+        className="w-24 h-8 text-sm font-mono"
+      />
+    </div>
+  );
+
+  return (
+    <div className="space-y-6">
+      <Card>
+        <CardHeader>
+          <CardTitle className="text-lg">Backtest Parameters</CardTitle>
+          <CardDescription>
+            {aligned.length > 0
+              ? `${aligned.length} aligned ${interval} bars (${lookbackDays}d lookback). Fills at next bar open.`
+              : `${lookbackDays}d lookback on ${interval} bars. Fills at next bar open.`}
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <div className="flex flex-wrap gap-4 items-end">
+            <div className="space-y-1.5">
+              <Label className="text-xs text-muted-foreground">Construction</Label>
+              <Select
+                value={form.mode}
+                onValueChange={(v) => setForm((f) => ({ ...f, mode: v as BacktestForm['mode'] }))}
+              >
+                <SelectTrigger className="w-36 h-8 text-sm">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="ratio">Ratio</SelectItem>
+                  <SelectItem value="spread" disabled={beta === null}>Spread (β)</SelectItem>
+                  <SelectItem value="kalman">Kalman (βₜ)</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+            {numberField('zScoreLength', 'Z Length', 1, 10)}
+            {numberField('entryZ', 'Entry Z')}
+            {numberField('exitZ', 'Exit Z')}
+            {numberField('feePercent', 'Fee % / leg', 0.005)}
+            {numberField('slippagePercent', 'Slippage % / leg', 0.05)}
+          </div>
+
+          <div className="flex flex-wrap gap-6 items-end">
+            <div className="flex items-end gap-3">
+              <div className="flex items-center gap-2 h-8">
+                <Switch
+                  id="bt-stop"
+                  checked={form.stopEnabled}
+                  onCheckedChange={(v) => setForm((f) => ({ ...f, stopEnabled: v }))}
+                />
+                <Label htmlFor="bt-stop" className="text-sm">Stop-out</Label>
+              </div>
+              {form.stopEnabled && numberField('stopZ', 'Stop |Z|')}
+            </div>
+            <div className="flex items-end gap-3">
+              <div className="flex items-center gap-2 h-8">
+                <Switch
+                  id="bt-time"
+                  checked={form.timeStopEnabled}
+                  disabled={!halfLifeHours}
+                  onCheckedChange={(v) => setForm((f) => ({ ...f, timeStopEnabled: v }))}
+                />
+                <Label htmlFor="bt-time" className="text-sm">Time stop</Label>
+              </div>
+              {form.timeStopEnabled && numberField('halfLifeMultiple', '× Half-life', 0.5, 0.5)}
+            </div>
+            <div className="flex items-center gap-2 h-8">
+              <Switch
+                id="bt-rsi"
+                checked={form.rsiEnabled}
+                onCheckedChange={(v) => setForm((f) => ({ ...f, rsiEnabled: v }))}
+              />
+              <Label htmlFor="bt-rsi" className="text-sm">RSI confirmation</Label>
+            </div>
+            <Button size="sm" className="ml-auto" onClick={() => setAppliedForm(form)} disabled={loading}>
+              <Play className="mr-2 h-4 w-4" />
+              Run Backtest
+            </Button>
+          </div>
+        </CardContent>
+      </Card>
+
+      {loading ? (
+        <div className="flex items-center justify-center py-12">
+          <Loader2 className="h-8 w-8 animate-spin text-primary" />
+        </div>
+      ) : error || !result ? (
+        <div className="text-center py-12 text-muted-foreground">
+          <AlertCircle className="h-8 w-8 mx-auto mb-4 opacity-50" />
+          <p>{error || 'No candle data available for this pair'}</p>
+        </div>
+      ) : (
+        <>
+          <div className="grid grid-cols-2 md:grid-cols-3 lg:grid-cols-6 gap-4">
+            {[
+              { label: 'Trades', value: String(result.stats.trades) },
+              { label: 'Hit Rate', value: result.stats.trades > 0 ? `${(result.stats.hitRate * 100).toFixed(0)}%` : '—' },
+              { label: 'Total Return', value: formatPct(result.stats.totalReturn), tone: result.stats.totalReturn },
+              { label: 'Sharpe', value: result.stats.sharpe.toFixed(2), tone: result.stats.sharpe },
+              { label: 'Max Drawdown', value: `${(result.stats.maxDrawdown * 100).toFixed(2)}%` },
+              { label: 'Avg Hold', value: `${result.stats.avgBarsHeld.toFixed(1)} bars` },
+            ].map((stat) => (
+              <Card key={stat.label}>
+                <CardHeader className="pb-2">
+                  <CardTitle className="text-sm font-medium text-muted-foreground">{stat.label}</CardTitle>
+                </CardHeader>
+                <CardContent>
+                  <div className={cn(
+                    "text-2xl font-bold font-mono",
+                    stat.tone !== undefined && (stat.tone >= 0 ? "text-long" : "text-short")
+                  )}>
+                    {stat.value}
+                  </div>
+                </CardContent>
+              </Card>
+            ))}
+          </div>
+
+          <Card>
+            <CardHeader>
+              <CardTitle className="text-lg">Equity Curve</CardTitle>
+              <CardDescription>Growth of 1.0 unit of capital, marked to market each bar</CardDescription>
+            </CardHeader>
+            <CardContent>
+              <EquityCurveChart equityData={result.equity} height={260} />
+            </CardContent>
+          </Card>
+
+          <Card>
+            <CardHeader>
+              <CardTitle className="text-lg">Trades</CardTitle>
+            </CardHeader>
+            <CardContent>
+              {result.trades.length === 0 ? (
+                <p className="text-center py-8 text-muted-foreground">No trades triggered with these parameters</p>
+              ) : (
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Direction</TableHead>
+                      <TableHead>Entry</TableHead>
+                      <TableHead>Exit</TableHead>
+                      <TableHead className="text-right">Entry Z</TableHead>
+                      <TableHead className="text-right">Exit Z</TableHead>
+                      <TableHead className="text-right">Bars</TableHead>
+                      <TableHead className="text-right">Net</TableHead>
+                      <TableHead>Reason</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {result.trades.map((trade, idx) => {
+                      const isLong = trade.direction === 'long_a_short_b';
+                      return (
+                        <TableRow key={idx}>
+                          <TableCell>
+                            <Badge
+                              variant="outline"
+                              className={cn(
+                                isLong
+                                  ? 'border-long/50 text-long bg-long/10'
+                                  : 'border-short/50 text-short bg-short/10'
+                              )}
+                            >
+                              {isLong ? <TrendingUp className="mr-1 h-3 w-3" /> : <TrendingDown className="mr-1 h-3 w-3" />}
+                              {isLong ? 'Long A' : 'Short A'}
+                            </Badge>
+                          </TableCell>
+                          <TableCell className="text-sm">{formatBarTime(trade.entryTime)}</TableCell>
+                          <TableCell className="text-sm">{formatBarTime(trade.exitTime)}</TableCell>
+                          <TableCell className="text-right font-mono">{trade.entryZ.toFixed(2)}</TableCell>
+                          <TableCell className="text-right font-mono">{trade.exitZ.toFixed(2)}</TableCell>
+                          <TableCell className="text-right font-mono">{trade.barsHeld}</TableCell>
+                          <TableCell className={cn(
+                            "text-right font-mono",
+                            trade.netReturn >= 0 ? "text-long" : "text-short"
+                          )}>
+                            {formatPct(trade.netReturn)}
+                          </TableCell>
+                          <TableCell>
+                            <Badge variant="secondary">{exitReasonLabels[trade.exitReason]}</Badge>
+                          </TableCell>
+                        </TableRow>
+                      );
+                    })}
+                  </TableBody>
+                </Table>
+              )}
+            </CardContent>
+          </Card>
+        </>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,112 @@
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Separator } from '@/components/ui/separator';
+import { AlertCircle, AlertTriangle, CheckCircle2, Loader2 } from 'lucide-react';
+import { EngleGrangerResult, pValuesDisagree } from '@/lib/cointegration';
+import { cn } from '@/lib/utils';
+
+interface CointegrationCheckProps {
+  symbolA: string;
+  symbolB: string;
+  result: EngleGrangerResult | null;
+  storedPValue: number | null;
+  /** Significance level used to compare the two p-values (user's max_cointegration_pvalue). */
+  alpha: number;
+  loading: boolean;
+  error: string | null;
+}
+
+export default function CointegrationCheck({
+  symbolA,
+  symbolB,
+  result,
+  storedPValue,
+  alpha,
+  loading,
+  error,
+}: CointegrationCheckProps) {
+  const disagrees = result !== null && storedPValue !== null && pValuesDisagree(storedPValue, result.pValue, alpha);
+
+  const rows = result
+    ? [
+        { label: 'ADF statistic', value: result.statistic.toFixed(3) },
+        {
+          label: 'Critical values (1% / 5% / 10%)',
+          value: `${result.criticalValues['1%'].toFixed(2)} / ${result.criticalValues['5%'].toFixed(2)} / ${result.criticalValues['10%'].toFixed(2)}`,
+        },
+        { label: 'Hedge ratio (OLS)', value: result.beta.toFixed(4) },
+        { label: 'ADF lags (AIC)', value: String(result.usedLag) },
+        { label: 'Bars', value: String(result.nobs) },
+      ]
+    : [];
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-start justify-between gap-4">
+          <div>
+            <CardTitle className="text-lg">Cointegration Check</CardTitle>
+            <CardDescription>
+              Engle-Granger on log closes, ln {symbolA} ~ ln {symbolB}, recomputed locally
+            </CardDescription>
+          </div>
+          {result && storedPValue !== null && (
+            <Badge
+              variant="outline"
+              className={cn(disagrees ? 'border-warning text-warning' : 'border-success text-success')}
+            >
+              {disagrees ? (
+                <AlertTriangle className="h-3 w-3 mr-1" />
+              ) : (
+                <CheckCircle2 className="h-3 w-3 mr-1" />
+              )}
+              {disagrees ? 'Disagrees with stored' : 'Agrees with stored'}
+            </Badge>
+          )}
+        </div>
+      </CardHeader>
+      <CardContent>
+        {loading ? (
+          <div className="flex items-center justify-center py-6">
+            <Loader2 className="h-6 w-6 animate-spin text-primary" />
+          </div>
+        ) : error || !result ? (
+          <div className="text-center py-6 text-muted-foreground">
+            <AlertCircle className="h-6 w-6 mx-auto mb-2 opacity-50" />
+            <p className="text-sm">{error || 'Not enough candle data to recompute'}</p>
+          </div>
+        ) : (
+          <div className="space-y-4">
+            <div className="grid grid-cols-2 gap-4">
+              <div>
+                <p className="text-xs text-muted-foreground">Stored p-value</p>
+                <p className="text-2xl font-bold font-mono">{storedPValue?.toFixed(4) ?? 'N/A'}</p>
+              </div>
+              <div>
+                <p className="text-xs text-muted-foreground">Local p-value</p>
+                <p className={cn('text-2xl font-bold font-mono', disagrees && 'text-warning')}>
+                  {result.pValue.toFixed(4)}
+                </p>
+              </div>
+            </div>
+            {disagrees && (
+              <p className="text-xs text-warning">
+                The two values fall on opposite sides of your p-value limit ({alpha}). The stored metric may be
+                stale or computed on a different window.
+              </p>
+            )}
+            <Separator />
+            <div className="space-y-2">
+              {rows.map((row) => (
+                <div key={row.label} className="flex items-center justify-between text-sm">
+                  <span className="text-muted-foreground">{row.label}</span>
+                  <span className="font-mono">{row.value}</span>
+                </div>
+              ))}
+            </div>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
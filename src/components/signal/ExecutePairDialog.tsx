@@ -0,0 +1,363 @@
+import { useEffect, useMemo, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+import { Link } from 'react-router-dom';
+import { AlertTriangle, CheckCircle2, Clock, Loader2, OctagonAlert, ShieldAlert, XCircle } from 'lucide-react';
+import { toast } from 'sonner';
+import ExposureImpact from '@/components/signal/ExposureImpact';
+import type { UserSettings } from '@/hooks/useUserSettings';
+import { useExecutionFlow } from '@/hooks/useExecutionFlow';
+import { useTradingHalt } from '@/hooks/useTradingHalt';
+import type { TradeDirection } from '@/lib/backtest';
+import { isPreviewExpired, parseOrderDetails, previewProblems, worstPrice } from '@/lib/executions';
+import { cn } from '@/lib/utils';
+import type { ExecutionOrderLeg, ExecutionVenue, OrderType } from '@/types/execution';
+import { RISK_LIMIT_LABELS } from '@/types/riskLimits';
+import type { MarginMode, PairSizing } from '@/types/sizing';
+
+interface ExecutePairDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  signalId: string;
+  signalExpired: boolean;
+  direction: TradeDirection;
+  hedgeRatio: number;
+  sizing: PairSizing;
+  marginMode: MarginMode;
+  /** Equity the sizing was computed from. */
+  equity: number;
+  settings: UserSettings | null;
+}
+
+const formatUsd = (v: number) => `$${v.toLocaleString(undefined, { minimumFractionDigits: 2, maximumFractionDigits: 2 })}`;
+const formatNumber = (v: number) => v.toLocaleString(undefined, { maximumFractionDigits: 8 });
+
+function OrderLegsTable({ legs }: { legs: ExecutionOrderLeg[] }) {
+  return (
+    <Table>
+      <TableHeader>
+        <TableRow>
+          <TableHead>Symbol</TableHead>
+          <TableHead>Side</TableHead>
+          <TableHead className="text-right">Quantity</TableHead>
+          <TableHead className="text-right">Ref. Price</TableHead>
+          <TableHead className="text-right">Worst Price</TableHead>
+          <TableHead className="text-right">Notional</TableHead>
+          <TableHead className="text-right">Margin</TableHead>
+        </TableRow>
+      </TableHeader>
+      <TableBody>
+        {legs.map((leg) => (
+          <TableRow key={leg.symbol}>
+            <TableCell className="font-mono font-medium">{leg.symbol}</TableCell>
+            <TableCell>
+              <Badge
+                variant="outline"
+                className={cn(leg.side === 'buy' ? 'border-long/50 text-long bg-long/10' : 'border-short/50 text-short bg-short/10')}
+              >
+                {leg.side === 'buy' ? 'Buy' : 'Sell'} · {leg.order_type}
+              </Badge>
+            </TableCell>
+            <TableCell className="text-right font-mono">{formatNumber(leg.quantity)}</TableCell>
+            <TableCell className="text-right font-mono">{formatNumber(leg.reference_price)}</TableCell>
+            <TableCell className="text-right font-mono">{formatNumber(leg.worst_price)}</TableCell>
+            <TableCell className="text-right font-mono">{formatUsd(leg.notional)}</TableCell>
+            <TableCell className="text-right font-mono">
+              {formatUsd(leg.margin)}
+              <span className="text-muted-foreground"> @ {leg.leverage}×</span>
+            </TableCell>
+          </TableRow>
+        ))}
+      </TableBody>
+    </Table>
+  );
+}
+
+export default function ExecutePairDialog({
+  open,
+  onOpenChange,
+  signalId,
+  signalExpired,
+  direction,
+  hedgeRatio,
+  sizing,
+  marginMode,
+  equity,
+  settings,
+}: ExecutePairDialogProps) {
+  const flow = useExecutionFlow(settings);
+  const { execution } = flow;
+  const { halt, halted } = useTradingHalt();
+  const orderType: OrderType = settings?.order_type === 'limit' ? 'limit' : 'market';
+  const [slippagePercent, setSlippagePercent] = useState(Number(settings?.max_slippage_percent ?? 0.5));
+  const [acknowledged, setAcknowledged] = useState(false);
+  // Nothing routes confirmed exchange executions yet, so every execution is paper
+  const venue: ExecutionVenue = 'paper';
+  const [now, setNow] = useState(() => Date.now());
+
+  const details = execution ? parseOrderDetails(execution.order_details) : null;
+  const status = execution?.status ?? null;
+  const problems = useMemo(() => previewProblems(sizing), [sizing]);
+
+  // Draft legs before anything is persisted
+  const draftLegs: ExecutionOrderLeg[] = [sizing.legA, sizing.legB].map((leg) => ({
+    symbol: leg.symbol,
+    side: leg.side,
+    order_type: orderType,
+    quantity: leg.quantity,
+    reference_price: leg.price,
+    worst_price: worstPrice(leg.side, leg.price, slippagePercent, leg.tickSize),
+    notional: leg.notional,
+    leverage: leg.leverage,
+    margin: leg.margin,
+  }));
+
+  useEffect(() => {
+    if (status !== 'preview') return;
+    const timer = setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(timer);
+  }, [status]);
+
+  const expired = details ? isPreviewExpired(details, now) : false;
+  const secondsLeft = details ? Math.max(0, Math.ceil((new Date(details.preview_expires_at).getTime() - now) / 1000)) : 0;
+
+  const { checkLimits } = flow;
+  useEffect(() => {
+    if (!open || execution) return;
+    checkLimits({ signalId, venue, direction, hedgeRatio, sizing, marginMode, orderType, slippagePercent });
+  }, [open, execution, checkLimits, signalId, venue, direction, hedgeRatio, sizing, marginMode, orderType, slippagePercent]);
+
+  const handleCreatePreview = async () => {
+    setAcknowledged(false);
+    setNow(Date.now());
+    await flow.createPreview({
+      signalId,
+      venue,
+      direction,
+      hedgeRatio,
+      sizing,
+      marginMode,
+      orderType,
+      slippagePercent,
+    });
+  };
+
+  const handleConfirm = async () => {
+    const row = await flow.confirm();
+    if (row?.status === 'success') toast.success('Paper position opened');
+    else if (row?.status === 'confirmed') toast.success('Execution confirmed');
+    else if (row?.status === 'failed') toast.error('Paper fill failed');
+  };
+
+  const handleOpenChange = async (next: boolean) => {
+    if (!next) {
+      // An abandoned preview must not linger as something that could still be confirmed
+      if (status === 'preview') await flow.cancel('Preview dismissed');
+      flow.reset();
+      setAcknowledged(false);
+    }
+    onOpenChange(next);
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={handleOpenChange}>
+      <DialogContent className="max-w-3xl">
+        <DialogHeader>
+          <DialogTitle>Execute Pair</DialogTitle>
+          <DialogDescription>
+            {direction === 'long_a_short_b' ? 'Long A / Short B' : 'Short A / Long B'} at |β| {Math.abs(hedgeRatio).toFixed(3)},{' '}
+            {marginMode} margin. Nothing is filled until you confirm the saved preview.
+          </DialogDescription>
+        </DialogHeader>
+
+        {!execution && (
+          <div className="space-y-4">
+            <div className="flex items-center justify-between rounded-lg border p-3">
+              <div>
+                <Label htmlFor="exec-paper">Paper trade</Label>
+                <p className="text-xs text-muted-foreground">
+                  Simulate both fills at recorded prices with your paper slippage and fees.
+                  Live exchange routing is not available yet.
+                </p>
+              </div>
+              <Switch id="exec-paper" checked={venue === 'paper'} disabled />
+            </div>
+            <div className="grid gap-4 sm:grid-cols-3">
+              <div className="space-y-1.5">
+                <Label htmlFor="exec-slippage" className="text-xs text-muted-foreground">Slippage Tolerance (%)</Label>
+                <Input
+                  id="exec-slippage"
+                  type="number"
+                  min={0}
+                  max={5}
+                  step={0.05}
+                  value={slippagePercent}
+                  onChange={(e) => setSlippagePercent(Math.max(0, parseFloat(e.target.value) || 0))}
+                />
+              </div>
+              <div className="space-y-1.5">
+                <p className="text-xs text-muted-foreground">Gross Notional</p>
+                <p className="font-mono font-medium pt-2">{formatUsd(sizing.legA.notional + sizing.legB.notional)}</p>
+              </div>
+              <div className="space-y-1.5">
+                <p className="text-xs text-muted-foreground">Estimated Margin</p>
+                <p className="font-mono font-medium pt-2">{formatUsd(sizing.totalMargin)}</p>
+              </div>
+            </div>
+            <OrderLegsTable legs={draftLegs} />
+            <ExposureImpact legs={draftLegs} exchange={venue} settings={settings} equity={equity} />
+            {(problems.length > 0 || signalExpired || flow.violations.length > 0) && (
+              <div className="space-y-1 text-sm text-destructive">
+                {signalExpired && (
+                  <p className="flex items-center gap-1.5"><AlertTriangle className="h-4 w-4" />This signal has expired</p>
+                )}
+                {problems.map((p) => (
+                  <p key={p} className="flex items-center gap-1.5"><AlertTriangle className="h-4 w-4" />{p}</p>
+                ))}
+                {flow.violations.map((v) => (
+                  <p key={v.message} className="flex items-center gap-1.5">
+                    <ShieldAlert className="h-4 w-4 shrink-0" />
+                    {v.limit && <span className="font-medium">{RISK_LIMIT_LABELS[v.limit]}:</span>}
+                    {v.message}
+                  </p>
+                ))}
+              </div>
+            )}
+          </div>
+        )}
+
+        {execution && details && (
+          <div className="space-y-4">
+            <div className="flex items-center justify-between text-sm">
+              <span className="text-muted-foreground font-mono">Execution {execution.id.slice(0, 8)}</span>
+              <div className="flex items-center gap-2">
+                <Badge variant="secondary" className="capitalize">{details.venue}</Badge>
+                <Badge variant="outline" className="capitalize">{execution.status}</Badge>
+              </div>
+            </div>
+            <OrderLegsTable legs={details.legs} />
+            <div className="grid gap-4 sm:grid-cols-3 text-sm">
+              <div>
+                <p className="text-muted-foreground">Slippage Tolerance</p>
+                <p className="font-mono font-medium">{details.slippage_tolerance_percent}%</p>
+              </div>
+              <div>
+                <p className="text-muted-foreground">Estimated Margin</p>
+                <p className="font-mono font-medium">{formatUsd(Number(execution.estimated_margin ?? 0))}</p>
+              </div>
+              <div>
+                <p className="text-muted-foreground">Notional Imbalance</p>
+                <p className="font-mono font-medium">{formatUsd(details.imbalance)}</p>
+              </div>
+            </div>
+
+            {status === 'preview' && (
+              <>
+                <ExposureImpact legs={details.legs} exchange={details.exchange ?? details.venue} settings={settings} equity={equity} />
+                <p className={cn('flex items-center gap-1.5 text-sm', expired ? 'text-destructive' : 'text-muted-foreground')}>
+                  <Clock className="h-4 w-4" />
+                  {expired ? 'Preview expired; prices may have moved' : `Preview valid for ${secondsLeft}s`}
+                </p>
+                <div className="flex items-start gap-2">
+                  <Checkbox
+                    id="exec-ack"
+                    checked={acknowledged}
+                    onCheckedChange={(checked) => setAcknowledged(checked === true)}
+                    disabled={expired}
+                  />
+                  <Label htmlFor="exec-ack" className="text-sm leading-snug">
+                    I have reviewed both leg orders and want to open this position
+                  </Label>
+                </div>
+              </>
+            )}
+
+            {status === 'confirmed' && (
+              <p className="flex items-center gap-1.5 text-sm text-success">
+                <CheckCircle2 className="h-4 w-4" />
+                Confirmed and queued for order routing
+              </p>
+            )}
+            {status === 'success' && (
+              <p className="flex items-center gap-1.5 text-sm text-success">
+                <CheckCircle2 className="h-4 w-4" />
+                Paper position opened.{' '}
+                <Link to="/positions" className="underline underline-offset-2">View positions</Link>
+              </p>
+            )}
+            {(status === 'failed' || status === 'unwind_failed') && (
+              <p className="flex items-center gap-1.5 text-sm text-destructive">
+                <XCircle className="h-4 w-4" />
+                {execution.error_message ?? 'Execution failed'}
+              </p>
+            )}
+            {status === 'cancelled' && (
+              <p className="flex items-center gap-1.5 text-sm text-muted-foreground">
+                <XCircle className="h-4 w-4" />
+                Preview cancelled
+              </p>
+            )}
+          </div>
+        )}
+
+        {halted && (status === null || status === 'preview') && (
+          <p className="flex items-center gap-1.5 text-sm text-destructive">
+            <OctagonAlert className="h-4 w-4 shrink-0" />
+            Trading is halted{halt?.reason ? `: ${halt.reason}` : ''}
+          </p>
+        )}
+
+        {flow.error && <p className="text-sm text-destructive">{flow.error}</p>}
+
+        <DialogFooter>
+          {!execution && (
+            <Button
+              onClick={handleCreatePreview}
+              disabled={flow.busy || halted || problems.length > 0 || signalExpired || flow.violations.length > 0}
+            >
+              {flow.busy && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+              Create Preview
+            </Button>
+          )}
+          {status === 'preview' && (
+            <>
+              <Button variant="outline" onClick={() => flow.cancel('Cancelled by user')} disabled={flow.busy}>
+                Cancel Preview
+              </Button>
+              <Button onClick={handleConfirm} disabled={flow.busy || halted || !acknowledged || expired}>
+                {flow.busy && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                Confirm Execution
+              </Button>
+            </>
+          )}
+          {(status === 'cancelled' || status === 'failed' || status === 'unwind_failed') && (
+            <Button variant="outline" onClick={flow.reset}>New Preview</Button>
+          )}
+          {(status === 'confirmed' || status === 'success') && (
+            <Button onClick={() => handleOpenChange(false)}>Done</Button>
+          )}
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,104 @@
+import { useMemo } from 'react';
+import { Link } from 'react-router-dom';
+import { Skeleton } from '@/components/ui/skeleton';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+import { AlertTriangle } from 'lucide-react';
+import type { UserSettings } from '@/hooks/useUserSettings';
+import { usePortfolioExposure } from '@/hooks/usePortfolioExposure';
+import { aggregateExposure, baseAsset, exposureCap, exposureCapBreaches, orderExposureLegs } from '@/lib/portfolioRisk';
+import { cn } from '@/lib/utils';
+import type { ExecutionOrderLeg } from '@/types/execution';
+
+interface ExposureImpactProps {
+  legs: ExecutionOrderLeg[];
+  /** Venue the legs would go to, for the per-exchange breakdown. */
+  exchange: string;
+  settings: UserSettings | null;
+  /** Equity from the sizing panel; margin utilization is measured against it. */
+  equity: number;
+}
+
+const formatSigned = (v: number) =>
+  `${v < 0 ? '−' : v > 0 ? '+' : ''}$${Math.abs(v).toLocaleString(undefined, { maximumFractionDigits: 0 })}`;
+const formatPercent = (v: number | null) => (v === null ? '—' : `${(v * 100).toFixed(1)}%`);
+
+export default function ExposureImpact({ legs, exchange, settings, equity }: ExposureImpactProps) {
+  const symbols = useMemo(() => legs.map((l) => l.symbol), [legs]);
+  const { legs: openLegs, openPairs, market, loading, error } = usePortfolioExposure(symbols);
+  const cap = exposureCap(settings);
+
+  const { before, after, breaches } = useMemo(() => {
+    const before = aggregateExposure(openLegs, market, equity);
+    const after = aggregateExposure([...openLegs, ...orderExposureLegs(legs, exchange)], market, equity);
+    return { before, after, breaches: exposureCapBreaches(before, after, cap) };
+  }, [openLegs, market, legs, exchange, equity, cap]);
+
+  if (loading) return <Skeleton className="h-24 w-full" />;
+  if (error) return <p className="text-xs text-muted-foreground">Portfolio exposure unavailable: {error}</p>;
+
+  const tradeAssets = [...new Set(legs.map((l) => baseAsset(l.symbol)))];
+  const netOf = (exposure: typeof before, asset: string) => exposure.assets.find((a) => a.asset === asset)?.net ?? 0;
+
+  return (
+    <div className="space-y-2 rounded-lg border p-3">
+      <div className="flex items-center justify-between text-sm">
+        <span className="font-medium">Portfolio Exposure</span>
+        <Link to="/positions" className="text-xs text-muted-foreground underline underline-offset-2">
+          {openPairs} open pair{openPairs === 1 ? '' : 's'}
+        </Link>
+      </div>
+      <Table>
+        <TableHeader>
+          <TableRow>
+            <TableHead>Asset</TableHead>
+            <TableHead className="text-right">Net Now</TableHead>
+            <TableHead className="text-right">Net After</TableHead>
+            <TableHead className="text-right">Cap</TableHead>
+          </TableRow>
+        </TableHeader>
+        <TableBody>
+          {tradeAssets.map((asset) => {
+            const breached = breaches.some((b) => b.asset === asset);
+            return (
+              <TableRow key={asset}>
+                <TableCell className="font-mono font-medium">{asset}</TableCell>
+                <TableCell className="text-right font-mono">{formatSigned(netOf(before, asset))}</TableCell>
+                <TableCell className={cn('text-right font-mono', breached && 'text-warning')}>
+                  {formatSigned(netOf(after, asset))}
+                </TableCell>
+                <TableCell className="text-right font-mono text-muted-foreground">
+                  {cap === null ? 'Off' : `±$${cap.toLocaleString()}`}
+                </TableCell>
+              </TableRow>
+            );
+          })}
+        </TableBody>
+      </Table>
+      <div className="grid gap-2 sm:grid-cols-2 text-sm">
+        <div>
+          <p className="text-muted-foreground text-xs">BTC β-Weighted (now → after)</p>
+          <p className="font-mono">{formatSigned(before.btcExposure)} → {formatSigned(after.btcExposure)}</p>
+        </div>
+        <div>
+          <p className="text-muted-foreground text-xs">Margin Utilization (now → after)</p>
+          <p className={cn('font-mono', (after.marginUtilization ?? 0) > 1 && 'text-destructive')}>
+            {formatPercent(before.marginUtilization)} → {formatPercent(after.marginUtilization)}
+          </p>
+        </div>
+      </div>
+      {breaches.map((b) => (
+        <p key={b.asset} className="flex items-center gap-1.5 text-sm text-warning">
+          <AlertTriangle className="h-4 w-4 shrink-0" />
+          {b.asset} net exposure would reach {formatSigned(b.after)}, past your ±${b.cap.toLocaleString()} cap
+        </p>
+      ))}
+    </div>
+  );
+}
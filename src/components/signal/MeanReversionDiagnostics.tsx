@@ -0,0 +1,149 @@
+import { useMemo } from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Separator } from '@/components/ui/separator';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+import { AlertCircle, Loader2 } from 'lucide-react';
+import { buildLogSpread } from '@/lib/marketData';
+import { HurstResult, hurstDFA, hurstRescaledRange, VarianceRatioResult, varianceRatioTest } from '@/lib/meanReversion';
+import { cn } from '@/lib/utils';
+import type { AlignedCandle } from '@/types/marketData';
+
+const VARIANCE_RATIO_HORIZONS = [2, 4, 8, 16];
+
+interface MeanReversionDiagnosticsProps {
+  symbolA: string;
+  symbolB: string;
+  aligned: AlignedCandle[];
+  /** Hedge ratio for the log spread; null falls back to the log ratio (β = 1). */
+  hedgeRatio: number | null;
+  storedHurst: number | null;
+  hurstMax: number;
+  loading: boolean;
+  error: string | null;
+}
+
+export function HurstBadge({ hurst, hurstMax }: { hurst: number; hurstMax: number }) {
+  const pass = hurst <= hurstMax;
+  return (
+    <Badge
+      variant="outline"
+      className={cn('text-xs', pass ? 'border-success text-success' : 'border-destructive text-destructive')}
+    >
+      {pass ? 'Pass' : 'Fail'} ≤ {hurstMax}
+    </Badge>
+  );
+}
+
+function safely<T>(label: string, compute: () => T): T | null {
+  try {
+    return compute();
+  } catch (err) {
+    if (import.meta.env.DEV) console.error(`Error computing ${label}:`, err);
+    return null;
+  }
+}
+
+export default function MeanReversionDiagnostics({
+  symbolA,
+  symbolB,
+  aligned,
+  hedgeRatio,
+  storedHurst,
+  hurstMax,
+  loading,
+  error,
+}: MeanReversionDiagnosticsProps) {
+  const beta = hedgeRatio ?? 1;
+
+  const diagnostics = useMemo(() => {
+    const spread = buildLogSpread(aligned, beta);
+    return {
+      rs: safely<HurstResult>('R/S Hurst', () => hurstRescaledRange(spread)),
+      dfa: safely<HurstResult>('DFA Hurst', () => hurstDFA(spread)),
+      varianceRatios: VARIANCE_RATIO_HORIZONS
+        .map((q) => safely<VarianceRatioResult>(`variance ratio q=${q}`, () => varianceRatioTest(spread, q)))
+        .filter((r): r is VarianceRatioResult => r !== null),
+    };
+  }, [aligned, beta]);
+
+  const hurstRows = [
+    { label: 'Stored (pair_metrics)', hurst: storedHurst, detail: null },
+    { label: 'Rescaled range (R/S)', hurst: diagnostics.rs?.hurst ?? null, detail: diagnostics.rs?.rSquared },
+    { label: 'DFA', hurst: diagnostics.dfa?.hurst ?? null, detail: diagnostics.dfa?.rSquared },
+  ];
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="text-lg">Mean-Reversion Diagnostics</CardTitle>
+        <CardDescription>
+          ln {symbolA} − {beta.toFixed(3)}·ln {symbolB} · H &lt; 0.5 and VR &lt; 1 indicate mean reversion
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        {loading ? (
+          <div className="flex items-center justify-center py-6">
+            <Loader2 className="h-6 w-6 animate-spin text-primary" />
+          </div>
+        ) : error || aligned.length === 0 ? (
+          <div className="text-center py-6 text-muted-foreground">
+            <AlertCircle className="h-6 w-6 mx-auto mb-2 opacity-50" />
+            <p className="text-sm">{error || 'No candle data available for this pair'}</p>
+          </div>
+        ) : (
+          <div className="space-y-4">
+            <div className="space-y-2">
+              {hurstRows.map((row) => (
+                <div key={row.label} className="flex items-center justify-between text-sm">
+                  <span className="text-muted-foreground">{row.label}</span>
+                  <div className="flex items-center gap-2">
+                    {row.detail != null && (
+                      <span className="text-xs text-muted-foreground">R² {row.detail.toFixed(2)}</span>
+                    )}
+                    <span className="font-mono">{row.hurst?.toFixed(3) ?? 'N/A'}</span>
+                    {row.hurst !== null && <HurstBadge hurst={row.hurst} hurstMax={hurstMax} />}
+                  </div>
+                </div>
+              ))}
+            </div>
+
+            <Separator />
+
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>q (bars)</TableHead>
+                  <TableHead>VR(q)</TableHead>
+                  <TableHead>z</TableHead>
+                  <TableHead>z*</TableHead>
+                  <TableHead>p-value</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {diagnostics.varianceRatios.map((vr) => (
+                  <TableRow key={vr.q}>
+                    <TableCell className="font-mono text-sm">{vr.q}</TableCell>
+                    <TableCell className={cn('font-mono text-sm', vr.ratio < 1 ? 'text-long' : 'text-short')}>
+                      {vr.ratio.toFixed(3)}
+                    </TableCell>
+                    <TableCell className="font-mono text-sm">{vr.zStat.toFixed(2)}</TableCell>
+                    <TableCell className="font-mono text-sm">{vr.zRobust.toFixed(2)}</TableCell>
+                    <TableCell className="font-mono text-sm">{vr.pValue.toFixed(4)}</TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,191 @@
+import { useMemo, useState } from 'react';
+import { LineData, Time } from 'lightweight-charts';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Label } from '@/components/ui/label';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+import { AlertCircle, Loader2 } from 'lucide-react';
+import OUFitChart, { OUProjectionPoint } from '@/components/charts/OUFitChart';
+import { buildLogSpread } from '@/lib/marketData';
+import { fitOUAR1, fitOUMLE, OUEstimate, OUFit, OUMethod, ouExpectedPath } from '@/lib/ornsteinUhlenbeck';
+import { AlignedCandle, BAR_INTERVAL_SECONDS, BarInterval } from '@/types/marketData';
+
+// Projection horizon, in multiples of the fitted half-life
+const PROJECTION_HALF_LIVES = 3;
+const MIN_PROJECTION_BARS = 20;
+const MAX_PROJECTION_BARS = 500;
+
+interface OUFitPanelProps {
+  symbolA: string;
+  symbolB: string;
+  aligned: AlignedCandle[];
+  /** Hedge ratio for the log spread; null falls back to the log ratio (β = 1). */
+  hedgeRatio: number | null;
+  interval: BarInterval;
+  storedTheta: number | null;
+  storedHalfLifeHours: number | null;
+  loading: boolean;
+  error: string | null;
+}
+
+function formatEstimate(e: OUEstimate | undefined, digits: number): string {
+  if (!e) return '—';
+  const fmt = (v: number) => (Number.isFinite(v) ? v.toFixed(digits) : '∞');
+  if (e.lower === null || e.upper === null) return fmt(e.value);
+  return `${fmt(e.value)} [${fmt(e.lower)}, ${fmt(e.upper)}]`;
+}
+
+export default function OUFitPanel({
+  symbolA,
+  symbolB,
+  aligned,
+  hedgeRatio,
+  interval,
+  storedTheta,
+  storedHalfLifeHours,
+  loading,
+  error,
+}: OUFitPanelProps) {
+  const [method, setMethod] = useState<OUMethod>('mle');
+  const beta = hedgeRatio ?? 1;
+
+  const spread = useMemo(() => buildLogSpread(aligned, beta), [aligned, beta]);
+
+  const fits = useMemo<Record<OUMethod, OUFit | null>>(() => {
+    try {
+      return { ar1: fitOUAR1(spread, interval), mle: fitOUMLE(spread, interval) };
+    } catch (err) {
+      if (import.meta.env.DEV) console.error('Error fitting OU model:', err);
+      return { ar1: null, mle: null };
+    }
+  }, [spread, interval]);
+
+  const fit = fits[method];
+
+  const spreadData = useMemo<LineData<Time>[]>(
+    () => aligned.map((x, i) => ({ time: x.time as Time, value: spread[i] })),
+    [aligned, spread]
+  );
+
+  const projection = useMemo<OUProjectionPoint[]>(() => {
+    if (!fit || aligned.length === 0) return [];
+    const steps = Math.min(
+      MAX_PROJECTION_BARS,
+      Math.max(MIN_PROJECTION_BARS, Math.round(PROJECTION_HALF_LIVES * fit.halfLifeBars.value))
+    );
+    const lastTime = aligned[aligned.length - 1].time;
+    const barSeconds = BAR_INTERVAL_SECONDS[interval];
+    return ouExpectedPath(fit, spread[spread.length - 1], steps).map((p) => ({
+      time: (lastTime + p.step * barSeconds) as Time,
+      mean: p.mean,
+      lower: p.lower,
+      upper: p.upper,
+    }));
+  }, [fit, aligned, spread, interval]);
+
+  const rows: { label: string; ar1: string; mle: string; stored: string }[] = [
+    {
+      label: 'θ (per bar)',
+      ar1: formatEstimate(fits.ar1?.theta, 4),
+      mle: formatEstimate(fits.mle?.theta, 4),
+      stored: '—',
+    },
+    {
+      label: 'θ (per hour)',
+      ar1: fits.ar1?.thetaPerHour.toFixed(4) ?? '—',
+      mle: fits.mle?.thetaPerHour.toFixed(4) ?? '—',
+      stored: storedTheta?.toFixed(4) ?? 'N/A',
+    },
+    { label: 'μ', ar1: formatEstimate(fits.ar1?.mu, 4), mle: formatEstimate(fits.mle?.mu, 4), stored: '—' },
+    { label: 'σ (per √bar)', ar1: formatEstimate(fits.ar1?.sigma, 5), mle: formatEstimate(fits.mle?.sigma, 5), stored: '—' },
+    {
+      label: 'Half-life (bars)',
+      ar1: formatEstimate(fits.ar1?.halfLifeBars, 1),
+      mle: formatEstimate(fits.mle?.halfLifeBars, 1),
+      stored: '—',
+    },
+    {
+      label: 'Half-life (hours)',
+      ar1: formatEstimate(fits.ar1?.halfLifeHours, 1),
+      mle: formatEstimate(fits.mle?.halfLifeHours, 1),
+      stored: storedHalfLifeHours?.toFixed(1) ?? 'N/A',
+    },
+  ];
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex flex-col gap-4 sm:flex-row sm:items-start sm:justify-between">
+          <div>
+            <CardTitle className="text-lg">OU Fit</CardTitle>
+            <CardDescription>
+              ln {symbolA} − {beta.toFixed(3)}·ln {symbolB} · {interval} bars · 95% confidence intervals
+            </CardDescription>
+          </div>
+          <div className="space-y-1.5">
+            <Label className="text-xs text-muted-foreground">Projection from</Label>
+            <Select value={method} onValueChange={(v) => setMethod(v as OUMethod)}>
+              <SelectTrigger className="w-40 h-8 text-sm">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="mle">Maximum likelihood</SelectItem>
+                <SelectItem value="ar1">AR(1) regression</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        {loading ? (
+          <div className="flex items-center justify-center py-12">
+            <Loader2 className="h-8 w-8 animate-spin text-primary" />
+          </div>
+        ) : error || !fit ? (
+          <div className="text-center py-12 text-muted-foreground">
+            <AlertCircle className="h-8 w-8 mx-auto mb-4 opacity-50" />
+            <p>{error || 'No mean reversion detected in this spread'}</p>
+          </div>
+        ) : (
+          <>
+            <OUFitChart spreadData={spreadData} projection={projection} mu={fit.mu.value} height={320} />
+
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Parameter</TableHead>
+                  <TableHead>AR(1)</TableHead>
+                  <TableHead>MLE</TableHead>
+                  <TableHead>Stored</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {rows.map((row) => (
+                  <TableRow key={row.label}>
+                    <TableCell className="font-medium">{row.label}</TableCell>
+                    <TableCell className="font-mono text-sm">{row.ar1}</TableCell>
+                    <TableCell className="font-mono text-sm">{row.mle}</TableCell>
+                    <TableCell className="font-mono text-sm">{row.stored}</TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
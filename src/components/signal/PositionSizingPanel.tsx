@@ -0,0 +1,290 @@
+import { useMemo, useState } from 'react';
+import { Link } from 'react-router-dom';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+import { AlertCircle, AlertTriangle, Loader2, Scale, Send } from 'lucide-react';
+import ExecutePairDialog from '@/components/signal/ExecutePairDialog';
+import { useInstrumentSpecs } from '@/hooks/useInstrumentSpecs';
+import type { UserSettings } from '@/hooks/useUserSettings';
+import { computePairSizing, sizingSettings } from '@/lib/positionSizing';
+import { cn } from '@/lib/utils';
+import type { MarketDataExchange } from '@/types/marketData';
+import { DEFAULT_MAINTENANCE_MARGIN_RATE, LegSizing, LegWarning, MarginMode } from '@/types/sizing';
+
+const legWarningLabels: Record<LegWarning, string> = {
+  below_min_qty: 'Below min qty',
+  below_min_notional: 'Below min notional',
+  no_instrument: 'Unrounded',
+};
+
+interface PositionSizingPanelProps {
+  signalId: string;
+  signalExpired: boolean;
+  symbolA: string;
+  symbolB: string;
+  beta: number | null;
+  direction: string | null;
+  /** Latest closes; null while candles load. */
+  priceA: number | null;
+  priceB: number | null;
+  settings: UserSettings | null;
+  exchange?: MarketDataExchange;
+}
+
+const formatUsd = (v: number) => `$${v.toLocaleString(undefined, { minimumFractionDigits: 2, maximumFractionDigits: 2 })}`;
+
+// Enough digits to show a rounded quantity or tick-aligned price without trailing noise
+const formatQuantity = (v: number) => v.toLocaleString(undefined, { maximumFractionDigits: 8 });
+
+export default function PositionSizingPanel({
+  signalId,
+  signalExpired,
+  symbolA,
+  symbolB,
+  beta,
+  direction,
+  priceA,
+  priceB,
+  settings,
+  exchange = 'bybit',
+}: PositionSizingPanelProps) {
+  const defaults = useMemo(() => sizingSettings(settings), [settings]);
+  const [equity, setEquity] = useState(10000);
+  const [leverageLong, setLeverageLong] = useState(defaults.leverageLong);
+  const [leverageShort, setLeverageShort] = useState(defaults.leverageShort);
+  const [marginMode, setMarginMode] = useState<MarginMode>(defaults.marginMode);
+  const [executeOpen, setExecuteOpen] = useState(false);
+
+  const instruments = useInstrumentSpecs({ symbols: [symbolA, symbolB], exchange });
+
+  const tradeDirection = direction === 'long_a_short_b' || direction === 'short_a_long_b' ? direction : null;
+  const hedgeRatio = beta ?? 1;
+
+  const sizing = useMemo(() => {
+    if (!tradeDirection || priceA === null || priceB === null || instruments.loading) return null;
+    return computePairSizing({
+      equity,
+      settings: { ...defaults, leverageLong, leverageShort, marginMode },
+      direction: tradeDirection,
+      beta: hedgeRatio,
+      symbolA,
+      symbolB,
+      priceA,
+      priceB,
+      specA: instruments.specs[symbolA] ?? null,
+      specB: instruments.specs[symbolB] ?? null,
+    });
+  }, [defaults, equity, leverageLong, leverageShort, marginMode, tradeDirection, hedgeRatio, symbolA, symbolB, priceA, priceB, instruments.loading, instruments.specs]);
+
+  const legRow = (leg: LegSizing) => (
+    <TableRow key={leg.symbol}>
+      <TableCell className="font-mono font-medium">{leg.symbol}</TableCell>
+      <TableCell>
+        <Badge
+          variant="outline"
+          className={cn(leg.side === 'buy' ? 'border-long/50 text-long bg-long/10' : 'border-short/50 text-short bg-short/10')}
+        >
+          {leg.side === 'buy' ? 'Long' : 'Short'}
+        </Badge>
+      </TableCell>
+      <TableCell className="text-right font-mono">{formatQuantity(leg.price)}</TableCell>
+      <TableCell className="text-right font-mono">{formatQuantity(leg.quantity)}</TableCell>
+      <TableCell className="text-right font-mono">{formatUsd(leg.notional)}</TableCell>
+      <TableCell className="text-right font-mono">{leg.leverage}×</TableCell>
+      <TableCell className="text-right font-mono">{formatUsd(leg.margin)}</TableCell>
+      <TableCell className="text-right font-mono">{formatQuantity(leg.liquidationPrice)}</TableCell>
+      <TableCell className={cn('text-right font-mono', leg.liquidationDistance < 0.1 && 'text-warning')}>
+        {(leg.liquidationDistance * 100).toFixed(1)}%
+      </TableCell>
+      <TableCell>
+        <div className="flex flex-wrap gap-1">
+          {leg.warnings.map((w) => (
+            <Badge key={w} variant="outline" className="text-xs text-warning border-warning/50">
+              {legWarningLabels[w]}
+            </Badge>
+          ))}
+        </div>
+      </TableCell>
+    </TableRow>
+  );
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="text-lg flex items-center gap-2">
+          <Scale className="h-5 w-5" />
+          Position Sizing
+        </CardTitle>
+        <CardDescription>
+          Beta-neutral legs at |β| = {Math.abs(hedgeRatio).toFixed(3)}: {symbolB} carries |β| dollars per dollar of {symbolA}.
+          Size is {defaults.mode === 'percent_equity' ? `${defaults.value}% of equity` : `${formatUsd(defaults.value)} notional`}
+          {' '}from your <Link to="/settings" className="underline underline-offset-2 hover:text-foreground">settings</Link>.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        <div className="grid gap-4 sm:grid-cols-2 lg:grid-cols-4">
+          <div className="space-y-1.5">
+            <Label htmlFor="sizing-equity" className="text-xs text-muted-foreground">Equity (USD)</Label>
+            <Input
+              id="sizing-equity"
+              type="number"
+              min={0}
+              step={100}
+              value={equity}
+              onChange={(e) => setEquity(Math.max(0, parseFloat(e.target.value) || 0))}
+            />
+          </div>
+          <div className="space-y-1.5">
+            <Label htmlFor="sizing-leverage-long" className="text-xs text-muted-foreground">Long Leverage</Label>
+            <Input
+              id="sizing-leverage-long"
+              type="number"
+              min={1}
+              max={20}
+              value={leverageLong}
+              onChange={(e) => setLeverageLong(Math.max(1, parseInt(e.target.value) || 1))}
+            />
+          </div>
+          <div className="space-y-1.5">
+            <Label htmlFor="sizing-leverage-short" className="text-xs text-muted-foreground">Short Leverage</Label>
+            <Input
+              id="sizing-leverage-short"
+              type="number"
+              min={1}
+              max={20}
+              value={leverageShort}
+              onChange={(e) => setLeverageShort(Math.max(1, parseInt(e.target.value) || 1))}
+            />
+          </div>
+          <div className="space-y-1.5">
+            <Label className="text-xs text-muted-foreground">Margin Mode</Label>
+            <Select value={marginMode} onValueChange={(v) => setMarginMode(v as MarginMode)}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="isolated">Isolated</SelectItem>
+                <SelectItem value="cross">Cross</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+        </div>
+
+        {!tradeDirection ? (
+          <div className="text-center py-8 text-muted-foreground">
+            <AlertCircle className="h-8 w-8 mx-auto mb-4 opacity-50" />
+            <p>This signal has no trade direction to size</p>
+          </div>
+        ) : !sizing ? (
+          <div className="flex items-center justify-center py-8 text-muted-foreground">
+            <Loader2 className="h-5 w-5 animate-spin mr-2" />
+            Loading prices and lot sizes…
+          </div>
+        ) : (
+          <>
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Leg</TableHead>
+                  <TableHead>Side</TableHead>
+                  <TableHead className="text-right">Price</TableHead>
+                  <TableHead className="text-right">Quantity</TableHead>
+                  <TableHead className="text-right">Notional</TableHead>
+                  <TableHead className="text-right">Leverage</TableHead>
+                  <TableHead className="text-right">Margin</TableHead>
+                  <TableHead className="text-right">Liq. Price</TableHead>
+                  <TableHead className="text-right">Liq. Distance</TableHead>
+                  <TableHead></TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {legRow(sizing.legA)}
+                {legRow(sizing.legB)}
+              </TableBody>
+            </Table>
+
+            <div className="grid gap-4 sm:grid-cols-3 text-sm">
+              <div>
+                <p className="text-muted-foreground">Gross Notional</p>
+                <p className="font-mono font-medium">
+                  {formatUsd(sizing.legA.notional + sizing.legB.notional)}
+                  <span className="text-muted-foreground"> / {formatUsd(sizing.targetGrossNotional)} target</span>
+                </p>
+              </div>
+              <div>
+                <p className="text-muted-foreground">Notional Imbalance</p>
+                <p className={cn('font-mono font-medium', Math.abs(sizing.imbalanceRatio) > 0.02 && 'text-warning')}>
+                  {sizing.imbalance >= 0 ? '+' : '−'}{formatUsd(Math.abs(sizing.imbalance))}
+                  {' '}({(sizing.imbalanceRatio * 100).toFixed(2)}%)
+                </p>
+              </div>
+              <div>
+                <p className="text-muted-foreground">Required Margin</p>
+                <p className={cn('font-mono font-medium', sizing.exceedsEquity && 'text-destructive')}>
+                  {formatUsd(sizing.totalMargin)}
+                </p>
+              </div>
+            </div>
+
+            {(sizing.exceedsEquity || instruments.error) && (
+              <div className="space-y-1 text-xs text-warning">
+                {sizing.exceedsEquity && (
+                  <p className="flex items-center gap-1">
+                    <AlertTriangle className="h-3 w-3" />
+                    Required margin exceeds the equity entered
+                  </p>
+                )}
+                {instruments.error && (
+                  <p className="flex items-center gap-1">
+                    <AlertTriangle className="h-3 w-3" />
+                    {instruments.error}; quantities are not rounded to lot size
+                  </p>
+                )}
+              </div>
+            )}
+            <div className="flex items-center justify-between gap-4">
+              <p className="text-xs text-muted-foreground">
+                Liquidation estimates assume a {DEFAULT_MAINTENANCE_MARGIN_RATE * 100}% maintenance margin and, in cross mode, the other leg flat.
+              </p>
+              <Button size="sm" onClick={() => setExecuteOpen(true)}>
+                <Send className="mr-2 h-4 w-4" />
+                Execute Pair
+              </Button>
+            </div>
+
+            <ExecutePairDialog
+              open={executeOpen}
+              onOpenChange={setExecuteOpen}
+              signalId={signalId}
+              signalExpired={signalExpired}
+              direction={tradeDirection}
+              hedgeRatio={hedgeRatio}
+              sizing={sizing}
+              marginMode={marginMode}
+              equity={equity}
+              settings={settings}
+            />
+          </>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
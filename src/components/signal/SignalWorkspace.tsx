@@ -0,0 +1,306 @@
+import { useMemo, useState } from 'react';
+import { Time } from 'lightweight-charts';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { AlertCircle, Loader2 } from 'lucide-react';
+import SyntheticPairChart, { PairIndicatorSettings } from '@/components/charts/SyntheticPairChart';
+import ZScoreRSISubChart from '@/components/charts/ZScoreRSISubChart';
+import IndicatorPaneChart, { PaneReferenceLine } from '@/components/charts/IndicatorPaneChart';
+import PriceChart from '@/components/charts/PriceChart';
+import { useChartSync } from '@/hooks/useChartSync';
+import {
+  computeATR,
+  computePercentB,
+  computeRollingCorrelation,
+  IndicatorDataPoint,
+  ohlcToClose,
+} from '@/lib/indicators';
+import { buildLegLogReturns, buildPairOHLC } from '@/lib/marketData';
+import {
+  ATR_LENGTH,
+  BOLLINGER_LENGTH,
+  BOLLINGER_MULTIPLIER,
+  PANE_INDICATOR_LABELS,
+  PaneIndicator,
+} from '@/types/indicators';
+import {
+  AlignedCandle,
+  BarInterval,
+  Candle,
+  DEFAULT_KALMAN_PARAMS,
+  KalmanParams,
+  MarketDataExchange,
+  PairConstruction,
+} from '@/types/marketData';
+
+type ConstructionMode = PairConstruction['mode'];
+
+interface SignalWorkspaceProps {
+  symbolA: string;
+  symbolB: string;
+  beta: number | null;
+  interval: BarInterval;
+  entryThreshold: number;
+  exitThreshold: number;
+  aligned: AlignedCandle[];
+  loading: boolean;
+  error: string | null;
+  exchange?: MarketDataExchange;
+}
+
+/** Rebase a leg to 100 at its first bar so both legs share one price scale. */
+function rebase(candles: Candle[]) {
+  const base = candles[0]?.close || 1;
+  return candles.map((c) => ({ time: c.time as Time, value: (c.close / base) * 100 }));
+}
+
+/** Decimals that keep three significant digits of a small positive value. */
+function significantPrecision(value: number): number {
+  if (!(value > 0)) return 2;
+  return Math.min(8, Math.max(2, Math.ceil(-Math.log10(value)) + 2));
+}
+
+interface IndicatorPane {
+  key: PaneIndicator;
+  title: string;
+  data: IndicatorDataPoint[];
+  color: string;
+  precision: number;
+  referenceLines: PaneReferenceLine[];
+}
+
+export default function SignalWorkspace({
+  symbolA,
+  symbolB,
+  beta,
+  interval,
+  entryThreshold,
+  exitThreshold,
+  aligned,
+  loading,
+  error,
+  exchange = 'bybit',
+}: SignalWorkspaceProps) {
+  const syncChart = useChartSync();
+  const [mode, setMode] = useState<ConstructionMode>('ratio');
+  const [kalmanParams, setKalmanParams] = useState<KalmanParams>(DEFAULT_KALMAN_PARAMS);
+  const [indicatorSettings, setIndicatorSettings] = useState<PairIndicatorSettings>({
+    zScoreLength: 250,
+    rsiLength: 14,
+    rsiMode: 'simple',
+    zThreshold: entryThreshold,
+    rsiOversold: 30,
+    rsiOverbought: 70,
+    panes: [],
+    correlationLength: 100,
+  });
+
+  const construction = useMemo<PairConstruction>(() => {
+    if (mode === 'kalman') return { mode: 'kalman', ...kalmanParams };
+    if (mode === 'spread' && beta !== null) return { mode: 'spread', beta };
+    return { mode: 'ratio' };
+  }, [mode, beta, kalmanParams]);
+
+  const ohlcData = useMemo(() => buildPairOHLC(aligned, construction), [aligned, construction]);
+  const legA = useMemo(() => rebase(aligned.map((x) => x.a)), [aligned]);
+  const legB = useMemo(() => rebase(aligned.map((x) => x.b)), [aligned]);
+
+  // Sub-panes share the pair chart's bar sequence so they scroll in sync.
+  // Correlation and beta run on leg log returns, which only line up with the
+  // pair bars while buildPairOHLC keeps every aligned row (prices > 0).
+  const { panes: selectedPanes, correlationLength } = indicatorSettings;
+  const indicatorPanes = useMemo<IndicatorPane[]>(() => {
+    if (selectedPanes.length === 0 || ohlcData.length === 0) return [];
+    const wantsLegStats = selectedPanes.includes('correlation') || selectedPanes.includes('beta');
+    const returns = wantsLegStats && ohlcData.length === aligned.length ? buildLegLogReturns(aligned) : null;
+    const legStats = returns ? computeRollingCorrelation(returns.a, returns.b, correlationLength) : null;
+
+    const panes: IndicatorPane[] = [];
+    for (const key of selectedPanes) {
+      if (key === 'percentB') {
+        panes.push({
+          key,
+          title: PANE_INDICATOR_LABELS.percentB,
+          data: computePercentB(ohlcToClose(ohlcData), BOLLINGER_LENGTH, BOLLINGER_MULTIPLIER),
+          color: 'hsl(172, 66%, 50%)',
+          precision: 2,
+          referenceLines: [
+            { value: 1, title: '1', color: 'hsl(0, 84%, 60%)' },
+            { value: 0.5 },
+            { value: 0, title: '0', color: 'hsl(142, 71%, 45%)' },
+          ],
+        });
+      } else if (key === 'atr') {
+        const data = computeATR(ohlcData, ATR_LENGTH);
+        panes.push({
+          key,
+          title: PANE_INDICATOR_LABELS.atr,
+          data,
+          color: 'hsl(25, 95%, 53%)',
+          precision: significantPrecision(data[data.length - 1].value),
+          referenceLines: [],
+        });
+      } else if (legStats && key === 'correlation') {
+        panes.push({
+          key,
+          title: `Correlation of ${symbolA}/${symbolB} log returns (${correlationLength})`,
+          data: legStats.correlation,
+          color: 'hsl(199, 89%, 48%)',
+          precision: 3,
+          referenceLines: [{ value: 0 }],
+        });
+      } else if (legStats && key === 'beta') {
+        panes.push({
+          key,
+          title: `OLS beta of ${symbolA} on ${symbolB} log returns (${correlationLength})`,
+          data: legStats.beta,
+          color: 'hsl(280, 65%, 60%)',
+          precision: 3,
+          referenceLines: [{ value: 1, title: 'β = 1' }],
+        });
+      }
+    }
+    return panes;
+  }, [selectedPanes, correlationLength, ohlcData, aligned, symbolA, symbolB]);
+
+  const seriesLabel = construction.mode === 'spread'
+    ? `ln ${symbolA} − ${construction.beta.toFixed(3)}·ln ${symbolB}`
+    : construction.mode === 'kalman'
+      ? `ln ${symbolA} − βₜ·ln ${symbolB}`
+      : `${symbolA}/${symbolB}`;
+
+  const kalmanField = (key: keyof KalmanParams, label: string) => (
+    <div className="space-y-1.5">
+      <Label htmlFor={`kalman-${key}`} className="text-xs text-muted-foreground">
+        {label}
+      </Label>
+      <Input
+        id={`kalman-${key}`}
+        type="number"
+        defaultValue={kalmanParams[key]}
+        step="any"
+        min={0}
+        onBlur={(e) => {
+          const value = parseFloat(e.target.value);
+          // δ must stay inside (0, 1) and R positive; ignore anything else
+          if (value > 0 && (key !== 'delta' || value < 1)) {
+            setKalmanParams((p) => ({ ...p, [key]: value }));
+          } else {
+            e.target.value = String(kalmanParams[key]);
+          }
+        }}
+        className="w-28 h-8 text-sm font-mono"
+      />
+    </div>
+  );
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex flex-col gap-4 sm:flex-row sm:items-start sm:justify-between">
+          <div>
+            <CardTitle className="text-lg">Pair Workspace</CardTitle>
+            <CardDescription>
+              {exchange.toUpperCase()} · {interval} bars · Z entry ±{entryThreshold} / exit ±{exitThreshold}
+            </CardDescription>
+          </div>
+          <div className="flex flex-wrap items-end gap-3">
+            {mode === 'kalman' && (
+              <>
+                {kalmanField('delta', 'Process noise δ')}
+                {kalmanField('observationVariance', 'Observation noise R')}
+              </>
+            )}
+            <div className="space-y-1.5">
+              <Label className="text-xs text-muted-foreground">Construction</Label>
+              <Select value={mode} onValueChange={(v) => setMode(v as ConstructionMode)}>
+                <SelectTrigger className="w-48 h-8 text-sm">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="ratio">Ratio (A / B)</SelectItem>
+                  <SelectItem value="spread" disabled={beta === null}>
+                    Spread (ln A − β·ln B)
+                  </SelectItem>
+                  <SelectItem value="kalman">Kalman spread (βₜ)</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        {loading ? (
+          <div className="flex items-center justify-center py-12">
+            <Loader2 className="h-8 w-8 animate-spin text-primary" />
+          </div>
+        ) : error ? (
+          <div className="text-center py-12 text-muted-foreground">
+            <AlertCircle className="h-8 w-8 mx-auto mb-4 opacity-50" />
+            <p>{error}</p>
+          </div>
+        ) : (
+          <>
+            <SyntheticPairChart
+              ohlcData={ohlcData}
+              symbolA={symbolA}
+              symbolB={symbolB}
+              seriesLabel={seriesLabel}
+              height={420}
+              initialZThreshold={entryThreshold}
+              onSettingsChange={setIndicatorSettings}
+              syncChart={syncChart}
+            />
+
+            <ZScoreRSISubChart
+              ohlcData={ohlcData}
+              zScoreLength={indicatorSettings.zScoreLength}
+              rsiLength={indicatorSettings.rsiLength}
+              rsiMode={indicatorSettings.rsiMode}
+              entryThreshold={entryThreshold}
+              exitThreshold={exitThreshold}
+              rsiOverbought={indicatorSettings.rsiOverbought}
+              rsiOversold={indicatorSettings.rsiOversold}
+              height={160}
+              syncChart={syncChart}
+            />
+
+            {indicatorPanes.map((pane) => (
+              <IndicatorPaneChart
+                key={pane.key}
+                id={`pane-${pane.key}`}
+                title={pane.title}
+                data={pane.data}
+                color={pane.color}
+                precision={pane.precision}
+                referenceLines={pane.referenceLines}
+                height={140}
+                syncChart={syncChart}
+              />
+            ))}
+
+            <div>
+              <p className="text-xs text-muted-foreground mb-2">Legs (rebased to 100)</p>
+              <PriceChart
+                dataA={legA}
+                dataB={legB}
+                symbolA={symbolA}
+                symbolB={symbolB}
+                height={200}
+                syncChart={syncChart}
+              />
+            </div>
+          </>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
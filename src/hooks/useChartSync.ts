@@ -0,0 +1,88 @@
+import { useCallback, useRef } from 'react';
+import type {
+  IChartApi,
+  ISeriesApi,
+  LogicalRange,
+  MouseEventParams,
+  SeriesType,
+  Time,
+} from 'lightweight-charts';
+
+export interface SyncedChart {
+  chart: IChartApi;
+  /** Series the crosshair snaps to when another pane drives it. */
+  series: ISeriesApi<SeriesType>;
+}
+
+export type RegisterSyncedChart = (id: string, entry: SyncedChart | null) => void;
+
+interface Subscription extends SyncedChart {
+  onRange: (range: LogicalRange | null) => void;
+  onCrosshair: (param: MouseEventParams<Time>) => void;
+}
+
+function seriesValueAt(series: ISeriesApi<SeriesType>, time: Time): number | null {
+  const point = series.data().find((d) => d.time === time);
+  if (!point) return null;
+  if ('value' in point) return point.value;
+  if ('close' in point) return point.close;
+  return null;
+}
+
+/**
+ * Keep several lightweight-charts instances on one time axis: scrolling or
+ * zooming any pane moves the others, and the crosshair is mirrored across
+ * panes. Panes must share the same bar sequence for logical ranges to line up.
+ */
+export function useChartSync(): RegisterSyncedChart {
+  const chartsRef = useRef(new Map<string, Subscription>());
+  const syncingRef = useRef(false);
+
+  const broadcast = useCallback((sourceId: string, apply: (target: Subscription) => void) => {
+    if (syncingRef.current) return;
+    syncingRef.current = true;
+    try {
+      chartsRef.current.forEach((target, id) => {
+        if (id !== sourceId) apply(target);
+      });
+    } finally {
+      syncingRef.current = false;
+    }
+  }, []);
+
+  return useCallback<RegisterSyncedChart>((id, entry) => {
+    const existing = chartsRef.current.get(id);
+    if (existing) {
+      existing.chart.timeScale().unsubscribeVisibleLogicalRangeChange(existing.onRange);
+      existing.chart.unsubscribeCrosshairMove(existing.onCrosshair);
+      chartsRef.current.delete(id);
+    }
+
+    if (!entry) return;
+
+    const onRange = (range: LogicalRange | null) => {
+      if (!range) return;
+      broadcast(id, (target) => target.chart.timeScale().setVisibleLogicalRange(range));
+    };
+
+    const onCrosshair = (param: MouseEventParams<Time>) => {
+      broadcast(id, (target) => {
+        const value = param.time !== undefined ? seriesValueAt(target.series, param.time) : null;
+        if (param.time === undefined || value === null) {
+          target.chart.clearCrosshairPosition();
+        } else {
+          target.chart.setCrosshairPosition(value, param.time, target.series);
+        }
+      });
+    };
+
+    entry.chart.timeScale().subscribeVisibleLogicalRangeChange(onRange);
+    entry.chart.subscribeCrosshairMove(onCrosshair);
+    chartsRef.current.set(id, { ...entry, onRange, onCrosshair });
+
+    // Snap a newly mounted pane to the range the others are already showing
+    const peer = [...chartsRef.current.entries()].find(([peerId]) => peerId !== id)?.[1];
+    const range = peer?.chart.timeScale().getVisibleLogicalRange();
+    if (range) entry.chart.timeScale().setVisibleLogicalRange(range);
+  }, [broadcast]);
+}
@@ -0,0 +1,98 @@
+import { useState, useEffect, useCallback } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import { useAuth } from '@/contexts/AuthContext';
+import {
+  addExchangeAccount,
+  ExchangeAccountRow,
+  revokeExchangeAccount,
+  testExchangeAccount,
+  updateExchangeAccount,
+} from '@/lib/exchangeAccountStore';
+import type { ExchangeAccountForm } from '@/types/exchangeAccount';
+
+/** The user's exchange accounts, newest first, with revoked ones after the rest. */
+export function useExchangeAccounts() {
+  const { user } = useAuth();
+  const [accounts, setAccounts] = useState<ExchangeAccountRow[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [testingId, setTestingId] = useState<string | null>(null);
+  const [revokingId, setRevokingId] = useState<string | null>(null);
+
+  const refetch = useCallback(async () => {
+    if (!user) {
+      setAccounts([]);
+      setLoading(false);
+      return;
+    }
+
+    try {
+      setLoading(true);
+      setError(null);
+
+      const { data, error: fetchError } = await supabase
+        .from('exchange_accounts')
+        .select('*')
+        .eq('user_id', user.id)
+        .order('created_at', { ascending: false });
+      if (fetchError) throw fetchError;
+
+      const rows = data ?? [];
+      setAccounts([...rows.filter((a) => a.status !== 'revoked'), ...rows.filter((a) => a.status === 'revoked')]);
+    } catch (e) {
+      console.error('Error fetching exchange accounts:', e);
+      setError(e instanceof Error ? e.message : 'Failed to load exchange accounts');
+    } finally {
+      setLoading(false);
+    }
+  }, [user]);
+
+  const add = useCallback(async (form: ExchangeAccountForm) => {
+    const id = await addExchangeAccount(form);
+    await refetch();
+    return id;
+  }, [refetch]);
+
+  const update = useCallback(async (accountId: string, form: ExchangeAccountForm) => {
+    await updateExchangeAccount(accountId, form);
+    await refetch();
+  }, [refetch]);
+
+  const revoke = useCallback(async (accountId: string) => {
+    setRevokingId(accountId);
+    try {
+      await revokeExchangeAccount(accountId);
+      await refetch();
+    } finally {
+      setRevokingId(null);
+    }
+  }, [refetch]);
+
+  const test = useCallback(async (accountId: string) => {
+    setTestingId(accountId);
+    try {
+      const result = await testExchangeAccount(accountId);
+      await refetch();
+      return result;
+    } finally {
+      setTestingId(null);
+    }
+  }, [refetch]);
+
+  useEffect(() => {
+    refetch();
+  }, [refetch]);
+
+  return {
+    accounts,
+    loading,
+    error,
+    testingId,
+    revokingId,
+    add,
+    update,
+    revoke,
+    test,
+    refetch,
+  };
+}
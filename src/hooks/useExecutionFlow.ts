@@ -0,0 +1,107 @@
+import { useState, useCallback, useRef } from 'react';
+import { useAuth } from '@/contexts/AuthContext';
+import type { UserSettings } from '@/hooks/useUserSettings';
+import { buildExecutionPreview, ExecutionPreviewInput, isPreviewExpired, parseOrderDetails } from '@/lib/executions';
+import { createExecution, ExecutionRow, transitionExecution } from '@/lib/executionStore';
+import { fillPaperExecution } from '@/lib/paperStore';
+import { paperSettings } from '@/lib/paperTrading';
+import { checkRiskLimits } from '@/lib/riskLimitStore';
+import { BAR_INTERVALS, BarInterval } from '@/types/marketData';
+import type { RiskLimitViolation } from '@/types/riskLimits';
+
+type PreviewRequest = Omit<ExecutionPreviewInput, 'userId' | 'now'>;
+
+/**
+ * Drives one pair execution from preview to a user decision. Each step writes
+ * the row first and only then updates local state, so what the dialog shows
+ * is always what the database holds. Paper executions are filled as soon as
+ * they are confirmed. Risk limits are enforced by the database on each step;
+ * checkLimits asks it up front so the dialog can say which one would block.
+ */
+export function useExecutionFlow(settings: UserSettings | null) {
+  const { user } = useAuth();
+  const [execution, setExecution] = useState<ExecutionRow | null>(null);
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [violations, setViolations] = useState<RiskLimitViolation[]>([]);
+  const latestCheck = useRef(0);
+
+  const run = useCallback(async (step: () => Promise<ExecutionRow>) => {
+    setBusy(true);
+    setError(null);
+    try {
+      const row = await step();
+      setExecution(row);
+      return row;
+    } catch (e) {
+      console.error('Execution step failed:', e);
+      setError(e instanceof Error ? e.message : 'Execution update failed');
+      return null;
+    } finally {
+      setBusy(false);
+    }
+  }, []);
+
+  const createPreview = useCallback(
+    (request: PreviewRequest) =>
+      run(async () => {
+        if (!user) throw new Error('Not authenticated');
+        return createExecution(buildExecutionPreview({ ...request, userId: user.id, now: Date.now() }));
+      }),
+    [run, user]
+  );
+
+  const checkLimits = useCallback(
+    async (request: PreviewRequest) => {
+      if (!user) return;
+      const check = ++latestCheck.current;
+      try {
+        const preview = buildExecutionPreview({ ...request, userId: user.id, now: Date.now() });
+        const found = await checkRiskLimits(preview.order_details ?? {});
+        if (check === latestCheck.current) setViolations(found);
+      } catch (e) {
+        // The database still enforces the limits when the preview is saved
+        console.error('Risk limit check failed:', e);
+        if (check === latestCheck.current) setViolations([]);
+      }
+    },
+    [user]
+  );
+
+  const confirm = useCallback(
+    () =>
+      run(async () => {
+        if (!execution) throw new Error('No preview to confirm');
+        const details = parseOrderDetails(execution.order_details);
+        // Confirmed exchange executions would sit unrouted, holding a risk-limit slot
+        if (details?.venue !== 'paper') throw new Error('Only paper executions can be confirmed until exchange routing is available');
+        if (details && isPreviewExpired(details, Date.now())) {
+          throw new Error('This preview has expired; cancel it and build a new one at current prices');
+        }
+        const confirmed = await transitionExecution(execution, 'confirmed');
+        setExecution(confirmed);
+        const interval: BarInterval = BAR_INTERVALS.includes(settings?.bar_interval as BarInterval)
+          ? (settings?.bar_interval as BarInterval)
+          : '15m';
+        const filled = await fillPaperExecution(confirmed, paperSettings(settings), interval);
+        return filled.execution;
+      }),
+    [run, execution, settings]
+  );
+
+  const cancel = useCallback(
+    (reason: string) =>
+      run(async () => {
+        if (!execution) throw new Error('No execution to cancel');
+        return transitionExecution(execution, 'cancelled', { error_message: reason }, { reason });
+      }),
+    [run, execution]
+  );
+
+  const reset = useCallback(() => {
+    setExecution(null);
+    setError(null);
+  }, []);
+
+  return { execution, busy, error, violations, checkLimits, createPreview, confirm, cancel, reset };
+}
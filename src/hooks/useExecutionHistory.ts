@@ -0,0 +1,177 @@
+import { useState, useEffect, useCallback } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import { useAuth } from '@/contexts/AuthContext';
+import type { Database } from '@/integrations/supabase/types';
+import type { ExecutionRow } from '@/lib/executionStore';
+import { ExecutionHistoryStats, summarizeExecutions } from '@/lib/executionHistory';
+import type { ExecutionStatus } from '@/types/execution';
+import type { TradingExchange } from '@/types/trading';
+
+type Signal = Database['public']['Tables']['signals']['Row'];
+type PairMetrics = Database['public']['Tables']['pair_metrics']['Row'];
+
+export interface ExecutionWithSignal extends ExecutionRow {
+  signals: (Signal & { pair_metrics: PairMetrics | null }) | null;
+}
+
+export type HistoryStatus = 'all' | ExecutionStatus;
+export type HistoryExchange = 'all' | 'paper' | TradingExchange;
+
+export interface ExecutionHistoryFilters {
+  status: HistoryStatus;
+  /** Matched as a substring of either leg. */
+  symbol: string;
+  /** Inclusive creation-date bounds as yyyy-mm-dd in local time; empty for open-ended. */
+  from: string;
+  to: string;
+  exchange: HistoryExchange;
+}
+
+export const DEFAULT_HISTORY_FILTERS: ExecutionHistoryFilters = {
+  status: 'all',
+  symbol: '',
+  from: '',
+  to: '',
+  exchange: 'all',
+};
+
+interface UseExecutionHistoryParams {
+  filters: ExecutionHistoryFilters;
+  page: number;
+  pageSize: number;
+}
+
+// PostgREST caps each response at 1000 rows; stats and exports page through in batches
+const FETCH_BATCH = 1000;
+// Stats and exports stop here rather than pull an unbounded history into the browser
+export const MAX_HISTORY_ROWS = 10_000;
+
+// Keep only symbol characters so the term can't break the PostgREST filter syntax
+const sanitizeSymbol = (symbol: string) => symbol.toUpperCase().replace(/[^A-Z0-9]/g, '');
+
+const startOfDay = (date: string) => new Date(`${date}T00:00:00`).toISOString();
+
+const startOfNextDay = (date: string) => {
+  const next = new Date(`${date}T00:00:00`);
+  next.setDate(next.getDate() + 1);
+  return next.toISOString();
+};
+
+/**
+ * Narrow an executions query to one user and the filters. Pair and exchange
+ * live in order_details, so those match on its JSON fields.
+ */
+function filteredExecutions(userId: string, filters: ExecutionHistoryFilters, select: string, count?: 'exact') {
+  let query = supabase.from('executions').select(select, { count }).eq('user_id', userId);
+
+  if (filters.status !== 'all') query = query.eq('status', filters.status);
+  if (filters.from) query = query.gte('created_at', startOfDay(filters.from));
+  if (filters.to) query = query.lt('created_at', startOfNextDay(filters.to));
+
+  const symbol = sanitizeSymbol(filters.symbol);
+  if (symbol) {
+    query = query.or(
+      `order_details->legs->0->>symbol.ilike.%${symbol}%,order_details->legs->1->>symbol.ilike.%${symbol}%`
+    );
+  }
+
+  if (filters.exchange === 'paper') query = query.eq('order_details->>venue', 'paper');
+  else if (filters.exchange !== 'all') query = query.eq('order_details->>exchange', filters.exchange);
+
+  return query;
+}
+
+/** Every execution matching the filters, newest first, up to MAX_HISTORY_ROWS. */
+export async function fetchFilteredExecutions(userId: string, filters: ExecutionHistoryFilters): Promise<ExecutionRow[]> {
+  const rows: ExecutionRow[] = [];
+  while (rows.length < MAX_HISTORY_ROWS) {
+    const { data, error } = await filteredExecutions(userId, filters, '*')
+      .order('created_at', { ascending: false })
+      .range(rows.length, rows.length + FETCH_BATCH - 1);
+    if (error) throw error;
+    const batch = (data ?? []) as unknown as ExecutionRow[];
+    rows.push(...batch);
+    if (batch.length < FETCH_BATCH) break;
+  }
+  return rows.slice(0, MAX_HISTORY_ROWS);
+}
+
+/**
+ * One server-side page of the user's executions with their signals, plus
+ * summary stats over everything the filters match. Changing page only
+ * refetches the page; changing filters refetches both.
+ */
+export function useExecutionHistory({ filters, page, pageSize }: UseExecutionHistoryParams) {
+  const { user } = useAuth();
+  const [executions, setExecutions] = useState<ExecutionWithSignal[]>([]);
+  const [totalCount, setTotalCount] = useState(0);
+  const [stats, setStats] = useState<ExecutionHistoryStats | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [statsLoading, setStatsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  const fetchPage = useCallback(async () => {
+    if (!user) {
+      setExecutions([]);
+      setTotalCount(0);
+      setLoading(false);
+      return;
+    }
+
+    try {
+      setLoading(true);
+      setError(null);
+
+      const from = page * pageSize;
+      const { data, error: fetchError, count } = await filteredExecutions(
+        user.id,
+        filters,
+        '*, signals(*, pair_metrics(*))',
+        'exact'
+      )
+        .order('created_at', { ascending: false })
+        .range(from, from + pageSize - 1);
+      if (fetchError) throw fetchError;
+
+      setExecutions((data ?? []) as unknown as ExecutionWithSignal[]);
+      setTotalCount(count ?? 0);
+    } catch (err) {
+      console.error('Error fetching execution history:', err);
+      setError('Failed to load execution history');
+    } finally {
+      setLoading(false);
+    }
+  }, [user, filters, page, pageSize]);
+
+  const fetchStats = useCallback(async () => {
+    if (!user) {
+      setStats(null);
+      setStatsLoading(false);
+      return;
+    }
+
+    try {
+      setStatsLoading(true);
+      setStats(summarizeExecutions(await fetchFilteredExecutions(user.id, filters)));
+    } catch (err) {
+      console.error('Error computing execution stats:', err);
+      setStats(null);
+    } finally {
+      setStatsLoading(false);
+    }
+  }, [user, filters]);
+
+  const refetch = useCallback(async () => {
+    await Promise.all([fetchPage(), fetchStats()]);
+  }, [fetchPage, fetchStats]);
+
+  useEffect(() => {
+    fetchPage();
+  }, [fetchPage]);
+
+  useEffect(() => {
+    fetchStats();
+  }, [fetchStats]);
+
+  return { executions, totalCount, stats, loading, statsLoading, error, refetch };
+}
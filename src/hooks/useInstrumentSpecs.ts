@@ -0,0 +1,59 @@
+import { useState, useEffect, useCallback, useRef } from 'react';
+import { getMarketDataAdapter } from '@/lib/marketData';
+import type { InstrumentSpec, MarketDataExchange } from '@/types/marketData';
+
+interface UseInstrumentSpecsParams {
+  symbols: string[];
+  exchange?: MarketDataExchange;
+}
+
+/**
+ * Lot and tick sizes for a handful of symbols. A symbol whose lookup fails
+ * maps to null so callers can fall back to unrounded sizes.
+ */
+export function useInstrumentSpecs({ symbols, exchange = 'bybit' }: UseInstrumentSpecsParams) {
+  const [specs, setSpecs] = useState<Record<string, InstrumentSpec | null>>({});
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const requestIdRef = useRef(0);
+  const key = symbols.join(',');
+
+  const fetchData = useCallback(async () => {
+    const list = key ? key.split(',') : [];
+    const adapter = getMarketDataAdapter(exchange);
+    if (list.length === 0 || !adapter.fetchInstrument) {
+      setSpecs({});
+      setLoading(false);
+      return;
+    }
+
+    const requestId = ++requestIdRef.current;
+    setLoading(true);
+    setError(null);
+
+    const loaded = await Promise.allSettled(list.map((symbol) => adapter.fetchInstrument(symbol)));
+    if (requestId !== requestIdRef.current) return;
+
+    const next: Record<string, InstrumentSpec | null> = {};
+    const failed: string[] = [];
+    loaded.forEach((outcome, i) => {
+      if (outcome.status === 'fulfilled') {
+        next[list[i]] = outcome.value;
+      } else {
+        console.error(`Error fetching instrument ${list[i]}:`, outcome.reason);
+        next[list[i]] = null;
+        failed.push(list[i]);
+      }
+    });
+
+    setSpecs(next);
+    setError(failed.length > 0 ? `Lot sizes unavailable for ${failed.join(', ')}` : null);
+    setLoading(false);
+  }, [key, exchange]);
+
+  useEffect(() => {
+    fetchData();
+  }, [fetchData]);
+
+  return { specs, loading, error, refetch: fetchData };
+}
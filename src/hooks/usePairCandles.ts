@@ -0,0 +1,79 @@
+import { useState, useEffect, useCallback, useRef } from 'react';
+import { loadPairCandles } from '@/lib/marketData';
+import type { AlignedCandle, BarInterval, Candle, MarketDataExchange } from '@/types/marketData';
+
+interface UsePairCandlesParams {
+  symbolA: string;
+  symbolB: string;
+  interval: BarInterval;
+  limit: number;
+  exchange?: MarketDataExchange;
+}
+
+interface UsePairCandlesResult {
+  candlesA: Candle[];
+  candlesB: Candle[];
+  aligned: AlignedCandle[];
+  loading: boolean;
+  error: string | null;
+  refetch: () => void;
+}
+
+export function usePairCandles({
+  symbolA,
+  symbolB,
+  interval,
+  limit,
+  exchange = 'bybit',
+}: UsePairCandlesParams): UsePairCandlesResult {
+  const [candlesA, setCandlesA] = useState<Candle[]>([]);
+  const [candlesB, setCandlesB] = useState<Candle[]>([]);
+  const [aligned, setAligned] = useState<AlignedCandle[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const requestIdRef = useRef(0);
+
+  const fetchData = useCallback(async () => {
+    if (!symbolA || !symbolB) {
+      setLoading(false);
+      return;
+    }
+
+    // Drop responses from superseded requests (symbol/interval changed mid-flight)
+    const requestId = ++requestIdRef.current;
+
+    try {
+      setLoading(true);
+      setError(null);
+
+      const result = await loadPairCandles({ exchange, symbolA, symbolB, interval, limit });
+      if (requestId !== requestIdRef.current) return;
+
+      setCandlesA(result.candlesA);
+      setCandlesB(result.candlesB);
+      setAligned(result.aligned);
+    } catch (err) {
+      if (requestId !== requestIdRef.current) return;
+      console.error('Error fetching pair candles:', err);
+      setError(err instanceof Error ? err.message : 'Failed to load candle data');
+      setCandlesA([]);
+      setCandlesB([]);
+      setAligned([]);
+    } finally {
+      if (requestId === requestIdRef.current) setLoading(false);
+    }
+  }, [symbolA, symbolB, interval, limit, exchange]);
+
+  useEffect(() => {
+    fetchData();
+  }, [fetchData]);
+
+  return {
+    candlesA,
+    candlesB,
+    aligned,
+    loading,
+    error,
+    refetch: fetchData,
+  };
+}
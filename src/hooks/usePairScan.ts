@@ -0,0 +1,131 @@
+import { useState, useEffect, useCallback, useRef } from 'react';
+import { fetchCandles, getMarketDataAdapter } from '@/lib/marketData';
+import { compareScanResults } from '@/lib/pairScanner';
+import type { BarInterval, Candle, MarketDataExchange } from '@/types/marketData';
+import type { PairScanResult, ScanThresholds, ScanWorkerMessage, ScanWorkerRequest } from '@/types/scanner';
+
+export type PairScanStatus = 'idle' | 'loading' | 'scanning' | 'done' | 'cancelled' | 'error';
+
+export interface PairScanParams {
+  symbols: string[];
+  exchange: MarketDataExchange;
+  interval: BarInterval;
+  /** Bars of history to load per symbol. */
+  bars: number;
+  thresholds: ScanThresholds;
+  /** Pairs with fewer overlapping bars are reported as untestable. */
+  minBars: number;
+}
+
+export interface PairScanProgress {
+  completed: number;
+  total: number;
+}
+
+// Symbols fetched at once; keeps exchange rate limits comfortable
+const FETCH_CONCURRENCY = 4;
+
+export function usePairScan() {
+  const [status, setStatus] = useState<PairScanStatus>('idle');
+  const [progress, setProgress] = useState<PairScanProgress>({ completed: 0, total: 0 });
+  const [results, setResults] = useState<PairScanResult[]>([]);
+  const [failedSymbols, setFailedSymbols] = useState<string[]>([]);
+  const [error, setError] = useState<string | null>(null);
+  const workerRef = useRef<Worker | null>(null);
+  // Bumped on every start/cancel so stale fetches and worker messages are dropped
+  const scanIdRef = useRef(0);
+
+  const stopWorker = useCallback(() => {
+    workerRef.current?.terminate();
+    workerRef.current = null;
+  }, []);
+
+  const start = useCallback(async ({ symbols, exchange, interval, bars, thresholds, minBars }: PairScanParams) => {
+    stopWorker();
+    const scanId = ++scanIdRef.current;
+
+    setStatus('loading');
+    setProgress({ completed: 0, total: symbols.length });
+    setResults([]);
+    setFailedSymbols([]);
+    setError(null);
+
+    const adapter = getMarketDataAdapter(exchange);
+    const candles: Record<string, Candle[]> = {};
+    const failed: string[] = [];
+
+    for (let i = 0; i < symbols.length; i += FETCH_CONCURRENCY) {
+      const chunk = symbols.slice(i, i + FETCH_CONCURRENCY);
+      const loaded = await Promise.allSettled(
+        chunk.map((symbol) => fetchCandles(adapter, { symbol, interval, limit: bars }))
+      );
+      if (scanId !== scanIdRef.current) return;
+
+      loaded.forEach((outcome, j) => {
+        if (outcome.status === 'fulfilled' && outcome.value.length > 0) {
+          candles[chunk[j]] = outcome.value;
+        } else {
+          if (outcome.status === 'rejected') console.error(`Error fetching candles for ${chunk[j]}:`, outcome.reason);
+          failed.push(chunk[j]);
+        }
+      });
+      setProgress({ completed: Math.min(i + FETCH_CONCURRENCY, symbols.length), total: symbols.length });
+    }
+
+    setFailedSymbols(failed);
+    const loadedCount = Object.keys(candles).length;
+    if (loadedCount < 2) {
+      setError('Candle data is needed for at least two symbols to scan pairs');
+      setStatus('error');
+      return;
+    }
+
+    const worker = new Worker(new URL('../workers/pairScanner.worker.ts', import.meta.url), { type: 'module' });
+    workerRef.current = worker;
+
+    worker.onmessage = (event: MessageEvent<ScanWorkerMessage>) => {
+      const message = event.data;
+      if (message.scanId !== scanIdRef.current) return;
+
+      if (message.type === 'results') {
+        setResults((prev) => [...prev, ...message.results].sort(compareScanResults));
+        setProgress({ completed: message.completed, total: message.total });
+      } else if (message.type === 'done') {
+        setStatus('done');
+        stopWorker();
+      } else {
+        setError(message.message);
+        setStatus('error');
+        stopWorker();
+      }
+    };
+
+    worker.onerror = (event) => {
+      if (scanId !== scanIdRef.current) return;
+      console.error('Pair scan worker error:', event);
+      setError(event.message || 'Scan worker failed');
+      setStatus('error');
+      stopWorker();
+    };
+
+    setStatus('scanning');
+    setProgress({ completed: 0, total: (loadedCount * (loadedCount - 1)) / 2 });
+
+    const request: ScanWorkerRequest = { type: 'scan', scanId, interval, candles, thresholds, minBars };
+    worker.postMessage(request);
+  }, [stopWorker]);
+
+  const cancel = useCallback(() => {
+    scanIdRef.current++;
+    stopWorker();
+    setStatus((s) => (s === 'loading' || s === 'scanning' ? 'cancelled' : s));
+  }, [stopWorker]);
+
+  // Don't leave a scan running after the page unmounts
+  useEffect(() => () => {
+    scanIdRef.current++;
+    stopWorker();
+  }, [stopWorker]);
+
+  return { status, progress, results, failedSymbols, error, start, cancel };
+}
@@ -0,0 +1,171 @@
+import { useState, useEffect, useCallback, useRef } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import { useAuth } from '@/contexts/AuthContext';
+import { closePaperPositionRow, latestPairPrices, PairPrices, PaperPositionRow } from '@/lib/paperStore';
+import { markPaperPosition, paperExitReason } from '@/lib/paperTrading';
+import { PAPER_MARK_REFRESH_MS, PaperPositionMark } from '@/types/paper';
+
+// Most recent closed positions shown alongside the open ones
+const CLOSED_HISTORY_LIMIT = 50;
+
+const pairKey = (p: PaperPositionRow) => `${p.symbol_a}/${p.symbol_b}`;
+
+interface UsePaperPositionsOptions {
+  /** Called for each position an exit rule closed during a mark. */
+  onAutoClose?: (position: PaperPositionRow) => void;
+}
+
+/**
+ * The user's paper positions, marked to market every PAPER_MARK_REFRESH_MS
+ * while mounted. Each mark checks the position's exit rules and closes it
+ * when one fires.
+ */
+export function usePaperPositions({ onAutoClose }: UsePaperPositionsOptions = {}) {
+  const { user } = useAuth();
+  const [open, setOpen] = useState<PaperPositionRow[]>([]);
+  const [closed, setClosed] = useState<PaperPositionRow[]>([]);
+  const [marks, setMarks] = useState<Record<string, PaperPositionMark>>({});
+  const [markErrors, setMarkErrors] = useState<Record<string, string>>({});
+  const [loading, setLoading] = useState(true);
+  const [marking, setMarking] = useState(false);
+  const [closingId, setClosingId] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const onAutoCloseRef = useRef(onAutoClose);
+  onAutoCloseRef.current = onAutoClose;
+  const markingRef = useRef(false);
+
+  const refetch = useCallback(async () => {
+    if (!user) {
+      setOpen([]);
+      setClosed([]);
+      setLoading(false);
+      return;
+    }
+
+    try {
+      setLoading(true);
+      setError(null);
+
+      const [openResult, closedResult] = await Promise.all([
+        supabase
+          .from('paper_positions')
+          .select('*')
+          .eq('user_id', user.id)
+          .eq('status', 'open')
+          .order('opened_at', { ascending: false }),
+        supabase
+          .from('paper_positions')
+          .select('*')
+          .eq('user_id', user.id)
+          .eq('status', 'closed')
+          .order('closed_at', { ascending: false })
+          .limit(CLOSED_HISTORY_LIMIT),
+      ]);
+      if (openResult.error) throw openResult.error;
+      if (closedResult.error) throw closedResult.error;
+
+      setOpen(openResult.data ?? []);
+      setClosed(closedResult.data ?? []);
+    } catch (e) {
+      console.error('Error fetching paper positions:', e);
+      setError(e instanceof Error ? e.message : 'Failed to load paper positions');
+    } finally {
+      setLoading(false);
+    }
+  }, [user]);
+
+  const settle = useCallback((position: PaperPositionRow) => {
+    setOpen((prev) => prev.filter((p) => p.id !== position.id));
+    setClosed((prev) => [position, ...prev.filter((p) => p.id !== position.id)].slice(0, CLOSED_HISTORY_LIMIT));
+    setMarks((prev) => {
+      const next = { ...prev };
+      delete next[position.id];
+      return next;
+    });
+  }, []);
+
+  /** Mark every open position at the latest prices, closing any whose exit rule fires. */
+  const markAll = useCallback(async () => {
+    if (markingRef.current || open.length === 0) return;
+    markingRef.current = true;
+    setMarking(true);
+
+    // One price request per pair, shared by every position on it
+    const pairs = new Map<string, PaperPositionRow[]>();
+    for (const position of open) {
+      const key = pairKey(position);
+      pairs.set(key, [...(pairs.get(key) ?? []), position]);
+    }
+
+    const nextMarks: Record<string, PaperPositionMark> = {};
+    const nextErrors: Record<string, string> = {};
+    try {
+      for (const [key, positions] of pairs) {
+        let prices: PairPrices;
+        try {
+          prices = await latestPairPrices(positions[0].symbol_a, positions[0].symbol_b);
+        } catch (e) {
+          console.error(`Error marking ${key}:`, e);
+          nextErrors[key] = e instanceof Error ? e.message : 'Failed to load prices';
+          continue;
+        }
+
+        const now = Date.now();
+        for (const position of positions) {
+          const mark = markPaperPosition(position, prices.priceA, prices.priceB, now);
+          nextMarks[position.id] = mark;
+          const reason = paperExitReason(position, mark);
+          if (!reason) continue;
+          try {
+            const row = await closePaperPositionRow(position, prices, reason);
+            settle(row);
+            onAutoCloseRef.current?.(row);
+          } catch (e) {
+            console.error('Error closing paper position:', e);
+          }
+        }
+      }
+      setMarks((prev) => ({ ...prev, ...nextMarks }));
+      setMarkErrors(nextErrors);
+    } finally {
+      markingRef.current = false;
+      setMarking(false);
+    }
+  }, [open, settle]);
+
+  const closePosition = useCallback(async (position: PaperPositionRow) => {
+    setClosingId(position.id);
+    try {
+      const prices = await latestPairPrices(position.symbol_a, position.symbol_b);
+      const row = await closePaperPositionRow(position, prices, 'manual');
+      settle(row);
+      return row;
+    } finally {
+      setClosingId(null);
+    }
+  }, [settle]);
+
+  useEffect(() => {
+    refetch();
+  }, [refetch]);
+
+  useEffect(() => {
+    markAll();
+    const timer = setInterval(markAll, PAPER_MARK_REFRESH_MS);
+    return () => clearInterval(timer);
+  }, [markAll]);
+
+  return {
+    open,
+    closed,
+    marks,
+    markErrors,
+    loading,
+    marking,
+    closingId,
+    error,
+    closePosition,
+    markAll,
+    refetch,
+  };
+}
@@ -0,0 +1,103 @@
+import { useState, useEffect, useCallback } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import { useAuth } from '@/contexts/AuthContext';
+import type { Database } from '@/integrations/supabase/types';
+import type { ExecutionRow } from '@/lib/executionStore';
+import { closedTrade } from '@/lib/performanceAnalytics';
+import { STRATEGY_KINDS, ClosedTrade, Strategy } from '@/types/analytics';
+
+type PairMetrics = Database['public']['Tables']['pair_metrics']['Row'];
+
+type ClosedExecution = ExecutionRow & {
+  signals: { pair_metrics: Pick<PairMetrics, 'half_life_hours'> | null } | null;
+};
+
+export interface PerformanceFilters {
+  strategy: 'all' | Strategy;
+  /** Inclusive close-date bounds as UTC yyyy-mm-dd; empty for open-ended. */
+  from: string;
+  to: string;
+}
+
+export const DEFAULT_PERFORMANCE_FILTERS: PerformanceFilters = {
+  strategy: 'all',
+  from: '',
+  to: '',
+};
+
+// PostgREST caps each response at 1000 rows; page through in batches
+const FETCH_BATCH = 1000;
+// Analytics stop here rather than pull an unbounded history into the browser
+export const MAX_ANALYTICS_TRADES = 10_000;
+
+const nextUtcDay = (day: string) => {
+  const next = new Date(`${day}T00:00:00.000Z`);
+  next.setUTCDate(next.getUTCDate() + 1);
+  return next.toISOString();
+};
+
+/**
+ * The user's closed trades matching the filters, oldest close first, with
+ * the half-life each signal predicted. Close times are ISO strings in
+ * order_details, so the date bounds compare them as text.
+ */
+export function usePerformanceAnalytics(filters: PerformanceFilters) {
+  const { user } = useAuth();
+  const [trades, setTrades] = useState<ClosedTrade[]>([]);
+  const [truncated, setTruncated] = useState(false);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  const refetch = useCallback(async () => {
+    if (!user) {
+      setTrades([]);
+      setLoading(false);
+      return;
+    }
+
+    try {
+      setLoading(true);
+      setError(null);
+
+      const rows: ClosedExecution[] = [];
+      while (rows.length < MAX_ANALYTICS_TRADES) {
+        let query = supabase
+          .from('executions')
+          .select('*, signals(pair_metrics(half_life_hours))')
+          .eq('user_id', user.id)
+          .eq('status', 'success')
+          .not('order_details->close', 'is', null);
+        if (filters.strategy !== 'all') query = query.eq('order_details->>kind', STRATEGY_KINDS[filters.strategy]);
+        if (filters.from) query = query.gte('order_details->close->>closed_at', `${filters.from}T00:00:00.000Z`);
+        if (filters.to) query = query.lt('order_details->close->>closed_at', nextUtcDay(filters.to));
+
+        const { data, error: fetchError } = await query
+          .order('created_at', { ascending: true })
+          .range(rows.length, rows.length + FETCH_BATCH - 1);
+        if (fetchError) throw fetchError;
+        const batch = (data ?? []) as unknown as ClosedExecution[];
+        rows.push(...batch);
+        if (batch.length < FETCH_BATCH) break;
+      }
+
+      const closed = rows
+        .slice(0, MAX_ANALYTICS_TRADES)
+        .map((row) => closedTrade(row, row.signals?.pair_metrics?.half_life_hours ?? null))
+        .filter((t): t is ClosedTrade => t !== null)
+        .sort((a, b) => a.closedAt.localeCompare(b.closedAt));
+      setTrades(closed);
+      setTruncated(rows.length >= MAX_ANALYTICS_TRADES);
+    } catch (err) {
+      console.error('Error fetching performance analytics:', err);
+      setError('Failed to load closed trades');
+    } finally {
+      setLoading(false);
+    }
+  }, [user, filters]);
+
+  useEffect(() => {
+    refetch();
+  }, [refetch]);
+
+  return { trades, truncated, loading, error, refetch };
+}
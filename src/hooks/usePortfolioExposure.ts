@@ -0,0 +1,105 @@
+import { useState, useEffect, useCallback, useMemo } from 'react';
+import { useAuth } from '@/contexts/AuthContext';
+import { ExecutionRow, fetchOpenPairExecutions } from '@/lib/executionStore';
+import { parseOrderDetails } from '@/lib/executions';
+import { alignCandles, fetchCandles, getMarketDataAdapter } from '@/lib/marketData';
+import { baseAsset, btcBeta, executionExposureLegs } from '@/lib/portfolioRisk';
+import { PAPER_PRICE_EXCHANGE } from '@/types/paper';
+import {
+  BTC_BETA_INTERVAL,
+  BTC_BETA_LOOKBACK_BARS,
+  BTC_BETA_SYMBOL,
+  ExposureLeg,
+  ExposureMarket,
+} from '@/types/portfolio';
+
+/**
+ * Latest price and BTC beta for each asset, one candle history per asset
+ * regressed against BTC's. Assets that fail to load are left out and fall
+ * back to their entry price and β 1.
+ */
+async function loadExposureMarket(symbols: string[]): Promise<ExposureMarket> {
+  const adapter = getMarketDataAdapter(PAPER_PRICE_EXCHANGE);
+  const request = { interval: BTC_BETA_INTERVAL, limit: BTC_BETA_LOOKBACK_BARS + 1 };
+  const btc = await fetchCandles(adapter, { ...request, symbol: BTC_BETA_SYMBOL });
+
+  const market: ExposureMarket = { prices: {}, betas: {} };
+  const btcAsset = baseAsset(BTC_BETA_SYMBOL);
+  if (btc.length > 0) market.prices[btcAsset] = btc[btc.length - 1].close;
+  market.betas[btcAsset] = 1;
+
+  // One symbol per asset is enough to price and beta it
+  const bySymbol = new Map<string, string>();
+  for (const symbol of symbols) {
+    const asset = baseAsset(symbol);
+    if (asset !== btcAsset && !bySymbol.has(asset)) bySymbol.set(asset, symbol);
+  }
+
+  await Promise.all(
+    [...bySymbol].map(async ([asset, symbol]) => {
+      try {
+        const candles = await fetchCandles(adapter, { ...request, symbol });
+        if (candles.length > 0) market.prices[asset] = candles[candles.length - 1].close;
+        const beta = btcBeta(alignCandles(candles, btc));
+        if (beta !== null) market.betas[asset] = beta;
+      } catch (e) {
+        console.error(`Error loading ${symbol} for exposure:`, e);
+      }
+    })
+  );
+  return market;
+}
+
+/**
+ * Legs of every open pair execution, with the market data to mark and
+ * beta-weight them. `extraSymbols` are priced too, so a proposed trade on
+ * assets the portfolio doesn't hold yet can be weighed against it.
+ */
+export function usePortfolioExposure(extraSymbols: string[] = []) {
+  const { user } = useAuth();
+  const [legs, setLegs] = useState<ExposureLeg[]>([]);
+  const [openPairs, setOpenPairs] = useState(0);
+  const [stranded, setStranded] = useState<ExecutionRow[]>([]);
+  const [market, setMarket] = useState<ExposureMarket>({ prices: {}, betas: {} });
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const extraKey = extraSymbols.join(',');
+  const extra = useMemo(() => (extraKey ? extraKey.split(',') : []), [extraKey]);
+
+  const refetch = useCallback(async () => {
+    if (!user) {
+      setLegs([]);
+      setOpenPairs(0);
+      setStranded([]);
+      setLoading(false);
+      return;
+    }
+
+    try {
+      setLoading(true);
+      setError(null);
+
+      const rows = await fetchOpenPairExecutions(user.id);
+      const open = rows.flatMap((row) => {
+        const details = parseOrderDetails(row.order_details);
+        return details ? executionExposureLegs(details) : [];
+      });
+      setLegs(open);
+      setOpenPairs(rows.length);
+      // Single legs a failed unwind left open need closing by hand
+      setStranded(rows.filter((row) => row.status === 'unwind_failed'));
+      setMarket(await loadExposureMarket([...open.map((l) => l.symbol), ...extra]));
+    } catch (e) {
+      console.error('Error fetching portfolio exposure:', e);
+      setError(e instanceof Error ? e.message : 'Failed to load portfolio exposure');
+    } finally {
+      setLoading(false);
+    }
+  }, [user, extra]);
+
+  useEffect(() => {
+    refetch();
+  }, [refetch]);
+
+  return { legs, openPairs, stranded, market, loading, error, refetch };
+}
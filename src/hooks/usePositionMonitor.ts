@@ -0,0 +1,233 @@
+import { useState, useEffect, useCallback, useRef } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import { useAuth } from '@/contexts/AuthContext';
+import type { Database } from '@/integrations/supabase/types';
+import type { UserSettings } from '@/hooks/useUserSettings';
+import type { ExecutionRow } from '@/lib/executionStore';
+import { parseOrderDetails } from '@/lib/executions';
+import { loadPairCandles } from '@/lib/marketData';
+import { latestPairPrices, PairPrices } from '@/lib/paperStore';
+import { paperSettings, SpreadStats, spreadStatsBefore, spreadZ } from '@/lib/paperTrading';
+import { entryFillZ, monitorPosition, PositionMonitorResult } from '@/lib/positionMonitor';
+import type { ExecutionOrderDetails } from '@/types/execution';
+import { BAR_INTERVALS, BarInterval } from '@/types/marketData';
+import {
+  PAPER_MARK_REFRESH_MS,
+  PAPER_PRICE_EXCHANGE,
+  PAPER_SPREAD_LOOKBACK_BARS,
+  PAPER_SPREAD_MIN_BARS,
+} from '@/types/paper';
+
+type PairMetrics = Database['public']['Tables']['pair_metrics']['Row'];
+
+type OpenExecution = ExecutionRow & {
+  signals: { pair_metrics: Pick<PairMetrics, 'half_life_hours'> | null } | null;
+};
+
+/**
+ * A filled execution that is still open: a successful pair, or the leg a
+ * failed unwind left behind.
+ */
+export interface OpenPairPosition {
+  execution: ExecutionRow;
+  details: ExecutionOrderDetails;
+  halfLifeHours: number | null;
+  openedAt: number;
+}
+
+export interface PositionReading {
+  /** Entry fills on the same baseline as `z`; null unless both legs filled. */
+  entryZ: number | null;
+  z: number;
+  prices: PairPrices;
+  monitor: PositionMonitorResult;
+  markedAt: number;
+}
+
+const pairKey = (d: ExecutionOrderDetails) => `${d.legs[0].symbol}/${d.legs[1].symbol}`;
+
+/**
+ * Spread mean and std over the bars before the position opened: the same
+ * frozen baseline paper fills use, rebuilt from price history.
+ */
+async function entryBaseline(position: OpenPairPosition, interval: BarInterval): Promise<SpreadStats | null> {
+  const [legA, legB] = position.details.legs;
+  const openedAt = Math.floor(position.openedAt / 1000);
+  const { aligned } = await loadPairCandles({
+    exchange: PAPER_PRICE_EXCHANGE,
+    symbolA: legA.symbol,
+    symbolB: legB.symbol,
+    interval,
+    limit: PAPER_SPREAD_LOOKBACK_BARS + 1,
+    endTime: openedAt,
+  });
+  return spreadStatsBefore(aligned, position.details.hedge_ratio, openedAt, PAPER_SPREAD_LOOKBACK_BARS, PAPER_SPREAD_MIN_BARS);
+}
+
+/**
+ * Open pair positions across venues, each re-read every PAPER_MARK_REFRESH_MS
+ * against its entry baseline and the user's exit and stop thresholds. Paper
+ * positions use the baseline frozen on their row; others rebuild it once.
+ */
+export function usePositionMonitor(settings: UserSettings | null) {
+  const { user } = useAuth();
+  const [positions, setPositions] = useState<OpenPairPosition[]>([]);
+  const [readings, setReadings] = useState<Record<string, PositionReading>>({});
+  const [readErrors, setReadErrors] = useState<Record<string, string>>({});
+  const [loading, setLoading] = useState(true);
+  const [reading, setReading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const baselines = useRef(new Map<string, SpreadStats>());
+  const readingRef = useRef(false);
+
+  const { exitZ, stopZ } = paperSettings(settings);
+  const interval: BarInterval = BAR_INTERVALS.includes(settings?.bar_interval as BarInterval)
+    ? (settings?.bar_interval as BarInterval)
+    : '15m';
+
+  const refetch = useCallback(async () => {
+    if (!user) {
+      setPositions([]);
+      setLoading(false);
+      return;
+    }
+
+    try {
+      setLoading(true);
+      setError(null);
+
+      const { data, error: fetchError } = await supabase
+        .from('executions')
+        .select('*, signals(pair_metrics(half_life_hours))')
+        .eq('user_id', user.id)
+        .in('status', ['success', 'unwind_failed'])
+        .not('order_details->fills', 'is', null)
+        .is('order_details->close', null)
+        .order('created_at', { ascending: false });
+      if (fetchError) throw fetchError;
+
+      const open: OpenPairPosition[] = [];
+      for (const row of (data ?? []) as unknown as OpenExecution[]) {
+        const details = parseOrderDetails(row.order_details);
+        if (!details?.fills?.length || details.close) continue;
+        const { signals, ...execution } = row;
+        open.push({
+          execution,
+          details,
+          halfLifeHours: signals?.pair_metrics?.half_life_hours == null ? null : Number(signals.pair_metrics.half_life_hours),
+          openedAt: new Date(details.filled_at ?? row.updated_at).getTime(),
+        });
+      }
+
+      const paperIds = open.map((p) => p.details.paper_position_id).filter((id): id is string => !!id);
+      if (paperIds.length > 0) {
+        const { data: paperRows, error: paperError } = await supabase
+          .from('paper_positions')
+          .select('id, execution_id, spread_mean, spread_std')
+          .in('id', paperIds);
+        if (paperError) throw paperError;
+        for (const p of paperRows ?? []) {
+          if (p.execution_id) baselines.current.set(p.execution_id, { mean: Number(p.spread_mean), std: Number(p.spread_std) });
+        }
+      }
+
+      setPositions(open);
+    } catch (e) {
+      console.error('Error fetching open pair positions:', e);
+      setError(e instanceof Error ? e.message : 'Failed to load open positions');
+    } finally {
+      setLoading(false);
+    }
+  }, [user]);
+
+  /** Read every open position's current z and recommendation. */
+  const readAll = useCallback(async () => {
+    if (readingRef.current || positions.length === 0) return;
+    readingRef.current = true;
+    setReading(true);
+
+    // One price request per pair, shared by every position on it
+    const pairs = new Map<string, OpenPairPosition[]>();
+    for (const position of positions) {
+      const key = pairKey(position.details);
+      pairs.set(key, [...(pairs.get(key) ?? []), position]);
+    }
+
+    const nextReadings: Record<string, PositionReading> = {};
+    const nextErrors: Record<string, string> = {};
+    try {
+      for (const [key, group] of pairs) {
+        let prices: PairPrices;
+        try {
+          prices = await latestPairPrices(group[0].details.legs[0].symbol, group[0].details.legs[1].symbol);
+        } catch (e) {
+          console.error(`Error reading ${key}:`, e);
+          for (const position of group) nextErrors[position.execution.id] = e instanceof Error ? e.message : 'Failed to load prices';
+          continue;
+        }
+
+        const now = Date.now();
+        for (const position of group) {
+          const id = position.execution.id;
+          try {
+            let baseline = baselines.current.get(id);
+            if (!baseline) {
+              baseline = (await entryBaseline(position, interval)) ?? undefined;
+              if (!baseline) throw new Error('Not enough price history before entry to baseline the spread');
+              baselines.current.set(id, baseline);
+            }
+            const z = spreadZ(prices.priceA, prices.priceB, position.details.hedge_ratio, baseline);
+            const entryZ = entryFillZ(position.details, baseline);
+            nextReadings[id] = {
+              entryZ,
+              z,
+              prices,
+              markedAt: now,
+              monitor: monitorPosition({
+                direction: position.details.direction,
+                entryZ,
+                currentZ: z,
+                exitZ,
+                stopZ,
+                halfLifeHours: position.halfLifeHours,
+                openedAt: position.openedAt,
+                now,
+              }),
+            };
+          } catch (e) {
+            console.error(`Error reading ${key}:`, e);
+            nextErrors[id] = e instanceof Error ? e.message : 'Failed to read position';
+          }
+        }
+      }
+      setReadings((prev) => ({ ...prev, ...nextReadings }));
+      setReadErrors(nextErrors);
+    } finally {
+      readingRef.current = false;
+      setReading(false);
+    }
+  }, [positions, interval, exitZ, stopZ]);
+
+  useEffect(() => {
+    refetch();
+  }, [refetch]);
+
+  useEffect(() => {
+    readAll();
+    const timer = setInterval(readAll, PAPER_MARK_REFRESH_MS);
+    return () => clearInterval(timer);
+  }, [readAll]);
+
+  return {
+    positions,
+    readings,
+    readErrors,
+    loading,
+    reading,
+    error,
+    exitZ,
+    stopZ,
+    readAll,
+    refetch,
+  };
+}
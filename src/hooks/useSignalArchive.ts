@@ -0,0 +1,113 @@
+import { useState, useEffect, useCallback } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import type { SignalWithMetrics } from '@/hooks/useSignalFeed';
+
+export type ArchiveStatus = 'all' | 'expired' | 'active';
+export type ArchiveDirection = 'all' | 'long_a_short_b' | 'short_a_long_b';
+
+export interface SignalArchiveFilters {
+  status: ArchiveStatus;
+  /** Inclusive creation-date bounds as yyyy-mm-dd in local time; empty for open-ended. */
+  from: string;
+  to: string;
+  /** Matched as a substring of either leg. */
+  symbol: string;
+  direction: ArchiveDirection;
+  /** Minimum |z|; null for no bound. */
+  minAbsZ: number | null;
+  /** Minimum confidence as a 0–1 fraction; null for no bound. */
+  minConfidence: number | null;
+}
+
+export const DEFAULT_ARCHIVE_FILTERS: SignalArchiveFilters = {
+  status: 'all',
+  from: '',
+  to: '',
+  symbol: '',
+  direction: 'all',
+  minAbsZ: null,
+  minConfidence: null,
+};
+
+interface UseSignalArchiveParams {
+  filters: SignalArchiveFilters;
+  page: number;
+  pageSize: number;
+}
+
+// Keep only symbol characters so the term can't break the PostgREST filter syntax
+const sanitizeSymbol = (symbol: string) => symbol.toUpperCase().replace(/[^A-Z0-9]/g, '');
+
+const startOfDay = (date: string) => new Date(`${date}T00:00:00`).toISOString();
+
+const startOfNextDay = (date: string) => {
+  const next = new Date(`${date}T00:00:00`);
+  next.setDate(next.getDate() + 1);
+  return next.toISOString();
+};
+
+/**
+ * One server-side page of historical signals with their pair metrics, newest
+ * first. A symbol filter switches to an inner join so it can match on the
+ * joined legs and still count correctly.
+ */
+export function useSignalArchive({ filters, page, pageSize }: UseSignalArchiveParams) {
+  const [signals, setSignals] = useState<SignalWithMetrics[]>([]);
+  const [totalCount, setTotalCount] = useState(0);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  const fetchData = useCallback(async () => {
+    try {
+      setLoading(true);
+      setError(null);
+
+      const symbol = sanitizeSymbol(filters.symbol);
+      let query = supabase
+        .from('signals')
+        .select(symbol ? '*, pair_metrics!inner(*)' : '*, pair_metrics(*)', { count: 'exact' });
+
+      const nowIso = new Date().toISOString();
+      if (filters.status === 'expired') query = query.lt('expires_at', nowIso);
+      if (filters.status === 'active') query = query.gte('expires_at', nowIso);
+
+      if (filters.from) query = query.gte('created_at', startOfDay(filters.from));
+      if (filters.to) query = query.lt('created_at', startOfNextDay(filters.to));
+
+      if (symbol) {
+        query = query.or(`symbol_a.ilike.%${symbol}%,symbol_b.ilike.%${symbol}%`, { referencedTable: 'pair_metrics' });
+      }
+
+      if (filters.direction !== 'all') query = query.eq('signal_direction', filters.direction);
+
+      if (filters.minAbsZ !== null && filters.minAbsZ > 0) {
+        query = query.or(`z_ou_score.gte.${filters.minAbsZ},z_ou_score.lte.${-filters.minAbsZ}`);
+      }
+
+      if (filters.minConfidence !== null && filters.minConfidence > 0) {
+        query = query.gte('confidence_score', filters.minConfidence);
+      }
+
+      const from = page * pageSize;
+      const { data, error: fetchError, count } = await query
+        .order('created_at', { ascending: false })
+        .range(from, from + pageSize - 1);
+
+      if (fetchError) throw fetchError;
+
+      setSignals((data || []) as SignalWithMetrics[]);
+      setTotalCount(count || 0);
+    } catch (err) {
+      console.error('Error fetching signal archive:', err);
+      setError('Failed to load archived signals');
+    } finally {
+      setLoading(false);
+    }
+  }, [filters, page, pageSize]);
+
+  useEffect(() => {
+    fetchData();
+  }, [fetchData]);
+
+  return { signals, totalCount, loading, error, refetch: fetchData };
+}
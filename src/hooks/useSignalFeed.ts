@@ -0,0 +1,196 @@
+import { useState, useEffect, useCallback, useRef } from 'react';
+import type { RealtimeChannel, RealtimePostgresChangesPayload } from '@supabase/supabase-js';
+import { supabase } from '@/integrations/supabase/client';
+import type { Database } from '@/integrations/supabase/types';
+import { newSignalIds, pruneExpired, reconnectDelay, removeSignal, upsertSignal } from '@/lib/signalFeed';
+
+type Signal = Database['public']['Tables']['signals']['Row'];
+type PairMetrics = Database['public']['Tables']['pair_metrics']['Row'];
+export type GlobalScanConfig = Database['public']['Tables']['global_scan_config']['Row'];
+
+export interface SignalWithMetrics extends Signal {
+  pair_metrics: PairMetrics | null;
+}
+
+export type SignalFeedStatus = 'connecting' | 'live' | 'reconnecting' | 'offline';
+
+// How long a newly arrived signal stays highlighted
+const HIGHLIGHT_MS = 6000;
+
+/**
+ * Active signals and scan status, kept current through Supabase realtime.
+ * Inserts and updates are re-read with their pair_metrics join, expired rows
+ * drop out on a one-second clock, and after a dropped connection the feed
+ * resubscribes with backoff and backfills whatever it missed.
+ */
+export function useSignalFeed() {
+  const [signals, setSignals] = useState<SignalWithMetrics[]>([]);
+  const [scanConfig, setScanConfig] = useState<GlobalScanConfig | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [status, setStatus] = useState<SignalFeedStatus>('connecting');
+  const [highlighted, setHighlighted] = useState<Set<string>>(new Set());
+  const [now, setNow] = useState(() => Date.now());
+  const signalsRef = useRef<SignalWithMetrics[]>([]);
+
+  useEffect(() => {
+    signalsRef.current = signals;
+  }, [signals]);
+
+  const highlight = useCallback((ids: string[]) => {
+    if (ids.length === 0) return;
+    setHighlighted((prev) => new Set([...prev, ...ids]));
+    setTimeout(() => {
+      setHighlighted((prev) => {
+        const next = new Set(prev);
+        ids.forEach((id) => next.delete(id));
+        return next;
+      });
+    }, HIGHLIGHT_MS);
+  }, []);
+
+  const fetchData = useCallback(async ({ highlightNew = false }: { highlightNew?: boolean } = {}) => {
+    setLoading(true);
+    try {
+      const [signalsRes, configRes] = await Promise.all([
+        supabase
+          .from('signals')
+          .select('*, pair_metrics(*)')
+          .gte('expires_at', new Date().toISOString())
+          .order('z_ou_score', { ascending: false }),
+        supabase
+          .from('global_scan_config')
+          .select('*')
+          .limit(1)
+          .maybeSingle(),
+      ]);
+
+      if (signalsRes.error) throw signalsRes.error;
+      const rows = signalsRes.data || [];
+      if (highlightNew) highlight(newSignalIds(signalsRef.current, rows));
+      setSignals(rows);
+
+      if (!configRes.error && configRes.data) {
+        setScanConfig(configRes.data);
+      }
+    } catch (error) {
+      console.error('Error fetching data:', error);
+    } finally {
+      setLoading(false);
+    }
+  }, [highlight]);
+
+  useEffect(() => {
+    fetchData();
+  }, [fetchData]);
+
+  // One clock drives countdowns and expiry
+  useEffect(() => {
+    const timer = setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(timer);
+  }, []);
+
+  useEffect(() => {
+    setSignals((prev) => pruneExpired(prev, now));
+  }, [now]);
+
+  useEffect(() => {
+    let channel: RealtimeChannel | null = null;
+    let retryTimer: ReturnType<typeof setTimeout> | null = null;
+    let attempt = 0;
+    let hasConnected = false;
+    let disposed = false;
+
+    // Realtime payloads carry the bare row, so re-read it with its join
+    const handleSignalChange = async (payload: RealtimePostgresChangesPayload<Signal>) => {
+      if (payload.eventType === 'DELETE') {
+        const id = payload.old.id;
+        if (id) setSignals((prev) => removeSignal(prev, id));
+        return;
+      }
+
+      const id = payload.new.id;
+      const { data, error } = await supabase
+        .from('signals')
+        .select('*, pair_metrics(*)')
+        .eq('id', id)
+        .maybeSingle();
+      if (disposed) return;
+      if (error) {
+        console.error('Error loading changed signal:', error);
+        return;
+      }
+
+      setSignals((prev) => (data ? upsertSignal(prev, data, Date.now()) : removeSignal(prev, id)));
+      if (data && payload.eventType === 'INSERT') highlight([id]);
+    };
+
+    const scheduleReconnect = () => {
+      if (disposed || retryTimer) return;
+      setStatus(navigator.onLine ? 'reconnecting' : 'offline');
+      retryTimer = setTimeout(() => {
+        retryTimer = null;
+        connect();
+      }, reconnectDelay(attempt++));
+    };
+
+    const disconnect = () => {
+      if (!channel) return;
+      const previous = channel;
+      channel = null;
+      supabase.removeChannel(previous);
+    };
+
+    const connect = () => {
+      disconnect();
+      const current = supabase
+        .channel('dashboard-signal-feed')
+        .on('postgres_changes', { event: '*', schema: 'public', table: 'signals' }, handleSignalChange)
+        .on(
+          'postgres_changes',
+          { event: '*', schema: 'public', table: 'global_scan_config' },
+          (payload: RealtimePostgresChangesPayload<GlobalScanConfig>) => {
+            if (payload.eventType !== 'DELETE') setScanConfig(payload.new);
+          }
+        );
+      channel = current;
+
+      current.subscribe((state) => {
+        // Ignore callbacks from a channel we already replaced or removed
+        if (disposed || channel !== current) return;
+
+        if (state === 'SUBSCRIBED') {
+          // Changes made while disconnected are not replayed; reload them
+          if (hasConnected) fetchData({ highlightNew: true });
+          hasConnected = true;
+          attempt = 0;
+          setStatus('live');
+        } else if (state === 'CHANNEL_ERROR' || state === 'TIMED_OUT' || state === 'CLOSED') {
+          scheduleReconnect();
+        }
+      });
+    };
+
+    const handleOnline = () => {
+      if (retryTimer) clearTimeout(retryTimer);
+      retryTimer = null;
+      attempt = 0;
+      setStatus('reconnecting');
+      connect();
+    };
+    const handleOffline = () => setStatus('offline');
+
+    connect();
+    window.addEventListener('online', handleOnline);
+    window.addEventListener('offline', handleOffline);
+
+    return () => {
+      disposed = true;
+      if (retryTimer) clearTimeout(retryTimer);
+      window.removeEventListener('online', handleOnline);
+      window.removeEventListener('offline', handleOffline);
+      disconnect();
+    };
+  }, [fetchData, highlight]);
+
+  return { signals, scanConfig, loading, status, highlighted, now, refetch: fetchData };
+}
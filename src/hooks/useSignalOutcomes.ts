@@ -0,0 +1,200 @@
+import { useState, useEffect, useCallback, useRef } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import type { Database } from '@/integrations/supabase/types';
+import type { TradeDirection } from '@/lib/backtest';
+import { loadPairCandles } from '@/lib/marketData';
+import {
+  evaluateSignalOutcome,
+  outcomeHorizonBars,
+  outcomeHorizonEnd,
+  OutcomeSignal,
+} from '@/lib/signalOutcomes';
+import type { SignalWithMetrics } from '@/hooks/useSignalFeed';
+import { BAR_INTERVAL_SECONDS, MarketDataExchange } from '@/types/marketData';
+import { DEFAULT_OUTCOME_PARAMS, OutcomeParams } from '@/types/outcomes';
+
+export type SignalOutcomeRow = Database['public']['Tables']['signal_outcomes']['Row'];
+type SignalOutcomeInsert = Database['public']['Tables']['signal_outcomes']['Insert'];
+
+export type OutcomeEvaluationStatus = 'idle' | 'evaluating' | 'done' | 'cancelled';
+
+export interface OutcomeEvaluationProgress {
+  completed: number;
+  total: number;
+  scored: number;
+  /** Signals the candles couldn't score (listing gaps, too little history). */
+  skipped: number;
+}
+
+// Most recent outcomes loaded for the scorecard
+const OUTCOME_HISTORY_LIMIT = 2000;
+// Expired signals checked for a missing outcome per load
+const PENDING_SCAN_LIMIT = 200;
+
+const isDirection = (value: string | null): value is TradeDirection =>
+  value === 'long_a_short_b' || value === 'short_a_long_b';
+
+function toOutcomeSignal(signal: SignalWithMetrics): OutcomeSignal | null {
+  const metrics = signal.pair_metrics;
+  if (!metrics || !isDirection(signal.signal_direction)) return null;
+  return {
+    direction: signal.signal_direction,
+    entryTime: Math.floor(new Date(signal.created_at).getTime() / 1000),
+    hedgeRatio: Number(metrics.beta ?? 1),
+    halfLifeHours: metrics.half_life_hours === null ? null : Number(metrics.half_life_hours),
+    entryPriceA: signal.entry_price_a === null ? null : Number(signal.entry_price_a),
+    entryPriceB: signal.entry_price_b === null ? null : Number(signal.entry_price_b),
+  };
+}
+
+/** Whether the signal's horizon has fully elapsed so its outcome is final. */
+function isScoreable(signal: SignalWithMetrics, params: OutcomeParams, now: number): boolean {
+  const input = toOutcomeSignal(signal);
+  const end = input ? outcomeHorizonEnd(input, params) : null;
+  return end !== null && end * 1000 <= now;
+}
+
+/**
+ * Scored signal outcomes for the scorecard, plus the expired signals that can
+ * be scored but haven't been. `evaluatePending` replays those one at a time
+ * against exchange candles and records each result in signal_outcomes,
+ * which only admins may write.
+ */
+export function useSignalOutcomes(
+  params: OutcomeParams = DEFAULT_OUTCOME_PARAMS,
+  exchange: MarketDataExchange = 'bybit'
+) {
+  const [outcomes, setOutcomes] = useState<SignalOutcomeRow[]>([]);
+  const [pending, setPending] = useState<SignalWithMetrics[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [status, setStatus] = useState<OutcomeEvaluationStatus>('idle');
+  const [progress, setProgress] = useState<OutcomeEvaluationProgress>({ completed: 0, total: 0, scored: 0, skipped: 0 });
+  // Bumped on every run/cancel so an abandoned loop stops at its next step
+  const runIdRef = useRef(0);
+
+  const fetchData = useCallback(async () => {
+    try {
+      setLoading(true);
+      setError(null);
+
+      const [outcomesRes, expiredRes] = await Promise.all([
+        supabase
+          .from('signal_outcomes')
+          .select('*')
+          .order('signal_created_at', { ascending: false })
+          .limit(OUTCOME_HISTORY_LIMIT),
+        supabase
+          .from('signals')
+          .select('*, pair_metrics(*)')
+          .lt('expires_at', new Date().toISOString())
+          .order('created_at', { ascending: false })
+          .limit(PENDING_SCAN_LIMIT),
+      ]);
+      if (outcomesRes.error) throw outcomesRes.error;
+      if (expiredRes.error) throw expiredRes.error;
+
+      const expired = expiredRes.data || [];
+      const scoredRes = expired.length > 0
+        ? await supabase.from('signal_outcomes').select('signal_id').in('signal_id', expired.map((s) => s.id))
+        : { data: [], error: null };
+      if (scoredRes.error) throw scoredRes.error;
+
+      const scored = new Set((scoredRes.data || []).map((r) => r.signal_id));
+      const now = Date.now();
+      setOutcomes(outcomesRes.data || []);
+      setPending(expired.filter((s) => !scored.has(s.id) && isScoreable(s, params, now)));
+    } catch (e) {
+      console.error('Error fetching signal outcomes:', e);
+      setError(e instanceof Error ? e.message : 'Failed to load signal outcomes');
+    } finally {
+      setLoading(false);
+    }
+  }, [params]);
+
+  useEffect(() => {
+    fetchData();
+  }, [fetchData]);
+
+  const evaluatePending = useCallback(async () => {
+    const runId = ++runIdRef.current;
+    const queue = pending;
+    const step = BAR_INTERVAL_SECONDS[params.interval];
+    let scored = 0;
+    let skipped = 0;
+
+    setStatus('evaluating');
+    setProgress({ completed: 0, total: queue.length, scored, skipped });
+
+    for (let i = 0; i < queue.length; i++) {
+      const signal = queue[i];
+      const input = toOutcomeSignal(signal);
+      const horizonBars = input ? outcomeHorizonBars(input.halfLifeHours, params) : null;
+      const horizonEnd = input ? outcomeHorizonEnd(input, params) : null;
+
+      try {
+        if (!input || horizonBars === null || horizonEnd === null) throw new Error('Signal has no usable pair metrics');
+
+        const { aligned } = await loadPairCandles({
+          exchange,
+          symbolA: signal.pair_metrics.symbol_a,
+          symbolB: signal.pair_metrics.symbol_b,
+          interval: params.interval,
+          limit: params.lookbackBars + horizonBars,
+          endTime: horizonEnd - step,
+        });
+        if (runId !== runIdRef.current) return;
+
+        const outcome = evaluateSignalOutcome(aligned, input, params);
+        if (!outcome) throw new Error('Not enough candle data to score signal');
+
+        const row: SignalOutcomeInsert = {
+          signal_id: signal.id,
+          symbol_a: signal.pair_metrics.symbol_a,
+          symbol_b: signal.pair_metrics.symbol_b,
+          signal_direction: input.direction,
+          confidence_score: signal.confidence_score,
+          correlation: signal.pair_metrics.correlation,
+          half_life_hours: input.halfLifeHours,
+          hedge_ratio: input.hedgeRatio,
+          signal_created_at: signal.created_at,
+          bar_interval: params.interval,
+          horizon_half_lives: params.halfLives,
+          horizon_bars: outcome.horizonBars,
+          exit_threshold: params.exitZ,
+          entry_z: outcome.entryZ,
+          exit_z: outcome.exitZ,
+          exit_crossed: outcome.exitCrossed,
+          bars_to_exit: outcome.barsToExit,
+          bars_held: outcome.barsHeld,
+          max_favorable_excursion: outcome.maxFavorableExcursion,
+          max_adverse_excursion: outcome.maxAdverseExcursion,
+          realized_return: outcome.realizedReturn,
+        };
+        // Another client may have scored it meanwhile; the result is the same either way
+        const { error: insertError } = await supabase
+          .from('signal_outcomes')
+          .upsert(row, { onConflict: 'signal_id', ignoreDuplicates: true });
+        if (insertError) throw insertError;
+        scored++;
+      } catch (e) {
+        console.error(`Error scoring signal ${signal.id}:`, e);
+        skipped++;
+      }
+
+      if (runId !== runIdRef.current) return;
+      setProgress({ completed: i + 1, total: queue.length, scored, skipped });
+    }
+
+    setStatus('done');
+    await fetchData();
+  }, [pending, params, exchange, fetchData]);
+
+  const cancel = useCallback(() => {
+    runIdRef.current++;
+    setStatus('cancelled');
+    fetchData();
+  }, [fetchData]);
+
+  return { outcomes, pending, loading, error, status, progress, evaluatePending, cancel, refetch: fetchData };
+}
@@ -0,0 +1,68 @@
+import { useState, useEffect, useCallback, useId } from 'react';
+import type { RealtimePostgresChangesPayload } from '@supabase/supabase-js';
+import { supabase } from '@/integrations/supabase/client';
+import { useAuth } from '@/contexts/AuthContext';
+import type { Database } from '@/integrations/supabase/types';
+
+type GlobalScanConfig = Database['public']['Tables']['global_scan_config']['Row'];
+
+export interface TradingHalt {
+  configId: string;
+  halted: boolean;
+  reason: string | null;
+  haltedAt: string | null;
+}
+
+const toHalt = (config: GlobalScanConfig): TradingHalt => ({
+  configId: config.id,
+  halted: config.trading_halted,
+  reason: config.trading_halt_reason,
+  haltedAt: config.trading_halted_at,
+});
+
+/**
+ * The global trading halt, kept live from the config row's realtime
+ * changes so every open page sees a halt the moment an admin sets it.
+ */
+export function useTradingHalt() {
+  const { user } = useAuth();
+  const [halt, setHalt] = useState<TradingHalt | null>(null);
+  // The layout and a page can both watch the halt; each needs its own channel
+  const channelId = useId();
+
+  const refetch = useCallback(async () => {
+    if (!user) {
+      setHalt(null);
+      return;
+    }
+
+    try {
+      const { data, error } = await supabase.from('global_scan_config').select('*').limit(1).maybeSingle();
+      if (error) throw error;
+      setHalt(data ? toHalt(data) : null);
+    } catch (e) {
+      console.error('Error fetching trading halt:', e);
+    }
+  }, [user]);
+
+  useEffect(() => {
+    refetch();
+    if (!user) return;
+
+    const channel = supabase
+      .channel(`trading-halt-${channelId}`)
+      .on(
+        'postgres_changes',
+        { event: 'UPDATE', schema: 'public', table: 'global_scan_config' },
+        (payload: RealtimePostgresChangesPayload<GlobalScanConfig>) => {
+          if (payload.eventType === 'UPDATE') setHalt(toHalt(payload.new));
+        }
+      )
+      .subscribe();
+    return () => {
+      supabase.removeChannel(channel);
+    };
+  }, [refetch, user, channelId]);
+
+  return { halt, halted: halt?.halted ?? false, refetch };
+}
@@ -54,7 +54,12 @@ export type Database = {
           exchange_name: string
           id: string
           is_connected: boolean | null
+          label: string | null
+          last_test_error: string | null
+          last_tested_at: string | null
           permissions: string[] | null
+          revoked_at: string | null
+          status: string
           updated_at: string
           user_id: string
         }
@@ -64,7 +69,12 @@ export type Database = {
           exchange_name: string
           id?: string
           is_connected?: boolean | null
+          label?: string | null
+          last_test_error?: string | null
+          last_tested_at?: string | null
           permissions?: string[] | null
+          revoked_at?: string | null
+          status?: string
           updated_at?: string
           user_id: string
         }
@@ -74,7 +84,12 @@ export type Database = {
           exchange_name?: string
           id?: string
           is_connected?: boolean | null
+          label?: string | null
+          last_test_error?: string | null
+          last_tested_at?: string | null
           permissions?: string[] | null
+          revoked_at?: string | null
+          status?: string
           updated_at?: string
           user_id?: string
         }
@@ -205,6 +220,10 @@ export type Database = {
           next_scan_at: string | null
           ou_theta_min: number | null
           scan_interval_minutes: number | null
+          trading_halt_reason: string | null
+          trading_halted: boolean
+          trading_halted_at: string | null
+          trading_halted_by: string | null
           updated_at: string
         }
         Insert: {
@@ -218,6 +237,10 @@ export type Database = {
           next_scan_at?: string | null
           ou_theta_min?: number | null
           scan_interval_minutes?: number | null
+          trading_halt_reason?: string | null
+          trading_halted?: boolean
+          trading_halted_at?: string | null
+          trading_halted_by?: string | null
           updated_at?: string
         }
         Update: {
@@ -231,6 +254,10 @@ export type Database = {
           next_scan_at?: string | null
           ou_theta_min?: number | null
           scan_interval_minutes?: number | null
+          trading_halt_reason?: string | null
+          trading_halted?: boolean
+          trading_halted_at?: string | null
+          trading_halted_by?: string | null
           updated_at?: string
         }
         Relationships: []
@@ -409,6 +436,120 @@ export type Database = {
         }
         Relationships: []
       }
+      paper_positions: {
+        Row: {
+          close_reason: string | null
+          close_z: number | null
+          closed_at: string | null
+          created_at: string
+          direction: string
+          entry_fees: number
+          entry_fills: Json
+          entry_z: number
+          execution_id: string | null
+          exit_fees: number | null
+          exit_fills: Json | null
+          exit_z: number
+          fee_percent: number
+          gross_notional: number
+          hedge_ratio: number
+          id: string
+          margin: number
+          max_hold_hours: number | null
+          opened_at: string
+          realized_pnl: number | null
+          signal_id: string | null
+          slippage_percent: number
+          spread_mean: number
+          spread_std: number
+          status: string
+          stop_z: number | null
+          symbol_a: string
+          symbol_b: string
+          updated_at: string
+          user_id: string
+        }
+        Insert: {
+          close_reason?: string | null
+          close_z?: number | null
+          closed_at?: string | null
+          created_at?: string
+          direction: string
+          entry_fees?: number
+          entry_fills: Json
+          entry_z: number
+          execution_id?: string | null
+          exit_fees?: number | null
+          exit_fills?: Json | null
+          exit_z: number
+          fee_percent: number
+          gross_notional: number
+          hedge_ratio: number
+          id?: string
+          margin: number
+          max_hold_hours?: number | null
+          opened_at?: string
+          realized_pnl?: number | null
+          signal_id?: string | null
+          slippage_percent: number
+          spread_mean: number
+          spread_std: number
+          status?: string
+          stop_z?: number | null
+          symbol_a: string
+          symbol_b: string
+          updated_at?: string
+          user_id: string
+        }
+        Update: {
+          close_reason?: string | null
+          close_z?: number | null
+          closed_at?: string | null
+          created_at?: string
+          direction?: string
+          entry_fees?: number
+          entry_fills?: Json
+          entry_z?: number
+          execution_id?: string | null
+          exit_fees?: number | null
+          exit_fills?: Json | null
+          exit_z?: number
+          fee_percent?: number
+          gross_notional?: number
+          hedge_ratio?: number
+          id?: string
+          margin?: number
+          max_hold_hours?: number | null
+          opened_at?: string
+          realized_pnl?: number | null
+          signal_id?: string | null
+          slippage_percent?: number
+          spread_mean?: number
+          spread_std?: number
+          status?: string
+          stop_z?: number | null
+          symbol_a?: string
+          symbol_b?: string
+          updated_at?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "paper_positions_execution_id_fkey"
+            columns: ["execution_id"]
+            isOneToOne: true
+            referencedRelation: "executions"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "paper_positions_signal_id_fkey"
+            columns: ["signal_id"]
+            isOneToOne: false
+            referencedRelation: "signals"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       profiles: {
         Row: {
           created_at: string
@@ -439,6 +580,131 @@ export type Database = {
         }
         Relationships: []
       }
+      risk_limits: {
+        Row: {
+          allowed_exchanges: string[] | null
+          created_at: string
+          id: string
+          max_concurrent_pairs: number | null
+          max_daily_loss: number | null
+          max_leverage: number | null
+          max_pair_notional: number | null
+          updated_at: string
+          updated_by: string | null
+          user_id: string | null
+        }
+        Insert: {
+          allowed_exchanges?: string[] | null
+          created_at?: string
+          id?: string
+          max_concurrent_pairs?: number | null
+          max_daily_loss?: number | null
+          max_leverage?: number | null
+          max_pair_notional?: number | null
+          updated_at?: string
+          updated_by?: string | null
+          user_id?: string | null
+        }
+        Update: {
+          allowed_exchanges?: string[] | null
+          created_at?: string
+          id?: string
+          max_concurrent_pairs?: number | null
+          max_daily_loss?: number | null
+          max_leverage?: number | null
+          max_pair_notional?: number | null
+          updated_at?: string
+          updated_by?: string | null
+          user_id?: string | null
+        }
+        Relationships: []
+      }
+      signal_outcomes: {
+        Row: {
+          bar_interval: string
+          bars_held: number
+          bars_to_exit: number | null
+          confidence_score: number | null
+          correlation: number | null
+          entry_z: number
+          evaluated_at: string
+          exit_crossed: boolean
+          exit_threshold: number
+          exit_z: number
+          half_life_hours: number | null
+          hedge_ratio: number
+          horizon_bars: number
+          horizon_half_lives: number
+          id: string
+          max_adverse_excursion: number
+          max_favorable_excursion: number
+          realized_return: number
+          signal_created_at: string
+          signal_direction: string
+          signal_id: string | null
+          symbol_a: string
+          symbol_b: string
+        }
+        Insert: {
+          bar_interval: string
+          bars_held: number
+          bars_to_exit?: number | null
+          confidence_score?: number | null
+          correlation?: number | null
+          entry_z: number
+          evaluated_at?: string
+          exit_crossed: boolean
+          exit_threshold: number
+          exit_z: number
+          half_life_hours?: number | null
+          hedge_ratio: number
+          horizon_bars: number
+          horizon_half_lives: number
+          id?: string
+          max_adverse_excursion: number
+          max_favorable_excursion: number
+          realized_return: number
+          signal_created_at: string
+          signal_direction: string
+          signal_id?: string | null
+          symbol_a: string
+          symbol_b: string
+        }
+        Update: {
+          bar_interval?: string
+          bars_held?: number
+          bars_to_exit?: number | null
+          confidence_score?: number | null
+          correlation?: number | null
+          entry_z?: number
+          evaluated_at?: string
+          exit_crossed?: boolean
+          exit_threshold?: number
+          exit_z?: number
+          half_life_hours?: number | null
+          hedge_ratio?: number
+          horizon_bars?: number
+          horizon_half_lives?: number
+          id?: string
+          max_adverse_excursion?: number
+          max_favorable_excursion?: number
+          realized_return?: number
+          signal_created_at?: string
+          signal_direction?: string
+          signal_id?: string | null
+          symbol_a?: string
+          symbol_b?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "signal_outcomes_signal_id_fkey"
+            columns: ["signal_id"]
+            isOneToOne: true
+            referencedRelation: "signals"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       signals: {
         Row: {
           confidence_score: number | null
@@ -518,12 +784,17 @@ export type Database = {
           leverage_short: number | null
           lookback_days: number | null
           margin_mode: string | null
+          max_asset_exposure_usd: number | null
           max_cointegration_pvalue: number | null
           max_slippage_percent: number | null
           min_correlation: number | null
           min_volume_usd: number | null
           order_type: string | null
           ou_theta_min: number | null
+          paper_fee_percent: number | null
+          paper_max_hold_hours: number | null
+          paper_slippage_percent: number | null
+          paper_stop_zscore: number | null
           position_size_mode: string | null
           position_size_value: number | null
           updated_at: string
@@ -541,12 +812,17 @@ export type Database = {
           leverage_short?: number | null
           lookback_days?: number | null
           margin_mode?: string | null
+          max_asset_exposure_usd?: number | null
           max_cointegration_pvalue?: number | null
           max_slippage_percent?: number | null
           min_correlation?: number | null
           min_volume_usd?: number | null
           order_type?: string | null
           ou_theta_min?: number | null
+          paper_fee_percent?: number | null
+          paper_max_hold_hours?: number | null
+          paper_slippage_percent?: number | null
+          paper_stop_zscore?: number | null
           position_size_mode?: string | null
           position_size_value?: number | null
           updated_at?: string
@@ -564,12 +840,17 @@ export type Database = {
           leverage_short?: number | null
           lookback_days?: number | null
           margin_mode?: string | null
+          max_asset_exposure_usd?: number | null
           max_cointegration_pvalue?: number | null
           max_slippage_percent?: number | null
           min_correlation?: number | null
           min_volume_usd?: number | null
           order_type?: string | null
           ou_theta_min?: number | null
+          paper_fee_percent?: number | null
+          paper_max_hold_hours?: number | null
+          paper_slippage_percent?: number | null
+          paper_stop_zscore?: number | null
           position_size_mode?: string | null
           position_size_value?: number | null
           updated_at?: string
@@ -584,6 +865,27 @@ export type Database = {
       [_ in never]: never
     }
     Functions: {
+      add_exchange_account: {
+        Args: {
+          _api_key: string
+          _api_secret: string
+          _exchange_name: string
+          _label: string
+          _passphrase?: string
+        }
+        Returns: string
+      }
+      check_risk_limits: {
+        Args: { _order_details: Json }
+        Returns: {
+          limit_key: string
+          message: string
+        }[]
+      }
+      get_exchange_account_credentials: {
+        Args: { _account_id: string }
+        Returns: Json
+      }
       get_user_status: {
         Args: { _user_id: string }
         Returns: Database["public"]["Enums"]["user_status"]
@@ -596,6 +898,28 @@ export type Database = {
         Returns: boolean
       }
       is_user_active: { Args: { _user_id: string }; Returns: boolean }
+      open_paper_position: {
+        Args: { _position: Json }
+        Returns: Database["public"]["Tables"]["paper_positions"]["Row"]
+      }
+      revoke_exchange_account: {
+        Args: { _account_id: string }
+        Returns: undefined
+      }
+      set_trading_halt: {
+        Args: { _cancel_open?: boolean; _halted: boolean; _reason?: string }
+        Returns: number
+      }
+      update_exchange_account: {
+        Args: {
+          _account_id: string
+          _api_key?: string
+          _api_secret?: string
+          _label: string
+          _passphrase?: string
+        }
+        Returns: undefined
+      }
     }
     Enums: {
       app_role: "admin" | "user"
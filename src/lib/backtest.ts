@@ -0,0 +1,241 @@
+import { Time } from 'lightweight-charts';
+import { computeRSI, computeZScore, IndicatorDataPoint, ohlcToClose } from '@/lib/indicators';
+import { kalmanHedgeRatio } from '@/lib/kalman';
+import { buildPairOHLC } from '@/lib/marketData';
+import type { AlignedCandle, PairConstruction } from '@/types/marketData';
+
+export type TradeDirection = 'long_a_short_b' | 'short_a_long_b';
+export type ExitReason = 'exit_threshold' | 'stop_loss' | 'time_stop' | 'end_of_data';
+
+export interface BacktestConfig {
+  construction: PairConstruction;
+  zScoreLength: number;
+  /** Enter when |z| crosses above this (user_settings.zscore_entry_threshold). */
+  entryZ: number;
+  /** Exit when z reverts inside ±exitZ (user_settings.zscore_exit_threshold). */
+  exitZ: number;
+  /** Stop out when |z| extends beyond this against the position. Null disables. */
+  stopZ: number | null;
+  /** Close after this many bars in the trade. Null disables. */
+  maxHoldingBars: number | null;
+  /** Optional RSI confirmation, mirroring computeZScoreRSIArrows. */
+  rsi: { length: number; overbought: number; oversold: number } | null;
+  /** Exchange fee per leg per side, as a fraction of notional. */
+  feeRate: number;
+  /** Assumed slippage per leg per side, as a fraction of notional. */
+  slippageRate: number;
+  /** Bars per year, used to annualize Sharpe. */
+  periodsPerYear: number;
+}
+
+export interface BacktestTrade {
+  direction: TradeDirection;
+  entryTime: Time;
+  exitTime: Time;
+  entryZ: number;
+  exitZ: number;
+  barsHeld: number;
+  grossReturn: number;
+  costs: number;
+  netReturn: number;
+  exitReason: ExitReason;
+}
+
+export interface BacktestStats {
+  trades: number;
+  hitRate: number;
+  totalReturn: number;
+  sharpe: number;
+  maxDrawdown: number;
+  avgBarsHeld: number;
+}
+
+export interface BacktestResult {
+  trades: BacktestTrade[];
+  equity: IndicatorDataPoint[];
+  zScore: IndicatorDataPoint[];
+  stats: BacktestStats;
+}
+
+interface OpenPosition {
+  direction: TradeDirection;
+  entryIndex: number;
+  entryZ: number;
+  entryPriceA: number;
+  entryPriceB: number;
+  /** Gross-notional weights of each leg; wA + wB = 1. */
+  weightA: number;
+  weightB: number;
+  /** Equity committed at entry. */
+  capital: number;
+}
+
+/**
+ * Leg weights for one unit of gross notional. A ratio trade is dollar-neutral.
+ * Both spreads are in log prices, so |β| (or |β_t|) is the dollar hedge
+ * ratio: |β| dollars of B per dollar of A, as position sizing and paper
+ * fills trade it.
+ */
+function legWeights(construction: PairConstruction, kalmanBeta: number | null) {
+  let hedge = 1;
+  if (construction.mode === 'spread') hedge = Math.abs(construction.beta);
+  if (construction.mode === 'kalman' && kalmanBeta !== null) hedge = Math.abs(kalmanBeta);
+  return { weightA: 1 / (1 + hedge), weightB: hedge / (1 + hedge) };
+}
+
+/** Return on committed capital for the position marked at the given prices. */
+function positionReturn(position: OpenPosition, priceA: number, priceB: number): number {
+  const retA = priceA / position.entryPriceA - 1;
+  const retB = priceB / position.entryPriceB - 1;
+  const spreadReturn = position.weightA * retA - position.weightB * retB;
+  return position.direction === 'long_a_short_b' ? spreadReturn : -spreadReturn;
+}
+
+export function computeBacktestStats(
+  trades: BacktestTrade[],
+  equity: IndicatorDataPoint[],
+  periodsPerYear: number
+): BacktestStats {
+  const returns: number[] = [];
+  for (let i = 1; i < equity.length; i++) {
+    const prev = equity[i - 1].value;
+    returns.push(prev > 0 ? equity[i].value / prev - 1 : 0);
+  }
+
+  const mean = returns.length > 0 ? returns.reduce((a, b) => a + b, 0) / returns.length : 0;
+  const variance = returns.length > 1
+    ? returns.reduce((a, b) => a + Math.pow(b - mean, 2), 0) / (returns.length - 1)
+    : 0;
+  const std = Math.sqrt(variance);
+
+  let peak = equity[0]?.value ?? 1;
+  let maxDrawdown = 0;
+  for (const point of equity) {
+    peak = Math.max(peak, point.value);
+    if (peak > 0) maxDrawdown = Math.max(maxDrawdown, (peak - point.value) / peak);
+  }
+
+  const first = equity[0]?.value ?? 1;
+  const last = equity[equity.length - 1]?.value ?? first;
+
+  return {
+    trades: trades.length,
+    hitRate: trades.length > 0 ? trades.filter((t) => t.netReturn > 0).length / trades.length : 0,
+    totalReturn: first > 0 ? last / first - 1 : 0,
+    sharpe: std > 0 ? (mean / std) * Math.sqrt(periodsPerYear) : 0,
+    maxDrawdown,
+    avgBarsHeld: trades.length > 0 ? trades.reduce((a, t) => a + t.barsHeld, 0) / trades.length : 0,
+  };
+}
+
+/**
+ * Simulate a z-score mean-reversion strategy on an aligned pair.
+ *
+ * Signals are evaluated on each bar's close and filled at the next bar's open
+ * on both legs, so a bar never trades on information it has not seen yet.
+ * Fees and slippage are charged on both legs at entry and at exit.
+ */
+export function runPairBacktest(aligned: AlignedCandle[], config: BacktestConfig): BacktestResult {
+  const pairCloses = ohlcToClose(buildPairOHLC(aligned, config.construction));
+  const zScore = computeZScore(pairCloses, config.zScoreLength);
+  const rsi = config.rsi ? computeRSI(pairCloses, config.rsi.length) : null;
+  const roundTripCost = 2 * (config.feeRate + config.slippageRate);
+  const kalmanBetas = config.construction.mode === 'kalman'
+    ? kalmanHedgeRatio(
+        aligned.map((x) => Math.log(x.a.close)),
+        aligned.map((x) => Math.log(x.b.close)),
+        config.construction
+      ).beta
+    : null;
+
+  const trades: BacktestTrade[] = [];
+  const equity: IndicatorDataPoint[] = [];
+  let cash = 1;
+  let position: OpenPosition | null = null;
+  let pendingEntry: TradeDirection | null = null;
+  let pendingExit: ExitReason | null = null;
+
+  const closePosition = (index: number, priceA: number, priceB: number, reason: ExitReason) => {
+    if (!position) return;
+    const grossReturn = positionReturn(position, priceA, priceB);
+    const netReturn = grossReturn - roundTripCost;
+    cash = position.capital * (1 + netReturn);
+    trades.push({
+      direction: position.direction,
+      entryTime: aligned[position.entryIndex].time as Time,
+      exitTime: aligned[index].time as Time,
+      entryZ: position.entryZ,
+      exitZ: zScore[Math.max(index - 1, 0)].value,
+      barsHeld: index - position.entryIndex,
+      grossReturn,
+      costs: roundTripCost,
+      netReturn,
+      exitReason: reason,
+    });
+    position = null;
+  };
+
+  for (let i = 0; i < aligned.length; i++) {
+    const { a, b, time } = aligned[i];
+
+    // Fill decisions from the previous bar at this bar's open
+    if (pendingExit && position) {
+      closePosition(i, a.open, b.open, pendingExit);
+    }
+    if (pendingEntry && !position) {
+      position = {
+        direction: pendingEntry,
+        entryIndex: i,
+        entryZ: zScore[i - 1].value,
+        entryPriceA: a.open,
+        entryPriceB: b.open,
+        capital: cash,
+        // β as of the signal bar's close; bar i's close hasn't happened at its open
+        ...legWeights(config.construction, kalmanBetas?.[i - 1] ?? null),
+      };
+    }
+    pendingEntry = null;
+    pendingExit = null;
+
+    // Mark to market at the close
+    const markToMarket = position ? position.capital * (1 + positionReturn(position, a.close, b.close)) : cash;
+    equity.push({ time: time as Time, value: markToMarket });
+
+    if (i === aligned.length - 1 || i < config.zScoreLength - 1) continue;
+
+    const z = zScore[i].value;
+
+    if (position) {
+      const isLong = position.direction === 'long_a_short_b';
+      if (isLong ? z >= -config.exitZ : z <= config.exitZ) {
+        pendingExit = 'exit_threshold';
+      } else if (config.stopZ !== null && (isLong ? z <= -config.stopZ : z >= config.stopZ)) {
+        pendingExit = 'stop_loss';
+      } else if (config.maxHoldingBars !== null && i + 1 - position.entryIndex >= config.maxHoldingBars) {
+        pendingExit = 'time_stop';
+      }
+      continue;
+    }
+
+    const rsiValue = rsi?.[i].value ?? 50;
+    if (z > config.entryZ && (!config.rsi || rsiValue > config.rsi.overbought)) {
+      pendingEntry = 'short_a_long_b';
+    } else if (z < -config.entryZ && (!config.rsi || rsiValue < config.rsi.oversold)) {
+      pendingEntry = 'long_a_short_b';
+    }
+  }
+
+  // Close anything still open at the last close so the stats are realized
+  if (position && aligned.length > 0) {
+    const last = aligned[aligned.length - 1];
+    closePosition(aligned.length - 1, last.a.close, last.b.close, 'end_of_data');
+    equity[equity.length - 1] = { time: last.time as Time, value: cash };
+  }
+
+  return {
+    trades,
+    equity,
+    zScore,
+    stats: computeBacktestStats(trades, equity, config.periodsPerYear),
+  };
+}
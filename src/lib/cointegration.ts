@@ -0,0 +1,248 @@
+/**
+ * Cointegration tests: OLS hedge ratio, augmented Dickey-Fuller with automatic
+ * lag selection, and the Engle-Granger two-step test.
+ *
+ * p-values use MacKinnon's (1994) response-surface approximation and critical
+ * values his (2010) finite-sample tables, matching statsmodels' `adfuller`
+ * and `coint` for the one- and two-variable cases.
+ */
+
+import { diff, linearRegression, normalCdf, ols } from '@/lib/statistics';
+
+/** Deterministic terms in the ADF regression: none, constant, constant + trend. */
+export type ADFRegression = 'n' | 'c' | 'ct';
+
+export type LagCriterion = 'aic' | 'bic';
+
+export interface CriticalValues {
+  '1%': number;
+  '5%': number;
+  '10%': number;
+}
+
+export interface ADFOptions {
+  regression?: ADFRegression;
+  /** Largest lag considered (or used, when autolag is null). Defaults to 12·(n/100)^¼. */
+  maxLag?: number;
+  /** Information criterion for lag selection; null uses maxLag as-is. */
+  autolag?: LagCriterion | null;
+}
+
+export interface ADFResult {
+  statistic: number;
+  pValue: number;
+  usedLag: number;
+  /** Observations in the final regression. */
+  nobs: number;
+  criticalValues: CriticalValues;
+  regression: ADFRegression;
+  /** Best information criterion value when autolag was used. */
+  icBest: number | null;
+}
+
+export interface HedgeRatioFit {
+  /** Slope of y on x. */
+  beta: number;
+  intercept: number;
+  residuals: number[];
+  rSquared: number;
+}
+
+export interface EngleGrangerOptions {
+  maxLag?: number;
+  autolag?: LagCriterion | null;
+}
+
+export interface EngleGrangerResult extends HedgeRatioFit {
+  statistic: number;
+  pValue: number;
+  usedLag: number;
+  nobs: number;
+  criticalValues: CriticalValues;
+}
+
+// ---- MacKinnon (1994) p-value surface, indexed by number of variables − 1 ----
+
+const TAU_MAX: Record<ADFRegression, number[]> = {
+  n: [Infinity, 1.51],
+  c: [2.74, 0.92],
+  ct: [0.7, 0.63],
+};
+
+const TAU_MIN: Record<ADFRegression, number[]> = {
+  n: [-19.04, -19.62],
+  c: [-18.83, -18.86],
+  ct: [-16.18, -21.15],
+};
+
+const TAU_STAR: Record<ADFRegression, number[]> = {
+  n: [-1.04, -1.53],
+  c: [-1.61, -2.62],
+  ct: [-2.89, -3.19],
+};
+
+// Polynomial coefficients in ascending powers, already scaled
+const TAU_SMALL_P: Record<ADFRegression, number[][]> = {
+  n: [[0.6344, 1.2378, 0.032496], [1.9129, 1.3857, 0.035322]],
+  c: [[2.1659, 1.4412, 0.038269], [2.92, 1.5012, 0.039796]],
+  ct: [[3.2512, 1.6047, 0.049588], [3.6646, 1.5419, 0.036448]],
+};
+
+const TAU_LARGE_P: Record<ADFRegression, number[][]> = {
+  n: [[0.4797, 0.93557, -0.06999, 0.033066], [1.5578, 0.8558, -0.2083, -0.033549]],
+  c: [[1.7339, 0.93202, -0.12745, -0.010368], [2.1945, 0.64695, -0.29198, -0.042377]],
+  ct: [[2.5261, 0.61654, -0.37956, -0.060285], [2.85, 0.5272, -0.36622, -0.051695]],
+};
+
+// ---- MacKinnon (2010) critical values: b0 + b1/T + b2/T² + b3/T³ ----
+
+type CriticalSurface = [number[], number[], number[]];
+
+const TAU_2010: Partial<Record<`${ADFRegression}${1 | 2}`, CriticalSurface>> = {
+  n1: [[-2.56574, -2.2358, -3.627, 0], [-1.941, -0.2686, -3.365, 31.223], [-1.61682, 0.2656, -2.714, 25.364]],
+  c1: [[-3.43035, -6.5393, -16.786, -79.433], [-2.86154, -2.8903, -4.234, -40.04], [-2.56677, -1.5384, -2.809, 0]],
+  c2: [[-3.89644, -10.9519, -33.527, 0], [-3.33613, -6.1101, -6.823, 0], [-3.04445, -4.2412, -2.72, 0]],
+  ct1: [[-3.95877, -9.0531, -28.428, -134.155], [-3.41049, -4.3904, -9.036, -45.374], [-3.12705, -2.5856, -3.925, -22.38]],
+};
+
+const polyval = (coefficients: number[], x: number) =>
+  coefficients.reduce((acc, c, i) => acc + c * Math.pow(x, i), 0);
+
+/**
+ * Approximate p-value of a Dickey-Fuller τ statistic.
+ * @param variables - number of series in the cointegrating relation (1 for ADF, 2 for a pair)
+ */
+export function mackinnonPValue(statistic: number, regression: ADFRegression = 'c', variables: 1 | 2 = 1): number {
+  const idx = variables - 1;
+  if (statistic > TAU_MAX[regression][idx]) return 1;
+  if (statistic < TAU_MIN[regression][idx]) return 0;
+  const coefficients = statistic <= TAU_STAR[regression][idx]
+    ? TAU_SMALL_P[regression][idx]
+    : TAU_LARGE_P[regression][idx];
+  return normalCdf(polyval(coefficients, statistic));
+}
+
+/** Finite-sample 1/5/10% critical values for a sample of size nobs. */
+export function mackinnonCriticalValues(
+  regression: ADFRegression,
+  variables: 1 | 2,
+  nobs: number
+): CriticalValues {
+  const surface = TAU_2010[`${regression}${variables}`];
+  if (!surface) {
+    throw new Error(`No critical values for regression '${regression}' with ${variables} variables`);
+  }
+  const [one, five, ten] = surface.map((b) => polyval(b, 1 / nobs));
+  return { '1%': one, '5%': five, '10%': ten };
+}
+
+// ---- ADF ----
+
+const deterministicTerms = (regression: ADFRegression, t: number): number[] => {
+  if (regression === 'n') return [];
+  if (regression === 'c') return [1];
+  return [1, t + 1];
+};
+
+/**
+ * Build the ADF regression Δx_t = det + γ·x_{t−1} + Σ δ_i·Δx_{t−i} + ε
+ * using observations from `start` onwards (start ≥ lag).
+ */
+function adfDesign(x: number[], dx: number[], lag: number, start: number, regression: ADFRegression) {
+  const y: number[] = [];
+  const X: number[][] = [];
+  for (let t = start; t < dx.length; t++) {
+    const row = deterministicTerms(regression, t - start);
+    row.push(x[t]);
+    for (let i = 1; i <= lag; i++) row.push(dx[t - i]);
+    y.push(dx[t]);
+    X.push(row);
+  }
+  return { y, X };
+}
+
+/**
+ * Augmented Dickey-Fuller unit-root test. A low p-value rejects the unit root,
+ * i.e. the series looks stationary.
+ */
+export function adfTest(series: number[], options: ADFOptions = {}): ADFResult {
+  const { regression = 'c', autolag = 'aic' } = options;
+  const n = series.length;
+  const trendTerms = deterministicTerms(regression, 0).length;
+
+  let maxLag = options.maxLag ?? Math.ceil(12 * Math.pow(n / 100, 0.25));
+  maxLag = Math.min(maxLag, Math.floor(n / 2) - trendTerms - 1);
+  if (maxLag < 0) {
+    throw new Error(`ADF needs more observations (have ${n})`);
+  }
+
+  const dx = diff(series);
+  let usedLag = maxLag;
+  let icBest: number | null = null;
+
+  if (autolag) {
+    // Compare every lag on the same sample so the criteria are comparable
+    for (let lag = 0; lag <= maxLag; lag++) {
+      const { y, X } = adfDesign(series, dx, lag, maxLag, regression);
+      const fit = ols(y, X);
+      const ic = autolag === 'aic' ? fit.aic : fit.bic;
+      if (icBest === null || ic < icBest) {
+        icBest = ic;
+        usedLag = lag;
+      }
+    }
+  }
+
+  const { y, X } = adfDesign(series, dx, usedLag, usedLag, regression);
+  const fit = ols(y, X);
+  const statistic = fit.tValues[trendTerms];
+
+  return {
+    statistic,
+    pValue: mackinnonPValue(statistic, regression, 1),
+    usedLag,
+    nobs: fit.nobs,
+    criticalValues: mackinnonCriticalValues(regression, 1, fit.nobs),
+    regression,
+    icBest,
+  };
+}
+
+// ---- Engle-Granger ----
+
+/** Static OLS hedge ratio of y on x (with intercept). */
+export function olsHedgeRatio(y: number[], x: number[]): HedgeRatioFit {
+  if (y.length !== x.length) {
+    throw new Error('Hedge ratio needs series of equal length');
+  }
+  const fit = linearRegression(y, x);
+  return { beta: fit.slope, intercept: fit.intercept, residuals: fit.residuals, rSquared: fit.rSquared };
+}
+
+/**
+ * Engle-Granger two-step cointegration test: regress y on x, then run an ADF
+ * (no deterministic terms) on the residuals. p-values use the two-variable
+ * MacKinnon surface since the intercept was already estimated in step one.
+ */
+export function engleGrangerTest(y: number[], x: number[], options: EngleGrangerOptions = {}): EngleGrangerResult {
+  const hedge = olsHedgeRatio(y, x);
+  const adf = adfTest(hedge.residuals, {
+    regression: 'n',
+    maxLag: options.maxLag,
+    autolag: options.autolag === undefined ? 'aic' : options.autolag,
+  });
+
+  return {
+    ...hedge,
+    statistic: adf.statistic,
+    pValue: mackinnonPValue(adf.statistic, 'c', 2),
+    usedLag: adf.usedLag,
+    nobs: y.length,
+    criticalValues: mackinnonCriticalValues('c', 2, y.length - 1),
+  };
+}
+
+/** True when two p-values reach opposite conclusions at significance level alpha. */
+export function pValuesDisagree(stored: number, local: number, alpha: number): boolean {
+  return (stored <= alpha) !== (local <= alpha);
+}
@@ -0,0 +1,48 @@
+import { supabase } from '@/integrations/supabase/client';
+import type { Database } from '@/integrations/supabase/types';
+import type { ExchangeAccountForm, ExchangeAccountTestResult } from '@/types/exchangeAccount';
+
+export type ExchangeAccountRow = Database['public']['Tables']['exchange_accounts']['Row'];
+
+// Each write is a security definer function that keeps Vault, the row and the
+// audit log in step; the table itself is read-only to clients.
+
+export async function addExchangeAccount(form: ExchangeAccountForm): Promise<string> {
+  const { data, error } = await supabase.rpc('add_exchange_account', {
+    _exchange_name: form.exchange,
+    _label: form.label,
+    _api_key: form.apiKey,
+    _api_secret: form.apiSecret,
+    _passphrase: form.passphrase || undefined,
+  });
+  if (error) throw error;
+  return data;
+}
+
+/** Saves the label; the key is replaced only when a new one was entered. */
+export async function updateExchangeAccount(accountId: string, form: ExchangeAccountForm): Promise<void> {
+  const rotate = form.apiKey.trim() !== '';
+  const { error } = await supabase.rpc('update_exchange_account', {
+    _account_id: accountId,
+    _label: form.label,
+    _api_key: rotate ? form.apiKey : undefined,
+    _api_secret: rotate ? form.apiSecret : undefined,
+    _passphrase: rotate ? form.passphrase || undefined : undefined,
+  });
+  if (error) throw error;
+}
+
+export async function revokeExchangeAccount(accountId: string): Promise<void> {
+  const { error } = await supabase.rpc('revoke_exchange_account', { _account_id: accountId });
+  if (error) throw error;
+}
+
+/** Runs the server-side permission check; the account row is updated there. */
+export async function testExchangeAccount(accountId: string): Promise<ExchangeAccountTestResult> {
+  const { data, error } = await supabase.functions.invoke<ExchangeAccountTestResult>('exchange-account-test', {
+    body: { account_id: accountId },
+  });
+  if (error) throw error;
+  if (!data) throw new Error('Connection test returned no result');
+  return { connected: data.connected, error: data.error };
+}
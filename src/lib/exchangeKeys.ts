@@ -0,0 +1,33 @@
+/**
+ * Client-side checks for exchange API keys before they are stored. What a key
+ * is actually allowed to do is checked server-side, in
+ * supabase/functions/_shared/exchangeKeys.ts.
+ */
+
+/** Mirrors TRADING_EXCHANGES. */
+export type KeyExchange = 'bybit' | 'binance' | 'okx';
+
+/** The only part of a key the client ever sees again. */
+export function apiKeyHint(apiKey: string): string {
+  return apiKey.trim().slice(-4);
+}
+
+export interface ExchangeKeyInput {
+  exchange: KeyExchange;
+  apiKey: string;
+  apiSecret: string;
+  passphrase?: string;
+}
+
+/** Form-level checks before credentials leave the browser. Returns the first problem found. */
+export function validateExchangeKeyInput({ exchange, apiKey, apiSecret, passphrase }: ExchangeKeyInput): string | null {
+  const key = apiKey.trim();
+  const secret = apiSecret.trim();
+  if (!key) return 'API key is required';
+  if (!secret) return 'API secret is required';
+  if (/\s/.test(key) || /\s/.test(secret)) return 'API key and secret cannot contain spaces';
+  if (key.length < 8) return 'API key looks too short';
+  if (key === secret) return 'API key and secret must differ';
+  if (exchange === 'okx' && !passphrase?.trim()) return 'OKX keys need their passphrase';
+  return null;
+}
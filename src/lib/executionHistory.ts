@@ -0,0 +1,186 @@
+/**
+ * Trade-history figures derived from executions.order_details: realized PnL
+ * per execution, summary stats over a set of them, and flat records for
+ * export. Everything here works from the stored fills alone, so paper and
+ * exchange executions are treated the same.
+ */
+
+import { parseOrderDetails } from '@/lib/executions';
+import { legPnl } from '@/lib/paperTrading';
+import type { Database } from '@/integrations/supabase/types';
+import type { ExecutionFill, ExecutionOrderDetails } from '@/types/execution';
+
+type ExecutionRow = Database['public']['Tables']['executions']['Row'];
+
+const HOUR_MS = 60 * 60 * 1000;
+
+export interface ExecutionPnl {
+  /** Notional of the entry fills, in USD. */
+  entryNotional: number;
+  /** Entry fees, plus exit fees once closed. */
+  fees: number;
+  /** Price PnL less all fees; null while the pair is still open. */
+  realizedPnl: number | null;
+  /** Realized PnL over entry notional. */
+  returnPercent: number | null;
+  openedAt: string | null;
+  closedAt: string | null;
+  holdingMs: number | null;
+  closeReason: string | null;
+}
+
+const sumFees = (fills: ExecutionFill[]) => fills.reduce((sum, f) => sum + (Number(f.fee) || 0), 0);
+
+/**
+ * PnL of one execution's pair. Null when nothing was ever filled. Exit fills
+ * are matched to entries by symbol; a leg with no exit counts as flat.
+ */
+export function executionPnl(details: ExecutionOrderDetails | null): ExecutionPnl | null {
+  const entries = details?.fills ?? [];
+  if (entries.length === 0) return null;
+
+  const entryNotional = entries.reduce((sum, f) => sum + f.quantity * f.price, 0);
+  const openedAt = details.filled_at ?? null;
+  const close = details.close;
+  if (!close) {
+    return {
+      entryNotional,
+      fees: sumFees(entries),
+      realizedPnl: null,
+      returnPercent: null,
+      openedAt,
+      closedAt: null,
+      holdingMs: null,
+      closeReason: null,
+    };
+  }
+
+  const pricePnl = entries.reduce((sum, entry) => {
+    const exit = close.fills.find((f) => f.symbol === entry.symbol);
+    return exit ? sum + legPnl(entry.side, Math.min(entry.quantity, exit.quantity), entry.price, exit.price) : sum;
+  }, 0);
+  const fees = sumFees(entries) + sumFees(close.fills);
+  const realizedPnl = pricePnl - fees;
+  const holdingMs = openedAt ? new Date(close.closed_at).getTime() - new Date(openedAt).getTime() : null;
+
+  return {
+    entryNotional,
+    fees,
+    realizedPnl,
+    returnPercent: entryNotional > 0 ? (realizedPnl / entryNotional) * 100 : null,
+    openedAt,
+    closedAt: close.closed_at,
+    holdingMs: holdingMs !== null && holdingMs >= 0 ? holdingMs : null,
+    closeReason: close.reason,
+  };
+}
+
+export interface ExecutionHistoryStats {
+  executions: number;
+  /** Executions whose pair has been opened and closed again. */
+  closed: number;
+  open: number;
+  wins: number;
+  losses: number;
+  /** Wins over closed trades, 0–1; null with nothing closed. */
+  winRate: number | null;
+  totalPnl: number;
+  totalFees: number;
+  avgHoldingMs: number | null;
+}
+
+export function summarizeExecutions(executions: Pick<ExecutionRow, 'order_details'>[]): ExecutionHistoryStats {
+  let closed = 0;
+  let open = 0;
+  let wins = 0;
+  let losses = 0;
+  let totalPnl = 0;
+  let totalFees = 0;
+  let holdingTotal = 0;
+  let holdingCount = 0;
+
+  for (const execution of executions) {
+    const pnl = executionPnl(parseOrderDetails(execution.order_details));
+    if (!pnl) continue;
+    totalFees += pnl.fees;
+    if (pnl.realizedPnl === null) {
+      open++;
+      continue;
+    }
+    closed++;
+    totalPnl += pnl.realizedPnl;
+    if (pnl.realizedPnl > 0) wins++;
+    else losses++;
+    if (pnl.holdingMs !== null) {
+      holdingTotal += pnl.holdingMs;
+      holdingCount++;
+    }
+  }
+
+  return {
+    executions: executions.length,
+    closed,
+    open,
+    wins,
+    losses,
+    winRate: closed > 0 ? wins / closed : null,
+    totalPnl,
+    totalFees,
+    avgHoldingMs: holdingCount > 0 ? holdingTotal / holdingCount : null,
+  };
+}
+
+export type ExportValue = string | number | null;
+
+/** One execution flattened for CSV / JSON export. */
+export function executionExportRecord(execution: ExecutionRow): Record<string, ExportValue> {
+  const details = parseOrderDetails(execution.order_details);
+  const pnl = executionPnl(details);
+  const round = (v: number | null | undefined, digits: number) => (v == null ? null : Number(v.toFixed(digits)));
+  return {
+    id: execution.id,
+    created_at: execution.created_at,
+    status: execution.status,
+    venue: details?.venue ?? null,
+    exchange: details?.exchange ?? null,
+    symbol_a: details?.legs[0]?.symbol ?? null,
+    symbol_b: details?.legs[1]?.symbol ?? null,
+    direction: details?.direction ?? null,
+    gross_notional: round(details?.gross_notional ?? (execution.position_size == null ? null : Number(execution.position_size)), 2),
+    entry_notional: round(pnl?.entryNotional, 2),
+    fees: round(pnl?.fees, 4),
+    realized_pnl: round(pnl?.realizedPnl, 4),
+    return_percent: round(pnl?.returnPercent, 4),
+    opened_at: pnl?.openedAt ?? null,
+    closed_at: pnl?.closedAt ?? null,
+    holding_hours: round(pnl?.holdingMs == null ? null : pnl.holdingMs / HOUR_MS, 2),
+    close_reason: pnl?.closeReason ?? null,
+    error_message: execution.error_message,
+  };
+}
+
+const csvCell = (value: ExportValue) => {
+  if (value === null) return '';
+  // Text a spreadsheet would read as a formula is quoted and led with ' so it stays text
+  if (typeof value === 'string' && /^[=+\-@\t\r]/.test(value)) return `"'${value.replace(/"/g, '""')}"`;
+  const text = String(value);
+  return /[",\n\r]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+export function toCsv(records: Record<string, ExportValue>[]): string {
+  if (records.length === 0) return '';
+  const columns = Object.keys(records[0]);
+  const lines = [columns.join(','), ...records.map((r) => columns.map((c) => csvCell(r[c] ?? null)).join(','))];
+  return `${lines.join('\n')}\n`;
+}
+
+/** "3d 4h", "5h 12m", "42m". */
+export function formatHoldingTime(ms: number): string {
+  const minutes = Math.round(ms / 60000);
+  const days = Math.floor(minutes / 1440);
+  const hours = Math.floor((minutes % 1440) / 60);
+  const mins = minutes % 60;
+  if (days > 0) return `${days}d ${hours}h`;
+  if (hours > 0) return `${hours}h ${mins}m`;
+  return `${mins}m`;
+}
@@ -0,0 +1,171 @@
+import { supabase } from '@/integrations/supabase/client';
+import type { Database, Json } from '@/integrations/supabase/types';
+import { logAuditEvent } from '@/lib/audit';
+import { canTransition, parseOrderDetails } from '@/lib/executions';
+import { executePairOrders, PairOrderOptions } from '@/lib/pairOrders';
+import type { ExecutionClose, ExecutionFill, ExecutionStatus } from '@/types/execution';
+import type { PairOrderOutcome, TradingAdapter } from '@/types/trading';
+
+export type ExecutionRow = Database['public']['Tables']['executions']['Row'];
+type ExecutionInsert = Database['public']['Tables']['executions']['Insert'];
+type ExecutionUpdate = Database['public']['Tables']['executions']['Update'];
+
+/** Persist a new preview row and audit it. */
+export async function createExecution(row: ExecutionInsert): Promise<ExecutionRow> {
+  const { data, error } = await supabase.from('executions').insert(row).select().single();
+  if (error) throw error;
+
+  await logAuditEvent({
+    action: `execution_${data.status}`,
+    entityType: 'execution',
+    entityId: data.id,
+    details: {
+      from: null,
+      to: data.status,
+      signal_id: data.signal_id,
+      position_size: data.position_size,
+      estimated_margin: data.estimated_margin,
+    },
+  });
+  return data;
+}
+
+/**
+ * Move an execution to a new status. The update only matches while the row
+ * still has the status we read, so a double click or a second tab can't
+ * confirm or cancel the same execution twice.
+ */
+export async function transitionExecution(
+  execution: ExecutionRow,
+  to: ExecutionStatus,
+  patch: Omit<ExecutionUpdate, 'id' | 'status' | 'user_id'> = {},
+  details: Record<string, unknown> = {}
+): Promise<ExecutionRow> {
+  const from = execution.status;
+  if (!canTransition(from, to)) {
+    throw new Error(`An execution in ${from} cannot move to ${to}`);
+  }
+
+  const { data, error } = await supabase
+    .from('executions')
+    .update({ ...patch, status: to, updated_at: new Date().toISOString() })
+    .eq('id', execution.id)
+    .eq('status', from)
+    .select()
+    .maybeSingle();
+  if (error) throw error;
+  if (!data) throw new Error('This execution was changed elsewhere; reload it and try again');
+
+  await logAuditEvent({
+    action: `execution_${to}`,
+    entityType: 'execution',
+    entityId: execution.id,
+    details: { from, to, signal_id: execution.signal_id, ...details },
+  });
+  return data;
+}
+
+/**
+ * Entry fills from routed orders, less whatever an unwind flattened again, so
+ * they hold only what is still open. Adapters don't report commissions, so
+ * fees are left at zero.
+ */
+function routedFills(routing: PairOrderOutcome): ExecutionFill[] {
+  return routing.legs.flatMap(({ order }) => {
+    if (!order || order.avgPrice === null) return [];
+    const unwound = routing.unwind?.symbol === order.symbol ? routing.unwind.filledQuantity : 0;
+    const quantity = order.filledQuantity - unwound;
+    return quantity > 0 ? [{ symbol: order.symbol, side: order.side, quantity, price: order.avgPrice, fee: 0 }] : [];
+  });
+}
+
+/**
+ * Send a confirmed exchange execution's legs through `adapter`. Filled and
+ * partially filled pairs finish as success (a partial, trimmed back to the
+ * hedge ratio, keeps the reason in error_message). A failed unwind or trim
+ * finishes as unwind_failed with the unhedged leg in its fills; anything that
+ * leaves no position open finishes as failed, including routing that throws
+ * part way.
+ */
+export async function routeExchangeExecution(
+  execution: ExecutionRow,
+  adapter: TradingAdapter,
+  options: PairOrderOptions = {}
+): Promise<ExecutionRow> {
+  const details = parseOrderDetails(execution.order_details);
+  if (!details || details.venue !== 'exchange') throw new Error('Not an exchange execution');
+
+  let current = execution;
+  let routing: PairOrderOutcome;
+  try {
+    // The exchange goes on the row before any order is placed, so risk limits can check it.
+    // If that move is refused (a trading halt, say) the row fails from confirmed.
+    current = await transitionExecution(
+      execution,
+      'pending',
+      { order_details: { ...details, exchange: adapter.exchange } as unknown as Json },
+      { exchange: adapter.exchange }
+    );
+    routing = await executePairOrders(adapter, details, {
+      clientOrderPrefix: execution.id.replace(/-/g, '').slice(0, 24),
+      ...options,
+    });
+  } catch (e) {
+    const message = e instanceof Error ? e.message : 'Order routing failed';
+    console.error('Order routing failed:', e);
+    return transitionExecution(current, 'failed', { error_message: message }, { exchange: adapter.exchange, reason: message });
+  }
+  const opened = routing.status !== 'failed';
+  const patch = {
+    order_details: {
+      ...details,
+      routing,
+      exchange: adapter.exchange,
+      ...(opened && { fills: routedFills(routing), filled_at: new Date().toISOString() }),
+    } as unknown as Json,
+    error_message: routing.error,
+  };
+  const summary = { exchange: adapter.exchange, routing_status: routing.status, error: routing.error };
+  const to: ExecutionStatus =
+    routing.status === 'failed' ? 'failed' : routing.status === 'unwind_failed' ? 'unwind_failed' : 'success';
+  return transitionExecution(current, to, patch, summary);
+}
+
+/**
+ * Record that the position an execution opened has been closed, so its
+ * realized PnL can be read from order_details alone. Status is unchanged.
+ */
+export async function recordExecutionClose(executionId: string, close: ExecutionClose): Promise<void> {
+  const { data, error: fetchError } = await supabase
+    .from('executions')
+    .select('order_details')
+    .eq('id', executionId)
+    .single();
+  if (fetchError) throw fetchError;
+
+  const details = parseOrderDetails(data.order_details);
+  if (!details) throw new Error('Execution has no order details');
+
+  const { error } = await supabase
+    .from('executions')
+    .update({ order_details: { ...details, close } as unknown as Json, updated_at: new Date().toISOString() })
+    .eq('id', executionId);
+  if (error) throw error;
+}
+
+/**
+ * Executions with filled legs not yet closed: open pairs, and single legs a
+ * failed unwind left behind.
+ */
+export async function fetchOpenPairExecutions(userId: string): Promise<ExecutionRow[]> {
+  const { data, error } = await supabase
+    .from('executions')
+    .select('*')
+    .eq('user_id', userId)
+    .in('status', ['success', 'unwind_failed'])
+    .not('order_details->fills', 'is', null)
+    .is('order_details->close', null)
+    .order('created_at', { ascending: false });
+  if (error) throw error;
+  return data ?? [];
+}
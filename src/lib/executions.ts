@@ -0,0 +1,119 @@
+/**
+ * Pair execution records: building the preview row from a sizing, reading
+ * order_details back, and the status lifecycle every update must respect.
+ */
+
+import type { TradeDirection } from '@/lib/backtest';
+import { roundToTick } from '@/lib/positionSizing';
+import type { Database, Json } from '@/integrations/supabase/types';
+import {
+  EXECUTION_STATUSES,
+  EXECUTION_TRANSITIONS,
+  ExecutionOrderDetails,
+  ExecutionOrderLeg,
+  ExecutionStatus,
+  ExecutionVenue,
+  OrderType,
+  PREVIEW_TTL_MS,
+} from '@/types/execution';
+import type { LegSide, LegSizing, MarginMode, PairSizing } from '@/types/sizing';
+
+type ExecutionInsert = Database['public']['Tables']['executions']['Insert'];
+
+export const isExecutionStatus = (value: string): value is ExecutionStatus =>
+  (EXECUTION_STATUSES as readonly string[]).includes(value);
+
+export function canTransition(from: string, to: ExecutionStatus): boolean {
+  return isExecutionStatus(from) && EXECUTION_TRANSITIONS[from].includes(to);
+}
+
+/** Worst acceptable fill given a slippage tolerance in percent, kept on the tick grid. */
+export function worstPrice(side: LegSide, price: number, slippagePercent: number, tickSize: number | null): number {
+  const bound = price * (side === 'buy' ? 1 + slippagePercent / 100 : 1 - slippagePercent / 100);
+  return tickSize ? roundToTick(bound, tickSize) : bound;
+}
+
+export interface ExecutionPreviewInput {
+  userId: string;
+  signalId: string;
+  venue: ExecutionVenue;
+  direction: TradeDirection;
+  hedgeRatio: number;
+  sizing: PairSizing;
+  marginMode: MarginMode;
+  orderType: OrderType;
+  slippagePercent: number;
+  now: number;
+}
+
+function toOrderLeg(leg: LegSizing, orderType: OrderType, slippagePercent: number): ExecutionOrderLeg {
+  return {
+    symbol: leg.symbol,
+    side: leg.side,
+    order_type: orderType,
+    quantity: leg.quantity,
+    reference_price: leg.price,
+    worst_price: worstPrice(leg.side, leg.price, slippagePercent, leg.tickSize),
+    notional: leg.notional,
+    leverage: leg.leverage,
+    margin: leg.margin,
+  };
+}
+
+/** The executions row for a new preview; nothing is sent to an exchange until it is confirmed. */
+export function buildExecutionPreview(input: ExecutionPreviewInput): ExecutionInsert {
+  const { sizing, orderType, slippagePercent } = input;
+  const legs = [sizing.legA, sizing.legB].map((leg) => toOrderLeg(leg, orderType, slippagePercent));
+  const longLeg = legs.find((leg) => leg.side === 'buy');
+  const shortLeg = legs.find((leg) => leg.side === 'sell');
+
+  const details: ExecutionOrderDetails = {
+    kind: 'pair',
+    venue: input.venue,
+    signal_id: input.signalId,
+    direction: input.direction,
+    hedge_ratio: input.hedgeRatio,
+    margin_mode: input.marginMode,
+    slippage_tolerance_percent: slippagePercent,
+    gross_notional: sizing.legA.notional + sizing.legB.notional,
+    imbalance: sizing.imbalance,
+    legs,
+    preview_expires_at: new Date(input.now + PREVIEW_TTL_MS).toISOString(),
+  };
+
+  return {
+    user_id: input.userId,
+    signal_id: input.signalId,
+    status: 'preview',
+    leverage_long: longLeg?.leverage ?? null,
+    leverage_short: shortLeg?.leverage ?? null,
+    margin_mode: input.marginMode,
+    position_size: details.gross_notional,
+    estimated_margin: sizing.totalMargin,
+    slippage_tolerance: slippagePercent,
+    order_details: details as unknown as Json,
+  };
+}
+
+/** Pair order details from a stored row, or null for rows written by something else. */
+export function parseOrderDetails(value: Json | null): ExecutionOrderDetails | null {
+  if (!value || typeof value !== 'object' || Array.isArray(value)) return null;
+  const details = value as unknown as ExecutionOrderDetails;
+  return details.kind === 'pair' && Array.isArray(details.legs) ? details : null;
+}
+
+export function isPreviewExpired(details: ExecutionOrderDetails, now: number): boolean {
+  return new Date(details.preview_expires_at).getTime() <= now;
+}
+
+/** Reasons a preview can't be submitted; empty when it is good to confirm. */
+export function previewProblems(sizing: PairSizing): string[] {
+  const problems: string[] = [];
+  for (const leg of [sizing.legA, sizing.legB]) {
+    if (leg.quantity <= 0) problems.push(`${leg.symbol} rounds to zero quantity`);
+    else if (leg.warnings.includes('below_min_qty')) problems.push(`${leg.symbol} is below the minimum order quantity`);
+    if (leg.warnings.includes('below_min_notional')) problems.push(`${leg.symbol} is below the minimum order value`);
+  }
+  if (sizing.exceedsEquity) problems.push('Required margin exceeds equity');
+  return problems;
+}
@@ -0,0 +1,1224 @@
+import type { Candle } from '@/types/marketData';
+
+// Recorded 15m perpetual klines used by the local market-data adapter
+// (development and tests). Tuples are [openTime (unix s), open, high, low, close, volume].
+type KlineTuple = [number, number, number, number, number, number];
+
+function toCandles(rows: KlineTuple[]): Candle[] {
+  return rows.map(([time, open, high, low, close, volume]) => ({ time, open, high, low, close, volume }));
+}
+
+const BTCUSDT: KlineTuple[] = [
+  [1767225600, 94000, 94091.49, 93607.97, 93612.31, 113.2],
+  [1767226500, 93612.31, 93786.43, 93578.72, 93641.28, 115.3],
+  [1767227400, 93641.28, 93751.15, 93501.26, 93609.37, 114.6],
+  [1767228300, 93609.37, 94321.91, 93477.97, 94310.85, 172.8],
+  [1767229200, 94310.85, 94409.09, 94241.56, 94392.24, 242.4],
+  [1767230100, 94392.24, 94519.04, 94050.31, 94129.39, 352.7],
+  [1767231000, 94129.39, 94571.59, 94094.67, 94536.34, 255.3],
+  [1767231900, 94536.34, 94814.88, 94349.3, 94637.78, 107.1],
+  [1767232800, 94637.78, 94771.99, 94624.6, 94686.96, 395.3],
+  [1767233700, 94686.96, 94832.49, 94295.81, 94389.41, 295.7],
+  [1767234600, 94389.41, 94573.82, 93752.16, 93857.1, 76.3],
+  [1767235500, 93857.1, 94206.11, 93826.52, 94097.05, 138.2],
+  [1767236400, 94097.05, 94336.26, 94083.14, 94270.43, 65.1],
+  [1767237300, 94270.43, 94354.83, 94260.28, 94333.59, 223],
+  [1767238200, 94333.59, 94526.97, 94186.51, 94214.69, 178.8],
+  [1767239100, 94214.69, 94252.91, 93672.14, 93714.24, 109.2],
+  [1767240000, 93714.24, 93723.16, 92766.03, 92978.29, 224.4],
+  [1767240900, 92978.29, 93759.26, 92888.44, 93385.42, 91.1],
+  [1767241800, 93385.42, 93413.23, 93289.57, 93407.48, 280.7],
+  [1767242700, 93407.48, 93573.33, 93132.72, 93238.41, 370.1],
+  [1767243600, 93238.41, 93326.96, 92791.6, 92900.91, 172],
+  [1767244500, 92900.91, 93022.35, 92851.06, 92875.37, 235.1],
+  [1767245400, 92875.37, 93010.67, 92803.69, 92984.38, 355],
+  [1767246300, 92984.38, 93099.91, 92951.43, 93080.72, 334.7],
+  [1767247200, 93080.72, 93233.86, 93042.29, 93218.14, 391.3],
+  [1767248100, 93218.14, 93669.07, 93089.86, 93458.6, 314.3],
+  [1767249000, 93458.6, 93540.04, 93177.53, 93298.49, 283.9],
+  [1767249900, 93298.49, 93302.09, 93030.37, 93073.1, 275.5],
+  [1767250800, 93073.1, 93112.63, 92924.06, 93000.14, 119.2],
+  [1767251700, 93000.14, 93044.27, 92703.95, 92800.54, 319.4],
+  [1767252600, 92800.54, 93217.34, 92662.12, 93092.06, 286.8],
+  [1767253500, 93092.06, 93254.79, 92942.04, 93036.26, 122.9],
+  [1767254400, 93036.26, 93115.61, 92543.42, 92612.48, 168.8],
+  [1767255300, 92612.48, 92693.96, 92267.91, 92396.72, 347.1],
+  [1767256200, 92396.72, 92430.89, 91878.16, 92134.23, 121.1],
+  [1767257100, 92134.23, 92548.95, 92041.8, 92440.12, 300.6],
+  [1767258000, 92440.12, 92640.68, 92001.19, 92234.21, 171.7],
+  [1767258900, 92234.21, 92330.71, 92121.94, 92263.05, 258.9],
+  [1767259800, 92263.05, 92322.4, 91901.94, 92063.34, 275.9],
+  [1767260700, 92063.34, 92151.27, 91901.24, 91951.12, 113.1],
+  [1767261600, 91951.12, 92166.63, 91943.34, 92067.01, 139.8],
+  [1767262500, 92067.01, 92081.71, 91731.71, 91892.46, 360.6],
+  [1767263400, 91892.46, 91936.28, 91612.12, 91714.57, 358.5],
+  [1767264300, 91714.57, 91953.49, 91614.73, 91950.1, 184.8],
+  [1767265200, 91950.1, 92615.77, 91927.47, 92562.84, 290.9],
+  [1767266100, 92562.84, 92608.7, 92378.55, 92586.52, 105.8],
+  [1767267000, 92586.52, 92719.47, 91853.98, 92053.13, 309.5],
+  [1767267900, 92053.13, 92092.63, 91566.98, 91616.92, 40],
+  [1767268800, 91616.92, 91883.43, 91582.64, 91874.27, 226.2],
+  [1767269700, 91874.27, 91932.99, 91412.27, 91656.2, 288.2],
+  [1767270600, 91656.2, 92168.28, 91618.69, 92100.41, 325.9],
+  [1767271500, 92100.41, 92101.7, 92022.62, 92096.38, 383.3],
+  [1767272400, 92096.38, 92275.98, 91872.55, 92160.73, 269.5],
+  [1767273300, 92160.73, 92189.18, 91924.09, 92033.72, 397.2],
+  [1767274200, 92033.72, 92172.79, 91751.42, 91844.82, 123.2],
+  [1767275100, 91844.82, 92149.31, 91790.59, 92126.08, 217.3],
+  [1767276000, 92126.08, 92768.23, 92062.36, 92529.57, 106.8],
+  [1767276900, 92529.57, 92687.04, 92122.84, 92257.33, 102.7],
+  [1767277800, 92257.33, 92548.04, 92076.11, 92404.66, 87.9],
+  [1767278700, 92404.66, 92504.18, 91864.35, 91945.28, 118.7],
+  [1767279600, 91945.28, 92056.09, 91736.22, 91896.33, 196.9],
+  [1767280500, 91896.33, 92049.35, 91812.07, 91885.43, 127.3],
+  [1767281400, 91885.43, 92014.28, 91785.88, 91935.77, 391.6],
+  [1767282300, 91935.77, 92333.82, 91718.55, 92234.91, 161.9],
+  [1767283200, 92234.91, 92236.3, 91612.23, 91773.7, 268.5],
+  [1767284100, 91773.7, 91907.35, 91555.11, 91680.78, 164.3],
+  [1767285000, 91680.78, 91982.78, 91663.77, 91946.9, 319.9],
+  [1767285900, 91946.9, 92529.44, 91942.44, 92437.18, 67.9],
+  [1767286800, 92437.18, 92923.55, 92377.51, 92832.43, 83],
+  [1767287700, 92832.43, 93200.79, 92814.37, 93173.19, 229.6],
+  [1767288600, 93173.19, 93195.2, 92939.62, 93193.84, 262],
+  [1767289500, 93193.84, 93661.79, 93134.2, 93542.31, 258],
+  [1767290400, 93542.31, 93691.53, 93318.27, 93430.07, 217.5],
+  [1767291300, 93430.07, 93488.61, 93366.06, 93472.12, 382.9],
+  [1767292200, 93472.12, 93631.62, 93375.52, 93594.16, 162.1],
+  [1767293100, 93594.16, 93674.74, 93246.69, 93349.21, 164.8],
+  [1767294000, 93349.21, 93938.58, 93268.86, 93837.61, 162.5],
+  [1767294900, 93837.61, 93917.32, 93802.74, 93840.99, 57.2],
+  [1767295800, 93840.99, 94318.13, 93734.28, 94270.74, 283.5],
+  [1767296700, 94270.74, 94915.17, 94204.22, 94662.77, 283.4],
+  [1767297600, 94662.77, 94694.58, 94276.56, 94450.84, 54.8],
+  [1767298500, 94450.84, 94829.06, 94437.29, 94788.19, 392.8],
+  [1767299400, 94788.19, 94880.17, 94496.99, 94708.87, 262],
+  [1767300300, 94708.87, 94871.19, 94681.24, 94744.64, 47.3],
+  [1767301200, 94744.64, 95491.08, 94715.82, 95403.11, 376.8],
+  [1767302100, 95403.11, 95454.03, 94945.55, 95138.2, 64.8],
+  [1767303000, 95138.2, 95241.82, 94518.77, 94665.71, 203],
+  [1767303900, 94665.71, 95071.29, 94426.14, 94984.4, 248.9],
+  [1767304800, 94984.4, 95100.63, 94862.85, 95006.66, 350.4],
+  [1767305700, 95006.66, 95080.55, 94190.38, 94482.63, 367.5],
+  [1767306600, 94482.63, 94488.13, 94365.48, 94413.8, 338.7],
+  [1767307500, 94413.8, 94605.74, 94365.9, 94535.99, 311.5],
+  [1767308400, 94535.99, 94536.08, 94043.01, 94131.23, 201.4],
+  [1767309300, 94131.23, 94191.92, 94096.75, 94138.43, 64.4],
+  [1767310200, 94138.43, 94371.51, 93999.54, 94242.16, 142.6],
+  [1767311100, 94242.16, 94326.3, 94196.79, 94268.78, 136.5],
+  [1767312000, 94268.78, 94386.99, 94217.28, 94238.9, 155.8],
+  [1767312900, 94238.9, 94919.15, 94215.14, 94728.46, 70.1],
+  [1767313800, 94728.46, 94803.45, 94349.35, 94461.33, 344.7],
+  [1767314700, 94461.33, 94582, 94438.08, 94552.94, 53.9],
+  [1767315600, 94552.94, 94575.82, 94308.99, 94539.56, 304.2],
+  [1767316500, 94539.56, 94673.5, 94330.92, 94357.55, 162.4],
+  [1767317400, 94357.55, 94410.87, 94330.25, 94347.77, 329.3],
+  [1767318300, 94347.77, 94411.54, 94308.83, 94381.83, 125.7],
+  [1767319200, 94381.83, 94385.87, 94183.83, 94312.75, 42.2],
+  [1767320100, 94312.75, 94329.34, 93918.52, 94056.43, 177.1],
+  [1767321000, 94056.43, 94517.66, 93890.09, 94317.19, 367.6],
+  [1767321900, 94317.19, 94359.58, 93735.01, 93957.61, 394.2],
+  [1767322800, 93957.61, 94798.91, 93930.61, 94725.2, 355],
+  [1767323700, 94725.2, 94774.05, 94157.99, 94385.72, 189.1],
+  [1767324600, 94385.72, 94506.62, 94026.06, 94176.74, 146.7],
+  [1767325500, 94176.74, 94230.66, 94039.08, 94168, 328.6],
+  [1767326400, 94168, 94308.49, 93995.75, 94220.04, 310.3],
+  [1767327300, 94220.04, 94315.18, 93891.81, 94068.75, 164.3],
+  [1767328200, 94068.75, 94391.09, 93998.27, 94381.89, 196.4],
+  [1767329100, 94381.89, 94387.5, 94243.22, 94291.29, 242.4],
+  [1767330000, 94291.29, 94772.08, 94248.4, 94704.87, 283.9],
+  [1767330900, 94704.87, 94987.3, 94587.55, 94857.2, 187.7],
+  [1767331800, 94857.2, 95027.66, 94632.66, 95019.16, 247.2],
+  [1767332700, 95019.16, 95535.87, 94966.44, 95431.36, 242],
+  [1767333600, 95431.36, 95517.27, 95074.56, 95163.09, 110.8],
+  [1767334500, 95163.09, 95685.9, 94935.75, 95655.35, 115.3],
+  [1767335400, 95655.35, 95848.43, 95514.24, 95764.44, 170.9],
+  [1767336300, 95764.44, 95773.39, 95619.84, 95700.43, 59.9],
+  [1767337200, 95700.43, 95998.76, 95568.05, 95832.02, 386.6],
+  [1767338100, 95832.02, 95854.68, 95319.8, 95424.72, 294.9],
+  [1767339000, 95424.72, 95448.86, 95104.96, 95310.11, 59.1],
+  [1767339900, 95310.11, 95367.04, 95022.93, 95117.24, 152.2],
+  [1767340800, 95117.24, 95656.48, 95112.72, 95645.58, 389.1],
+  [1767341700, 95645.58, 96397.27, 95637.49, 96356.63, 244.8],
+  [1767342600, 96356.63, 96420.4, 96054.47, 96149.08, 179.7],
+  [1767343500, 96149.08, 96188.21, 96022.09, 96117.6, 399.4],
+  [1767344400, 96117.6, 96181.94, 95923.88, 95925.85, 210],
+  [1767345300, 95925.85, 96350.03, 95925.61, 96063.74, 393.9],
+  [1767346200, 96063.74, 96129.75, 95900.13, 95958.04, 288.8],
+  [1767347100, 95958.04, 95980.51, 95337.5, 95414.7, 390.7],
+  [1767348000, 95414.7, 95918.07, 95275.5, 95761.73, 253.3],
+  [1767348900, 95761.73, 95908.23, 95646.19, 95672.21, 229.6],
+  [1767349800, 95672.21, 95705.76, 94848.08, 94946.67, 81.8],
+  [1767350700, 94946.67, 95006.13, 94697.6, 94712.95, 105.8],
+  [1767351600, 94712.95, 94719.01, 94391.41, 94403.63, 46.7],
+  [1767352500, 94403.63, 94639.4, 94311.97, 94637.89, 284.1],
+  [1767353400, 94637.89, 94784.3, 94521.66, 94784.07, 195.5],
+  [1767354300, 94784.07, 94844.84, 94043.53, 94222.33, 332.7],
+  [1767355200, 94222.33, 94452.73, 94059.03, 94287.45, 304.5],
+  [1767356100, 94287.45, 94456.44, 93967.85, 94102.35, 288.9],
+  [1767357000, 94102.35, 94154.3, 93806.55, 93860.57, 224.9],
+  [1767357900, 93860.57, 94196.76, 93813.31, 93993.13, 144.7],
+  [1767358800, 93993.13, 94510.98, 93843.04, 94408.61, 150.8],
+  [1767359700, 94408.61, 94538.3, 94275.03, 94420.84, 314.2],
+  [1767360600, 94420.84, 94904.23, 94366.33, 94845.31, 272.9],
+  [1767361500, 94845.31, 95116.69, 94736.98, 95039.94, 196.1],
+  [1767362400, 95039.94, 95233.12, 95016.41, 95165.21, 160],
+  [1767363300, 95165.21, 95189.63, 95029.18, 95032.74, 62.1],
+  [1767364200, 95032.74, 95075.36, 94896.98, 95033.65, 229.2],
+  [1767365100, 95033.65, 95237.9, 94950.61, 95172, 352.5],
+  [1767366000, 95172, 95249.88, 94499.26, 94641.93, 161],
+  [1767366900, 94641.93, 94821.73, 94562.06, 94634.96, 341.1],
+  [1767367800, 94634.96, 94871.24, 94568.89, 94841.5, 158.1],
+  [1767368700, 94841.5, 95157.83, 94778.12, 95133.74, 374.9],
+  [1767369600, 95133.74, 95365.65, 94984.83, 95347.58, 170.1],
+  [1767370500, 95347.58, 95473.48, 94848.08, 94871.65, 242.6],
+  [1767371400, 94871.65, 95077.48, 94806.54, 95072.69, 340.2],
+  [1767372300, 95072.69, 95098.56, 94877.66, 95043.54, 93.1],
+  [1767373200, 95043.54, 95091.42, 94689.59, 94770.01, 154.9],
+  [1767374100, 94770.01, 94983.07, 94702.82, 94858.77, 40.5],
+  [1767375000, 94858.77, 94928.64, 94771.11, 94836.93, 216.3],
+  [1767375900, 94836.93, 94916.48, 94726.8, 94746.14, 324.8],
+  [1767376800, 94746.14, 94759.1, 94298.95, 94328.05, 397.5],
+  [1767377700, 94328.05, 94484.18, 93942.78, 93975.57, 117.2],
+  [1767378600, 93975.57, 94187.52, 93951.9, 94121.08, 331.4],
+  [1767379500, 94121.08, 94218.7, 93500.91, 93557.66, 66.3],
+  [1767380400, 93557.66, 93638.34, 93303.55, 93442.97, 165.9],
+  [1767381300, 93442.97, 93626.41, 93306.99, 93448.41, 388.3],
+  [1767382200, 93448.41, 93626.85, 93255.55, 93347.25, 215.3],
+  [1767383100, 93347.25, 93481.48, 93096.23, 93436.92, 311.6],
+  [1767384000, 93436.92, 93714.43, 93362.23, 93575.44, 389.6],
+  [1767384900, 93575.44, 93866.62, 93533.87, 93745.33, 210.9],
+  [1767385800, 93745.33, 93941.13, 93690.05, 93874.21, 343.6],
+  [1767386700, 93874.21, 94087.89, 93618.58, 93639.04, 57.1],
+  [1767387600, 93639.04, 94550.69, 93553.77, 94374.83, 395.6],
+  [1767388500, 94374.83, 94403.33, 94094.85, 94202.43, 280],
+  [1767389400, 94202.43, 94225.29, 93615.86, 93656.08, 88.6],
+  [1767390300, 93656.08, 94104.14, 93438.24, 93978.33, 235.8],
+  [1767391200, 93978.33, 94012.1, 93751.71, 93868.8, 390.5],
+  [1767392100, 93868.8, 94059.68, 93815.19, 94028.86, 74.8],
+  [1767393000, 94028.86, 94572, 93955.91, 94424.5, 257.1],
+  [1767393900, 94424.5, 95062.83, 94291.8, 94880.61, 102.5],
+  [1767394800, 94880.61, 95033.45, 94712.8, 94733.78, 45.7],
+  [1767395700, 94733.78, 94826.81, 94569.96, 94631.26, 279],
+  [1767396600, 94631.26, 95091.61, 94630.87, 94832.22, 351.4],
+  [1767397500, 94832.22, 94953.59, 94554.72, 94660.69, 162.7],
+  [1767398400, 94660.69, 95084.45, 94636.69, 95064.06, 49.5],
+  [1767399300, 95064.06, 95117.24, 94589.42, 94632.51, 383.1],
+  [1767400200, 94632.51, 94825.39, 94372.36, 94463.23, 70.1],
+  [1767401100, 94463.23, 94637.43, 94264.38, 94575.97, 352.6],
+  [1767402000, 94575.97, 94828.62, 94397.69, 94428.16, 269.5],
+  [1767402900, 94428.16, 94470.96, 93978.11, 94037.49, 112.5],
+  [1767403800, 94037.49, 94353.96, 94016.28, 94330.34, 78.6],
+  [1767404700, 94330.34, 94435.33, 93885.09, 94064.53, 256.8],
+  [1767405600, 94064.53, 94565.95, 93948.37, 94461.76, 381.4],
+  [1767406500, 94461.76, 94781.34, 93870.44, 93938.37, 396.3],
+  [1767407400, 93938.37, 94467.84, 93787.69, 94312.01, 75.5],
+  [1767408300, 94312.01, 94622.78, 94268.14, 94582.35, 70.3],
+  [1767409200, 94582.35, 95148.47, 94548.96, 95109.18, 137.6],
+  [1767410100, 95109.18, 95198.65, 94659.43, 94681.42, 155.1],
+  [1767411000, 94681.42, 94695.53, 94312.36, 94381.83, 393.5],
+  [1767411900, 94381.83, 94744.94, 94314.71, 94621.7, 220.3],
+  [1767412800, 94621.7, 94648.72, 93610.05, 93845.12, 158.2],
+  [1767413700, 93845.12, 93896.17, 93318.29, 93583.75, 202.7],
+  [1767414600, 93583.75, 93908.66, 93495.93, 93697.68, 141.2],
+  [1767415500, 93697.68, 93892.83, 93472.81, 93844.13, 389.4],
+  [1767416400, 93844.13, 94090.16, 93785.65, 93991.24, 140],
+  [1767417300, 93991.24, 94131.99, 93987.15, 94063.72, 77.7],
+  [1767418200, 94063.72, 94095.65, 93966.4, 94012.65, 161.2],
+  [1767419100, 94012.65, 94370.51, 93944.02, 94181.72, 212.9],
+  [1767420000, 94181.72, 94251.61, 93887.03, 93900.31, 287.7],
+  [1767420900, 93900.31, 93951.32, 93421.76, 93585.43, 279.9],
+  [1767421800, 93585.43, 93686.12, 93517.14, 93588.16, 107.3],
+  [1767422700, 93588.16, 94020.24, 93441.33, 94004.05, 267.2],
+  [1767423600, 94004.05, 94566.35, 93895.04, 94528.07, 257.6],
+  [1767424500, 94528.07, 94674.57, 94434.99, 94617.8, 351.5],
+  [1767425400, 94617.8, 94729.55, 94319.39, 94320.39, 42.7],
+  [1767426300, 94320.39, 94582.83, 94136.19, 94539.55, 106.3],
+  [1767427200, 94539.55, 94611.05, 94346.16, 94375.77, 174.3],
+  [1767428100, 94375.77, 94592.72, 94263.05, 94578.05, 148],
+  [1767429000, 94578.05, 95087.89, 94471.36, 94866.55, 166.1],
+  [1767429900, 94866.55, 94894.65, 94344.28, 94439.51, 314.2],
+  [1767430800, 94439.51, 94463.61, 93952.72, 94026.19, 149.1],
+  [1767431700, 94026.19, 94140.88, 93687.16, 93840.47, 249.1],
+  [1767432600, 93840.47, 93989.15, 93328.18, 93376.9, 298.8],
+  [1767433500, 93376.9, 93482.61, 93012.5, 93127.51, 127.3],
+  [1767434400, 93127.51, 93147.81, 92876, 93044.72, 388.4],
+  [1767435300, 93044.72, 93509.35, 92890.81, 93442.46, 158.6],
+  [1767436200, 93442.46, 93588.74, 93412.59, 93435.41, 171.8],
+  [1767437100, 93435.41, 93448.38, 93306.47, 93393.22, 63.8],
+  [1767438000, 93393.22, 93450.3, 92868.98, 93008.41, 232.8],
+  [1767438900, 93008.41, 93186.98, 92548.04, 92640.3, 46.8],
+  [1767439800, 92640.3, 92834.38, 92389.08, 92479.16, 190.8],
+  [1767440700, 92479.16, 92717.3, 91990.46, 92270.59, 273.3],
+  [1767441600, 92270.59, 92453.41, 91952.45, 92251.44, 167.1],
+  [1767442500, 92251.44, 93098.05, 92166.7, 93020.5, 385.6],
+  [1767443400, 93020.5, 93267.04, 92823, 93237.58, 181.5],
+  [1767444300, 93237.58, 93394.94, 93126.68, 93375.43, 279.7],
+  [1767445200, 93375.43, 93442.76, 93368.96, 93420.47, 332],
+  [1767446100, 93420.47, 93539.06, 93333.6, 93490.54, 299.1],
+  [1767447000, 93490.54, 93830.43, 93376.9, 93672.03, 198.5],
+  [1767447900, 93672.03, 93707.88, 93302.4, 93347.68, 251.9],
+  [1767448800, 93347.68, 93353.87, 93145.54, 93168.13, 265.1],
+  [1767449700, 93168.13, 93221.82, 92946.89, 93061.13, 160.7],
+  [1767450600, 93061.13, 93565.43, 92839.2, 93470.98, 229.3],
+  [1767451500, 93470.98, 93747.31, 93362.58, 93509.96, 133.5],
+  [1767452400, 93509.96, 93739.14, 93374.57, 93723.03, 101.4],
+  [1767453300, 93723.03, 93928.54, 93698.23, 93908.23, 186.1],
+  [1767454200, 93908.23, 93979.67, 93601.37, 93606.75, 69.1],
+  [1767455100, 93606.75, 93723.63, 93474.45, 93672.06, 104.2],
+  [1767456000, 93672.06, 93768.17, 93384.83, 93495.54, 58],
+  [1767456900, 93495.54, 93618.01, 93386.64, 93437.6, 339.5],
+  [1767457800, 93437.6, 93562.59, 92674.24, 92860.99, 171.1],
+  [1767458700, 92860.99, 92966.67, 92689.45, 92826.22, 358.2],
+  [1767459600, 92826.22, 92864.33, 92500.02, 92519.18, 353.7],
+  [1767460500, 92519.18, 92636.31, 92508.68, 92628.12, 263.3],
+  [1767461400, 92628.12, 92846.45, 92565.37, 92730.12, 64.2],
+  [1767462300, 92730.12, 92742.54, 92554.75, 92663.37, 66.3],
+  [1767463200, 92663.37, 92929.82, 92586.53, 92921.6, 190.5],
+  [1767464100, 92921.6, 93066.32, 92795.29, 92942.42, 315.5],
+  [1767465000, 92942.42, 93178.34, 92921.47, 93032.1, 310.2],
+  [1767465900, 93032.1, 93107.31, 92874.4, 92976.62, 223.8],
+  [1767466800, 92976.62, 93349.3, 92713.01, 93253.91, 185.3],
+  [1767467700, 93253.91, 93286.4, 93096.19, 93269.61, 313],
+  [1767468600, 93269.61, 93519.57, 93229.47, 93499.63, 231.2],
+  [1767469500, 93499.63, 93517.05, 93115.62, 93286.5, 219.4],
+  [1767470400, 93286.5, 93556.75, 92890.88, 92984.27, 173.6],
+  [1767471300, 92984.27, 93275.93, 92962.33, 93221.33, 233.4],
+  [1767472200, 93221.33, 93257.77, 92791.12, 92887.66, 276.3],
+  [1767473100, 92887.66, 93067.25, 92799.34, 92900.99, 126.3],
+  [1767474000, 92900.99, 92944.67, 92534.6, 92622.14, 184.1],
+  [1767474900, 92622.14, 92667.37, 91901.94, 91942, 102.7],
+  [1767475800, 91942, 92015.59, 91710.86, 91791.95, 229],
+  [1767476700, 91791.95, 91898.74, 91723.4, 91897.33, 88.6],
+  [1767477600, 91897.33, 91912.24, 91480.94, 91752.46, 107.3],
+  [1767478500, 91752.46, 91782.31, 91166.18, 91316.5, 342.4],
+  [1767479400, 91316.5, 91991.31, 91229.82, 91813.28, 199.4],
+  [1767480300, 91813.28, 91954.19, 91781.55, 91903.56, 239.2],
+  [1767481200, 91903.56, 92407.98, 91867.93, 92315.8, 274.7],
+  [1767482100, 92315.8, 92469.45, 92088.66, 92134.89, 41],
+  [1767483000, 92134.89, 92636.69, 92042.84, 92584.46, 349],
+  [1767483900, 92584.46, 92646.48, 92439.85, 92534.12, 355.1],
+  [1767484800, 92534.12, 92782.43, 92438.04, 92736.79, 166.5],
+  [1767485700, 92736.79, 92779.35, 92113.22, 92224.97, 73.9],
+  [1767486600, 92224.97, 92285.25, 91874.51, 91878.38, 98.4],
+  [1767487500, 91878.38, 91889.54, 91573.6, 91730.77, 70.5],
+  [1767488400, 91730.77, 91889.07, 91273.31, 91367.81, 148.7],
+  [1767489300, 91367.81, 91696.3, 91235.28, 91633.46, 238.7],
+  [1767490200, 91633.46, 91691.59, 91427.97, 91469.19, 235.5],
+  [1767491100, 91469.19, 91516.63, 91212.13, 91455.42, 71.8],
+  [1767492000, 91455.42, 91578.72, 91236.78, 91433.84, 389.3],
+  [1767492900, 91433.84, 91612.29, 91348.42, 91488.54, 344.1],
+  [1767493800, 91488.54, 91606.68, 91369.97, 91433.12, 189.3],
+  [1767494700, 91433.12, 91824.02, 91424.82, 91709.16, 202.4],
+  [1767495600, 91709.16, 92244.93, 91630.54, 92204.23, 209],
+  [1767496500, 92204.23, 92498.99, 92174.12, 92437.98, 255.3],
+  [1767497400, 92437.98, 93148.84, 92308.09, 93141.01, 60],
+  [1767498300, 93141.01, 94009.1, 92943.43, 93950.24, 125.2],
+  [1767499200, 93950.24, 94075.29, 93888.07, 93901.01, 398.7],
+  [1767500100, 93901.01, 94433.63, 93811.61, 94335.37, 263],
+  [1767501000, 94335.37, 94662.98, 94317.4, 94553.64, 339.9],
+  [1767501900, 94553.64, 95008.23, 94317.29, 94900.99, 82],
+  [1767502800, 94900.99, 94926.02, 94550.27, 94579.97, 348.3],
+  [1767503700, 94579.97, 95036.99, 94430.18, 94972.71, 80.9],
+  [1767504600, 94972.71, 95285.54, 94774.89, 95149.32, 148.5],
+  [1767505500, 95149.32, 95310.19, 95049.66, 95263.91, 197.1],
+  [1767506400, 95263.91, 95570.46, 95236.89, 95440.95, 104.4],
+  [1767507300, 95440.95, 95732.54, 95075.07, 95084.52, 264.8],
+  [1767508200, 95084.52, 95131.42, 94975.87, 95113.84, 132],
+  [1767509100, 95113.84, 95270.63, 94548.24, 94691.88, 255.8],
+  [1767510000, 94691.88, 95125.49, 94463.78, 95056.61, 307.5],
+  [1767510900, 95056.61, 95137.89, 94796.39, 94892.88, 112.2],
+  [1767511800, 94892.88, 94984.27, 94810.51, 94821.43, 249.4],
+  [1767512700, 94821.43, 95129.04, 94807.06, 94997.69, 358],
+  [1767513600, 94997.69, 95011.45, 94936.59, 94968.5, 101.2],
+  [1767514500, 94968.5, 95451.32, 94752.39, 95268.09, 267.3],
+  [1767515400, 95268.09, 95271.8, 94979.3, 95198.7, 77.1],
+  [1767516300, 95198.7, 95445.71, 95042.46, 95054.59, 303.2],
+  [1767517200, 95054.59, 95078.2, 94487.6, 94491.75, 52.4],
+  [1767518100, 94491.75, 94576.12, 94135.35, 94214.44, 144.5],
+  [1767519000, 94214.44, 94259.17, 94103.33, 94177.92, 217.1],
+  [1767519900, 94177.92, 94652.57, 94110.85, 94646.11, 212.3],
+  [1767520800, 94646.11, 94802.28, 94305.78, 94596.36, 152.7],
+  [1767521700, 94596.36, 94810.55, 94530.8, 94710.6, 75.6],
+  [1767522600, 94710.6, 95564.57, 94691.3, 95526.01, 198],
+  [1767523500, 95526.01, 96033.62, 95436.72, 96002.37, 75.2],
+  [1767524400, 96002.37, 96002.82, 95830.91, 95905.48, 325],
+  [1767525300, 95905.48, 96140.71, 95778.17, 96040.2, 41.6],
+  [1767526200, 96040.2, 96311.3, 95915.64, 96170.7, 258.3],
+  [1767527100, 96170.7, 96222.31, 95911.16, 95947.99, 279.1],
+  [1767528000, 95947.99, 96012.45, 95846.43, 95931.77, 113.9],
+  [1767528900, 95931.77, 96023.93, 95412.75, 95471.8, 70.1],
+  [1767529800, 95471.8, 95621.86, 95223.94, 95367.84, 321.5],
+  [1767530700, 95367.84, 95477.3, 95269.37, 95305.52, 111.8],
+  [1767531600, 95305.52, 95445.53, 94948.91, 95086.54, 156.2],
+  [1767532500, 95086.54, 95617.76, 94955.25, 95552.26, 291.2],
+  [1767533400, 95552.26, 95886.4, 95503.94, 95745.32, 360.9],
+  [1767534300, 95745.32, 95970.16, 95603.82, 95692.03, 118.4],
+  [1767535200, 95692.03, 95692.81, 95288.67, 95527.5, 44.1],
+  [1767536100, 95527.5, 96046.91, 95454.43, 95938.66, 89.1],
+  [1767537000, 95938.66, 96413.77, 95829.48, 96267.59, 86.3],
+  [1767537900, 96267.59, 96374.71, 96253.7, 96280.44, 159.3],
+  [1767538800, 96280.44, 96403.44, 96238.7, 96402.71, 99],
+  [1767539700, 96402.71, 96521.08, 96050.33, 96088.84, 373],
+  [1767540600, 96088.84, 96391.57, 95949.24, 96239.8, 320.3],
+  [1767541500, 96239.8, 96348.7, 95919.43, 95967.57, 316.8],
+  [1767542400, 95967.57, 96203.2, 95799.87, 96140.29, 281],
+  [1767543300, 96140.29, 96217.73, 95849.77, 95912.48, 358],
+  [1767544200, 95912.48, 95972.44, 95603.84, 95689.5, 384.6],
+  [1767545100, 95689.5, 95993.98, 95579.9, 95797.63, 179.2],
+  [1767546000, 95797.63, 95943.16, 95776.13, 95852.78, 276.2],
+  [1767546900, 95852.78, 96368.54, 95795.3, 96213.71, 52.1],
+  [1767547800, 96213.71, 96549.57, 96114.61, 96442.8, 66.2],
+  [1767548700, 96442.8, 96658.14, 96064.6, 96220.81, 61.6],
+  [1767549600, 96220.81, 96524.2, 96212.01, 96460.96, 267.2],
+  [1767550500, 96460.96, 96562.15, 96236.05, 96407.29, 300.9],
+  [1767551400, 96407.29, 96953.64, 96245.24, 96900.5, 185.3],
+  [1767552300, 96900.5, 97113.81, 96862.56, 96976.54, 143],
+  [1767553200, 96976.54, 97238.55, 96888.03, 97179.87, 95.6],
+  [1767554100, 97179.87, 97185.89, 96989.75, 97051.61, 149.5],
+  [1767555000, 97051.61, 97226.6, 97005.87, 97210.59, 120.2],
+  [1767555900, 97210.59, 97285.45, 97111.67, 97224.13, 245.8],
+  [1767556800, 97224.13, 97308.64, 96645.59, 96839.89, 168.2],
+  [1767557700, 96839.89, 97097.24, 96720.74, 96954.49, 70.7],
+  [1767558600, 96954.49, 97071.55, 96530.01, 96751.92, 374],
+  [1767559500, 96751.92, 97246.48, 96685.71, 97132.94, 342.3],
+  [1767560400, 97132.94, 97180.82, 97005.03, 97167.35, 270.6],
+  [1767561300, 97167.35, 97439.14, 96410.3, 96766.28, 183.4],
+  [1767562200, 96766.28, 97359.06, 96731.18, 97174.57, 396.8],
+  [1767563100, 97174.57, 97245.1, 96883.57, 97031.77, 307.5],
+  [1767564000, 97031.77, 97195.07, 96970.1, 97088.32, 45.1],
+  [1767564900, 97088.32, 97323.94, 97055.96, 97151.26, 315.9],
+  [1767565800, 97151.26, 97191.28, 96472.61, 96608.47, 362.3],
+  [1767566700, 96608.47, 96688.26, 96233.18, 96266.59, 159.4],
+  [1767567600, 96266.59, 96714.09, 96177.15, 96643.74, 202.5],
+  [1767568500, 96643.74, 97204.96, 96528.57, 96915.43, 245.8],
+  [1767569400, 96915.43, 97407.13, 96858.57, 97202.35, 257.4],
+  [1767570300, 97202.35, 97638.67, 96969.41, 97568.28, 290.3],
+  [1767571200, 97568.28, 97982.35, 97470.22, 97939.88, 189.6],
+  [1767572100, 97939.88, 97987.16, 97833.78, 97910.49, 196],
+  [1767573000, 97910.49, 98000.14, 97696.44, 97718.23, 189],
+  [1767573900, 97718.23, 98111.53, 97663.9, 98094.19, 358.2],
+  [1767574800, 98094.19, 98268.56, 97870.29, 97892.84, 87.3],
+  [1767575700, 97892.84, 97903.68, 97861.42, 97879.63, 231.7],
+  [1767576600, 97879.63, 97927.78, 97491.4, 97618.68, 65.7],
+  [1767577500, 97618.68, 97796.65, 97499.56, 97697.68, 336],
+  [1767578400, 97697.68, 98028.96, 97608.9, 97976.22, 149.5],
+  [1767579300, 97976.22, 98012.57, 96882.15, 97091.17, 270.2],
+  [1767580200, 97091.17, 97121.75, 96577.12, 96613.78, 194.4],
+  [1767581100, 96613.78, 96755.09, 96443.78, 96709.54, 293.8],
+  [1767582000, 96709.54, 97368.75, 96538.57, 97330.14, 363.4],
+  [1767582900, 97330.14, 97739.82, 97226.15, 97731.27, 238.8],
+  [1767583800, 97731.27, 97824.34, 97366.04, 97547.48, 253.3],
+  [1767584700, 97547.48, 97649.63, 97262.22, 97465.34, 77.3],
+];
+
+const ETHUSDT: KlineTuple[] = [
+  [1767225600, 3300, 3302.31, 3286.62, 3288.59, 1350.9],
+  [1767226500, 3288.59, 3296.42, 3288.31, 3291.67, 2768],
+  [1767227400, 3291.67, 3303.57, 3289.18, 3297.48, 1580.8],
+  [1767228300, 3297.48, 3327.27, 3292.74, 3326.22, 883.9],
+  [1767229200, 3326.22, 3328.55, 3322.57, 3328.52, 5157.1],
+  [1767230100, 3328.52, 3328.6, 3305.85, 3313.58, 3568.4],
+  [1767231000, 3313.58, 3342.86, 3313.24, 3339.11, 3531.9],
+  [1767231900, 3339.11, 3339.84, 3331.44, 3333.54, 2679.9],
+  [1767232800, 3333.54, 3346.54, 3333.45, 3339.82, 1586],
+  [1767233700, 3339.82, 3342.96, 3317.48, 3320.86, 3099.2],
+  [1767234600, 3320.86, 3324.73, 3302.23, 3304.09, 3059.1],
+  [1767235500, 3304.09, 3331.18, 3298.38, 3325.84, 1012.4],
+  [1767236400, 3325.84, 3328.89, 3323.44, 3325.69, 5597.2],
+  [1767237300, 3325.69, 3329.71, 3321.68, 3324.13, 2950.5],
+  [1767238200, 3324.13, 3330.43, 3308.53, 3318.3, 2469.9],
+  [1767239100, 3318.3, 3321.33, 3289.98, 3293.03, 2472.9],
+  [1767240000, 3293.03, 3298.07, 3257.99, 3259.68, 5548.8],
+  [1767240900, 3259.68, 3278.37, 3255.81, 3277.77, 5945.8],
+  [1767241800, 3277.77, 3279.8, 3277.38, 3277.99, 3060.6],
+  [1767242700, 3277.99, 3278.3, 3274.62, 3276.92, 3439.1],
+  [1767243600, 3276.92, 3277.36, 3255.12, 3259.57, 1841.8],
+  [1767244500, 3259.57, 3260.36, 3241.94, 3244.77, 4240.1],
+  [1767245400, 3244.77, 3263.96, 3243.02, 3257.99, 2540.5],
+  [1767246300, 3257.99, 3263.57, 3253.41, 3257.96, 4169.1],
+  [1767247200, 3257.96, 3265.42, 3251.71, 3264.61, 2043.2],
+  [1767248100, 3264.61, 3278.71, 3264.44, 3272.39, 1890.6],
+  [1767249000, 3272.39, 3274.92, 3252.08, 3257.36, 1758.3],
+  [1767249900, 3257.36, 3264.57, 3235.4, 3238.81, 1962],
+  [1767250800, 3238.81, 3239.67, 3231.6, 3234.66, 5630.9],
+  [1767251700, 3234.66, 3241.7, 3216.86, 3219.45, 4755.7],
+  [1767252600, 3219.45, 3236.05, 3217.86, 3232.68, 2575.4],
+  [1767253500, 3232.68, 3233.2, 3230.2, 3232.8, 5292.5],
+  [1767254400, 3232.8, 3236.31, 3214.8, 3215.33, 4039.8],
+  [1767255300, 3215.33, 3216.91, 3209.57, 3215.45, 1625.4],
+  [1767256200, 3215.45, 3222.31, 3202.8, 3203.51, 2815.4],
+  [1767257100, 3203.51, 3215.57, 3197.34, 3213.52, 4906.9],
+  [1767258000, 3213.52, 3217.09, 3197.19, 3200.05, 2871.5],
+  [1767258900, 3200.05, 3210.61, 3196.17, 3210.04, 5964.2],
+  [1767259800, 3210.04, 3213.88, 3204.68, 3207.69, 5665.6],
+  [1767260700, 3207.69, 3210.87, 3193.73, 3199.81, 1685.1],
+  [1767261600, 3199.81, 3208.03, 3197.8, 3204.42, 958.9],
+  [1767262500, 3204.42, 3211.59, 3202.29, 3203.02, 1980.9],
+  [1767263400, 3203.02, 3203.61, 3196.6, 3197.87, 5059.3],
+  [1767264300, 3197.87, 3207.81, 3194.59, 3205.57, 838.1],
+  [1767265200, 3205.57, 3235.67, 3204.16, 3233.78, 3328],
+  [1767266100, 3233.78, 3249.54, 3231.48, 3246, 5577.9],
+  [1767267000, 3246, 3251.14, 3224.94, 3226.78, 1349.4],
+  [1767267900, 3226.78, 3227.64, 3207.51, 3209.72, 4905.4],
+  [1767268800, 3209.72, 3237.79, 3208.86, 3234.42, 2445.1],
+  [1767269700, 3234.42, 3237.04, 3217.07, 3218.89, 2218.4],
+  [1767270600, 3218.89, 3249.39, 3213.48, 3244.14, 4882.4],
+  [1767271500, 3244.14, 3247.63, 3237.24, 3243.3, 5904.9],
+  [1767272400, 3243.3, 3246.6, 3243.15, 3244.4, 1453.6],
+  [1767273300, 3244.4, 3251.11, 3231.24, 3233.41, 2911.2],
+  [1767274200, 3233.41, 3235.8, 3221.99, 3229.49, 3534.6],
+  [1767275100, 3229.49, 3239.06, 3225.24, 3237.07, 979.3],
+  [1767276000, 3237.07, 3249.97, 3234.85, 3246.83, 894.4],
+  [1767276900, 3246.83, 3249.67, 3232.4, 3233.64, 1156.9],
+  [1767277800, 3233.64, 3247.6, 3230.62, 3245.82, 857.7],
+  [1767278700, 3245.82, 3246.31, 3228.21, 3229.62, 1199.3],
+  [1767279600, 3229.62, 3234.19, 3223.78, 3226.09, 3481.1],
+  [1767280500, 3226.09, 3242.06, 3226.03, 3240.6, 5092.2],
+  [1767281400, 3240.6, 3242.65, 3228.14, 3235.3, 3559.4],
+  [1767282300, 3235.3, 3238.14, 3223.65, 3227.68, 5746.3],
+  [1767283200, 3227.68, 3229.08, 3207.89, 3211.15, 4958],
+  [1767284100, 3211.15, 3213.38, 3201.28, 3203.69, 2344.2],
+  [1767285000, 3203.69, 3224.33, 3201.96, 3222.54, 4941.1],
+  [1767285900, 3222.54, 3249.1, 3221.21, 3248.37, 1027.5],
+  [1767286800, 3248.37, 3266.89, 3245.92, 3264.18, 5490.6],
+  [1767287700, 3264.18, 3269.07, 3258.59, 3267.72, 1784],
+  [1767288600, 3267.72, 3275.19, 3266.81, 3272.25, 1705.3],
+  [1767289500, 3272.25, 3288.34, 3271.73, 3287.75, 1488.3],
+  [1767290400, 3287.75, 3293.98, 3279.95, 3282.2, 5232.3],
+  [1767291300, 3282.2, 3284.17, 3279.92, 3281.63, 5795.6],
+  [1767292200, 3281.63, 3290.63, 3277.43, 3287.55, 2754.1],
+  [1767293100, 3287.55, 3289.23, 3257.1, 3264.83, 5316],
+  [1767294000, 3264.83, 3290.24, 3263.5, 3290.09, 4151.1],
+  [1767294900, 3290.09, 3292.69, 3280.51, 3282.89, 5476.4],
+  [1767295800, 3282.89, 3304.31, 3280.89, 3300.79, 3872.9],
+  [1767296700, 3300.79, 3307.98, 3295.5, 3304.75, 1671.7],
+  [1767297600, 3304.75, 3311.61, 3292.17, 3297.36, 5476.4],
+  [1767298500, 3297.36, 3320.03, 3295.25, 3307.19, 4033],
+  [1767299400, 3307.19, 3310.32, 3305.56, 3308.32, 5222.7],
+  [1767300300, 3308.32, 3326.45, 3297.42, 3320.27, 1202.2],
+  [1767301200, 3320.27, 3344.97, 3319.44, 3344.54, 4891.5],
+  [1767302100, 3344.54, 3347.54, 3321.95, 3324.47, 1575.2],
+  [1767303000, 3324.47, 3332.46, 3303.81, 3306.7, 3965.5],
+  [1767303900, 3306.7, 3327.2, 3306.2, 3319.76, 4017.9],
+  [1767304800, 3319.76, 3319.95, 3317.66, 3319.63, 3539.3],
+  [1767305700, 3319.63, 3320.1, 3288.44, 3288.88, 2607.6],
+  [1767306600, 3288.88, 3289.49, 3269.59, 3272.71, 4230.8],
+  [1767307500, 3272.71, 3273.71, 3268.11, 3272.64, 1574],
+  [1767308400, 3272.64, 3273.64, 3254.24, 3256.47, 2400.8],
+  [1767309300, 3256.47, 3256.7, 3247.95, 3249.78, 1093.3],
+  [1767310200, 3249.78, 3260.69, 3247.07, 3257.36, 4001.7],
+  [1767311100, 3257.36, 3265.83, 3254.24, 3264.67, 2868.4],
+  [1767312000, 3264.67, 3280.13, 3260.21, 3272.35, 2742.1],
+  [1767312900, 3272.35, 3308.98, 3269.6, 3306.4, 2670.9],
+  [1767313800, 3306.4, 3307.26, 3285.72, 3293.44, 4489.5],
+  [1767314700, 3293.44, 3306.15, 3288.85, 3303.3, 2475.3],
+  [1767315600, 3303.3, 3311.16, 3302.29, 3309.92, 4078.5],
+  [1767316500, 3309.92, 3316.43, 3302.4, 3305.1, 1061.1],
+  [1767317400, 3305.1, 3317.73, 3303.5, 3317.04, 2177.4],
+  [1767318300, 3317.04, 3325.95, 3312.47, 3321.82, 3737.6],
+  [1767319200, 3321.82, 3322.33, 3315.68, 3316.93, 4579.1],
+  [1767320100, 3316.93, 3320.55, 3306.62, 3312.08, 1869.3],
+  [1767321000, 3312.08, 3317.07, 3308.11, 3314.88, 3509.3],
+  [1767321900, 3314.88, 3320.17, 3302.02, 3309.63, 3212.2],
+  [1767322800, 3309.63, 3340.5, 3309.44, 3334.8, 2129.5],
+  [1767323700, 3334.8, 3335.97, 3321.98, 3324.82, 1435.6],
+  [1767324600, 3324.82, 3328.39, 3306.04, 3313.12, 1010.8],
+  [1767325500, 3313.12, 3314.53, 3306.94, 3308.47, 3971.9],
+  [1767326400, 3308.47, 3311.73, 3308.09, 3308.28, 4641.8],
+  [1767327300, 3308.28, 3311.04, 3302.9, 3303.27, 3428],
+  [1767328200, 3303.27, 3317.76, 3299.9, 3314.32, 4398.4],
+  [1767329100, 3314.32, 3316.37, 3314.1, 3314.25, 4322.5],
+  [1767330000, 3314.25, 3325.2, 3312.75, 3323.8, 3916.1],
+  [1767330900, 3323.8, 3336.87, 3322.54, 3329.29, 4554],
+  [1767331800, 3329.29, 3332.51, 3328.34, 3330.8, 5199.2],
+  [1767332700, 3330.8, 3338.66, 3328.7, 3336.88, 2210.8],
+  [1767333600, 3336.88, 3337.68, 3317.56, 3318.41, 5120.4],
+  [1767334500, 3318.41, 3353.48, 3318.1, 3343.39, 1425.5],
+  [1767335400, 3343.39, 3358.32, 3342.56, 3351.3, 1316.7],
+  [1767336300, 3351.3, 3357.47, 3347.26, 3350.32, 3777.6],
+  [1767337200, 3350.32, 3370.57, 3348.49, 3367.51, 856.7],
+  [1767338100, 3367.51, 3369.87, 3345.69, 3346.05, 1094.3],
+  [1767339000, 3346.05, 3354.7, 3339.09, 3351.5, 2047.2],
+  [1767339900, 3351.5, 3355.33, 3331.62, 3333.16, 1710.9],
+  [1767340800, 3333.16, 3359.81, 3329.75, 3358.42, 905],
+  [1767341700, 3358.42, 3406.87, 3357.74, 3404.84, 1588.4],
+  [1767342600, 3404.84, 3404.89, 3402.24, 3404.38, 5618],
+  [1767343500, 3404.38, 3413.1, 3398.87, 3408.58, 5237.8],
+  [1767344400, 3408.58, 3409.02, 3384.72, 3395.43, 3707.9],
+  [1767345300, 3395.43, 3396.36, 3394.98, 3395.7, 5052.5],
+  [1767346200, 3395.7, 3395.71, 3379.02, 3387.54, 1293.9],
+  [1767347100, 3387.54, 3391.82, 3359.78, 3360.98, 2532.9],
+  [1767348000, 3360.98, 3369.01, 3355.78, 3363.21, 4502.7],
+  [1767348900, 3363.21, 3365.82, 3351.14, 3359.72, 4080.1],
+  [1767349800, 3359.72, 3360.22, 3333.21, 3335.51, 5027.6],
+  [1767350700, 3335.51, 3337.73, 3331.1, 3333.27, 1793.8],
+  [1767351600, 3333.27, 3333.45, 3311.51, 3315.08, 4909.1],
+  [1767352500, 3315.08, 3328.46, 3303.57, 3325.11, 2671.3],
+  [1767353400, 3325.11, 3329.42, 3324.88, 3327.48, 5941.2],
+  [1767354300, 3327.48, 3328.55, 3292.2, 3294.45, 3626.1],
+  [1767355200, 3294.45, 3300.25, 3292.5, 3297.73, 3314.7],
+  [1767356100, 3297.73, 3305.14, 3273.63, 3277.47, 4051.3],
+  [1767357000, 3277.47, 3282.7, 3263.3, 3264.07, 5396.9],
+  [1767357900, 3264.07, 3266.18, 3263.16, 3265.58, 5141.9],
+  [1767358800, 3265.58, 3284.7, 3253.46, 3279.01, 5741.3],
+  [1767359700, 3279.01, 3287.81, 3271.59, 3285.22, 1676],
+  [1767360600, 3285.22, 3302.89, 3282.66, 3300.21, 5887.3],
+  [1767361500, 3300.21, 3312.58, 3295.76, 3311.06, 4142.5],
+  [1767362400, 3311.06, 3322.34, 3307.81, 3321.15, 3336.7],
+  [1767363300, 3321.15, 3323.9, 3303.18, 3305.95, 5998],
+  [1767364200, 3305.95, 3309.54, 3298.37, 3299.55, 4360.6],
+  [1767365100, 3299.55, 3310.03, 3290.71, 3308.89, 1540.9],
+  [1767366000, 3308.89, 3311.69, 3283.69, 3290.07, 5803.8],
+  [1767366900, 3290.07, 3291.33, 3280.81, 3288.58, 1413.9],
+  [1767367800, 3288.58, 3295.6, 3287.4, 3294.58, 1778.2],
+  [1767368700, 3294.58, 3307.37, 3294.43, 3306.4, 2161.8],
+  [1767369600, 3306.4, 3310.8, 3305.04, 3308.52, 1943.5],
+  [1767370500, 3308.52, 3313.22, 3281.9, 3285.83, 3372.9],
+  [1767371400, 3285.83, 3295.48, 3278.78, 3295.16, 3078.1],
+  [1767372300, 3295.16, 3295.19, 3289.87, 3292.35, 3642.8],
+  [1767373200, 3292.35, 3294.8, 3277.91, 3279.98, 2539.5],
+  [1767374100, 3279.98, 3280.76, 3277.35, 3278.23, 5352.9],
+  [1767375000, 3278.23, 3279.75, 3274.06, 3277.71, 5122.1],
+  [1767375900, 3277.71, 3284.39, 3271.87, 3273.23, 2053.5],
+  [1767376800, 3273.23, 3276.49, 3262.35, 3265.28, 2141.5],
+  [1767377700, 3265.28, 3269.36, 3251.47, 3255.55, 1312.8],
+  [1767378600, 3255.55, 3276.67, 3250.97, 3275.1, 1141.5],
+  [1767379500, 3275.1, 3276.81, 3250.24, 3250.58, 4379.4],
+  [1767380400, 3250.58, 3254.34, 3240.09, 3243.8, 3119.4],
+  [1767381300, 3243.8, 3246.98, 3230.39, 3231.91, 1801.3],
+  [1767382200, 3231.91, 3232.71, 3220.97, 3226.1, 4279],
+  [1767383100, 3226.1, 3243.33, 3224.33, 3241.6, 887.1],
+  [1767384000, 3241.6, 3243.59, 3239.63, 3239.76, 1671.1],
+  [1767384900, 3239.76, 3252.96, 3235.37, 3248.63, 3797.8],
+  [1767385800, 3248.63, 3253.56, 3237.73, 3241.81, 3870.1],
+  [1767386700, 3241.81, 3244.69, 3232.85, 3234.73, 5311.3],
+  [1767387600, 3234.73, 3260.02, 3232.55, 3258.98, 5484.2],
+  [1767388500, 3258.98, 3261.66, 3243.19, 3249.2, 4328.4],
+  [1767389400, 3249.2, 3253.51, 3227.22, 3229.62, 3731.4],
+  [1767390300, 3229.62, 3244.12, 3226.87, 3241.45, 1535],
+  [1767391200, 3241.45, 3242.26, 3234.69, 3240.85, 4379.7],
+  [1767392100, 3240.85, 3258.36, 3239.3, 3258.09, 3459.9],
+  [1767393000, 3258.09, 3272.64, 3251.87, 3271, 1435.7],
+  [1767393900, 3271, 3299.83, 3264.43, 3294.72, 1855.2],
+  [1767394800, 3294.72, 3296.17, 3293.28, 3294.37, 2460.7],
+  [1767395700, 3294.37, 3295.24, 3292.85, 3293.35, 5349],
+  [1767396600, 3293.35, 3311.47, 3290.71, 3309.22, 2877.4],
+  [1767397500, 3309.22, 3312.19, 3287.48, 3287.9, 1749.3],
+  [1767398400, 3287.9, 3308.9, 3285.01, 3305.28, 5238.2],
+  [1767399300, 3305.28, 3316.35, 3275.12, 3281.79, 3286.5],
+  [1767400200, 3281.79, 3285.29, 3277.84, 3281.77, 3879.4],
+  [1767401100, 3281.77, 3289.12, 3280.2, 3284.75, 1696.2],
+  [1767402000, 3284.75, 3286.79, 3279.46, 3283.79, 4827.7],
+  [1767402900, 3283.79, 3284.32, 3272.85, 3278.51, 4004.6],
+  [1767403800, 3278.51, 3299.71, 3273.4, 3292.48, 1274.1],
+  [1767404700, 3292.48, 3293.2, 3287.37, 3288.09, 3493.1],
+  [1767405600, 3288.09, 3298.76, 3286.92, 3296.92, 3185.4],
+  [1767406500, 3296.92, 3301.45, 3277.31, 3279.66, 1949.5],
+  [1767407400, 3279.66, 3296.22, 3277.6, 3293.14, 2622.1],
+  [1767408300, 3293.14, 3319.54, 3292.25, 3316.71, 5766.7],
+  [1767409200, 3316.71, 3335.07, 3312.29, 3333.86, 2170.9],
+  [1767410100, 3333.86, 3334.35, 3325.84, 3325.99, 2978.5],
+  [1767411000, 3325.99, 3328.87, 3314.64, 3315.53, 4917.7],
+  [1767411900, 3315.53, 3339.83, 3310.05, 3330.25, 1593.1],
+  [1767412800, 3330.25, 3333.8, 3284.4, 3286.56, 1504.3],
+  [1767413700, 3286.56, 3289.68, 3278.06, 3280.34, 4004.4],
+  [1767414600, 3280.34, 3284.65, 3263.39, 3265.38, 3536.5],
+  [1767415500, 3265.38, 3275.13, 3257.73, 3266.76, 1723.5],
+  [1767416400, 3266.76, 3273.67, 3262.26, 3265.82, 2455.1],
+  [1767417300, 3265.82, 3283.2, 3256.84, 3279.79, 3396.2],
+  [1767418200, 3279.79, 3279.94, 3272.17, 3274.53, 3071.5],
+  [1767419100, 3274.53, 3300.24, 3272.96, 3294.18, 4441],
+  [1767420000, 3294.18, 3300, 3273.07, 3274.69, 3824.9],
+  [1767420900, 3274.69, 3281.01, 3249.82, 3252.21, 1154.4],
+  [1767421800, 3252.21, 3258.87, 3252.14, 3257.52, 5531.7],
+  [1767422700, 3257.52, 3270.69, 3254.89, 3269.96, 3177.5],
+  [1767423600, 3269.96, 3309.24, 3266.73, 3307.93, 4101.2],
+  [1767424500, 3307.93, 3315.71, 3306.06, 3308.09, 1021.5],
+  [1767425400, 3308.09, 3311.12, 3297.65, 3301.01, 3370.9],
+  [1767426300, 3301.01, 3313.54, 3296.83, 3308.59, 5451.7],
+  [1767427200, 3308.59, 3312.13, 3289.43, 3292.49, 3196.4],
+  [1767428100, 3292.49, 3306.88, 3287.26, 3306.82, 4949.3],
+  [1767429000, 3306.82, 3334.63, 3300.44, 3327.9, 5400.7],
+  [1767429900, 3327.9, 3331.85, 3308.43, 3315.17, 4328.4],
+  [1767430800, 3315.17, 3315.69, 3294.06, 3297.22, 3917.6],
+  [1767431700, 3297.22, 3298.03, 3293.93, 3294.25, 5818.5],
+  [1767432600, 3294.25, 3298.84, 3276.1, 3282.29, 2866.9],
+  [1767433500, 3282.29, 3283.4, 3263.61, 3268.52, 4391.1],
+  [1767434400, 3268.52, 3269.03, 3265.09, 3266.94, 5041.9],
+  [1767435300, 3266.94, 3293.29, 3265.34, 3287.59, 4600.3],
+  [1767436200, 3287.59, 3296.42, 3286.47, 3293.42, 3203],
+  [1767437100, 3293.42, 3296.9, 3282.77, 3283.64, 1197.6],
+  [1767438000, 3283.64, 3289.1, 3265.52, 3266.33, 3321],
+  [1767438900, 3266.33, 3269.45, 3247.49, 3248.73, 3662.1],
+  [1767439800, 3248.73, 3260.39, 3244.39, 3254.37, 3100.3],
+  [1767440700, 3254.37, 3254.62, 3243.79, 3245.28, 3665.6],
+  [1767441600, 3245.28, 3250.64, 3242.51, 3249.25, 5623],
+  [1767442500, 3249.25, 3276.87, 3244.98, 3276.6, 5554.2],
+  [1767443400, 3276.6, 3301.3, 3275.28, 3293.14, 1273.5],
+  [1767444300, 3293.14, 3311.82, 3289.95, 3308.08, 5450.6],
+  [1767445200, 3308.08, 3312.53, 3293.42, 3300.84, 4145.1],
+  [1767446100, 3300.84, 3308.11, 3296.21, 3306.09, 4325.8],
+  [1767447000, 3306.09, 3313.96, 3302.08, 3311.61, 1649.4],
+  [1767447900, 3311.61, 3314.08, 3294.39, 3296.15, 967.4],
+  [1767448800, 3296.15, 3296.86, 3282.58, 3284.28, 4027],
+  [1767449700, 3284.28, 3288.18, 3266.42, 3274.72, 1269.2],
+  [1767450600, 3274.72, 3291.16, 3268.7, 3290.18, 3017.3],
+  [1767451500, 3290.18, 3293.41, 3288.04, 3289.82, 1081.6],
+  [1767452400, 3289.82, 3297.23, 3285.15, 3296.16, 4486.7],
+  [1767453300, 3296.16, 3319.5, 3290.88, 3316.6, 5085.2],
+  [1767454200, 3316.6, 3319.95, 3301.82, 3303.01, 3047.4],
+  [1767455100, 3303.01, 3304.58, 3287.04, 3294.45, 1620.5],
+  [1767456000, 3294.45, 3296.79, 3291.75, 3293.22, 2170.9],
+  [1767456900, 3293.22, 3297.12, 3276.81, 3280.82, 4766.2],
+  [1767457800, 3280.82, 3282.61, 3258.77, 3263.1, 1216.7],
+  [1767458700, 3263.1, 3265.29, 3261.14, 3261.79, 2021],
+  [1767459600, 3261.79, 3262.64, 3249.45, 3254.6, 2088.7],
+  [1767460500, 3254.6, 3258.8, 3253.13, 3253.67, 3168.5],
+  [1767461400, 3253.67, 3258.66, 3244.3, 3250.36, 4445.5],
+  [1767462300, 3250.36, 3251.71, 3247.7, 3251.08, 1185.7],
+  [1767463200, 3251.08, 3261.39, 3250.62, 3250.69, 3579.4],
+  [1767464100, 3250.69, 3252.73, 3243.65, 3251.54, 2768.1],
+  [1767465000, 3251.54, 3258.37, 3246.24, 3257.78, 1489.3],
+  [1767465900, 3257.78, 3262.09, 3251.96, 3256.74, 2561.5],
+  [1767466800, 3256.74, 3279.7, 3253, 3278.58, 2162.7],
+  [1767467700, 3278.58, 3296.16, 3273.64, 3293.4, 1149.4],
+  [1767468600, 3293.4, 3301.24, 3291.97, 3297.05, 4158.7],
+  [1767469500, 3297.05, 3299.53, 3288.3, 3291.02, 2697.7],
+  [1767470400, 3291.02, 3294.16, 3273.18, 3275.76, 4972.1],
+  [1767471300, 3275.76, 3291.16, 3272.11, 3289.69, 4433.4],
+  [1767472200, 3289.69, 3295.41, 3256.43, 3268.04, 5108.5],
+  [1767473100, 3268.04, 3281.14, 3266.19, 3275.51, 1554.9],
+  [1767474000, 3275.51, 3278.42, 3262.29, 3265.64, 1076.9],
+  [1767474900, 3265.64, 3269.3, 3239.45, 3240.96, 2549.1],
+  [1767475800, 3240.96, 3243.71, 3238.36, 3242.8, 2619.6],
+  [1767476700, 3242.8, 3252.91, 3240.97, 3247.46, 2172],
+  [1767477600, 3247.46, 3250.18, 3224.93, 3232.33, 3698.7],
+  [1767478500, 3232.33, 3233.35, 3203.39, 3205.54, 2502.1],
+  [1767479400, 3205.54, 3223.66, 3199.43, 3222.71, 1910.1],
+  [1767480300, 3222.71, 3232.71, 3222.26, 3226.88, 4696.5],
+  [1767481200, 3226.88, 3241.45, 3226.03, 3240.78, 1428.3],
+  [1767482100, 3240.78, 3243.91, 3224.7, 3229.79, 3287.7],
+  [1767483000, 3229.79, 3255.41, 3229.06, 3253.49, 3227.3],
+  [1767483900, 3253.49, 3260.7, 3249.26, 3254.57, 3759.9],
+  [1767484800, 3254.57, 3265.39, 3252.84, 3264.28, 2183],
+  [1767485700, 3264.28, 3267.91, 3238.75, 3240.86, 2737.7],
+  [1767486600, 3240.86, 3244.49, 3223.27, 3227.12, 886.4],
+  [1767487500, 3227.12, 3229.06, 3207.18, 3210.49, 2321.1],
+  [1767488400, 3210.49, 3210.69, 3199.13, 3200.04, 4036.1],
+  [1767489300, 3200.04, 3207.58, 3193.58, 3206.02, 4267],
+  [1767490200, 3206.02, 3209.49, 3199.2, 3199.59, 3403.3],
+  [1767491100, 3199.59, 3199.99, 3187.91, 3193.08, 5713.4],
+  [1767492000, 3193.08, 3195.82, 3192.19, 3193.5, 1488.9],
+  [1767492900, 3193.5, 3193.76, 3180.44, 3188.53, 3118],
+  [1767493800, 3188.53, 3193.72, 3184.87, 3186.55, 2148.5],
+  [1767494700, 3186.55, 3202.34, 3183.89, 3198.49, 2648.6],
+  [1767495600, 3198.49, 3218.51, 3195.87, 3212.12, 2307.7],
+  [1767496500, 3212.12, 3212.8, 3206.41, 3206.6, 3540],
+  [1767497400, 3206.6, 3227.26, 3205.52, 3226.02, 3788.7],
+  [1767498300, 3226.02, 3267.91, 3223.16, 3264.81, 3126.4],
+  [1767499200, 3264.81, 3279.22, 3259.89, 3275.16, 5555.2],
+  [1767500100, 3275.16, 3297.08, 3268.53, 3296.14, 3228.9],
+  [1767501000, 3296.14, 3302.41, 3295.18, 3299.96, 4527.6],
+  [1767501900, 3299.96, 3322.68, 3299.15, 3318.8, 1206.9],
+  [1767502800, 3318.8, 3319.51, 3298.49, 3303.39, 1606.4],
+  [1767503700, 3303.39, 3327.99, 3299.74, 3321.31, 3369.4],
+  [1767504600, 3321.31, 3335.04, 3319.07, 3332.61, 3504.1],
+  [1767505500, 3332.61, 3343.57, 3329.82, 3339.63, 1635.5],
+  [1767506400, 3339.63, 3345.23, 3326.7, 3328.67, 3027.9],
+  [1767507300, 3328.67, 3330.59, 3313.23, 3314.63, 5729.3],
+  [1767508200, 3314.63, 3315.59, 3299.65, 3302.2, 3800.7],
+  [1767509100, 3302.2, 3310.23, 3281.93, 3283, 2828.4],
+  [1767510000, 3283, 3318.98, 3275.89, 3312.74, 4276],
+  [1767510900, 3312.74, 3312.86, 3291.82, 3295.28, 3677.1],
+  [1767511800, 3295.28, 3309.09, 3293.99, 3306.08, 1644.9],
+  [1767512700, 3306.08, 3313.68, 3302.5, 3309.7, 4044.1],
+  [1767513600, 3309.7, 3315.98, 3308.99, 3315.07, 2452.6],
+  [1767514500, 3315.07, 3332.71, 3312, 3330.35, 4747.3],
+  [1767515400, 3330.35, 3332.02, 3307.4, 3310.94, 1196.8],
+  [1767516300, 3310.94, 3311.67, 3280.89, 3284.22, 1443],
+  [1767517200, 3284.22, 3287.44, 3266.58, 3266.94, 940.4],
+  [1767518100, 3266.94, 3267.46, 3246.3, 3249.58, 2277.5],
+  [1767519000, 3249.58, 3263.74, 3249.1, 3257.53, 1887.7],
+  [1767519900, 3257.53, 3289.62, 3256.05, 3288.57, 3150.8],
+  [1767520800, 3288.57, 3291.37, 3287.32, 3289.37, 3750.2],
+  [1767521700, 3289.37, 3295.54, 3280.03, 3292.45, 5721.6],
+  [1767522600, 3292.45, 3339.01, 3288.69, 3337.9, 4106.2],
+  [1767523500, 3337.9, 3371.19, 3334.6, 3370.81, 2027.9],
+  [1767524400, 3370.81, 3374.66, 3368.87, 3370.97, 4280.6],
+  [1767525300, 3370.97, 3392.9, 3370.59, 3389.95, 5452.4],
+  [1767526200, 3389.95, 3407.29, 3386.56, 3405.59, 4174.4],
+  [1767527100, 3405.59, 3410.4, 3398.24, 3399.9, 3368.8],
+  [1767528000, 3399.9, 3419.09, 3396.15, 3413.42, 5717.8],
+  [1767528900, 3413.42, 3420.79, 3375.45, 3380.61, 4704.2],
+  [1767529800, 3380.61, 3380.95, 3360, 3365.61, 4963.7],
+  [1767530700, 3365.61, 3368.24, 3349.37, 3352.55, 5985.4],
+  [1767531600, 3352.55, 3357.13, 3349.2, 3352.87, 1497.3],
+  [1767532500, 3352.87, 3373.3, 3349.4, 3369, 3946.2],
+  [1767533400, 3369, 3384, 3364.42, 3383.16, 4208.1],
+  [1767534300, 3383.16, 3390.32, 3367.07, 3371.46, 2214],
+  [1767535200, 3371.46, 3380.44, 3371.14, 3379.86, 5167.3],
+  [1767536100, 3379.86, 3399.53, 3375.37, 3395.05, 2429.2],
+  [1767537000, 3395.05, 3428.95, 3394.25, 3425.67, 935.4],
+  [1767537900, 3425.67, 3428.96, 3425.63, 3428.32, 1574.5],
+  [1767538800, 3428.32, 3438.91, 3425.69, 3437.98, 5981.9],
+  [1767539700, 3437.98, 3441.36, 3420.01, 3421.43, 3968.6],
+  [1767540600, 3421.43, 3423.83, 3419.34, 3422.48, 3998.2],
+  [1767541500, 3422.48, 3424.03, 3400.64, 3403.5, 3339.9],
+  [1767542400, 3403.5, 3416.45, 3401.61, 3411.77, 3279.7],
+  [1767543300, 3411.77, 3419.23, 3408.7, 3415.92, 1493.7],
+  [1767544200, 3415.92, 3417.25, 3402.07, 3413.83, 2093.2],
+  [1767545100, 3413.83, 3420.81, 3413.28, 3416.47, 2851.3],
+  [1767546000, 3416.47, 3419.54, 3411.07, 3411.25, 1345],
+  [1767546900, 3411.25, 3429.21, 3407.37, 3421.82, 1196.6],
+  [1767547800, 3421.82, 3424.67, 3411.05, 3419.08, 3740.5],
+  [1767548700, 3419.08, 3420.82, 3413.05, 3419.58, 3703.5],
+  [1767549600, 3419.58, 3427.67, 3414.89, 3424.95, 5030.2],
+  [1767550500, 3424.95, 3425.29, 3421.18, 3422.65, 4189.4],
+  [1767551400, 3422.65, 3450.88, 3416.91, 3446.86, 886.7],
+  [1767552300, 3446.86, 3450.77, 3435.38, 3444.03, 2347.6],
+  [1767553200, 3444.03, 3455.72, 3442.2, 3452.07, 5189.5],
+  [1767554100, 3452.07, 3452.52, 3439.7, 3443.73, 1606],
+  [1767555000, 3443.73, 3458.26, 3440.96, 3454.4, 4041.7],
+  [1767555900, 3454.4, 3465.24, 3452.29, 3460.39, 1345.2],
+  [1767556800, 3460.39, 3460.73, 3442.84, 3443.74, 1616.6],
+  [1767557700, 3443.74, 3451.27, 3439.28, 3445.87, 4863],
+  [1767558600, 3445.87, 3446.35, 3440.75, 3441.68, 4853],
+  [1767559500, 3441.68, 3464.93, 3440.16, 3459.02, 875.4],
+  [1767560400, 3459.02, 3461.89, 3455.14, 3457.77, 1559],
+  [1767561300, 3457.77, 3458.56, 3450.31, 3451.49, 2622],
+  [1767562200, 3451.49, 3456.46, 3446.99, 3455.88, 4300.6],
+  [1767563100, 3455.88, 3457.9, 3440.91, 3444.66, 2996.4],
+  [1767564000, 3444.66, 3450.3, 3431.5, 3438.87, 5461.3],
+  [1767564900, 3438.87, 3441.16, 3437.63, 3439.72, 3021.5],
+  [1767565800, 3439.72, 3447.33, 3414.35, 3419.78, 2727.5],
+  [1767566700, 3419.78, 3424.37, 3415.04, 3417.02, 1206.8],
+  [1767567600, 3417.02, 3447.32, 3410.32, 3443.05, 5357.5],
+  [1767568500, 3443.05, 3468.12, 3442.01, 3464.97, 5315.3],
+  [1767569400, 3464.97, 3484.45, 3462.11, 3484.24, 1403.4],
+  [1767570300, 3484.24, 3500.62, 3476.64, 3500.32, 1718.1],
+  [1767571200, 3500.32, 3518.43, 3496.07, 3516.44, 5372.2],
+  [1767572100, 3516.44, 3533.12, 3514.27, 3528.02, 3779.9],
+  [1767573000, 3528.02, 3528.86, 3504.57, 3513.3, 1468.2],
+  [1767573900, 3513.3, 3538.3, 3509.54, 3537.19, 5052],
+  [1767574800, 3537.19, 3540.63, 3524.32, 3529.33, 2703.1],
+  [1767575700, 3529.33, 3536.42, 3524.34, 3526.01, 4918.6],
+  [1767576600, 3526.01, 3531.64, 3512, 3515.85, 3833.1],
+  [1767577500, 3515.85, 3522.88, 3509.53, 3511.02, 4234.7],
+  [1767578400, 3511.02, 3516.68, 3510.79, 3511.07, 901.4],
+  [1767579300, 3511.07, 3515.4, 3459.05, 3460.21, 1385.6],
+  [1767580200, 3460.21, 3462.85, 3455.03, 3458.79, 2324.1],
+  [1767581100, 3458.79, 3475.2, 3452.23, 3473.02, 5515.2],
+  [1767582000, 3473.02, 3495.93, 3462.75, 3487.13, 1304.4],
+  [1767582900, 3487.13, 3496.58, 3484.49, 3495.53, 848.1],
+  [1767583800, 3495.53, 3498.23, 3471.44, 3473.09, 1470.4],
+  [1767584700, 3473.09, 3473.77, 3461.11, 3463.64, 3263.4],
+];
+
+const SOLUSDT: KlineTuple[] = [
+  [1767225600, 190, 190.141, 189.182, 189.231, 55795.3],
+  [1767226500, 189.231, 189.614, 188.752, 189.451, 49327.5],
+  [1767227400, 189.451, 190.109, 189.354, 189.783, 31961.1],
+  [1767228300, 189.783, 191.535, 189.493, 191.452, 34821.6],
+  [1767229200, 191.452, 193, 191.393, 192.561, 18455.1],
+  [1767230100, 192.561, 192.563, 191.331, 191.929, 30756.3],
+  [1767231000, 191.929, 192.399, 191.785, 192.38, 57504.7],
+  [1767231900, 192.38, 193.91, 192.272, 193.788, 25385.2],
+  [1767232800, 193.788, 194.274, 193.624, 194.273, 38298.6],
+  [1767233700, 194.273, 194.354, 192.992, 193.167, 25947.1],
+  [1767234600, 193.167, 193.243, 191.258, 191.459, 35428.3],
+  [1767235500, 191.459, 193.55, 191.092, 193.36, 12079.6],
+  [1767236400, 193.36, 193.908, 193.251, 193.843, 19168.7],
+  [1767237300, 193.843, 194.437, 193.678, 194.225, 58029.8],
+  [1767238200, 194.225, 194.33, 193.368, 193.447, 13091.7],
+  [1767239100, 193.447, 193.534, 191.156, 191.387, 16939.7],
+  [1767240000, 191.387, 191.428, 188.912, 188.945, 49713.8],
+  [1767240900, 188.945, 190.694, 188.8, 190.648, 51648],
+  [1767241800, 190.648, 191.413, 190.474, 191.04, 24665.2],
+  [1767242700, 191.04, 191.276, 190.237, 190.572, 27895.2],
+  [1767243600, 190.572, 190.729, 189.884, 189.906, 38626.5],
+  [1767244500, 189.906, 190.731, 189.899, 190.423, 56281],
+  [1767245400, 190.423, 191.671, 190.307, 191.442, 23020.4],
+  [1767246300, 191.442, 191.471, 191.03, 191.28, 56471.8],
+  [1767247200, 191.28, 191.828, 191.252, 191.569, 59489.7],
+  [1767248100, 191.569, 191.663, 191.216, 191.482, 35163.4],
+  [1767249000, 191.482, 191.524, 191.406, 191.521, 16817.3],
+  [1767249900, 191.521, 191.885, 191.298, 191.625, 38849.4],
+  [1767250800, 191.625, 191.693, 191.028, 191.369, 50281.6],
+  [1767251700, 191.369, 191.781, 190.516, 190.776, 21140.9],
+  [1767252600, 190.776, 191.385, 190.6, 191.352, 17313.7],
+  [1767253500, 191.352, 192.086, 191.191, 191.918, 32830.5],
+  [1767254400, 191.918, 192.099, 190.631, 190.64, 47238.9],
+  [1767255300, 190.64, 190.869, 190.12, 190.254, 12129.8],
+  [1767256200, 190.254, 190.376, 188.986, 189.251, 22038.3],
+  [1767257100, 189.251, 189.808, 189.164, 189.64, 59764.2],
+  [1767258000, 189.64, 189.649, 189.125, 189.432, 40124.1],
+  [1767258900, 189.432, 189.749, 188.842, 189.506, 37419.8],
+  [1767259800, 189.506, 189.615, 188.875, 189.177, 40146],
+  [1767260700, 189.177, 189.178, 188.587, 188.782, 22457.6],
+  [1767261600, 188.782, 189.393, 188.737, 188.985, 21820],
+  [1767262500, 188.985, 189.099, 188.675, 188.908, 32904.7],
+  [1767263400, 188.908, 189.174, 188.663, 189.149, 16542.2],
+  [1767264300, 189.149, 189.862, 188.981, 189.698, 20254],
+  [1767265200, 189.698, 191.538, 189.665, 191.353, 59457.1],
+  [1767266100, 191.353, 191.452, 190.387, 190.911, 9592.3],
+  [1767267000, 190.911, 191.099, 189.6, 189.681, 24138.9],
+  [1767267900, 189.681, 189.871, 187.806, 187.937, 13908.4],
+  [1767268800, 187.937, 188.157, 187.716, 187.929, 59974.2],
+  [1767269700, 187.929, 187.952, 187.138, 187.205, 21048.7],
+  [1767270600, 187.205, 188.587, 187.021, 188.486, 42017.2],
+  [1767271500, 188.486, 188.78, 188.458, 188.606, 49985.2],
+  [1767272400, 188.606, 189.728, 188.557, 189.421, 31408.3],
+  [1767273300, 189.421, 189.799, 189.386, 189.514, 38482.9],
+  [1767274200, 189.514, 189.537, 188.438, 188.897, 39105.3],
+  [1767275100, 188.897, 190.49, 188.737, 190.249, 17022.1],
+  [1767276000, 190.249, 191.446, 190.014, 191.041, 50308.9],
+  [1767276900, 191.041, 191.376, 189.045, 189.37, 34717.6],
+  [1767277800, 189.37, 189.597, 189.164, 189.477, 41565.4],
+  [1767278700, 189.477, 189.563, 188.168, 188.195, 54420.4],
+  [1767279600, 188.195, 188.27, 187.642, 187.809, 30871],
+  [1767280500, 187.809, 188.007, 187.509, 187.647, 9630.4],
+  [1767281400, 187.647, 188.519, 187.569, 188.152, 53356.1],
+  [1767282300, 188.152, 189.973, 188.087, 189.51, 39572.5],
+  [1767283200, 189.51, 189.663, 188.289, 188.599, 52382],
+  [1767284100, 188.599, 188.776, 188.104, 188.148, 20923.2],
+  [1767285000, 188.148, 190.157, 187.966, 190.121, 16039.2],
+  [1767285900, 190.121, 191.598, 190.049, 191.386, 11455.9],
+  [1767286800, 191.386, 193.168, 191.28, 192.929, 27115.9],
+  [1767287700, 192.929, 193.574, 192.7, 193.5, 25283.5],
+  [1767288600, 193.5, 193.705, 193.42, 193.7, 36184.2],
+  [1767289500, 193.7, 195.126, 193.653, 194.914, 49168.8],
+  [1767290400, 194.914, 195.029, 193.326, 193.732, 11293.8],
+  [1767291300, 193.732, 194.989, 193.676, 194.951, 30804.4],
+  [1767292200, 194.951, 196.929, 194.485, 196.752, 52225],
+  [1767293100, 196.752, 197.001, 196.498, 196.838, 14635.6],
+  [1767294000, 196.838, 199.261, 196.744, 199.02, 19404.6],
+  [1767294900, 199.02, 199.28, 198.94, 199.12, 29349.2],
+  [1767295800, 199.12, 200.435, 198.916, 200.292, 53685.7],
+  [1767296700, 200.292, 201.244, 200.086, 201.201, 17665.9],
+  [1767297600, 201.201, 201.575, 200.251, 200.47, 53173.5],
+  [1767298500, 200.47, 201.01, 200.375, 200.645, 52860.3],
+  [1767299400, 200.645, 200.645, 199.562, 199.616, 31086.9],
+  [1767300300, 199.616, 199.95, 199.51, 199.511, 27229.5],
+  [1767301200, 199.511, 201.297, 199.466, 200.906, 18031.6],
+  [1767302100, 200.906, 201.045, 199.772, 200.168, 13656.7],
+  [1767303000, 200.168, 200.179, 198.612, 198.658, 42683.3],
+  [1767303900, 198.658, 199.697, 198.245, 199.335, 39741.9],
+  [1767304800, 199.335, 200.623, 199.157, 199.98, 40516.7],
+  [1767305700, 199.98, 200.268, 199.461, 199.88, 13306.4],
+  [1767306600, 199.88, 200.404, 199.786, 200.122, 13514.5],
+  [1767307500, 200.122, 200.886, 200.023, 200.633, 46191.8],
+  [1767308400, 200.633, 200.771, 199.202, 199.337, 42972.4],
+  [1767309300, 199.337, 199.85, 199.045, 199.677, 39217.2],
+  [1767310200, 199.677, 199.728, 199.18, 199.236, 45720.1],
+  [1767311100, 199.236, 200.374, 198.989, 200.194, 9036.8],
+  [1767312000, 200.194, 200.406, 199.338, 199.583, 13453.3],
+  [1767312900, 199.583, 201.176, 199.225, 201.169, 49617.1],
+  [1767313800, 201.169, 201.471, 199.621, 199.767, 57164],
+  [1767314700, 199.767, 201.282, 199.657, 201.244, 20916.1],
+  [1767315600, 201.244, 201.48, 200.872, 200.932, 38162.2],
+  [1767316500, 200.932, 201.422, 200.524, 200.656, 21399.7],
+  [1767317400, 200.656, 201.21, 199.844, 200.008, 42640.8],
+  [1767318300, 200.008, 200.442, 199.175, 199.352, 21892.1],
+  [1767319200, 199.352, 199.387, 199.112, 199.289, 49793.7],
+  [1767320100, 199.289, 199.561, 198.507, 198.619, 53405.4],
+  [1767321000, 198.619, 198.927, 198.118, 198.836, 44275.4],
+  [1767321900, 198.836, 199, 196.894, 197.022, 13718.9],
+  [1767322800, 197.022, 200.726, 196.683, 200.316, 35425.1],
+  [1767323700, 200.316, 200.837, 199.077, 199.423, 15958.7],
+  [1767324600, 199.423, 199.659, 199.235, 199.43, 17810.5],
+  [1767325500, 199.43, 199.471, 199.279, 199.295, 12056.6],
+  [1767326400, 199.295, 199.844, 199.117, 199.834, 53928.7],
+  [1767327300, 199.834, 200.174, 199.577, 199.859, 15794.2],
+  [1767328200, 199.859, 200.707, 199.653, 200.682, 54683.9],
+  [1767329100, 200.682, 201.065, 199.706, 199.839, 15825.4],
+  [1767330000, 199.839, 200.097, 199.795, 200.074, 10508.7],
+  [1767330900, 200.074, 201.32, 200.017, 201.184, 11802.8],
+  [1767331800, 201.184, 203.138, 201.073, 203.078, 12990.9],
+  [1767332700, 203.078, 204.809, 202.961, 204.639, 23706.2],
+  [1767333600, 204.639, 205.091, 202.917, 203.167, 25689.8],
+  [1767334500, 203.167, 205.103, 203.137, 205.038, 9285.4],
+  [1767335400, 205.038, 206.709, 204.73, 206.485, 42978.9],
+  [1767336300, 206.485, 206.534, 205.282, 205.787, 47972.2],
+  [1767337200, 205.787, 206.162, 204.633, 204.76, 45461],
+  [1767338100, 204.76, 205.16, 203.3, 203.38, 15902.5],
+  [1767339000, 203.38, 203.63, 202.412, 202.432, 46218.6],
+  [1767339900, 202.432, 202.764, 201.348, 201.353, 55247.1],
+  [1767340800, 201.353, 203.497, 201.258, 203.363, 33205.8],
+  [1767341700, 203.363, 205.774, 203.306, 205.373, 10013.6],
+  [1767342600, 205.373, 205.569, 204.505, 204.55, 34715.5],
+  [1767343500, 204.55, 204.656, 203.321, 203.606, 17131],
+  [1767344400, 203.606, 203.679, 202.437, 202.466, 9390.8],
+  [1767345300, 202.466, 203.334, 202.108, 202.714, 38263.9],
+  [1767346200, 202.714, 203.094, 202.41, 202.725, 18272.5],
+  [1767347100, 202.725, 202.907, 200.426, 200.641, 50209.9],
+  [1767348000, 200.641, 201.238, 200.509, 201.225, 35804.4],
+  [1767348900, 201.225, 201.532, 200.77, 201.493, 24865.3],
+  [1767349800, 201.493, 201.88, 198.356, 198.62, 43234.1],
+  [1767350700, 198.62, 199.105, 197.454, 197.538, 46367.9],
+  [1767351600, 197.538, 197.847, 195.97, 195.998, 11209.3],
+  [1767352500, 195.998, 197.338, 195.814, 197.208, 50702.3],
+  [1767353400, 197.208, 197.219, 196.247, 196.457, 16632.6],
+  [1767354300, 196.457, 196.462, 195.665, 196.067, 19777.6],
+  [1767355200, 196.067, 196.476, 195.848, 196.331, 20932.8],
+  [1767356100, 196.331, 196.428, 195.36, 195.697, 16632],
+  [1767357000, 195.697, 195.72, 195.049, 195.476, 11428.1],
+  [1767357900, 195.476, 195.819, 194.89, 195.733, 9155.6],
+  [1767358800, 195.733, 197.014, 195.725, 196.981, 15585],
+  [1767359700, 196.981, 197.873, 196.865, 197.734, 15609],
+  [1767360600, 197.734, 199.328, 197.623, 199.235, 49050.9],
+  [1767361500, 199.235, 200.329, 198.977, 200.236, 22571.8],
+  [1767362400, 200.236, 201.12, 199.862, 201.054, 55336.9],
+  [1767363300, 201.054, 201.229, 199.464, 199.618, 11911.7],
+  [1767364200, 199.618, 201.126, 199.472, 200.934, 44066.6],
+  [1767365100, 200.934, 201.085, 200.467, 200.716, 36590.6],
+  [1767366000, 200.716, 201.006, 198.044, 198.234, 19203.2],
+  [1767366900, 198.234, 198.292, 196.788, 197.268, 11138.7],
+  [1767367800, 197.268, 197.989, 197.102, 197.929, 59133.3],
+  [1767368700, 197.929, 198.034, 197.858, 198.033, 49670.4],
+  [1767369600, 198.033, 200.26, 197.727, 200.155, 49156.7],
+  [1767370500, 200.155, 200.215, 198.255, 198.448, 49729.9],
+  [1767371400, 198.448, 198.48, 198.066, 198.244, 35675],
+  [1767372300, 198.244, 199.577, 198.121, 199.28, 36917.2],
+  [1767373200, 199.28, 199.672, 199.087, 199.093, 58318.3],
+  [1767374100, 199.093, 199.452, 197.676, 198.052, 32828.6],
+  [1767375000, 198.052, 198.904, 197.681, 198.5, 33827.1],
+  [1767375900, 198.5, 199.382, 198.311, 199.273, 48477.1],
+  [1767376800, 199.273, 199.479, 197.804, 197.914, 24454.1],
+  [1767377700, 197.914, 197.917, 196.818, 197.024, 59742.6],
+  [1767378600, 197.024, 197.13, 196.513, 196.763, 46406.2],
+  [1767379500, 196.763, 197.079, 194.886, 195.343, 37319.4],
+  [1767380400, 195.343, 195.442, 195.319, 195.353, 9132.3],
+  [1767381300, 195.353, 195.848, 195.349, 195.554, 25484.9],
+  [1767382200, 195.554, 195.684, 195.372, 195.445, 39030.2],
+  [1767383100, 195.445, 196.079, 195.362, 196.023, 18105.6],
+  [1767384000, 196.023, 196.267, 195.828, 195.926, 21771.2],
+  [1767384900, 195.926, 196.225, 195.689, 196.113, 37734.8],
+  [1767385800, 196.113, 196.402, 196.006, 196.362, 31750.6],
+  [1767386700, 196.362, 196.402, 193.988, 194.904, 14866],
+  [1767387600, 194.904, 197.062, 194.77, 196.747, 34273.9],
+  [1767388500, 196.747, 197.049, 196.522, 196.552, 14380],
+  [1767389400, 196.552, 196.707, 194.306, 194.362, 52150.8],
+  [1767390300, 194.362, 195.968, 194.346, 195.782, 48295.2],
+  [1767391200, 195.782, 195.91, 194.595, 194.678, 22372.1],
+  [1767392100, 194.678, 195.254, 194.638, 195.241, 59651.3],
+  [1767393000, 195.241, 195.388, 195.087, 195.261, 23747.4],
+  [1767393900, 195.261, 197.048, 195.095, 196.842, 33738.4],
+  [1767394800, 196.842, 197.258, 196.422, 196.915, 19230.7],
+  [1767395700, 196.915, 197.103, 196.224, 196.233, 25198.6],
+  [1767396600, 196.233, 198.31, 196.168, 198.059, 20696],
+  [1767397500, 198.059, 198.204, 197.175, 197.917, 56941.8],
+  [1767398400, 197.917, 199.565, 197.875, 199.42, 43739],
+  [1767399300, 199.42, 199.675, 198.809, 199.022, 30205.6],
+  [1767400200, 199.022, 199.042, 197.618, 197.72, 58826.3],
+  [1767401100, 197.72, 197.883, 197.389, 197.808, 16730.9],
+  [1767402000, 197.808, 197.96, 197.079, 197.232, 14733.5],
+  [1767402900, 197.232, 197.281, 195.376, 195.534, 41096],
+  [1767403800, 195.534, 197.205, 195.507, 196.734, 36349.2],
+  [1767404700, 196.734, 196.818, 196.225, 196.38, 11533.7],
+  [1767405600, 196.38, 197.494, 196.26, 197.328, 24949.9],
+  [1767406500, 197.328, 197.68, 194.89, 194.944, 37947.3],
+  [1767407400, 194.944, 195.758, 194.607, 195.398, 40939.1],
+  [1767408300, 195.398, 196.328, 195.237, 195.985, 20679.7],
+  [1767409200, 195.985, 197.642, 195.89, 197.307, 50464.9],
+  [1767410100, 197.307, 197.436, 195.788, 195.941, 59103],
+  [1767411000, 195.941, 196.028, 195.093, 195.285, 47494],
+  [1767411900, 195.285, 196.971, 194.825, 196.728, 50387.9],
+  [1767412800, 196.728, 196.733, 193.809, 193.831, 26629.5],
+  [1767413700, 193.831, 194.076, 192.272, 192.332, 59003.5],
+  [1767414600, 192.332, 193.11, 192.239, 192.886, 47428.1],
+  [1767415500, 192.886, 194.029, 192.776, 193.942, 27947.6],
+  [1767416400, 193.942, 194.597, 193.63, 194.479, 44647.5],
+  [1767417300, 194.479, 194.539, 193.457, 193.586, 17902],
+  [1767418200, 193.586, 193.682, 193.46, 193.667, 48530.2],
+  [1767419100, 193.667, 194.569, 193.529, 194.417, 52411],
+  [1767420000, 194.417, 194.545, 194.01, 194.335, 47767.5],
+  [1767420900, 194.335, 194.437, 193.435, 193.47, 38915.5],
+  [1767421800, 193.47, 193.796, 193.351, 193.631, 41918.2],
+  [1767422700, 193.631, 195.572, 193.551, 195.29, 13402.3],
+  [1767423600, 195.29, 196.933, 195.07, 196.665, 9441.7],
+  [1767424500, 196.665, 196.812, 195.717, 195.831, 36566.8],
+  [1767425400, 195.831, 196.153, 194.71, 195.072, 34620.2],
+  [1767426300, 195.072, 195.17, 194.708, 194.847, 30346.3],
+  [1767427200, 194.847, 194.911, 193.5, 193.599, 39511.3],
+  [1767428100, 193.599, 194.974, 193.52, 194.918, 42063.9],
+  [1767429000, 194.918, 197.074, 194.761, 196.698, 57397.5],
+  [1767429900, 196.698, 196.743, 195.146, 195.358, 47787.7],
+  [1767430800, 195.358, 195.496, 194.355, 194.89, 17682],
+  [1767431700, 194.89, 195.313, 193.805, 193.946, 11867.8],
+  [1767432600, 193.946, 194.019, 192.44, 192.596, 57122.6],
+  [1767433500, 192.596, 192.954, 191.799, 192.132, 46105.3],
+  [1767434400, 192.132, 192.411, 191.372, 191.508, 35388.4],
+  [1767435300, 191.508, 192.338, 191.479, 192.093, 56975.1],
+  [1767436200, 192.093, 192.135, 191.747, 191.807, 59294.6],
+  [1767437100, 191.807, 192.657, 191.682, 192.399, 20222.5],
+  [1767438000, 192.399, 192.404, 191.995, 192.02, 18885.6],
+  [1767438900, 192.02, 192.298, 190.733, 190.804, 42004.3],
+  [1767439800, 190.804, 190.809, 190.037, 190.058, 46744.2],
+  [1767440700, 190.058, 190.257, 189.561, 189.682, 9012.7],
+  [1767441600, 189.682, 189.742, 189.155, 189.336, 34513.3],
+  [1767442500, 189.336, 191.736, 189.23, 191.404, 50949.1],
+  [1767443400, 191.404, 192.233, 191.282, 192.156, 54712.3],
+  [1767444300, 192.156, 192.899, 191.93, 192.724, 51306.7],
+  [1767445200, 192.724, 192.82, 192.475, 192.519, 29536.1],
+  [1767446100, 192.519, 193.093, 192.147, 193.019, 34218.9],
+  [1767447000, 193.019, 194.143, 192.985, 194.059, 9289],
+  [1767447900, 194.059, 194.478, 192.679, 193.2, 13508],
+  [1767448800, 193.2, 193.281, 191.15, 191.294, 42511.7],
+  [1767449700, 191.294, 191.397, 190.632, 190.714, 50980.4],
+  [1767450600, 190.714, 192.018, 190.62, 191.898, 23717.8],
+  [1767451500, 191.898, 192.582, 191.485, 192.579, 17130.5],
+  [1767452400, 192.579, 192.996, 192.292, 192.801, 51300.7],
+  [1767453300, 192.801, 193.24, 192.639, 193.143, 50548.2],
+  [1767454200, 193.143, 193.343, 191.971, 192.122, 43914],
+  [1767455100, 192.122, 192.637, 192.087, 192.464, 42750.4],
+  [1767456000, 192.464, 192.72, 191.399, 191.602, 20752.5],
+  [1767456900, 191.602, 191.651, 190.407, 190.783, 49560.6],
+  [1767457800, 190.783, 191.092, 189.118, 189.314, 19516.8],
+  [1767458700, 189.314, 190.216, 189.289, 189.85, 48296.2],
+  [1767459600, 189.85, 189.887, 188.521, 188.834, 25789.9],
+  [1767460500, 188.834, 189.527, 188.608, 189.464, 28664.2],
+  [1767461400, 189.464, 189.743, 189.447, 189.645, 37353.5],
+  [1767462300, 189.645, 189.867, 188.724, 189.119, 48899],
+  [1767463200, 189.119, 190.255, 188.986, 190.134, 45570.3],
+  [1767464100, 190.134, 190.202, 189.771, 189.935, 46404.9],
+  [1767465000, 189.935, 190.767, 189.539, 190.578, 44452.2],
+  [1767465900, 190.578, 190.7, 190.395, 190.569, 54986],
+  [1767466800, 190.569, 191.596, 190.547, 191.309, 37994],
+  [1767467700, 191.309, 191.641, 191.096, 191.391, 40443.7],
+  [1767468600, 191.391, 191.536, 190.729, 190.984, 34438.3],
+  [1767469500, 190.984, 191.052, 189.497, 189.667, 16379.1],
+  [1767470400, 189.667, 189.886, 189.297, 189.408, 15765.2],
+  [1767471300, 189.408, 190.488, 189.034, 190.319, 54487.3],
+  [1767472200, 190.319, 190.625, 189.03, 189.233, 25944.1],
+  [1767473100, 189.233, 189.462, 188.856, 189.339, 34872.3],
+  [1767474000, 189.339, 189.453, 188.139, 188.155, 45406.6],
+  [1767474900, 188.155, 188.194, 185.667, 185.799, 55651.5],
+  [1767475800, 185.799, 186.311, 185.46, 185.596, 39409],
+  [1767476700, 185.596, 185.732, 185.258, 185.32, 13998.3],
+  [1767477600, 185.32, 185.598, 185.082, 185.137, 33659.1],
+  [1767478500, 185.137, 185.422, 183.972, 183.989, 59605.5],
+  [1767479400, 183.989, 184.869, 183.533, 184.672, 34337],
+  [1767480300, 184.672, 185.577, 184.551, 185.308, 53238.9],
+  [1767481200, 185.308, 186.254, 185.246, 185.875, 26792.4],
+  [1767482100, 185.875, 186.27, 185.178, 185.393, 39615.8],
+  [1767483000, 185.393, 186.512, 185.337, 186.245, 45244.8],
+  [1767483900, 186.245, 186.535, 185.859, 186.525, 53048.6],
+  [1767484800, 186.525, 187.775, 186.497, 187.771, 27365.4],
+  [1767485700, 187.771, 187.851, 186.04, 186.092, 22673.8],
+  [1767486600, 186.092, 186.108, 184.941, 185.242, 10612],
+  [1767487500, 185.242, 185.339, 183.851, 184.015, 30991.2],
+  [1767488400, 184.015, 184.209, 182.358, 182.497, 54928.4],
+  [1767489300, 182.497, 183.074, 182.33, 182.996, 39355.2],
+  [1767490200, 182.996, 183.523, 181.026, 181.097, 15503],
+  [1767491100, 181.097, 181.389, 180.914, 181.23, 56993.5],
+  [1767492000, 181.23, 181.447, 180.481, 180.588, 52595.3],
+  [1767492900, 180.588, 180.603, 180.289, 180.381, 42852.4],
+  [1767493800, 180.381, 181.734, 180.255, 181.643, 36328.4],
+  [1767494700, 181.643, 182.93, 181.561, 182.564, 48537.3],
+  [1767495600, 182.564, 184.951, 182.26, 184.832, 25208.8],
+  [1767496500, 184.832, 185.487, 184.756, 185.387, 41377.8],
+  [1767497400, 185.387, 187.659, 184.942, 187.391, 14953.9],
+  [1767498300, 187.391, 190.368, 187.192, 190.106, 42477.4],
+  [1767499200, 190.106, 190.587, 189.561, 190.301, 29715.3],
+  [1767500100, 190.301, 191.335, 190.294, 191.29, 33671],
+  [1767501000, 191.29, 191.882, 191.244, 191.562, 39275.3],
+  [1767501900, 191.562, 192.192, 191.358, 192.099, 21278.7],
+  [1767502800, 192.099, 192.188, 189.862, 189.916, 47849.6],
+  [1767503700, 189.916, 191.794, 189.488, 191.571, 17894.8],
+  [1767504600, 191.571, 192.464, 191.541, 192.417, 57161.9],
+  [1767505500, 192.417, 192.474, 191.453, 191.527, 33056],
+  [1767506400, 191.527, 192.446, 191.374, 192.001, 13186.2],
+  [1767507300, 192.001, 192.144, 190.566, 190.607, 11874],
+  [1767508200, 190.607, 190.652, 190.066, 190.384, 10400.1],
+  [1767509100, 190.384, 190.496, 188.45, 188.592, 52271.8],
+  [1767510000, 188.592, 189.648, 188.571, 189.576, 43639.4],
+  [1767510900, 189.576, 189.753, 187.613, 187.833, 27320.7],
+  [1767511800, 187.833, 188.009, 187.8, 187.966, 39736.9],
+  [1767512700, 187.966, 189.209, 187.891, 189.11, 15599.9],
+  [1767513600, 189.11, 189.288, 188.924, 189.052, 44089.7],
+  [1767514500, 189.052, 189.711, 188.835, 189.553, 25010.6],
+  [1767515400, 189.553, 189.668, 188.007, 188.402, 13621],
+  [1767516300, 188.402, 188.482, 188.047, 188.074, 22914.7],
+  [1767517200, 188.074, 188.252, 186.642, 186.861, 39309.8],
+  [1767518100, 186.861, 186.936, 186.269, 186.449, 44613.7],
+  [1767519000, 186.449, 186.527, 185.334, 185.78, 42376.7],
+  [1767519900, 185.78, 187.657, 185.724, 187.318, 48830.4],
+  [1767520800, 187.318, 187.589, 187.215, 187.44, 49132.3],
+  [1767521700, 187.44, 188.085, 186.929, 187.805, 17635.6],
+  [1767522600, 187.805, 190.128, 187.804, 189.838, 40072.5],
+  [1767523500, 189.838, 191.273, 189.699, 190.935, 10289.4],
+  [1767524400, 190.935, 191.392, 190.178, 190.446, 26835.9],
+  [1767525300, 190.446, 190.933, 190.282, 190.816, 19925.2],
+  [1767526200, 190.816, 190.876, 190.535, 190.552, 25452.9],
+  [1767527100, 190.552, 190.745, 190.219, 190.398, 11731.8],
+  [1767528000, 190.398, 190.48, 189.624, 189.969, 31786.6],
+  [1767528900, 189.969, 190.211, 187.655, 188, 15779.7],
+  [1767529800, 188, 188.804, 187.999, 188.604, 28938.3],
+  [1767530700, 188.604, 188.7, 187.318, 187.41, 41228.6],
+  [1767531600, 187.41, 187.444, 186.887, 187.128, 20679.3],
+  [1767532500, 187.128, 188.263, 187.009, 188.06, 47206.8],
+  [1767533400, 188.06, 188.856, 187.92, 188.557, 19880.4],
+  [1767534300, 188.557, 189.395, 188.345, 189.188, 10235.2],
+  [1767535200, 189.188, 189.374, 188.335, 188.555, 26391.4],
+  [1767536100, 188.555, 189.23, 188.291, 189.114, 12209.8],
+  [1767537000, 189.114, 189.924, 188.859, 189.721, 32218.2],
+  [1767537900, 189.721, 189.732, 188.996, 189.048, 21619.1],
+  [1767538800, 189.048, 190.217, 188.868, 190.017, 38633.1],
+  [1767539700, 190.017, 190.393, 189.491, 189.544, 22499.3],
+  [1767540600, 189.544, 189.593, 188.994, 189.285, 58575.8],
+  [1767541500, 189.285, 189.387, 188.352, 188.584, 22565.1],
+  [1767542400, 188.584, 189.886, 188.298, 189.64, 27836.8],
+  [1767543300, 189.64, 189.685, 187.6, 187.616, 13766.7],
+  [1767544200, 187.616, 188.048, 187.278, 187.685, 11819],
+  [1767545100, 187.685, 188.339, 187.613, 188.121, 37658.4],
+  [1767546000, 188.121, 188.552, 187.986, 188.19, 25904.2],
+  [1767546900, 188.19, 189.935, 187.844, 189.9, 32347.5],
+  [1767547800, 189.9, 190.502, 189.845, 190.372, 29231.1],
+  [1767548700, 190.372, 190.577, 190.076, 190.133, 47247.2],
+  [1767549600, 190.133, 191.073, 189.882, 190.8, 19144.4],
+  [1767550500, 190.8, 190.839, 190.294, 190.419, 17601.2],
+  [1767551400, 190.419, 192.597, 190.054, 192.38, 57057.8],
+  [1767552300, 192.38, 193.166, 192.27, 193.018, 43012.5],
+  [1767553200, 193.018, 193.143, 192.838, 193.125, 41849.2],
+  [1767554100, 193.125, 193.128, 192.524, 192.68, 33543.2],
+  [1767555000, 192.68, 193.703, 192.62, 193.656, 22348.5],
+  [1767555900, 193.656, 193.725, 193.433, 193.714, 14282.2],
+  [1767556800, 193.714, 193.895, 193.012, 193.273, 22988.9],
+  [1767557700, 193.273, 193.459, 193.055, 193.322, 21031.2],
+  [1767558600, 193.322, 193.944, 192.521, 192.613, 32977.6],
+  [1767559500, 192.613, 192.918, 192.022, 192.056, 23435.4],
+  [1767560400, 192.056, 192.422, 191.245, 191.639, 35026],
+  [1767561300, 191.639, 192.019, 191.456, 191.615, 37169.5],
+  [1767562200, 191.615, 192.495, 191.328, 192.347, 17934.7],
+  [1767563100, 192.347, 193.052, 192.267, 192.845, 40403],
+  [1767564000, 192.845, 193.589, 192.824, 193.531, 27573.2],
+  [1767564900, 193.531, 193.918, 192.679, 193.22, 17040.7],
+  [1767565800, 193.22, 193.426, 191.362, 191.532, 20748.5],
+  [1767566700, 191.532, 191.567, 190.557, 190.637, 52354.9],
+  [1767567600, 190.637, 192.359, 190.548, 191.836, 50404.1],
+  [1767568500, 191.836, 192.019, 191.802, 191.988, 35157.6],
+  [1767569400, 191.988, 193.406, 191.914, 193.329, 27716.9],
+  [1767570300, 193.329, 194.573, 193.199, 194.48, 18198.2],
+  [1767571200, 194.48, 196.107, 194.344, 195.59, 21358.8],
+  [1767572100, 195.59, 195.759, 195.069, 195.538, 21084.5],
+  [1767573000, 195.538, 195.928, 194.204, 194.308, 34549.4],
+  [1767573900, 194.308, 195.675, 194.188, 195.416, 59403.5],
+  [1767574800, 195.416, 195.623, 193.794, 194.356, 48010.5],
+  [1767575700, 194.356, 194.573, 193.719, 193.988, 18839.8],
+  [1767576600, 193.988, 194.079, 192.549, 192.808, 26816.5],
+  [1767577500, 192.808, 193.538, 192.527, 193.313, 24142.4],
+  [1767578400, 193.313, 194.894, 193.158, 194.617, 22774],
+  [1767579300, 194.617, 194.685, 191.906, 192.284, 25687.3],
+  [1767580200, 192.284, 192.463, 190.273, 190.317, 19545.8],
+  [1767581100, 190.317, 190.664, 190.009, 190.612, 56669.5],
+  [1767582000, 190.612, 192.519, 190.484, 192.394, 58402.7],
+  [1767582900, 192.394, 194.23, 192.348, 193.943, 23014.9],
+  [1767583800, 193.943, 194.382, 193.809, 194.223, 48533],
+  [1767584700, 194.223, 194.352, 193.798, 193.992, 44374],
+];
+
+export const LOCAL_KLINES_15M: Record<string, Candle[]> = {
+  BTCUSDT: toCandles(BTCUSDT),
+  ETHUSDT: toCandles(ETHUSDT),
+  SOLUSDT: toCandles(SOLUSDT),
+};
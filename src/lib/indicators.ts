@@ -1,4 +1,5 @@
 import { Time } from 'lightweight-charts';
+import { createRollingCovariance, createRollingMoments, createRollingSum } from '@/lib/rollingStats';
 
 export interface IndicatorDataPoint {
   time: Time;
@@ -28,6 +29,227 @@ export interface PriceBands {
   lowerBand2: IndicatorDataPoint[];
 }
 
+/**
+ * RSI smoothing: 'simple' averages the last `length` changes (Cutler);
+ * 'wilder' is Wilder's recursive average, an EMA with α = 1/length.
+ */
+export type RSIMode = 'simple' | 'wilder';
+
+export interface IndicatorStream<T = IndicatorDataPoint> {
+  /** Feed the next bar and get the indicator value for it. */
+  push(point: IndicatorDataPoint): T;
+}
+
+/**
+ * Incremental rolling Z-Score. Bars before the window fills report 0.
+ */
+export function createZScoreStream(length: number = 250): IndicatorStream {
+  const moments = createRollingMoments(length);
+  return {
+    push(point) {
+      const { count, mean, std } = moments.push(point.value);
+      if (count < length) return { time: point.time, value: 0 };
+      return { time: point.time, value: std > 0 ? (point.value - mean) / std : 0 };
+    },
+  };
+}
+
+/**
+ * Incremental rolling mean and standard deviation. Before the window fills the
+ * mean tracks the price and the std is 0.
+ */
+export function createRollingMeanStdStream(
+  length: number = 250
+): IndicatorStream<{ mean: IndicatorDataPoint; std: IndicatorDataPoint }> {
+  const moments = createRollingMoments(length);
+  return {
+    push(point) {
+      const { count, mean, std } = moments.push(point.value);
+      if (count < length) {
+        return { mean: { time: point.time, value: point.value }, std: { time: point.time, value: 0 } };
+      }
+      return { mean: { time: point.time, value: mean }, std: { time: point.time, value: std } };
+    },
+  };
+}
+
+/**
+ * Incremental RSI using simple averages of the last `length` gains/losses.
+ * Reports 50 until `length` price changes have been seen.
+ */
+export function createRSIStream(length: number = 14, mode: RSIMode = 'simple'): IndicatorStream {
+  if (mode === 'wilder') return createWilderRSIStream(length);
+
+  const gains = createRollingSum(length);
+  const losses = createRollingSum(length);
+  let previous: number | null = null;
+
+  return {
+    push(point) {
+      if (previous === null) {
+        previous = point.value;
+        return { time: point.time, value: 50 };
+      }
+
+      const change = point.value - previous;
+      previous = point.value;
+      const gainSum = gains.push(change > 0 ? change : 0);
+      const lossSum = losses.push(change < 0 ? -change : 0);
+
+      if (gains.count < length) return { time: point.time, value: 50 };
+
+      return { time: point.time, value: rsiFromAverages(gainSum / length, lossSum / length) };
+    },
+  };
+}
+
+function rsiFromAverages(avgGain: number, avgLoss: number): number {
+  const rs = avgLoss > 0 ? avgGain / avgLoss : 100;
+  return 100 - (100 / (1 + rs));
+}
+
+/**
+ * Wilder's RSI: the first average is the simple mean of `length` changes, then
+ * avg = (avg·(length − 1) + change) / length. Reports 50 during warm-up.
+ */
+function createWilderRSIStream(length: number): IndicatorStream {
+  if (!(length >= 1)) {
+    throw new Error('RSI length must be at least 1');
+  }
+
+  let previous: number | null = null;
+  let seen = 0;
+  let avgGain = 0;
+  let avgLoss = 0;
+
+  return {
+    push(point) {
+      if (previous === null) {
+        previous = point.value;
+        return { time: point.time, value: 50 };
+      }
+
+      const change = point.value - previous;
+      previous = point.value;
+      const gain = change > 0 ? change : 0;
+      const loss = change < 0 ? -change : 0;
+
+      if (seen < length) {
+        seen++;
+        avgGain += (gain - avgGain) / seen;
+        avgLoss += (loss - avgLoss) / seen;
+        if (seen < length) return { time: point.time, value: 50 };
+      } else {
+        avgGain = (avgGain * (length - 1) + gain) / length;
+        avgLoss = (avgLoss * (length - 1) + loss) / length;
+      }
+
+      return { time: point.time, value: rsiFromAverages(avgGain, avgLoss) };
+    },
+  };
+}
+
+/**
+ * Incremental simple moving average. Before the window fills the average
+ * covers the bars seen so far.
+ */
+export function createSMAStream(length: number = 50): IndicatorStream {
+  const sum = createRollingSum(length);
+  return {
+    push(point) {
+      const total = sum.push(point.value);
+      return { time: point.time, value: total / sum.count };
+    },
+  };
+}
+
+/**
+ * Incremental exponential moving average with α = 2 / (length + 1), seeded
+ * with the first value.
+ */
+export function createEMAStream(length: number = 50): IndicatorStream {
+  if (!(length >= 1)) {
+    throw new Error('EMA length must be at least 1');
+  }
+  const alpha = 2 / (length + 1);
+  let ema: number | null = null;
+  return {
+    push(point) {
+      ema = ema === null ? point.value : ema + alpha * (point.value - ema);
+      return { time: point.time, value: ema };
+    },
+  };
+}
+
+/**
+ * Incremental Bollinger %B: (price − lower) / (upper − lower) with bands at
+ * mean ± multiplier·std. 0 and 1 sit on the bands. Reports 0.5 until the
+ * window fills, and for a flat window.
+ */
+export function createPercentBStream(length: number = 20, multiplier: number = 2): IndicatorStream {
+  const moments = createRollingMoments(length);
+  return {
+    push(point) {
+      const { count, mean, std } = moments.push(point.value);
+      if (count < length || !(std > 0)) return { time: point.time, value: 0.5 };
+      const lower = mean - multiplier * std;
+      return { time: point.time, value: (point.value - lower) / (2 * multiplier * std) };
+    },
+  };
+}
+
+/**
+ * Incremental Average True Range with Wilder smoothing. The first `length`
+ * bars report the running mean of the true ranges seen so far.
+ */
+export function createATRStream(length: number = 14) {
+  if (!(length >= 1)) {
+    throw new Error('ATR length must be at least 1');
+  }
+  let previousClose: number | null = null;
+  let seen = 0;
+  let atr = 0;
+
+  return {
+    push(bar: OHLCDataPoint): IndicatorDataPoint {
+      const trueRange = previousClose === null
+        ? bar.high - bar.low
+        : Math.max(bar.high, previousClose) - Math.min(bar.low, previousClose);
+      previousClose = bar.close;
+
+      if (seen < length) {
+        seen++;
+        atr += (trueRange - atr) / seen;
+      } else {
+        atr = (atr * (length - 1) + trueRange) / length;
+      }
+      return { time: bar.time, value: atr };
+    },
+  };
+}
+
+/**
+ * Incremental rolling Pearson correlation and OLS beta (y on x) between two
+ * paired series. Both report 0 until the window fills or while x is flat.
+ */
+export function createRollingCorrelationStream(length: number = 100) {
+  const cov = createRollingCovariance(length);
+  return {
+    push(time: Time, x: number, y: number): { correlation: IndicatorDataPoint; beta: IndicatorDataPoint } {
+      const { count, varianceX, varianceY, covariance } = cov.push(x, y);
+      const ready = count >= length && varianceX > 0;
+      const denominator = Math.sqrt(varianceX * varianceY);
+      const correlation = ready && denominator > 0
+        ? Math.max(-1, Math.min(1, covariance / denominator))
+        : 0;
+      return {
+        correlation: { time, value: correlation },
+        beta: { time, value: ready ? covariance / varianceX : 0 },
+      };
+    },
+  };
+}
+
 /**
  * Compute Z-Score of a price series using a rolling window
  */
@@ -35,24 +257,8 @@ export function computeZScore(
   prices: IndicatorDataPoint[],
   length: number = 250
 ): IndicatorDataPoint[] {
-  const result: IndicatorDataPoint[] = [];
-  
-  for (let i = 0; i < prices.length; i++) {
-    if (i < length - 1) {
-      result.push({ time: prices[i].time, value: 0 });
-      continue;
-    }
-    
-    const window = prices.slice(i - length + 1, i + 1).map(p => p.value);
-    const mean = window.reduce((a, b) => a + b, 0) / length;
-    const variance = window.reduce((a, b) => a + Math.pow(b - mean, 2), 0) / length;
-    const std = Math.sqrt(variance);
-    
-    const zScore = std > 0 ? (prices[i].value - mean) / std : 0;
-    result.push({ time: prices[i].time, value: zScore });
-  }
-  
-  return result;
+  const stream = createZScoreStream(length);
+  return prices.map((p) => stream.push(p));
 }
 
 /**
@@ -62,25 +268,16 @@ export function computeRollingMeanStd(
   prices: IndicatorDataPoint[],
   length: number = 250
 ): { mean: IndicatorDataPoint[]; std: IndicatorDataPoint[] } {
+  const stream = createRollingMeanStdStream(length);
   const meanResult: IndicatorDataPoint[] = [];
   const stdResult: IndicatorDataPoint[] = [];
-  
-  for (let i = 0; i < prices.length; i++) {
-    if (i < length - 1) {
-      meanResult.push({ time: prices[i].time, value: prices[i].value });
-      stdResult.push({ time: prices[i].time, value: 0 });
-      continue;
-    }
-    
-    const window = prices.slice(i - length + 1, i + 1).map(p => p.value);
-    const mean = window.reduce((a, b) => a + b, 0) / length;
-    const variance = window.reduce((a, b) => a + Math.pow(b - mean, 2), 0) / length;
-    const std = Math.sqrt(variance);
-    
-    meanResult.push({ time: prices[i].time, value: mean });
-    stdResult.push({ time: prices[i].time, value: std });
+
+  for (const p of prices) {
+    const { mean, std } = stream.push(p);
+    meanResult.push(mean);
+    stdResult.push(std);
   }
-  
+
   return { mean: meanResult, std: stdResult };
 }
 
@@ -107,43 +304,72 @@ export function computePriceBands(
  */
 export function computeRSI(
   prices: IndicatorDataPoint[],
-  length: number = 14
+  length: number = 14,
+  mode: RSIMode = 'simple'
 ): IndicatorDataPoint[] {
-  const result: IndicatorDataPoint[] = [];
-  const gains: number[] = [];
-  const losses: number[] = [];
-  
-  for (let i = 0; i < prices.length; i++) {
-    if (i === 0) {
-      result.push({ time: prices[i].time, value: 50 });
-      continue;
-    }
-    
-    const change = prices[i].value - prices[i - 1].value;
-    const gain = change > 0 ? change : 0;
-    const loss = change < 0 ? -change : 0;
-    
-    gains.push(gain);
-    losses.push(loss);
-    
-    if (i < length) {
-      result.push({ time: prices[i].time, value: 50 });
-      continue;
-    }
-    
-    const windowGains = gains.slice(-length);
-    const windowLosses = losses.slice(-length);
-    
-    const avgGain = windowGains.reduce((a, b) => a + b, 0) / length;
-    const avgLoss = windowLosses.reduce((a, b) => a + b, 0) / length;
-    
-    const rs = avgLoss > 0 ? avgGain / avgLoss : 100;
-    const rsi = 100 - (100 / (1 + rs));
-    
-    result.push({ time: prices[i].time, value: rsi });
+  const stream = createRSIStream(length, mode);
+  return prices.map((p) => stream.push(p));
+}
+
+/**
+ * Compute a simple moving average
+ */
+export function computeSMA(prices: IndicatorDataPoint[], length: number = 50): IndicatorDataPoint[] {
+  const stream = createSMAStream(length);
+  return prices.map((p) => stream.push(p));
+}
+
+/**
+ * Compute an exponential moving average
+ */
+export function computeEMA(prices: IndicatorDataPoint[], length: number = 50): IndicatorDataPoint[] {
+  const stream = createEMAStream(length);
+  return prices.map((p) => stream.push(p));
+}
+
+/**
+ * Compute Bollinger %B
+ */
+export function computePercentB(
+  prices: IndicatorDataPoint[],
+  length: number = 20,
+  multiplier: number = 2
+): IndicatorDataPoint[] {
+  const stream = createPercentBStream(length, multiplier);
+  return prices.map((p) => stream.push(p));
+}
+
+/**
+ * Compute Average True Range on OHLC bars
+ */
+export function computeATR(ohlcData: OHLCDataPoint[], length: number = 14): IndicatorDataPoint[] {
+  const stream = createATRStream(length);
+  return ohlcData.map((bar) => stream.push(bar));
+}
+
+/**
+ * Compute rolling correlation and OLS beta of y on x. Both series must be
+ * aligned bar for bar; output times follow y.
+ */
+export function computeRollingCorrelation(
+  y: IndicatorDataPoint[],
+  x: IndicatorDataPoint[],
+  length: number = 100
+): { correlation: IndicatorDataPoint[]; beta: IndicatorDataPoint[] } {
+  if (y.length !== x.length) {
+    throw new Error('Rolling correlation needs series of equal length');
   }
-  
-  return result;
+  const stream = createRollingCorrelationStream(length);
+  const correlation: IndicatorDataPoint[] = [];
+  const beta: IndicatorDataPoint[] = [];
+
+  y.forEach((p, i) => {
+    const point = stream.push(p.time, x[i].value, p.value);
+    correlation.push(point.correlation);
+    beta.push(point.beta);
+  });
+
+  return { correlation, beta };
 }
 
 /**
@@ -188,84 +414,9 @@ export function computeZScoreRSIArrows(
   return signals;
 }
 
-/**
- * Generate synthetic pair OHLC data (Ratio = A/B)
- */
-export function generateSyntheticPairOHLC(
-  priceA: number,
-  priceB: number,
-  numPoints: number = 250,
-  volatility: number = 0.02
-): OHLCDataPoint[] {
-  const data: OHLCDataPoint[] = [];
-  const start = Date.now() - numPoints * 15 * 60 * 1000; // 15min bars
-  
-  let currentOpenA = priceA;
-  let currentOpenB = priceB;
-  
-  for (let i = 0; i < numPoints; i++) {
-    const time = Math.floor((start + i * 15 * 60 * 1000) / 1000) as Time;
-    
-    // Generate OHLC for symbol A
-    const moveA = (Math.random() - 0.5) * volatility;
-    const highMoveA = Math.random() * volatility * 0.5;
-    const lowMoveA = Math.random() * volatility * 0.5;
-    
-    const openA = currentOpenA;
-    const closeA = openA * (1 + moveA);
-    const highA = Math.max(openA, closeA) * (1 + highMoveA);
-    const lowA = Math.min(openA, closeA) * (1 - lowMoveA);
-    
-    // Generate OHLC for symbol B (correlated with A)
-    const sharedMove = moveA * 0.7; // 70% correlation
-    const idioB = (Math.random() - 0.5) * volatility * 0.5;
-    const moveB = sharedMove + idioB;
-    const highMoveB = Math.random() * volatility * 0.5;
-    const lowMoveB = Math.random() * volatility * 0.5;
-    
-    const openB = currentOpenB;
-    const closeB = openB * (1 + moveB);
-    const highB = Math.max(openB, closeB) * (1 + highMoveB);
-    const lowB = Math.min(openB, closeB) * (1 - lowMoveB);
-    
-    // Compute ratio OHLC
-    const ratioOpen = openA / openB;
-    const ratioHigh = highA / highB;
-    const ratioLow = lowA / lowB;
-    const ratioClose = closeA / closeB;
-    
-    data.push({
-      time,
-      open: ratioOpen,
-      high: Math.max(ratioOpen, ratioHigh, ratioLow, ratioClose),
-      low: Math.min(ratioOpen, ratioHigh, ratioLow, ratioClose),
-      close: ratioClose,
-    });
-    
-    // Update for next bar
-    currentOpenA = closeA;
-    currentOpenB = closeB;
-  }
-  
-  return data;
-}
-
 /**
  * Convert OHLC data to close prices for indicator calculation
  */
 export function ohlcToClose(ohlcData: OHLCDataPoint[]): IndicatorDataPoint[] {
   return ohlcData.map(d => ({ time: d.time, value: d.close }));
 }
-
-/**
- * Generate synthetic pair price data (Price A / Price B) - Legacy function
- */
-export function generateSyntheticPairPrice(
-  priceA: number,
-  priceB: number,
-  numPoints: number = 250,
-  volatility: number = 0.02
-): IndicatorDataPoint[] {
-  const ohlc = generateSyntheticPairOHLC(priceA, priceB, numPoints, volatility);
-  return ohlcToClose(ohlc);
-}
@@ -0,0 +1,78 @@
+/**
+ * Kalman filter for a time-varying hedge ratio:
+ *   y_t = β_t·x_t + α_t + ε_t,   ε_t ~ N(0, R)
+ *   (β_t, α_t) = (β_{t−1}, α_{t−1}) + w_t,   w_t ~ N(0, δ/(1 − δ)·I)
+ *
+ * Estimates reported for bar t are the one-step-ahead (prior) values, built
+ * only from bars before t, so the resulting spread has no look-ahead bias.
+ */
+
+import { DEFAULT_KALMAN_PARAMS, KalmanParams } from '@/types/marketData';
+
+export interface KalmanHedgeResult {
+  /** Prior hedge ratio β_t used for bar t. */
+  beta: number[];
+  /** Prior intercept α_t used for bar t. */
+  alpha: number[];
+  /** Forecast error y_t − (β_t·x_t + α_t). */
+  spread: number[];
+  /** Forecast error standard deviation √Q_t. */
+  spreadStd: number[];
+}
+
+// Prior on (β, α) starts at the log ratio (β = 1) with unit variance, wide
+// enough that the first bars dominate
+const INITIAL_STATE_VARIANCE = 1;
+
+export function kalmanHedgeRatio(
+  y: number[],
+  x: number[],
+  params: KalmanParams = DEFAULT_KALMAN_PARAMS
+): KalmanHedgeResult {
+  if (y.length !== x.length) {
+    throw new Error('Kalman hedge ratio needs series of equal length');
+  }
+  const { delta, observationVariance } = params;
+  if (!(delta > 0 && delta < 1) || !(observationVariance > 0)) {
+    throw new Error('Kalman noise must satisfy 0 < δ < 1 and R > 0');
+  }
+
+  const stateNoise = delta / (1 - delta);
+  let beta = 1;
+  let alpha = y.length > 0 ? y[0] - x[0] : 0;
+  // State covariance [[p00, p01], [p01, p11]]
+  let p00 = INITIAL_STATE_VARIANCE;
+  let p01 = 0;
+  let p11 = INITIAL_STATE_VARIANCE;
+
+  const result: KalmanHedgeResult = { beta: [], alpha: [], spread: [], spreadStd: [] };
+
+  for (let t = 0; t < y.length; t++) {
+    if (t > 0) {
+      p00 += stateNoise;
+      p11 += stateNoise;
+    }
+
+    // Observation row F = [x_t, 1]
+    const xt = x[t];
+    const error = y[t] - (beta * xt + alpha);
+    const pf0 = p00 * xt + p01;
+    const pf1 = p01 * xt + p11;
+    const q = xt * pf0 + pf1 + observationVariance;
+
+    result.beta.push(beta);
+    result.alpha.push(alpha);
+    result.spread.push(error);
+    result.spreadStd.push(Math.sqrt(q));
+
+    const k0 = pf0 / q;
+    const k1 = pf1 / q;
+    beta += k0 * error;
+    alpha += k1 * error;
+    p00 -= k0 * pf0;
+    p01 -= k0 * pf1;
+    p11 -= k1 * pf1;
+  }
+
+  return result;
+}
@@ -0,0 +1,433 @@
+import { Time } from 'lightweight-charts';
+import type { IndicatorDataPoint, OHLCDataPoint } from '@/lib/indicators';
+import { kalmanHedgeRatio } from '@/lib/kalman';
+import type {
+  AlignedCandle,
+  BarInterval,
+  Candle,
+  CandleRequest,
+  InstrumentSpec,
+  KlinePageRequest,
+  MarketDataAdapter,
+  MarketDataExchange,
+  PairConstruction,
+} from '@/types/marketData';
+import { BAR_INTERVAL_SECONDS } from '@/types/marketData';
+
+// --- Kline parsers (one per exchange wire format) ---
+
+type RawKline = Array<string | number>;
+
+function toCandle(row: RawKline): Candle {
+  return {
+    time: Math.floor(Number(row[0]) / 1000),
+    open: Number(row[1]),
+    high: Number(row[2]),
+    low: Number(row[3]),
+    close: Number(row[4]),
+    volume: Number(row[5]),
+  };
+}
+
+function sortAscending(candles: Candle[]): Candle[] {
+  return [...candles].sort((x, y) => x.time - y.time);
+}
+
+/**
+ * Bybit v5 `/v5/market/kline`: `result.list` of
+ * [startTime(ms), open, high, low, close, volume, turnover], newest first.
+ */
+export function parseBybitKlines(payload: unknown): Candle[] {
+  const body = payload as { retCode?: number; retMsg?: string; result?: { list?: RawKline[] } };
+  if (body?.retCode !== 0) {
+    throw new Error(`Bybit kline error: ${body?.retMsg || 'unknown response'}`);
+  }
+  return sortAscending((body.result?.list || []).map(toCandle));
+}
+
+/**
+ * Binance USDⓈ-M `/fapi/v1/klines`: array of
+ * [openTime(ms), open, high, low, close, volume, closeTime, ...], oldest first.
+ */
+export function parseBinanceKlines(payload: unknown): Candle[] {
+  if (!Array.isArray(payload)) {
+    const body = payload as { msg?: string };
+    throw new Error(`Binance kline error: ${body?.msg || 'unknown response'}`);
+  }
+  return sortAscending((payload as RawKline[]).map(toCandle));
+}
+
+/**
+ * OKX `/api/v5/market/history-candles`: `data` of
+ * [ts(ms), open, high, low, close, vol, volCcy, volCcyQuote, confirm], newest first.
+ */
+export function parseOkxKlines(payload: unknown): Candle[] {
+  const body = payload as { code?: string; msg?: string; data?: RawKline[] };
+  if (body?.code !== '0') {
+    throw new Error(`OKX kline error: ${body?.msg || 'unknown response'}`);
+  }
+  return sortAscending((body.data || []).map(toCandle));
+}
+
+// --- Instrument parsers (lot/tick sizes, quantities in base units) ---
+
+/**
+ * Bybit v5 `/v5/market/instruments-info`: `result.list[0]` with
+ * `lotSizeFilter.{qtyStep, minOrderQty, minNotionalValue}` and `priceFilter.tickSize`.
+ */
+export function parseBybitInstrument(payload: unknown, symbol: string): InstrumentSpec {
+  const body = payload as {
+    retCode?: number;
+    retMsg?: string;
+    result?: { list?: Array<{ lotSizeFilter?: Record<string, string>; priceFilter?: Record<string, string> }> };
+  };
+  if (body?.retCode !== 0) {
+    throw new Error(`Bybit instrument error: ${body?.retMsg || 'unknown response'}`);
+  }
+  const info = body.result?.list?.[0];
+  if (!info?.lotSizeFilter || !info.priceFilter) throw new Error(`Bybit has no instrument ${symbol}`);
+  return {
+    symbol,
+    qtyStep: Number(info.lotSizeFilter.qtyStep),
+    minQty: Number(info.lotSizeFilter.minOrderQty),
+    tickSize: Number(info.priceFilter.tickSize),
+    minNotional: info.lotSizeFilter.minNotionalValue ? Number(info.lotSizeFilter.minNotionalValue) : null,
+  };
+}
+
+/**
+ * Binance USDⓈ-M `/fapi/v1/exchangeInfo`: every symbol, each with a `filters`
+ * list holding LOT_SIZE, PRICE_FILTER and MIN_NOTIONAL entries.
+ */
+export function parseBinanceInstrument(payload: unknown, symbol: string): InstrumentSpec {
+  const body = payload as { msg?: string; symbols?: Array<{ symbol: string; filters: Array<Record<string, string>> }> };
+  if (!Array.isArray(body?.symbols)) {
+    throw new Error(`Binance instrument error: ${body?.msg || 'unknown response'}`);
+  }
+  const info = body.symbols.find((s) => s.symbol === symbol);
+  if (!info) throw new Error(`Binance has no instrument ${symbol}`);
+  const filter = (type: string) => info.filters.find((f) => f.filterType === type);
+  const lot = filter('LOT_SIZE');
+  const price = filter('PRICE_FILTER');
+  const notional = filter('MIN_NOTIONAL');
+  if (!lot || !price) throw new Error(`Binance instrument ${symbol} has no lot or price filter`);
+  return {
+    symbol,
+    qtyStep: Number(lot.stepSize),
+    minQty: Number(lot.minQty),
+    tickSize: Number(price.tickSize),
+    minNotional: notional?.notional ? Number(notional.notional) : null,
+  };
+}
+
+/**
+ * OKX `/api/v5/public/instruments`: sizes are in contracts, so lot and
+ * minimum size are scaled by the contract value `ctVal` into base units.
+ */
+export function parseOkxInstrument(payload: unknown, symbol: string): InstrumentSpec {
+  const body = payload as { code?: string; msg?: string; data?: Array<Record<string, string>> };
+  if (body?.code !== '0') {
+    throw new Error(`OKX instrument error: ${body?.msg || 'unknown response'}`);
+  }
+  const info = body.data?.[0];
+  if (!info) throw new Error(`OKX has no instrument ${symbol}`);
+  const contractValue = Number(info.ctVal || 1);
+  return {
+    symbol,
+    qtyStep: Number(info.lotSz) * contractValue,
+    minQty: Number(info.minSz) * contractValue,
+    tickSize: Number(info.tickSz),
+    minNotional: null,
+  };
+}
+
+// --- Exchange adapters ---
+
+const BYBIT_INTERVALS: Record<BarInterval, string> = { '5m': '5', '15m': '15', '1h': '60', '4h': '240' };
+const OKX_BARS: Record<BarInterval, string> = { '5m': '5m', '15m': '15m', '1h': '1H', '4h': '4H' };
+
+/** BTCUSDT -> BTC-USDT-SWAP */
+export function toOkxInstrument(symbol: string): string {
+  const s = symbol.toUpperCase();
+  if (s.includes('-')) return s;
+  const quote = ['USDT', 'USDC', 'USD'].find((q) => s.endsWith(q)) || 'USDT';
+  return `${s.slice(0, -quote.length)}-${quote}-SWAP`;
+}
+
+async function getJson(url: string): Promise<unknown> {
+  const res = await fetch(url);
+  if (!res.ok) {
+    throw new Error(`Request failed (${res.status}): ${url}`);
+  }
+  return res.json();
+}
+
+export const bybitAdapter: MarketDataAdapter = {
+  exchange: 'bybit',
+  maxPageSize: 1000,
+  fetchPage: async ({ symbol, interval, limit, endTime }) => {
+    const params = new URLSearchParams({
+      category: 'linear',
+      symbol: symbol.toUpperCase(),
+      interval: BYBIT_INTERVALS[interval],
+      end: String(endTime * 1000),
+      limit: String(limit),
+    });
+    return parseBybitKlines(await getJson(`https://api.bybit.com/v5/market/kline?${params}`));
+  },
+  fetchInstrument: async (symbol) => {
+    const params = new URLSearchParams({ category: 'linear', symbol: symbol.toUpperCase() });
+    const payload = await getJson(`https://api.bybit.com/v5/market/instruments-info?${params}`);
+    return parseBybitInstrument(payload, symbol.toUpperCase());
+  },
+};
+
+export const binanceAdapter: MarketDataAdapter = {
+  exchange: 'binance',
+  maxPageSize: 1500,
+  fetchPage: async ({ symbol, interval, limit, endTime }) => {
+    const params = new URLSearchParams({
+      symbol: symbol.toUpperCase(),
+      interval,
+      endTime: String(endTime * 1000),
+      limit: String(limit),
+    });
+    return parseBinanceKlines(await getJson(`https://fapi.binance.com/fapi/v1/klines?${params}`));
+  },
+  fetchInstrument: async (symbol) => {
+    const payload = await getJson('https://fapi.binance.com/fapi/v1/exchangeInfo');
+    return parseBinanceInstrument(payload, symbol.toUpperCase());
+  },
+};
+
+export const okxAdapter: MarketDataAdapter = {
+  exchange: 'okx',
+  maxPageSize: 100,
+  fetchPage: async ({ symbol, interval, limit, endTime }) => {
+    // `after` is exclusive on OKX, so nudge it one second past the requested end.
+    const params = new URLSearchParams({
+      instId: toOkxInstrument(symbol),
+      bar: OKX_BARS[interval],
+      after: String((endTime + 1) * 1000),
+      limit: String(limit),
+    });
+    return parseOkxKlines(await getJson(`https://www.okx.com/api/v5/market/history-candles?${params}`));
+  },
+  fetchInstrument: async (symbol) => {
+    const params = new URLSearchParams({ instType: 'SWAP', instId: toOkxInstrument(symbol) });
+    const payload = await getJson(`https://www.okx.com/api/v5/public/instruments?${params}`);
+    return parseOkxInstrument(payload, symbol.toUpperCase());
+  },
+};
+
+/**
+ * Adapter serving recorded klines instead of hitting an exchange. Fixtures are
+ * keyed by symbol and hold 15m bars; coarser intervals are resampled from them.
+ */
+export function createLocalAdapter(
+  loadFixtures: () => Promise<Record<string, Candle[]>> = async () =>
+    (await import('@/lib/fixtures/klines')).LOCAL_KLINES_15M
+): MarketDataAdapter {
+  return {
+    exchange: 'local',
+    maxPageSize: 1000,
+    fetchPage: async ({ symbol, interval, limit, endTime }: KlinePageRequest) => {
+      const fixtures = await loadFixtures();
+      const base = fixtures[symbol.toUpperCase()];
+      if (!base) {
+        throw new Error(`No local fixture for ${symbol}`);
+      }
+      const candles = resampleCandles(base, BAR_INTERVAL_SECONDS['15m'], interval);
+      return candles.filter((c) => c.time <= endTime).slice(-limit);
+    },
+  };
+}
+
+const ADAPTERS: Record<MarketDataExchange, MarketDataAdapter> = {
+  bybit: bybitAdapter,
+  binance: binanceAdapter,
+  okx: okxAdapter,
+  local: createLocalAdapter(),
+};
+
+export function getMarketDataAdapter(exchange: MarketDataExchange): MarketDataAdapter {
+  return ADAPTERS[exchange];
+}
+
+// --- Loading ---
+
+/**
+ * Aggregate bars into a coarser interval. Throws if the target interval is
+ * finer than the source or not a whole multiple of it.
+ */
+export function resampleCandles(candles: Candle[], sourceSeconds: number, interval: BarInterval): Candle[] {
+  const targetSeconds = BAR_INTERVAL_SECONDS[interval];
+  if (targetSeconds === sourceSeconds) return candles;
+  if (targetSeconds < sourceSeconds || targetSeconds % sourceSeconds !== 0) {
+    throw new Error(`Cannot resample ${sourceSeconds}s bars to ${interval}`);
+  }
+
+  const result: Candle[] = [];
+  for (const c of candles) {
+    const bucket = c.time - (c.time % targetSeconds);
+    const last = result[result.length - 1];
+    if (last && last.time === bucket) {
+      last.high = Math.max(last.high, c.high);
+      last.low = Math.min(last.low, c.low);
+      last.close = c.close;
+      last.volume += c.volume;
+    } else {
+      result.push({ ...c, time: bucket });
+    }
+  }
+  return result;
+}
+
+/**
+ * Load `limit` bars ending at `endTime`, paging backwards through the
+ * adapter until enough history is collected or the exchange runs out.
+ */
+export async function fetchCandles(adapter: MarketDataAdapter, request: CandleRequest): Promise<Candle[]> {
+  const { symbol, interval, limit } = request;
+  const step = BAR_INTERVAL_SECONDS[interval];
+  const byTime = new Map<number, Candle>();
+  let end = request.endTime ?? Math.floor(Date.now() / 1000);
+
+  while (byTime.size < limit) {
+    const pageSize = Math.min(adapter.maxPageSize, limit - byTime.size);
+    const page = await adapter.fetchPage({ symbol, interval, limit: pageSize, endTime: end });
+    if (page.length === 0) break;
+
+    page.forEach((c) => byTime.set(c.time, c));
+
+    const earliest = page[0].time;
+    if (page.length < pageSize || earliest > end) break;
+    end = earliest - step;
+  }
+
+  return sortAscending([...byTime.values()]).slice(-limit);
+}
+
+/**
+ * Inner-join two legs on bar open time. Bars missing on either side
+ * (listing gaps, maintenance) are dropped rather than forward-filled.
+ */
+export function alignCandles(candlesA: Candle[], candlesB: Candle[]): AlignedCandle[] {
+  const byTimeB = new Map(candlesB.map((c) => [c.time, c]));
+  const aligned: AlignedCandle[] = [];
+
+  for (const a of candlesA) {
+    const b = byTimeB.get(a.time);
+    if (b) aligned.push({ time: a.time, a, b });
+  }
+
+  return aligned.sort((x, y) => x.time - y.time);
+}
+
+/**
+ * Per-bar combiner for the pair construction. Both spreads are in log prices,
+ * where the pair metrics' β is estimated; Kalman mode runs the filter over the
+ * log closes first.
+ */
+function pairCombiner(aligned: AlignedCandle[], construction: PairConstruction) {
+  if (construction.mode === 'ratio') {
+    return (a: number, b: number) => a / b;
+  }
+  if (construction.mode === 'spread') {
+    return (a: number, b: number) => Math.log(a) - construction.beta * Math.log(b);
+  }
+  const hedge = kalmanHedgeRatio(
+    aligned.map((x) => Math.log(x.a.close)),
+    aligned.map((x) => Math.log(x.b.close)),
+    construction
+  );
+  return (a: number, b: number, i: number) => Math.log(a) - hedge.beta[i] * Math.log(b) - hedge.alpha[i];
+}
+
+const hasPositivePrices = (c: Candle) => c.open > 0 && c.close > 0 && c.high > 0 && c.low > 0;
+
+/**
+ * Build pair OHLC from aligned legs. Open and close are exact; intrabar
+ * high/low are not observable for a synthetic series, so they are bounded by
+ * combining the leg extremes the same way the ratio/spread is formed. Every
+ * construction moves monotonically with each leg, but B's direction depends
+ * on the sign of β, so all four high/low pairings are combined: the cross
+ * pairings (A high with B low and the reverse) bound A/B and A − β·B for
+ * β > 0, the matching ones bound it for β < 0.
+ */
+export function buildPairOHLC(aligned: AlignedCandle[], construction: PairConstruction = { mode: 'ratio' }): OHLCDataPoint[] {
+  const rows = aligned.filter(({ a, b }) => {
+    if (construction.mode === 'ratio') return hasPositivePrices(b);
+    return hasPositivePrices(a) && hasPositivePrices(b);
+  });
+  const combine = pairCombiner(rows, construction);
+
+  return rows.map(({ time, a, b }, i) => {
+    const open = combine(a.open, b.open, i);
+    const close = combine(a.close, b.close, i);
+    const extremes = [
+      combine(a.high, b.low, i),
+      combine(a.low, b.high, i),
+      combine(a.high, b.high, i),
+      combine(a.low, b.low, i),
+    ];
+
+    return {
+      time: time as Time,
+      open,
+      high: Math.max(open, close, ...extremes),
+      low: Math.min(open, close, ...extremes),
+      close,
+    };
+  });
+}
+
+/** Log-price spread ln(A) − β·ln(B) on closes, the series the statistical diagnostics run on. */
+export function buildLogSpread(aligned: AlignedCandle[], beta: number): number[] {
+  return aligned.map(({ a, b }) => Math.log(a.close) - beta * Math.log(b.close));
+}
+
+/** Close-to-close log returns of each leg; the first bar reports 0 so times line up with the pair series. */
+export function buildLegLogReturns(aligned: AlignedCandle[]): { a: IndicatorDataPoint[]; b: IndicatorDataPoint[] } {
+  const legReturns = (leg: 'a' | 'b') =>
+    aligned.map((row, i) => ({
+      time: row.time as Time,
+      value: i === 0 ? 0 : Math.log(row[leg].close / aligned[i - 1][leg].close),
+    }));
+  return { a: legReturns('a'), b: legReturns('b') };
+}
+
+export interface PairCandlesRequest {
+  exchange: MarketDataExchange;
+  symbolA: string;
+  symbolB: string;
+  interval: BarInterval;
+  limit: number;
+  endTime?: number;
+}
+
+export interface PairCandles {
+  candlesA: Candle[];
+  candlesB: Candle[];
+  aligned: AlignedCandle[];
+}
+
+/**
+ * Load both legs in parallel and align them by timestamp.
+ */
+export async function loadPairCandles({
+  exchange,
+  symbolA,
+  symbolB,
+  interval,
+  limit,
+  endTime,
+}: PairCandlesRequest): Promise<PairCandles> {
+  const adapter = getMarketDataAdapter(exchange);
+  const [candlesA, candlesB] = await Promise.all([
+    fetchCandles(adapter, { symbol: symbolA, interval, limit, endTime }),
+    fetchCandles(adapter, { symbol: symbolB, interval, limit, endTime }),
+  ]);
+
+  return { candlesA, candlesB, aligned: alignCandles(candlesA, candlesB) };
+}
@@ -0,0 +1,154 @@
+/**
+ * Mean-reversion diagnostics for spread series: Hurst exponent via rescaled
+ * range (R/S) and detrended fluctuation analysis (DFA), and the Lo-MacKinlay
+ * variance-ratio test.
+ *
+ * All functions take the spread level; estimators work on its increments.
+ * H < 0.5 and variance ratios below 1 both indicate mean reversion.
+ */
+
+import { diff, linearRegression, mean, normalCdf } from '@/lib/statistics';
+
+export interface ScalingPoint {
+  window: number;
+  /** R/S statistic or DFA fluctuation F(n) at this window size. */
+  value: number;
+}
+
+export interface HurstResult {
+  hurst: number;
+  /** Fit quality of the log-log regression. */
+  rSquared: number;
+  points: ScalingPoint[];
+}
+
+export interface HurstOptions {
+  minWindow?: number;
+  /** Defaults to a quarter of the sample so every window has at least four chunks. */
+  maxWindow?: number;
+  windowCount?: number;
+}
+
+export interface VarianceRatioResult {
+  q: number;
+  ratio: number;
+  /** Homoskedastic z-statistic. */
+  zStat: number;
+  /** Heteroskedasticity-robust z*-statistic. */
+  zRobust: number;
+  /** Two-sided p-value of z*. */
+  pValue: number;
+}
+
+/** Up to `count` distinct integer window sizes, log-spaced between min and max. */
+function logSpacedWindows(min: number, max: number, count: number): number[] {
+  if (max < min) return [];
+  const windows = new Set<number>();
+  const step = count > 1 ? Math.log(max / min) / (count - 1) : 0;
+  for (let i = 0; i < count; i++) windows.add(Math.round(min * Math.exp(step * i)));
+  return [...windows].sort((a, b) => a - b);
+}
+
+function fitScaling(points: ScalingPoint[]): HurstResult {
+  const valid = points.filter((p) => p.value > 0);
+  if (valid.length < 3) {
+    throw new Error('Hurst estimation needs at least three usable window sizes');
+  }
+  const fit = linearRegression(
+    valid.map((p) => Math.log(p.value)),
+    valid.map((p) => Math.log(p.window))
+  );
+  return { hurst: fit.slope, rSquared: fit.rSquared, points: valid };
+}
+
+function windowsFor(length: number, options: HurstOptions): number[] {
+  const { minWindow = 8, maxWindow = Math.floor(length / 4), windowCount = 16 } = options;
+  return logSpacedWindows(minWindow, maxWindow, windowCount);
+}
+
+/** Hurst exponent by classical rescaled-range analysis. */
+export function hurstRescaledRange(series: number[], options: HurstOptions = {}): HurstResult {
+  const increments = diff(series);
+  const points = windowsFor(increments.length, options).map((window) => {
+    const chunks = Math.floor(increments.length / window);
+    let total = 0;
+    let used = 0;
+    for (let c = 0; c < chunks; c++) {
+      const chunk = increments.slice(c * window, (c + 1) * window);
+      const m = mean(chunk);
+      let cumulative = 0;
+      let max = -Infinity;
+      let min = Infinity;
+      let squares = 0;
+      for (const v of chunk) {
+        cumulative += v - m;
+        max = Math.max(max, cumulative);
+        min = Math.min(min, cumulative);
+        squares += (v - m) * (v - m);
+      }
+      const sd = Math.sqrt(squares / window);
+      if (sd > 0) {
+        total += (max - min) / sd;
+        used++;
+      }
+    }
+    return { window, value: used > 0 ? total / used : 0 };
+  });
+  return fitScaling(points);
+}
+
+/** Hurst exponent by first-order detrended fluctuation analysis. */
+export function hurstDFA(series: number[], options: HurstOptions = {}): HurstResult {
+  const increments = diff(series);
+  const m = mean(increments);
+  const profile: number[] = [];
+  let cumulative = 0;
+  for (const v of increments) profile.push((cumulative += v - m));
+
+  const points = windowsFor(profile.length, options).map((window) => {
+    const chunks = Math.floor(profile.length / window);
+    const t = Array.from({ length: window }, (_, i) => i);
+    let squares = 0;
+    for (let c = 0; c < chunks; c++) {
+      const { residuals } = linearRegression(profile.slice(c * window, (c + 1) * window), t);
+      squares += residuals.reduce((acc, r) => acc + r * r, 0) / window;
+    }
+    return { window, value: chunks > 0 ? Math.sqrt(squares / chunks) : 0 };
+  });
+  return fitScaling(points);
+}
+
+/**
+ * Lo-MacKinlay (1988) variance-ratio test with overlapping q-period
+ * increments, reporting both the homoskedastic z and the robust z*.
+ */
+export function varianceRatioTest(series: number[], q: number): VarianceRatioResult {
+  const increments = diff(series);
+  const T = increments.length;
+  if (q < 2 || T < 2 * q) {
+    throw new Error(`Variance ratio with q=${q} needs at least ${2 * q + 1} observations`);
+  }
+
+  const mu = (series[T] - series[0]) / T;
+  const deviations = increments.map((d) => d - mu);
+  const sumSquares = deviations.reduce((acc, d) => acc + d * d, 0);
+  const varianceOne = sumSquares / (T - 1);
+
+  let qSquares = 0;
+  for (let t = q; t <= T; t++) qSquares += Math.pow(series[t] - series[t - q] - q * mu, 2);
+  const m = q * (T - q + 1) * (1 - q / T);
+  const ratio = qSquares / m / varianceOne;
+
+  const zStat = (ratio - 1) / Math.sqrt((2 * (2 * q - 1) * (q - 1)) / (3 * q * T));
+
+  let theta = 0;
+  for (let j = 1; j < q; j++) {
+    let delta = 0;
+    for (let t = j; t < T; t++) delta += deviations[t] * deviations[t] * deviations[t - j] * deviations[t - j];
+    delta /= sumSquares * sumSquares;
+    theta += Math.pow((2 * (q - j)) / q, 2) * delta;
+  }
+  const zRobust = theta > 0 ? (ratio - 1) / Math.sqrt(theta) : 0;
+
+  return { q, ratio, zStat, zRobust, pValue: 2 * (1 - normalCdf(Math.abs(zRobust))) };
+}
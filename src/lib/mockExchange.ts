@@ -0,0 +1,254 @@
+/**
+ * Deterministic in-process exchange behind the TradingAdapter interface. Fills
+ * happen at the configured price with no randomness, and rejects, partial
+ * fills, rate limits and one-off failures are all set up explicitly, so the
+ * execution flow's error paths can be exercised offline.
+ */
+
+import { tradingError } from '@/lib/trading';
+import type { MarginMode } from '@/types/sizing';
+import type {
+  Balance,
+  ExchangePosition,
+  OrderRequest,
+  OrderResult,
+  TradingAdapter,
+  TradingErrorKind,
+} from '@/types/trading';
+
+export interface MockExchangeOptions {
+  /** Last traded price per symbol; orders on other symbols are rejected. */
+  prices: Record<string, number>;
+  /** Starting USDT wallet balance. */
+  balance?: number;
+  /** Share of each order that fills, per symbol. Defaults to 1. */
+  fillRatios?: Record<string, number>;
+  /** Orders on these symbols are rejected outright. */
+  rejectSymbols?: string[];
+  /** Requests allowed per window; calls beyond it fail as rate limited. */
+  rateLimit?: { requests: number; windowMs: number };
+  /** Clock used for rate limiting. */
+  now?: () => number;
+}
+
+type AdapterMethod = Exclude<keyof TradingAdapter, 'exchange'>;
+
+export interface MockExchange extends TradingAdapter {
+  setPrice: (symbol: string, price: number) => void;
+  setFillRatio: (symbol: string, ratio: number) => void;
+  /** Make the next call to `method` throw a TradingError of this kind. */
+  failNext: (method: AdapterMethod, kind: TradingErrorKind, message?: string) => void;
+  /** Every order placed, in order, with its current state. */
+  orders: () => OrderResult[];
+  /** Number of adapter calls received, including rate-limited ones. */
+  requestCount: () => number;
+}
+
+interface MockPosition {
+  /** Signed quantity: positive long, negative short. */
+  quantity: number;
+  entryPrice: number;
+}
+
+const DEFAULT_LEVERAGE = 10;
+const MAX_LEVERAGE = 100;
+
+export function createMockExchange(options: MockExchangeOptions): MockExchange {
+  const now = options.now ?? Date.now;
+  const prices = new Map(Object.entries(options.prices));
+  const fillRatios = new Map(Object.entries(options.fillRatios ?? {}));
+  const rejectSymbols = new Set(options.rejectSymbols ?? []);
+  const leverages = new Map<string, number>();
+  const marginModes = new Map<string, MarginMode>();
+  const positions = new Map<string, MockPosition>();
+  const orders = new Map<string, OrderResult>();
+  const failures: Array<{ method: AdapterMethod; kind: TradingErrorKind; message: string }> = [];
+  const callTimes: number[] = [];
+  let wallet = options.balance ?? 100_000;
+  let requests = 0;
+  let nextId = 1;
+
+  const reject = (kind: TradingErrorKind, message: string) => tradingError('mock', kind, message);
+
+  /** Rate limit and scripted failures apply to every call before it does anything. */
+  const enter = (method: AdapterMethod) => {
+    requests++;
+    const scripted = failures.findIndex((f) => f.method === method);
+    if (scripted >= 0) {
+      const [failure] = failures.splice(scripted, 1);
+      throw reject(failure.kind, failure.message);
+    }
+    if (options.rateLimit) {
+      const t = now();
+      const { requests: limit, windowMs } = options.rateLimit;
+      while (callTimes.length > 0 && callTimes[0] <= t - windowMs) callTimes.shift();
+      if (callTimes.length >= limit) {
+        throw tradingError('mock', 'rate_limited', 'Too many requests', {
+          code: '429',
+          retryAfterMs: callTimes[0] + windowMs - t,
+        });
+      }
+      callTimes.push(t);
+    }
+  };
+
+  const priceOf = (symbol: string) => {
+    const price = prices.get(symbol);
+    if (price === undefined) throw reject('rejected', `Unknown symbol ${symbol}`);
+    return price;
+  };
+
+  const leverageOf = (symbol: string) => leverages.get(symbol) ?? DEFAULT_LEVERAGE;
+
+  const unrealized = (symbol: string, position: MockPosition) =>
+    position.quantity * (priceOf(symbol) - position.entryPrice);
+
+  const usedMargin = () =>
+    [...positions].reduce((sum, [symbol, p]) => sum + (Math.abs(p.quantity) * priceOf(symbol)) / leverageOf(symbol), 0);
+
+  const equity = () => wallet + [...positions].reduce((sum, [symbol, p]) => sum + unrealized(symbol, p), 0);
+
+  /** Apply a signed fill to the symbol's net position, realizing PnL on any reduction. */
+  const applyFill = (symbol: string, delta: number, price: number) => {
+    const current = positions.get(symbol) ?? { quantity: 0, entryPrice: 0 };
+    const q = current.quantity;
+    let entry = current.entryPrice;
+    if (q === 0 || Math.sign(q) === Math.sign(delta)) {
+      entry = (Math.abs(q) * entry + Math.abs(delta) * price) / (Math.abs(q) + Math.abs(delta));
+    } else {
+      const closing = Math.min(Math.abs(delta), Math.abs(q));
+      wallet += closing * (price - entry) * Math.sign(q);
+      if (Math.abs(delta) > Math.abs(q)) entry = price;
+    }
+    const quantity = q + delta;
+    if (Math.abs(quantity) < 1e-12) positions.delete(symbol);
+    else positions.set(symbol, { quantity, entryPrice: entry });
+  };
+
+  /** Match an order against the configured price the moment it arrives. */
+  const fill = async (order: OrderRequest): Promise<OrderResult> => {
+    const price = priceOf(order.symbol);
+    if (rejectSymbols.has(order.symbol)) throw reject('rejected', `Order rejected for ${order.symbol}`);
+    if (!(order.quantity > 0)) throw reject('rejected', 'Quantity must be positive');
+    if (order.type === 'limit' && !(order.price && order.price > 0)) throw reject('rejected', 'Limit orders need a price');
+
+    const sign = order.side === 'buy' ? 1 : -1;
+    const held = positions.get(order.symbol)?.quantity ?? 0;
+    let quantity = order.quantity;
+    if (order.reduceOnly) {
+      if (held === 0 || Math.sign(held) === sign) throw reject('rejected', `Nothing to reduce on ${order.symbol}`);
+      quantity = Math.min(quantity, Math.abs(held));
+    }
+
+    const marketable = order.type === 'market'
+      || (order.side === 'buy' ? (order.price as number) >= price : (order.price as number) <= price);
+    const ratio = Math.min(1, Math.max(0, fillRatios.get(order.symbol) ?? 1));
+    const filled = marketable ? quantity * ratio : 0;
+
+    if (!order.reduceOnly) {
+      const required = (filled * price) / leverageOf(order.symbol);
+      if (required > equity() - usedMargin()) throw reject('insufficient_balance', 'Insufficient available balance');
+    }
+    if (filled > 0) applyFill(order.symbol, sign * filled, price);
+
+    // Market and IOC remainders are cancelled; a resting limit keeps working
+    const rests = order.type === 'limit' && order.timeInForce !== 'ioc';
+    let status: OrderResult['status'] = 'filled';
+    if (filled < quantity) status = rests ? (filled > 0 ? 'partially_filled' : 'new') : 'cancelled';
+
+    const result: OrderResult = {
+      orderId: `mock-${nextId++}`,
+      clientOrderId: order.clientOrderId ?? null,
+      symbol: order.symbol,
+      side: order.side,
+      status,
+      quantity,
+      filledQuantity: filled,
+      avgPrice: filled > 0 ? price : null,
+    };
+    orders.set(result.orderId, result);
+    return { ...result };
+  };
+
+  const findOrder = (symbol: string, orderId: string) => {
+    const order = orders.get(orderId);
+    if (!order || order.symbol !== symbol) throw reject('not_found', `Order ${orderId} not found`);
+    return order;
+  };
+
+  return {
+    exchange: 'mock',
+    submitOrder: async (order) => {
+      enter('submitOrder');
+      return (await fill(order)).orderId;
+    },
+    placeOrder: async (order) => {
+      enter('placeOrder');
+      return fill(order);
+    },
+    cancelOrder: async (symbol, orderId) => {
+      enter('cancelOrder');
+      const order = findOrder(symbol, orderId);
+      if (order.status !== 'new' && order.status !== 'partially_filled') {
+        throw reject('rejected', `Order ${orderId} is already ${order.status}`);
+      }
+      order.status = 'cancelled';
+      return { ...order };
+    },
+    getOrder: async (symbol, orderId) => {
+      enter('getOrder');
+      return { ...findOrder(symbol, orderId) };
+    },
+    getOrderByClientId: async (symbol, clientOrderId) => {
+      enter('getOrderByClientId');
+      const order = [...orders.values()].find((o) => o.clientOrderId === clientOrderId && o.symbol === symbol);
+      if (!order) throw reject('not_found', `Order ${clientOrderId} not found`);
+      return { ...order };
+    },
+    getPositions: async () => {
+      enter('getPositions');
+      return [...positions].map(([symbol, p]): ExchangePosition => ({
+        symbol,
+        side: p.quantity > 0 ? 'long' : 'short',
+        size: Math.abs(p.quantity),
+        entryPrice: p.entryPrice,
+        markPrice: priceOf(symbol),
+        unrealizedPnl: unrealized(symbol, p),
+        leverage: leverageOf(symbol),
+        marginMode: marginModes.get(symbol) ?? 'cross',
+        liquidationPrice: null,
+      }));
+    },
+    getBalances: async (): Promise<Balance[]> => {
+      enter('getBalances');
+      const total = equity();
+      return [{ asset: 'USDT', total, available: Math.max(0, total - usedMargin()) }];
+    },
+    setLeverage: async (symbol, leverage) => {
+      enter('setLeverage');
+      priceOf(symbol);
+      if (!(leverage >= 1 && leverage <= MAX_LEVERAGE)) throw reject('rejected', `Leverage ${leverage} out of range`);
+      leverages.set(symbol, leverage);
+    },
+    setMarginMode: async (symbol, mode, leverage) => {
+      enter('setMarginMode');
+      priceOf(symbol);
+      if (positions.has(symbol) && (marginModes.get(symbol) ?? 'cross') !== mode) {
+        throw reject('rejected', `Cannot change margin mode with an open ${symbol} position`);
+      }
+      marginModes.set(symbol, mode);
+      leverages.set(symbol, leverage);
+    },
+    setPrice: (symbol, price) => {
+      prices.set(symbol, price);
+    },
+    setFillRatio: (symbol, ratio) => {
+      fillRatios.set(symbol, ratio);
+    },
+    failNext: (method, kind, message = `Scripted ${kind} failure`) => {
+      failures.push({ method, kind, message });
+    },
+    orders: () => [...orders.values()].map((o) => ({ ...o })),
+    requestCount: () => requests,
+  };
+}
@@ -0,0 +1,223 @@
+/**
+ * Ornstein-Uhlenbeck estimation for spread series:
+ *   dX = θ(μ − X)dt + σ dW
+ *
+ * Time is measured in bars (Δt = 1); half-lives are converted to hours using
+ * the bar interval. Two estimators are provided: AR(1) regression with
+ * delta-method confidence intervals, and exact maximum likelihood with
+ * intervals from the observed Fisher information.
+ */
+
+import { invertMatrix, ols } from '@/lib/statistics';
+import { BAR_INTERVAL_SECONDS, BarInterval } from '@/types/marketData';
+
+export type OUMethod = 'ar1' | 'mle';
+
+/** Two-sided 95% normal quantile. */
+const Z_95 = 1.959964;
+
+export interface OUEstimate {
+  value: number;
+  /** 95% confidence bounds; null when the interval can't be formed. */
+  lower: number | null;
+  upper: number | null;
+}
+
+export interface OUFit {
+  method: OUMethod;
+  /** Mean-reversion speed per bar. */
+  theta: OUEstimate;
+  mu: OUEstimate;
+  /** Diffusion per √bar. */
+  sigma: OUEstimate;
+  halfLifeBars: OUEstimate;
+  halfLifeHours: OUEstimate;
+  /** Mean-reversion speed per hour, comparable to pair_metrics.ou_theta. */
+  thetaPerHour: number;
+  /** Stationary standard deviation, σ / √(2θ). */
+  equilibriumStd: number;
+  nobs: number;
+}
+
+export interface OUPathPoint {
+  step: number;
+  mean: number;
+  /** ±1.96 conditional standard deviations around the mean. */
+  lower: number;
+  upper: number;
+}
+
+const barHours = (interval: BarInterval) => BAR_INTERVAL_SECONDS[interval] / 3600;
+
+const estimate = (value: number, se: number | null): OUEstimate =>
+  se === null || !Number.isFinite(se)
+    ? { value, lower: null, upper: null }
+    : { value, lower: value - Z_95 * se, upper: value + Z_95 * se };
+
+/** Half-life bounds come from the θ bounds, inverted (faster reversion → shorter half-life). */
+function halfLifeFrom(theta: OUEstimate, scale: number): OUEstimate {
+  const toHalfLife = (t: number) => (t > 0 ? (Math.LN2 / t) * scale : Infinity);
+  return {
+    value: toHalfLife(theta.value),
+    lower: theta.upper === null ? null : toHalfLife(theta.upper),
+    upper: theta.lower === null ? null : toHalfLife(theta.lower),
+  };
+}
+
+function buildFit(
+  method: OUMethod,
+  theta: OUEstimate,
+  mu: OUEstimate,
+  sigma: OUEstimate,
+  interval: BarInterval,
+  nobs: number
+): OUFit {
+  const hours = barHours(interval);
+  return {
+    method,
+    theta,
+    mu,
+    sigma,
+    halfLifeBars: halfLifeFrom(theta, 1),
+    halfLifeHours: halfLifeFrom(theta, hours),
+    thetaPerHour: theta.value / hours,
+    equilibriumStd: sigma.value / Math.sqrt(2 * theta.value),
+    nobs,
+  };
+}
+
+/**
+ * AR(1) regression X_{t+1} = a + b·X_t + ε, mapped to θ = −ln b,
+ * μ = a / (1 − b) and σ = s·√(2θ / (1 − b²)).
+ * Returns null when b is outside (0, 1), i.e. no mean reversion.
+ */
+export function fitOUAR1(series: number[], interval: BarInterval): OUFit | null {
+  if (series.length < 10) return null;
+
+  const fit = ols(series.slice(1), series.slice(0, -1).map((x) => [1, x]));
+  const [a, b] = fit.coefficients;
+  if (!(b > 0 && b < 1)) return null;
+
+  const theta = -Math.log(b);
+  const seB = fit.standardErrors[1];
+  const bHigh = b + Z_95 * seB;
+  const bLow = b - Z_95 * seB;
+  const thetaEstimate: OUEstimate = {
+    value: theta,
+    lower: bHigh >= 1 ? 0 : -Math.log(bHigh),
+    upper: bLow <= 0 ? null : -Math.log(bLow),
+  };
+
+  // Delta method: ∂μ/∂a = 1/(1−b), ∂μ/∂b = a/(1−b)²
+  const ga = 1 / (1 - b);
+  const gb = a / Math.pow(1 - b, 2);
+  const [[vaa, vab], [, vbb]] = fit.covariance;
+  const muVariance = ga * ga * vaa + 2 * ga * gb * vab + gb * gb * vbb;
+
+  // σ interval ignores θ uncertainty: se(σ̂) ≈ σ̂ / √(2(n − 2))
+  const sigma = Math.sqrt(fit.sigma2 * (2 * theta) / (1 - b * b));
+  const sigmaSe = sigma / Math.sqrt(2 * (fit.nobs - 2));
+
+  return buildFit(
+    'ar1',
+    thetaEstimate,
+    estimate(a / (1 - b), Math.sqrt(Math.max(muVariance, 0))),
+    estimate(sigma, sigmaSe),
+    interval,
+    fit.nobs
+  );
+}
+
+/** Exact OU transition log-likelihood for Δt = 1. */
+function ouLogLikelihood(series: number[], theta: number, mu: number, sigma: number): number {
+  if (theta <= 0 || sigma <= 0) return -Infinity;
+  const decay = Math.exp(-theta);
+  const variance = (sigma * sigma * (1 - decay * decay)) / (2 * theta);
+  let ll = 0;
+  for (let i = 1; i < series.length; i++) {
+    const mean = mu + (series[i - 1] - mu) * decay;
+    ll += -0.5 * Math.log(2 * Math.PI * variance) - Math.pow(series[i] - mean, 2) / (2 * variance);
+  }
+  return ll;
+}
+
+/** Central-difference Hessian of f at p. */
+function numericalHessian(f: (p: number[]) => number, p: number[]): number[][] {
+  const h = p.map((v) => 1e-4 * Math.max(Math.abs(v), 1e-6));
+  const shifted = (i: number, si: number, j: number, sj: number) => {
+    const q = [...p];
+    q[i] += si * h[i];
+    q[j] += sj * h[j];
+    return f(q);
+  };
+  return p.map((_, i) =>
+    p.map((__, j) =>
+      (shifted(i, 1, j, 1) - shifted(i, 1, j, -1) - shifted(i, -1, j, 1) + shifted(i, -1, j, -1)) / (4 * h[i] * h[j])
+    )
+  );
+}
+
+/**
+ * Maximum-likelihood fit using the closed-form estimators for equally spaced
+ * observations. Confidence intervals come from the inverse of the numerical
+ * Hessian of the negative log-likelihood. Returns null when the data show no
+ * mean reversion.
+ */
+export function fitOUMLE(series: number[], interval: BarInterval): OUFit | null {
+  if (series.length < 10) return null;
+
+  const n = series.length - 1;
+  let sx = 0, sy = 0, sxx = 0, sxy = 0, syy = 0;
+  for (let i = 1; i <= n; i++) {
+    const x = series[i - 1];
+    const y = series[i];
+    sx += x;
+    sy += y;
+    sxx += x * x;
+    sxy += x * y;
+    syy += y * y;
+  }
+
+  const mu = (sy * sxx - sx * sxy) / (n * (sxx - sxy) - (sx * sx - sx * sy));
+  const decay = (sxy - mu * sx - mu * sy + n * mu * mu) / (sxx - 2 * mu * sx + n * mu * mu);
+  if (!Number.isFinite(mu) || !(decay > 0 && decay < 1)) return null;
+
+  const theta = -Math.log(decay);
+  const residualVariance =
+    (syy - 2 * decay * sxy + decay * decay * sxx
+      - 2 * mu * (1 - decay) * (sy - decay * sx)
+      + n * mu * mu * Math.pow(1 - decay, 2)) / n;
+  const sigma = Math.sqrt((residualVariance * 2 * theta) / (1 - decay * decay));
+
+  const hessian = numericalHessian((p) => -ouLogLikelihood(series, p[0], p[1], p[2]), [theta, mu, sigma]);
+  const covariance = invertMatrix(hessian);
+  const se = (i: number) => {
+    const v = covariance?.[i][i];
+    return v !== undefined && v > 0 ? Math.sqrt(v) : null;
+  };
+
+  const thetaEstimate = estimate(theta, se(0));
+  if (thetaEstimate.lower !== null) thetaEstimate.lower = Math.max(thetaEstimate.lower, 0);
+
+  return buildFit('mle', thetaEstimate, estimate(mu, se(1)), estimate(sigma, se(2)), interval, n);
+}
+
+export function fitOU(series: number[], interval: BarInterval, method: OUMethod): OUFit | null {
+  return method === 'mle' ? fitOUMLE(series, interval) : fitOUAR1(series, interval);
+}
+
+/**
+ * Expected path E[X_{t+k} | X_t = start] = μ + (start − μ)·e^{−θk} with a 95%
+ * band from the conditional variance σ²(1 − e^{−2θk}) / 2θ.
+ */
+export function ouExpectedPath(fit: OUFit, start: number, steps: number): OUPathPoint[] {
+  const theta = fit.theta.value;
+  const mu = fit.mu.value;
+  const sigma = fit.sigma.value;
+  return Array.from({ length: steps + 1 }, (_, step) => {
+    const decay = Math.exp(-theta * step);
+    const mean = mu + (start - mu) * decay;
+    const sd = Math.sqrt((sigma * sigma * (1 - decay * decay)) / (2 * theta));
+    return { step, mean, lower: mean - Z_95 * sd, upper: mean + Z_95 * sd };
+  });
+}
@@ -0,0 +1,195 @@
+/**
+ * Sending a pair execution's two legs to an exchange. Legs go out one after
+ * the other; if the second can't be opened the first is flattened again, and
+ * if it only partly fills the fuller leg is trimmed back to the hedge ratio.
+ * When that unwind or trim falls short, or a placed order can't be read back,
+ * the outcome is unwind_failed, so the unhedged leg is recorded and shown
+ * rather than lost with the failure.
+ */
+
+import { awaitOrderSettled, closingSide, isTradingError } from '@/lib/trading';
+import type { ExecutionOrderDetails, ExecutionOrderLeg } from '@/types/execution';
+import type { OrderRequest, OrderResult, PairLegOrder, PairOrderOutcome, TradingAdapter } from '@/types/trading';
+
+export interface PairOrderOptions {
+  /** Attempts after the first when the exchange rate-limits a call. */
+  maxRetries?: number;
+  /** Backoff when the exchange doesn't say how long to wait; doubles per attempt. */
+  baseDelayMs?: number;
+  sleep?: (ms: number) => Promise<void>;
+  /** Alphanumeric prefix for client order ids, e.g. the execution id without dashes. */
+  clientOrderPrefix?: string;
+}
+
+// Relative size below which a leg counts as already at the hedge ratio
+const TRIM_TOLERANCE = 1e-9;
+
+const defaultSleep = (ms: number) => new Promise<void>((resolve) => setTimeout(resolve, ms));
+
+const errorMessage = (e: unknown) => (e instanceof Error ? e.message : String(e));
+
+/**
+ * Run an exchange call, retrying only on rate limits. Anything else, including
+ * network errors on order placement, is surfaced rather than retried since the
+ * first attempt may have gone through.
+ */
+export async function withRateLimitRetry<T>(
+  call: () => Promise<T>,
+  { maxRetries = 3, baseDelayMs = 500, sleep = defaultSleep }: PairOrderOptions = {}
+): Promise<T> {
+  for (let attempt = 0; ; attempt++) {
+    try {
+      return await call();
+    } catch (e) {
+      if (!isTradingError(e) || e.kind !== 'rate_limited' || attempt >= maxRetries) throw e;
+      await sleep(e.retryAfterMs ?? baseDelayMs * 2 ** attempt);
+    }
+  }
+}
+
+/**
+ * Every leg goes out as an immediate-or-cancel limit at its worst price. That
+ * caps slippage like a protected market order, and nothing is left resting
+ * on the book, where one leg could fill hours after the other.
+ */
+export function legOrderRequest(leg: ExecutionOrderLeg, clientOrderId?: string): OrderRequest {
+  return {
+    symbol: leg.symbol,
+    side: leg.side,
+    type: 'limit',
+    quantity: leg.quantity,
+    price: leg.worst_price,
+    timeInForce: 'ioc',
+    clientOrderId,
+  };
+}
+
+interface SentOrder {
+  order: OrderResult | null;
+  error: string | null;
+  /** The order may have gone through, but what it filled couldn't be read. */
+  unknown: boolean;
+}
+
+/**
+ * Send one order and read it back until it settles. The submit and the reads
+ * are retried separately, so a rate-limited read never sends the order again.
+ * Orders with a client id are read by it, which also finds an order whose
+ * submit failed in transit after reaching the exchange.
+ */
+async function sendOrder(adapter: TradingAdapter, request: OrderRequest, options: PairOrderOptions): Promise<SentOrder> {
+  const retry = <T>(call: () => Promise<T>) => withRateLimitRetry(call, options);
+  const { symbol, clientOrderId } = request;
+  let orderId: string | null = null;
+  try {
+    orderId = await retry(() => adapter.submitOrder(request));
+  } catch (e) {
+    const lost = clientOrderId && isTradingError(e) && e.kind === 'network';
+    if (!lost) return { order: null, error: errorMessage(e), unknown: false };
+    try {
+      await retry(() => adapter.getOrderByClientId(symbol, clientOrderId));
+    } catch (lookup) {
+      const absent = isTradingError(lookup) && lookup.kind === 'not_found';
+      return { order: null, error: errorMessage(e), unknown: !absent };
+    }
+  }
+
+  const read = () =>
+    clientOrderId ? adapter.getOrderByClientId(symbol, clientOrderId) : adapter.getOrder(symbol, orderId as string);
+  try {
+    const order = await awaitOrderSettled(() => retry(read), { sleep: options.sleep });
+    return { order, error: order.filledQuantity > 0 ? null : `Not filled (${order.status})`, unknown: false };
+  } catch (e) {
+    return { order: null, error: `Placed, but its fill could not be read: ${errorMessage(e)}`, unknown: true };
+  }
+}
+
+export async function executePairOrders(
+  adapter: TradingAdapter,
+  details: ExecutionOrderDetails,
+  options: PairOrderOptions = {}
+): Promise<PairOrderOutcome> {
+  const retry = <T>(call: () => Promise<T>) => withRateLimitRetry(call, options);
+  const clientId = (suffix: string) => (options.clientOrderPrefix ? `${options.clientOrderPrefix}${suffix}` : undefined);
+  const legs: PairLegOrder[] = details.legs.map((leg) => ({ symbol: leg.symbol, order: null, error: null }));
+  const fail = (error: string, unwind: OrderResult | null = null): PairOrderOutcome => ({ status: 'failed', legs, unwind, error });
+  const stranded = (error: string, unwind: OrderResult | null = null): PairOrderOutcome => ({
+    status: 'unwind_failed',
+    legs,
+    unwind,
+    error,
+  });
+
+  for (const leg of details.legs) {
+    try {
+      await retry(() => adapter.setMarginMode(leg.symbol, details.margin_mode, leg.leverage));
+      await retry(() => adapter.setLeverage(leg.symbol, leg.leverage));
+    } catch (e) {
+      return fail(`Could not set ${details.margin_mode} ${leg.leverage}× on ${leg.symbol}: ${errorMessage(e)}`);
+    }
+  }
+
+  const place = async (index: number, suffix: string) => {
+    const sent = await sendOrder(adapter, legOrderRequest(details.legs[index], clientId(suffix)), options);
+    legs[index].order = sent.order;
+    legs[index].error = sent.error;
+    return sent;
+  };
+
+  /** Reduce-only market order taking `quantity` off a leg that is open. */
+  const reduce = (leg: ExecutionOrderLeg, quantity: number, suffix: string) =>
+    sendOrder(
+      adapter,
+      {
+        symbol: leg.symbol,
+        side: closingSide(leg.side),
+        type: 'market',
+        quantity,
+        reduceOnly: true,
+        clientOrderId: clientId(suffix),
+      },
+      options
+    );
+
+  const [legA, legB] = details.legs;
+  const sentA = await place(0, 'a');
+  if (sentA.unknown) return stranded(`${legA.symbol}: ${sentA.error}`);
+  const filledA = sentA.order?.filledQuantity ?? 0;
+  if (filledA <= 0) return fail(`${legA.symbol}: ${legs[0].error}`);
+
+  const sentB = await place(1, 'b');
+  if (sentB.unknown) return stranded(`${legB.symbol}: ${sentB.error}; ${legA.symbol} is open`);
+  const filledB = sentB.order?.filledQuantity ?? 0;
+  if (filledB <= 0) {
+    const failure = `${legB.symbol}: ${legs[1].error}`;
+    const unwind = await reduce(legA, filledA, 'u');
+    if (!unwind.order) return stranded(`${failure}; unwinding ${legA.symbol} failed: ${unwind.error}`);
+    const residual = filledA - unwind.order.filledQuantity;
+    if (residual > 0) return stranded(`${failure}; ${residual} ${legA.symbol} still open after unwind`, unwind.order);
+    return fail(`${failure}; ${legA.symbol} unwound`, unwind.order);
+  }
+
+  const partial = filledA < legA.quantity || filledB < legB.quantity;
+  if (!partial) return { status: 'filled', legs, unwind: null, error: null };
+
+  // The legs only hedge each other at the ratio they were sized to, so the
+  // leg that filled the larger share is cut back to the other's share
+  const summary = `Partial fill: ${filledA}/${legA.quantity} ${legA.symbol}, ${filledB}/${legB.quantity} ${legB.symbol}`;
+  const share = Math.min(filledA / legA.quantity, filledB / legB.quantity);
+  const [fuller, filled] = filledA / legA.quantity > share ? [legA, filledA] : [legB, filledB];
+  const excess = filled - fuller.quantity * share;
+  if (excess <= fuller.quantity * TRIM_TOLERANCE) return { status: 'partial', legs, unwind: null, error: summary };
+
+  const trim = await reduce(fuller, excess, 'r');
+  if (!trim.order) return stranded(`${summary}; trimming ${fuller.symbol} failed: ${trim.error}`);
+  const residual = excess - trim.order.filledQuantity;
+  if (residual > fuller.quantity * TRIM_TOLERANCE) {
+    return stranded(`${summary}; ${residual} ${fuller.symbol} over the hedge ratio still open`, trim.order);
+  }
+  return {
+    status: 'partial',
+    legs,
+    unwind: trim.order,
+    error: `${summary}; trimmed ${trim.order.filledQuantity} ${fuller.symbol} to the hedge ratio`,
+  };
+}
@@ -0,0 +1,126 @@
+/**
+ * Client-side pair scan: the same statistics the server-side scanner stores
+ * in pair_metrics, computed for an ad-hoc symbol universe and checked
+ * against one user's thresholds.
+ */
+
+import { engleGrangerTest } from '@/lib/cointegration';
+import { alignCandles, buildLogSpread } from '@/lib/marketData';
+import { hurstDFA } from '@/lib/meanReversion';
+import { fitOUAR1 } from '@/lib/ornsteinUhlenbeck';
+import { correlation, diff } from '@/lib/statistics';
+import type { BarInterval, Candle } from '@/types/marketData';
+import type { PairScanResult, ScanFilter, ScanThresholds } from '@/types/scanner';
+
+/** Parse a pasted symbol list (commas, spaces or new lines), uppercased and de-duplicated. */
+export function parseSymbolList(text: string): string[] {
+  const symbols = text
+    .split(/[\s,;]+/)
+    .map((s) => s.trim().toUpperCase())
+    .filter(Boolean);
+  return [...new Set(symbols)];
+}
+
+/** Every unordered pair of distinct symbols, in input order. */
+export function enumeratePairs(symbols: string[]): [string, string][] {
+  const pairs: [string, string][] = [];
+  for (let i = 0; i < symbols.length; i++) {
+    for (let j = i + 1; j < symbols.length; j++) pairs.push([symbols[i], symbols[j]]);
+  }
+  return pairs;
+}
+
+/** Filters a pair fails; a metric that could not be computed counts as a failure. */
+export function evaluateScanFilters(
+  metrics: Omit<PairScanResult, 'symbolA' | 'symbolB' | 'bars' | 'failures'>,
+  thresholds: ScanThresholds
+): ScanFilter[] {
+  const failures: ScanFilter[] = [];
+  if (metrics.correlation === null || metrics.correlation < thresholds.minCorrelation) {
+    failures.push('correlation');
+  }
+  if (metrics.cointegrationPValue === null || metrics.cointegrationPValue > thresholds.maxCointegrationPValue) {
+    failures.push('cointegration');
+  }
+  if (metrics.ouThetaPerHour === null || metrics.ouThetaPerHour < thresholds.ouThetaMin) {
+    failures.push('ou_theta');
+  }
+  if (metrics.halfLifeHours === null || metrics.halfLifeHours > thresholds.halfLifeMaxHours) {
+    failures.push('half_life');
+  }
+  if (metrics.hurst === null || metrics.hurst > thresholds.hurstMax) {
+    failures.push('hurst');
+  }
+  return failures;
+}
+
+function attempt<T>(compute: () => T): T | null {
+  try {
+    return compute();
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Compute correlation, cointegration, OU and Hurst for one pair on its
+ * overlapping bars. Pairs with fewer than `minBars` overlapping bars are
+ * reported with a 'data' failure and no metrics.
+ */
+export function scanPair(
+  symbolA: string,
+  symbolB: string,
+  candlesA: Candle[],
+  candlesB: Candle[],
+  interval: BarInterval,
+  thresholds: ScanThresholds,
+  minBars: number
+): PairScanResult {
+  const aligned = alignCandles(candlesA, candlesB);
+  const base = { symbolA, symbolB, bars: aligned.length };
+
+  if (aligned.length < minBars) {
+    return {
+      ...base,
+      correlation: null,
+      cointegrationPValue: null,
+      hedgeRatio: null,
+      ouThetaPerHour: null,
+      halfLifeHours: null,
+      hurst: null,
+      failures: ['data'],
+    };
+  }
+
+  const logA = aligned.map((x) => Math.log(x.a.close));
+  const logB = aligned.map((x) => Math.log(x.b.close));
+  const eg = attempt(() => engleGrangerTest(logA, logB));
+  const spread = buildLogSpread(aligned, eg?.beta ?? 1);
+  const ou = attempt(() => fitOUAR1(spread, interval));
+
+  const metrics = {
+    correlation: correlation(diff(logA), diff(logB)),
+    cointegrationPValue: eg?.pValue ?? null,
+    hedgeRatio: eg?.beta ?? null,
+    ouThetaPerHour: ou?.thetaPerHour ?? null,
+    halfLifeHours: ou?.halfLifeHours.value ?? null,
+    hurst: attempt(() => hurstDFA(spread).hurst),
+  };
+
+  return { ...base, ...metrics, failures: evaluateScanFilters(metrics, thresholds) };
+}
+
+// Untestable pairs rank below any pair that was actually measured
+const failureRank = (r: PairScanResult) => (r.failures.includes('data') ? Number.MAX_SAFE_INTEGER : r.failures.length);
+
+/**
+ * Ranking for scan results: pairs passing every filter first, then by fewest
+ * failed filters, lowest cointegration p-value and shortest half-life.
+ */
+export function compareScanResults(a: PairScanResult, b: PairScanResult): number {
+  return (
+    failureRank(a) - failureRank(b) ||
+    (a.cointegrationPValue ?? Infinity) - (b.cointegrationPValue ?? Infinity) ||
+    (a.halfLifeHours ?? Infinity) - (b.halfLifeHours ?? Infinity)
+  );
+}
@@ -0,0 +1,164 @@
+import { supabase } from '@/integrations/supabase/client';
+import type { Database, Json } from '@/integrations/supabase/types';
+import { logAuditEvent } from '@/lib/audit';
+import { ExecutionRow, recordExecutionClose, transitionExecution } from '@/lib/executionStore';
+import { parseOrderDetails } from '@/lib/executions';
+import { loadPairCandles } from '@/lib/marketData';
+import { buildPaperPosition, closePaperPosition, parseFills, spreadStatsBefore } from '@/lib/paperTrading';
+import type { BarInterval } from '@/types/marketData';
+import {
+  PAPER_MARK_INTERVAL,
+  PAPER_PRICE_EXCHANGE,
+  PAPER_SPREAD_LOOKBACK_BARS,
+  PAPER_SPREAD_MIN_BARS,
+  PaperCloseReason,
+  PaperSettings,
+} from '@/types/paper';
+
+export type PaperPositionRow = Database['public']['Tables']['paper_positions']['Row'];
+
+export interface PairPrices {
+  priceA: number;
+  priceB: number;
+  /** Open time of the bar the prices were taken from, in unix seconds. */
+  time: number;
+}
+
+/** Latest recorded price of both legs: the close of the newest bar they share. */
+export async function latestPairPrices(symbolA: string, symbolB: string): Promise<PairPrices> {
+  const { aligned } = await loadPairCandles({
+    exchange: PAPER_PRICE_EXCHANGE,
+    symbolA,
+    symbolB,
+    interval: PAPER_MARK_INTERVAL,
+    limit: 3,
+  });
+  const last = aligned[aligned.length - 1];
+  if (!last) throw new Error(`No recent prices for ${symbolA}/${symbolB}`);
+  return { priceA: last.a.close, priceB: last.b.close, time: last.time };
+}
+
+/**
+ * Fill a confirmed paper execution: take it to pending, simulate both legs at
+ * the latest recorded prices, open the position, and finish the execution as
+ * success. Any failure along the way marks the execution failed with the
+ * reason, and comes back as that failed row with no position.
+ */
+export async function fillPaperExecution(
+  execution: ExecutionRow,
+  settings: PaperSettings,
+  interval: BarInterval
+): Promise<{ execution: ExecutionRow; position: PaperPositionRow | null }> {
+  const details = parseOrderDetails(execution.order_details);
+  if (!details || details.venue !== 'paper') throw new Error('Not a paper execution');
+
+  // A refused move to pending (a trading halt, say) fails the row from confirmed
+  let current = execution;
+  let position: PaperPositionRow;
+  try {
+    const pending = await transitionExecution(execution, 'pending');
+    current = pending;
+    const [legA, legB] = details.legs;
+    const { aligned } = await loadPairCandles({
+      exchange: PAPER_PRICE_EXCHANGE,
+      symbolA: legA.symbol,
+      symbolB: legB.symbol,
+      interval,
+      limit: PAPER_SPREAD_LOOKBACK_BARS + 1,
+    });
+    const last = aligned[aligned.length - 1];
+    if (!last) throw new Error(`No recent prices for ${legA.symbol}/${legB.symbol}`);
+    const stats = spreadStatsBefore(aligned, details.hedge_ratio, last.time, PAPER_SPREAD_LOOKBACK_BARS, PAPER_SPREAD_MIN_BARS);
+    if (!stats) throw new Error('Not enough price history to baseline the spread');
+
+    const row = buildPaperPosition({
+      userId: execution.user_id,
+      executionId: execution.id,
+      details,
+      priceA: last.a.close,
+      priceB: last.b.close,
+      stats,
+      settings,
+      now: Date.now(),
+    });
+    // The position and the execution's move to success commit together
+    const { data, error } = await supabase.rpc('open_paper_position', { _position: row as unknown as Json });
+    if (error) throw error;
+    position = data;
+  } catch (e) {
+    const message = e instanceof Error ? e.message : 'Paper fill failed';
+    console.error('Paper fill failed:', e);
+    const failed = await transitionExecution(current, 'failed', { error_message: message }, { reason: message });
+    return { execution: failed, position: null };
+  }
+
+  await logAuditEvent({
+    action: 'paper_position_opened',
+    entityType: 'paper_position',
+    entityId: position.id,
+    details: {
+      execution_id: execution.id,
+      signal_id: position.signal_id,
+      gross_notional: position.gross_notional,
+      entry_z: position.entry_z,
+      entry_fees: position.entry_fees,
+    },
+  });
+  await logAuditEvent({
+    action: 'execution_success',
+    entityType: 'execution',
+    entityId: execution.id,
+    details: { from: 'pending', to: 'success', signal_id: execution.signal_id, paper_position_id: position.id },
+  });
+
+  const { data: filled, error } = await supabase.from('executions').select().eq('id', execution.id).single();
+  if (error) throw error;
+  return { execution: filled, position };
+}
+
+/**
+ * Close an open position at the given prices. Only matches while the row is
+ * still open, so an exit rule and a manual close can't both settle it.
+ */
+export async function closePaperPositionRow(
+  position: PaperPositionRow,
+  prices: PairPrices,
+  reason: PaperCloseReason
+): Promise<PaperPositionRow> {
+  const update = closePaperPosition(position, prices.priceA, prices.priceB, reason, Date.now());
+  const { data, error } = await supabase
+    .from('paper_positions')
+    .update(update)
+    .eq('id', position.id)
+    .eq('status', 'open')
+    .select()
+    .maybeSingle();
+  if (error) throw error;
+  if (!data) throw new Error('This position was already closed');
+
+  await logAuditEvent({
+    action: 'paper_position_closed',
+    entityType: 'paper_position',
+    entityId: position.id,
+    details: {
+      reason,
+      execution_id: position.execution_id,
+      close_z: data.close_z,
+      realized_pnl: data.realized_pnl,
+    },
+  });
+
+  if (data.execution_id) {
+    try {
+      await recordExecutionClose(data.execution_id, {
+        closed_at: data.closed_at ?? new Date().toISOString(),
+        reason,
+        fills: parseFills(data.exit_fills),
+      });
+    } catch (e) {
+      // The position itself is closed; History just won't show its PnL
+      console.error('Error recording execution close:', e);
+    }
+  }
+  return data;
+}
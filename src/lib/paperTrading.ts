@@ -0,0 +1,233 @@
+/**
+ * Paper trading: fills both legs of a confirmed pair execution at recorded
+ * prices with simulated slippage and fees, marks open positions to market,
+ * and decides when an exit rule closes them.
+ */
+
+import { buildLogSpread } from '@/lib/marketData';
+import { mean, variance } from '@/lib/statistics';
+import { closingSide } from '@/lib/trading';
+import type { Database, Json } from '@/integrations/supabase/types';
+import type { ExecutionOrderDetails } from '@/types/execution';
+import type { AlignedCandle } from '@/types/marketData';
+import {
+  DEFAULT_PAPER_SETTINGS,
+  PaperCloseReason,
+  PaperFill,
+  PaperLegMark,
+  PaperPositionMark,
+  PaperSettings,
+} from '@/types/paper';
+import type { LegSide } from '@/types/sizing';
+
+type UserSettingsRow = Database['public']['Tables']['user_settings']['Row'];
+type PaperPositionRow = Database['public']['Tables']['paper_positions']['Row'];
+type PaperPositionInsert = Database['public']['Tables']['paper_positions']['Insert'];
+type PaperPositionUpdate = Database['public']['Tables']['paper_positions']['Update'];
+
+const optionalPositive = (value: number | null | undefined, fallback: number | null) => {
+  if (value === null) return null;
+  if (value === undefined) return fallback;
+  const n = Number(value);
+  return n > 0 ? n : null;
+};
+
+/** Paper settings from user_settings, falling back to the defaults for unset columns. */
+export function paperSettings(settings: UserSettingsRow | null): PaperSettings {
+  return {
+    slippagePercent: Math.max(0, Number(settings?.paper_slippage_percent ?? DEFAULT_PAPER_SETTINGS.slippagePercent)),
+    feePercent: Math.max(0, Number(settings?.paper_fee_percent ?? DEFAULT_PAPER_SETTINGS.feePercent)),
+    exitZ: Math.abs(Number(settings?.zscore_exit_threshold ?? DEFAULT_PAPER_SETTINGS.exitZ)),
+    stopZ: optionalPositive(settings?.paper_stop_zscore, DEFAULT_PAPER_SETTINGS.stopZ),
+    maxHoldHours: optionalPositive(settings?.paper_max_hold_hours, DEFAULT_PAPER_SETTINGS.maxHoldHours),
+  };
+}
+
+/** A buy fills above the reference and a sell below it. */
+export function slippedPrice(side: LegSide, price: number, slippagePercent: number): number {
+  return price * (side === 'buy' ? 1 + slippagePercent / 100 : 1 - slippagePercent / 100);
+}
+
+export function simulateFill(
+  leg: { symbol: string; side: LegSide; quantity: number },
+  referencePrice: number,
+  settings: Pick<PaperSettings, 'slippagePercent' | 'feePercent'>
+): PaperFill {
+  const price = slippedPrice(leg.side, referencePrice, settings.slippagePercent);
+  const notional = leg.quantity * price;
+  return {
+    symbol: leg.symbol,
+    side: leg.side,
+    quantity: leg.quantity,
+    reference_price: referencePrice,
+    price,
+    notional,
+    fee: (notional * settings.feePercent) / 100,
+  };
+}
+
+/** Price PnL of one leg between its entry fill and a later price, before fees. */
+export function legPnl(side: LegSide, quantity: number, entryPrice: number, price: number): number {
+  return (side === 'buy' ? price - entryPrice : entryPrice - price) * quantity;
+}
+
+export interface SpreadStats {
+  mean: number;
+  std: number;
+}
+
+/**
+ * Mean and std of ln A − β ln B over the bars that closed before `time`, the
+ * same frozen baseline signal scoring uses. Null with too little history or a
+ * flat spread.
+ */
+export function spreadStatsBefore(
+  aligned: AlignedCandle[],
+  hedgeRatio: number,
+  time: number,
+  lookbackBars: number,
+  minBars: number
+): SpreadStats | null {
+  const closed = aligned.filter((c) => c.time < time).slice(-lookbackBars);
+  if (closed.length < minBars) return null;
+  const spread = buildLogSpread(closed, hedgeRatio);
+  const std = Math.sqrt(variance(spread));
+  return std > 0 ? { mean: mean(spread), std } : null;
+}
+
+export function spreadZ(priceA: number, priceB: number, hedgeRatio: number, stats: SpreadStats): number {
+  return (Math.log(priceA) - hedgeRatio * Math.log(priceB) - stats.mean) / stats.std;
+}
+
+export interface PaperOpenInput {
+  userId: string;
+  executionId: string;
+  details: ExecutionOrderDetails;
+  /** Recorded prices for legs A and B, in order_details.legs order. */
+  priceA: number;
+  priceB: number;
+  stats: SpreadStats;
+  settings: PaperSettings;
+  now: number;
+}
+
+/** The paper_positions row for a confirmed paper execution, filled at the given prices. */
+export function buildPaperPosition(input: PaperOpenInput): PaperPositionInsert {
+  const { details, stats, settings } = input;
+  const [legA, legB] = details.legs;
+  const fills = [simulateFill(legA, input.priceA, settings), simulateFill(legB, input.priceB, settings)];
+  const margin = details.legs.reduce((sum, leg, i) => sum + fills[i].notional / leg.leverage, 0);
+
+  return {
+    user_id: input.userId,
+    execution_id: input.executionId,
+    signal_id: details.signal_id,
+    symbol_a: legA.symbol,
+    symbol_b: legB.symbol,
+    direction: details.direction,
+    hedge_ratio: details.hedge_ratio,
+    spread_mean: stats.mean,
+    spread_std: stats.std,
+    entry_z: spreadZ(fills[0].price, fills[1].price, details.hedge_ratio, stats),
+    gross_notional: fills[0].notional + fills[1].notional,
+    margin,
+    entry_fills: fills as unknown as Json,
+    entry_fees: fills[0].fee + fills[1].fee,
+    slippage_percent: settings.slippagePercent,
+    fee_percent: settings.feePercent,
+    exit_z: settings.exitZ,
+    stop_z: settings.stopZ,
+    max_hold_hours: settings.maxHoldHours,
+    status: 'open',
+    opened_at: new Date(input.now).toISOString(),
+  };
+}
+
+/** Fills stored on a position, or an empty list for malformed JSON. */
+export function parseFills(value: Json | null): PaperFill[] {
+  if (!Array.isArray(value)) return [];
+  return (value as unknown as PaperFill[]).filter(
+    (f) => f && typeof f.symbol === 'string' && Number.isFinite(f.price) && Number.isFinite(f.quantity)
+  );
+}
+
+const positionStats = (position: PaperPositionRow): SpreadStats => ({
+  mean: Number(position.spread_mean),
+  std: Number(position.spread_std),
+});
+
+export function markPaperPosition(
+  position: PaperPositionRow,
+  priceA: number,
+  priceB: number,
+  now: number
+): PaperPositionMark {
+  const fills = parseFills(position.entry_fills);
+  const legs: PaperLegMark[] = fills.map((fill, i) => {
+    const markPrice = i === 0 ? priceA : priceB;
+    const pnl = legPnl(fill.side, fill.quantity, fill.price, markPrice);
+    return {
+      symbol: fill.symbol,
+      side: fill.side,
+      quantity: fill.quantity,
+      entryPrice: fill.price,
+      markPrice,
+      pnl,
+      pnlPercent: fill.notional > 0 ? pnl / fill.notional : 0,
+    };
+  });
+  const unrealizedPnl = legs.reduce((sum, leg) => sum + leg.pnl, 0) - Number(position.entry_fees);
+  const margin = Number(position.margin);
+
+  return {
+    legs,
+    unrealizedPnl,
+    returnOnMargin: margin > 0 ? unrealizedPnl / margin : 0,
+    z: spreadZ(priceA, priceB, Number(position.hedge_ratio), positionStats(position)),
+    markedAt: now,
+  };
+}
+
+/**
+ * The exit rule a mark triggers, if any. Long A / short B is opened with z
+ * below the band and profits as z climbs back, so "against the position"
+ * means further from zero on the entry side.
+ */
+export function paperExitReason(position: PaperPositionRow, mark: PaperPositionMark): PaperCloseReason | null {
+  const side = position.direction === 'long_a_short_b' ? 1 : -1;
+  const adverse = -side * mark.z;
+  if (adverse <= Number(position.exit_z)) return 'exit_threshold';
+  if (position.stop_z !== null && adverse >= Number(position.stop_z)) return 'stop_loss';
+  if (position.max_hold_hours !== null) {
+    const heldHours = (mark.markedAt - new Date(position.opened_at).getTime()) / 3_600_000;
+    if (heldHours >= Number(position.max_hold_hours)) return 'time_stop';
+  }
+  return null;
+}
+
+/** The update that closes a position: both legs unwound at the given prices under its own cost settings. */
+export function closePaperPosition(
+  position: PaperPositionRow,
+  priceA: number,
+  priceB: number,
+  reason: PaperCloseReason,
+  now: number
+): PaperPositionUpdate {
+  const costs = { slippagePercent: Number(position.slippage_percent), feePercent: Number(position.fee_percent) };
+  const entries = parseFills(position.entry_fills);
+  const exits = entries.map((fill, i) =>
+    simulateFill({ symbol: fill.symbol, side: closingSide(fill.side), quantity: fill.quantity }, i === 0 ? priceA : priceB, costs)
+  );
+  const pricePnl = entries.reduce((sum, fill, i) => sum + legPnl(fill.side, fill.quantity, fill.price, exits[i].price), 0);
+  const exitFees = exits.reduce((sum, fill) => sum + fill.fee, 0);
+
+  return {
+    status: 'closed',
+    exit_fills: exits as unknown as Json,
+    exit_fees: exitFees,
+    close_reason: reason,
+    close_z: spreadZ(priceA, priceB, Number(position.hedge_ratio), positionStats(position)),
+    realized_pnl: pricePnl - Number(position.entry_fees) - exitFees,
+    closed_at: new Date(now).toISOString(),
+  };
+}
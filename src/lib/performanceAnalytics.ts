@@ -0,0 +1,194 @@
+/**
+ * Aggregate performance over closed executions: a daily equity curve built
+ * from realized PnL, risk-adjusted ratios and drawdowns over it, and per-pair
+ * and holding-time breakdowns. Days are UTC, the same days the daily loss
+ * limit resets on. Open positions contribute nothing until they close.
+ */
+
+import { executionPnl } from '@/lib/executionHistory';
+import { parseOrderDetails } from '@/lib/executions';
+import type { Json } from '@/integrations/supabase/types';
+import {
+  ANALYTICS_PERIODS_PER_YEAR,
+  CalendarMonth,
+  ClosedTrade,
+  DailyPerformance,
+  DrawdownStats,
+  HoldingVsHalfLife,
+  PairPerformance,
+  PerformanceStats,
+  STRATEGIES,
+  STRATEGY_KINDS,
+  Strategy,
+} from '@/types/analytics';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const HOUR_MS = 60 * 60 * 1000;
+
+/** yyyy-mm-dd of the UTC day an ISO timestamp falls on. */
+export const utcDay = (iso: string) => new Date(iso).toISOString().slice(0, 10);
+
+const addDays = (day: string, days: number) =>
+  new Date(new Date(`${day}T00:00:00.000Z`).getTime() + days * DAY_MS).toISOString().slice(0, 10);
+
+/** Strategy an execution belongs to, from order_details.kind. */
+export function executionStrategy(orderDetails: Json | null): Strategy | null {
+  if (!orderDetails || typeof orderDetails !== 'object' || Array.isArray(orderDetails)) return null;
+  const kind = orderDetails.kind;
+  return STRATEGIES.find((s) => STRATEGY_KINDS[s] === kind) ?? null;
+}
+
+/** The closed trade an execution records, or null while it is open or was never filled. */
+export function closedTrade(
+  execution: { id: string; order_details: Json | null },
+  halfLifeHours: number | null
+): ClosedTrade | null {
+  const strategy = executionStrategy(execution.order_details);
+  const details = parseOrderDetails(execution.order_details);
+  const pnl = executionPnl(details);
+  if (!strategy || !pnl || pnl.realizedPnl === null || !pnl.closedAt) return null;
+
+  return {
+    executionId: execution.id,
+    strategy,
+    pair: details.legs.map((leg) => leg.symbol).join(' / '),
+    openedAt: pnl.openedAt,
+    closedAt: pnl.closedAt,
+    realizedPnl: pnl.realizedPnl,
+    entryNotional: pnl.entryNotional,
+    holdingHours: pnl.holdingMs === null ? null : pnl.holdingMs / HOUR_MS,
+    halfLifeHours: halfLifeHours !== null && halfLifeHours > 0 ? halfLifeHours : null,
+  };
+}
+
+/**
+ * Equity curve with one point per UTC day from `from` to `to`, booking each
+ * trade's PnL on the day it closed. Days without closes are flat, so they
+ * still count toward the ratios. The range defaults to the first and last
+ * close; trades outside it are ignored.
+ */
+export function dailyPerformance(
+  trades: ClosedTrade[],
+  startingEquity: number,
+  from?: string,
+  to?: string
+): DailyPerformance[] {
+  const pnlByDay = new Map<string, number>();
+  for (const trade of trades) {
+    const day = utcDay(trade.closedAt);
+    pnlByDay.set(day, (pnlByDay.get(day) ?? 0) + trade.realizedPnl);
+  }
+
+  const closeDays = [...pnlByDay.keys()].sort();
+  const start = from ?? closeDays[0];
+  const end = to ?? closeDays[closeDays.length - 1];
+  if (!start || !end || start > end) return [];
+
+  const days: DailyPerformance[] = [];
+  let equity = startingEquity;
+  let peak = startingEquity;
+  for (let day = start; day <= end; day = addDays(day, 1)) {
+    const pnl = pnlByDay.get(day) ?? 0;
+    const dayReturn = equity > 0 ? pnl / equity : 0;
+    equity += pnl;
+    peak = Math.max(peak, equity);
+    days.push({ date: day, pnl, equity, return: dayReturn, drawdown: peak > 0 ? (peak - equity) / peak : 0 });
+  }
+  return days;
+}
+
+export function drawdownStats(days: DailyPerformance[], startingEquity: number): DrawdownStats {
+  let peak = startingEquity;
+  let maxDrawdown = 0;
+  let maxDrawdownUsd = 0;
+  let underwater = 0;
+  let longestDays = 0;
+
+  for (const day of days) {
+    if (day.equity >= peak) {
+      peak = day.equity;
+      underwater = 0;
+      continue;
+    }
+    underwater++;
+    longestDays = Math.max(longestDays, underwater);
+    maxDrawdownUsd = Math.max(maxDrawdownUsd, peak - day.equity);
+    if (peak > 0) maxDrawdown = Math.max(maxDrawdown, (peak - day.equity) / peak);
+  }
+
+  return { maxDrawdown, maxDrawdownUsd, longestDays, currentDays: underwater };
+}
+
+export function performanceStats(
+  trades: ClosedTrade[],
+  days: DailyPerformance[],
+  startingEquity: number
+): PerformanceStats {
+  const returns = days.map((d) => d.return);
+  const n = returns.length;
+  const mean = n > 0 ? returns.reduce((a, b) => a + b, 0) / n : 0;
+  const std = n > 1 ? Math.sqrt(returns.reduce((a, r) => a + (r - mean) ** 2, 0) / (n - 1)) : 0;
+  // Downside deviation against a zero target, over every day
+  const downside = n > 0 ? Math.sqrt(returns.reduce((a, r) => a + Math.min(r, 0) ** 2, 0) / n) : 0;
+  const annualize = Math.sqrt(ANALYTICS_PERIODS_PER_YEAR);
+  const totalPnl = trades.reduce((sum, t) => sum + t.realizedPnl, 0);
+
+  return {
+    trades: trades.length,
+    totalPnl,
+    totalReturn: startingEquity > 0 ? totalPnl / startingEquity : 0,
+    sharpe: std > 0 ? (mean / std) * annualize : null,
+    sortino: downside > 0 ? (mean / downside) * annualize : null,
+    drawdown: drawdownStats(days, startingEquity),
+  };
+}
+
+const average = (values: number[]) => (values.length > 0 ? values.reduce((a, b) => a + b, 0) / values.length : null);
+
+/** Realized PnL by pair, best first. */
+export function pairPerformance(trades: ClosedTrade[]): PairPerformance[] {
+  const byPair = new Map<string, ClosedTrade[]>();
+  for (const trade of trades) byPair.set(trade.pair, [...(byPair.get(trade.pair) ?? []), trade]);
+
+  return [...byPair.entries()]
+    .map(([pair, pairTrades]) => ({
+      pair,
+      trades: pairTrades.length,
+      wins: pairTrades.filter((t) => t.realizedPnl > 0).length,
+      totalPnl: pairTrades.reduce((sum, t) => sum + t.realizedPnl, 0),
+      avgHoldingHours: average(pairTrades.flatMap((t) => (t.holdingHours === null ? [] : [t.holdingHours]))),
+      avgHalfLifeHours: average(pairTrades.flatMap((t) => (t.halfLifeHours === null ? [] : [t.halfLifeHours]))),
+    }))
+    .sort((a, b) => b.totalPnl - a.totalPnl);
+}
+
+export function holdingVsHalfLife(trades: ClosedTrade[]): HoldingVsHalfLife {
+  const compared = trades.filter((t) => t.holdingHours !== null && t.halfLifeHours !== null);
+  const ratios = compared.map((t) => t.holdingHours / t.halfLifeHours).sort((a, b) => a - b);
+  const mid = Math.floor(ratios.length / 2);
+
+  return {
+    compared: compared.length,
+    avgHoldingHours: average(compared.map((t) => t.holdingHours)),
+    avgHalfLifeHours: average(compared.map((t) => t.halfLifeHours)),
+    medianRatio:
+      ratios.length === 0 ? null : ratios.length % 2 === 1 ? ratios[mid] : (ratios[mid - 1] + ratios[mid]) / 2,
+  };
+}
+
+/** Lay the curve's days out as month grids for the returns calendar. */
+export function calendarMonths(days: DailyPerformance[]): CalendarMonth[] {
+  const byDate = new Map(days.map((d) => [d.date, d]));
+  const months = [...new Set(days.map((d) => d.date.slice(0, 7)))];
+
+  return months.map((month) => {
+    const first = new Date(`${month}-01T00:00:00.000Z`);
+    // getUTCDay is 0 for Sunday; weeks here start Monday
+    const padding = (first.getUTCDay() + 6) % 7;
+    const cells: (DailyPerformance | null)[] = Array(padding).fill(null);
+    for (let day = `${month}-01`; day.startsWith(month); day = addDays(day, 1)) {
+      cells.push(byDate.get(day) ?? null);
+    }
+    return { month, cells };
+  });
+}
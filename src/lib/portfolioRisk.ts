@@ -0,0 +1,158 @@
+/**
+ * Portfolio exposure across open pair trades. Pairs are hedged one against
+ * the other, but several pairs sharing a leg are not hedged against each
+ * other; this nets every open leg by underlying asset, exchange and
+ * direction so the directional risk that piles up is visible, and checks a
+ * proposed trade against the user's per-asset cap.
+ */
+
+import { linearRegression } from '@/lib/statistics';
+import type { ExecutionOrderDetails, ExecutionOrderLeg } from '@/types/execution';
+import type { AlignedCandle } from '@/types/marketData';
+import {
+  AssetExposure,
+  BTC_BETA_MIN_BARS,
+  DirectionalExposure,
+  ExchangeExposure,
+  ExposureCapBreach,
+  ExposureLeg,
+  ExposureMarket,
+  PortfolioExposure,
+  QUOTE_ASSETS,
+} from '@/types/portfolio';
+
+/** 'ETHUSDT' → 'ETH'. Symbols without a known quote are their own asset. */
+export function baseAsset(symbol: string): string {
+  const upper = symbol.toUpperCase();
+  const quote = QUOTE_ASSETS.find((q) => upper.endsWith(q) && upper.length > q.length);
+  return quote ? upper.slice(0, -quote.length) : upper;
+}
+
+const venueOf = (details: ExecutionOrderDetails) => details.exchange ?? details.venue;
+
+/**
+ * Exposure legs of one execution: its entry fills once open, otherwise the
+ * planned legs at their reference prices (for a preview being weighed).
+ */
+export function executionExposureLegs(details: ExecutionOrderDetails): ExposureLeg[] {
+  const marginOf = (symbol: string) => details.legs.find((l) => l.symbol === symbol)?.margin ?? 0;
+  if (details.fills?.length) {
+    return details.fills.map((fill) => ({
+      asset: baseAsset(fill.symbol),
+      symbol: fill.symbol,
+      exchange: venueOf(details),
+      side: fill.side,
+      quantity: fill.quantity,
+      entryPrice: fill.price,
+      margin: marginOf(fill.symbol),
+    }));
+  }
+  return orderExposureLegs(details.legs, venueOf(details));
+}
+
+export function orderExposureLegs(legs: ExecutionOrderLeg[], exchange: string): ExposureLeg[] {
+  return legs.map((leg) => ({
+    asset: baseAsset(leg.symbol),
+    symbol: leg.symbol,
+    exchange,
+    side: leg.side,
+    quantity: leg.quantity,
+    entryPrice: leg.reference_price,
+    margin: leg.margin,
+  }));
+}
+
+/**
+ * OLS slope of an asset's log returns on BTC's over aligned bars (a = asset,
+ * b = BTC). Null with too little history to trust.
+ */
+export function btcBeta(aligned: AlignedCandle[], minBars = BTC_BETA_MIN_BARS): number | null {
+  if (aligned.length - 1 < minBars) return null;
+  const asset: number[] = [];
+  const btc: number[] = [];
+  for (let i = 1; i < aligned.length; i++) {
+    asset.push(Math.log(aligned[i].a.close / aligned[i - 1].a.close));
+    btc.push(Math.log(aligned[i].b.close / aligned[i - 1].b.close));
+  }
+  const slope = linearRegression(asset, btc).slope;
+  return Number.isFinite(slope) ? slope : null;
+}
+
+const emptyDirectional = (): DirectionalExposure => ({ long: 0, short: 0, net: 0, gross: 0 });
+
+function addNotional(target: DirectionalExposure, side: ExposureLeg['side'], notional: number) {
+  if (side === 'buy') target.long += notional;
+  else target.short += notional;
+  target.net = target.long - target.short;
+  target.gross = target.long + target.short;
+}
+
+/**
+ * Net and gross notional per asset, per exchange and in total, each leg
+ * marked at the latest known price. Equity, when given, turns the margin
+ * committed into a utilization ratio.
+ */
+export function aggregateExposure(legs: ExposureLeg[], market: ExposureMarket, equity?: number | null): PortfolioExposure {
+  const assets = new Map<string, AssetExposure>();
+  const exchanges = new Map<string, ExchangeExposure>();
+  const total = emptyDirectional();
+  let margin = 0;
+
+  for (const leg of legs) {
+    const notional = leg.quantity * (market.prices[leg.asset] ?? leg.entryPrice);
+
+    let asset = assets.get(leg.asset);
+    if (!asset) {
+      asset = { asset: leg.asset, exchanges: [], beta: market.betas[leg.asset] ?? 1, btcExposure: 0, ...emptyDirectional() };
+      assets.set(leg.asset, asset);
+    }
+    addNotional(asset, leg.side, notional);
+    asset.btcExposure = asset.net * asset.beta;
+    if (!asset.exchanges.includes(leg.exchange)) asset.exchanges.push(leg.exchange);
+
+    let exchange = exchanges.get(leg.exchange);
+    if (!exchange) {
+      exchange = { exchange: leg.exchange, margin: 0, ...emptyDirectional() };
+      exchanges.set(leg.exchange, exchange);
+    }
+    addNotional(exchange, leg.side, notional);
+    exchange.margin += leg.margin;
+
+    addNotional(total, leg.side, notional);
+    margin += leg.margin;
+  }
+
+  const byNet = (x: DirectionalExposure, y: DirectionalExposure) => Math.abs(y.net) - Math.abs(x.net) || y.gross - x.gross;
+  const assetList = [...assets.values()].sort(byNet);
+  return {
+    ...total,
+    assets: assetList,
+    exchanges: [...exchanges.values()].sort(byNet),
+    btcExposure: assetList.reduce((sum, a) => sum + a.btcExposure, 0),
+    margin,
+    marginUtilization: equity && equity > 0 ? margin / equity : null,
+  };
+}
+
+/**
+ * Assets whose absolute net exposure the proposed trade takes past `cap`.
+ * An asset already over the cap only counts if the trade adds to it; one the
+ * trade reduces is never flagged.
+ */
+export function exposureCapBreaches(
+  before: PortfolioExposure,
+  after: PortfolioExposure,
+  cap: number | null
+): ExposureCapBreach[] {
+  if (cap === null || !(cap > 0)) return [];
+  const netBefore = new Map(before.assets.map((a) => [a.asset, a.net]));
+  return after.assets
+    .map((a) => ({ asset: a.asset, before: netBefore.get(a.asset) ?? 0, after: a.net, cap }))
+    .filter((b) => Math.abs(b.after) > cap && Math.abs(b.after) > Math.abs(b.before));
+}
+
+/** user_settings.max_asset_exposure_usd; unset or non-positive disables the cap. */
+export function exposureCap(settings: { max_asset_exposure_usd: number | null } | null): number | null {
+  const cap = Number(settings?.max_asset_exposure_usd);
+  return Number.isFinite(cap) && cap > 0 ? cap : null;
+}
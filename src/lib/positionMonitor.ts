@@ -0,0 +1,115 @@
+/**
+ * Exit recommendations for open pair positions. A pair trade bets that the
+ * spread's z-score reverts toward zero within a few half-lives; this reads
+ * where the spread is now against that bet and says whether to take the
+ * exit, keep holding, or cut the position.
+ */
+
+import { SpreadStats, spreadZ } from '@/lib/paperTrading';
+import type { ExecutionOrderDetails } from '@/types/execution';
+
+export type PositionAction = 'exit' | 'hold' | 'stop';
+
+export const POSITION_ACTION_LABELS: Record<PositionAction, string> = {
+  exit: 'Exit now',
+  hold: 'Hold',
+  stop: 'Stop',
+};
+
+/**
+ * After this many half-lives seven-eighths of a mean-reverting gap should
+ * have closed. A spread still outside the exit band by then is not behaving like
+ * the model said it would.
+ */
+export const STALE_HALF_LIVES = 3;
+
+export interface PositionMonitorInput {
+  direction: ExecutionOrderDetails['direction'];
+  /** z of the entry fills on the same baseline as currentZ; null if unknown. */
+  entryZ: number | null;
+  currentZ: number;
+  /** The user's zscore_exit_threshold, as a |z| bound. */
+  exitZ: number;
+  /** |z| beyond which the position is cut; null disables. */
+  stopZ: number | null;
+  halfLifeHours: number | null;
+  openedAt: number;
+  now: number;
+}
+
+export interface PositionMonitorResult {
+  action: PositionAction;
+  reason: string;
+  /**
+   * How far z still has to revert to reach the exit band, in z units. Zero
+   * or negative once it is inside.
+   */
+  distanceToExit: number;
+  /** Share of the entry deviation that has reverted so far; null without an entry z. */
+  reverted: number | null;
+  elapsedHours: number;
+  /** Elapsed time in half-lives; null without a half-life. */
+  halfLivesElapsed: number | null;
+}
+
+/**
+ * z of the entry fills against the entry baseline, on the same log-spread
+ * scale as the current z. Null unless both legs filled, as when a failed
+ * unwind left one leg open on its own.
+ */
+export function entryFillZ(details: ExecutionOrderDetails, baseline: SpreadStats): number | null {
+  const fillPrice = (symbol: string) => details.fills?.find((f) => f.symbol === symbol)?.price ?? 0;
+  const priceA = fillPrice(details.legs[0].symbol);
+  const priceB = fillPrice(details.legs[1].symbol);
+  if (!(priceA > 0 && priceB > 0)) return null;
+  return spreadZ(priceA, priceB, details.hedge_ratio, baseline);
+}
+
+/**
+ * Long A / short B is opened with z below the band and profits as z climbs
+ * back, so the adverse side is -z for it and +z for the other direction;
+ * the same convention paper exit rules use.
+ */
+export function adverseZ(direction: PositionMonitorInput['direction'], z: number): number {
+  return direction === 'long_a_short_b' ? -z : z;
+}
+
+export function monitorPosition(input: PositionMonitorInput): PositionMonitorResult {
+  const adverse = adverseZ(input.direction, input.currentZ);
+  const entryAdverse = input.entryZ === null ? null : adverseZ(input.direction, input.entryZ);
+  const elapsedHours = Math.max(0, (input.now - input.openedAt) / 3_600_000);
+  const halfLivesElapsed = input.halfLifeHours && input.halfLifeHours > 0 ? elapsedHours / input.halfLifeHours : null;
+  const reverted = entryAdverse !== null && entryAdverse > 0 ? 1 - adverse / entryAdverse : null;
+  const base = { distanceToExit: adverse - input.exitZ, reverted, elapsedHours, halfLivesElapsed };
+
+  if (adverse <= input.exitZ) {
+    return {
+      ...base,
+      action: 'exit',
+      reason: adverse < -input.exitZ
+        ? `Spread overshot to z ${input.currentZ.toFixed(2)}, past the other side of the ±${input.exitZ} band`
+        : `Spread reverted inside the ±${input.exitZ} exit band`,
+    };
+  }
+
+  if (input.stopZ !== null && adverse >= input.stopZ) {
+    return { ...base, action: 'stop', reason: `|z| ${adverse.toFixed(2)} is beyond the ${input.stopZ} stop` };
+  }
+
+  if (halfLivesElapsed !== null && halfLivesElapsed >= STALE_HALF_LIVES) {
+    return {
+      ...base,
+      action: 'stop',
+      reason: `Held ${halfLivesElapsed.toFixed(1)} half-lives without reverting to the exit band`,
+    };
+  }
+
+  const widened = entryAdverse !== null && adverse > entryAdverse;
+  return {
+    ...base,
+    action: 'hold',
+    reason: widened
+      ? `Spread has widened since entry; ${base.distanceToExit.toFixed(2)} z from the exit band`
+      : `${base.distanceToExit.toFixed(2)} z from the exit band`,
+  };
+}
@@ -0,0 +1,169 @@
+/**
+ * Beta-neutral pair sizing: splits a gross notional between the legs so the
+ * B leg carries |β| dollars per dollar of A, rounds each leg to the exchange's
+ * lot and tick sizes, and estimates margin and liquidation per leg.
+ */
+
+import type { TradeDirection } from '@/lib/backtest';
+import type { Database } from '@/integrations/supabase/types';
+import type { InstrumentSpec } from '@/types/marketData';
+import {
+  DEFAULT_MAINTENANCE_MARGIN_RATE,
+  DEFAULT_SIZING_SETTINGS,
+  LegSide,
+  LegSizing,
+  LegWarning,
+  MarginMode,
+  PairSizing,
+  PositionSizeMode,
+  SizingSettings,
+} from '@/types/sizing';
+
+type UserSettingsRow = Database['public']['Tables']['user_settings']['Row'];
+
+/** Sizing settings from user_settings, falling back to the schema defaults for unset columns. */
+export function sizingSettings(settings: UserSettingsRow | null): SizingSettings {
+  const mode: PositionSizeMode = settings?.position_size_mode === 'fixed_notional' ? 'fixed_notional' : 'percent_equity';
+  const marginMode: MarginMode = settings?.margin_mode === 'cross' ? 'cross' : 'isolated';
+  return {
+    mode,
+    value: Number(settings?.position_size_value ?? DEFAULT_SIZING_SETTINGS.value),
+    leverageLong: Math.max(1, Number(settings?.leverage_long ?? DEFAULT_SIZING_SETTINGS.leverageLong)),
+    leverageShort: Math.max(1, Number(settings?.leverage_short ?? DEFAULT_SIZING_SETTINGS.leverageShort)),
+    marginMode,
+  };
+}
+
+/** Decimal places needed to print multiples of `step` exactly. */
+const stepDecimals = (step: number) => Math.max(0, Math.ceil(-Math.log10(step) - 1e-9));
+
+/** Largest multiple of `step` not above `value`, free of float noise. */
+export function roundDownToStep(value: number, step: number): number {
+  if (!(step > 0)) return value;
+  return Number((Math.floor(value / step + 1e-9) * step).toFixed(stepDecimals(step)));
+}
+
+/** Nearest multiple of the tick size. */
+export function roundToTick(price: number, tick: number): number {
+  if (!(tick > 0)) return price;
+  return Number((Math.round(price / tick) * tick).toFixed(stepDecimals(tick)));
+}
+
+export interface PairSizingInput {
+  equity: number;
+  settings: SizingSettings;
+  direction: TradeDirection;
+  /** β of ln A on ln B; its magnitude is the dollar hedge ratio. */
+  beta: number;
+  symbolA: string;
+  symbolB: string;
+  priceA: number;
+  priceB: number;
+  /** Null when the exchange's lot sizes couldn't be loaded; quantities are then unrounded. */
+  specA: InstrumentSpec | null;
+  specB: InstrumentSpec | null;
+  maintenanceMarginRate?: number;
+}
+
+export function targetGrossNotional(equity: number, settings: SizingSettings): number {
+  const size = settings.mode === 'percent_equity' ? (equity * settings.value) / 100 : settings.value;
+  return Math.max(0, size);
+}
+
+interface LegInput {
+  symbol: string;
+  side: LegSide;
+  price: number;
+  targetNotional: number;
+  leverage: number;
+  spec: InstrumentSpec | null;
+}
+
+function sizeLeg({ symbol, side, price, targetNotional, leverage, spec }: LegInput) {
+  const warnings: LegWarning[] = [];
+  const roundedPrice = spec ? roundToTick(price, spec.tickSize) : price;
+  const rawQuantity = roundedPrice > 0 ? targetNotional / roundedPrice : 0;
+  const quantity = spec ? roundDownToStep(rawQuantity, spec.qtyStep) : rawQuantity;
+  const notional = quantity * roundedPrice;
+
+  if (!spec) warnings.push('no_instrument');
+  if (spec && quantity < spec.minQty) warnings.push('below_min_qty');
+  if (spec?.minNotional && notional < spec.minNotional) warnings.push('below_min_notional');
+
+  return {
+    symbol,
+    side,
+    price: roundedPrice,
+    tickSize: spec?.tickSize ?? null,
+    targetNotional,
+    quantity,
+    notional,
+    leverage,
+    margin: notional / leverage,
+    warnings,
+  };
+}
+
+/**
+ * Isolated legs liquidate once the move eats the posted margin down to the
+ * maintenance level: 1/L − mmr. Cross legs share the whole equity, so each leg
+ * is measured alone against equity less both legs' maintenance margin.
+ */
+function withLiquidation(
+  leg: ReturnType<typeof sizeLeg>,
+  marginMode: MarginMode,
+  equity: number,
+  totalMaintenance: number,
+  mmr: number
+): LegSizing {
+  let distance: number;
+  if (marginMode === 'isolated') {
+    distance = Math.max(0, 1 / leg.leverage - mmr);
+  } else {
+    distance = leg.notional > 0 ? Math.max(0, equity - totalMaintenance) / leg.notional : 0;
+  }
+  const liquidationPrice = leg.side === 'buy'
+    ? Math.max(0, leg.price * (1 - distance))
+    : leg.price * (1 + distance);
+  return { ...leg, liquidationPrice, liquidationDistance: distance };
+}
+
+export function computePairSizing(input: PairSizingInput): PairSizing {
+  const { equity, settings, direction, symbolA, symbolB, priceA, priceB, specA, specB } = input;
+  const mmr = input.maintenanceMarginRate ?? DEFAULT_MAINTENANCE_MARGIN_RATE;
+  const hedge = Math.abs(Number.isFinite(input.beta) ? input.beta : 1);
+  const gross = targetGrossNotional(equity, settings);
+  const longA = direction === 'long_a_short_b';
+
+  const legA = sizeLeg({
+    symbol: symbolA,
+    side: longA ? 'buy' : 'sell',
+    price: priceA,
+    targetNotional: gross / (1 + hedge),
+    leverage: longA ? settings.leverageLong : settings.leverageShort,
+    spec: specA,
+  });
+  const legB = sizeLeg({
+    symbol: symbolB,
+    side: longA ? 'sell' : 'buy',
+    price: priceB,
+    targetNotional: (gross * hedge) / (1 + hedge),
+    leverage: longA ? settings.leverageShort : settings.leverageLong,
+    spec: specB,
+  });
+
+  const totalMaintenance = mmr * (legA.notional + legB.notional);
+  const imbalance = legB.notional - hedge * legA.notional;
+  const totalNotional = legA.notional + legB.notional;
+  const totalMargin = legA.margin + legB.margin;
+
+  return {
+    targetGrossNotional: gross,
+    legA: withLiquidation(legA, settings.marginMode, equity, totalMaintenance, mmr),
+    legB: withLiquidation(legB, settings.marginMode, equity, totalMaintenance, mmr),
+    imbalance,
+    imbalanceRatio: totalNotional > 0 ? imbalance / totalNotional : 0,
+    totalMargin,
+    exceedsEquity: totalMargin > equity,
+  };
+}
@@ -0,0 +1,58 @@
+import { supabase } from '@/integrations/supabase/client';
+import type { Database, Json } from '@/integrations/supabase/types';
+import { logAuditEvent } from '@/lib/audit';
+import { parseRiskViolations } from '@/lib/riskLimits';
+import type { RiskLimitValues, RiskLimitViolation } from '@/types/riskLimits';
+
+export type RiskLimitsRow = Database['public']['Tables']['risk_limits']['Row'];
+
+/** Limits the given order details would break for the signed-in user. */
+export async function checkRiskLimits(orderDetails: Json): Promise<RiskLimitViolation[]> {
+  const { data, error } = await supabase.rpc('check_risk_limits', { _order_details: orderDetails });
+  if (error) throw error;
+  return parseRiskViolations(data);
+}
+
+/** The defaults row and every override; only admins can read the overrides of others. */
+export async function fetchRiskLimitRows(): Promise<RiskLimitsRow[]> {
+  const { data, error } = await supabase.from('risk_limits').select('*');
+  if (error) throw error;
+  return data ?? [];
+}
+
+/**
+ * Save the defaults (userId null) or one user's override. The defaults row
+ * always exists; an override is created on first save.
+ */
+export async function saveRiskLimits(
+  existing: RiskLimitsRow | null,
+  userId: string | null,
+  values: RiskLimitValues,
+  adminId: string
+): Promise<RiskLimitsRow> {
+  const patch = { ...values, updated_by: adminId };
+  const { data, error } = existing
+    ? await supabase.from('risk_limits').update(patch).eq('id', existing.id).select().single()
+    : await supabase.from('risk_limits').insert({ ...patch, user_id: userId }).select().single();
+  if (error) throw error;
+
+  await logAuditEvent({
+    action: userId ? 'risk_limits_override_saved' : 'risk_limits_defaults_saved',
+    entityType: 'risk_limits',
+    entityId: data.id,
+    details: { target_user_id: userId, ...values },
+  });
+  return data;
+}
+
+export async function deleteRiskLimitOverride(row: RiskLimitsRow): Promise<void> {
+  const { error } = await supabase.from('risk_limits').delete().eq('id', row.id);
+  if (error) throw error;
+
+  await logAuditEvent({
+    action: 'risk_limits_override_removed',
+    entityType: 'risk_limits',
+    entityId: row.id,
+    details: { target_user_id: row.user_id },
+  });
+}
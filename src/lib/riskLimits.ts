@@ -0,0 +1,66 @@
+/**
+ * Per-user pre-trade risk limits. The database enforces them on every
+ * execution (see risk_limit_violations); this module only reads and shapes
+ * the rows for the admin page and the execution preview.
+ */
+
+import type { Database } from '@/integrations/supabase/types';
+import { RiskLimitKey, RiskLimitValues, RiskLimitViolation, RISK_LIMIT_KEYS } from '@/types/riskLimits';
+import { TRADING_EXCHANGES, TradingExchange } from '@/types/trading';
+
+type RiskLimitsRow = Database['public']['Tables']['risk_limits']['Row'];
+
+const positiveOrNull = (value: number | null | undefined) => {
+  const n = Number(value);
+  return value !== null && value !== undefined && Number.isFinite(n) && n > 0 ? n : null;
+};
+
+export function riskLimitValues(row: RiskLimitsRow | null): RiskLimitValues {
+  return {
+    max_concurrent_pairs: positiveOrNull(row?.max_concurrent_pairs),
+    max_leverage: positiveOrNull(row?.max_leverage),
+    max_pair_notional: positiveOrNull(row?.max_pair_notional),
+    max_daily_loss: positiveOrNull(row?.max_daily_loss),
+    allowed_exchanges: row?.allowed_exchanges
+      ? row.allowed_exchanges.filter((e): e is TradingExchange => (TRADING_EXCHANGES as readonly string[]).includes(e))
+      : null,
+  };
+}
+
+/** Mirrors effective_risk_limits: each override column wins when set. */
+export function effectiveRiskLimits(defaults: RiskLimitValues, override: RiskLimitValues | null): RiskLimitValues {
+  if (!override) return defaults;
+  return {
+    max_concurrent_pairs: override.max_concurrent_pairs ?? defaults.max_concurrent_pairs,
+    max_leverage: override.max_leverage ?? defaults.max_leverage,
+    max_pair_notional: override.max_pair_notional ?? defaults.max_pair_notional,
+    max_daily_loss: override.max_daily_loss ?? defaults.max_daily_loss,
+    allowed_exchanges: override.allowed_exchanges ?? defaults.allowed_exchanges,
+  };
+}
+
+/** Limits an override actually sets, for showing what differs from the defaults. */
+export function overriddenLimits(override: RiskLimitValues | null): RiskLimitKey[] {
+  if (!override) return [];
+  return RISK_LIMIT_KEYS.filter((key) => override[key] !== null);
+}
+
+export function formatRiskLimit(key: RiskLimitKey, values: RiskLimitValues): string {
+  if (key === 'allowed_exchanges') {
+    const exchanges = values.allowed_exchanges;
+    if (exchanges === null) return 'Any';
+    return exchanges.length === 0 ? 'Paper only' : exchanges.join(', ');
+  }
+  const value = values[key];
+  if (value === null) return 'Unlimited';
+  if (key === 'max_leverage') return `${value}×`;
+  if (key === 'max_concurrent_pairs') return String(value);
+  return `$${value.toLocaleString()}`;
+}
+
+export function parseRiskViolations(rows: { limit_key: string; message: string }[] | null): RiskLimitViolation[] {
+  return (rows ?? []).map((row) => ({
+    limit: (RISK_LIMIT_KEYS as readonly string[]).includes(row.limit_key) ? (row.limit_key as RiskLimitKey) : null,
+    message: row.message,
+  }));
+}
@@ -0,0 +1,296 @@
+/**
+ * Streaming accumulators for fixed-length rolling windows. Each push is O(1)
+ * (amortised for min/max), so a full series costs O(n) regardless of the
+ * window length, and live feeds can append one bar at a time.
+ */
+
+/** Fixed-capacity FIFO; push returns the value evicted once the buffer is full. */
+function createRingBuffer(capacity: number) {
+  const values = new Array<number>(capacity);
+  let start = 0;
+  let size = 0;
+
+  return {
+    push(value: number): number | undefined {
+      if (size < capacity) {
+        values[size] = value;
+        size++;
+        return undefined;
+      }
+      const evicted = values[start];
+      values[start] = value;
+      start = (start + 1) % capacity;
+      return evicted;
+    },
+    get size() {
+      return size;
+    },
+    /** Value at position i, oldest first. */
+    at(i: number): number {
+      const j = start + i;
+      return values[j < capacity ? j : j - capacity];
+    },
+    /** Sum of f(value) over the buffer, without allocating. */
+    sumOf(f: (value: number) => number): number {
+      let total = 0;
+      for (let i = 0; i < size; i++) {
+        const j = start + i;
+        total += f(values[j < capacity ? j : j - capacity]);
+      }
+      return total;
+    },
+  };
+}
+
+export interface RollingMomentsSnapshot {
+  /** Values currently in the window (≤ length). */
+  count: number;
+  mean: number;
+  /** Population variance (n denominator). */
+  variance: number;
+  std: number;
+}
+
+export interface RollingMoments {
+  push(value: number): RollingMomentsSnapshot;
+  readonly length: number;
+}
+
+// Variance below this fraction of mean² is rounding residue from add/remove
+// updates, not dispersion (a constant window must report exactly zero)
+const RELATIVE_VARIANCE_FLOOR = 1e-24;
+// An update that cancels this much of the sum of squares loses most of its
+// significant digits, so the window is re-summed instead
+const CANCELLATION_RATIO = 1e-3;
+
+/**
+ * Rolling mean and population variance with Welford-style add/replace
+ * updates. Updates run on values shifted by the last exact mean, which keeps
+ * the arithmetic near zero and avoids cancellation at high price levels. The
+ * window is re-summed exactly every `length` pushes, and whenever an update
+ * wipes out most of the variance, so rounding error can't accumulate.
+ */
+export function createRollingMoments(length: number): RollingMoments {
+  if (!(length >= 1)) {
+    throw new Error('Rolling window length must be at least 1');
+  }
+
+  const window = createRingBuffer(length);
+  let shift = 0;
+  // Mean of the shifted values and their sum of squared deviations
+  let mean = 0;
+  let m2 = 0;
+  let sinceResync = 0;
+
+  const resync = () => {
+    shift = window.sumOf((v) => v) / window.size;
+    mean = 0;
+    m2 = window.sumOf((v) => (v - shift) * (v - shift));
+    sinceResync = 0;
+  };
+
+  return {
+    length,
+    push(value: number) {
+      const evicted = window.push(value);
+      const n = window.size;
+      const x = value - shift;
+
+      if (n === 1) {
+        shift = value;
+        mean = 0;
+        m2 = 0;
+      } else if (evicted === undefined) {
+        const delta = x - mean;
+        mean += delta / n;
+        m2 += delta * (x - mean);
+      } else {
+        const y = evicted - shift;
+        const previousMean = mean;
+        const previousM2 = m2;
+        mean += (x - y) / n;
+        m2 += (x - y) * (x - mean + y - previousMean);
+        if (m2 < previousM2 * CANCELLATION_RATIO) sinceResync = length;
+      }
+
+      if (++sinceResync >= length) resync();
+
+      const rawMean = mean + shift;
+      let variance = Math.max(m2 / n, 0);
+      if (variance <= RELATIVE_VARIANCE_FLOOR * rawMean * rawMean) variance = 0;
+      return { count: n, mean: rawMean, variance, std: Math.sqrt(variance) };
+    },
+  };
+}
+
+/** Rolling sum; re-summed exactly every `length` pushes like createRollingMoments. */
+export function createRollingSum(length: number) {
+  if (!(length >= 1)) {
+    throw new Error('Rolling window length must be at least 1');
+  }
+
+  const window = createRingBuffer(length);
+  let sum = 0;
+  let sinceResync = 0;
+
+  return {
+    length,
+    /** Values currently in the window (≤ length). */
+    get count() {
+      return window.size;
+    },
+    /** Add a value and return the window sum. */
+    push(value: number): number {
+      const evicted = window.push(value);
+      sum += value - (evicted ?? 0);
+      if (++sinceResync >= length) {
+        sum = window.sumOf((v) => v);
+        sinceResync = 0;
+      }
+      return sum;
+    },
+  };
+}
+
+/**
+ * Rolling minimum and maximum using monotonic deques of (index, value).
+ * Each value enters and leaves each deque once, so pushes are amortised O(1).
+ */
+export function createRollingMinMax(length: number) {
+  if (!(length >= 1)) {
+    throw new Error('Rolling window length must be at least 1');
+  }
+
+  // Deques stored as arrays with a moving head to avoid O(n) shift()
+  const minIdx: number[] = [];
+  const minVal: number[] = [];
+  const maxIdx: number[] = [];
+  const maxVal: number[] = [];
+  let minHead = 0;
+  let maxHead = 0;
+  let index = 0;
+
+  const compact = () => {
+    if (minHead > length * 2) {
+      minIdx.splice(0, minHead);
+      minVal.splice(0, minHead);
+      minHead = 0;
+    }
+    if (maxHead > length * 2) {
+      maxIdx.splice(0, maxHead);
+      maxVal.splice(0, maxHead);
+      maxHead = 0;
+    }
+  };
+
+  return {
+    length,
+    push(value: number): { count: number; min: number; max: number } {
+      while (minIdx.length > minHead && minVal[minVal.length - 1] >= value) {
+        minIdx.pop();
+        minVal.pop();
+      }
+      minIdx.push(index);
+      minVal.push(value);
+
+      while (maxIdx.length > maxHead && maxVal[maxVal.length - 1] <= value) {
+        maxIdx.pop();
+        maxVal.pop();
+      }
+      maxIdx.push(index);
+      maxVal.push(value);
+
+      const oldest = index - length + 1;
+      while (minIdx[minHead] < oldest) minHead++;
+      while (maxIdx[maxHead] < oldest) maxHead++;
+      compact();
+
+      index++;
+      return { count: Math.min(index, length), min: minVal[minHead], max: maxVal[maxHead] };
+    },
+  };
+}
+
+export interface RollingCovarianceSnapshot {
+  /** Pairs currently in the window (≤ length). */
+  count: number;
+  /** Population variances and covariance (n denominator). */
+  varianceX: number;
+  varianceY: number;
+  covariance: number;
+}
+
+/**
+ * Rolling covariance of two paired series. Sums run on values shifted by the
+ * last exact means and are re-summed every `length` pushes, like
+ * createRollingMoments.
+ */
+export function createRollingCovariance(length: number) {
+  if (!(length >= 1)) {
+    throw new Error('Rolling window length must be at least 1');
+  }
+
+  const xs = createRingBuffer(length);
+  const ys = createRingBuffer(length);
+  let shiftX = 0;
+  let shiftY = 0;
+  let sumX = 0;
+  let sumY = 0;
+  let sumXX = 0;
+  let sumYY = 0;
+  let sumXY = 0;
+  let sinceResync = 0;
+
+  const resync = () => {
+    shiftX = xs.sumOf((v) => v) / xs.size;
+    shiftY = ys.sumOf((v) => v) / ys.size;
+    sumX = 0;
+    sumY = 0;
+    sumXX = xs.sumOf((v) => (v - shiftX) * (v - shiftX));
+    sumYY = ys.sumOf((v) => (v - shiftY) * (v - shiftY));
+    // The buffers fill in lockstep, so equal positions hold a pair
+    sumXY = 0;
+    for (let i = 0; i < xs.size; i++) sumXY += (xs.at(i) - shiftX) * (ys.at(i) - shiftY);
+    sinceResync = 0;
+  };
+
+  return {
+    length,
+    push(x: number, y: number): RollingCovarianceSnapshot {
+      if (xs.size === 0) {
+        shiftX = x;
+        shiftY = y;
+      }
+      const evictedX = xs.push(x);
+      const evictedY = ys.push(y);
+      const dx = x - shiftX;
+      const dy = y - shiftY;
+      sumX += dx;
+      sumY += dy;
+      sumXX += dx * dx;
+      sumYY += dy * dy;
+      sumXY += dx * dy;
+      if (evictedX !== undefined && evictedY !== undefined) {
+        const ex = evictedX - shiftX;
+        const ey = evictedY - shiftY;
+        sumX -= ex;
+        sumY -= ey;
+        sumXX -= ex * ex;
+        sumYY -= ey * ey;
+        sumXY -= ex * ey;
+      }
+
+      if (++sinceResync >= length) resync();
+
+      const n = xs.size;
+      const meanX = sumX / n;
+      const meanY = sumY / n;
+      return {
+        count: n,
+        varianceX: Math.max(sumXX / n - meanX * meanX, 0),
+        varianceY: Math.max(sumYY / n - meanY * meanY, 0),
+        covariance: sumXY / n - meanX * meanY,
+      };
+    },
+  };
+}
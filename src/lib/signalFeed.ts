@@ -0,0 +1,47 @@
+/**
+ * Pure list updates for the live signal feed. Realtime events arrive one row
+ * at a time; these keep the list in the Dashboard's order (strongest Z first)
+ * and drop rows whose expiry has passed, which no database event announces.
+ */
+
+export interface FeedSignal {
+  id: string;
+  expires_at: string;
+  z_ou_score: number;
+}
+
+const byScoreDesc = (a: FeedSignal, b: FeedSignal) => Number(b.z_ou_score) - Number(a.z_ou_score);
+
+export const isExpired = (signal: FeedSignal, now: number) => new Date(signal.expires_at).getTime() <= now;
+
+/** Insert or replace a row by id; expired rows are removed instead. */
+export function upsertSignal<T extends FeedSignal>(signals: T[], row: T, now: number): T[] {
+  const rest = signals.filter((s) => s.id !== row.id);
+  if (isExpired(row, now)) return rest;
+  return [...rest, row].sort(byScoreDesc);
+}
+
+export function removeSignal<T extends FeedSignal>(signals: T[], id: string): T[] {
+  const rest = signals.filter((s) => s.id !== id);
+  return rest.length === signals.length ? signals : rest;
+}
+
+/** Drop expired rows, returning the same array when nothing changed. */
+export function pruneExpired<T extends FeedSignal>(signals: T[], now: number): T[] {
+  const live = signals.filter((s) => !isExpired(s, now));
+  return live.length === signals.length ? signals : live;
+}
+
+/** Ids in `next` that were not in `previous`, e.g. rows that landed while offline. */
+export function newSignalIds(previous: FeedSignal[], next: FeedSignal[]): string[] {
+  const known = new Set(previous.map((s) => s.id));
+  return next.filter((s) => !known.has(s.id)).map((s) => s.id);
+}
+
+const RECONNECT_BASE_MS = 1000;
+const RECONNECT_MAX_MS = 30000;
+
+/** Exponential backoff for resubscribing: 1s, 2s, 4s … capped at 30s. */
+export function reconnectDelay(attempt: number): number {
+  return Math.min(RECONNECT_MAX_MS, RECONNECT_BASE_MS * Math.pow(2, Math.max(0, attempt)));
+}
@@ -0,0 +1,87 @@
+/**
+ * Personal signal filters: a user's user_settings thresholds applied to the
+ * stored pair_metrics of server-generated signals.
+ */
+
+import { evaluateScanFilters } from '@/lib/pairScanner';
+import type { Database } from '@/integrations/supabase/types';
+import { DEFAULT_SCAN_THRESHOLDS, ScanFilter, ScanThresholds } from '@/types/scanner';
+
+type UserSettingsRow = Database['public']['Tables']['user_settings']['Row'];
+type PairMetricsRow = Database['public']['Tables']['pair_metrics']['Row'];
+
+export interface UserFilterThresholds extends ScanThresholds {
+  /** Minimum |z| for a signal to count as an entry. */
+  zscoreEntryThreshold: number;
+}
+
+/** Filter that excluded a signal; 'metrics' means no pair_metrics row was joined. */
+export type SignalFilter = Exclude<ScanFilter, 'data'> | 'zscore' | 'metrics';
+
+export interface FilterableSignal {
+  z_ou_score: number | null;
+  pair_metrics: PairMetricsRow | null;
+}
+
+/** Thresholds from user_settings, falling back to the schema defaults for unset columns. */
+export function userFilterThresholds(settings: UserSettingsRow | null): UserFilterThresholds {
+  return {
+    minCorrelation: Number(settings?.min_correlation ?? DEFAULT_SCAN_THRESHOLDS.minCorrelation),
+    maxCointegrationPValue: Number(settings?.max_cointegration_pvalue ?? DEFAULT_SCAN_THRESHOLDS.maxCointegrationPValue),
+    ouThetaMin: Number(settings?.ou_theta_min ?? DEFAULT_SCAN_THRESHOLDS.ouThetaMin),
+    halfLifeMaxHours: Number(settings?.half_life_max_hours ?? DEFAULT_SCAN_THRESHOLDS.halfLifeMaxHours),
+    hurstMax: Number(settings?.hurst_max ?? DEFAULT_SCAN_THRESHOLDS.hurstMax),
+    zscoreEntryThreshold: Number(settings?.zscore_entry_threshold ?? 2),
+  };
+}
+
+/** Filters a signal fails under the given thresholds; empty when it passes. */
+export function evaluateSignalFilters(signal: FilterableSignal, thresholds: UserFilterThresholds): SignalFilter[] {
+  const failures: SignalFilter[] = [];
+  const z = signal.z_ou_score;
+  if (z === null || Math.abs(Number(z)) < thresholds.zscoreEntryThreshold) failures.push('zscore');
+
+  const metrics = signal.pair_metrics;
+  if (!metrics) return [...failures, 'metrics'];
+
+  const metricFailures = evaluateScanFilters(
+    {
+      correlation: metrics.correlation,
+      cointegrationPValue: metrics.cointegration_pvalue,
+      hedgeRatio: metrics.beta,
+      ouThetaPerHour: metrics.ou_theta,
+      halfLifeHours: metrics.half_life_hours,
+      hurst: metrics.hurst_exponent,
+    },
+    thresholds
+  );
+  return [...failures, ...(metricFailures as SignalFilter[])];
+}
+
+const fmt = (value: number | null | undefined, digits: number) =>
+  value === null || value === undefined ? 'missing' : Number(value).toFixed(digits);
+
+/** Short "value vs threshold" explanation of why a filter excluded a signal. */
+export function describeSignalFilter(
+  filter: SignalFilter,
+  signal: FilterableSignal,
+  thresholds: UserFilterThresholds
+): string {
+  const m = signal.pair_metrics;
+  switch (filter) {
+    case 'zscore':
+      return `|Z| ${fmt(signal.z_ou_score === null ? null : Math.abs(signal.z_ou_score), 2)} < ${thresholds.zscoreEntryThreshold}`;
+    case 'correlation':
+      return `Corr ${fmt(m?.correlation, 2)} < ${thresholds.minCorrelation}`;
+    case 'cointegration':
+      return `Coint p ${fmt(m?.cointegration_pvalue, 4)} > ${thresholds.maxCointegrationPValue}`;
+    case 'ou_theta':
+      return `θ ${fmt(m?.ou_theta, 4)} < ${thresholds.ouThetaMin}`;
+    case 'half_life':
+      return `Half-life ${fmt(m?.half_life_hours, 1)}h > ${thresholds.halfLifeMaxHours}h`;
+    case 'hurst':
+      return `Hurst ${fmt(m?.hurst_exponent, 3)} > ${thresholds.hurstMax}`;
+    case 'metrics':
+      return 'No pair metrics';
+  }
+}
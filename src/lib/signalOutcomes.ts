@@ -0,0 +1,205 @@
+/**
+ * Scoring of expired signals against the candles that followed them: how far
+ * the trade ran for and against us, whether the spread's z-score came back
+ * inside the exit band within N half-lives, and what it returned at exit.
+ */
+
+import type { TradeDirection } from '@/lib/backtest';
+import { buildLogSpread } from '@/lib/marketData';
+import { mean, variance } from '@/lib/statistics';
+import { AlignedCandle, BAR_INTERVAL_SECONDS } from '@/types/marketData';
+import {
+  CONFIDENCE_BUCKETS,
+  CORRELATION_BUCKETS,
+  DIRECTION_BUCKETS,
+  OutcomeBucket,
+  OutcomeBucketStats,
+  OutcomeGrouping,
+  OutcomeParams,
+} from '@/types/outcomes';
+
+export interface OutcomeSignal {
+  direction: TradeDirection;
+  /** Signal creation time in unix seconds. */
+  entryTime: number;
+  /** β of ln A on ln B from pair_metrics. */
+  hedgeRatio: number;
+  halfLifeHours: number | null;
+  /** Prices recorded with the signal; the last closed bar stands in when missing. */
+  entryPriceA: number | null;
+  entryPriceB: number | null;
+}
+
+export interface SignalOutcome {
+  entryZ: number;
+  /** z at the exit bar, or at the end of the horizon. */
+  exitZ: number;
+  horizonBars: number;
+  barsHeld: number;
+  exitCrossed: boolean;
+  barsToExit: number | null;
+  /** Best and worst marked return along the way, as fractions of gross notional. */
+  maxFavorableExcursion: number;
+  maxAdverseExcursion: number;
+  realizedReturn: number;
+}
+
+/** Horizon length in bars, or null when the pair has no usable half-life. */
+export function outcomeHorizonBars(halfLifeHours: number | null, params: OutcomeParams): number | null {
+  if (halfLifeHours === null || !Number.isFinite(halfLifeHours) || halfLifeHours <= 0) return null;
+  const hours = params.halfLives * halfLifeHours;
+  return Math.max(1, Math.ceil((hours * 3600) / BAR_INTERVAL_SECONDS[params.interval]));
+}
+
+/**
+ * Unix time at which the last horizon bar closes; a signal can only be scored
+ * after this. The first bar in the path is the one still open at entry time.
+ */
+export function outcomeHorizonEnd(signal: OutcomeSignal, params: OutcomeParams): number | null {
+  const bars = outcomeHorizonBars(signal.halfLifeHours, params);
+  if (bars === null) return null;
+  const step = BAR_INTERVAL_SECONDS[params.interval];
+  return Math.floor(signal.entryTime / step) * step + bars * step;
+}
+
+/**
+ * Replay a signal on aligned candles that cover the lookback before it and the
+ * horizon after it. The spread's mean and std are frozen from bars that closed
+ * before entry, so the z-score path never sees the future. Returns are marked
+ * at bar closes on dollar weights 1 : |β|, the same basis the backtester uses.
+ *
+ * Returns null when there is too little history before the signal, when the
+ * spread is flat, or when the horizon has not fully elapsed in the data.
+ */
+export function evaluateSignalOutcome(
+  aligned: AlignedCandle[],
+  signal: OutcomeSignal,
+  params: OutcomeParams
+): SignalOutcome | null {
+  const horizonBars = outcomeHorizonBars(signal.halfLifeHours, params);
+  if (horizonBars === null) return null;
+
+  const step = BAR_INTERVAL_SECONDS[params.interval];
+  const firstAfter = aligned.findIndex((c) => c.time + step > signal.entryTime);
+  if (firstAfter < params.minLookbackBars) return null;
+
+  const beta = signal.hedgeRatio;
+  const history = buildLogSpread(aligned.slice(Math.max(0, firstAfter - params.lookbackBars), firstAfter), beta);
+  const mu = mean(history);
+  const sd = Math.sqrt(variance(history));
+  if (!(sd > 0)) return null;
+
+  const lastClosed = aligned[firstAfter - 1];
+  const priceA = signal.entryPriceA && signal.entryPriceA > 0 ? signal.entryPriceA : lastClosed.a.close;
+  const priceB = signal.entryPriceB && signal.entryPriceB > 0 ? signal.entryPriceB : lastClosed.b.close;
+
+  const zOf = (a: number, b: number) => (Math.log(a) - beta * Math.log(b) - mu) / sd;
+  // Long A / short B is taken with z below the band and wins as z climbs back
+  const side = signal.direction === 'long_a_short_b' ? 1 : -1;
+  const weightA = 1 / (1 + Math.abs(beta));
+  const weightB = Math.abs(beta) / (1 + Math.abs(beta));
+  const tradeReturn = (a: number, b: number) =>
+    side * (weightA * (a / priceA - 1) - weightB * (b / priceB - 1));
+
+  const entryZ = zOf(priceA, priceB);
+  const path = aligned.slice(firstAfter, firstAfter + horizonBars);
+  let mfe = 0;
+  let mae = 0;
+  let realized = 0;
+  let z = entryZ;
+  let barsToExit: number | null = null;
+
+  for (let k = 0; k < path.length; k++) {
+    const { a, b } = path[k];
+    realized = tradeReturn(a.close, b.close);
+    mfe = Math.max(mfe, realized);
+    mae = Math.min(mae, realized);
+    z = zOf(a.close, b.close);
+    if (-side * z <= params.exitZ) {
+      barsToExit = k + 1;
+      break;
+    }
+  }
+
+  if (barsToExit === null && path.length < horizonBars) return null;
+
+  return {
+    entryZ,
+    exitZ: z,
+    horizonBars,
+    barsHeld: barsToExit ?? horizonBars,
+    exitCrossed: barsToExit !== null,
+    barsToExit,
+    maxFavorableExcursion: mfe,
+    maxAdverseExcursion: mae,
+    realizedReturn: realized,
+  };
+}
+
+/** Fields of a signal_outcomes row the scorecard aggregates. */
+export interface OutcomeRecord {
+  confidence_score: number | null;
+  correlation: number | null;
+  signal_direction: string | null;
+  exit_crossed: boolean;
+  realized_return: number;
+  max_favorable_excursion: number;
+  max_adverse_excursion: number;
+}
+
+const BUCKETS: Record<OutcomeGrouping, OutcomeBucket[]> = {
+  confidence: CONFIDENCE_BUCKETS,
+  correlation: CORRELATION_BUCKETS,
+  direction: DIRECTION_BUCKETS,
+};
+
+function bucketOf(record: OutcomeRecord, grouping: OutcomeGrouping): string | null {
+  if (grouping === 'direction') return record.signal_direction;
+
+  const raw = grouping === 'confidence' ? record.confidence_score : record.correlation;
+  if (raw === null || raw === undefined) return null;
+  const value = Number(raw);
+  let key: string | null = null;
+  for (const bucket of BUCKETS[grouping]) {
+    if (bucket.min !== null && value >= bucket.min) key = bucket.key;
+  }
+  return key;
+}
+
+function summarize(key: string, label: string, records: OutcomeRecord[]): OutcomeBucketStats {
+  const count = records.length;
+  const avg = (pick: (r: OutcomeRecord) => number) =>
+    count > 0 ? records.reduce((sum, r) => sum + Number(pick(r)), 0) / count : 0;
+
+  return {
+    key,
+    label,
+    count,
+    hitRate: count > 0 ? records.filter((r) => r.exit_crossed).length / count : 0,
+    winRate: count > 0 ? records.filter((r) => Number(r.realized_return) > 0).length / count : 0,
+    avgReturn: avg((r) => r.realized_return),
+    avgMfe: avg((r) => r.max_favorable_excursion),
+    avgMae: avg((r) => r.max_adverse_excursion),
+  };
+}
+
+/** Totals across every scored signal. */
+export function summarizeOutcomes(records: OutcomeRecord[]): OutcomeBucketStats {
+  return summarize('all', 'All signals', records);
+}
+
+/**
+ * Stats per bucket, in bucket order and including empty buckets so tables keep
+ * a stable shape. Records missing the grouped field are left out.
+ */
+export function aggregateOutcomes(records: OutcomeRecord[], grouping: OutcomeGrouping): OutcomeBucketStats[] {
+  const byKey = new Map<string, OutcomeRecord[]>();
+  for (const record of records) {
+    const key = bucketOf(record, grouping);
+    if (key === null) continue;
+    const group = byKey.get(key);
+    if (group) group.push(record);
+    else byKey.set(key, [record]);
+  }
+  return BUCKETS[grouping].map((bucket) => summarize(bucket.key, bucket.label, byKey.get(bucket.key) ?? []));
+}
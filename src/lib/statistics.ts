@@ -0,0 +1,176 @@
+/**
+ * Small numerical helpers shared by the statistical tests and estimators.
+ */
+
+export function mean(values: number[]): number {
+  if (values.length === 0) return 0;
+  return values.reduce((a, b) => a + b, 0) / values.length;
+}
+
+/** Sample variance (n − 1 denominator). */
+export function variance(values: number[]): number {
+  if (values.length < 2) return 0;
+  const m = mean(values);
+  return values.reduce((a, b) => a + Math.pow(b - m, 2), 0) / (values.length - 1);
+}
+
+/** Pearson correlation of two equal-length series; 0 if either is constant. */
+export function correlation(x: number[], y: number[]): number {
+  const n = Math.min(x.length, y.length);
+  if (n < 2) return 0;
+  const mx = mean(x.slice(0, n));
+  const my = mean(y.slice(0, n));
+  let sxy = 0;
+  let sxx = 0;
+  let syy = 0;
+  for (let i = 0; i < n; i++) {
+    sxy += (x[i] - mx) * (y[i] - my);
+    sxx += (x[i] - mx) * (x[i] - mx);
+    syy += (y[i] - my) * (y[i] - my);
+  }
+  return sxx > 0 && syy > 0 ? sxy / Math.sqrt(sxx * syy) : 0;
+}
+
+/** First differences: x[t] − x[t−1]. */
+export function diff(values: number[]): number[] {
+  const result: number[] = [];
+  for (let i = 1; i < values.length; i++) result.push(values[i] - values[i - 1]);
+  return result;
+}
+
+/**
+ * Standard normal CDF via the Abramowitz–Stegun 7.1.26 erf approximation
+ * (absolute error below 1.5e-7).
+ */
+export function normalCdf(x: number): number {
+  const z = Math.abs(x) / Math.SQRT2;
+  const t = 1 / (1 + 0.3275911 * z);
+  const poly = t * (0.254829592 + t * (-0.284496736 + t * (1.421413741 + t * (-1.453152027 + t * 1.061405429))));
+  const erf = 1 - poly * Math.exp(-z * z);
+  return x >= 0 ? 0.5 * (1 + erf) : 0.5 * (1 - erf);
+}
+
+/** Invert a square matrix with Gauss–Jordan elimination. Returns null if singular. */
+export function invertMatrix(matrix: number[][]): number[][] | null {
+  const n = matrix.length;
+  const a = matrix.map((row, i) => [...row, ...Array.from({ length: n }, (_, j) => (i === j ? 1 : 0))]);
+
+  for (let col = 0; col < n; col++) {
+    let pivot = col;
+    for (let row = col + 1; row < n; row++) {
+      if (Math.abs(a[row][col]) > Math.abs(a[pivot][col])) pivot = row;
+    }
+    if (Math.abs(a[pivot][col]) < 1e-12) return null;
+    [a[col], a[pivot]] = [a[pivot], a[col]];
+
+    const p = a[col][col];
+    for (let j = 0; j < 2 * n; j++) a[col][j] /= p;
+
+    for (let row = 0; row < n; row++) {
+      if (row === col) continue;
+      const factor = a[row][col];
+      if (factor === 0) continue;
+      for (let j = 0; j < 2 * n; j++) a[row][j] -= factor * a[col][j];
+    }
+  }
+
+  return a.map((row) => row.slice(n));
+}
+
+export interface OLSResult {
+  coefficients: number[];
+  standardErrors: number[];
+  /** Coefficient covariance matrix, σ²·(X'X)⁻¹. */
+  covariance: number[][];
+  tValues: number[];
+  residuals: number[];
+  /** Residual sum of squares. */
+  ssr: number;
+  /** Residual variance, ssr / (n − k). */
+  sigma2: number;
+  rSquared: number;
+  nobs: number;
+  logLikelihood: number;
+  aic: number;
+  bic: number;
+}
+
+/**
+ * Ordinary least squares of y on the columns of X (each row one observation).
+ * Include a column of ones in X for an intercept.
+ */
+export function ols(y: number[], X: number[][]): OLSResult {
+  const n = y.length;
+  const k = X[0]?.length ?? 0;
+  if (n === 0 || k === 0 || X.length !== n) {
+    throw new Error('OLS requires a non-empty design matrix matching y');
+  }
+  if (n <= k) {
+    throw new Error(`OLS needs more observations (${n}) than regressors (${k})`);
+  }
+
+  const xtx = Array.from({ length: k }, () => new Array(k).fill(0));
+  const xty = new Array(k).fill(0);
+  for (let i = 0; i < n; i++) {
+    const row = X[i];
+    for (let p = 0; p < k; p++) {
+      xty[p] += row[p] * y[i];
+      for (let q = p; q < k; q++) xtx[p][q] += row[p] * row[q];
+    }
+  }
+  for (let p = 0; p < k; p++) {
+    for (let q = 0; q < p; q++) xtx[p][q] = xtx[q][p];
+  }
+
+  const inverse = invertMatrix(xtx);
+  if (!inverse) {
+    throw new Error('OLS design matrix is singular');
+  }
+
+  const coefficients = inverse.map((row) => row.reduce((acc, v, j) => acc + v * xty[j], 0));
+  const residuals = y.map((yi, i) => yi - X[i].reduce((acc, v, j) => acc + v * coefficients[j], 0));
+  const ssr = residuals.reduce((acc, r) => acc + r * r, 0);
+  const sigma2 = ssr / (n - k);
+  const covariance = inverse.map((row) => row.map((v) => v * sigma2));
+  const standardErrors = covariance.map((row, i) => Math.sqrt(Math.max(row[i], 0)));
+  const tValues = coefficients.map((c, i) => (standardErrors[i] > 0 ? c / standardErrors[i] : 0));
+
+  const yMean = mean(y);
+  const tss = y.reduce((acc, yi) => acc + Math.pow(yi - yMean, 2), 0);
+  const logLikelihood = -(n / 2) * (Math.log(2 * Math.PI) + Math.log(ssr / n) + 1);
+
+  return {
+    coefficients,
+    standardErrors,
+    covariance,
+    tValues,
+    residuals,
+    ssr,
+    sigma2,
+    rSquared: tss > 0 ? 1 - ssr / tss : 0,
+    nobs: n,
+    logLikelihood,
+    aic: -2 * logLikelihood + 2 * k,
+    bic: -2 * logLikelihood + Math.log(n) * k,
+  };
+}
+
+export interface LinearFit {
+  intercept: number;
+  slope: number;
+  residuals: number[];
+  rSquared: number;
+  slopeStdError: number;
+}
+
+/** Simple regression y = intercept + slope·x + ε. */
+export function linearRegression(y: number[], x: number[]): LinearFit {
+  const fit = ols(y, x.map((xi) => [1, xi]));
+  return {
+    intercept: fit.coefficients[0],
+    slope: fit.coefficients[1],
+    residuals: fit.residuals,
+    rSquared: fit.rSquared,
+    slopeStdError: fit.standardErrors[1],
+  };
+}
@@ -0,0 +1,705 @@
+/**
+ * Authenticated trading on Bybit, Binance and OKX USDT perpetuals behind one
+ * TradingAdapter interface. Requests are signed through an injected Signer so
+ * the account secret never has to live in the same place as this code.
+ */
+
+import { toOkxInstrument } from '@/lib/marketData';
+import type { MarginMode, LegSide } from '@/types/sizing';
+import type {
+  Balance,
+  ExchangePosition,
+  OrderRequest,
+  OrderResult,
+  OrderStatus,
+  Signer,
+  TradingAdapter,
+  TradingCredentials,
+  TradingError,
+  TradingErrorKind,
+  TradingExchange,
+} from '@/types/trading';
+
+// --- Errors ---
+
+export function tradingError(
+  exchange: TradingAdapter['exchange'],
+  kind: TradingErrorKind,
+  message: string,
+  { code = null, retryAfterMs = null }: { code?: string | null; retryAfterMs?: number | null } = {}
+): TradingError {
+  return Object.assign(new Error(message), { kind, exchange, code, retryAfterMs });
+}
+
+export function isTradingError(e: unknown): e is TradingError {
+  return e instanceof Error && typeof (e as Partial<TradingError>).kind === 'string' && 'exchange' in e;
+}
+
+type ErrorCodes = Partial<Record<TradingErrorKind, string[]>>;
+
+function classify(codes: ErrorCodes, code: string): TradingErrorKind {
+  const match = (Object.keys(codes) as TradingErrorKind[]).find((kind) => codes[kind]?.includes(code));
+  return match ?? 'rejected';
+}
+
+const BYBIT_ERRORS: ErrorCodes = {
+  rate_limited: ['10006', '10018'],
+  auth: ['10003', '10004', '10005', '10007', '10010'],
+  insufficient_balance: ['110004', '110007', '110012', '110045'],
+  not_found: ['110001', '110008'],
+};
+
+const BINANCE_ERRORS: ErrorCodes = {
+  rate_limited: ['-1003', '-1015'],
+  auth: ['-1022', '-2014', '-2015'],
+  insufficient_balance: ['-2019', '-2018'],
+  not_found: ['-2011', '-2013'],
+};
+
+const OKX_ERRORS: ErrorCodes = {
+  rate_limited: ['50011', '50061'],
+  auth: ['50100', '50101', '50105', '50111', '50113', '50114'],
+  insufficient_balance: ['51008', '51127', '51131'],
+  not_found: ['51603'],
+};
+
+// --- Signing ---
+
+export function toHex(buffer: ArrayBuffer): string {
+  return Array.from(new Uint8Array(buffer), (b) => b.toString(16).padStart(2, '0')).join('');
+}
+
+export function toBase64(buffer: ArrayBuffer): string {
+  let binary = '';
+  new Uint8Array(buffer).forEach((b) => {
+    binary += String.fromCharCode(b);
+  });
+  return btoa(binary);
+}
+
+/** HMAC-SHA256 signer over a secret held in memory, for server-side callers. */
+export function createHmacSigner(secret: string): Signer {
+  const encoder = new TextEncoder();
+  const key = crypto.subtle.importKey('raw', encoder.encode(secret), { name: 'HMAC', hash: 'SHA-256' }, false, ['sign']);
+  return async (payload) => crypto.subtle.sign('HMAC', await key, encoder.encode(payload));
+}
+
+// --- Wire helpers ---
+
+/** Plain decimal string for an order field; exchanges reject exponent notation. */
+export function formatDecimal(value: number): string {
+  if (!Number.isFinite(value)) throw new Error(`Invalid number ${value}`);
+  return value.toFixed(12).replace(/\.?0+$/, '');
+}
+
+const num = (value: unknown) => {
+  const n = Number(value);
+  return Number.isFinite(n) ? n : 0;
+};
+
+const optionalPrice = (value: unknown) => {
+  const n = Number(value);
+  return Number.isFinite(n) && n > 0 ? n : null;
+};
+
+type Params = Record<string, string | number | boolean | undefined>;
+
+function queryString(params: Params): string {
+  const entries = Object.entries(params).filter(([, v]) => v !== undefined).map(([k, v]) => [k, String(v)]);
+  return new URLSearchParams(entries).toString();
+}
+
+function jsonBody(params: Params): string {
+  return JSON.stringify(Object.fromEntries(Object.entries(params).filter(([, v]) => v !== undefined)));
+}
+
+export interface TradingAdapterOptions {
+  fetch?: typeof fetch;
+  now?: () => number;
+  baseUrl?: string;
+  /** Wait between reads of an order that is still working. */
+  sleep?: (ms: number) => Promise<void>;
+}
+
+const defaultSleep = (ms: number) => new Promise<void>((resolve) => setTimeout(resolve, ms));
+
+const SETTLED_ORDER_STATUSES: OrderStatus[] = ['filled', 'cancelled', 'rejected'];
+
+/** Whether an order has stopped working, so its fill can no longer change. */
+export const isOrderSettled = (order: OrderResult) => SETTLED_ORDER_STATUSES.includes(order.status);
+
+export interface OrderSettleOptions {
+  /** Stop polling after this long and return the last state read. */
+  timeoutMs?: number;
+  pollMs?: number;
+  sleep?: (ms: number) => Promise<void>;
+  now?: () => number;
+}
+
+/**
+ * Read an order until it settles. IOC and market orders settle almost at
+ * once, but a read straight after placing can still catch them live with
+ * nothing filled yet.
+ */
+export async function awaitOrderSettled(
+  read: () => Promise<OrderResult>,
+  { timeoutMs = 5000, pollMs = 200, sleep = defaultSleep, now = Date.now }: OrderSettleOptions = {}
+): Promise<OrderResult> {
+  const deadline = now() + timeoutMs;
+  for (;;) {
+    const order = await read();
+    if (isOrderSettled(order) || now() >= deadline) return order;
+    await sleep(pollMs);
+  }
+}
+
+/** Read a JSON body, turning throttling and transport failures into TradingErrors. */
+async function readJson(exchange: TradingExchange, res: Response): Promise<unknown> {
+  if (res.status === 429 || res.status === 418) {
+    const retryAfter = Number(res.headers.get('Retry-After'));
+    throw tradingError(exchange, 'rate_limited', `${exchange} rate limit hit`, {
+      code: String(res.status),
+      retryAfterMs: Number.isFinite(retryAfter) && retryAfter > 0 ? retryAfter * 1000 : null,
+    });
+  }
+  try {
+    return await res.json();
+  } catch {
+    throw tradingError(exchange, 'network', `${exchange} returned an unreadable response (${res.status})`);
+  }
+}
+
+/** The side that closes a position opened with `side`. */
+export const closingSide = (side: LegSide): LegSide => (side === 'buy' ? 'sell' : 'buy');
+
+const orderId = (order: OrderRequest) => order.clientOrderId ?? undefined;
+
+function requireLimitPrice(exchange: TradingExchange, order: OrderRequest): string | undefined {
+  if (order.type !== 'limit') return undefined;
+  if (!(order.price && order.price > 0)) throw tradingError(exchange, 'rejected', 'Limit orders need a price');
+  return formatDecimal(order.price);
+}
+
+// --- Bybit v5 ---
+
+interface BybitOrderRaw {
+  orderId: string;
+  orderLinkId?: string;
+  symbol: string;
+  side: 'Buy' | 'Sell';
+  orderStatus: string;
+  qty: string;
+  cumExecQty: string;
+  avgPrice: string;
+}
+
+const BYBIT_ORDER_STATUS: Record<string, OrderStatus> = {
+  Created: 'new',
+  New: 'new',
+  Untriggered: 'new',
+  PartiallyFilled: 'partially_filled',
+  Filled: 'filled',
+  Cancelled: 'cancelled',
+  PartiallyFilledCanceled: 'cancelled',
+  Deactivated: 'cancelled',
+  Rejected: 'rejected',
+};
+
+/** Unwrap a Bybit v5 envelope `{ retCode, retMsg, result }`, throwing on a non-zero code. */
+export function parseBybitResult<T>(payload: unknown, ignoreCodes: number[] = []): T {
+  const body = payload as { retCode?: number; retMsg?: string; result?: T };
+  if (typeof body?.retCode !== 'number') throw tradingError('bybit', 'network', 'Bybit returned an unexpected response');
+  if (body.retCode !== 0 && !ignoreCodes.includes(body.retCode)) {
+    const code = String(body.retCode);
+    throw tradingError('bybit', classify(BYBIT_ERRORS, code), `Bybit: ${body.retMsg || 'request failed'}`, { code });
+  }
+  return body.result as T;
+}
+
+/** Bybit `/v5/order/realtime`: `result.list[0]`. */
+export function parseBybitOrder(payload: unknown): OrderResult {
+  const order = parseBybitResult<{ list?: BybitOrderRaw[] }>(payload).list?.[0];
+  if (!order) throw tradingError('bybit', 'not_found', 'Bybit: order not found');
+  const filled = num(order.cumExecQty);
+  return {
+    orderId: order.orderId,
+    clientOrderId: order.orderLinkId || null,
+    symbol: order.symbol,
+    side: order.side === 'Buy' ? 'buy' : 'sell',
+    status: BYBIT_ORDER_STATUS[order.orderStatus] ?? 'new',
+    quantity: num(order.qty),
+    filledQuantity: filled,
+    avgPrice: filled > 0 ? optionalPrice(order.avgPrice) : null,
+  };
+}
+
+/** Bybit `/v5/position/list`: flat entries (size 0) are dropped. */
+export function parseBybitPositions(payload: unknown): ExchangePosition[] {
+  const list = parseBybitResult<{ list?: Array<Record<string, string | number>> }>(payload).list ?? [];
+  return list
+    .filter((p) => num(p.size) > 0)
+    .map((p) => ({
+      symbol: String(p.symbol),
+      side: p.side === 'Sell' ? 'short' : 'long',
+      size: num(p.size),
+      entryPrice: num(p.avgPrice),
+      markPrice: num(p.markPrice),
+      unrealizedPnl: num(p.unrealisedPnl),
+      leverage: num(p.leverage),
+      marginMode: Number(p.tradeMode) === 1 ? 'isolated' : 'cross',
+      liquidationPrice: optionalPrice(p.liqPrice),
+    }));
+}
+
+/** Bybit `/v5/account/wallet-balance`: coins of the first (unified) account. */
+export function parseBybitBalances(payload: unknown): Balance[] {
+  const account = parseBybitResult<{ list?: Array<{ coin?: Array<Record<string, string>> }> }>(payload).list?.[0];
+  return (account?.coin ?? []).map((c) => ({
+    asset: c.coin,
+    total: num(c.walletBalance),
+    available: num(c.availableToWithdraw || c.walletBalance),
+  }));
+}
+
+// "leverage not modified" / "margin mode not modified" are successes for our purposes
+const BYBIT_UNCHANGED_LEVERAGE = 110043;
+const BYBIT_UNCHANGED_MARGIN_MODE = 110026;
+
+export function createBybitTradingAdapter(
+  credentials: TradingCredentials,
+  { fetch: fetchImpl = fetch, now = Date.now, baseUrl = 'https://api.bybit.com', sleep }: TradingAdapterOptions = {}
+): TradingAdapter {
+  const recvWindow = '5000';
+
+  const request = async (method: 'GET' | 'POST', path: string, params: Params): Promise<unknown> => {
+    const timestamp = String(now());
+    const query = method === 'GET' ? queryString(params) : '';
+    const body = method === 'POST' ? jsonBody(params) : '';
+    const signature = toHex(await credentials.sign(timestamp + credentials.apiKey + recvWindow + (query || body)));
+    let res: Response;
+    try {
+      res = await fetchImpl(`${baseUrl}${path}${query ? `?${query}` : ''}`, {
+        method,
+        headers: {
+          'Content-Type': 'application/json',
+          'X-BAPI-API-KEY': credentials.apiKey,
+          'X-BAPI-TIMESTAMP': timestamp,
+          'X-BAPI-RECV-WINDOW': recvWindow,
+          'X-BAPI-SIGN': signature,
+        },
+        body: method === 'POST' ? body : undefined,
+      });
+    } catch (e) {
+      throw tradingError('bybit', 'network', `Bybit unreachable: ${e instanceof Error ? e.message : e}`);
+    }
+    return readJson('bybit', res);
+  };
+
+  const getOrder = async (symbol: string, id: string) =>
+    parseBybitOrder(await request('GET', '/v5/order/realtime', { category: 'linear', symbol, orderId: id }));
+
+  const submitOrder = async (order: OrderRequest) => {
+    const price = requireLimitPrice('bybit', order);
+    const result = parseBybitResult<{ orderId: string }>(
+      await request('POST', '/v5/order/create', {
+        category: 'linear',
+        symbol: order.symbol,
+        side: order.side === 'buy' ? 'Buy' : 'Sell',
+        orderType: order.type === 'limit' ? 'Limit' : 'Market',
+        qty: formatDecimal(order.quantity),
+        price,
+        timeInForce: order.timeInForce === 'ioc' ? 'IOC' : order.type === 'limit' ? 'GTC' : undefined,
+        reduceOnly: order.reduceOnly || undefined,
+        orderLinkId: orderId(order),
+      })
+    );
+    return result.orderId;
+  };
+
+  return {
+    exchange: 'bybit',
+    submitOrder,
+    placeOrder: async (order) => {
+      const id = await submitOrder(order);
+      return awaitOrderSettled(() => getOrder(order.symbol, id), { now, sleep });
+    },
+    cancelOrder: async (symbol, id) => {
+      parseBybitResult(await request('POST', '/v5/order/cancel', { category: 'linear', symbol, orderId: id }));
+      return getOrder(symbol, id);
+    },
+    getOrder,
+    getOrderByClientId: async (symbol, clientOrderId) =>
+      parseBybitOrder(await request('GET', '/v5/order/realtime', { category: 'linear', symbol, orderLinkId: clientOrderId })),
+    getPositions: async () =>
+      parseBybitPositions(await request('GET', '/v5/position/list', { category: 'linear', settleCoin: 'USDT' })),
+    getBalances: async () =>
+      parseBybitBalances(await request('GET', '/v5/account/wallet-balance', { accountType: 'UNIFIED' })),
+    setLeverage: async (symbol, leverage) => {
+      const value = formatDecimal(leverage);
+      parseBybitResult(
+        await request('POST', '/v5/position/set-leverage', {
+          category: 'linear',
+          symbol,
+          buyLeverage: value,
+          sellLeverage: value,
+        }),
+        [BYBIT_UNCHANGED_LEVERAGE]
+      );
+    },
+    setMarginMode: async (symbol, mode, leverage) => {
+      const value = formatDecimal(leverage);
+      parseBybitResult(
+        await request('POST', '/v5/position/switch-isolated', {
+          category: 'linear',
+          symbol,
+          tradeMode: mode === 'isolated' ? 1 : 0,
+          buyLeverage: value,
+          sellLeverage: value,
+        }),
+        [BYBIT_UNCHANGED_MARGIN_MODE]
+      );
+    },
+  };
+}
+
+// --- Binance USDⓈ-M futures ---
+
+const BINANCE_ORDER_STATUS: Record<string, OrderStatus> = {
+  NEW: 'new',
+  PARTIALLY_FILLED: 'partially_filled',
+  FILLED: 'filled',
+  CANCELED: 'cancelled',
+  EXPIRED: 'cancelled',
+  EXPIRED_IN_MATCH: 'cancelled',
+  REJECTED: 'rejected',
+};
+
+/** Binance answers errors as `{ code, msg }` with a negative code. */
+export function parseBinanceResult<T>(payload: unknown, ignoreCodes: number[] = []): T {
+  const body = payload as { code?: number; msg?: string };
+  if (body && typeof body.code === 'number' && body.code < 0 && !ignoreCodes.includes(body.code)) {
+    const code = String(body.code);
+    throw tradingError('binance', classify(BINANCE_ERRORS, code), `Binance: ${body.msg || 'request failed'}`, { code });
+  }
+  return payload as T;
+}
+
+/** Binance `/fapi/v1/order` (place, query and cancel share this shape). */
+export function parseBinanceOrder(payload: unknown): OrderResult {
+  const order = parseBinanceResult<Record<string, string | number>>(payload);
+  const filled = num(order.executedQty);
+  return {
+    orderId: String(order.orderId),
+    clientOrderId: order.clientOrderId ? String(order.clientOrderId) : null,
+    symbol: String(order.symbol),
+    side: order.side === 'BUY' ? 'buy' : 'sell',
+    status: BINANCE_ORDER_STATUS[String(order.status)] ?? 'new',
+    quantity: num(order.origQty),
+    filledQuantity: filled,
+    avgPrice: filled > 0 ? optionalPrice(order.avgPrice) : null,
+  };
+}
+
+/** Binance `/fapi/v2/positionRisk`: signed `positionAmt`, zero for flat symbols. */
+export function parseBinancePositions(payload: unknown): ExchangePosition[] {
+  const list = parseBinanceResult<Array<Record<string, string>>>(payload);
+  if (!Array.isArray(list)) throw tradingError('binance', 'network', 'Binance returned an unexpected response');
+  return list
+    .filter((p) => num(p.positionAmt) !== 0)
+    .map((p) => ({
+      symbol: p.symbol,
+      side: num(p.positionAmt) > 0 ? 'long' : 'short',
+      size: Math.abs(num(p.positionAmt)),
+      entryPrice: num(p.entryPrice),
+      markPrice: num(p.markPrice),
+      unrealizedPnl: num(p.unRealizedProfit),
+      leverage: num(p.leverage),
+      marginMode: p.marginType === 'isolated' ? 'isolated' : 'cross',
+      liquidationPrice: optionalPrice(p.liquidationPrice),
+    }));
+}
+
+/** Binance `/fapi/v2/balance`. */
+export function parseBinanceBalances(payload: unknown): Balance[] {
+  const list = parseBinanceResult<Array<Record<string, string>>>(payload);
+  if (!Array.isArray(list)) throw tradingError('binance', 'network', 'Binance returned an unexpected response');
+  return list.map((b) => ({ asset: b.asset, total: num(b.balance), available: num(b.availableBalance) }));
+}
+
+// "No need to change margin type"
+const BINANCE_UNCHANGED_MARGIN_MODE = -4046;
+
+export function createBinanceTradingAdapter(
+  credentials: TradingCredentials,
+  { fetch: fetchImpl = fetch, now = Date.now, baseUrl = 'https://fapi.binance.com', sleep }: TradingAdapterOptions = {}
+): TradingAdapter {
+  const request = async (method: 'GET' | 'POST' | 'DELETE', path: string, params: Params): Promise<unknown> => {
+    const query = queryString({ ...params, recvWindow: 5000, timestamp: now() });
+    const signature = toHex(await credentials.sign(query));
+    let res: Response;
+    try {
+      res = await fetchImpl(`${baseUrl}${path}?${query}&signature=${signature}`, {
+        method,
+        headers: { 'X-MBX-APIKEY': credentials.apiKey },
+      });
+    } catch (e) {
+      throw tradingError('binance', 'network', `Binance unreachable: ${e instanceof Error ? e.message : e}`);
+    }
+    return readJson('binance', res);
+  };
+
+  const getOrder = async (symbol: string, id: string) =>
+    parseBinanceOrder(await request('GET', '/fapi/v1/order', { symbol, orderId: id }));
+
+  const createOrder = async (order: OrderRequest) =>
+    parseBinanceOrder(
+      await request('POST', '/fapi/v1/order', {
+        symbol: order.symbol,
+        side: order.side === 'buy' ? 'BUY' : 'SELL',
+        type: order.type === 'limit' ? 'LIMIT' : 'MARKET',
+        quantity: formatDecimal(order.quantity),
+        price: requireLimitPrice('binance', order),
+        timeInForce: order.type === 'limit' ? (order.timeInForce === 'ioc' ? 'IOC' : 'GTC') : undefined,
+        reduceOnly: order.reduceOnly ? 'true' : undefined,
+        newClientOrderId: orderId(order),
+        newOrderRespType: 'RESULT',
+      })
+    );
+
+  return {
+    exchange: 'binance',
+    submitOrder: async (order) => (await createOrder(order)).orderId,
+    placeOrder: async (order) => {
+      const placed = await createOrder(order);
+      if (isOrderSettled(placed)) return placed;
+      return awaitOrderSettled(() => getOrder(order.symbol, placed.orderId), { now, sleep });
+    },
+    cancelOrder: async (symbol, id) => parseBinanceOrder(await request('DELETE', '/fapi/v1/order', { symbol, orderId: id })),
+    getOrder,
+    getOrderByClientId: async (symbol, clientOrderId) =>
+      parseBinanceOrder(await request('GET', '/fapi/v1/order', { symbol, origClientOrderId: clientOrderId })),
+    getPositions: async () => parseBinancePositions(await request('GET', '/fapi/v2/positionRisk', {})),
+    getBalances: async () => parseBinanceBalances(await request('GET', '/fapi/v2/balance', {})),
+    setLeverage: async (symbol, leverage) => {
+      parseBinanceResult(await request('POST', '/fapi/v1/leverage', { symbol, leverage: Math.round(leverage) }));
+    },
+    setMarginMode: async (symbol, mode) => {
+      parseBinanceResult(
+        await request('POST', '/fapi/v1/marginType', { symbol, marginType: mode === 'isolated' ? 'ISOLATED' : 'CROSSED' }),
+        [BINANCE_UNCHANGED_MARGIN_MODE]
+      );
+    },
+  };
+}
+
+// --- OKX v5 ---
+
+const OKX_ORDER_STATUS: Record<string, OrderStatus> = {
+  live: 'new',
+  partially_filled: 'partially_filled',
+  filled: 'filled',
+  canceled: 'cancelled',
+  mmp_canceled: 'cancelled',
+};
+
+/** BTC-USDT-SWAP -> BTCUSDT */
+export function fromOkxInstrument(instId: string): string {
+  return instId.replace(/-SWAP$/, '').replace('-', '');
+}
+
+/**
+ * Unwrap an OKX envelope `{ code, msg, data }`. Order endpoints report a
+ * per-item `sCode`/`sMsg` inside `data`, which wins over the generic message.
+ */
+export function parseOkxResult<T>(payload: unknown): T[] {
+  const body = payload as { code?: string; msg?: string; data?: Array<T & { sCode?: string; sMsg?: string }> };
+  if (typeof body?.code !== 'string') throw tradingError('okx', 'network', 'OKX returned an unexpected response');
+  const item = body.data?.[0];
+  const itemCode = item?.sCode && item.sCode !== '0' ? item.sCode : null;
+  if (body.code !== '0' || itemCode) {
+    const code = itemCode ?? body.code;
+    const message = (itemCode && item?.sMsg) || body.msg || 'request failed';
+    throw tradingError('okx', classify(OKX_ERRORS, code), `OKX: ${message}`, { code });
+  }
+  return body.data ?? [];
+}
+
+/** OKX `/api/v5/trade/order`: sizes are in contracts and scaled by `ctVal` into base units. */
+export function parseOkxOrder(payload: unknown, contractValue: number): OrderResult {
+  const order = parseOkxResult<Record<string, string>>(payload)[0];
+  if (!order) throw tradingError('okx', 'not_found', 'OKX: order not found');
+  const filled = num(order.accFillSz) * contractValue;
+  return {
+    orderId: order.ordId,
+    clientOrderId: order.clOrdId || null,
+    symbol: fromOkxInstrument(order.instId),
+    side: order.side === 'buy' ? 'buy' : 'sell',
+    status: OKX_ORDER_STATUS[order.state] ?? 'new',
+    quantity: num(order.sz) * contractValue,
+    filledQuantity: filled,
+    avgPrice: filled > 0 ? optionalPrice(order.avgPx) : null,
+  };
+}
+
+/** OKX `/api/v5/account/positions`. Net-mode positions carry the side in the sign of `pos`. */
+export function parseOkxPositions(payload: unknown, contractValues: Record<string, number>): ExchangePosition[] {
+  return parseOkxResult<Record<string, string>>(payload)
+    .filter((p) => num(p.pos) !== 0)
+    .map((p) => {
+      const pos = num(p.pos);
+      const side: ExchangePosition['side'] =
+        p.posSide === 'long' || p.posSide === 'short' ? p.posSide : pos > 0 ? 'long' : 'short';
+      return {
+        symbol: fromOkxInstrument(p.instId),
+        side,
+        size: Math.abs(pos) * (contractValues[p.instId] ?? 1),
+        entryPrice: num(p.avgPx),
+        markPrice: num(p.markPx),
+        unrealizedPnl: num(p.upl),
+        leverage: num(p.lever),
+        marginMode: p.mgnMode === 'isolated' ? 'isolated' : 'cross',
+        liquidationPrice: optionalPrice(p.liqPx),
+      };
+    });
+}
+
+/** OKX `/api/v5/account/balance`: per-currency `details` of the trading account. */
+export function parseOkxBalances(payload: unknown): Balance[] {
+  const account = parseOkxResult<{ details?: Array<Record<string, string>> }>(payload)[0];
+  return (account?.details ?? []).map((d) => ({ asset: d.ccy, total: num(d.eq), available: num(d.availBal) }));
+}
+
+export function createOkxTradingAdapter(
+  credentials: TradingCredentials,
+  { fetch: fetchImpl = fetch, now = Date.now, baseUrl = 'https://www.okx.com', sleep }: TradingAdapterOptions = {}
+): TradingAdapter {
+  const contractValues = new Map<string, number>();
+  // OKX takes the margin mode on every order rather than as a symbol setting
+  const marginModes = new Map<string, MarginMode>();
+
+  const send = async (method: 'GET' | 'POST', path: string, params: Params, signed: boolean): Promise<unknown> => {
+    const query = method === 'GET' ? queryString(params) : '';
+    const body = method === 'POST' ? jsonBody(params) : '';
+    const requestPath = `${path}${query ? `?${query}` : ''}`;
+    const headers: Record<string, string> = { 'Content-Type': 'application/json' };
+    if (signed) {
+      const timestamp = new Date(now()).toISOString();
+      headers['OK-ACCESS-KEY'] = credentials.apiKey;
+      headers['OK-ACCESS-SIGN'] = toBase64(await credentials.sign(timestamp + method + requestPath + body));
+      headers['OK-ACCESS-TIMESTAMP'] = timestamp;
+      headers['OK-ACCESS-PASSPHRASE'] = credentials.passphrase ?? '';
+    }
+    let res: Response;
+    try {
+      res = await fetchImpl(`${baseUrl}${requestPath}`, { method, headers, body: method === 'POST' ? body : undefined });
+    } catch (e) {
+      throw tradingError('okx', 'network', `OKX unreachable: ${e instanceof Error ? e.message : e}`);
+    }
+    return readJson('okx', res);
+  };
+
+  const contractValue = async (instId: string) => {
+    const cached = contractValues.get(instId);
+    if (cached !== undefined) return cached;
+    const info = parseOkxResult<Record<string, string>>(
+      await send('GET', '/api/v5/public/instruments', { instType: 'SWAP', instId }, false)
+    )[0];
+    if (!info) throw tradingError('okx', 'not_found', `OKX has no instrument ${instId}`);
+    const value = Number(info.ctVal) || 1;
+    contractValues.set(instId, value);
+    return value;
+  };
+
+  const readOrder = async (symbol: string, ref: { ordId: string } | { clOrdId: string }) => {
+    const instId = toOkxInstrument(symbol);
+    return parseOkxOrder(await send('GET', '/api/v5/trade/order', { instId, ...ref }, true), await contractValue(instId));
+  };
+
+  const getOrder = (symbol: string, id: string) => readOrder(symbol, { ordId: id });
+
+  const okxOrderType = (order: OrderRequest) => {
+    if (order.type === 'market') return 'market';
+    return order.timeInForce === 'ioc' ? 'ioc' : 'limit';
+  };
+
+  const submitOrder = async (order: OrderRequest) => {
+    const instId = toOkxInstrument(order.symbol);
+    const ctVal = await contractValue(instId);
+    const [placed] = parseOkxResult<{ ordId: string }>(
+      await send(
+        'POST',
+        '/api/v5/trade/order',
+        {
+          instId,
+          tdMode: marginModes.get(order.symbol) ?? 'cross',
+          side: order.side,
+          ordType: okxOrderType(order),
+          sz: formatDecimal(order.quantity / ctVal),
+          px: requireLimitPrice('okx', order),
+          reduceOnly: order.reduceOnly || undefined,
+          clOrdId: orderId(order),
+        },
+        true
+      )
+    );
+    return placed.ordId;
+  };
+
+  return {
+    exchange: 'okx',
+    submitOrder,
+    placeOrder: async (order) => {
+      const id = await submitOrder(order);
+      return awaitOrderSettled(() => getOrder(order.symbol, id), { now, sleep });
+    },
+    cancelOrder: async (symbol, id) => {
+      parseOkxResult(await send('POST', '/api/v5/trade/cancel-order', { instId: toOkxInstrument(symbol), ordId: id }, true));
+      return getOrder(symbol, id);
+    },
+    getOrder,
+    getOrderByClientId: (symbol, clientOrderId) => readOrder(symbol, { clOrdId: clientOrderId }),
+    getPositions: async () => {
+      const payload = await send('GET', '/api/v5/account/positions', { instType: 'SWAP' }, true);
+      const instIds = [...new Set(parseOkxResult<{ instId: string }>(payload).map((p) => p.instId))];
+      const values: Record<string, number> = {};
+      for (const instId of instIds) values[instId] = await contractValue(instId);
+      return parseOkxPositions(payload, values);
+    },
+    getBalances: async () => parseOkxBalances(await send('GET', '/api/v5/account/balance', {}, true)),
+    setLeverage: async (symbol, leverage) => {
+      parseOkxResult(
+        await send(
+          'POST',
+          '/api/v5/account/set-leverage',
+          { instId: toOkxInstrument(symbol), lever: formatDecimal(leverage), mgnMode: marginModes.get(symbol) ?? 'cross' },
+          true
+        )
+      );
+    },
+    setMarginMode: async (symbol, mode, leverage) => {
+      marginModes.set(symbol, mode);
+      parseOkxResult(
+        await send(
+          'POST',
+          '/api/v5/account/set-leverage',
+          { instId: toOkxInstrument(symbol), lever: formatDecimal(leverage), mgnMode: mode },
+          true
+        )
+      );
+    },
+  };
+}
+
+const FACTORIES: Record<TradingExchange, (credentials: TradingCredentials, options?: TradingAdapterOptions) => TradingAdapter> = {
+  bybit: createBybitTradingAdapter,
+  binance: createBinanceTradingAdapter,
+  okx: createOkxTradingAdapter,
+};
+
+export function createTradingAdapter(
+  exchange: TradingExchange,
+  credentials: TradingCredentials,
+  options?: TradingAdapterOptions
+): TradingAdapter {
+  return FACTORIES[exchange](credentials, options);
+}
@@ -1,4 +1,4 @@
-import { useEffect, useState } from 'react';
+import { useMemo, useState } from 'react';
 import { Link } from 'react-router-dom';
 import { useAuth } from '@/contexts/AuthContext';
 import AppLayout from '@/components/layout/AppLayout';
@@ -13,6 +13,7 @@ import {
   TableHeader,
   TableRow,
 } from '@/components/ui/table';
+import { ToggleGroup, ToggleGroupItem } from '@/components/ui/toggle-group';
 import {
   TrendingUp,
   TrendingDown,
@@ -23,82 +24,69 @@ import {
   ArrowUpDown,
   Loader2,
   AlertCircle,
+  Filter,
+  Globe,
+  Radio,
+  WifiOff,
 } from 'lucide-react';
 import { cn } from '@/lib/utils';
-import { supabase } from '@/integrations/supabase/client';
-import type { Database } from '@/integrations/supabase/types';
+import { describeSignalFilter, evaluateSignalFilters, userFilterThresholds } from '@/lib/signalFilters';
+import { useUserSettings } from '@/hooks/useUserSettings';
+import { SignalFeedStatus, useSignalFeed } from '@/hooks/useSignalFeed';
 
-type Signal = Database['public']['Tables']['signals']['Row'];
-type PairMetrics = Database['public']['Tables']['pair_metrics']['Row'];
-type GlobalScanConfig = Database['public']['Tables']['global_scan_config']['Row'];
+type SignalView = 'global' | 'mine';
 
-interface SignalWithMetrics extends Signal {
-  pair_metrics: PairMetrics | null;
-}
-
-function formatTimeAgo(date: Date): string {
-  const minutes = Math.floor((Date.now() - date.getTime()) / 60000);
+function formatTimeAgo(date: Date, now: number): string {
+  const minutes = Math.floor((now - date.getTime()) / 60000);
   if (minutes < 1) return 'Just now';
   if (minutes === 1) return '1 min ago';
   return `${minutes} mins ago`;
 }
 
-function formatTimeUntil(date: Date): string {
-  const minutes = Math.ceil((date.getTime() - Date.now()) / 60000);
-  if (minutes <= 0) return 'Soon';
-  if (minutes === 1) return '1 min';
-  return `${minutes} mins`;
+/** Live countdown as m:ss (h:mm:ss past an hour). */
+function formatTimeUntil(date: Date, now: number): string {
+  const totalSeconds = Math.ceil((date.getTime() - now) / 1000);
+  if (totalSeconds <= 0) return 'Soon';
+  const hours = Math.floor(totalSeconds / 3600);
+  const minutes = Math.floor((totalSeconds % 3600) / 60);
+  const seconds = String(totalSeconds % 60).padStart(2, '0');
+  return hours > 0 ? `${hours}:${String(minutes).padStart(2, '0')}:${seconds}` : `${minutes}:${seconds}`;
 }
 
+const FEED_STATUS: Record<SignalFeedStatus, { label: string; dot: string }> = {
+  connecting: { label: 'Connecting', dot: 'bg-muted-foreground' },
+  live: { label: 'Live', dot: 'bg-success' },
+  reconnecting: { label: 'Reconnecting', dot: 'bg-warning animate-pulse' },
+  offline: { label: 'Offline', dot: 'bg-destructive' },
+};
+
 export default function Dashboard() {
   const { profile } = useAuth();
-  const [signals, setSignals] = useState<SignalWithMetrics[]>([]);
-  const [scanConfig, setScanConfig] = useState<GlobalScanConfig | null>(null);
-  const [isLoading, setIsLoading] = useState(true);
-
-  const fetchData = async () => {
-    setIsLoading(true);
-    try {
-      const [signalsRes, configRes] = await Promise.all([
-        supabase
-          .from('signals')
-          .select('*, pair_metrics(*)')
-          .gte('expires_at', new Date().toISOString())
-          .order('z_ou_score', { ascending: false }),
-        supabase
-          .from('global_scan_config')
-          .select('*')
-          .limit(1)
-          .maybeSingle(),
-      ]);
+  const { signals, scanConfig, loading: isLoading, status: feedStatus, highlighted, now, refetch } = useSignalFeed();
+  const [view, setView] = useState<SignalView>('global');
+  const { settings } = useUserSettings();
 
-      if (signalsRes.error) throw signalsRes.error;
-      setSignals(signalsRes.data || []);
-      
-      if (!configRes.error && configRes.data) {
-        setScanConfig(configRes.data);
-      }
-    } catch (error) {
-      if (import.meta.env.DEV) console.error('Error fetching data:', error);
-    } finally {
-      setIsLoading(false);
-    }
-  };
-
-  useEffect(() => {
-    fetchData();
-  }, []);
+  // ---- Personal filters (user_settings against the joined pair_metrics) ----
+  const thresholds = useMemo(() => userFilterThresholds(settings), [settings]);
+  const evaluated = useMemo(
+    () => signals.map((signal) => ({ signal, failures: evaluateSignalFilters(signal, thresholds) })),
+    [signals, thresholds]
+  );
+  const hiddenSignals = evaluated.filter((e) => e.failures.length > 0);
+  const visibleSignals = view === 'mine'
+    ? evaluated.filter((e) => e.failures.length === 0).map((e) => e.signal)
+    : signals;
 
-  const longSignals = signals.filter(s => 
+  const longSignals = visibleSignals.filter(s => 
     s.signal_direction?.toLowerCase() === 'long_a_short_b' || 
     s.signal_direction?.toLowerCase() === 'long'
   );
-  const shortSignals = signals.filter(s => 
+  const shortSignals = visibleSignals.filter(s => 
     s.signal_direction?.toLowerCase() === 'short_a_long_b' || 
     s.signal_direction?.toLowerCase() === 'short'
   );
-  const avgConfidence = signals.length > 0
-    ? signals.reduce((a, b) => a + Number(b.confidence_score || 0), 0) / signals.length
+  const avgConfidence = visibleSignals.length > 0
+    ? visibleSignals.reduce((a, b) => a + Number(b.confidence_score || 0), 0) / visibleSignals.length
     : 0;
 
   return (
@@ -116,6 +104,16 @@ export default function Dashboard() {
           {/* Scan Status */}
           <Card className="sm:w-auto">
             <CardContent className="flex items-center gap-4 p-3">
+              <div className="flex items-center gap-2" title="Realtime feed">
+                {feedStatus === 'offline' ? (
+                  <WifiOff className="h-3.5 w-3.5 text-destructive" />
+                ) : (
+                  <Radio className="h-3.5 w-3.5 text-muted-foreground" />
+                )}
+                <div className={cn("h-2 w-2 rounded-full", FEED_STATUS[feedStatus].dot)} />
+                <span className="text-sm text-muted-foreground">{FEED_STATUS[feedStatus].label}</span>
+              </div>
+              <div className="h-4 w-px bg-border" />
               <div className="flex items-center gap-2">
                 <div className={cn(
                   "h-2 w-2 rounded-full",
@@ -130,15 +128,15 @@ export default function Dashboard() {
                 <Clock className="h-3.5 w-3.5" />
                 <span>
                   Last: {scanConfig?.last_scan_at 
-                    ? formatTimeAgo(new Date(scanConfig.last_scan_at)) 
+                    ? formatTimeAgo(new Date(scanConfig.last_scan_at), now) 
                     : 'Never'}
                 </span>
               </div>
               <div className="flex items-center gap-2 text-sm text-muted-foreground">
                 <RefreshCw className="h-3.5 w-3.5" />
-                <span>
+                <span className="font-mono tabular-nums">
                   Next: {scanConfig?.next_scan_at 
-                    ? formatTimeUntil(new Date(scanConfig.next_scan_at)) 
+                    ? formatTimeUntil(new Date(scanConfig.next_scan_at), now) 
                     : '—'}
                 </span>
               </div>
@@ -156,9 +154,9 @@ export default function Dashboard() {
               <Activity className="h-4 w-4 text-muted-foreground" />
             </CardHeader>
             <CardContent>
-              <div className="text-2xl font-bold">{signals.length}</div>
+              <div className="text-2xl font-bold">{visibleSignals.length}</div>
               <p className="text-xs text-muted-foreground">
-                Above threshold
+                {view === 'mine' ? `${hiddenSignals.length} hidden by my filters` : 'Above threshold'}
               </p>
             </CardContent>
           </Card>
@@ -206,7 +204,7 @@ export default function Dashboard() {
             </CardHeader>
             <CardContent>
               <div className="text-2xl font-bold">
-                {signals.length > 0 ? `${(avgConfidence * 100).toFixed(0)}%` : '—'}
+                {visibleSignals.length > 0 ? `${(avgConfidence * 100).toFixed(0)}%` : '—'}
               </div>
               <p className="text-xs text-muted-foreground">
                 Signal quality
@@ -222,26 +220,50 @@ export default function Dashboard() {
               <div>
                 <CardTitle>Signal Overview</CardTitle>
                 <CardDescription>
-                  Current arbitrage opportunities ranked by Z-score
+                  {view === 'mine'
+                    ? `Signals passing your filters (${visibleSignals.length} of ${signals.length})`
+                    : 'Current arbitrage opportunities ranked by Z-score'}
                 </CardDescription>
               </div>
-              <Button variant="outline" size="sm" onClick={fetchData} disabled={isLoading}>
-                <RefreshCw className={cn("mr-2 h-4 w-4", isLoading && "animate-spin")} />
-                Refresh
-              </Button>
+              <div className="flex items-center gap-2">
+                <ToggleGroup
+                  type="single"
+                  size="sm"
+                  variant="outline"
+                  value={view}
+                  onValueChange={(v) => v && setView(v as SignalView)}
+                >
+                  <ToggleGroupItem value="global" className="gap-1.5">
+                    <Globe className="h-4 w-4" />
+                    All signals
+                  </ToggleGroupItem>
+                  <ToggleGroupItem value="mine" className="gap-1.5">
+                    <Filter className="h-4 w-4" />
+                    My filters
+                  </ToggleGroupItem>
+                </ToggleGroup>
+                <Button variant="outline" size="sm" onClick={() => refetch()} disabled={isLoading}>
+                  <RefreshCw className={cn("mr-2 h-4 w-4", isLoading && "animate-spin")} />
+                  Refresh
+                </Button>
+              </div>
             </div>
           </CardHeader>
           <CardContent>
-            {isLoading ? (
+            {isLoading && signals.length === 0 ? (
               <div className="flex items-center justify-center py-12">
                 <Loader2 className="h-8 w-8 animate-spin text-primary" />
               </div>
-            ) : signals.length === 0 ? (
+            ) : visibleSignals.length === 0 ? (
               <div className="text-center py-12 text-muted-foreground">
                 <AlertCircle className="h-12 w-12 mx-auto mb-4 opacity-50" />
-                <p className="font-medium">No active signals</p>
+                <p className="font-medium">
+                  {view === 'mine' && signals.length > 0 ? 'No signals pass your filters' : 'No active signals'}
+                </p>
                 <p className="text-sm">
-                  Signals will appear here when the scanner detects trading opportunities.
+                  {view === 'mine' && signals.length > 0
+                    ? 'See below for the filter that excluded each signal.'
+                    : 'Signals will appear here when the scanner detects trading opportunities.'}
                 </p>
               </div>
             ) : (
@@ -260,18 +282,21 @@ export default function Dashboard() {
                   </TableRow>
                 </TableHeader>
                 <TableBody>
-                  {signals.map((signal) => {
+                  {visibleSignals.map((signal) => {
                     const zScore = Number(signal.z_ou_score);
                     const usdSpread = Number(signal.usd_spread || 0);
                     const correlation = Number(signal.pair_metrics?.correlation || 0);
                     const halfLife = Number(signal.pair_metrics?.half_life_hours || 0);
                     const confidence = Number(signal.confidence_score || 0);
-                    const expiresIn = Math.max(0, Math.ceil((new Date(signal.expires_at).getTime() - Date.now()) / 60000));
+                    const expiresIn = Math.max(0, Math.ceil((new Date(signal.expires_at).getTime() - now) / 60000));
                     const isLong = signal.signal_direction?.toLowerCase() === 'long_a_short_b' || 
                                    signal.signal_direction?.toLowerCase() === 'long';
                     
                     return (
-                      <TableRow key={signal.id} className="trading-row">
+                      <TableRow
+                        key={signal.id}
+                        className={cn("trading-row", highlighted.has(signal.id) && "animate-signal-flash")}
+                      >
                         <TableCell>
                           <div className="font-medium font-mono">
                             {signal.pair_metrics?.symbol_a || '—'} / {signal.pair_metrics?.symbol_b || '—'}
@@ -359,6 +384,59 @@ export default function Dashboard() {
             )}
           </CardContent>
         </Card>
+
+        {view === 'mine' && hiddenSignals.length > 0 && (
+          <Card>
+            <CardHeader>
+              <CardTitle className="text-lg">Hidden by My Filters</CardTitle>
+              <CardDescription>
+                {hiddenSignals.length} active signals excluded by your Settings thresholds
+              </CardDescription>
+            </CardHeader>
+            <CardContent>
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Pair</TableHead>
+                    <TableHead className="text-right">Z-Score</TableHead>
+                    <TableHead>Excluded by</TableHead>
+                    <TableHead></TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {hiddenSignals.map(({ signal, failures }) => (
+                    <TableRow key={signal.id} className="trading-row">
+                      <TableCell>
+                        <div className="font-medium font-mono text-muted-foreground">
+                          {signal.pair_metrics?.symbol_a || '—'} / {signal.pair_metrics?.symbol_b || '—'}
+                        </div>
+                      </TableCell>
+                      <TableCell className="text-right font-mono text-muted-foreground">
+                        {Number(signal.z_ou_score).toFixed(2)}
+                      </TableCell>
+                      <TableCell>
+                        <div className="flex flex-wrap gap-1">
+                          {failures.map((f) => (
+                            <Badge key={f} variant="outline" className="text-xs font-mono border-destructive/50 text-destructive">
+                              {describeSignalFilter(f, signal, thresholds)}
+                            </Badge>
+                          ))}
+                        </div>
+                      </TableCell>
+                      <TableCell>
+                        <Link to={`/signal/${signal.id}`}>
+                          <Button variant="ghost" size="sm">
+                            <Eye className="h-4 w-4" />
+                          </Button>
+                        </Link>
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </CardContent>
+          </Card>
+        )}
       </div>
     </AppLayout>
   );
@@ -1,7 +1,18 @@
-import { useEffect, useState } from 'react';
+import { FormEvent, useState } from 'react';
+import { Link } from 'react-router-dom';
 import AppLayout from '@/components/layout/AppLayout';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Badge } from '@/components/ui/badge';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Skeleton } from '@/components/ui/skeleton';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
 import {
   Table,
   TableBody,
@@ -10,28 +21,70 @@ import {
   TableHeader,
   TableRow,
 } from '@/components/ui/table';
+import {
+  Pagination,
+  PaginationContent,
+  PaginationItem,
+  PaginationLink,
+  PaginationNext,
+  PaginationPrevious,
+} from '@/components/ui/pagination';
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuTrigger,
+} from '@/components/ui/dropdown-menu';
 import { Button } from '@/components/ui/button';
-import { History as HistoryIcon, ExternalLink, Loader2, RefreshCw } from 'lucide-react';
+import {
+  AlertCircle,
+  Clock,
+  Download,
+  ExternalLink,
+  History as HistoryIcon,
+  Loader2,
+  RefreshCw,
+  Search,
+  Trophy,
+  Wallet,
+  X,
+} from 'lucide-react';
+import { toast } from 'sonner';
 import { cn } from '@/lib/utils';
-import { supabase } from '@/integrations/supabase/client';
-import type { Database } from '@/integrations/supabase/types';
+import { useAuth } from '@/contexts/AuthContext';
+import {
+  DEFAULT_HISTORY_FILTERS,
+  ExecutionHistoryFilters,
+  fetchFilteredExecutions,
+  HistoryExchange,
+  HistoryStatus,
+  MAX_HISTORY_ROWS,
+  useExecutionHistory,
+} from '@/hooks/useExecutionHistory';
+import { executionExportRecord, executionPnl, formatHoldingTime, toCsv } from '@/lib/executionHistory';
+import { parseOrderDetails } from '@/lib/executions';
+import { EXECUTION_STATUSES, ExecutionOrderDetails } from '@/types/execution';
+import { TRADING_EXCHANGE_LABELS } from '@/types/exchangeAccount';
+import { TRADING_EXCHANGES, TradingExchange } from '@/types/trading';
 
-type Execution = Database['public']['Tables']['executions']['Row'];
-type Signal = Database['public']['Tables']['signals']['Row'];
-type PairMetrics = Database['public']['Tables']['pair_metrics']['Row'];
-
-interface ExecutionWithSignal extends Execution {
-  signals: (Signal & { pair_metrics: PairMetrics | null }) | null;
-}
+const PAGE_SIZE = 25;
 
 const statusColors = {
   success: 'bg-success/10 text-success border-success/50',
   completed: 'bg-success/10 text-success border-success/50',
   failed: 'bg-destructive/10 text-destructive border-destructive/50',
+  unwind_failed: 'bg-destructive/10 text-destructive border-destructive/50',
   pending: 'bg-warning/10 text-warning border-warning/50',
+  preview: 'bg-muted text-muted-foreground border-muted',
+  confirmed: 'bg-primary/10 text-primary border-primary/50',
   cancelled: 'bg-muted text-muted-foreground border-muted',
 };
 
+const formatUsd = (v: number) =>
+  `${v < 0 ? '-' : ''}$${Math.abs(v).toLocaleString(undefined, { minimumFractionDigits: 2, maximumFractionDigits: 2 })}`;
+const formatPnl = (v: number) => `${v >= 0 ? '+' : ''}${formatUsd(v)}`;
+const pnlClass = (v: number) => (v >= 0 ? 'text-long' : 'text-short');
+
 function formatTime(date: Date): string {
   return date.toLocaleTimeString('en-US', {
     hour: '2-digit',
@@ -46,130 +99,398 @@ function formatDate(date: Date): string {
   });
 }
 
+function venueLabel(details: ExecutionOrderDetails | null): string {
+  if (!details) return '—';
+  if (details.venue === 'paper') return 'Paper';
+  return TRADING_EXCHANGE_LABELS[details.exchange as TradingExchange] ?? 'Exchange';
+}
+
+function download(content: string, filename: string, type: string) {
+  const url = URL.createObjectURL(new Blob([content], { type }));
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  link.click();
+  URL.revokeObjectURL(url);
+}
+
 export default function History() {
-  const [executions, setExecutions] = useState<ExecutionWithSignal[]>([]);
-  const [isLoading, setIsLoading] = useState(true);
+  const { user } = useAuth();
+  const [draft, setDraft] = useState<ExecutionHistoryFilters>(DEFAULT_HISTORY_FILTERS);
+  const [filters, setFilters] = useState<ExecutionHistoryFilters>(DEFAULT_HISTORY_FILTERS);
+  const [page, setPage] = useState(0);
+  const [exporting, setExporting] = useState(false);
+
+  const { executions, totalCount, stats, loading, statsLoading, error, refetch } = useExecutionHistory({
+    filters,
+    page,
+    pageSize: PAGE_SIZE,
+  });
+  const totalPages = Math.ceil(totalCount / PAGE_SIZE);
+
+  const updateDraft = <K extends keyof ExecutionHistoryFilters>(key: K, value: ExecutionHistoryFilters[K]) =>
+    setDraft((prev) => ({ ...prev, [key]: value }));
+
+  const applyFilters = (e?: FormEvent) => {
+    e?.preventDefault();
+    setFilters({ ...draft, symbol: draft.symbol.trim() });
+    setPage(0);
+  };
+
+  const resetFilters = () => {
+    setDraft(DEFAULT_HISTORY_FILTERS);
+    setFilters(DEFAULT_HISTORY_FILTERS);
+    setPage(0);
+  };
 
-  const fetchExecutions = async () => {
-    setIsLoading(true);
+  const handleExport = async (format: 'csv' | 'json') => {
+    if (!user) return;
+    setExporting(true);
     try {
-      const { data, error } = await supabase
-        .from('executions')
-        .select('*, signals(*, pair_metrics(*))')
-        .order('created_at', { ascending: false })
-        .limit(50);
-
-      if (error) throw error;
-      setExecutions(data || []);
-    } catch (error) {
-      if (import.meta.env.DEV) console.error('Error fetching executions:', error);
+      const rows = await fetchFilteredExecutions(user.id, filters);
+      const records = rows.map(executionExportRecord);
+      const stamp = new Date().toISOString().slice(0, 10);
+      if (format === 'csv') download(toCsv(records), `executions-${stamp}.csv`, 'text/csv');
+      else download(JSON.stringify(records, null, 2), `executions-${stamp}.json`, 'application/json');
+      toast.success(
+        rows.length >= MAX_HISTORY_ROWS
+          ? `Exported the latest ${rows.length} executions; narrow the filters for older ones`
+          : `Exported ${rows.length} execution${rows.length === 1 ? '' : 's'}`
+      );
+    } catch (e) {
+      if (import.meta.env.DEV) console.error('Export error:', e);
+      toast.error('Failed to export executions');
     } finally {
-      setIsLoading(false);
+      setExporting(false);
     }
   };
 
-  useEffect(() => {
-    fetchExecutions();
-  }, []);
-
   return (
     <AppLayout>
       <div className="space-y-6">
-        <div>
-          <h1 className="text-2xl font-bold tracking-tight">Execution History</h1>
-          <p className="text-muted-foreground">
-            View your past trade executions and their outcomes
-          </p>
+        <div className="flex flex-col gap-4 md:flex-row md:items-center md:justify-between">
+          <div>
+            <h1 className="text-2xl font-bold tracking-tight">Execution History</h1>
+            <p className="text-muted-foreground">
+              View your past trade executions and their outcomes
+            </p>
+          </div>
+          <div className="flex gap-2">
+            <DropdownMenu>
+              <DropdownMenuTrigger asChild>
+                <Button variant="outline" size="sm" disabled={exporting || totalCount === 0}>
+                  {exporting ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <Download className="mr-2 h-4 w-4" />}
+                  Export
+                </Button>
+              </DropdownMenuTrigger>
+              <DropdownMenuContent align="end">
+                <DropdownMenuItem onClick={() => handleExport('csv')}>CSV</DropdownMenuItem>
+                <DropdownMenuItem onClick={() => handleExport('json')}>JSON</DropdownMenuItem>
+              </DropdownMenuContent>
+            </DropdownMenu>
+            <Button variant="outline" size="sm" onClick={() => refetch()} disabled={loading}>
+              <RefreshCw className={cn('mr-2 h-4 w-4', loading && 'animate-spin')} />
+              Refresh
+            </Button>
+          </div>
+        </div>
+
+        <div className="grid gap-4 md:grid-cols-4">
+          <Card>
+            <CardHeader className="flex flex-row items-center justify-between pb-2">
+              <CardTitle className="text-sm font-medium text-muted-foreground">Executions</CardTitle>
+              <HistoryIcon className="h-4 w-4 text-muted-foreground" />
+            </CardHeader>
+            <CardContent>
+              <div className="text-2xl font-bold">{statsLoading || !stats ? '—' : stats.executions}</div>
+              <p className="text-xs text-muted-foreground">
+                {stats ? `${stats.closed} closed · ${stats.open} open` : 'Matching the filters'}
+              </p>
+            </CardContent>
+          </Card>
+
+          <Card>
+            <CardHeader className="flex flex-row items-center justify-between pb-2">
+              <CardTitle className="text-sm font-medium text-muted-foreground">Win Rate</CardTitle>
+              <Trophy className="h-4 w-4 text-muted-foreground" />
+            </CardHeader>
+            <CardContent>
+              <div className="text-2xl font-bold">
+                {!statsLoading && stats?.winRate != null ? `${(stats.winRate * 100).toFixed(1)}%` : '—'}
+              </div>
+              <p className="text-xs text-muted-foreground">
+                {stats ? `${stats.wins} won · ${stats.losses} lost` : 'Of closed trades'}
+              </p>
+            </CardContent>
+          </Card>
+
+          <Card>
+            <CardHeader className="flex flex-row items-center justify-between pb-2">
+              <CardTitle className="text-sm font-medium text-muted-foreground">Total PnL</CardTitle>
+              <Wallet className="h-4 w-4 text-muted-foreground" />
+            </CardHeader>
+            <CardContent>
+              <div className={cn('text-2xl font-bold', stats && stats.closed > 0 && pnlClass(stats.totalPnl))}>
+                {!statsLoading && stats && stats.closed > 0 ? formatPnl(stats.totalPnl) : '—'}
+              </div>
+              <p className="text-xs text-muted-foreground">
+                {stats ? `Realized, after ${formatUsd(stats.totalFees)} fees` : 'Realized, after fees'}
+              </p>
+            </CardContent>
+          </Card>
+
+          <Card>
+            <CardHeader className="flex flex-row items-center justify-between pb-2">
+              <CardTitle className="text-sm font-medium text-muted-foreground">Avg Holding Time</CardTitle>
+              <Clock className="h-4 w-4 text-muted-foreground" />
+            </CardHeader>
+            <CardContent>
+              <div className="text-2xl font-bold">
+                {!statsLoading && stats?.avgHoldingMs != null ? formatHoldingTime(stats.avgHoldingMs) : '—'}
+              </div>
+              <p className="text-xs text-muted-foreground">Entry fill to close</p>
+            </CardContent>
+          </Card>
         </div>
 
         <Card>
           <CardHeader>
-            <div className="flex items-center justify-between">
-              <div>
-                <CardTitle className="flex items-center gap-2">
-                  <HistoryIcon className="h-5 w-5" />
-                  Recent Executions
-                </CardTitle>
-                <CardDescription>
-                  Your trade history for the last 30 days
-                </CardDescription>
+            <CardTitle className="text-lg">Filters</CardTitle>
+          </CardHeader>
+          <CardContent>
+            <form onSubmit={applyFilters} className="space-y-4">
+              <div className="grid gap-4 sm:grid-cols-2 lg:grid-cols-6">
+                <div className="space-y-2">
+                  <Label htmlFor="history-symbol">Pair</Label>
+                  <Input
+                    id="history-symbol"
+                    placeholder="e.g. BTC"
+                    value={draft.symbol}
+                    onChange={(e) => updateDraft('symbol', e.target.value)}
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label>Status</Label>
+                  <Select value={draft.status} onValueChange={(v) => updateDraft('status', v as HistoryStatus)}>
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="all">All</SelectItem>
+                      {EXECUTION_STATUSES.map((status) => (
+                        <SelectItem key={status} value={status} className="capitalize">
+                          {status.replace(/_/g, ' ')}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+                <div className="space-y-2">
+                  <Label>Exchange</Label>
+                  <Select value={draft.exchange} onValueChange={(v) => updateDraft('exchange', v as HistoryExchange)}>
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="all">All</SelectItem>
+                      <SelectItem value="paper">Paper</SelectItem>
+                      {TRADING_EXCHANGES.map((exchange) => (
+                        <SelectItem key={exchange} value={exchange}>
+                          {TRADING_EXCHANGE_LABELS[exchange]}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="history-from">From</Label>
+                  <Input
+                    id="history-from"
+                    type="date"
+                    value={draft.from}
+                    max={draft.to || undefined}
+                    onChange={(e) => updateDraft('from', e.target.value)}
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="history-to">To</Label>
+                  <Input
+                    id="history-to"
+                    type="date"
+                    value={draft.to}
+                    min={draft.from || undefined}
+                    onChange={(e) => updateDraft('to', e.target.value)}
+                  />
+                </div>
+                <div className="flex items-end gap-2">
+                  <Button type="submit" className="flex-1">
+                    <Search className="mr-2 h-4 w-4" />
+                    Apply
+                  </Button>
+                  <Button type="button" variant="outline" onClick={resetFilters}>
+                    <X className="h-4 w-4" />
+                  </Button>
+                </div>
               </div>
-              <Button variant="outline" size="sm" onClick={fetchExecutions} disabled={isLoading}>
-                <RefreshCw className={cn("mr-2 h-4 w-4", isLoading && "animate-spin")} />
-                Refresh
-              </Button>
-            </div>
+            </form>
+          </CardContent>
+        </Card>
+
+        <Card>
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2">
+              <HistoryIcon className="h-5 w-5" />
+              Executions
+            </CardTitle>
+            <CardDescription>
+              {loading ? 'Loading…' : `${totalCount} execution${totalCount === 1 ? '' : 's'} match`}
+            </CardDescription>
           </CardHeader>
           <CardContent>
-            {isLoading ? (
-              <div className="flex items-center justify-center py-12">
-                <Loader2 className="h-8 w-8 animate-spin text-primary" />
+            {error ? (
+              <div className="text-center py-12 text-muted-foreground">
+                <AlertCircle className="h-8 w-8 mx-auto mb-4 opacity-50" />
+                <p>{error}</p>
+              </div>
+            ) : loading && executions.length === 0 ? (
+              <div className="space-y-3">
+                {[...Array(5)].map((_, i) => (
+                  <Skeleton key={i} className="h-12 w-full" />
+                ))}
               </div>
             ) : executions.length === 0 ? (
               <div className="text-center py-12 text-muted-foreground">
                 <HistoryIcon className="h-12 w-12 mx-auto mb-4 opacity-50" />
-                <p className="font-medium">No executions yet</p>
+                <p className="font-medium">No executions found</p>
                 <p className="text-sm">Your trade history will appear here</p>
               </div>
             ) : (
-              <Table>
-                <TableHeader>
-                  <TableRow>
-                    <TableHead>Pair</TableHead>
-                    <TableHead>Leverage</TableHead>
-                    <TableHead>Size</TableHead>
-                    <TableHead>Status</TableHead>
-                    <TableHead className="text-right">Time</TableHead>
-                    <TableHead></TableHead>
-                  </TableRow>
-                </TableHeader>
-                <TableBody>
-                  {executions.map((execution) => {
-                    const pair = execution.signals?.pair_metrics;
-                    const pairDisplay = pair 
-                      ? `${pair.symbol_a} / ${pair.symbol_b}`
-                      : '—';
-                    const leverageDisplay = execution.leverage_long && execution.leverage_short
-                      ? `${execution.leverage_long}x / ${execution.leverage_short}x`
-                      : '—';
-                    const sizeDisplay = execution.position_size
-                      ? `$${Number(execution.position_size).toLocaleString()}`
-                      : '—';
-                    const timestamp = new Date(execution.created_at);
-                    
-                    return (
-                      <TableRow key={execution.id}>
-                        <TableCell className="font-mono font-medium">
-                          {pairDisplay}
-                        </TableCell>
-                        <TableCell className="font-mono text-sm">
-                          {leverageDisplay}
-                        </TableCell>
-                        <TableCell className="font-mono">
-                          {sizeDisplay}
-                        </TableCell>
-                        <TableCell>
-                          <Badge
-                            variant="outline"
-                            className={statusColors[execution.status as keyof typeof statusColors] || statusColors.pending}
-                          >
-                            {execution.status}
-                          </Badge>
-                        </TableCell>
-                        <TableCell className="text-right text-sm text-muted-foreground">
-                          <div>{formatTime(timestamp)}</div>
-                          <div className="text-xs">{formatDate(timestamp)}</div>
-                        </TableCell>
-                        <TableCell>
-                          <Button variant="ghost" size="sm">
-                            <ExternalLink className="h-4 w-4" />
-                          </Button>
-                        </TableCell>
-                      </TableRow>
-                    );
-                  })}
-                </TableBody>
-              </Table>
+              <>
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Pair</TableHead>
+                      <TableHead>Venue</TableHead>
+                      <TableHead>Leverage</TableHead>
+                      <TableHead>Size</TableHead>
+                      <TableHead>Status</TableHead>
+                      <TableHead className="text-right">Realized PnL</TableHead>
+                      <TableHead className="text-right">Held</TableHead>
+                      <TableHead className="text-right">Time</TableHead>
+                      <TableHead></TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {executions.map((execution) => {
+                      const details = parseOrderDetails(execution.order_details);
+                      const pnl = executionPnl(details);
+                      const pair = execution.signals?.pair_metrics;
+                      const pairDisplay = details
+                        ? `${details.legs[0].symbol} / ${details.legs[1].symbol}`
+                        : pair
+                          ? `${pair.symbol_a} / ${pair.symbol_b}`
+                          : '—';
+                      const leverageDisplay = execution.leverage_long && execution.leverage_short
+                        ? `${execution.leverage_long}x / ${execution.leverage_short}x`
+                        : '—';
+                      const sizeDisplay = execution.position_size
+                        ? `$${Number(execution.position_size).toLocaleString()}`
+                        : '—';
+                      const timestamp = new Date(execution.created_at);
+
+                      return (
+                        <TableRow key={execution.id}>
+                          <TableCell className="font-mono font-medium">
+                            {pairDisplay}
+                          </TableCell>
+                          <TableCell className="text-sm">
+                            {venueLabel(details)}
+                          </TableCell>
+                          <TableCell className="font-mono text-sm">
+                            {leverageDisplay}
+                          </TableCell>
+                          <TableCell className="font-mono">
+                            {sizeDisplay}
+                          </TableCell>
+                          <TableCell>
+                            <Badge
+                              variant="outline"
+                              className={statusColors[execution.status as keyof typeof statusColors] || statusColors.pending}
+                            >
+                              {execution.status.replace(/_/g, ' ')}
+                            </Badge>
+                          </TableCell>
+                          <TableCell className="text-right font-mono">
+                            {pnl?.realizedPnl != null ? (
+                              <span className={pnlClass(pnl.realizedPnl)}>{formatPnl(pnl.realizedPnl)}</span>
+                            ) : pnl ? (
+                              <span className="text-muted-foreground">Open</span>
+                            ) : '—'}
+                          </TableCell>
+                          <TableCell className="text-right font-mono text-sm">
+                            {pnl?.holdingMs != null ? formatHoldingTime(pnl.holdingMs) : '—'}
+                          </TableCell>
+                          <TableCell className="text-right text-sm text-muted-foreground">
+                            <div>{formatTime(timestamp)}</div>
+                            <div className="text-xs">{formatDate(timestamp)}</div>
+                          </TableCell>
+                          <TableCell>
+                            {execution.signal_id && (
+                              <Link to={`/signal/${execution.signal_id}`}>
+                                <Button variant="ghost" size="sm">
+                                  <ExternalLink className="h-4 w-4" />
+                                </Button>
+                              </Link>
+                            )}
+                          </TableCell>
+                        </TableRow>
+                      );
+                    })}
+                  </TableBody>
+                </Table>
+
+                {totalPages > 1 && (
+                  <div className="mt-6 flex justify-center">
+                    <Pagination>
+                      <PaginationContent>
+                        <PaginationItem>
+                          <PaginationPrevious
+                            onClick={() => setPage((p) => Math.max(0, p - 1))}
+                            className={page === 0 ? 'pointer-events-none opacity-50' : 'cursor-pointer'}
+                          />
+                        </PaginationItem>
+
+                        {Array.from({ length: Math.min(5, totalPages) }).map((_, i) => {
+                          let pageNum: number;
+                          if (totalPages <= 5) pageNum = i;
+                          else if (page < 3) pageNum = i;
+                          else if (page > totalPages - 4) pageNum = totalPages - 5 + i;
+                          else pageNum = page - 2 + i;
+
+                          return (
+                            <PaginationItem key={pageNum}>
+                              <PaginationLink
+                                onClick={() => setPage(pageNum)}
+                                isActive={page === pageNum}
+                                className="cursor-pointer"
+                              >
+                                {pageNum + 1}
+                              </PaginationLink>
+                            </PaginationItem>
+                          );
+                        })}
+
+                        <PaginationItem>
+                          <PaginationNext
+                            onClick={() => setPage((p) => Math.min(totalPages - 1, p + 1))}
+                            className={page >= totalPages - 1 ? 'pointer-events-none opacity-50' : 'cursor-pointer'}
+                          />
+                        </PaginationItem>
+                      </PaginationContent>
+                    </Pagination>
+                  </div>
+                )}
+              </>
             )}
           </CardContent>
         </Card>
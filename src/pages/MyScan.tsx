@@ -0,0 +1,305 @@
+import { useMemo, useState } from 'react';
+import { Link } from 'react-router-dom';
+import AppLayout from '@/components/layout/AppLayout';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Progress } from '@/components/ui/progress';
+import { Switch } from '@/components/ui/switch';
+import { Textarea } from '@/components/ui/textarea';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+import { AlertCircle, Loader2, Play, Radar, Square } from 'lucide-react';
+import { cn } from '@/lib/utils';
+import { parseSymbolList } from '@/lib/pairScanner';
+import { userFilterThresholds } from '@/lib/signalFilters';
+import { usePairScan } from '@/hooks/usePairScan';
+import { useUserSettings } from '@/hooks/useUserSettings';
+import {
+  BAR_INTERVAL_SECONDS,
+  BAR_INTERVALS,
+  BarInterval,
+  MARKET_DATA_EXCHANGES,
+  MarketDataExchange,
+} from '@/types/marketData';
+import type { ScanFilter } from '@/types/scanner';
+
+const MAX_SCAN_SYMBOLS = 50;
+const MAX_SCAN_BARS = 1500;
+const MIN_SCAN_BARS = 200;
+
+const FILTER_LABELS: Record<ScanFilter, string> = {
+  data: 'Data',
+  correlation: 'Corr',
+  cointegration: 'Coint',
+  ou_theta: 'θ',
+  half_life: 'Half-life',
+  hurst: 'Hurst',
+};
+
+export default function MyScan() {
+  const { settings, loading: settingsLoading } = useUserSettings();
+  const scan = usePairScan();
+
+  const [symbolText, setSymbolText] = useState('');
+  const [exchange, setExchange] = useState<MarketDataExchange>('bybit');
+  const [intervalOverride, setIntervalOverride] = useState<BarInterval | null>(null);
+  const [barsOverride, setBarsOverride] = useState<number | null>(null);
+  const [passingOnly, setPassingOnly] = useState(false);
+
+  // ---- Defaults from user_settings ----
+  const interval: BarInterval = intervalOverride
+    ?? (BAR_INTERVALS.includes(settings?.bar_interval as BarInterval) ? (settings?.bar_interval as BarInterval) : '15m');
+  const lookbackBars = Math.floor((Number(settings?.lookback_days ?? 90) * 86400) / BAR_INTERVAL_SECONDS[interval]);
+  const bars = barsOverride ?? Math.max(MIN_SCAN_BARS, Math.min(MAX_SCAN_BARS, lookbackBars));
+
+  const thresholds = useMemo(() => userFilterThresholds(settings), [settings]);
+
+  const symbols = useMemo(() => parseSymbolList(symbolText), [symbolText]);
+  const pairCount = (symbols.length * (symbols.length - 1)) / 2;
+  const running = scan.status === 'loading' || scan.status === 'scanning';
+  const canStart = !running && !settingsLoading && symbols.length >= 2 && symbols.length <= MAX_SCAN_SYMBOLS;
+
+  const passing = scan.results.filter((r) => r.failures.length === 0);
+  const visibleResults = passingOnly ? passing : scan.results;
+  const progressPercent = scan.progress.total > 0 ? (scan.progress.completed / scan.progress.total) * 100 : 0;
+
+  const handleStart = () => {
+    scan.start({ symbols, exchange, interval, bars, thresholds, minBars: Math.min(MIN_SCAN_BARS, bars) });
+  };
+
+  const thresholdBadges = [
+    `Corr ≥ ${thresholds.minCorrelation}`,
+    `p ≤ ${thresholds.maxCointegrationPValue}`,
+    `θ ≥ ${thresholds.ouThetaMin}/h`,
+    `Half-life ≤ ${thresholds.halfLifeMaxHours}h`,
+    `H ≤ ${thresholds.hurstMax}`,
+  ];
+
+  return (
+    <AppLayout>
+      <div className="space-y-6">
+        <div>
+          <h1 className="text-2xl font-bold tracking-tight">My Scan</h1>
+          <p className="text-muted-foreground">
+            Rank every pair in your own symbol list against your filter thresholds
+          </p>
+        </div>
+
+        <Card>
+          <CardHeader>
+            <CardTitle className="text-lg">Universe</CardTitle>
+            <CardDescription>
+              Candles are loaded in the browser and pairs are scanned in a background worker
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            <div className="space-y-2">
+              <Label htmlFor="scan-symbols">Symbols</Label>
+              <Textarea
+                id="scan-symbols"
+                value={symbolText}
+                onChange={(e) => setSymbolText(e.target.value)}
+                placeholder="BTCUSDT, ETHUSDT, SOLUSDT, ..."
+                className="font-mono text-sm"
+                rows={3}
+                disabled={running}
+              />
+              <p className={cn('text-xs', symbols.length > MAX_SCAN_SYMBOLS ? 'text-destructive' : 'text-muted-foreground')}>
+                {symbols.length} symbols · {pairCount} pairs
+                {symbols.length > MAX_SCAN_SYMBOLS && ` · at most ${MAX_SCAN_SYMBOLS} symbols per scan`}
+              </p>
+            </div>
+
+            <div className="flex flex-wrap items-end gap-4">
+              <div className="space-y-1.5">
+                <Label className="text-xs text-muted-foreground">Exchange</Label>
+                <Select value={exchange} onValueChange={(v) => setExchange(v as MarketDataExchange)} disabled={running}>
+                  <SelectTrigger className="w-32 h-8 text-sm">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {MARKET_DATA_EXCHANGES.map((ex) => (
+                      <SelectItem key={ex} value={ex}>{ex.toUpperCase()}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-1.5">
+                <Label className="text-xs text-muted-foreground">Interval</Label>
+                <Select value={interval} onValueChange={(v) => setIntervalOverride(v as BarInterval)} disabled={running}>
+                  <SelectTrigger className="w-24 h-8 text-sm">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {BAR_INTERVALS.map((iv) => (
+                      <SelectItem key={iv} value={iv}>{iv}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-1.5">
+                <Label htmlFor="scan-bars" className="text-xs text-muted-foreground">Bars</Label>
+                <Input
+                  id="scan-bars"
+                  type="number"
+                  value={bars}
+                  onChange={(e) =>
+                    setBarsOverride(Math.max(MIN_SCAN_BARS, Math.min(MAX_SCAN_BARS, parseInt(e.target.value) || MIN_SCAN_BARS)))
+                  }
+                  className="w-24 h-8 text-sm font-mono"
+                  min={MIN_SCAN_BARS}
+                  max={MAX_SCAN_BARS}
+                  disabled={running}
+                />
+              </div>
+              <div className="flex gap-2 ml-auto">
+                {running ? (
+                  <Button variant="outline" size="sm" onClick={scan.cancel}>
+                    <Square className="mr-2 h-4 w-4" />
+                    Cancel
+                  </Button>
+                ) : (
+                  <Button size="sm" onClick={handleStart} disabled={!canStart}>
+                    <Play className="mr-2 h-4 w-4" />
+                    Run Scan
+                  </Button>
+                )}
+              </div>
+            </div>
+
+            <div className="flex flex-wrap items-center gap-2 text-xs text-muted-foreground">
+              <span>Your filters:</span>
+              {thresholdBadges.map((label) => (
+                <Badge key={label} variant="outline" className="font-mono text-xs">{label}</Badge>
+              ))}
+              <Link to="/settings" className="underline underline-offset-2 hover:text-foreground">Edit</Link>
+            </div>
+
+            {scan.status !== 'idle' && (
+              <div className="space-y-1.5">
+                <div className="flex items-center justify-between text-xs text-muted-foreground">
+                  <span className="flex items-center gap-1.5">
+                    {running && <Loader2 className="h-3 w-3 animate-spin" />}
+                    {scan.status === 'loading' && 'Loading candles'}
+                    {scan.status === 'scanning' && 'Scanning pairs'}
+                    {scan.status === 'done' && 'Scan complete'}
+                    {scan.status === 'cancelled' && 'Scan cancelled'}
+                    {scan.status === 'error' && 'Scan failed'}
+                  </span>
+                  <span className="font-mono">{scan.progress.completed} / {scan.progress.total}</span>
+                </div>
+                <Progress value={progressPercent} className="h-2" />
+              </div>
+            )}
+
+            {scan.failedSymbols.length > 0 && (
+              <p className="text-xs text-warning">
+                No candles for {scan.failedSymbols.join(', ')}; pairs with these symbols were skipped.
+              </p>
+            )}
+          </CardContent>
+        </Card>
+
+        <Card>
+          <CardHeader>
+            <div className="flex items-center justify-between">
+              <div>
+                <CardTitle className="text-lg">Ranked Pairs</CardTitle>
+                <CardDescription>
+                  {passing.length} of {scan.results.length} scanned pairs pass all filters
+                </CardDescription>
+              </div>
+              <div className="flex items-center gap-2">
+                <Switch id="passing-only" checked={passingOnly} onCheckedChange={setPassingOnly} />
+                <Label htmlFor="passing-only" className="text-sm">Passing only</Label>
+              </div>
+            </div>
+          </CardHeader>
+          <CardContent>
+            {scan.status === 'error' ? (
+              <div className="text-center py-12 text-muted-foreground">
+                <AlertCircle className="h-8 w-8 mx-auto mb-4 opacity-50" />
+                <p>{scan.error}</p>
+              </div>
+            ) : visibleResults.length === 0 ? (
+              <div className="text-center py-12 text-muted-foreground">
+                <Radar className="h-12 w-12 mx-auto mb-4 opacity-50" />
+                <p className="font-medium">{running ? 'Waiting for results…' : 'No results yet'}</p>
+                <p className="text-sm">Enter at least two symbols and run a scan.</p>
+              </div>
+            ) : (
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead className="w-12">#</TableHead>
+                    <TableHead>Pair</TableHead>
+                    <TableHead className="text-right">Bars</TableHead>
+                    <TableHead className="text-right">Correlation</TableHead>
+                    <TableHead className="text-right">Coint. p</TableHead>
+                    <TableHead className="text-right">β</TableHead>
+                    <TableHead className="text-right">θ / h</TableHead>
+                    <TableHead className="text-right">Half-Life</TableHead>
+                    <TableHead className="text-right">Hurst</TableHead>
+                    <TableHead>Filters</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {visibleResults.map((r, i) => {
+                    const failed = new Set(r.failures);
+                    const metric = (value: number | null, digits: number, filter: ScanFilter, suffix = '') => (
+                      <span className={cn('font-mono', failed.has(filter) && 'text-muted-foreground')}>
+                        {value !== null ? `${value.toFixed(digits)}${suffix}` : '—'}
+                      </span>
+                    );
+                    return (
+                      <TableRow key={`${r.symbolA}/${r.symbolB}`} className="trading-row">
+                        <TableCell className="font-mono text-muted-foreground">{i + 1}</TableCell>
+                        <TableCell className="font-medium font-mono">{r.symbolA} / {r.symbolB}</TableCell>
+                        <TableCell className="text-right font-mono">{r.bars}</TableCell>
+                        <TableCell className="text-right">{metric(r.correlation, 2, 'correlation')}</TableCell>
+                        <TableCell className="text-right">{metric(r.cointegrationPValue, 4, 'cointegration')}</TableCell>
+                        <TableCell className="text-right font-mono">{r.hedgeRatio?.toFixed(3) ?? '—'}</TableCell>
+                        <TableCell className="text-right">{metric(r.ouThetaPerHour, 4, 'ou_theta')}</TableCell>
+                        <TableCell className="text-right">{metric(r.halfLifeHours, 1, 'half_life', 'h')}</TableCell>
+                        <TableCell className="text-right">{metric(r.hurst, 3, 'hurst')}</TableCell>
+                        <TableCell>
+                          {r.failures.length === 0 ? (
+                            <Badge variant="outline" className="text-xs border-success text-success">Pass</Badge>
+                          ) : (
+                            <div className="flex flex-wrap gap-1">
+                              {r.failures.map((f) => (
+                                <Badge key={f} variant="outline" className="text-xs border-destructive text-destructive">
+                                  {FILTER_LABELS[f]}
+                                </Badge>
+                              ))}
+                            </div>
+                          )}
+                        </TableCell>
+                      </TableRow>
+                    );
+                  })}
+                </TableBody>
+              </Table>
+            )}
+          </CardContent>
+        </Card>
+      </div>
+    </AppLayout>
+  );
+}
@@ -0,0 +1,352 @@
+import { FormEvent, useMemo, useState } from 'react';
+import type { LineData, Time } from 'lightweight-charts';
+import AppLayout from '@/components/layout/AppLayout';
+import EquityCurveChart from '@/components/charts/EquityCurveChart';
+import ReturnsCalendar from '@/components/performance/ReturnsCalendar';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Skeleton } from '@/components/ui/skeleton';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+import { AlertCircle, LineChart, RefreshCw, Search, TrendingDown, Wallet, X } from 'lucide-react';
+import { cn } from '@/lib/utils';
+import {
+  DEFAULT_PERFORMANCE_FILTERS,
+  MAX_ANALYTICS_TRADES,
+  PerformanceFilters,
+  usePerformanceAnalytics,
+} from '@/hooks/usePerformanceAnalytics';
+import { formatHoldingTime } from '@/lib/executionHistory';
+import {
+  dailyPerformance,
+  holdingVsHalfLife,
+  pairPerformance,
+  performanceStats,
+  utcDay,
+} from '@/lib/performanceAnalytics';
+import { DEFAULT_STARTING_EQUITY, STRATEGIES, STRATEGY_LABELS, Strategy } from '@/types/analytics';
+
+const HOUR_MS = 60 * 60 * 1000;
+
+const formatUsd = (v: number) =>
+  `${v < 0 ? '-' : ''}$${Math.abs(v).toLocaleString(undefined, { minimumFractionDigits: 2, maximumFractionDigits: 2 })}`;
+const formatPnl = (v: number) => `${v >= 0 ? '+' : ''}${formatUsd(v)}`;
+const formatPercent = (v: number) => `${v >= 0 ? '+' : ''}${(v * 100).toFixed(2)}%`;
+const formatHours = (hours: number | null) => (hours === null ? '—' : formatHoldingTime(hours * HOUR_MS));
+const formatRatio = (v: number | null) => (v === null ? '—' : v.toFixed(2));
+const pnlClass = (v: number) => (v >= 0 ? 'text-long' : 'text-short');
+
+export default function Performance() {
+  const [draft, setDraft] = useState<PerformanceFilters>(DEFAULT_PERFORMANCE_FILTERS);
+  const [filters, setFilters] = useState<PerformanceFilters>(DEFAULT_PERFORMANCE_FILTERS);
+  const [startingEquity, setStartingEquity] = useState(DEFAULT_STARTING_EQUITY);
+
+  const { trades, truncated, loading, error, refetch } = usePerformanceAnalytics(filters);
+
+  const days = useMemo(
+    () =>
+      dailyPerformance(
+        trades,
+        startingEquity,
+        filters.from || undefined,
+        // Carry the curve to today so recent flat days count against the ratios
+        filters.to || (trades.length > 0 ? utcDay(new Date().toISOString()) : undefined)
+      ),
+    [trades, startingEquity, filters.from, filters.to]
+  );
+  const stats = useMemo(() => performanceStats(trades, days, startingEquity), [trades, days, startingEquity]);
+  const pairs = useMemo(() => pairPerformance(trades), [trades]);
+  const holding = useMemo(() => holdingVsHalfLife(trades), [trades]);
+  const equityData: LineData<Time>[] = useMemo(
+    () => days.map((d) => ({ time: d.date as Time, value: d.equity })),
+    [days]
+  );
+  const maxPairPnl = Math.max(...pairs.map((p) => Math.abs(p.totalPnl)), 0);
+
+  const updateDraft = <K extends keyof PerformanceFilters>(key: K, value: PerformanceFilters[K]) =>
+    setDraft((prev) => ({ ...prev, [key]: value }));
+
+  const applyFilters = (e?: FormEvent) => {
+    e?.preventDefault();
+    setFilters(draft);
+  };
+
+  const resetFilters = () => {
+    setDraft(DEFAULT_PERFORMANCE_FILTERS);
+    setFilters(DEFAULT_PERFORMANCE_FILTERS);
+  };
+
+  const strategyLabel = filters.strategy === 'all' ? '' : `${STRATEGY_LABELS[filters.strategy]} `;
+
+  return (
+    <AppLayout>
+      <div className="space-y-6">
+        <div className="flex flex-col gap-4 md:flex-row md:items-center md:justify-between">
+          <div>
+            <h1 className="text-2xl font-bold tracking-tight">Performance</h1>
+            <p className="text-muted-foreground">
+              Equity, risk-adjusted returns and drawdowns from your closed trades
+            </p>
+          </div>
+          <Button variant="outline" size="sm" onClick={() => refetch()} disabled={loading}>
+            <RefreshCw className={cn('mr-2 h-4 w-4', loading && 'animate-spin')} />
+            Refresh
+          </Button>
+        </div>
+
+        <Card>
+          <CardHeader>
+            <CardTitle className="text-lg">Filters</CardTitle>
+          </CardHeader>
+          <CardContent>
+            <form onSubmit={applyFilters} className="grid gap-4 sm:grid-cols-2 lg:grid-cols-5">
+              <div className="space-y-2">
+                <Label>Strategy</Label>
+                <Select value={draft.strategy} onValueChange={(v) => updateDraft('strategy', v as 'all' | Strategy)}>
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="all">All</SelectItem>
+                    {STRATEGIES.map((strategy) => (
+                      <SelectItem key={strategy} value={strategy}>
+                        {STRATEGY_LABELS[strategy]}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="performance-from">From (UTC)</Label>
+                <Input
+                  id="performance-from"
+                  type="date"
+                  value={draft.from}
+                  max={draft.to || undefined}
+                  onChange={(e) => updateDraft('from', e.target.value)}
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="performance-to">To (UTC)</Label>
+                <Input
+                  id="performance-to"
+                  type="date"
+                  value={draft.to}
+                  min={draft.from || undefined}
+                  onChange={(e) => updateDraft('to', e.target.value)}
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="performance-equity">Starting Equity (USD)</Label>
+                <Input
+                  id="performance-equity"
+                  type="number"
+                  min={1}
+                  step={100}
+                  value={startingEquity}
+                  onChange={(e) => setStartingEquity(Math.max(1, parseFloat(e.target.value) || DEFAULT_STARTING_EQUITY))}
+                />
+              </div>
+              <div className="flex items-end gap-2">
+                <Button type="submit" className="flex-1">
+                  <Search className="mr-2 h-4 w-4" />
+                  Apply
+                </Button>
+                <Button type="button" variant="outline" onClick={resetFilters}>
+                  <X className="h-4 w-4" />
+                </Button>
+              </div>
+            </form>
+          </CardContent>
+        </Card>
+
+        {error && (
+          <p className="flex items-center gap-1.5 text-sm text-destructive">
+            <AlertCircle className="h-4 w-4" />
+            {error}
+          </p>
+        )}
+        {truncated && (
+          <p className="text-sm text-muted-foreground">
+            Showing the first {MAX_ANALYTICS_TRADES.toLocaleString()} closed trades; narrow the date range to see the rest.
+          </p>
+        )}
+
+        <div className="grid gap-4 md:grid-cols-4">
+          <Card>
+            <CardHeader className="flex flex-row items-center justify-between pb-2">
+              <CardTitle className="text-sm font-medium text-muted-foreground">Realized PnL</CardTitle>
+              <Wallet className="h-4 w-4 text-muted-foreground" />
+            </CardHeader>
+            <CardContent>
+              <div className={cn('text-2xl font-bold', stats.trades > 0 && pnlClass(stats.totalPnl))}>
+                {loading ? '—' : stats.trades > 0 ? formatPnl(stats.totalPnl) : '—'}
+              </div>
+              <p className="text-xs text-muted-foreground">
+                {stats.trades > 0 ? `${formatPercent(stats.totalReturn)} over ${stats.trades} trades` : 'No closed trades'}
+              </p>
+            </CardContent>
+          </Card>
+
+          <Card>
+            <CardHeader className="flex flex-row items-center justify-between pb-2">
+              <CardTitle className="text-sm font-medium text-muted-foreground">Sharpe</CardTitle>
+              <LineChart className="h-4 w-4 text-muted-foreground" />
+            </CardHeader>
+            <CardContent>
+              <div className="text-2xl font-bold">{loading ? '—' : formatRatio(stats.sharpe)}</div>
+              <p className="text-xs text-muted-foreground">Annualized from daily returns</p>
+            </CardContent>
+          </Card>
+
+          <Card>
+            <CardHeader className="flex flex-row items-center justify-between pb-2">
+              <CardTitle className="text-sm font-medium text-muted-foreground">Sortino</CardTitle>
+              <LineChart className="h-4 w-4 text-muted-foreground" />
+            </CardHeader>
+            <CardContent>
+              <div className="text-2xl font-bold">{loading ? '—' : formatRatio(stats.sortino)}</div>
+              <p className="text-xs text-muted-foreground">Penalizing only losing days</p>
+            </CardContent>
+          </Card>
+
+          <Card>
+            <CardHeader className="flex flex-row items-center justify-between pb-2">
+              <CardTitle className="text-sm font-medium text-muted-foreground">Max Drawdown</CardTitle>
+              <TrendingDown className="h-4 w-4 text-muted-foreground" />
+            </CardHeader>
+            <CardContent>
+              <div className={cn('text-2xl font-bold', stats.drawdown.maxDrawdown > 0 && 'text-short')}>
+                {loading ? '—' : `${(stats.drawdown.maxDrawdown * 100).toFixed(2)}%`}
+              </div>
+              <p className="text-xs text-muted-foreground">
+                {formatUsd(stats.drawdown.maxDrawdownUsd)} · longest {stats.drawdown.longestDays}d under water
+                {stats.drawdown.currentDays > 0 && ` · ${stats.drawdown.currentDays}d now`}
+              </p>
+            </CardContent>
+          </Card>
+        </div>
+
+        <Card>
+          <CardHeader>
+            <CardTitle className="text-lg">Equity Curve</CardTitle>
+            <CardDescription>
+              Starting equity plus realized {strategyLabel}PnL, booked on each trade's UTC close day
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            {loading ? (
+              <Skeleton className="h-[250px] w-full" />
+            ) : equityData.length === 0 ? (
+              <p className="py-12 text-center text-sm text-muted-foreground">
+                No closed {strategyLabel.toLowerCase()}trades in this range
+              </p>
+            ) : (
+              <EquityCurveChart equityData={equityData} />
+            )}
+          </CardContent>
+        </Card>
+
+        <Card>
+          <CardHeader>
+            <CardTitle className="text-lg">Daily Returns</CardTitle>
+            <CardDescription>Each day's realized PnL over equity at the start of the day</CardDescription>
+          </CardHeader>
+          <CardContent>
+            {loading ? <Skeleton className="h-32 w-full" /> : <ReturnsCalendar days={days} />}
+          </CardContent>
+        </Card>
+
+        <div className="grid gap-6 lg:grid-cols-3">
+          <Card className="lg:col-span-2">
+            <CardHeader>
+              <CardTitle className="text-lg">PnL by Pair</CardTitle>
+              <CardDescription>Cumulative realized PnL per pair, best first</CardDescription>
+            </CardHeader>
+            <CardContent>
+              {pairs.length === 0 ? (
+                <p className="text-sm text-muted-foreground">No closed trades</p>
+              ) : (
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Pair</TableHead>
+                      <TableHead className="text-right">Trades</TableHead>
+                      <TableHead className="text-right">Won</TableHead>
+                      <TableHead className="text-right">Avg Hold</TableHead>
+                      <TableHead className="text-right">Half-Life</TableHead>
+                      <TableHead className="w-[30%] text-right">PnL</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {pairs.map((p) => (
+                      <TableRow key={p.pair}>
+                        <TableCell className="font-mono text-sm">{p.pair}</TableCell>
+                        <TableCell className="text-right">{p.trades}</TableCell>
+                        <TableCell className="text-right">{p.wins}</TableCell>
+                        <TableCell className="text-right">{formatHours(p.avgHoldingHours)}</TableCell>
+                        <TableCell className="text-right">{formatHours(p.avgHalfLifeHours)}</TableCell>
+                        <TableCell className="text-right">
+                          <div className="flex items-center justify-end gap-2">
+                            <div className="h-1.5 flex-1 rounded-full bg-muted">
+                              <div
+                                className={cn('h-1.5 rounded-full', p.totalPnl >= 0 ? 'bg-success' : 'bg-destructive')}
+                                style={{ width: `${maxPairPnl > 0 ? (Math.abs(p.totalPnl) / maxPairPnl) * 100 : 0}%` }}
+                              />
+                            </div>
+                            <span className={cn('font-mono text-sm', pnlClass(p.totalPnl))}>{formatPnl(p.totalPnl)}</span>
+                          </div>
+                        </TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              )}
+            </CardContent>
+          </Card>
+
+          <Card>
+            <CardHeader>
+              <CardTitle className="text-lg">Holding vs Half-Life</CardTitle>
+              <CardDescription>Time held against the half-life predicted at entry</CardDescription>
+            </CardHeader>
+            <CardContent className="space-y-3 text-sm">
+              <div className="flex justify-between">
+                <span className="text-muted-foreground">Avg holding time</span>
+                <span className="font-mono">{formatHours(holding.avgHoldingHours)}</span>
+              </div>
+              <div className="flex justify-between">
+                <span className="text-muted-foreground">Avg predicted half-life</span>
+                <span className="font-mono">{formatHours(holding.avgHalfLifeHours)}</span>
+              </div>
+              <div className="flex justify-between">
+                <span className="text-muted-foreground">Median held / half-life</span>
+                <span className="font-mono">
+                  {holding.medianRatio === null ? '—' : `${holding.medianRatio.toFixed(2)}×`}
+                </span>
+              </div>
+              <p className="text-xs text-muted-foreground">
+                {holding.compared} of {trades.length} trades had a predicted half-life
+              </p>
+            </CardContent>
+          </Card>
+        </div>
+      </div>
+    </AppLayout>
+  );
+}
@@ -0,0 +1,420 @@
+import { Fragment, useEffect, useState } from 'react';
+import { Link } from 'react-router-dom';
+import AppLayout from '@/components/layout/AppLayout';
+import PortfolioExposureCard from '@/components/positions/PortfolioExposureCard';
+import PositionMonitorCard from '@/components/positions/PositionMonitorCard';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Skeleton } from '@/components/ui/skeleton';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+import { AlertCircle, Briefcase, Loader2, RefreshCw, Save, TrendingUp, Trophy, Wallet, X } from 'lucide-react';
+import { toast } from 'sonner';
+import { supabase } from '@/integrations/supabase/client';
+import { useAuth } from '@/contexts/AuthContext';
+import { usePaperPositions } from '@/hooks/usePaperPositions';
+import { usePortfolioExposure } from '@/hooks/usePortfolioExposure';
+import { usePositionMonitor } from '@/hooks/usePositionMonitor';
+import { useUserSettings } from '@/hooks/useUserSettings';
+import { paperSettings } from '@/lib/paperTrading';
+import type { PaperPositionRow } from '@/lib/paperStore';
+import { cn } from '@/lib/utils';
+import { PAPER_CLOSE_REASON_LABELS, PaperCloseReason } from '@/types/paper';
+
+const formatUsd = (v: number) =>
+  `${v < 0 ? '-' : ''}$${Math.abs(v).toLocaleString(undefined, { minimumFractionDigits: 2, maximumFractionDigits: 2 })}`;
+const formatPnl = (v: number) => `${v >= 0 ? '+' : ''}${formatUsd(v)}`;
+const formatReturn = (v: number) => `${v >= 0 ? '+' : ''}${(v * 100).toFixed(2)}%`;
+const formatNumber = (v: number) => v.toLocaleString(undefined, { maximumFractionDigits: 8 });
+const formatTime = (iso: string) => new Date(iso).toLocaleString();
+const pnlClass = (v: number) => (v >= 0 ? 'text-long' : 'text-short');
+
+const directionLabel = (direction: string) => (direction === 'long_a_short_b' ? 'Long A / Short B' : 'Short A / Long B');
+
+const closeReasonLabel = (reason: string | null) =>
+  reason && reason in PAPER_CLOSE_REASON_LABELS ? PAPER_CLOSE_REASON_LABELS[reason as PaperCloseReason] : reason ?? '—';
+
+// Blank inputs disable the optional exit rules
+const parseOptional = (value: string) => {
+  const n = parseFloat(value);
+  return Number.isFinite(n) && n > 0 ? n : null;
+};
+
+function PaperSettingsCard() {
+  const { user } = useAuth();
+  const { settings, refetch } = useUserSettings();
+  const current = paperSettings(settings);
+  const [slippage, setSlippage] = useState('');
+  const [fee, setFee] = useState('');
+  const [stopZ, setStopZ] = useState('');
+  const [maxHold, setMaxHold] = useState('');
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    setSlippage(String(current.slippagePercent));
+    setFee(String(current.feePercent));
+    setStopZ(current.stopZ === null ? '' : String(current.stopZ));
+    setMaxHold(current.maxHoldHours === null ? '' : String(current.maxHoldHours));
+  }, [current.slippagePercent, current.feePercent, current.stopZ, current.maxHoldHours]);
+
+  const handleSave = async () => {
+    if (!user) return;
+    setSaving(true);
+    try {
+      const { error } = await supabase
+        .from('user_settings')
+        .update({
+          paper_slippage_percent: Math.max(0, parseFloat(slippage) || 0),
+          paper_fee_percent: Math.max(0, parseFloat(fee) || 0),
+          paper_stop_zscore: parseOptional(stopZ),
+          paper_max_hold_hours: parseOptional(maxHold),
+        })
+        .eq('user_id', user.id);
+      if (error) throw error;
+      toast.success('Paper trading settings saved');
+      refetch();
+    } catch (e) {
+      if (import.meta.env.DEV) console.error('Error saving paper settings:', e);
+      toast.error('Failed to save paper trading settings');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Paper Trading Rules</CardTitle>
+        <CardDescription>
+          Applied to new paper positions. Positions close when |Z| reverts inside ±{current.exitZ} (your
+          z-score exit threshold), or when a stop below fires. Leave a stop blank to disable it.
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        <div className="grid gap-4 sm:grid-cols-2 lg:grid-cols-5 items-end">
+          <div className="space-y-1.5">
+            <Label htmlFor="paper-slippage" className="text-xs text-muted-foreground">Slippage per fill (%)</Label>
+            <Input id="paper-slippage" type="number" min={0} step={0.01} value={slippage} onChange={(e) => setSlippage(e.target.value)} />
+          </div>
+          <div className="space-y-1.5">
+            <Label htmlFor="paper-fee" className="text-xs text-muted-foreground">Fee per fill (%)</Label>
+            <Input id="paper-fee" type="number" min={0} step={0.005} value={fee} onChange={(e) => setFee(e.target.value)} />
+          </div>
+          <div className="space-y-1.5">
+            <Label htmlFor="paper-stop" className="text-xs text-muted-foreground">Stop |Z|</Label>
+            <Input id="paper-stop" type="number" min={0} step={0.1} placeholder="Off" value={stopZ} onChange={(e) => setStopZ(e.target.value)} />
+          </div>
+          <div className="space-y-1.5">
+            <Label htmlFor="paper-hold" className="text-xs text-muted-foreground">Max hold (hours)</Label>
+            <Input id="paper-hold" type="number" min={0} step={1} placeholder="Off" value={maxHold} onChange={(e) => setMaxHold(e.target.value)} />
+          </div>
+          <Button onClick={handleSave} disabled={saving || !user}>
+            {saving ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <Save className="mr-2 h-4 w-4" />}
+            Save Rules
+          </Button>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
+
+export default function Positions() {
+  const { settings, refetch: refetchSettings } = useUserSettings();
+  const monitor = usePositionMonitor(settings);
+  const exposure = usePortfolioExposure();
+  const positions = usePaperPositions({
+    onAutoClose: (row) => {
+      toast.info(`${row.symbol_a}/${row.symbol_b} closed: ${closeReasonLabel(row.close_reason)}`, {
+        description: `Realized ${formatPnl(Number(row.realized_pnl ?? 0))}`,
+      });
+      monitor.refetch();
+      exposure.refetch();
+    },
+  });
+  const { open, closed, marks, markErrors, loading, marking, closingId, error } = positions;
+
+  const unrealized = open.reduce((sum, p) => sum + (marks[p.id]?.unrealizedPnl ?? 0), 0);
+  const grossNotional = open.reduce((sum, p) => sum + Number(p.gross_notional), 0);
+  const realized = closed.reduce((sum, p) => sum + Number(p.realized_pnl ?? 0), 0);
+  const wins = closed.filter((p) => Number(p.realized_pnl ?? 0) > 0).length;
+  const lastMarked = Object.values(marks).reduce((latest, m) => Math.max(latest, m.markedAt), 0);
+
+  const handleClose = async (position: PaperPositionRow) => {
+    try {
+      const row = await positions.closePosition(position);
+      toast.success(`${row.symbol_a}/${row.symbol_b} closed`, {
+        description: `Realized ${formatPnl(Number(row.realized_pnl ?? 0))}`,
+      });
+      monitor.refetch();
+      exposure.refetch();
+    } catch (e) {
+      if (import.meta.env.DEV) console.error('Error closing position:', e);
+      toast.error(e instanceof Error ? e.message : 'Failed to close position');
+    }
+  };
+
+  return (
+    <AppLayout>
+      <div className="space-y-6">
+        <div className="flex flex-col gap-4 md:flex-row md:items-center md:justify-between">
+          <div>
+            <h1 className="text-2xl font-bold tracking-tight">Positions</h1>
+            <p className="text-muted-foreground">
+              Open pairs with exit recommendations, and simulated positions marked to market
+              {lastMarked > 0 && ` · last marked ${new Date(lastMarked).toLocaleTimeString()}`}
+            </p>
+          </div>
+          <Button variant="outline" size="sm" onClick={positions.markAll} disabled={marking || open.length === 0}>
+            <RefreshCw className={cn('mr-2 h-4 w-4', marking && 'animate-spin')} />
+            Mark Now
+          </Button>
+        </div>
+
+        <div className="grid gap-4 md:grid-cols-4">
+          <Card>
+            <CardHeader className="flex flex-row items-center justify-between pb-2">
+              <CardTitle className="text-sm font-medium text-muted-foreground">Open Positions</CardTitle>
+              <Briefcase className="h-4 w-4 text-muted-foreground" />
+            </CardHeader>
+            <CardContent>
+              <div className="text-2xl font-bold">{open.length}</div>
+              <p className="text-xs text-muted-foreground">{formatUsd(grossNotional)} gross notional</p>
+            </CardContent>
+          </Card>
+
+          <Card>
+            <CardHeader className="flex flex-row items-center justify-between pb-2">
+              <CardTitle className="text-sm font-medium text-muted-foreground">Unrealized PnL</CardTitle>
+              <TrendingUp className="h-4 w-4 text-muted-foreground" />
+            </CardHeader>
+            <CardContent>
+              <div className={cn('text-2xl font-bold', open.length > 0 && pnlClass(unrealized))}>
+                {open.length > 0 ? formatPnl(unrealized) : '—'}
+              </div>
+              <p className="text-xs text-muted-foreground">Net of entry fees</p>
+            </CardContent>
+          </Card>
+
+          <Card>
+            <CardHeader className="flex flex-row items-center justify-between pb-2">
+              <CardTitle className="text-sm font-medium text-muted-foreground">Realized PnL</CardTitle>
+              <Wallet className="h-4 w-4 text-muted-foreground" />
+            </CardHeader>
+            <CardContent>
+              <div className={cn('text-2xl font-bold', closed.length > 0 && pnlClass(realized))}>
+                {closed.length > 0 ? formatPnl(realized) : '—'}
+              </div>
+              <p className="text-xs text-muted-foreground">Last {closed.length} closed positions</p>
+            </CardContent>
+          </Card>
+
+          <Card>
+            <CardHeader className="flex flex-row items-center justify-between pb-2">
+              <CardTitle className="text-sm font-medium text-muted-foreground">Win Rate</CardTitle>
+              <Trophy className="h-4 w-4 text-muted-foreground" />
+            </CardHeader>
+            <CardContent>
+              <div className="text-2xl font-bold">
+                {closed.length > 0 ? `${((wins / closed.length) * 100).toFixed(1)}%` : '—'}
+              </div>
+              <p className="text-xs text-muted-foreground">{wins} of {closed.length} closed in profit</p>
+            </CardContent>
+          </Card>
+        </div>
+
+        {error && (
+          <div className="flex items-center gap-2 text-sm text-destructive">
+            <AlertCircle className="h-4 w-4" />
+            {error}
+          </div>
+        )}
+
+        <PositionMonitorCard
+          positions={monitor.positions}
+          readings={monitor.readings}
+          readErrors={monitor.readErrors}
+          loading={monitor.loading}
+          reading={monitor.reading}
+          error={monitor.error}
+          exitZ={monitor.exitZ}
+          stopZ={monitor.stopZ}
+          onRefresh={monitor.readAll}
+        />
+
+        <PortfolioExposureCard
+          legs={exposure.legs}
+          stranded={exposure.stranded}
+          market={exposure.market}
+          loading={exposure.loading}
+          error={exposure.error}
+          settings={settings}
+          onCapSaved={refetchSettings}
+        />
+
+        <Card>
+          <CardHeader>
+            <CardTitle>Open Paper</CardTitle>
+            <CardDescription>Per-pair PnL with each leg marked at the latest recorded price</CardDescription>
+          </CardHeader>
+          <CardContent>
+            {loading ? (
+              <div className="space-y-2">
+                {[...Array(3)].map((_, i) => <Skeleton key={i} className="h-10 w-full" />)}
+              </div>
+            ) : open.length === 0 ? (
+              <div className="text-center py-8 text-muted-foreground">
+                <Briefcase className="h-12 w-12 mx-auto mb-4 opacity-50" />
+                <p>No open paper positions</p>
+                <p className="text-sm">Open one from a signal's Sizing tab with Execute Pair</p>
+              </div>
+            ) : (
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Pair / Leg</TableHead>
+                    <TableHead>Side</TableHead>
+                    <TableHead className="text-right">Quantity</TableHead>
+                    <TableHead className="text-right">Entry</TableHead>
+                    <TableHead className="text-right">Mark</TableHead>
+                    <TableHead className="text-right">Z (entry → now)</TableHead>
+                    <TableHead className="text-right">PnL</TableHead>
+                    <TableHead className="text-right">Return</TableHead>
+                    <TableHead />
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {open.map((position) => {
+                    const mark = marks[position.id];
+                    const markError = markErrors[`${position.symbol_a}/${position.symbol_b}`];
+                    return (
+                      <Fragment key={position.id}>
+                        <TableRow className="bg-muted/30">
+                          <TableCell>
+                            <Link
+                              to={position.signal_id ? `/signal/${position.signal_id}` : '#'}
+                              className="font-mono font-medium hover:underline"
+                            >
+                              {position.symbol_a}/{position.symbol_b}
+                            </Link>
+                            <p className="text-xs text-muted-foreground">Opened {formatTime(position.opened_at)}</p>
+                          </TableCell>
+                          <TableCell>
+                            <Badge variant="outline">{directionLabel(position.direction)}</Badge>
+                          </TableCell>
+                          <TableCell className="text-right font-mono" colSpan={3}>
+                            {formatUsd(Number(position.gross_notional))}
+                            <span className="text-muted-foreground"> notional</span>
+                          </TableCell>
+                          <TableCell className="text-right font-mono">
+                            {Number(position.entry_z).toFixed(2)} → {mark ? mark.z.toFixed(2) : '…'}
+                          </TableCell>
+                          <TableCell className={cn('text-right font-mono font-medium', mark && pnlClass(mark.unrealizedPnl))}>
+                            {mark ? formatPnl(mark.unrealizedPnl) : markError ? (
+                              <span className="text-xs text-destructive">{markError}</span>
+                            ) : '…'}
+                          </TableCell>
+                          <TableCell className={cn('text-right font-mono', mark && pnlClass(mark.returnOnMargin))}>
+                            {mark ? formatReturn(mark.returnOnMargin) : '—'}
+                          </TableCell>
+                          <TableCell className="text-right">
+                            <Button
+                              variant="ghost"
+                              size="sm"
+                              onClick={() => handleClose(position)}
+                              disabled={closingId === position.id}
+                            >
+                              {closingId === position.id ? <Loader2 className="h-4 w-4 animate-spin" /> : <X className="h-4 w-4" />}
+                              Close
+                            </Button>
+                          </TableCell>
+                        </TableRow>
+                        {mark?.legs.map((leg) => (
+                          <TableRow key={`${position.id}-${leg.symbol}`} className="text-sm">
+                            <TableCell className="pl-8 font-mono">{leg.symbol}</TableCell>
+                            <TableCell className={leg.side === 'buy' ? 'text-long' : 'text-short'}>
+                              {leg.side === 'buy' ? 'Long' : 'Short'}
+                            </TableCell>
+                            <TableCell className="text-right font-mono">{formatNumber(leg.quantity)}</TableCell>
+                            <TableCell className="text-right font-mono">{formatNumber(leg.entryPrice)}</TableCell>
+                            <TableCell className="text-right font-mono">{formatNumber(leg.markPrice)}</TableCell>
+                            <TableCell />
+                            <TableCell className={cn('text-right font-mono', pnlClass(leg.pnl))}>{formatPnl(leg.pnl)}</TableCell>
+                            <TableCell className={cn('text-right font-mono', pnlClass(leg.pnlPercent))}>
+                              {formatReturn(leg.pnlPercent)}
+                            </TableCell>
+                            <TableCell />
+                          </TableRow>
+                        ))}
+                      </Fragment>
+                    );
+                  })}
+                </TableBody>
+              </Table>
+            )}
+          </CardContent>
+        </Card>
+
+        <Card>
+          <CardHeader>
+            <CardTitle>Closed</CardTitle>
+            <CardDescription>Realized PnL after slippage and fees on both fills</CardDescription>
+          </CardHeader>
+          <CardContent>
+            {closed.length === 0 ? (
+              <p className="text-center py-6 text-sm text-muted-foreground">No closed paper positions yet</p>
+            ) : (
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Pair</TableHead>
+                    <TableHead>Direction</TableHead>
+                    <TableHead>Opened</TableHead>
+                    <TableHead>Closed</TableHead>
+                    <TableHead>Reason</TableHead>
+                    <TableHead className="text-right">Z (entry → exit)</TableHead>
+                    <TableHead className="text-right">Fees</TableHead>
+                    <TableHead className="text-right">Realized PnL</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {closed.map((position) => {
+                    const pnl = Number(position.realized_pnl ?? 0);
+                    return (
+                      <TableRow key={position.id}>
+                        <TableCell className="font-mono font-medium">{position.symbol_a}/{position.symbol_b}</TableCell>
+                        <TableCell className="text-sm">{directionLabel(position.direction)}</TableCell>
+                        <TableCell className="text-sm text-muted-foreground">{formatTime(position.opened_at)}</TableCell>
+                        <TableCell className="text-sm text-muted-foreground">
+                          {position.closed_at ? formatTime(position.closed_at) : '—'}
+                        </TableCell>
+                        <TableCell className="text-sm">{closeReasonLabel(position.close_reason)}</TableCell>
+                        <TableCell className="text-right font-mono">
+                          {Number(position.entry_z).toFixed(2)} → {position.close_z === null ? '—' : Number(position.close_z).toFixed(2)}
+                        </TableCell>
+                        <TableCell className="text-right font-mono text-muted-foreground">
+                          {formatUsd(Number(position.entry_fees) + Number(position.exit_fees ?? 0))}
+                        </TableCell>
+                        <TableCell className={cn('text-right font-mono font-medium', pnlClass(pnl))}>{formatPnl(pnl)}</TableCell>
+                      </TableRow>
+                    );
+                  })}
+                </TableBody>
+              </Table>
+            )}
+          </CardContent>
+        </Card>
+
+        <PaperSettingsCard />
+      </div>
+    </AppLayout>
+  );
+}
@@ -0,0 +1,236 @@
+import { useMemo } from 'react';
+import AppLayout from '@/components/layout/AppLayout';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Progress } from '@/components/ui/progress';
+import { Skeleton } from '@/components/ui/skeleton';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+import { AlertCircle, ArrowDownRight, ArrowUpRight, ClipboardCheck, Loader2, Play, Square, Target } from 'lucide-react';
+import { cn } from '@/lib/utils';
+import { aggregateOutcomes, summarizeOutcomes } from '@/lib/signalOutcomes';
+import { useSignalOutcomes } from '@/hooks/useSignalOutcomes';
+import { useAuth } from '@/contexts/AuthContext';
+import { DEFAULT_OUTCOME_PARAMS, OutcomeBucketStats, OutcomeGrouping } from '@/types/outcomes';
+
+const GROUPINGS: { grouping: OutcomeGrouping; title: string; description: string }[] = [
+  { grouping: 'confidence', title: 'By Confidence', description: 'Signal confidence score at creation' },
+  { grouping: 'correlation', title: 'By Correlation', description: 'Pair correlation when the signal fired' },
+  { grouping: 'direction', title: 'By Direction', description: 'Which leg the signal went long' },
+];
+
+const formatPercent = (value: number, digits = 1) => `${(value * 100).toFixed(digits)}%`;
+
+const formatReturn = (value: number) => `${value >= 0 ? '+' : ''}${(value * 100).toFixed(2)}%`;
+
+function BucketTable({ rows }: { rows: OutcomeBucketStats[] }) {
+  return (
+    <Table>
+      <TableHeader>
+        <TableRow>
+          <TableHead>Bucket</TableHead>
+          <TableHead className="text-right">Signals</TableHead>
+          <TableHead className="text-right">Hit Rate</TableHead>
+          <TableHead className="text-right">Win Rate</TableHead>
+          <TableHead className="text-right">Avg Return</TableHead>
+          <TableHead className="text-right">Avg MFE</TableHead>
+          <TableHead className="text-right">Avg MAE</TableHead>
+        </TableRow>
+      </TableHeader>
+      <TableBody>
+        {rows.map((row) => (
+          <TableRow key={row.key} className={cn(row.count === 0 && 'text-muted-foreground')}>
+            <TableCell className="font-medium">{row.label}</TableCell>
+            <TableCell className="text-right font-mono">{row.count}</TableCell>
+            {row.count === 0 ? (
+              <TableCell colSpan={5} className="text-right text-xs">No scored signals</TableCell>
+            ) : (
+              <>
+                <TableCell className="text-right font-mono">{formatPercent(row.hitRate)}</TableCell>
+                <TableCell className="text-right font-mono">{formatPercent(row.winRate)}</TableCell>
+                <TableCell className={cn('text-right font-mono', row.avgReturn >= 0 ? 'text-long' : 'text-short')}>
+                  {formatReturn(row.avgReturn)}
+                </TableCell>
+                <TableCell className="text-right font-mono text-long">{formatReturn(row.avgMfe)}</TableCell>
+                <TableCell className="text-right font-mono text-short">{formatReturn(row.avgMae)}</TableCell>
+              </>
+            )}
+          </TableRow>
+        ))}
+      </TableBody>
+    </Table>
+  );
+}
+
+export default function Scorecard() {
+  const { isAdmin } = useAuth();
+  const scorecard = useSignalOutcomes();
+  const { outcomes, pending, progress } = scorecard;
+  const evaluating = scorecard.status === 'evaluating';
+
+  const overall = useMemo(() => summarizeOutcomes(outcomes), [outcomes]);
+  const groups = useMemo(
+    () => GROUPINGS.map((g) => ({ ...g, rows: aggregateOutcomes(outcomes, g.grouping) })),
+    [outcomes]
+  );
+  const avgBarsToExit = useMemo(() => {
+    const exits = outcomes.filter((o) => o.bars_to_exit !== null);
+    return exits.length > 0 ? exits.reduce((sum, o) => sum + Number(o.bars_to_exit), 0) / exits.length : null;
+  }, [outcomes]);
+
+  const progressPercent = progress.total > 0 ? (progress.completed / progress.total) * 100 : 0;
+  const { halfLives, exitZ, interval } = DEFAULT_OUTCOME_PARAMS;
+
+  return (
+    <AppLayout>
+      <div className="space-y-6">
+        <div>
+          <h1 className="text-2xl font-bold tracking-tight">Signal Scorecard</h1>
+          <p className="text-muted-foreground">
+            How expired signals played out: a hit is |Z| back inside ±{exitZ} within {halfLives} half-lives
+            ({interval} bars)
+          </p>
+        </div>
+
+        <div className="grid gap-4 md:grid-cols-4">
+          <Card>
+            <CardHeader className="flex flex-row items-center justify-between pb-2">
+              <CardTitle className="text-sm font-medium text-muted-foreground">Scored Signals</CardTitle>
+              <ClipboardCheck className="h-4 w-4 text-muted-foreground" />
+            </CardHeader>
+            <CardContent>
+              <div className="text-2xl font-bold">{overall.count}</div>
+              <p className="text-xs text-muted-foreground">{pending.length} awaiting scoring</p>
+            </CardContent>
+          </Card>
+
+          <Card>
+            <CardHeader className="flex flex-row items-center justify-between pb-2">
+              <CardTitle className="text-sm font-medium text-muted-foreground">Hit Rate</CardTitle>
+              <Target className="h-4 w-4 text-muted-foreground" />
+            </CardHeader>
+            <CardContent>
+              <div className="text-2xl font-bold">{overall.count > 0 ? formatPercent(overall.hitRate) : '—'}</div>
+              <p className="text-xs text-muted-foreground">
+                {avgBarsToExit !== null ? `Avg ${avgBarsToExit.toFixed(1)} bars to exit` : 'Reverted within horizon'}
+              </p>
+            </CardContent>
+          </Card>
+
+          <Card>
+            <CardHeader className="flex flex-row items-center justify-between pb-2">
+              <CardTitle className="text-sm font-medium text-muted-foreground">Avg Return</CardTitle>
+              {overall.avgReturn >= 0
+                ? <ArrowUpRight className="h-4 w-4 text-long" />
+                : <ArrowDownRight className="h-4 w-4 text-short" />}
+            </CardHeader>
+            <CardContent>
+              <div className={cn('text-2xl font-bold', overall.avgReturn >= 0 ? 'text-long' : 'text-short')}>
+                {overall.count > 0 ? formatReturn(overall.avgReturn) : '—'}
+              </div>
+              <p className="text-xs text-muted-foreground">
+                {overall.count > 0 ? `${formatPercent(overall.winRate)} of signals profitable` : 'Gross, at exit or horizon'}
+              </p>
+            </CardContent>
+          </Card>
+
+          <Card>
+            <CardHeader className="flex flex-row items-center justify-between pb-2">
+              <CardTitle className="text-sm font-medium text-muted-foreground">Avg MFE / MAE</CardTitle>
+              <ArrowUpRight className="h-4 w-4 text-muted-foreground" />
+            </CardHeader>
+            <CardContent>
+              <div className="text-2xl font-bold">
+                {overall.count > 0 ? (
+                  <>
+                    <span className="text-long">{formatReturn(overall.avgMfe)}</span>
+                    <span className="text-muted-foreground"> / </span>
+                    <span className="text-short">{formatReturn(overall.avgMae)}</span>
+                  </>
+                ) : '—'}
+              </div>
+              <p className="text-xs text-muted-foreground">Best and worst mark while open</p>
+            </CardContent>
+          </Card>
+        </div>
+
+        <Card>
+          <CardHeader>
+            <div className="flex items-center justify-between">
+              <div>
+                <CardTitle className="text-lg">Pending Outcomes</CardTitle>
+                <CardDescription>
+                  Expired signals whose horizon has passed are replayed against exchange candles
+                  {!isAdmin && '; an admin records the results'}
+                </CardDescription>
+              </div>
+              {!isAdmin ? null : evaluating ? (
+                <Button variant="outline" size="sm" onClick={scorecard.cancel}>
+                  <Square className="mr-2 h-4 w-4" />
+                  Cancel
+                </Button>
+              ) : (
+                <Button size="sm" onClick={scorecard.evaluatePending} disabled={scorecard.loading || pending.length === 0}>
+                  <Play className="mr-2 h-4 w-4" />
+                  Score {pending.length} Signal{pending.length === 1 ? '' : 's'}
+                </Button>
+              )}
+            </div>
+          </CardHeader>
+          {scorecard.status !== 'idle' && (
+            <CardContent className="space-y-1.5">
+              <div className="flex items-center justify-between text-xs text-muted-foreground">
+                <span className="flex items-center gap-1.5">
+                  {evaluating && <Loader2 className="h-3 w-3 animate-spin" />}
+                  {evaluating && 'Scoring signals'}
+                  {scorecard.status === 'done' && 'Scoring complete'}
+                  {scorecard.status === 'cancelled' && 'Scoring cancelled'}
+                </span>
+                <span className="font-mono">
+                  {progress.completed} / {progress.total}
+                  {progress.skipped > 0 && ` · ${progress.skipped} skipped`}
+                </span>
+              </div>
+              <Progress value={progressPercent} className="h-2" />
+            </CardContent>
+          )}
+        </Card>
+
+        {scorecard.error ? (
+          <Card>
+            <CardContent className="text-center py-12 text-muted-foreground">
+              <AlertCircle className="h-8 w-8 mx-auto mb-4 opacity-50" />
+              <p>{scorecard.error}</p>
+            </CardContent>
+          </Card>
+        ) : (
+          groups.map(({ grouping, title, description, rows }) => (
+            <Card key={grouping}>
+              <CardHeader>
+                <CardTitle className="text-lg">{title}</CardTitle>
+                <CardDescription>{description}</CardDescription>
+              </CardHeader>
+              <CardContent>
+                {scorecard.loading && outcomes.length === 0 ? (
+                  <div className="space-y-3">
+                    {[...Array(3)].map((_, i) => (
+                      <Skeleton key={i} className="h-10 w-full" />
+                    ))}
+                  </div>
+                ) : (
+                  <BucketTable rows={rows} />
+                )}
+              </CardContent>
+            </Card>
+          ))
+        )}
+      </div>
+    </AppLayout>
+  );
+}
@@ -17,8 +17,9 @@ import {
 } from '@/components/ui/select';
 import { Slider } from '@/components/ui/slider';
 import { Switch } from '@/components/ui/switch';
-import { Save, RotateCcw, Plus, Key, AlertTriangle } from 'lucide-react';
+import { Save, RotateCcw } from 'lucide-react';
 import { toast } from 'sonner';
+import ExchangeAccountsCard from '@/components/settings/ExchangeAccountsCard';
 
 export default function Settings() {
   const { profile } = useAuth();
@@ -380,38 +381,7 @@ export default function Settings() {
           </TabsContent>
 
           <TabsContent value="exchange" className="space-y-6">
-            <Card>
-              <CardHeader>
-                <CardTitle>Exchange Accounts</CardTitle>
-                <CardDescription>
-                  Connect your exchange API keys for trade execution
-                </CardDescription>
-              </CardHeader>
-              <CardContent className="space-y-4">
-                <div className="rounded-lg border border-warning/50 bg-warning/5 p-4">
-                  <div className="flex gap-3">
-                    <AlertTriangle className="h-5 w-5 text-warning shrink-0 mt-0.5" />
-                    <div className="space-y-1">
-                      <p className="font-medium text-warning">Trade-Only Permissions Required</p>
-                      <p className="text-sm text-muted-foreground">
-                        Only create API keys with trade permissions. Never enable withdrawal permissions.
-                        Your keys are encrypted and stored securely.
-                      </p>
-                    </div>
-                  </div>
-                </div>
-
-                <div className="text-center py-8 text-muted-foreground">
-                  <Key className="h-12 w-12 mx-auto mb-4 opacity-50" />
-                  <p>No exchange accounts connected</p>
-                  <p className="text-sm mb-4">Connect your exchange to enable trade execution</p>
-                  <Button>
-                    <Plus className="mr-2 h-4 w-4" />
-                    Add Exchange Account
-                  </Button>
-                </div>
-              </CardContent>
-            </Card>
+            <ExchangeAccountsCard />
           </TabsContent>
         </Tabs>
       </div>
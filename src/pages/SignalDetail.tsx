@@ -1,10 +1,11 @@
-import { useEffect, useMemo, useRef, useState } from 'react';
+import { useEffect, useMemo, useState } from 'react';
 import { useParams, Link } from 'react-router-dom';
 import AppLayout from '@/components/layout/AppLayout';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import { Badge } from '@/components/ui/badge';
 import { Separator } from '@/components/ui/separator';
+import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
 import {
   ArrowLeft,
   TrendingUp,
@@ -15,11 +16,26 @@ import {
   Zap,
   Loader2,
   AlertCircle,
-  ExternalLink,
+  AlertTriangle,
 } from 'lucide-react';
+import SignalWorkspace from '@/components/signal/SignalWorkspace';
+import BacktestPanel from '@/components/signal/BacktestPanel';
+import PositionSizingPanel from '@/components/signal/PositionSizingPanel';
+import CointegrationCheck from '@/components/signal/CointegrationCheck';
+import MeanReversionDiagnostics, { HurstBadge } from '@/components/signal/MeanReversionDiagnostics';
+import OUFitPanel from '@/components/signal/OUFitPanel';
+import { usePairCandles } from '@/hooks/usePairCandles';
+import { useUserSettings } from '@/hooks/useUserSettings';
+import { engleGrangerTest, pValuesDisagree } from '@/lib/cointegration';
 import { cn } from '@/lib/utils';
 import { supabase } from '@/integrations/supabase/client';
 import type { Database } from '@/integrations/supabase/types';
+import { BAR_INTERVALS, BarInterval } from '@/types/marketData';
+
+// Bars loaded for the chart workspace and the local statistical checks
+const ANALYSIS_BARS = 1000;
+// Below this the ADF lag search leaves too few observations to be meaningful
+const MIN_COINTEGRATION_BARS = 100;
 
 // --- Types ---
 type Signal = Database['public']['Tables']['signals']['Row'];
@@ -29,112 +45,12 @@ interface SignalWithMetrics extends Signal {
   pair_metrics: PairMetrics | null;
 }
 
-// --- TradingView widget helpers ---
-function buildTvSymbol(symbol: string, exchange?: string): string {
-  const s = symbol.trim();
-  if (!s) return s;
-  if (s.includes(':')) return s;
-  const ex = (exchange || 'BYBIT').trim();
-  return `${ex}:${s}`;
-}
-
-function buildRatioSymbol(symbolA: string, symbolB: string, exchange?: string): string {
-  const a = buildTvSymbol(symbolA, exchange);
-  const b = buildTvSymbol(symbolB, exchange);
-  return `${a}/${b}`;
-}
-
-function TradingViewWidget(props: {
-  title: string;
-  symbol: string;
-  interval: string;
-  height?: number;
-}) {
-  const { title, symbol, interval, height = 520 } = props;
-  const containerRef = useRef<HTMLDivElement | null>(null);
-
-  const containerId = useMemo(() => {
-    const rand = Math.random().toString(36).slice(2);
-    return `tv_${rand}`;
-  }, []);
-
-  useEffect(() => {
-    const el = containerRef.current;
-    if (!el) return;
-
-    el.innerHTML = '';
-
-    const script = document.createElement('script');
-    script.src = 'https://s3.tradingview.com/tv.js';
-    script.async = true;
-
-    script.onload = () => {
-      // @ts-expect-error - TradingView is injected by tv.js
-      const TV = window.TradingView;
-      if (!TV) return;
-
-      // eslint-disable-next-line no-new
-      new TV.widget({
-        autosize: true,
-        symbol,
-        interval,
-        timezone: 'Etc/UTC',
-        theme: 'dark',
-        style: '1',
-        locale: 'en',
-        toolbar_bg: '#0b1220',
-        enable_publishing: false,
-        hide_side_toolbar: false,
-        allow_symbol_change: false,
-        container_id: containerId,
-        withdateranges: true,
-        details: true,
-        hotlist: false,
-        calendar: false,
-        studies_overrides: {},
-      });
-    };
-
-    el.appendChild(script);
-
-    return () => {
-      if (el) el.innerHTML = '';
-    };
-  }, [containerId, symbol, interval]);
-
-  return (
-    <Card className="w-full overflow-hidden">
-      <CardHeader className="pb-2">
-        <CardTitle className="text-base flex items-center justify-between">
-          <span>{title}</span>
-          <a
-            href={`https://www.tradingview.com/chart/?symbol=${encodeURIComponent(symbol)}`}
-            target="_blank"
-            rel="noreferrer"
-            className="text-xs text-muted-foreground hover:text-foreground inline-flex items-center gap-1"
-            title="Open in TradingView"
-          >
-            Open <ExternalLink className="h-3 w-3" />
-          </a>
-        </CardTitle>
-        <CardDescription className="text-xs">
-          Candlesticks via TradingView widget (UTC)
-        </CardDescription>
-      </CardHeader>
-      <CardContent className="pt-0">
-        <div className="w-full rounded-md border bg-background" style={{ height }}>
-          <div id={containerId} ref={containerRef} className="w-full h-full" />
-        </div>
-      </CardContent>
-    </Card>
-  );
-}
-
 const SignalDetail = () => {
   const { id } = useParams<{ id: string }>();
   const [signal, setSignal] = useState<SignalWithMetrics | null>(null);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
+  const { settings, loading: settingsLoading } = useUserSettings();
 
   useEffect(() => {
     const fetchSignal = async () => {
@@ -204,18 +120,44 @@ const SignalDetail = () => {
     return `${mins}m`;
   };
 
-  // ---- TradingView symbols ----
-  const exchange = 'BYBIT';
-  const tvInterval = '15';
+  // ---- Chart settings (user_settings, falling back to schema defaults) ----
+  const barInterval: BarInterval = BAR_INTERVALS.includes(settings?.bar_interval as BarInterval)
+    ? (settings?.bar_interval as BarInterval)
+    : '15m';
+  const entryThreshold = Number(settings?.zscore_entry_threshold ?? 2);
+  const exitThreshold = Number(settings?.zscore_exit_threshold ?? 0.5);
+  const maxCointegrationPValue = Number(settings?.max_cointegration_pvalue ?? 0.05);
+  const hurstMax = Number(settings?.hurst_max ?? 0.5);
+
+  // Wait for settings so the first fetch uses the user's bar interval
+  const pairCandles = usePairCandles({
+    symbolA: settingsLoading ? '' : symbolA,
+    symbolB: settingsLoading ? '' : symbolB,
+    interval: barInterval,
+    limit: ANALYSIS_BARS,
+  });
+
+  const cointegration = useMemo(() => {
+    const aligned = pairCandles.aligned;
+    if (aligned.length < MIN_COINTEGRATION_BARS) return null;
+    try {
+      return engleGrangerTest(
+        aligned.map((x) => Math.log(x.a.close)),
+        aligned.map((x) => Math.log(x.b.close))
+      );
+    } catch (err) {
+      if (import.meta.env.DEV) console.error('Error recomputing cointegration:', err);
+      return null;
+    }
+  }, [pairCandles.aligned]);
+
+  const lastBar = pairCandles.aligned[pairCandles.aligned.length - 1];
 
-  const tvSymbolA = useMemo(() => buildTvSymbol(symbolA, exchange), [symbolA]);
-  const tvSymbolB = useMemo(() => buildTvSymbol(symbolB, exchange), [symbolB]);
-  const tvRatio = useMemo(() => {
-    if (!symbolA || !symbolB) return '';
-    return buildRatioSymbol(symbolA, symbolB, exchange);
-  }, [symbolA, symbolB]);
+  const storedPValue = signal?.pair_metrics?.cointegration_pvalue ?? null;
+  const cointegrationDisagrees = cointegration !== null && storedPValue !== null
+    && pValuesDisagree(storedPValue, cointegration.pValue, maxCointegrationPValue);
 
-  if (loading) {
+  if (loading || settingsLoading) {
     return (
       <AppLayout>
         <div className="flex items-center justify-center min-h-[60vh]">
@@ -293,7 +235,7 @@ const SignalDetail = () => {
         </div>
 
         {/* Key Metrics */}
-        <div className="grid grid-cols-1 md:grid-cols-4 lg:grid-cols-7 gap-4">
+        <div className="grid grid-cols-1 md:grid-cols-4 lg:grid-cols-8 gap-4">
           <Card>
             <CardHeader className="pb-2">
               <CardTitle className="text-sm font-medium flex items-center gap-2">
@@ -347,6 +289,15 @@ const SignalDetail = () => {
               <div className="text-2xl font-bold">
                 {signal.pair_metrics?.cointegration_pvalue?.toFixed(4) ?? 'N/A'}
               </div>
+              {cointegration && (
+                <p className={cn(
+                  "text-xs mt-1 flex items-center gap-1",
+                  cointegrationDisagrees ? "text-warning" : "text-muted-foreground"
+                )}>
+                  {cointegrationDisagrees && <AlertTriangle className="h-3 w-3" />}
+                  Local: {cointegration.pValue.toFixed(4)}
+                </p>
+              )}
             </CardContent>
           </Card>
 
@@ -372,6 +323,22 @@ const SignalDetail = () => {
             </CardContent>
           </Card>
 
+          <Card>
+            <CardHeader className="pb-2">
+              <CardTitle className="text-sm font-medium">Hurst</CardTitle>
+            </CardHeader>
+            <CardContent>
+              <div className="text-2xl font-bold">
+                {signal.pair_metrics?.hurst_exponent?.toFixed(3) ?? 'N/A'}
+              </div>
+              {signal.pair_metrics?.hurst_exponent != null && (
+                <div className="mt-1">
+                  <HurstBadge hurst={signal.pair_metrics.hurst_exponent} hurstMax={hurstMax} />
+                </div>
+              )}
+            </CardContent>
+          </Card>
+
           <Card>
             <CardHeader className="pb-2">
               <CardTitle className="text-sm font-medium">Beta</CardTitle>
@@ -417,54 +384,101 @@ const SignalDetail = () => {
           </CardContent>
         </Card>
 
-        {/* Charts */}
-        <div className="grid grid-cols-1 gap-6">
+        {symbolA && symbolB && (
+          <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+            <CointegrationCheck
+              symbolA={symbolA}
+              symbolB={symbolB}
+              result={cointegration}
+              storedPValue={storedPValue}
+              alpha={maxCointegrationPValue}
+              loading={pairCandles.loading}
+              error={pairCandles.error}
+            />
+            <MeanReversionDiagnostics
+              symbolA={symbolA}
+              symbolB={symbolB}
+              aligned={pairCandles.aligned}
+              hedgeRatio={cointegration?.beta ?? null}
+              storedHurst={signal.pair_metrics?.hurst_exponent ?? null}
+              hurstMax={hurstMax}
+              loading={pairCandles.loading}
+              error={pairCandles.error}
+            />
+          </div>
+        )}
+
+        {/* Charts & Analysis */}
+        {!symbolA || !symbolB ? (
           <Card>
-            <CardHeader>
-              <CardTitle className="text-lg">Price Charts</CardTitle>
-              <CardDescription>
-                Candlestick charts powered by TradingView (ratio + both legs). Interval: {tvInterval}
-              </CardDescription>
-            </CardHeader>
-            <CardContent className="space-y-6">
-              {!tvRatio ? (
-                <div className="text-center py-12 text-muted-foreground">
-                  <AlertCircle className="h-8 w-8 mx-auto mb-4 opacity-50" />
-                  <p>Missing symbols for chart rendering</p>
-                </div>
-              ) : (
-                <>
-                  <TradingViewWidget
-                    title={`Synthetic Ratio: ${symbolA}/${symbolB}`}
-                    symbol={tvRatio}
-                    interval={tvInterval}
-                    height={560}
-                  />
-
-                  <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
-                    <TradingViewWidget
-                      title={`Leg A: ${symbolA}`}
-                      symbol={tvSymbolA}
-                      interval={tvInterval}
-                      height={520}
-                    />
-                    <TradingViewWidget
-                      title={`Leg B: ${symbolB}`}
-                      symbol={tvSymbolB}
-                      interval={tvInterval}
-                      height={520}
-                    />
-                  </div>
-
-                  <div className="text-xs text-muted-foreground">
-                    Note: TradingView widget does not allow injecting private/custom indicators.
-                    For custom overlays, we can implement frontend-drawn charts.
-                  </div>
-                </>
-              )}
+            <CardContent className="text-center py-12 text-muted-foreground">
+              <AlertCircle className="h-8 w-8 mx-auto mb-4 opacity-50" />
+              <p>Missing symbols for chart rendering</p>
             </CardContent>
           </Card>
-        </div>
+        ) : (
+          <Tabs defaultValue="chart" className="space-y-6">
+            <TabsList>
+              <TabsTrigger value="chart">Chart</TabsTrigger>
+              <TabsTrigger value="ou">OU Fit</TabsTrigger>
+              <TabsTrigger value="backtest">Backtest</TabsTrigger>
+              <TabsTrigger value="sizing">Sizing</TabsTrigger>
+            </TabsList>
+
+            <TabsContent value="chart">
+              <SignalWorkspace
+                symbolA={symbolA}
+                symbolB={symbolB}
+                beta={signal.pair_metrics?.beta ?? null}
+                interval={barInterval}
+                entryThreshold={entryThreshold}
+                exitThreshold={exitThreshold}
+                aligned={pairCandles.aligned}
+                loading={pairCandles.loading}
+                error={pairCandles.error}
+              />
+            </TabsContent>
+
+            <TabsContent value="ou">
+              <OUFitPanel
+                symbolA={symbolA}
+                symbolB={symbolB}
+                aligned={pairCandles.aligned}
+                hedgeRatio={cointegration?.beta ?? null}
+                interval={barInterval}
+                storedTheta={signal.pair_metrics?.ou_theta ?? null}
+                storedHalfLifeHours={signal.pair_metrics?.half_life_hours ?? null}
+                loading={pairCandles.loading}
+                error={pairCandles.error}
+              />
+            </TabsContent>
+
+            <TabsContent value="backtest">
+              <BacktestPanel
+                symbolA={symbolA}
+                symbolB={symbolB}
+                beta={signal.pair_metrics?.beta ?? null}
+                halfLifeHours={signal.pair_metrics?.half_life_hours ?? null}
+                interval={barInterval}
+                settings={settings}
+              />
+            </TabsContent>
+
+            <TabsContent value="sizing">
+              <PositionSizingPanel
+                signalId={signal.id}
+                signalExpired={new Date(signal.expires_at) < new Date()}
+                symbolA={symbolA}
+                symbolB={symbolB}
+                beta={signal.pair_metrics?.beta ?? null}
+                direction={signal.signal_direction}
+                priceA={lastBar?.a.close ?? null}
+                priceB={lastBar?.b.close ?? null}
+                settings={settings}
+              />
+            </TabsContent>
+          </Tabs>
+        )}
       </div>
     </AppLayout>
   );
@@ -0,0 +1,392 @@
+import { FormEvent, useState } from 'react';
+import { Link, useNavigate } from 'react-router-dom';
+import AppLayout from '@/components/layout/AppLayout';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Skeleton } from '@/components/ui/skeleton';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+import {
+  Pagination,
+  PaginationContent,
+  PaginationItem,
+  PaginationLink,
+  PaginationNext,
+  PaginationPrevious,
+} from '@/components/ui/pagination';
+import { AlertCircle, Archive, Eye, RefreshCw, Search, TrendingDown, TrendingUp, X } from 'lucide-react';
+import { cn } from '@/lib/utils';
+import {
+  ArchiveDirection,
+  ArchiveStatus,
+  DEFAULT_ARCHIVE_FILTERS,
+  SignalArchiveFilters,
+  useSignalArchive,
+} from '@/hooks/useSignalArchive';
+
+const PAGE_SIZE = 25;
+
+interface FilterDraft {
+  status: ArchiveStatus;
+  from: string;
+  to: string;
+  symbol: string;
+  direction: ArchiveDirection;
+  minAbsZ: string;
+  minConfidencePercent: string;
+}
+
+const EMPTY_DRAFT: FilterDraft = {
+  status: DEFAULT_ARCHIVE_FILTERS.status,
+  from: '',
+  to: '',
+  symbol: '',
+  direction: DEFAULT_ARCHIVE_FILTERS.direction,
+  minAbsZ: '',
+  minConfidencePercent: '',
+};
+
+const parseOptional = (value: string) => {
+  const parsed = parseFloat(value);
+  return value.trim() === '' || !Number.isFinite(parsed) ? null : parsed;
+};
+
+function toFilters(draft: FilterDraft): SignalArchiveFilters {
+  const confidence = parseOptional(draft.minConfidencePercent);
+  return {
+    status: draft.status,
+    from: draft.from,
+    to: draft.to,
+    symbol: draft.symbol.trim(),
+    direction: draft.direction,
+    minAbsZ: parseOptional(draft.minAbsZ),
+    minConfidence: confidence === null ? null : confidence / 100,
+  };
+}
+
+const formatDateTime = (iso: string) =>
+  new Date(iso).toLocaleString(undefined, { month: 'short', day: 'numeric', hour: '2-digit', minute: '2-digit' });
+
+export default function SignalsArchive() {
+  const navigate = useNavigate();
+  const [draft, setDraft] = useState<FilterDraft>(EMPTY_DRAFT);
+  const [filters, setFilters] = useState<SignalArchiveFilters>(DEFAULT_ARCHIVE_FILTERS);
+  const [page, setPage] = useState(0);
+
+  const { signals, totalCount, loading, error, refetch } = useSignalArchive({ filters, page, pageSize: PAGE_SIZE });
+  const totalPages = Math.ceil(totalCount / PAGE_SIZE);
+  const now = Date.now();
+
+  const updateDraft = <K extends keyof FilterDraft>(key: K, value: FilterDraft[K]) =>
+    setDraft((prev) => ({ ...prev, [key]: value }));
+
+  const applyFilters = (e?: FormEvent) => {
+    e?.preventDefault();
+    setFilters(toFilters(draft));
+    setPage(0);
+  };
+
+  const resetFilters = () => {
+    setDraft(EMPTY_DRAFT);
+    setFilters(DEFAULT_ARCHIVE_FILTERS);
+    setPage(0);
+  };
+
+  return (
+    <AppLayout>
+      <div className="space-y-6">
+        <div className="flex items-center justify-between">
+          <div>
+            <h1 className="text-2xl font-bold tracking-tight">Signals Archive</h1>
+            <p className="text-muted-foreground">
+              Every pairs-trading signal the scanner has produced, including expired ones
+            </p>
+          </div>
+          <Button variant="outline" size="sm" onClick={() => refetch()} disabled={loading}>
+            <RefreshCw className={cn('mr-2 h-4 w-4', loading && 'animate-spin')} />
+            Refresh
+          </Button>
+        </div>
+
+        <Card>
+          <CardHeader>
+            <CardTitle className="text-lg">Filters</CardTitle>
+          </CardHeader>
+          <CardContent>
+            <form onSubmit={applyFilters} className="space-y-4">
+              <div className="grid gap-4 sm:grid-cols-2 lg:grid-cols-4">
+                <div className="space-y-2">
+                  <Label htmlFor="archive-symbol">Symbol</Label>
+                  <Input
+                    id="archive-symbol"
+                    placeholder="e.g. BTC"
+                    value={draft.symbol}
+                    onChange={(e) => updateDraft('symbol', e.target.value)}
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="archive-from">From</Label>
+                  <Input
+                    id="archive-from"
+                    type="date"
+                    value={draft.from}
+                    max={draft.to || undefined}
+                    onChange={(e) => updateDraft('from', e.target.value)}
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="archive-to">To</Label>
+                  <Input
+                    id="archive-to"
+                    type="date"
+                    value={draft.to}
+                    min={draft.from || undefined}
+                    onChange={(e) => updateDraft('to', e.target.value)}
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label>Status</Label>
+                  <Select value={draft.status} onValueChange={(v) => updateDraft('status', v as ArchiveStatus)}>
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="all">All</SelectItem>
+                      <SelectItem value="expired">Expired</SelectItem>
+                      <SelectItem value="active">Active</SelectItem>
+                    </SelectContent>
+                  </Select>
+                </div>
+                <div className="space-y-2">
+                  <Label>Direction</Label>
+                  <Select value={draft.direction} onValueChange={(v) => updateDraft('direction', v as ArchiveDirection)}>
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="all">Both</SelectItem>
+                      <SelectItem value="long_a_short_b">Long A / Short B</SelectItem>
+                      <SelectItem value="short_a_long_b">Short A / Long B</SelectItem>
+                    </SelectContent>
+                  </Select>
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="archive-z">Min |Z|</Label>
+                  <Input
+                    id="archive-z"
+                    type="number"
+                    min={0}
+                    step={0.1}
+                    placeholder="Any"
+                    value={draft.minAbsZ}
+                    onChange={(e) => updateDraft('minAbsZ', e.target.value)}
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="archive-confidence">Min Confidence (%)</Label>
+                  <Input
+                    id="archive-confidence"
+                    type="number"
+                    min={0}
+                    max={100}
+                    step={5}
+                    placeholder="Any"
+                    value={draft.minConfidencePercent}
+                    onChange={(e) => updateDraft('minConfidencePercent', e.target.value)}
+                  />
+                </div>
+                <div className="flex items-end gap-2">
+                  <Button type="submit" className="flex-1">
+                    <Search className="mr-2 h-4 w-4" />
+                    Apply
+                  </Button>
+                  <Button type="button" variant="outline" onClick={resetFilters}>
+                    <X className="mr-2 h-4 w-4" />
+                    Reset
+                  </Button>
+                </div>
+              </div>
+            </form>
+          </CardContent>
+        </Card>
+
+        <Card>
+          <CardHeader>
+            <CardTitle className="text-lg">Signals</CardTitle>
+            <CardDescription>
+              {loading ? 'Loading…' : `${totalCount} signal${totalCount === 1 ? '' : 's'} match`}
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            {error ? (
+              <div className="text-center py-12 text-muted-foreground">
+                <AlertCircle className="h-8 w-8 mx-auto mb-4 opacity-50" />
+                <p>{error}</p>
+              </div>
+            ) : loading && signals.length === 0 ? (
+              <div className="space-y-3">
+                {[...Array(5)].map((_, i) => (
+                  <Skeleton key={i} className="h-12 w-full" />
+                ))}
+              </div>
+            ) : signals.length === 0 ? (
+              <div className="text-center py-12 text-muted-foreground">
+                <Archive className="h-12 w-12 mx-auto mb-4 opacity-50" />
+                <p className="font-medium">No signals found</p>
+                <p className="text-sm">Try widening the date range or clearing filters.</p>
+              </div>
+            ) : (
+              <>
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Created</TableHead>
+                      <TableHead>Pair</TableHead>
+                      <TableHead className="text-right">Z-Score</TableHead>
+                      <TableHead className="text-right">Correlation</TableHead>
+                      <TableHead className="text-right">Half-Life</TableHead>
+                      <TableHead>Direction</TableHead>
+                      <TableHead className="text-right">Confidence</TableHead>
+                      <TableHead>Status</TableHead>
+                      <TableHead></TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {signals.map((signal) => {
+                      const zScore = Number(signal.z_ou_score);
+                      const correlation = signal.pair_metrics?.correlation;
+                      const halfLife = signal.pair_metrics?.half_life_hours;
+                      const confidence = signal.confidence_score;
+                      const isLong = signal.signal_direction === 'long_a_short_b';
+                      const expired = new Date(signal.expires_at).getTime() <= now;
+
+                      return (
+                        <TableRow
+                          key={signal.id}
+                          className="trading-row cursor-pointer"
+                          onClick={() => navigate(`/signal/${signal.id}`)}
+                        >
+                          <TableCell className="font-mono text-sm whitespace-nowrap">
+                            {formatDateTime(signal.created_at)}
+                          </TableCell>
+                          <TableCell>
+                            <div className="font-medium font-mono">
+                              {signal.pair_metrics?.symbol_a || '—'} / {signal.pair_metrics?.symbol_b || '—'}
+                            </div>
+                          </TableCell>
+                          <TableCell className="text-right">
+                            <span className={cn('font-mono font-medium', zScore > 0 ? 'text-long' : 'text-short')}>
+                              {zScore > 0 ? '+' : ''}{zScore.toFixed(2)}
+                            </span>
+                          </TableCell>
+                          <TableCell className="text-right font-mono">
+                            {correlation == null ? '—' : Number(correlation).toFixed(2)}
+                          </TableCell>
+                          <TableCell className="text-right font-mono">
+                            {halfLife == null ? '—' : `${Number(halfLife).toFixed(1)}h`}
+                          </TableCell>
+                          <TableCell>
+                            {signal.signal_direction ? (
+                              <Badge
+                                variant="outline"
+                                className={cn(
+                                  isLong
+                                    ? 'border-long/50 text-long bg-long/10'
+                                    : 'border-short/50 text-short bg-short/10'
+                                )}
+                              >
+                                {isLong ? (
+                                  <TrendingUp className="mr-1 h-3 w-3" />
+                                ) : (
+                                  <TrendingDown className="mr-1 h-3 w-3" />
+                                )}
+                                {isLong ? 'Long A' : 'Short A'}
+                              </Badge>
+                            ) : '—'}
+                          </TableCell>
+                          <TableCell className="text-right font-mono">
+                            {confidence == null ? '—' : `${(Number(confidence) * 100).toFixed(0)}%`}
+                          </TableCell>
+                          <TableCell>
+                            <Badge variant={expired ? 'secondary' : 'default'}>
+                              {expired ? 'Expired' : 'Active'}
+                            </Badge>
+                          </TableCell>
+                          <TableCell>
+                            <Link to={`/signal/${signal.id}`} onClick={(e) => e.stopPropagation()}>
+                              <Button variant="ghost" size="sm">
+                                <Eye className="h-4 w-4" />
+                              </Button>
+                            </Link>
+                          </TableCell>
+                        </TableRow>
+                      );
+                    })}
+                  </TableBody>
+                </Table>
+
+                {totalPages > 1 && (
+                  <div className="mt-6 flex justify-center">
+                    <Pagination>
+                      <PaginationContent>
+                        <PaginationItem>
+                          <PaginationPrevious
+                            onClick={() => setPage((p) => Math.max(0, p - 1))}
+                            className={page === 0 ? 'pointer-events-none opacity-50' : 'cursor-pointer'}
+                          />
+                        </PaginationItem>
+
+                        {Array.from({ length: Math.min(5, totalPages) }).map((_, i) => {
+                          let pageNum: number;
+                          if (totalPages <= 5) pageNum = i;
+                          else if (page < 3) pageNum = i;
+                          else if (page > totalPages - 4) pageNum = totalPages - 5 + i;
+                          else pageNum = page - 2 + i;
+
+                          return (
+                            <PaginationItem key={pageNum}>
+                              <PaginationLink
+                                onClick={() => setPage(pageNum)}
+                                isActive={page === pageNum}
+                                className="cursor-pointer"
+                              >
+                                {pageNum + 1}
+                              </PaginationLink>
+                            </PaginationItem>
+                          );
+                        })}
+
+                        <PaginationItem>
+                          <PaginationNext
+                            onClick={() => setPage((p) => Math.min(totalPages - 1, p + 1))}
+                            className={page >= totalPages - 1 ? 'pointer-events-none opacity-50' : 'cursor-pointer'}
+                          />
+                        </PaginationItem>
+                      </PaginationContent>
+                    </Pagination>
+                  </div>
+                )}
+              </>
+            )}
+          </CardContent>
+        </Card>
+      </div>
+    </AppLayout>
+  );
+}
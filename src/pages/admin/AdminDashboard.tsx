@@ -1,6 +1,7 @@
 import { useState, useEffect } from 'react';
 import { Link } from 'react-router-dom';
 import AppLayout from '@/components/layout/AppLayout';
+import TradingHaltCard from '@/components/admin/TradingHaltCard';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import { Badge } from '@/components/ui/badge';
@@ -31,6 +32,7 @@ import {
   Shield,
   RefreshCw,
   Loader2,
+  ShieldAlert,
 } from 'lucide-react';
 import { cn } from '@/lib/utils';
 import { toast } from 'sonner';
@@ -229,8 +231,10 @@ export default function AdminDashboard() {
           </Card>
         </div>
 
+        <TradingHaltCard />
+
         {/* Admin Quick Links */}
-        <div className="grid gap-4 md:grid-cols-3">
+        <div className="grid gap-4 md:grid-cols-2 lg:grid-cols-4">
           <Link to="/admin/users">
             <Card className="hover:border-primary/50 transition-colors cursor-pointer">
               <CardHeader>
@@ -272,6 +276,20 @@ export default function AdminDashboard() {
               </CardHeader>
             </Card>
           </Link>
+
+          <Link to="/admin/risk-limits">
+            <Card className="hover:border-primary/50 transition-colors cursor-pointer">
+              <CardHeader>
+                <CardTitle className="flex items-center gap-2">
+                  <ShieldAlert className="h-5 w-5 text-primary" />
+                  Risk Limits
+                </CardTitle>
+                <CardDescription>
+                  Default pre-trade limits and per-user overrides
+                </CardDescription>
+              </CardHeader>
+            </Card>
+          </Link>
         </div>
 
         {/* Pending Approvals */}
@@ -0,0 +1,395 @@
+import { useState, useEffect, useMemo } from 'react';
+import { Link } from 'react-router-dom';
+import AppLayout from '@/components/layout/AppLayout';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { ArrowLeft, Loader2, Pencil, Save, Search, ShieldAlert, Trash2 } from 'lucide-react';
+import { toast } from 'sonner';
+import { supabase } from '@/integrations/supabase/client';
+import { useAuth } from '@/contexts/AuthContext';
+import { deleteRiskLimitOverride, fetchRiskLimitRows, RiskLimitsRow, saveRiskLimits } from '@/lib/riskLimitStore';
+import { effectiveRiskLimits, formatRiskLimit, overriddenLimits, riskLimitValues } from '@/lib/riskLimits';
+import { cn } from '@/lib/utils';
+import { TRADING_EXCHANGE_LABELS } from '@/types/exchangeAccount';
+import { EMPTY_RISK_LIMITS, RISK_LIMIT_KEYS, RISK_LIMIT_LABELS, RiskLimitValues } from '@/types/riskLimits';
+import { TRADING_EXCHANGES } from '@/types/trading';
+import type { Database } from '@/integrations/supabase/types';
+
+type Profile = Database['public']['Tables']['profiles']['Row'];
+
+const NUMERIC_LIMITS = [
+  { key: 'max_concurrent_pairs', step: 1 },
+  { key: 'max_leverage', step: 1 },
+  { key: 'max_pair_notional', step: 1000 },
+  { key: 'max_daily_loss', step: 100 },
+] as const;
+
+const parseLimit = (value: string) => {
+  const n = parseFloat(value);
+  return Number.isFinite(n) && n > 0 ? n : null;
+};
+
+/**
+ * Inputs for one set of limits. Blank fields mean unlimited on the defaults
+ * and "use the default" on an override; `inherited` fills the placeholders.
+ */
+function RiskLimitFields({
+  values,
+  onChange,
+  inherited,
+}: {
+  values: RiskLimitValues;
+  onChange: (values: RiskLimitValues) => void;
+  inherited: RiskLimitValues | null;
+}) {
+  const restrictExchanges = values.allowed_exchanges !== null;
+  const placeholder = (key: typeof RISK_LIMIT_KEYS[number]) =>
+    inherited ? `Default: ${formatRiskLimit(key, inherited)}` : 'Unlimited';
+
+  return (
+    <div className="space-y-4">
+      <div className="grid gap-4 md:grid-cols-2">
+        {NUMERIC_LIMITS.map(({ key, step }) => (
+          <div key={key} className="space-y-2">
+            <Label htmlFor={`limit-${key}`}>{RISK_LIMIT_LABELS[key]}</Label>
+            <Input
+              id={`limit-${key}`}
+              type="number"
+              min={0}
+              step={step}
+              placeholder={placeholder(key)}
+              value={values[key] ?? ''}
+              onChange={(e) => onChange({ ...values, [key]: parseLimit(e.target.value) })}
+            />
+          </div>
+        ))}
+      </div>
+      <div className="space-y-3 rounded-lg border p-3">
+        <div className="flex items-center justify-between">
+          <div>
+            <Label htmlFor="limit-restrict-exchanges">Restrict live exchanges</Label>
+            <p className="text-xs text-muted-foreground">
+              {restrictExchanges
+                ? 'Only the checked exchanges can route orders; paper trading is always allowed'
+                : inherited
+                  ? `Uses the default: ${formatRiskLimit('allowed_exchanges', inherited)}`
+                  : 'Any supported exchange'}
+            </p>
+          </div>
+          <Switch
+            id="limit-restrict-exchanges"
+            checked={restrictExchanges}
+            onCheckedChange={(checked) => onChange({ ...values, allowed_exchanges: checked ? [...TRADING_EXCHANGES] : null })}
+          />
+        </div>
+        {restrictExchanges && (
+          <div className="flex flex-wrap gap-4">
+            {TRADING_EXCHANGES.map((exchange) => (
+              <div key={exchange} className="flex items-center gap-2">
+                <Checkbox
+                  id={`limit-exchange-${exchange}`}
+                  checked={values.allowed_exchanges?.includes(exchange) ?? false}
+                  onCheckedChange={(checked) => {
+                    const current = values.allowed_exchanges ?? [];
+                    onChange({
+                      ...values,
+                      allowed_exchanges: checked === true
+                        ? TRADING_EXCHANGES.filter((e) => e === exchange || current.includes(e))
+                        : current.filter((e) => e !== exchange),
+                    });
+                  }}
+                />
+                <Label htmlFor={`limit-exchange-${exchange}`} className="text-sm font-normal">
+                  {TRADING_EXCHANGE_LABELS[exchange]}
+                </Label>
+              </div>
+            ))}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
+
+export default function RiskLimits() {
+  const { user } = useAuth();
+  const [rows, setRows] = useState<RiskLimitsRow[]>([]);
+  const [profiles, setProfiles] = useState<Profile[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [defaults, setDefaults] = useState<RiskLimitValues>(EMPTY_RISK_LIMITS);
+  const [isSaving, setIsSaving] = useState(false);
+  const [searchQuery, setSearchQuery] = useState('');
+  const [editing, setEditing] = useState<{ profile: Profile; values: RiskLimitValues } | null>(null);
+
+  const defaultsRow = rows.find((r) => r.user_id === null) ?? null;
+  const savedDefaults = useMemo(() => riskLimitValues(defaultsRow), [defaultsRow]);
+  const overrides = useMemo(
+    () => new Map(rows.filter((r) => r.user_id !== null).map((r) => [r.user_id as string, r])),
+    [rows]
+  );
+
+  const fetchData = async () => {
+    try {
+      const [limitRows, { data: profileRows, error: profilesError }] = await Promise.all([
+        fetchRiskLimitRows(),
+        supabase.from('profiles').select('*').order('created_at', { ascending: false }),
+      ]);
+      if (profilesError) throw profilesError;
+      setRows(limitRows);
+      setProfiles(profileRows || []);
+      setDefaults(riskLimitValues(limitRows.find((r) => r.user_id === null) ?? null));
+    } catch (error) {
+      if (import.meta.env.DEV) console.error('Error fetching risk limits:', error);
+      toast.error('Failed to load risk limits');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    fetchData();
+  }, []);
+
+  const handleSaveDefaults = async () => {
+    if (!user) return;
+    setIsSaving(true);
+    try {
+      await saveRiskLimits(defaultsRow, null, defaults, user.id);
+      toast.success('Default risk limits saved');
+      fetchData();
+    } catch (error) {
+      if (import.meta.env.DEV) console.error('Error saving risk limits:', error);
+      toast.error('Failed to save default risk limits');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleSaveOverride = async () => {
+    if (!user || !editing) return;
+    setIsSaving(true);
+    try {
+      const existing = overrides.get(editing.profile.user_id) ?? null;
+      if (overriddenLimits(editing.values).length === 0) {
+        // Nothing differs from the defaults any more
+        if (existing) await deleteRiskLimitOverride(existing);
+      } else {
+        await saveRiskLimits(existing, editing.profile.user_id, editing.values, user.id);
+      }
+      toast.success(`Risk limits saved for ${editing.profile.display_name || editing.profile.email}`);
+      setEditing(null);
+      fetchData();
+    } catch (error) {
+      if (import.meta.env.DEV) console.error('Error saving risk limit override:', error);
+      toast.error('Failed to save risk limit override');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleRemoveOverride = async (profile: Profile) => {
+    const existing = overrides.get(profile.user_id);
+    if (!existing) return;
+    try {
+      await deleteRiskLimitOverride(existing);
+      toast.success(`${profile.display_name || profile.email} is back on the default limits`);
+      fetchData();
+    } catch (error) {
+      if (import.meta.env.DEV) console.error('Error removing risk limit override:', error);
+      toast.error('Failed to remove override');
+    }
+  };
+
+  const filteredProfiles = profiles.filter((p) => {
+    const query = searchQuery.toLowerCase();
+    return p.email.toLowerCase().includes(query) || (p.display_name?.toLowerCase().includes(query) ?? false);
+  });
+
+  if (isLoading) {
+    return (
+      <AppLayout>
+        <div className="flex items-center justify-center py-12">
+          <Loader2 className="h-8 w-8 animate-spin text-primary" />
+        </div>
+      </AppLayout>
+    );
+  }
+
+  return (
+    <AppLayout>
+      <div className="space-y-6">
+        <div className="flex items-center gap-4">
+          <Link to="/admin">
+            <Button variant="ghost" size="sm">
+              <ArrowLeft className="mr-2 h-4 w-4" />
+              Back
+            </Button>
+          </Link>
+          <div>
+            <h1 className="text-2xl font-bold tracking-tight">Risk Limits</h1>
+            <p className="text-muted-foreground">
+              Pre-trade limits the database enforces on every execution
+            </p>
+          </div>
+        </div>
+
+        <Card>
+          <CardHeader>
+            <div className="flex items-center justify-between">
+              <div>
+                <CardTitle className="flex items-center gap-2">
+                  <ShieldAlert className="h-5 w-5" />
+                  Platform Defaults
+                </CardTitle>
+                <CardDescription>
+                  Apply to every user without an override. Leave a field blank for no limit.
+                </CardDescription>
+              </div>
+              <Button onClick={handleSaveDefaults} disabled={isSaving}>
+                <Save className="mr-2 h-4 w-4" />
+                {isSaving ? 'Saving...' : 'Save Defaults'}
+              </Button>
+            </div>
+          </CardHeader>
+          <CardContent>
+            <RiskLimitFields values={defaults} onChange={setDefaults} inherited={null} />
+          </CardContent>
+        </Card>
+
+        <Card>
+          <CardHeader>
+            <div className="flex items-center justify-between gap-4">
+              <div>
+                <CardTitle>User Overrides</CardTitle>
+                <CardDescription>
+                  {overrides.size} user{overrides.size === 1 ? '' : 's'} with their own limits; bold values differ from the defaults
+                </CardDescription>
+              </div>
+              <div className="relative w-64">
+                <Search className="absolute left-3 top-1/2 -translate-y-1/2 h-4 w-4 text-muted-foreground" />
+                <Input
+                  placeholder="Search users..."
+                  className="pl-9"
+                  value={searchQuery}
+                  onChange={(e) => setSearchQuery(e.target.value)}
+                />
+              </div>
+            </div>
+          </CardHeader>
+          <CardContent>
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>User</TableHead>
+                  {RISK_LIMIT_KEYS.map((key) => (
+                    <TableHead key={key}>{RISK_LIMIT_LABELS[key]}</TableHead>
+                  ))}
+                  <TableHead className="w-[100px]"></TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {filteredProfiles.length === 0 ? (
+                  <TableRow>
+                    <TableCell colSpan={RISK_LIMIT_KEYS.length + 2} className="text-center py-8 text-muted-foreground">
+                      No users found
+                    </TableCell>
+                  </TableRow>
+                ) : (
+                  filteredProfiles.map((profile) => {
+                    const overrideRow = overrides.get(profile.user_id) ?? null;
+                    const override = overrideRow ? riskLimitValues(overrideRow) : null;
+                    const effective = effectiveRiskLimits(savedDefaults, override);
+                    const custom = overriddenLimits(override);
+                    return (
+                      <TableRow key={profile.id}>
+                        <TableCell>
+                          <div className="font-medium">{profile.display_name || 'No name'}</div>
+                          <div className="text-sm text-muted-foreground">{profile.email}</div>
+                        </TableCell>
+                        {RISK_LIMIT_KEYS.map((key) => (
+                          <TableCell
+                            key={key}
+                            className={cn('font-mono text-sm', custom.includes(key) ? 'font-semibold' : 'text-muted-foreground')}
+                          >
+                            {formatRiskLimit(key, effective)}
+                          </TableCell>
+                        ))}
+                        <TableCell>
+                          <div className="flex items-center gap-1">
+                            <Button
+                              variant="ghost"
+                              size="icon"
+                              onClick={() => setEditing({ profile, values: override ?? EMPTY_RISK_LIMITS })}
+                            >
+                              <Pencil className="h-4 w-4" />
+                            </Button>
+                            {overrideRow && (
+                              <Button variant="ghost" size="icon" onClick={() => handleRemoveOverride(profile)}>
+                                <Trash2 className="h-4 w-4" />
+                              </Button>
+                            )}
+                          </div>
+                        </TableCell>
+                      </TableRow>
+                    );
+                  })
+                )}
+              </TableBody>
+            </Table>
+          </CardContent>
+        </Card>
+      </div>
+
+      <Dialog open={!!editing} onOpenChange={(open) => !open && setEditing(null)}>
+        <DialogContent className="max-w-2xl">
+          <DialogHeader>
+            <DialogTitle>Risk Limits for {editing?.profile.display_name || editing?.profile.email}</DialogTitle>
+            <DialogDescription>
+              Blank fields use the platform default.
+              {editing && overrides.has(editing.profile.user_id) && (
+                <Badge variant="secondary" className="ml-2">Has override</Badge>
+              )}
+            </DialogDescription>
+          </DialogHeader>
+          {editing && (
+            <RiskLimitFields
+              values={editing.values}
+              onChange={(values) => setEditing({ ...editing, values })}
+              inherited={savedDefaults}
+            />
+          )}
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setEditing(null)} disabled={isSaving}>
+              Cancel
+            </Button>
+            <Button onClick={handleSaveOverride} disabled={isSaving}>
+              {isSaving && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+              Save Override
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </AppLayout>
+  );
+}
@@ -0,0 +1,110 @@
+import { describe, it, expect } from "vitest";
+import { BacktestConfig, runPairBacktest } from "@/lib/backtest";
+import { kalmanHedgeRatio } from "@/lib/kalman";
+import { DEFAULT_KALMAN_PARAMS } from "@/types/marketData";
+import type { AlignedCandle, Candle } from "@/types/marketData";
+
+const bar = (time: number, price: number): Candle => ({
+  time,
+  open: price,
+  high: price,
+  low: price,
+  close: price,
+  volume: 1,
+});
+
+// Leg A oscillates around leg B, so the ratio mean-reverts on a fixed cycle
+function oscillatingPair(n: number): AlignedCandle[] {
+  return Array.from({ length: n }, (_, i) => {
+    const time = i * 900;
+    const a = 100 * (1 + 0.05 * Math.sin((2 * Math.PI * i) / 40));
+    return { time, a: bar(time, a), b: bar(time, 100) };
+  });
+}
+
+const baseConfig: BacktestConfig = {
+  construction: { mode: "ratio" },
+  zScoreLength: 40,
+  entryZ: 1.2,
+  exitZ: 0.2,
+  stopZ: null,
+  maxHoldingBars: null,
+  rsi: null,
+  feeRate: 0,
+  slippageRate: 0,
+  periodsPerYear: 35040,
+};
+
+describe("runPairBacktest", () => {
+  it("profits from a mean-reverting ratio and fills on the next bar", () => {
+    const result = runPairBacktest(oscillatingPair(400), baseConfig);
+
+    expect(result.trades.length).toBeGreaterThan(4);
+    expect(result.stats.hitRate).toBe(1);
+    expect(result.stats.totalReturn).toBeGreaterThan(0);
+    expect(result.equity).toHaveLength(400);
+
+    const first = result.trades[0];
+    expect(first.barsHeld).toBeGreaterThan(0);
+    expect(Math.abs(first.entryZ)).toBeGreaterThan(baseConfig.entryZ);
+    expect(["long_a_short_b", "short_a_long_b"]).toContain(first.direction);
+  });
+
+  it("charges fees and slippage on both legs at entry and exit", () => {
+    const free = runPairBacktest(oscillatingPair(400), baseConfig);
+    const costly = runPairBacktest(oscillatingPair(400), { ...baseConfig, feeRate: 0.001, slippageRate: 0.002 });
+
+    expect(costly.trades[0].costs).toBeCloseTo(0.006);
+    expect(costly.trades[0].netReturn).toBeCloseTo(free.trades[0].grossReturn - 0.006);
+    expect(costly.stats.totalReturn).toBeLessThan(free.stats.totalReturn);
+  });
+
+  it("sizes spread legs at the dollar hedge ratio, whatever the leg prices", () => {
+    // B is flat at a tenth of A's price, so only A's leg moves
+    const aligned = oscillatingPair(400).map((x) => ({ ...x, b: bar(x.time, 10) }));
+    const result = runPairBacktest(aligned, { ...baseConfig, construction: { mode: "spread", beta: 1 } });
+    const priceA = (time: unknown) => aligned.find((x) => x.time === time)!.a.close;
+
+    expect(result.trades.length).toBeGreaterThan(0);
+    for (const trade of result.trades) {
+      const legReturn = priceA(trade.exitTime) / priceA(trade.entryTime) - 1;
+      const signed = trade.direction === "long_a_short_b" ? legReturn : -legReturn;
+      // |β| = 1 dollar of B per dollar of A puts half the gross notional on A
+      expect(trade.grossReturn).toBeCloseTo(0.5 * signed);
+    }
+  });
+
+  it("sizes Kalman legs with the hedge ratio known when the signal fired", () => {
+    const aligned = oscillatingPair(400).map((x) => ({ ...x, b: bar(x.time, 10) }));
+    const result = runPairBacktest(aligned, { ...baseConfig, construction: { mode: "kalman", ...DEFAULT_KALMAN_PARAMS } });
+    const { beta } = kalmanHedgeRatio(
+      aligned.map((x) => Math.log(x.a.close)),
+      aligned.map((x) => Math.log(x.b.close)),
+      DEFAULT_KALMAN_PARAMS
+    );
+    const indexOf = (time: unknown) => aligned.findIndex((x) => x.time === time);
+
+    expect(result.trades.length).toBeGreaterThan(0);
+    for (const trade of result.trades) {
+      const entry = indexOf(trade.entryTime);
+      const legReturn = aligned[indexOf(trade.exitTime)].a.close / aligned[entry].a.close - 1;
+      const signed = trade.direction === "long_a_short_b" ? legReturn : -legReturn;
+      // The entry fills at bar `entry`'s open, before that bar's close updates β
+      expect(trade.grossReturn).toBeCloseTo(signed / (1 + Math.abs(beta[entry - 1])), 10);
+    }
+  });
+
+  it("applies the time stop", () => {
+    const result = runPairBacktest(oscillatingPair(400), { ...baseConfig, maxHoldingBars: 2 });
+
+    expect(result.trades.every((t) => t.barsHeld <= 2 || t.exitReason === "end_of_data")).toBe(true);
+    expect(result.trades.some((t) => t.exitReason === "time_stop")).toBe(true);
+  });
+
+  it("does not trade during the z-score warm-up", () => {
+    const result = runPairBacktest(oscillatingPair(30), baseConfig);
+
+    expect(result.trades).toHaveLength(0);
+    expect(result.stats.totalReturn).toBe(0);
+  });
+});
@@ -0,0 +1,86 @@
+import { describe, it, expect } from "vitest";
+import { adfTest, engleGrangerTest, mackinnonCriticalValues, mackinnonPValue, olsHedgeRatio } from "@/lib/cointegration";
+
+// Deterministic standard normal draws (mulberry32 + Box-Muller)
+function normals(n: number, seed: number): number[] {
+  let s = seed >>> 0;
+  const uniform = () => {
+    s = (s + 0x6d2b79f5) >>> 0;
+    let t = s;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+  return Array.from({ length: n }, () => {
+    const u = Math.max(uniform(), 1e-12);
+    return Math.sqrt(-2 * Math.log(u)) * Math.cos(2 * Math.PI * uniform());
+  });
+}
+
+const randomWalk = (shocks: number[], start = 0) => {
+  let level = start;
+  return shocks.map((e) => (level += e));
+};
+
+describe("mackinnonPValue", () => {
+  it("returns ~5% at the asymptotic 5% critical values", () => {
+    expect(mackinnonPValue(-2.86, "c", 1)).toBeCloseTo(0.05, 2);
+    expect(mackinnonPValue(-3.41, "ct", 1)).toBeCloseTo(0.05, 2);
+    expect(mackinnonPValue(-3.34, "c", 2)).toBeCloseTo(0.05, 2);
+  });
+
+  it("clamps outside the tabulated range", () => {
+    expect(mackinnonPValue(5, "c", 1)).toBe(1);
+    expect(mackinnonPValue(-30, "c", 1)).toBe(0);
+  });
+
+  it("converges to the asymptotic critical values", () => {
+    expect(mackinnonCriticalValues("c", 1, 1e9)["5%"]).toBeCloseTo(-2.86154, 4);
+  });
+});
+
+describe("adfTest", () => {
+  it("does not reject a unit root for a random walk", () => {
+    const result = adfTest(randomWalk(normals(500, 1)));
+    expect(result.pValue).toBeGreaterThan(0.1);
+    expect(result.usedLag).toBeGreaterThanOrEqual(0);
+  });
+
+  it("rejects a unit root for a stationary AR(1)", () => {
+    const shocks = normals(500, 2);
+    const series: number[] = [];
+    shocks.forEach((e, i) => series.push((i > 0 ? 0.5 * series[i - 1] : 0) + e));
+
+    const aic = adfTest(series, { autolag: "aic" });
+    const bic = adfTest(series, { autolag: "bic" });
+    expect(aic.pValue).toBeLessThan(0.01);
+    expect(bic.statistic).toBeLessThan(bic.criticalValues["1%"]);
+    expect(bic.usedLag).toBeLessThanOrEqual(aic.usedLag);
+  });
+
+  it("uses the fixed lag when autolag is disabled", () => {
+    const result = adfTest(randomWalk(normals(200, 3)), { maxLag: 4, autolag: null });
+    expect(result.usedLag).toBe(4);
+    expect(result.nobs).toBe(199 - 4);
+    expect(result.icBest).toBeNull();
+  });
+});
+
+describe("engleGrangerTest", () => {
+  it("recovers the hedge ratio of a cointegrated pair", () => {
+    const x = randomWalk(normals(600, 4), 100);
+    const noise = normals(600, 5);
+    const y = x.map((xi, i) => 3 + 1.5 * xi + 0.5 * noise[i]);
+
+    expect(olsHedgeRatio(y, x).beta).toBeCloseTo(1.5, 1);
+    const result = engleGrangerTest(y, x);
+    expect(result.pValue).toBeLessThan(0.01);
+    expect(result.statistic).toBeLessThan(result.criticalValues["1%"]);
+  });
+
+  it("does not find cointegration between independent random walks", () => {
+    const x = randomWalk(normals(600, 6), 100);
+    const y = randomWalk(normals(600, 7), 100);
+    expect(engleGrangerTest(y, x).pValue).toBeGreaterThan(0.05);
+  });
+});
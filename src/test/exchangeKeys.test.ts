@@ -0,0 +1,94 @@
+import { describe, it, expect } from 'vitest';
+import { apiKeyHint, validateExchangeKeyInput } from '@/lib/exchangeKeys';
+import {
+  parseBinanceKeyRestrictions,
+  parseBybitKeyInfo,
+  parseKeyPermissions,
+  parseOkxAccountConfig,
+  permissionList,
+  tradeOnlyViolation,
+} from '../../supabase/functions/_shared/exchangeKeys';
+
+describe('exchange key permissions', () => {
+  it('reads Bybit scopes and treats read-only keys as unable to trade', () => {
+    const tradeKey = parseBybitKeyInfo({
+      readOnly: 0,
+      permissions: { ContractTrade: ['Order', 'Position'], Wallet: [], Spot: [] },
+    });
+    expect(permissionList(tradeKey)).toEqual(['read', 'trade']);
+    expect(tradeOnlyViolation(tradeKey)).toBeNull();
+
+    const readOnly = parseBybitKeyInfo({ readOnly: 1, permissions: { ContractTrade: ['Order'] } });
+    expect(readOnly.trade).toBe(false);
+    expect(tradeOnlyViolation(readOnly)).toMatch(/cannot trade/);
+  });
+
+  it('rejects withdrawal-enabled keys on every exchange', () => {
+    const keys = [
+      parseKeyPermissions('bybit', { readOnly: 0, permissions: { ContractTrade: ['Order'], Wallet: ['Withdraw'] } }),
+      parseKeyPermissions('binance', { enableReading: true, enableFutures: true, enableWithdrawals: true }),
+      parseKeyPermissions('okx', { perm: 'read_only,trade,withdraw' }),
+    ];
+    for (const key of keys) {
+      expect(key.trade).toBe(true);
+      expect(key.withdraw).toBe(true);
+      expect(tradeOnlyViolation(key)).toMatch(/withdrawal/);
+    }
+  });
+
+  it('rejects transfer-enabled keys', () => {
+    const keys = [
+      parseKeyPermissions('bybit', { readOnly: 0, permissions: { ContractTrade: ['Order'], Wallet: ['AccountTransfer'] } }),
+      parseKeyPermissions('binance', {
+        enableReading: true,
+        enableFutures: true,
+        enableWithdrawals: false,
+        permitsUniversalTransfer: true,
+      }),
+    ];
+    for (const key of keys) {
+      expect(permissionList(key)).toEqual(['read', 'trade', 'transfer']);
+      expect(tradeOnlyViolation(key)).toMatch(/transfer permission/);
+    }
+  });
+
+  it('accepts trade-only Binance and OKX keys', () => {
+    const binance = parseBinanceKeyRestrictions({
+      enableReading: true,
+      enableFutures: true,
+      enableWithdrawals: false,
+      enableInternalTransfer: false,
+      permitsUniversalTransfer: false,
+    });
+    expect(permissionList(binance)).toEqual(['read', 'trade']);
+    expect(tradeOnlyViolation(binance)).toBeNull();
+
+    const okx = parseOkxAccountConfig({ perm: 'read_only, trade' });
+    expect(permissionList(okx)).toEqual(['read', 'trade']);
+    expect(tradeOnlyViolation(okx)).toBeNull();
+  });
+
+  it('throws on payloads that are not a permission description', () => {
+    expect(() => parseBybitKeyInfo({ readOnly: 0 })).toThrow(/Bybit/);
+    expect(() => parseBinanceKeyRestrictions({ code: -2015, msg: 'Invalid API-key' })).toThrow(/Binance/);
+    expect(() => parseOkxAccountConfig(undefined)).toThrow(/OKX/);
+  });
+});
+
+describe('exchange key input', () => {
+  const base = { exchange: 'bybit' as const, apiKey: 'AbCdEfGh1234', apiSecret: 'secret-value-xyz' };
+
+  it('accepts a well-formed key and hints only its last four characters', () => {
+    expect(validateExchangeKeyInput(base)).toBeNull();
+    expect(apiKeyHint(' AbCdEfGh1234 ')).toBe('1234');
+  });
+
+  it('flags missing or malformed fields', () => {
+    expect(validateExchangeKeyInput({ ...base, apiKey: ' ' })).toMatch(/key is required/);
+    expect(validateExchangeKeyInput({ ...base, apiSecret: '' })).toMatch(/secret is required/);
+    expect(validateExchangeKeyInput({ ...base, apiKey: 'abc def ghi' })).toMatch(/spaces/);
+    expect(validateExchangeKeyInput({ ...base, apiSecret: base.apiKey })).toMatch(/differ/);
+    expect(validateExchangeKeyInput({ ...base, exchange: 'okx' })).toMatch(/passphrase/);
+    expect(validateExchangeKeyInput({ ...base, exchange: 'okx', passphrase: 'pass' })).toBeNull();
+  });
+});
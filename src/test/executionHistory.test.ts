@@ -0,0 +1,146 @@
+import { describe, it, expect } from 'vitest';
+import type { Json } from '@/integrations/supabase/types';
+import {
+  executionExportRecord,
+  executionPnl,
+  formatHoldingTime,
+  summarizeExecutions,
+  toCsv,
+} from '@/lib/executionHistory';
+import type { ExecutionClose, ExecutionFill, ExecutionOrderDetails } from '@/types/execution';
+
+const entryFills: ExecutionFill[] = [
+  { symbol: 'ETHUSDT', side: 'buy', quantity: 2, price: 2000, fee: 2 },
+  { symbol: 'BTCUSDT', side: 'sell', quantity: 0.1, price: 40000, fee: 2 },
+];
+
+function details(overrides: Partial<ExecutionOrderDetails> = {}): ExecutionOrderDetails {
+  return {
+    kind: 'pair',
+    venue: 'paper',
+    signal_id: 'sig-1',
+    direction: 'long_a_short_b',
+    hedge_ratio: 1,
+    margin_mode: 'isolated',
+    slippage_tolerance_percent: 0.5,
+    gross_notional: 8000,
+    imbalance: 0,
+    legs: [
+      { symbol: 'ETHUSDT', side: 'buy', order_type: 'market', quantity: 2, reference_price: 2000, worst_price: 2010, notional: 4000, leverage: 3, margin: 1333 },
+      { symbol: 'BTCUSDT', side: 'sell', order_type: 'market', quantity: 0.1, reference_price: 40000, worst_price: 39800, notional: 4000, leverage: 3, margin: 1333 },
+    ],
+    preview_expires_at: '2026-03-01T00:01:00.000Z',
+    ...overrides,
+  };
+}
+
+function closed(ethExit: number, btcExit: number, closedAt = '2026-03-01T06:00:00.000Z'): ExecutionClose {
+  return {
+    closed_at: closedAt,
+    reason: 'exit_threshold',
+    fills: [
+      { symbol: 'ETHUSDT', side: 'sell', quantity: 2, price: ethExit, fee: 2 },
+      { symbol: 'BTCUSDT', side: 'buy', quantity: 0.1, price: btcExit, fee: 2 },
+    ],
+  };
+}
+
+const row = (orderDetails: ExecutionOrderDetails | null, status = 'success') => ({
+  id: 'exec-1',
+  created_at: '2026-03-01T00:00:00.000Z',
+  updated_at: '2026-03-01T00:00:00.000Z',
+  user_id: 'user-1',
+  signal_id: 'sig-1',
+  status,
+  error_message: null,
+  estimated_margin: 2666,
+  leverage_long: 3,
+  leverage_short: 3,
+  margin_mode: 'isolated',
+  position_size: 8000,
+  slippage_tolerance: 0.5,
+  order_details: orderDetails as unknown as Json,
+});
+
+describe('executionPnl', () => {
+  it('is null for executions that never filled', () => {
+    expect(executionPnl(null)).toBeNull();
+    expect(executionPnl(details())).toBeNull();
+  });
+
+  it('reports an open pair with entry fees and no realized PnL', () => {
+    const pnl = executionPnl(details({ fills: entryFills, filled_at: '2026-03-01T00:00:00.000Z' }));
+    expect(pnl?.realizedPnl).toBeNull();
+    expect(pnl?.fees).toBe(4);
+    expect(pnl?.entryNotional).toBe(8000);
+  });
+
+  it('nets both legs and all fees once closed', () => {
+    // ETH +100 × 2 = +200, BTC short 40000 → 40500 = -50; fees 8
+    const pnl = executionPnl(details({
+      fills: entryFills,
+      filled_at: '2026-03-01T00:00:00.000Z',
+      close: closed(2100, 40500),
+    }));
+    expect(pnl?.realizedPnl).toBeCloseTo(142);
+    expect(pnl?.fees).toBe(8);
+    expect(pnl?.returnPercent).toBeCloseTo(1.775);
+    expect(pnl?.holdingMs).toBe(6 * 60 * 60 * 1000);
+    expect(pnl?.closeReason).toBe('exit_threshold');
+  });
+});
+
+describe('summarizeExecutions', () => {
+  it('computes win rate, total PnL and average holding time over closed trades', () => {
+    const stats = summarizeExecutions([
+      row(details({ fills: entryFills, filled_at: '2026-03-01T00:00:00.000Z', close: closed(2100, 40000) })),
+      row(details({ fills: entryFills, filled_at: '2026-03-01T00:00:00.000Z', close: closed(1950, 40000, '2026-03-01T02:00:00.000Z') })),
+      row(details({ fills: entryFills, filled_at: '2026-03-01T00:00:00.000Z' })),
+      row(details(), 'cancelled'),
+    ]);
+    expect(stats.executions).toBe(4);
+    expect(stats.closed).toBe(2);
+    expect(stats.open).toBe(1);
+    expect(stats.wins).toBe(1);
+    expect(stats.winRate).toBe(0.5);
+    // +200 - 8 and -100 - 8
+    expect(stats.totalPnl).toBeCloseTo(84);
+    expect(stats.avgHoldingMs).toBe(4 * 60 * 60 * 1000);
+  });
+
+  it('leaves win rate and holding time empty with nothing closed', () => {
+    const stats = summarizeExecutions([row(null, 'failed')]);
+    expect(stats.winRate).toBeNull();
+    expect(stats.avgHoldingMs).toBeNull();
+    expect(stats.totalPnl).toBe(0);
+  });
+});
+
+describe('export', () => {
+  it('flattens an execution and quotes CSV cells that need it', () => {
+    const record = executionExportRecord({
+      ...row(details({ fills: entryFills, filled_at: '2026-03-01T00:00:00.000Z', close: closed(2100, 40500) })),
+      error_message: 'Partial fill: 1, "ETH"',
+    });
+    expect(record.symbol_a).toBe('ETHUSDT');
+    expect(record.realized_pnl).toBe(142);
+    expect(record.holding_hours).toBe(6);
+
+    const csv = toCsv([record]);
+    const [header, line] = csv.trim().split('\n');
+    expect(header.split(',')).toContain('realized_pnl');
+    expect(line).toContain('"Partial fill: 1, ""ETH"""');
+    expect(toCsv([])).toBe('');
+  });
+
+  it('keeps formula-like text from running in a spreadsheet', () => {
+    const csv = toCsv([{ symbol: '=HYPERLINK("x")', error_message: '@SUM(A1)', reason: '-2+3', realized_pnl: -12.5 }]);
+    expect(csv.trim().split('\n')[1]).toBe('"\'=HYPERLINK(""x"")","\'@SUM(A1)","\'-2+3",-12.5');
+  });
+
+  it('formats holding times compactly', () => {
+    expect(formatHoldingTime(42 * 60000)).toBe('42m');
+    expect(formatHoldingTime(5 * 3600000 + 12 * 60000)).toBe('5h 12m');
+    expect(formatHoldingTime(3 * 86400000 + 4 * 3600000)).toBe('3d 4h');
+  });
+});
@@ -0,0 +1,103 @@
+import { describe, it, expect } from "vitest";
+import {
+  buildExecutionPreview,
+  canTransition,
+  isPreviewExpired,
+  parseOrderDetails,
+  previewProblems,
+  worstPrice,
+} from "@/lib/executions";
+import { computePairSizing } from "@/lib/positionSizing";
+import type { InstrumentSpec } from "@/types/marketData";
+import { DEFAULT_SIZING_SETTINGS } from "@/types/sizing";
+
+const spec = (symbol: string, qtyStep: number, tickSize: number): InstrumentSpec => ({
+  symbol,
+  qtyStep,
+  minQty: qtyStep,
+  tickSize,
+  minNotional: null,
+});
+
+const sizing = computePairSizing({
+  equity: 20000,
+  settings: { ...DEFAULT_SIZING_SETTINGS, mode: "fixed_notional", value: 10000, leverageLong: 2, leverageShort: 4 },
+  direction: "short_a_long_b",
+  beta: 1,
+  symbolA: "ETHUSDT",
+  symbolB: "SOLUSDT",
+  priceA: 2000,
+  priceB: 100,
+  specA: spec("ETHUSDT", 0.01, 0.01),
+  specB: spec("SOLUSDT", 0.1, 0.01),
+});
+
+describe("executions", () => {
+  it("only allows lifecycle moves from the current status", () => {
+    expect(canTransition("preview", "confirmed")).toBe(true);
+    expect(canTransition("preview", "success")).toBe(false);
+    expect(canTransition("confirmed", "pending")).toBe(true);
+    expect(canTransition("cancelled", "confirmed")).toBe(false);
+    expect(canTransition("unknown", "cancelled")).toBe(false);
+  });
+
+  it("bounds fills by the slippage tolerance on the tick grid", () => {
+    expect(worstPrice("buy", 100, 0.5, 0.01)).toBe(100.5);
+    expect(worstPrice("sell", 2000, 0.25, 0.1)).toBe(1995);
+    expect(worstPrice("buy", 3, 1, null)).toBeCloseTo(3.03, 10);
+  });
+
+  it("builds a preview row with both leg orders", () => {
+    const now = Date.parse("2026-02-01T00:00:00Z");
+    const row = buildExecutionPreview({
+      userId: "user-1",
+      signalId: "signal-1",
+      venue: "paper",
+      direction: "short_a_long_b",
+      hedgeRatio: 1,
+      sizing,
+      marginMode: "isolated",
+      orderType: "market",
+      slippagePercent: 0.5,
+      now,
+    });
+
+    expect(row).toMatchObject({
+      status: "preview",
+      user_id: "user-1",
+      signal_id: "signal-1",
+      leverage_long: 2,
+      leverage_short: 4,
+      position_size: 10000,
+      estimated_margin: 5000 / 4 + 5000 / 2,
+      slippage_tolerance: 0.5,
+    });
+
+    const details = parseOrderDetails(row.order_details ?? null);
+    expect(details?.legs.map((l) => [l.symbol, l.side, l.quantity, l.worst_price])).toEqual([
+      ["ETHUSDT", "sell", 2.5, 1990],
+      ["SOLUSDT", "buy", 50, 100.5],
+    ]);
+    expect(isPreviewExpired(details!, now + 59_000)).toBe(false);
+    expect(isPreviewExpired(details!, now + 60_000)).toBe(true);
+    expect(parseOrderDetails({ note: "manual" })).toBeNull();
+  });
+
+  it("lists what blocks a preview", () => {
+    expect(previewProblems(sizing)).toEqual([]);
+
+    const tiny = computePairSizing({
+      equity: 100,
+      settings: { ...DEFAULT_SIZING_SETTINGS, mode: "fixed_notional", value: 1000, leverageLong: 1, leverageShort: 1 },
+      direction: "long_a_short_b",
+      beta: 1,
+      symbolA: "BTCUSDT",
+      symbolB: "ETHUSDT",
+      priceA: 50000,
+      priceB: 2000,
+      specA: spec("BTCUSDT", 0.1, 0.1),
+      specB: spec("ETHUSDT", 0.01, 0.01),
+    });
+    expect(previewProblems(tiny)).toEqual(["BTCUSDT rounds to zero quantity", "Required margin exceeds equity"]);
+  });
+});
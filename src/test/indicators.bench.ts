@@ -0,0 +1,45 @@
+import { bench, describe } from "vitest";
+import { Time } from "lightweight-charts";
+import { computeRollingMeanStd, computeRSI, computeZScore, IndicatorDataPoint } from "@/lib/indicators";
+import { naiveRollingMeanStd, naiveRSI, naiveZScore } from "./referenceIndicators";
+
+// ~6 months of 15m bars
+const BARS = 17280;
+const LENGTH = 250;
+
+const prices: IndicatorDataPoint[] = (() => {
+  let s = 1;
+  let price = 100;
+  return Array.from({ length: BARS }, (_, i) => {
+    s = (s * 16807) % 2147483647;
+    price += (s / 2147483647 - 0.5) * 2;
+    return { time: (i * 900) as Time, value: price };
+  });
+})();
+
+describe(`z-score, ${BARS} bars, length ${LENGTH}`, () => {
+  bench("streaming", () => {
+    computeZScore(prices, LENGTH);
+  });
+  bench("window re-scan (reference)", () => {
+    naiveZScore(prices, LENGTH);
+  });
+});
+
+describe(`rolling mean/std, ${BARS} bars, length ${LENGTH}`, () => {
+  bench("streaming", () => {
+    computeRollingMeanStd(prices, LENGTH);
+  });
+  bench("window re-scan (reference)", () => {
+    naiveRollingMeanStd(prices, LENGTH);
+  });
+});
+
+describe.each([14, 100])(`RSI, ${BARS} bars, length %i`, (length) => {
+  bench("streaming", () => {
+    computeRSI(prices, length);
+  });
+  bench("window re-scan (reference)", () => {
+    naiveRSI(prices, length);
+  });
+});
@@ -0,0 +1,177 @@
+import { describe, it, expect } from "vitest";
+import { Time } from "lightweight-charts";
+import {
+  computeATR,
+  computeEMA,
+  computePercentB,
+  computeRollingCorrelation,
+  computeRollingMeanStd,
+  computeRSI,
+  computeSMA,
+  computeZScore,
+  createZScoreStream,
+  IndicatorDataPoint,
+  OHLCDataPoint,
+} from "@/lib/indicators";
+import { createRollingCovariance, createRollingMinMax, createRollingMoments } from "@/lib/rollingStats";
+import { linearRegression } from "@/lib/statistics";
+import { naiveRollingMeanStd, naiveRSI, naiveZScore } from "./referenceIndicators";
+
+// Deterministic random walk around 100
+function series(n: number, seed = 1): IndicatorDataPoint[] {
+  let s = seed;
+  let price = 100;
+  return Array.from({ length: n }, (_, i) => {
+    s = (s * 16807) % 2147483647;
+    price += (s / 2147483647 - 0.5) * 2;
+    return { time: (i * 900) as Time, value: price };
+  });
+}
+
+// Rolling updates and full re-scans round differently, so compare to a tolerance
+const expectMatches = (actual: IndicatorDataPoint[], expected: IndicatorDataPoint[]) => {
+  expect(actual).toHaveLength(expected.length);
+  actual.forEach((p, i) => {
+    expect(p.time).toBe(expected[i].time);
+    expect(p.value).toBeCloseTo(expected[i].value, 9);
+  });
+};
+
+describe("streaming indicators match the reference implementations", () => {
+  const prices = series(3000);
+
+  it.each([1, 2, 14, 250, 2999, 5000])("z-score and rolling mean/std, length %i", (length) => {
+    expectMatches(computeZScore(prices, length), naiveZScore(prices, length));
+
+    const rolling = computeRollingMeanStd(prices, length);
+    const reference = naiveRollingMeanStd(prices, length);
+    expectMatches(rolling.mean, reference.mean);
+    expectMatches(rolling.std, reference.std);
+  });
+
+  it.each([1, 14, 100])("RSI, length %i", (length) => {
+    expectMatches(computeRSI(prices, length), naiveRSI(prices, length));
+  });
+
+  it("appending bars one at a time gives the batch result", () => {
+    const stream = createZScoreStream(50);
+    const live = prices.map((p) => stream.push(p));
+    expect(live).toEqual(computeZScore(prices, 50));
+  });
+
+  it("reports zero dispersion for a flat window after volatile bars", () => {
+    const flat = [...series(300), ...Array.from({ length: 60 }, (_, i) => ({ time: (300 + i) as Time, value: 0.1 }))];
+    const z = computeZScore(flat, 50);
+    expect(z[z.length - 1].value).toBe(0);
+  });
+});
+
+describe("additional indicators", () => {
+  const prices = series(600, 3);
+  const values = prices.map((p) => p.value);
+
+  it("Wilder RSI seeds with the simple average and then smooths recursively", () => {
+    const length = 14;
+    const rsi = computeRSI(prices, length, "wilder");
+    const changes = values.slice(1).map((v, i) => v - values[i]);
+    let avgGain = 0;
+    let avgLoss = 0;
+    changes.forEach((c, i) => {
+      const gain = Math.max(c, 0);
+      const loss = Math.max(-c, 0);
+      if (i < length) {
+        avgGain += gain / length;
+        avgLoss += loss / length;
+      } else {
+        avgGain = (avgGain * (length - 1) + gain) / length;
+        avgLoss = (avgLoss * (length - 1) + loss) / length;
+      }
+      const expected = i < length - 1 ? 50 : 100 - 100 / (1 + avgGain / avgLoss);
+      expect(rsi[i + 1].value).toBeCloseTo(expected, 9);
+    });
+    expect(rsi[0].value).toBe(50);
+    // Same warm-up as the simple mode, different values afterwards
+    expect(rsi[length].value).toBeCloseTo(computeRSI(prices, length)[length].value, 9);
+    expect(rsi[200].value).not.toBeCloseTo(computeRSI(prices, length)[200].value, 3);
+  });
+
+  it("SMA averages the window and EMA follows its recursion", () => {
+    const sma = computeSMA(prices, 20);
+    expect(sma[4].value).toBeCloseTo(values.slice(0, 5).reduce((a, b) => a + b) / 5, 9);
+    expect(sma[300].value).toBeCloseTo(values.slice(281, 301).reduce((a, b) => a + b) / 20, 9);
+
+    const ema = computeEMA(prices, 9);
+    expect(ema[0].value).toBe(values[0]);
+    expect(ema[1].value).toBeCloseTo(values[0] + 0.2 * (values[1] - values[0]), 12);
+  });
+
+  it("Bollinger %B places the bands at 0 and 1", () => {
+    const percentB = computePercentB(prices, 20, 2);
+    const { mean, std } = computeRollingMeanStd(prices, 20);
+    expect(percentB[10].value).toBe(0.5);
+    for (const i of [19, 250, 599]) {
+      const lower = mean[i].value - 2 * std[i].value;
+      const upper = mean[i].value + 2 * std[i].value;
+      expect(percentB[i].value).toBeCloseTo((values[i] - lower) / (upper - lower), 9);
+    }
+  });
+
+  it("ATR uses true ranges across gaps with Wilder smoothing", () => {
+    const bars: OHLCDataPoint[] = Array.from({ length: 40 }, (_, i) => ({
+      time: i as Time,
+      open: 10,
+      high: 11,
+      low: 10,
+      close: 10.5,
+    }));
+    // A gap up: the true range reaches back to the previous close
+    bars.push({ time: 40 as Time, open: 13, high: 13.5, low: 13, close: 13.2 });
+    const atr = computeATR(bars, 14);
+    expect(atr[39].value).toBeCloseTo(1, 12);
+    expect(atr[40].value).toBeCloseTo((13 + 3) / 14, 12);
+  });
+
+  it("rolling correlation and beta match a windowed regression", () => {
+    const x = series(400, 11).map((p, i, all) => ({ time: p.time, value: i === 0 ? 0 : p.value - all[i - 1].value }));
+    const y = x.map((p, i) => ({ time: p.time, value: 0.8 * p.value + Math.sin(i) * 0.3 }));
+    const length = 60;
+    const { correlation, beta } = computeRollingCorrelation(y, x, length);
+
+    expect(beta[length - 2].value).toBe(0);
+    for (const i of [length - 1, 200, 399]) {
+      const xs = x.slice(i - length + 1, i + 1).map((p) => p.value);
+      const ys = y.slice(i - length + 1, i + 1).map((p) => p.value);
+      const fit = linearRegression(ys, xs);
+      expect(beta[i].value).toBeCloseTo(fit.slope, 9);
+      expect(correlation[i].value).toBeCloseTo(Math.sign(fit.slope) * Math.sqrt(fit.rSquared), 9);
+    }
+  });
+});
+
+describe("rolling accumulators", () => {
+  it("track min and max with monotonic deques", () => {
+    const values = series(500, 7).map((p) => p.value);
+    const minMax = createRollingMinMax(20);
+    values.forEach((v, i) => {
+      const window = values.slice(Math.max(0, i - 19), i + 1);
+      const { min, max, count } = minMax.push(v);
+      expect(count).toBe(window.length);
+      expect(min).toBe(Math.min(...window));
+      expect(max).toBe(Math.max(...window));
+    });
+  });
+
+  it("keep rolling moments accurate over long series", () => {
+    const moments = createRollingMoments(10);
+    let last = moments.push(0);
+    for (let i = 1; i < 100000; i++) last = moments.push(1e6 + (i % 10));
+    expect(last.mean).toBeCloseTo(1e6 + 4.5, 9);
+    expect(last.variance).toBeCloseTo(8.25, 9);
+  });
+
+  it("reject non-positive window lengths", () => {
+    expect(() => createRollingMoments(0)).toThrow();
+    expect(() => createRollingMinMax(0)).toThrow();
+    expect(() => createRollingCovariance(0)).toThrow();
+  });
+});
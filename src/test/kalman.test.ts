@@ -0,0 +1,57 @@
+import { describe, it, expect } from "vitest";
+import { kalmanHedgeRatio } from "@/lib/kalman";
+import { buildPairOHLC } from "@/lib/marketData";
+import type { AlignedCandle, Candle } from "@/types/marketData";
+
+const bar = (time: number, price: number): Candle => ({
+  time,
+  open: price,
+  high: price,
+  low: price,
+  close: price,
+  volume: 1,
+});
+
+describe("kalmanHedgeRatio", () => {
+  it("tracks a hedge ratio that shifts mid-sample", () => {
+    const n = 600;
+    const x = Array.from({ length: n }, (_, i) => 2 + Math.sin(i / 15) + i / 200);
+    const y = x.map((xi, i) => (i < n / 2 ? 0.5 : 1.5) * xi + 0.2);
+
+    const result = kalmanHedgeRatio(y, x, { delta: 1e-3, observationVariance: 1e-4 });
+
+    expect(result.beta[n / 2 - 1]).toBeCloseTo(0.5, 1);
+    expect(result.beta[n - 1]).toBeCloseTo(1.5, 1);
+    expect(Math.abs(result.spread[n - 1])).toBeLessThan(0.05);
+  });
+
+  it("uses only prior information for each bar", () => {
+    const x = [1, 2, 3, 4, 5];
+    const y = [2, 4, 6, 8, 10];
+    const full = kalmanHedgeRatio(y, x);
+    const truncated = kalmanHedgeRatio(y.slice(0, 3), x.slice(0, 3));
+
+    expect(full.beta.slice(0, 3)).toEqual(truncated.beta);
+    expect(full.spread[0]).toBe(0);
+  });
+
+  it("rejects invalid noise settings", () => {
+    expect(() => kalmanHedgeRatio([1, 2], [1, 2], { delta: 1, observationVariance: 1e-3 })).toThrow();
+    expect(() => kalmanHedgeRatio([1, 2], [1, 2], { delta: 1e-4, observationVariance: 0 })).toThrow();
+  });
+});
+
+describe("buildPairOHLC kalman mode", () => {
+  it("builds a log spread from the filtered hedge ratio", () => {
+    const aligned: AlignedCandle[] = Array.from({ length: 50 }, (_, i) => {
+      const b = 100 * Math.exp(0.01 * Math.sin(i));
+      return { time: i * 900, a: bar(i * 900, Math.pow(b, 1.2) * 3), b: bar(i * 900, b) };
+    });
+    const ohlc = buildPairOHLC(aligned, { mode: "kalman", delta: 1e-4, observationVariance: 1e-3 });
+
+    expect(ohlc).toHaveLength(50);
+    expect(ohlc[0].close).toBe(0);
+    expect(ohlc.every((d) => Math.abs(d.close) < 0.05)).toBe(true);
+    expect(ohlc.every((d) => d.high >= d.low)).toBe(true);
+  });
+});
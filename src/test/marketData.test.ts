@@ -0,0 +1,156 @@
+import { describe, it, expect } from "vitest";
+import {
+  alignCandles,
+  buildPairOHLC,
+  createLocalAdapter,
+  fetchCandles,
+  parseBinanceInstrument,
+  parseBinanceKlines,
+  parseBybitInstrument,
+  parseBybitKlines,
+  parseOkxInstrument,
+  parseOkxKlines,
+  resampleCandles,
+  toOkxInstrument,
+} from "@/lib/marketData";
+import type { Candle, MarketDataAdapter } from "@/types/marketData";
+
+const candle = (time: number, close: number): Candle => ({
+  time,
+  open: close,
+  high: close * 1.01,
+  low: close * 0.99,
+  close,
+  volume: 1,
+});
+
+describe("kline parsers", () => {
+  it("normalizes bybit, binance and okx payloads to ascending candles", () => {
+    const bybit = parseBybitKlines({
+      retCode: 0,
+      result: { list: [["1700000900000", "2", "3", "1", "2.5", "10", "25"], ["1700000000000", "1", "2", "0.5", "2", "5", "10"]] },
+    });
+    const binance = parseBinanceKlines([[1700000000000, "1", "2", "0.5", "2", "5", 1700000899999]]);
+    const okx = parseOkxKlines({ code: "0", data: [["1700000000000", "1", "2", "0.5", "2", "5", "5", "10", "1"]] });
+
+    expect(bybit.map((c) => c.time)).toEqual([1700000000, 1700000900]);
+    expect(bybit[1]).toEqual({ time: 1700000900, open: 2, high: 3, low: 1, close: 2.5, volume: 10 });
+    expect(binance[0].close).toBe(2);
+    expect(okx[0].low).toBe(0.5);
+  });
+
+  it("surfaces exchange error payloads", () => {
+    expect(() => parseBybitKlines({ retCode: 10001, retMsg: "params error" })).toThrow("params error");
+    expect(() => parseOkxKlines({ code: "51001", msg: "Instrument ID does not exist" })).toThrow("Instrument");
+  });
+
+  it("normalizes instrument lot and tick sizes to base units", () => {
+    const bybit = parseBybitInstrument(
+      {
+        retCode: 0,
+        result: { list: [{ lotSizeFilter: { qtyStep: "0.001", minOrderQty: "0.001", minNotionalValue: "5" }, priceFilter: { tickSize: "0.10" } }] },
+      },
+      "BTCUSDT"
+    );
+    const binance = parseBinanceInstrument(
+      {
+        symbols: [
+          {
+            symbol: "ETHUSDT",
+            filters: [
+              { filterType: "PRICE_FILTER", tickSize: "0.01" },
+              { filterType: "LOT_SIZE", stepSize: "0.001", minQty: "0.001" },
+              { filterType: "MIN_NOTIONAL", notional: "20" },
+            ],
+          },
+        ],
+      },
+      "ETHUSDT"
+    );
+    const okx = parseOkxInstrument({ code: "0", data: [{ lotSz: "1", minSz: "1", tickSz: "0.1", ctVal: "0.01" }] }, "BTCUSDT");
+
+    expect(bybit).toEqual({ symbol: "BTCUSDT", qtyStep: 0.001, minQty: 0.001, tickSize: 0.1, minNotional: 5 });
+    expect(binance).toMatchObject({ qtyStep: 0.001, tickSize: 0.01, minNotional: 20 });
+    expect(okx).toMatchObject({ qtyStep: 0.01, minQty: 0.01, tickSize: 0.1, minNotional: null });
+    expect(() => parseBinanceInstrument({ symbols: [] }, "XYZUSDT")).toThrow("no instrument");
+  });
+
+  it("maps linear symbols to okx swap instruments", () => {
+    expect(toOkxInstrument("BTCUSDT")).toBe("BTC-USDT-SWAP");
+    expect(toOkxInstrument("ETH-USDT-SWAP")).toBe("ETH-USDT-SWAP");
+  });
+});
+
+describe("pair construction", () => {
+  it("aligns legs on timestamp and drops unmatched bars", () => {
+    const a = [candle(0, 10), candle(900, 11), candle(1800, 12)];
+    const b = [candle(0, 5), candle(1800, 6)];
+
+    const aligned = alignCandles(a, b);
+    expect(aligned.map((x) => x.time)).toEqual([0, 1800]);
+
+    const ratio = buildPairOHLC(aligned);
+    expect(ratio[0].close).toBeCloseTo(2);
+    expect(ratio[1].close).toBeCloseTo(2);
+    expect(ratio[0].high).toBeGreaterThanOrEqual(ratio[0].close);
+
+    const spread = buildPairOHLC(aligned, { mode: "spread", beta: 1 });
+    expect(spread[1].close).toBeCloseTo(Math.log(2));
+    expect(buildPairOHLC(aligned, { mode: "spread", beta: 2 })[1].close).toBeCloseTo(Math.log(12) - 2 * Math.log(6));
+  });
+
+  it("bounds the pair's high and low by the cross extremes of the legs", () => {
+    const aligned = alignCandles([candle(0, 10)], [candle(0, 5)]);
+
+    const [ratio] = buildPairOHLC(aligned);
+    expect(ratio.high).toBeCloseTo(10.1 / 4.95);
+    expect(ratio.low).toBeCloseTo(9.9 / 5.05);
+
+    const [spread] = buildPairOHLC(aligned, { mode: "spread", beta: 1 });
+    expect(spread.high).toBeCloseTo(Math.log(10.1) - Math.log(4.95));
+    expect(spread.low).toBeCloseTo(Math.log(9.9) - Math.log(5.05));
+
+    const [inverse] = buildPairOHLC(aligned, { mode: "spread", beta: -1 });
+    expect(inverse.high).toBeCloseTo(Math.log(10.1) + Math.log(5.05));
+    expect(inverse.low).toBeCloseTo(Math.log(9.9) + Math.log(4.95));
+  });
+
+  it("resamples 15m bars into hourly bars", () => {
+    const bars = [0, 900, 1800, 2700, 3600].map((t, i) => candle(t, 100 + i));
+    const hourly = resampleCandles(bars, 900, "1h");
+
+    expect(hourly).toHaveLength(2);
+    expect(hourly[0]).toMatchObject({ time: 0, open: 100, close: 103, volume: 4 });
+    expect(() => resampleCandles(bars, 900, "5m")).toThrow();
+  });
+});
+
+describe("fetchCandles", () => {
+  it("pages backwards until the requested history is collected", async () => {
+    const history = Array.from({ length: 25 }, (_, i) => candle(i * 900, 100 + i));
+    const requests: number[] = [];
+    const adapter: MarketDataAdapter = {
+      exchange: "local",
+      maxPageSize: 10,
+      fetchPage: async ({ limit, endTime }) => {
+        requests.push(endTime);
+        return history.filter((c) => c.time <= endTime).slice(-limit);
+      },
+    };
+
+    const result = await fetchCandles(adapter, { symbol: "X", interval: "15m", limit: 22, endTime: 24 * 900 });
+
+    expect(result).toHaveLength(22);
+    expect(result[0].time).toBe(3 * 900);
+    expect(result[21].time).toBe(24 * 900);
+    expect(requests).toHaveLength(3);
+  });
+
+  it("serves recorded fixtures through the local adapter", async () => {
+    const adapter = createLocalAdapter(async () => ({ BTCUSDT: [candle(0, 1), candle(900, 2)] }));
+    const result = await fetchCandles(adapter, { symbol: "btcusdt", interval: "15m", limit: 5 });
+
+    expect(result.map((c) => c.close)).toEqual([1, 2]);
+    await expect(fetchCandles(adapter, { symbol: "DOGEUSDT", interval: "15m", limit: 5 })).rejects.toThrow();
+  });
+});
@@ -0,0 +1,81 @@
+import { describe, it, expect } from "vitest";
+import { hurstDFA, hurstRescaledRange, varianceRatioTest } from "@/lib/meanReversion";
+
+// Deterministic standard normal draws (mulberry32 + Box-Muller)
+function normals(n: number, seed: number): number[] {
+  let s = seed >>> 0;
+  const uniform = () => {
+    s = (s + 0x6d2b79f5) >>> 0;
+    let t = s;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+  return Array.from({ length: n }, () => {
+    const u = Math.max(uniform(), 1e-12);
+    return Math.sqrt(-2 * Math.log(u)) * Math.cos(2 * Math.PI * uniform());
+  });
+}
+
+const cumulate = (increments: number[]) => {
+  let level = 0;
+  return [0, ...increments.map((e) => (level += e))];
+};
+
+// Level series whose increments follow an AR(1) with coefficient phi
+const arIncrements = (n: number, phi: number, seed: number) => {
+  const shocks = normals(n, seed);
+  const increments: number[] = [];
+  shocks.forEach((e, i) => increments.push((i > 0 ? phi * increments[i - 1] : 0) + e));
+  return cumulate(increments);
+};
+
+// Stationary AR(1) level: strongly mean-reverting
+const meanReverting = (n: number, seed: number) => {
+  const shocks = normals(n, seed);
+  const series: number[] = [];
+  shocks.forEach((e, i) => series.push((i > 0 ? 0.8 * series[i - 1] : 0) + e));
+  return series;
+};
+
+describe("Hurst exponent", () => {
+  const randomWalk = cumulate(normals(4000, 21));
+
+  it.each([
+    ["R/S", hurstRescaledRange],
+    ["DFA", hurstDFA],
+  ])("%s is near 0.5 for a random walk and ordered by persistence", (_, estimator) => {
+    const walk = estimator(randomWalk);
+    expect(walk.hurst).toBeGreaterThan(0.4);
+    expect(walk.hurst).toBeLessThan(0.62);
+    expect(walk.rSquared).toBeGreaterThan(0.9);
+
+    expect(estimator(meanReverting(4000, 22)).hurst).toBeLessThan(walk.hurst - 0.1);
+    expect(estimator(arIncrements(4000, 0.5, 23)).hurst).toBeGreaterThan(walk.hurst);
+  });
+
+  it("reports one scaling point per window size", () => {
+    const result = hurstDFA(randomWalk, { minWindow: 10, maxWindow: 400, windowCount: 5 });
+    expect(result.points.map((p) => p.window)).toEqual([10, 25, 63, 159, 400]);
+  });
+});
+
+describe("varianceRatioTest", () => {
+  it("does not reject the random walk", () => {
+    const result = varianceRatioTest(cumulate(normals(4000, 31)), 4);
+    expect(Math.abs(result.ratio - 1)).toBeLessThan(0.1);
+    expect(result.pValue).toBeGreaterThan(0.05);
+  });
+
+  it("detects mean reversion with a ratio below one", () => {
+    const result = varianceRatioTest(meanReverting(4000, 32), 8);
+    expect(result.ratio).toBeLessThan(0.6);
+    expect(result.zRobust).toBeLessThan(-3);
+    expect(result.zStat).toBeLessThan(-3);
+    expect(result.pValue).toBeLessThan(0.01);
+  });
+
+  it("rejects too-short samples", () => {
+    expect(() => varianceRatioTest([1, 2, 3], 2)).toThrow();
+  });
+});
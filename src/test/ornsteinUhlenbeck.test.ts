@@ -0,0 +1,83 @@
+import { describe, it, expect } from "vitest";
+import { fitOUAR1, fitOUMLE, ouExpectedPath } from "@/lib/ornsteinUhlenbeck";
+
+// Deterministic standard normal draws (mulberry32 + Box-Muller)
+function normals(n: number, seed: number): number[] {
+  let s = seed >>> 0;
+  const uniform = () => {
+    s = (s + 0x6d2b79f5) >>> 0;
+    let t = s;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+  return Array.from({ length: n }, () => {
+    const u = Math.max(uniform(), 1e-12);
+    return Math.sqrt(-2 * Math.log(u)) * Math.cos(2 * Math.PI * uniform());
+  });
+}
+
+// Exact OU discretisation with Δt = 1
+function simulateOU(n: number, theta: number, mu: number, sigma: number, seed: number): number[] {
+  const decay = Math.exp(-theta);
+  const sd = Math.sqrt((sigma * sigma * (1 - decay * decay)) / (2 * theta));
+  const shocks = normals(n, seed);
+  const series = [mu];
+  for (let i = 1; i < n; i++) series.push(mu + (series[i - 1] - mu) * decay + sd * shocks[i]);
+  return series;
+}
+
+const TRUE = { theta: 0.05, mu: 1, sigma: 0.02 };
+
+describe("OU estimation", () => {
+  const series = simulateOU(5000, TRUE.theta, TRUE.mu, TRUE.sigma, 11);
+
+  it.each([
+    ["AR(1)", fitOUAR1],
+    ["MLE", fitOUMLE],
+  ])("%s recovers theta, mu and sigma within the confidence intervals", (_, fit) => {
+    const result = fit(series, "15m");
+    expect(result).not.toBeNull();
+    const { theta, mu, sigma } = result!;
+
+    expect(theta.lower!).toBeLessThan(TRUE.theta);
+    expect(theta.upper!).toBeGreaterThan(TRUE.theta);
+    expect(mu.lower!).toBeLessThan(TRUE.mu);
+    expect(mu.upper!).toBeGreaterThan(TRUE.mu);
+    expect(sigma.value).toBeCloseTo(TRUE.sigma, 2);
+  });
+
+  it("converts the half-life to bars and hours", () => {
+    const result = fitOUMLE(series, "15m")!;
+    expect(result.halfLifeBars.value).toBeCloseTo(Math.LN2 / result.theta.value, 10);
+    expect(result.halfLifeHours.value).toBeCloseTo(result.halfLifeBars.value / 4, 10);
+    expect(result.thetaPerHour).toBeCloseTo(result.theta.value * 4, 10);
+    expect(result.halfLifeBars.lower!).toBeLessThan(result.halfLifeBars.upper!);
+  });
+
+  it("agrees between AR(1) and MLE point estimates", () => {
+    const ar1 = fitOUAR1(series, "1h")!;
+    const mle = fitOUMLE(series, "1h")!;
+    expect(mle.theta.value).toBeCloseTo(ar1.theta.value, 3);
+    expect(mle.mu.value).toBeCloseTo(ar1.mu.value, 3);
+  });
+
+  it("returns null for an explosive series", () => {
+    const explosive = Array.from({ length: 200 }, (_, i) => Math.pow(1.01, i));
+    expect(fitOUAR1(explosive, "15m")).toBeNull();
+    expect(fitOUMLE(explosive, "15m")).toBeNull();
+  });
+});
+
+describe("ouExpectedPath", () => {
+  it("decays toward mu and widens the band with the horizon", () => {
+    const fit = fitOUAR1(simulateOU(2000, 0.1, 0, 0.05, 3), "15m")!;
+    const path = ouExpectedPath(fit, 1, 100);
+
+    expect(path).toHaveLength(101);
+    expect(path[0].mean).toBe(1);
+    expect(path[0].upper - path[0].lower).toBe(0);
+    expect(Math.abs(path[100].mean - fit.mu.value)).toBeLessThan(1e-3);
+    expect(path[50].upper - path[50].lower).toBeGreaterThan(path[5].upper - path[5].lower);
+  });
+});
@@ -0,0 +1,185 @@
+import { describe, it, expect } from "vitest";
+import { createMockExchange } from "@/lib/mockExchange";
+import { executePairOrders, withRateLimitRetry } from "@/lib/pairOrders";
+import { isTradingError, tradingError } from "@/lib/trading";
+import type { ExecutionOrderDetails } from "@/types/execution";
+
+const details: ExecutionOrderDetails = {
+  kind: "pair",
+  venue: "exchange",
+  signal_id: "signal-1",
+  direction: "short_a_long_b",
+  hedge_ratio: 1,
+  margin_mode: "isolated",
+  slippage_tolerance_percent: 0.5,
+  gross_notional: 10000,
+  imbalance: 0,
+  legs: [
+    { symbol: "ETHUSDT", side: "sell", order_type: "market", quantity: 2.5, reference_price: 2000, worst_price: 1990, notional: 5000, leverage: 3, margin: 1666.67 },
+    { symbol: "SOLUSDT", side: "buy", order_type: "market", quantity: 50, reference_price: 100, worst_price: 100.5, notional: 5000, leverage: 3, margin: 1666.67 },
+  ],
+  preview_expires_at: "2026-02-01T00:01:00Z",
+};
+
+const prices = { ETHUSDT: 2000, SOLUSDT: 100 };
+const noWait = { sleep: async () => {} };
+
+describe("pairOrders", () => {
+  it("opens both legs as protected IOC orders", async () => {
+    const exchange = createMockExchange({ prices });
+    const outcome = await executePairOrders(exchange, details, { ...noWait, clientOrderPrefix: "exec1" });
+
+    expect(outcome.status).toBe("filled");
+    expect(outcome.legs.map((l) => [l.order?.clientOrderId, l.order?.filledQuantity])).toEqual([
+      ["exec1a", 2.5],
+      ["exec1b", 50],
+    ]);
+    const positions = await exchange.getPositions();
+    expect(positions.map((p) => [p.symbol, p.side, p.size, p.leverage, p.marginMode])).toEqual([
+      ["ETHUSDT", "short", 2.5, 3, "isolated"],
+      ["SOLUSDT", "long", 50, 3, "isolated"],
+    ]);
+  });
+
+  it("fails without trading when the first leg is rejected", async () => {
+    const exchange = createMockExchange({ prices, rejectSymbols: ["ETHUSDT"] });
+    const outcome = await executePairOrders(exchange, details, noWait);
+
+    expect(outcome.status).toBe("failed");
+    expect(outcome.error).toBe("ETHUSDT: Order rejected for ETHUSDT");
+    expect(exchange.orders()).toHaveLength(0);
+  });
+
+  it("unwinds the first leg when the second can't be opened", async () => {
+    const exchange = createMockExchange({ prices });
+    // SOL ran past the worst price, so the IOC leg finds nothing to fill
+    exchange.setPrice("SOLUSDT", 101);
+    const outcome = await executePairOrders(exchange, details, noWait);
+
+    expect(outcome.status).toBe("failed");
+    expect(outcome.legs[1]).toMatchObject({ error: "Not filled (cancelled)" });
+    expect(outcome.unwind).toMatchObject({ symbol: "ETHUSDT", side: "buy", filledQuantity: 2.5 });
+    expect(outcome.error).toBe("SOLUSDT: Not filled (cancelled); ETHUSDT unwound");
+    expect(await exchange.getPositions()).toEqual([]);
+  });
+
+  it("reports the leg left open when the unwind fails", async () => {
+    const exchange = createMockExchange({ prices });
+    exchange.setPrice("SOLUSDT", 101);
+    const adapter = {
+      ...exchange,
+      submitOrder: (order: Parameters<typeof exchange.submitOrder>[0]) =>
+        order.reduceOnly ? Promise.reject(new Error("Exchange unavailable")) : exchange.submitOrder(order),
+    };
+    const outcome = await executePairOrders(adapter, details, noWait);
+
+    expect(outcome.status).toBe("unwind_failed");
+    expect(outcome.unwind).toBeNull();
+    expect(outcome.legs[0].order).toMatchObject({ symbol: "ETHUSDT", filledQuantity: 2.5 });
+    expect(outcome.error).toBe("SOLUSDT: Not filled (cancelled); unwinding ETHUSDT failed: Exchange unavailable");
+  });
+
+  it("trims the fuller leg back to the hedge ratio after a partial fill", async () => {
+    const exchange = createMockExchange({ prices, fillRatios: { SOLUSDT: 0.6 } });
+    const outcome = await executePairOrders(exchange, details, noWait);
+
+    expect(outcome.status).toBe("partial");
+    expect(outcome.legs[1].order).toMatchObject({ status: "cancelled", filledQuantity: 30 });
+    expect(outcome.unwind).toMatchObject({ symbol: "ETHUSDT", side: "buy", filledQuantity: 1 });
+    expect(outcome.error).toBe("Partial fill: 2.5/2.5 ETHUSDT, 30/50 SOLUSDT; trimmed 1 ETHUSDT to the hedge ratio");
+    const positions = await exchange.getPositions();
+    expect(positions.map((p) => [p.symbol, p.size])).toEqual([
+      ["ETHUSDT", 1.5],
+      ["SOLUSDT", 30],
+    ]);
+  });
+
+  it("reports the unhedged excess when a partial fill can't be trimmed", async () => {
+    const exchange = createMockExchange({ prices, fillRatios: { SOLUSDT: 0.6 } });
+    const adapter = {
+      ...exchange,
+      submitOrder: (order: Parameters<typeof exchange.submitOrder>[0]) =>
+        order.reduceOnly ? Promise.reject(new Error("Exchange unavailable")) : exchange.submitOrder(order),
+    };
+    const outcome = await executePairOrders(adapter, details, noWait);
+
+    expect(outcome.status).toBe("unwind_failed");
+    expect(outcome.error).toBe(
+      "Partial fill: 2.5/2.5 ETHUSDT, 30/50 SOLUSDT; trimming ETHUSDT failed: Exchange unavailable"
+    );
+  });
+
+  it("retries a rate-limited read without sending the order again", async () => {
+    const exchange = createMockExchange({ prices });
+    exchange.failNext("getOrderByClientId", "rate_limited");
+    const outcome = await executePairOrders(exchange, details, { ...noWait, clientOrderPrefix: "exec1" });
+
+    expect(outcome.status).toBe("filled");
+    expect(exchange.orders().map((o) => o.clientOrderId)).toEqual(["exec1a", "exec1b"]);
+  });
+
+  it("finds an order whose submit was lost in transit by its client id", async () => {
+    const exchange = createMockExchange({ prices });
+    const adapter = {
+      ...exchange,
+      submitOrder: async (order: Parameters<typeof exchange.submitOrder>[0]) => {
+        await exchange.submitOrder(order);
+        throw tradingError("mock", "network", "Connection reset");
+      },
+    };
+    const outcome = await executePairOrders(adapter, details, { ...noWait, clientOrderPrefix: "exec1" });
+
+    expect(outcome.status).toBe("filled");
+    expect(outcome.legs.map((l) => l.order?.filledQuantity)).toEqual([2.5, 50]);
+    expect(exchange.orders()).toHaveLength(2);
+  });
+
+  it("flags a placed leg whose fill can't be read", async () => {
+    const exchange = createMockExchange({ prices });
+    for (let i = 0; i < 4; i++) exchange.failNext("getOrderByClientId", "network", "Timed out");
+    const outcome = await executePairOrders(exchange, details, { ...noWait, clientOrderPrefix: "exec1" });
+
+    expect(outcome.status).toBe("unwind_failed");
+    expect(outcome.error).toBe("ETHUSDT: Placed, but its fill could not be read: Timed out");
+    expect(exchange.orders()).toHaveLength(1);
+  });
+
+  it("waits out rate limits and gives up after the retry budget", async () => {
+    let t = 0;
+    const waits: number[] = [];
+    const exchange = createMockExchange({ prices, rateLimit: { requests: 2, windowMs: 1000 }, now: () => t });
+    const sleep = async (ms: number) => {
+      waits.push(ms);
+      t += ms;
+    };
+
+    const outcome = await executePairOrders(exchange, details, { sleep });
+    expect(outcome.status).toBe("filled");
+    // Two leverage calls per leg, then a submit and a read per leg: eight calls at two a second
+    expect(waits).toEqual([1000, 1000, 1000]);
+
+    const stuck = createMockExchange({ prices });
+    for (let i = 0; i < 3; i++) stuck.failNext("getBalances", "rate_limited");
+    const error = await withRateLimitRetry(() => stuck.getBalances(), { maxRetries: 2, sleep }).catch((e) => e);
+    expect(isTradingError(error) && error.kind).toBe("rate_limited");
+    expect(stuck.requestCount()).toBe(3);
+  });
+
+  it("stops before ordering when leverage can't be set", async () => {
+    const exchange = createMockExchange({ prices });
+    exchange.failNext("setLeverage", "auth", "Key lacks trade permission");
+    const outcome = await executePairOrders(exchange, details, noWait);
+
+    expect(outcome).toMatchObject({ status: "failed", error: "Could not set isolated 3× on ETHUSDT: Key lacks trade permission" });
+    expect(exchange.orders()).toHaveLength(0);
+  });
+
+  it("rejects orders the account can't margin", async () => {
+    const exchange = createMockExchange({ prices, balance: 1000 });
+    const outcome = await executePairOrders(exchange, details, noWait);
+
+    expect(outcome.status).toBe("failed");
+    expect(outcome.error).toBe("ETHUSDT: Insufficient available balance");
+    expect((await exchange.getBalances())[0]).toEqual({ asset: "USDT", total: 1000, available: 1000 });
+  });
+});
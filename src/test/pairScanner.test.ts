@@ -0,0 +1,111 @@
+import { describe, it, expect } from "vitest";
+import { compareScanResults, enumeratePairs, parseSymbolList, scanPair } from "@/lib/pairScanner";
+import type { Candle } from "@/types/marketData";
+import { DEFAULT_SCAN_THRESHOLDS, PairScanResult } from "@/types/scanner";
+
+// Deterministic standard normal draws (mulberry32 + Box-Muller)
+function normals(n: number, seed: number): number[] {
+  let s = seed >>> 0;
+  const uniform = () => {
+    s = (s + 0x6d2b79f5) >>> 0;
+    let t = s;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+  return Array.from({ length: n }, () => {
+    const u = Math.max(uniform(), 1e-12);
+    return Math.sqrt(-2 * Math.log(u)) * Math.cos(2 * Math.PI * uniform());
+  });
+}
+
+const START = 1767225600;
+
+// 15m candles from a log-price path; OHLC detail doesn't matter to the scan
+const toCandles = (logPrices: number[], offset = 0): Candle[] =>
+  logPrices.map((p, i) => {
+    const close = Math.exp(p);
+    return { time: START + (i + offset) * 900, open: close, high: close, low: close, close, volume: 1 };
+  });
+
+function logWalk(n: number, seed: number, sigma = 0.01, start = Math.log(100)): number[] {
+  let level = start;
+  return normals(n, seed).map((e) => (level += sigma * e));
+}
+
+// ln A = ln B + OU spread with φ = 0.9 per bar (half-life ≈ 6.6 bars)
+function cointegratedLeg(logB: number[], seed: number): number[] {
+  let spread = 0;
+  return normals(logB.length, seed).map((e, i) => {
+    spread = 0.9 * spread + 0.002 * e;
+    return logB[i] + Math.log(2) + spread;
+  });
+}
+
+const result = (overrides: Partial<PairScanResult>): PairScanResult => ({
+  symbolA: "A",
+  symbolB: "B",
+  bars: 1000,
+  correlation: 0.9,
+  cointegrationPValue: 0.01,
+  hedgeRatio: 1,
+  ouThetaPerHour: 0.1,
+  halfLifeHours: 5,
+  hurst: 0.3,
+  failures: [],
+  ...overrides,
+});
+
+describe("pair scanner", () => {
+  it("parses pasted symbol lists", () => {
+    expect(parseSymbolList(" btcusdt, ETHUSDT\nsolusdt;; ethusdt ")).toEqual(["BTCUSDT", "ETHUSDT", "SOLUSDT"]);
+    expect(parseSymbolList("")).toEqual([]);
+  });
+
+  it("enumerates each unordered pair once", () => {
+    const pairs = enumeratePairs(["A", "B", "C", "D"]);
+    expect(pairs).toHaveLength(6);
+    expect(pairs[0]).toEqual(["A", "B"]);
+    expect(pairs[5]).toEqual(["C", "D"]);
+  });
+
+  it("passes a cointegrated, mean-reverting pair", () => {
+    const logB = logWalk(1000, 1);
+    const r = scanPair("A", "B", toCandles(cointegratedLeg(logB, 2)), toCandles(logB), "15m", DEFAULT_SCAN_THRESHOLDS, 200);
+
+    expect(r.bars).toBe(1000);
+    expect(r.failures).toEqual([]);
+    expect(r.correlation).toBeGreaterThan(0.9);
+    expect(r.hedgeRatio).toBeCloseTo(1, 1);
+    expect(r.halfLifeHours).toBeGreaterThan(1);
+    expect(r.halfLifeHours).toBeLessThan(3);
+  });
+
+  it("fails independent random walks on correlation and cointegration", () => {
+    const r = scanPair(
+      "A", "B", toCandles(logWalk(1000, 11)), toCandles(logWalk(1000, 12)), "15m", DEFAULT_SCAN_THRESHOLDS, 200
+    );
+    expect(r.failures).toContain("correlation");
+    expect(r.failures).toContain("cointegration");
+  });
+
+  it("reports pairs with too little overlap as untestable", () => {
+    const logB = logWalk(300, 5);
+    const r = scanPair("A", "B", toCandles(logB), toCandles(logB, 250), "15m", DEFAULT_SCAN_THRESHOLDS, 200);
+    expect(r.bars).toBe(50);
+    expect(r.failures).toEqual(["data"]);
+    expect(r.cointegrationPValue).toBeNull();
+  });
+
+  it("ranks passing pairs first, then by failures and p-value, untestable last", () => {
+    const ranked = [
+      result({ symbolA: "untestable", failures: ["data"], cointegrationPValue: null }),
+      result({ symbolA: "two", failures: ["hurst", "correlation"] }),
+      result({ symbolA: "weak", cointegrationPValue: 0.04 }),
+      result({ symbolA: "one", failures: ["hurst"], cointegrationPValue: 0.001 }),
+      result({ symbolA: "strong", cointegrationPValue: 0.001 }),
+    ].sort(compareScanResults);
+
+    expect(ranked.map((r) => r.symbolA)).toEqual(["strong", "weak", "one", "two", "untestable"]);
+  });
+});
@@ -0,0 +1,157 @@
+import { describe, it, expect } from "vitest";
+import {
+  buildPaperPosition,
+  closePaperPosition,
+  markPaperPosition,
+  paperExitReason,
+  paperSettings,
+  parseFills,
+  simulateFill,
+  spreadStatsBefore,
+  spreadZ,
+} from "@/lib/paperTrading";
+import type { Database } from "@/integrations/supabase/types";
+import type { ExecutionOrderDetails } from "@/types/execution";
+import type { AlignedCandle } from "@/types/marketData";
+import { DEFAULT_PAPER_SETTINGS, PaperSettings } from "@/types/paper";
+
+type PaperPositionRow = Database["public"]["Tables"]["paper_positions"]["Row"];
+
+const settings: PaperSettings = { ...DEFAULT_PAPER_SETTINGS, slippagePercent: 0.1, feePercent: 0.05 };
+
+const details: ExecutionOrderDetails = {
+  kind: "pair",
+  venue: "paper",
+  signal_id: "signal-1",
+  direction: "long_a_short_b",
+  hedge_ratio: 1,
+  margin_mode: "isolated",
+  slippage_tolerance_percent: 0.5,
+  gross_notional: 2000,
+  imbalance: 0,
+  legs: [
+    { symbol: "AAA", side: "buy", order_type: "market", quantity: 10, reference_price: 100, worst_price: 100.5, notional: 1000, leverage: 2, margin: 500 },
+    { symbol: "BBB", side: "sell", order_type: "market", quantity: 20, reference_price: 50, worst_price: 49.75, notional: 1000, leverage: 4, margin: 250 },
+  ],
+  preview_expires_at: "2026-02-01T00:01:00Z",
+};
+
+const stats = { mean: Math.log(2), std: 0.01 };
+const openedAt = Date.parse("2026-02-01T00:00:00Z");
+
+function openPosition(overrides: Partial<PaperPositionRow> = {}): PaperPositionRow {
+  const insert = buildPaperPosition({
+    userId: "user-1",
+    executionId: "exec-1",
+    details,
+    priceA: 100,
+    priceB: 50,
+    stats,
+    settings,
+    now: openedAt,
+  });
+  return {
+    id: "pos-1",
+    close_reason: null,
+    close_z: null,
+    closed_at: null,
+    created_at: insert.opened_at!,
+    updated_at: insert.opened_at!,
+    exit_fees: null,
+    exit_fills: null,
+    realized_pnl: null,
+    ...insert,
+    entry_fees: insert.entry_fees!,
+    execution_id: insert.execution_id!,
+    signal_id: insert.signal_id!,
+    status: "open",
+    opened_at: insert.opened_at!,
+    stop_z: insert.stop_z ?? null,
+    max_hold_hours: insert.max_hold_hours ?? null,
+    ...overrides,
+  };
+}
+
+function candle(time: number, close: number) {
+  return { time, open: close, high: close, low: close, close, volume: 1 };
+}
+
+describe("paperTrading", () => {
+  it("reads paper settings with defaults and disabled stops", () => {
+    expect(paperSettings(null)).toEqual(DEFAULT_PAPER_SETTINGS);
+    const row = { paper_slippage_percent: 0.2, paper_fee_percent: 0.04, zscore_exit_threshold: 0.3, paper_stop_zscore: null, paper_max_hold_hours: 0 };
+    expect(paperSettings(row as Database["public"]["Tables"]["user_settings"]["Row"])).toEqual({
+      slippagePercent: 0.2,
+      feePercent: 0.04,
+      exitZ: 0.3,
+      stopZ: null,
+      maxHoldHours: null,
+    });
+  });
+
+  it("fills against the trader with fees on notional", () => {
+    const buy = simulateFill({ symbol: "AAA", side: "buy", quantity: 10 }, 100, settings);
+    expect(buy.price).toBeCloseTo(100.1, 10);
+    expect(buy.notional).toBeCloseTo(1001, 10);
+    expect(buy.fee).toBeCloseTo(0.5005, 10);
+    expect(simulateFill({ symbol: "BBB", side: "sell", quantity: 20 }, 50, settings).price).toBeCloseTo(49.95, 10);
+  });
+
+  it("baselines the spread only on bars before the fill", () => {
+    const aligned: AlignedCandle[] = [];
+    for (let i = 0; i < 120; i++) {
+      const a = 100 * Math.exp(0.01 * Math.sin(i));
+      aligned.push({ time: i * 60, a: candle(i * 60, a), b: candle(i * 60, 50) });
+    }
+    const spike = { time: 120 * 60, a: candle(120 * 60, 500), b: candle(120 * 60, 50) };
+    const before = spreadStatsBefore(aligned, 1, 120 * 60, 400, 100);
+    expect(spreadStatsBefore([...aligned, spike], 1, 120 * 60, 400, 100)).toEqual(before);
+    expect(spreadStatsBefore(aligned, 1, 50 * 60, 400, 100)).toBeNull();
+    expect(before!.mean).toBeCloseTo(Math.log(2), 2);
+  });
+
+  it("opens with both legs filled and marks per leg net of entry fees", () => {
+    const position = openPosition();
+    const fills = parseFills(position.entry_fills);
+    expect(fills.map((f) => [f.symbol, f.side, f.price])).toEqual([
+      ["AAA", "buy", 100.1],
+      ["BBB", "sell", 49.95],
+    ]);
+    expect(position.margin).toBeCloseTo(1001 / 2 + 999 / 4, 10);
+    expect(position.entry_fees).toBeCloseTo(0.5005 + 0.4995, 10);
+
+    const mark = markPaperPosition(position, 102, 49, openedAt + 60_000);
+    expect(mark.legs[0].pnl).toBeCloseTo((102 - 100.1) * 10, 10);
+    expect(mark.legs[1].pnl).toBeCloseTo((49.95 - 49) * 20, 10);
+    expect(mark.unrealizedPnl).toBeCloseTo(19 + 19 - 1, 10);
+    expect(mark.z).toBeCloseTo(spreadZ(102, 49, 1, stats), 10);
+  });
+
+  it("fires exit, stop and time rules on the position's own thresholds", () => {
+    // Long A / short B is entered below the band; z here sits at -1.5
+    const position = openPosition({ exit_z: 0.5, stop_z: 3, max_hold_hours: 24 });
+    const priceAt = (z: number) => 50 * Math.exp(stats.mean + z * stats.std);
+    const at = (z: number, hours = 1) => markPaperPosition(position, priceAt(z), 50, openedAt + hours * 3_600_000);
+
+    expect(paperExitReason(position, at(-1.5))).toBeNull();
+    expect(paperExitReason(position, at(-0.4))).toBe("exit_threshold");
+    expect(paperExitReason(position, at(2))).toBe("exit_threshold");
+    expect(paperExitReason(position, at(-3.2))).toBe("stop_loss");
+    expect(paperExitReason(position, at(-1.5, 24))).toBe("time_stop");
+    expect(paperExitReason({ ...position, stop_z: null, max_hold_hours: null }, at(-9, 1000))).toBeNull();
+  });
+
+  it("settles realized PnL after exit slippage and both sides' fees", () => {
+    const position = openPosition();
+    const update = closePaperPosition(position, 102, 49, "manual", openedAt + 3_600_000);
+    const exits = parseFills(update.exit_fills ?? null);
+
+    expect(exits.map((f) => [f.side, f.price])).toEqual([
+      ["sell", 102 * 0.999],
+      ["buy", 49 * 1.001],
+    ]);
+    const pricePnl = (102 * 0.999 - 100.1) * 10 + (49.95 - 49 * 1.001) * 20;
+    expect(update.realized_pnl).toBeCloseTo(pricePnl - position.entry_fees - update.exit_fees!, 10);
+    expect(update).toMatchObject({ status: "closed", close_reason: "manual", closed_at: "2026-02-01T01:00:00.000Z" });
+  });
+});
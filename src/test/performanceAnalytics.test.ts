@@ -0,0 +1,177 @@
+import { describe, it, expect } from 'vitest';
+import type { Json } from '@/integrations/supabase/types';
+import {
+  calendarMonths,
+  closedTrade,
+  dailyPerformance,
+  drawdownStats,
+  executionStrategy,
+  holdingVsHalfLife,
+  pairPerformance,
+  performanceStats,
+} from '@/lib/performanceAnalytics';
+import type { ClosedTrade } from '@/types/analytics';
+import type { ExecutionOrderDetails } from '@/types/execution';
+
+const trade = (overrides: Partial<ClosedTrade> = {}): ClosedTrade => ({
+  executionId: 'exec-1',
+  strategy: 'pairs',
+  pair: 'ETHUSDT / BTCUSDT',
+  openedAt: '2026-03-01T00:00:00.000Z',
+  closedAt: '2026-03-01T12:00:00.000Z',
+  realizedPnl: 100,
+  entryNotional: 8000,
+  holdingHours: 12,
+  halfLifeHours: 6,
+  ...overrides,
+});
+
+const pairDetails: ExecutionOrderDetails = {
+  kind: 'pair',
+  venue: 'paper',
+  signal_id: 'sig-1',
+  direction: 'long_a_short_b',
+  hedge_ratio: 1,
+  margin_mode: 'isolated',
+  slippage_tolerance_percent: 0.5,
+  gross_notional: 8000,
+  imbalance: 0,
+  legs: [
+    { symbol: 'ETHUSDT', side: 'buy', order_type: 'market', quantity: 2, reference_price: 2000, worst_price: 2010, notional: 4000, leverage: 3, margin: 1333 },
+    { symbol: 'BTCUSDT', side: 'sell', order_type: 'market', quantity: 0.1, reference_price: 40000, worst_price: 39800, notional: 4000, leverage: 3, margin: 1333 },
+  ],
+  preview_expires_at: '2026-03-01T00:01:00.000Z',
+  fills: [
+    { symbol: 'ETHUSDT', side: 'buy', quantity: 2, price: 2000, fee: 2 },
+    { symbol: 'BTCUSDT', side: 'sell', quantity: 0.1, price: 40000, fee: 2 },
+  ],
+  filled_at: '2026-03-01T00:00:00.000Z',
+};
+
+describe('executionStrategy', () => {
+  it('maps order_details.kind to a strategy', () => {
+    expect(executionStrategy({ kind: 'pair' })).toBe('pairs');
+    expect(executionStrategy({ kind: 'funding_carry' })).toBe('funding_carry');
+    expect(executionStrategy({ kind: 'spot' })).toBeNull();
+    expect(executionStrategy(null)).toBeNull();
+  });
+});
+
+describe('closedTrade', () => {
+  it('reads a closed pair execution and skips open ones', () => {
+    const closed = {
+      ...pairDetails,
+      close: {
+        closed_at: '2026-03-01T06:00:00.000Z',
+        reason: 'exit_threshold',
+        fills: [
+          { symbol: 'ETHUSDT', side: 'sell' as const, quantity: 2, price: 2100, fee: 2 },
+          { symbol: 'BTCUSDT', side: 'buy' as const, quantity: 0.1, price: 40000, fee: 2 },
+        ],
+      },
+    };
+    const result = closedTrade({ id: 'exec-1', order_details: closed as unknown as Json }, 4);
+    expect(result).toMatchObject({ pair: 'ETHUSDT / BTCUSDT', strategy: 'pairs', holdingHours: 6, halfLifeHours: 4 });
+    expect(result.realizedPnl).toBeCloseTo(192);
+    expect(closedTrade({ id: 'exec-2', order_details: pairDetails as unknown as Json }, 4)).toBeNull();
+  });
+});
+
+describe('dailyPerformance', () => {
+  it('books PnL on UTC close days and fills flat days', () => {
+    const days = dailyPerformance(
+      [
+        trade({ closedAt: '2026-03-01T23:30:00.000Z', realizedPnl: 100 }),
+        trade({ closedAt: '2026-03-03T01:00:00.000Z', realizedPnl: -220 }),
+      ],
+      1000
+    );
+    expect(days.map((d) => d.date)).toEqual(['2026-03-01', '2026-03-02', '2026-03-03']);
+    expect(days.map((d) => d.equity)).toEqual([1100, 1100, 880]);
+    expect(days[0].return).toBeCloseTo(0.1);
+    expect(days[2].return).toBeCloseTo(-0.2);
+    expect(days[2].drawdown).toBeCloseTo(0.2);
+  });
+
+  it('honours an explicit range and is empty without trades', () => {
+    const days = dailyPerformance([trade({ closedAt: '2026-03-02T00:00:00.000Z' })], 1000, '2026-03-01', '2026-03-04');
+    expect(days).toHaveLength(4);
+    expect(days[3].equity).toBe(1100);
+    expect(dailyPerformance([], 1000)).toEqual([]);
+  });
+});
+
+describe('drawdownStats', () => {
+  it('measures depth and days under water', () => {
+    const days = dailyPerformance(
+      [
+        trade({ closedAt: '2026-03-01T12:00:00.000Z', realizedPnl: 200 }),
+        trade({ closedAt: '2026-03-02T12:00:00.000Z', realizedPnl: -300 }),
+        trade({ closedAt: '2026-03-05T12:00:00.000Z', realizedPnl: 400 }),
+        trade({ closedAt: '2026-03-06T12:00:00.000Z', realizedPnl: -100 }),
+      ],
+      1000
+    );
+    const stats = drawdownStats(days, 1000);
+    expect(stats.maxDrawdown).toBeCloseTo(0.25);
+    expect(stats.maxDrawdownUsd).toBeCloseTo(300);
+    expect(stats.longestDays).toBe(3);
+    expect(stats.currentDays).toBe(1);
+  });
+});
+
+describe('performanceStats', () => {
+  it('annualizes Sharpe and Sortino from daily returns', () => {
+    const trades = [
+      trade({ closedAt: '2026-03-01T12:00:00.000Z', realizedPnl: 100 }),
+      trade({ closedAt: '2026-03-02T12:00:00.000Z', realizedPnl: -50 }),
+      trade({ closedAt: '2026-03-03T12:00:00.000Z', realizedPnl: 80 }),
+    ];
+    const days = dailyPerformance(trades, 1000);
+    const stats = performanceStats(trades, days, 1000);
+    expect(stats.totalPnl).toBe(130);
+    expect(stats.totalReturn).toBeCloseTo(0.13);
+    expect(stats.sharpe).toBeGreaterThan(0);
+    expect(stats.sortino).toBeGreaterThan(stats.sharpe);
+  });
+
+  it('leaves the ratios unset without variation or losing days', () => {
+    const trades = [trade({ realizedPnl: 100 })];
+    const stats = performanceStats(trades, dailyPerformance(trades, 1000), 1000);
+    expect(stats.sharpe).toBeNull();
+    expect(stats.sortino).toBeNull();
+  });
+});
+
+describe('pairPerformance and holdingVsHalfLife', () => {
+  it('groups by pair, best first, and compares holding to half-life', () => {
+    const trades = [
+      trade({ pair: 'A / B', realizedPnl: -40, holdingHours: 4, halfLifeHours: 8 }),
+      trade({ pair: 'C / D', realizedPnl: 90, holdingHours: 12, halfLifeHours: 6 }),
+      trade({ pair: 'A / B', realizedPnl: 10, holdingHours: 6, halfLifeHours: null }),
+    ];
+    const pairs = pairPerformance(trades);
+    expect(pairs.map((p) => p.pair)).toEqual(['C / D', 'A / B']);
+    expect(pairs[1]).toMatchObject({ trades: 2, wins: 1, totalPnl: -30, avgHoldingHours: 5, avgHalfLifeHours: 8 });
+
+    const holding = holdingVsHalfLife(trades);
+    expect(holding.compared).toBe(2);
+    expect(holding.avgHoldingHours).toBe(8);
+    expect(holding.medianRatio).toBeCloseTo(1.25);
+  });
+});
+
+describe('calendarMonths', () => {
+  it('pads each month to a Monday-first grid', () => {
+    const days = dailyPerformance([trade({ closedAt: '2026-03-31T12:00:00.000Z' })], 1000, '2026-03-30', '2026-04-01');
+    const months = calendarMonths(days);
+    expect(months.map((m) => m.month)).toEqual(['2026-03', '2026-04']);
+    // 1 March 2026 is a Sunday
+    expect(months[0].cells.slice(0, 6)).toEqual(Array(6).fill(null));
+    expect(months[0].cells).toHaveLength(6 + 31);
+    expect(months[0].cells[6 + 30]?.date).toBe('2026-03-31');
+    // 1 April 2026 is a Wednesday
+    expect(months[1].cells[2]?.date).toBe('2026-04-01');
+    expect(months[1].cells).toHaveLength(2 + 30);
+  });
+});
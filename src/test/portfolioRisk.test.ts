@@ -0,0 +1,146 @@
+import { describe, it, expect } from 'vitest';
+import {
+  aggregateExposure,
+  baseAsset,
+  btcBeta,
+  executionExposureLegs,
+  exposureCap,
+  exposureCapBreaches,
+  orderExposureLegs,
+} from '@/lib/portfolioRisk';
+import type { ExecutionOrderDetails, ExecutionOrderLeg } from '@/types/execution';
+import type { AlignedCandle, Candle } from '@/types/marketData';
+import type { ExposureLeg } from '@/types/portfolio';
+
+const leg = (overrides: Partial<ExposureLeg>): ExposureLeg => ({
+  asset: 'ETH',
+  symbol: 'ETHUSDT',
+  exchange: 'paper',
+  side: 'buy',
+  quantity: 1,
+  entryPrice: 2000,
+  margin: 500,
+  ...overrides,
+});
+
+const orderLeg = (symbol: string, side: 'buy' | 'sell', quantity: number, price: number): ExecutionOrderLeg => ({
+  symbol,
+  side,
+  order_type: 'market',
+  quantity,
+  reference_price: price,
+  worst_price: price,
+  notional: quantity * price,
+  leverage: 2,
+  margin: (quantity * price) / 2,
+});
+
+const candle = (time: number, close: number): Candle => ({ time, open: close, high: close, low: close, close, volume: 1 });
+
+describe('baseAsset', () => {
+  it('strips the quote currency', () => {
+    expect(baseAsset('ETHUSDT')).toBe('ETH');
+    expect(baseAsset('solusdc')).toBe('SOL');
+    expect(baseAsset('USDT')).toBe('USDT');
+  });
+});
+
+describe('executionExposureLegs', () => {
+  it('prefers entry fills and tags the routed exchange', () => {
+    const details = {
+      venue: 'exchange',
+      exchange: 'bybit',
+      legs: [orderLeg('ETHUSDT', 'buy', 2, 2000), orderLeg('BTCUSDT', 'sell', 0.1, 40000)],
+      fills: [
+        { symbol: 'ETHUSDT', side: 'buy', quantity: 2, price: 2010, fee: 0 },
+        { symbol: 'BTCUSDT', side: 'sell', quantity: 0.1, price: 39900, fee: 0 },
+      ],
+    } as ExecutionOrderDetails;
+    const legs = executionExposureLegs(details);
+    expect(legs[0]).toMatchObject({ asset: 'ETH', exchange: 'bybit', entryPrice: 2010, margin: 2000 });
+    expect(legs[1]).toMatchObject({ asset: 'BTC', side: 'sell', quantity: 0.1 });
+  });
+});
+
+describe('aggregateExposure', () => {
+  it('nets a shared leg across pairs and beta-weights it', () => {
+    const exposure = aggregateExposure(
+      [
+        leg({ quantity: 1 }),
+        leg({ asset: 'BTC', symbol: 'BTCUSDT', side: 'sell', quantity: 0.05, entryPrice: 40000 }),
+        leg({ quantity: 2, exchange: 'bybit' }),
+        leg({ asset: 'SOL', symbol: 'SOLUSDT', side: 'sell', quantity: 20, entryPrice: 100 }),
+      ],
+      { prices: { ETH: 2100 }, betas: { ETH: 1.2, BTC: 1 } },
+      10000
+    );
+
+    const eth = exposure.assets[0];
+    expect(eth.asset).toBe('ETH');
+    expect(eth.net).toBeCloseTo(6300);
+    expect(eth.exchanges).toEqual(['paper', 'bybit']);
+    expect(eth.btcExposure).toBeCloseTo(7560);
+
+    // SOL has no price or beta: entry price at β 1
+    const sol = exposure.assets.find((a) => a.asset === 'SOL');
+    expect(sol?.net).toBe(-2000);
+    expect(sol?.beta).toBe(1);
+
+    expect(exposure.long).toBeCloseTo(6300);
+    expect(exposure.short).toBeCloseTo(4000);
+    expect(exposure.gross).toBeCloseTo(10300);
+    expect(exposure.btcExposure).toBeCloseTo(7560 - 2000 - 2000);
+    expect(exposure.margin).toBe(2000);
+    expect(exposure.marginUtilization).toBeCloseTo(0.2);
+    expect(exposure.exchanges.map((e) => e.exchange)).toEqual(['bybit', 'paper']);
+  });
+
+  it('leaves utilization empty without equity', () => {
+    expect(aggregateExposure([leg({})], { prices: {}, betas: {} }).marginUtilization).toBeNull();
+  });
+});
+
+describe('exposureCapBreaches', () => {
+  const market = { prices: {}, betas: {} };
+  const open = [leg({ quantity: 2 })];
+
+  it('flags an asset the new pair pushes past the cap', () => {
+    const proposed = orderExposureLegs([orderLeg('ETHUSDT', 'buy', 1, 2000), orderLeg('BTCUSDT', 'sell', 0.05, 40000)], 'paper');
+    const breaches = exposureCapBreaches(
+      aggregateExposure(open, market),
+      aggregateExposure([...open, ...proposed], market),
+      5000
+    );
+    expect(breaches).toEqual([{ asset: 'ETH', before: 4000, after: 6000, cap: 5000 }]);
+  });
+
+  it('never flags a trade that reduces an over-cap asset, or with the cap off', () => {
+    const proposed = orderExposureLegs([orderLeg('ETHUSDT', 'sell', 1, 2000)], 'paper');
+    const before = aggregateExposure(open, market);
+    const after = aggregateExposure([...open, ...proposed], market);
+    expect(exposureCapBreaches(before, after, 1000)).toEqual([]);
+    expect(exposureCapBreaches(before, aggregateExposure([...open, leg({})], market), null)).toEqual([]);
+  });
+
+  it('reads the cap from settings', () => {
+    expect(exposureCap({ max_asset_exposure_usd: 2500 })).toBe(2500);
+    expect(exposureCap({ max_asset_exposure_usd: null })).toBeNull();
+    expect(exposureCap(null)).toBeNull();
+  });
+});
+
+describe('btcBeta', () => {
+  it('recovers the return beta of an asset that moves 1.5× BTC', () => {
+    const aligned: AlignedCandle[] = [];
+    let btc = 40000;
+    let asset = 100;
+    for (let i = 0; i < 80; i++) {
+      const r = 0.01 * Math.sin(i * 1.7);
+      btc *= Math.exp(r);
+      asset *= Math.exp(1.5 * r);
+      aligned.push({ time: i * 3600, a: candle(i * 3600, asset), b: candle(i * 3600, btc) });
+    }
+    expect(btcBeta(aligned)).toBeCloseTo(1.5, 6);
+    expect(btcBeta(aligned.slice(0, 10))).toBeNull();
+  });
+});
@@ -0,0 +1,96 @@
+import { describe, it, expect } from 'vitest';
+import { adverseZ, entryFillZ, monitorPosition, PositionMonitorInput, STALE_HALF_LIVES } from '@/lib/positionMonitor';
+import type { ExecutionOrderDetails } from '@/types/execution';
+
+const HOUR = 3_600_000;
+
+function input(overrides: Partial<PositionMonitorInput> = {}): PositionMonitorInput {
+  return {
+    direction: 'short_a_long_b',
+    entryZ: 2.5,
+    currentZ: 1.5,
+    exitZ: 0.5,
+    stopZ: 4,
+    halfLifeHours: 10,
+    openedAt: 0,
+    now: 5 * HOUR,
+    ...overrides,
+  };
+}
+
+describe('adverseZ', () => {
+  it('flips the sign for long A / short B', () => {
+    expect(adverseZ('long_a_short_b', -2)).toBe(2);
+    expect(adverseZ('short_a_long_b', 2)).toBe(2);
+  });
+});
+
+describe('monitorPosition', () => {
+  it('holds while the spread is reverting but still outside the band', () => {
+    const result = monitorPosition(input());
+    expect(result.action).toBe('hold');
+    expect(result.distanceToExit).toBeCloseTo(1);
+    expect(result.reverted).toBeCloseTo(0.4);
+    expect(result.halfLivesElapsed).toBeCloseTo(0.5);
+    expect(result.reason).not.toContain('widened');
+  });
+
+  it('says exit once z is inside the exit band, for either direction', () => {
+    expect(monitorPosition(input({ currentZ: 0.3 })).action).toBe('exit');
+    const long = monitorPosition(input({ direction: 'long_a_short_b', entryZ: -2.5, currentZ: -0.4 }));
+    expect(long.action).toBe('exit');
+    expect(long.distanceToExit).toBeLessThanOrEqual(0);
+  });
+
+  it('calls out an overshoot past the other side of the band', () => {
+    const result = monitorPosition(input({ currentZ: -1.2 }));
+    expect(result.action).toBe('exit');
+    expect(result.reason).toContain('overshot');
+  });
+
+  it('stops beyond the stop z', () => {
+    const result = monitorPosition(input({ currentZ: 4.2 }));
+    expect(result.action).toBe('stop');
+    expect(result.reason).toContain('stop');
+  });
+
+  it('notes a widened spread below the stop and ignores a disabled stop', () => {
+    const result = monitorPosition(input({ currentZ: 4.2, stopZ: null }));
+    expect(result.action).toBe('hold');
+    expect(result.reason).toContain('widened');
+  });
+
+  it('stops after the spread has gone stale for several half-lives', () => {
+    const result = monitorPosition(input({ now: STALE_HALF_LIVES * 10 * HOUR }));
+    expect(result.action).toBe('stop');
+    expect(result.reason).toContain('half-lives');
+  });
+
+  it('works without an entry z or half-life', () => {
+    const result = monitorPosition(input({ entryZ: null, halfLifeHours: null, now: 1000 * HOUR }));
+    expect(result.action).toBe('hold');
+    expect(result.reverted).toBeNull();
+    expect(result.halfLivesElapsed).toBeNull();
+  });
+});
+
+describe('entryFillZ', () => {
+  const details = {
+    hedge_ratio: 1,
+    legs: [{ symbol: 'ETHUSDT' }, { symbol: 'BTCUSDT' }],
+    fills: [
+      { symbol: 'ETHUSDT', side: 'sell', quantity: 2, price: 2000, fee: 0 },
+      { symbol: 'BTCUSDT', side: 'buy', quantity: 0.1, price: 40000, fee: 0 },
+    ],
+  } as unknown as ExecutionOrderDetails;
+
+  it('puts the entry fills on the log-spread baseline', () => {
+    const baseline = { mean: Math.log(2000 / 40000) - 0.2, std: 0.1 };
+    expect(entryFillZ(details, baseline)).toBeCloseTo(2, 10);
+  });
+
+  it('is unknown when only one leg filled', () => {
+    const oneLeg = { ...details, fills: details.fills!.slice(0, 1) };
+    expect(entryFillZ(oneLeg, { mean: 0, std: 1 })).toBeNull();
+  });
+});
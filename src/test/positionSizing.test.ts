@@ -0,0 +1,108 @@
+import { describe, it, expect } from "vitest";
+import { computePairSizing, roundDownToStep, roundToTick, sizingSettings } from "@/lib/positionSizing";
+import type { InstrumentSpec } from "@/types/marketData";
+import { DEFAULT_SIZING_SETTINGS, SizingSettings } from "@/types/sizing";
+
+const spec = (symbol: string, qtyStep: number, tickSize: number, minQty = qtyStep): InstrumentSpec => ({
+  symbol,
+  qtyStep,
+  minQty,
+  tickSize,
+  minNotional: 5,
+});
+
+const SETTINGS: SizingSettings = { ...DEFAULT_SIZING_SETTINGS, mode: "fixed_notional", value: 10000 };
+
+describe("position sizing", () => {
+  it("rounds quantities down to the lot step and prices to the tick", () => {
+    expect(roundDownToStep(1.23456, 0.001)).toBe(1.234);
+    expect(roundDownToStep(0.3, 0.1)).toBe(0.3);
+    expect(roundDownToStep(17, 5)).toBe(15);
+    expect(roundToTick(101.237, 0.05)).toBe(101.25);
+  });
+
+  it("reads user settings with schema defaults", () => {
+    expect(sizingSettings(null)).toEqual(DEFAULT_SIZING_SETTINGS);
+  });
+
+  it("splits notional by |β| and reports the rounding imbalance", () => {
+    const sizing = computePairSizing({
+      equity: 20000,
+      settings: SETTINGS,
+      direction: "long_a_short_b",
+      beta: 1.5,
+      symbolA: "ETHUSDT",
+      symbolB: "BTCUSDT",
+      priceA: 2000,
+      priceB: 50000,
+      specA: spec("ETHUSDT", 0.01, 0.01),
+      specB: spec("BTCUSDT", 0.001, 0.1),
+    });
+
+    // 4000 / 2000 = 2 ETH; 6000 / 50000 = 0.12 BTC
+    expect(sizing.legA).toMatchObject({ side: "buy", quantity: 2, notional: 4000, margin: 4000 / 3 });
+    expect(sizing.legB).toMatchObject({ side: "sell", quantity: 0.12, notional: 6000 });
+    expect(sizing.imbalance).toBeCloseTo(0, 8);
+    expect(sizing.exceedsEquity).toBe(false);
+
+    const coarse = computePairSizing({
+      equity: 20000,
+      settings: SETTINGS,
+      direction: "long_a_short_b",
+      beta: 1.5,
+      symbolA: "ETHUSDT",
+      symbolB: "BTCUSDT",
+      priceA: 2000,
+      priceB: 50000,
+      specA: spec("ETHUSDT", 0.01, 0.01),
+      specB: spec("BTCUSDT", 0.1, 0.1),
+    });
+    expect(coarse.legB.quantity).toBe(0.1);
+    expect(coarse.imbalance).toBeCloseTo(-1000, 6);
+    expect(coarse.imbalanceRatio).toBeCloseTo(-1000 / 9000, 8);
+  });
+
+  it("estimates liquidation for isolated and cross margin", () => {
+    const base = {
+      equity: 10000,
+      direction: "short_a_long_b" as const,
+      beta: 1,
+      symbolA: "A",
+      symbolB: "B",
+      priceA: 100,
+      priceB: 100,
+      specA: null,
+      specB: null,
+      maintenanceMarginRate: 0.005,
+    };
+
+    const isolated = computePairSizing({ ...base, settings: { ...SETTINGS, leverageLong: 4, leverageShort: 5 } });
+    expect(isolated.legA.side).toBe("sell");
+    expect(isolated.legA.liquidationDistance).toBeCloseTo(0.2 - 0.005, 10);
+    expect(isolated.legA.liquidationPrice).toBeCloseTo(100 * 1.195, 8);
+    expect(isolated.legB.liquidationPrice).toBeCloseTo(100 * (1 - 0.245), 8);
+    expect(isolated.legA.warnings).toEqual(["no_instrument"]);
+
+    // Each 5000 leg can lose equity less 0.5% of the 10000 gross before liquidation
+    const cross = computePairSizing({ ...base, settings: { ...SETTINGS, marginMode: "cross" } });
+    expect(cross.legA.liquidationDistance).toBeCloseTo(9950 / 5000, 10);
+  });
+
+  it("flags legs that fall below the exchange minimums", () => {
+    const sizing = computePairSizing({
+      equity: 1000,
+      settings: { ...DEFAULT_SIZING_SETTINGS, value: 1 },
+      direction: "long_a_short_b",
+      beta: 1,
+      symbolA: "BTCUSDT",
+      symbolB: "ETHUSDT",
+      priceA: 50000,
+      priceB: 2000,
+      specA: spec("BTCUSDT", 0.001, 0.1),
+      specB: spec("ETHUSDT", 0.01, 0.01),
+    });
+    expect(sizing.targetGrossNotional).toBe(10);
+    expect(sizing.legA.quantity).toBe(0);
+    expect(sizing.legA.warnings).toEqual(["below_min_qty", "below_min_notional"]);
+  });
+});
@@ -0,0 +1,108 @@
+/**
+ * The original window-rescanning (O(n·L)) indicator implementations, kept as
+ * the reference for equivalence tests and the baseline for benchmarks.
+ */
+import type { IndicatorDataPoint } from "@/lib/indicators";
+
+/**
+ * Compute Z-Score of a price series using a rolling window
+ */
+export function naiveZScore(
+  prices: IndicatorDataPoint[],
+  length: number = 250
+): IndicatorDataPoint[] {
+  const result: IndicatorDataPoint[] = [];
+  
+  for (let i = 0; i < prices.length; i++) {
+    if (i < length - 1) {
+      result.push({ time: prices[i].time, value: 0 });
+      continue;
+    }
+    
+    const window = prices.slice(i - length + 1, i + 1).map(p => p.value);
+    const mean = window.reduce((a, b) => a + b, 0) / length;
+    const variance = window.reduce((a, b) => a + Math.pow(b - mean, 2), 0) / length;
+    const std = Math.sqrt(variance);
+    
+    const zScore = std > 0 ? (prices[i].value - mean) / std : 0;
+    result.push({ time: prices[i].time, value: zScore });
+  }
+  
+  return result;
+}
+
+/**
+ * Compute rolling mean and standard deviation for price-space bands
+ */
+export function naiveRollingMeanStd(
+  prices: IndicatorDataPoint[],
+  length: number = 250
+): { mean: IndicatorDataPoint[]; std: IndicatorDataPoint[] } {
+  const meanResult: IndicatorDataPoint[] = [];
+  const stdResult: IndicatorDataPoint[] = [];
+  
+  for (let i = 0; i < prices.length; i++) {
+    if (i < length - 1) {
+      meanResult.push({ time: prices[i].time, value: prices[i].value });
+      stdResult.push({ time: prices[i].time, value: 0 });
+      continue;
+    }
+    
+    const window = prices.slice(i - length + 1, i + 1).map(p => p.value);
+    const mean = window.reduce((a, b) => a + b, 0) / length;
+    const variance = window.reduce((a, b) => a + Math.pow(b - mean, 2), 0) / length;
+    const std = Math.sqrt(variance);
+    
+    meanResult.push({ time: prices[i].time, value: mean });
+    stdResult.push({ time: prices[i].time, value: std });
+  }
+  
+  return { mean: meanResult, std: stdResult };
+}
+
+/**
+ * Generate price-space Z-Score bands (mean ± n*std mapped to price)
+
+/**
+ * Compute RSI (Relative Strength Index)
+ */
+export function naiveRSI(
+  prices: IndicatorDataPoint[],
+  length: number = 14
+): IndicatorDataPoint[] {
+  const result: IndicatorDataPoint[] = [];
+  const gains: number[] = [];
+  const losses: number[] = [];
+  
+  for (let i = 0; i < prices.length; i++) {
+    if (i === 0) {
+      result.push({ time: prices[i].time, value: 50 });
+      continue;
+    }
+    
+    const change = prices[i].value - prices[i - 1].value;
+    const gain = change > 0 ? change : 0;
+    const loss = change < 0 ? -change : 0;
+    
+    gains.push(gain);
+    losses.push(loss);
+    
+    if (i < length) {
+      result.push({ time: prices[i].time, value: 50 });
+      continue;
+    }
+    
+    const windowGains = gains.slice(-length);
+    const windowLosses = losses.slice(-length);
+    
+    const avgGain = windowGains.reduce((a, b) => a + b, 0) / length;
+    const avgLoss = windowLosses.reduce((a, b) => a + b, 0) / length;
+    
+    const rs = avgLoss > 0 ? avgGain / avgLoss : 100;
+    const rsi = 100 - (100 / (1 + rs));
+    
+    result.push({ time: prices[i].time, value: rsi });
+  }
+  
+  return result;
+}
@@ -0,0 +1,70 @@
+import { describe, it, expect } from 'vitest';
+import {
+  effectiveRiskLimits,
+  formatRiskLimit,
+  overriddenLimits,
+  parseRiskViolations,
+  riskLimitValues,
+} from '@/lib/riskLimits';
+import { EMPTY_RISK_LIMITS, RiskLimitValues } from '@/types/riskLimits';
+
+const row = (overrides: Partial<Parameters<typeof riskLimitValues>[0]> = {}) => ({
+  id: 'limits-1',
+  user_id: null,
+  max_concurrent_pairs: 5,
+  max_leverage: 10,
+  max_pair_notional: 50000,
+  max_daily_loss: 2500,
+  allowed_exchanges: ['bybit', 'okx'],
+  updated_by: null,
+  created_at: '2026-03-19T00:00:00.000Z',
+  updated_at: '2026-03-19T00:00:00.000Z',
+  ...overrides,
+});
+
+const defaults: RiskLimitValues = riskLimitValues(row());
+
+describe('riskLimitValues', () => {
+  it('reads a row and drops unknown exchanges and non-positive limits', () => {
+    const values = riskLimitValues(row({ max_daily_loss: 0, allowed_exchanges: ['bybit', 'kraken'] }));
+    expect(values.max_daily_loss).toBeNull();
+    expect(values.allowed_exchanges).toEqual(['bybit']);
+    expect(riskLimitValues(null)).toEqual(EMPTY_RISK_LIMITS);
+  });
+});
+
+describe('effectiveRiskLimits', () => {
+  it('lets set override columns win and inherits the rest', () => {
+    const override = { ...EMPTY_RISK_LIMITS, max_leverage: 3, allowed_exchanges: [] };
+    const effective = effectiveRiskLimits(defaults, override);
+    expect(effective.max_leverage).toBe(3);
+    expect(effective.allowed_exchanges).toEqual([]);
+    expect(effective.max_concurrent_pairs).toBe(5);
+    expect(overriddenLimits(override)).toEqual(['max_leverage', 'allowed_exchanges']);
+    expect(effectiveRiskLimits(defaults, null)).toBe(defaults);
+  });
+});
+
+describe('formatRiskLimit', () => {
+  it('formats each kind of limit', () => {
+    expect(formatRiskLimit('max_leverage', defaults)).toBe('10×');
+    expect(formatRiskLimit('max_concurrent_pairs', defaults)).toBe('5');
+    expect(formatRiskLimit('max_daily_loss', defaults)).toBe(`$${(2500).toLocaleString()}`);
+    expect(formatRiskLimit('allowed_exchanges', defaults)).toBe('bybit, okx');
+    expect(formatRiskLimit('allowed_exchanges', { ...defaults, allowed_exchanges: [] })).toBe('Paper only');
+    expect(formatRiskLimit('max_pair_notional', EMPTY_RISK_LIMITS)).toBe('Unlimited');
+  });
+});
+
+describe('parseRiskViolations', () => {
+  it('keeps known limit keys and nulls the rest', () => {
+    expect(parseRiskViolations([
+      { limit_key: 'max_leverage', message: 'Leg leverage 20× is above the 10× limit' },
+      { limit_key: 'max_gamma', message: 'Something new' },
+    ])).toEqual([
+      { limit: 'max_leverage', message: 'Leg leverage 20× is above the 10× limit' },
+      { limit: null, message: 'Something new' },
+    ]);
+    expect(parseRiskViolations(null)).toEqual([]);
+  });
+});
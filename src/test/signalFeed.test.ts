@@ -0,0 +1,44 @@
+import { describe, it, expect } from "vitest";
+import { FeedSignal, newSignalIds, pruneExpired, reconnectDelay, removeSignal, upsertSignal } from "@/lib/signalFeed";
+
+const NOW = Date.parse("2026-02-01T12:00:00Z");
+const at = (minutes: number) => new Date(NOW + minutes * 60000).toISOString();
+const signal = (id: string, z: number, expiresInMinutes = 30): FeedSignal => ({
+  id,
+  z_ou_score: z,
+  expires_at: at(expiresInMinutes),
+});
+
+describe("signal feed", () => {
+  const feed = [signal("a", 3), signal("b", 2.5), signal("c", 2)];
+
+  it("inserts new rows in Z order and replaces updated ones", () => {
+    expect(upsertSignal(feed, signal("d", 2.7), NOW).map((s) => s.id)).toEqual(["a", "d", "b", "c"]);
+    const updated = upsertSignal(feed, signal("c", 3.5), NOW);
+    expect(updated.map((s) => s.id)).toEqual(["c", "a", "b"]);
+    expect(updated).toHaveLength(3);
+  });
+
+  it("drops rows that are already expired instead of inserting them", () => {
+    expect(upsertSignal(feed, signal("b", 2.5, -1), NOW).map((s) => s.id)).toEqual(["a", "c"]);
+    expect(upsertSignal(feed, signal("x", 4, 0), NOW)).toHaveLength(3);
+  });
+
+  it("removes deleted and expired rows, keeping the array when nothing changes", () => {
+    expect(removeSignal(feed, "b").map((s) => s.id)).toEqual(["a", "c"]);
+    expect(removeSignal(feed, "zzz")).toBe(feed);
+
+    const mixed = [signal("a", 3, 5), signal("b", 2, 1)];
+    expect(pruneExpired(mixed, NOW)).toBe(mixed);
+    expect(pruneExpired(mixed, NOW + 2 * 60000).map((s) => s.id)).toEqual(["a"]);
+  });
+
+  it("finds rows that arrived during a disconnect", () => {
+    expect(newSignalIds(feed, [signal("a", 3), signal("e", 2.2)])).toEqual(["e"]);
+  });
+
+  it("backs off exponentially up to 30 seconds", () => {
+    expect([0, 1, 2, 3].map(reconnectDelay)).toEqual([1000, 2000, 4000, 8000]);
+    expect(reconnectDelay(10)).toBe(30000);
+  });
+});
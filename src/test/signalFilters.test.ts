@@ -0,0 +1,51 @@
+import { describe, it, expect } from "vitest";
+import { describeSignalFilter, evaluateSignalFilters, FilterableSignal, userFilterThresholds } from "@/lib/signalFilters";
+
+const thresholds = userFilterThresholds(null);
+
+const signal = (z: number | null, metrics: Partial<NonNullable<FilterableSignal["pair_metrics"]>> | null): FilterableSignal => ({
+  z_ou_score: z,
+  pair_metrics: metrics && {
+    id: "m1",
+    symbol_a: "ETHUSDT",
+    symbol_b: "BTCUSDT",
+    last_updated: "2026-01-01T00:00:00Z",
+    beta: 1.1,
+    correlation: 0.85,
+    cointegration_pvalue: 0.01,
+    ou_theta: 0.05,
+    half_life_hours: 12,
+    hurst_exponent: 0.4,
+    ...metrics,
+  },
+});
+
+describe("signal filters", () => {
+  it("fall back to schema defaults for unset settings", () => {
+    expect(thresholds).toEqual({
+      minCorrelation: 0.7,
+      maxCointegrationPValue: 0.05,
+      ouThetaMin: 0.01,
+      halfLifeMaxHours: 72,
+      hurstMax: 0.5,
+      zscoreEntryThreshold: 2,
+    });
+  });
+
+  it("pass a signal that meets every threshold, on either side of zero", () => {
+    expect(evaluateSignalFilters(signal(2.4, {}), thresholds)).toEqual([]);
+    expect(evaluateSignalFilters(signal(-2.4, {}), thresholds)).toEqual([]);
+  });
+
+  it("report each filter that excludes a signal", () => {
+    const s = signal(1.5, { correlation: 0.6, half_life_hours: 100, hurst_exponent: null });
+    const failures = evaluateSignalFilters(s, thresholds);
+    expect(failures).toEqual(["zscore", "correlation", "half_life", "hurst"]);
+    expect(describeSignalFilter("correlation", s, thresholds)).toBe("Corr 0.60 < 0.7");
+    expect(describeSignalFilter("hurst", s, thresholds)).toBe("Hurst missing > 0.5");
+  });
+
+  it("exclude signals without pair metrics", () => {
+    expect(evaluateSignalFilters(signal(3, null), thresholds)).toEqual(["metrics"]);
+  });
+});
@@ -0,0 +1,139 @@
+import { describe, it, expect } from "vitest";
+import {
+  aggregateOutcomes,
+  evaluateSignalOutcome,
+  outcomeHorizonBars,
+  outcomeHorizonEnd,
+  OutcomeRecord,
+  OutcomeSignal,
+  summarizeOutcomes,
+} from "@/lib/signalOutcomes";
+import type { AlignedCandle } from "@/types/marketData";
+import type { OutcomeParams } from "@/types/outcomes";
+
+const START = 1767225600;
+const STEP = 900;
+
+const PARAMS: OutcomeParams = {
+  interval: "15m",
+  halfLives: 3,
+  exitZ: 0.5,
+  lookbackBars: 150,
+  minLookbackBars: 100,
+};
+
+// Leg B pinned at 100 so ln A − ln B is exactly the given log spread
+const toAligned = (spreads: number[]): AlignedCandle[] =>
+  spreads.map((s, i) => {
+    const time = START + i * STEP;
+    const a = 100 * Math.exp(s);
+    return {
+      time,
+      a: { time, open: a, high: a, low: a, close: a, volume: 1 },
+      b: { time, open: 100, high: 100, low: 100, close: 100, volume: 1 },
+    };
+  });
+
+// 150 bars alternating ±1% around zero: mean 0, std ≈ 0.01
+const HISTORY = Array.from({ length: 150 }, (_, i) => (i % 2 === 0 ? 0.01 : -0.01));
+
+// Entered 1 minute into the first post-history bar with the spread 3 std below its mean
+const signal = (overrides: Partial<OutcomeSignal> = {}): OutcomeSignal => ({
+  direction: "long_a_short_b",
+  entryTime: START + HISTORY.length * STEP + 60,
+  hedgeRatio: 1,
+  halfLifeHours: 1,
+  entryPriceA: 100 * Math.exp(-0.03),
+  entryPriceB: 100,
+  ...overrides,
+});
+
+const record = (overrides: Partial<OutcomeRecord>): OutcomeRecord => ({
+  confidence_score: 0.75,
+  correlation: 0.85,
+  signal_direction: "long_a_short_b",
+  exit_crossed: true,
+  realized_return: 0.01,
+  max_favorable_excursion: 0.02,
+  max_adverse_excursion: -0.005,
+  ...overrides,
+});
+
+describe("signal outcomes", () => {
+  it("sizes the horizon in bars from the half-life", () => {
+    expect(outcomeHorizonBars(1, PARAMS)).toBe(12);
+    expect(outcomeHorizonBars(0.01, PARAMS)).toBe(1);
+    expect(outcomeHorizonBars(null, PARAMS)).toBeNull();
+    expect(outcomeHorizonEnd(signal(), PARAMS)).toBe(START + (HISTORY.length + 12) * STEP);
+  });
+
+  it("scores a spread that reverts inside the exit band", () => {
+    const path = [-0.035, -0.02, -0.003, 0.01, 0.02];
+    const outcome = evaluateSignalOutcome(toAligned([...HISTORY, ...path]), signal(), PARAMS);
+
+    expect(outcome).not.toBeNull();
+    expect(outcome!.entryZ).toBeCloseTo(-3, 1);
+    expect(outcome!.exitCrossed).toBe(true);
+    expect(outcome!.barsToExit).toBe(3);
+    expect(outcome!.barsHeld).toBe(3);
+    expect(outcome!.maxAdverseExcursion).toBeLessThan(0);
+    expect(outcome!.realizedReturn).toBeCloseTo(0.5 * (Math.exp(0.027) - 1), 6);
+    expect(outcome!.maxFavorableExcursion).toBeCloseTo(outcome!.realizedReturn, 10);
+  });
+
+  it("holds to the horizon when the spread keeps diverging", () => {
+    const path = Array.from({ length: 12 }, (_, i) => -0.03 - 0.002 * (i + 1));
+    const outcome = evaluateSignalOutcome(toAligned([...HISTORY, ...path]), signal(), PARAMS);
+
+    expect(outcome!.exitCrossed).toBe(false);
+    expect(outcome!.barsToExit).toBeNull();
+    expect(outcome!.barsHeld).toBe(12);
+    expect(outcome!.realizedReturn).toBeLessThan(0);
+    expect(outcome!.maxFavorableExcursion).toBe(0);
+    expect(outcome!.maxAdverseExcursion).toBeCloseTo(outcome!.realizedReturn, 10);
+  });
+
+  it("wins on the short side when the spread falls back from above", () => {
+    const path = [0.02, 0.0];
+    const outcome = evaluateSignalOutcome(
+      toAligned([...HISTORY, ...path]),
+      signal({ direction: "short_a_long_b", entryPriceA: 100 * Math.exp(0.03) }),
+      PARAMS
+    );
+    expect(outcome!.entryZ).toBeCloseTo(3, 1);
+    expect(outcome!.barsToExit).toBe(2);
+    expect(outcome!.realizedReturn).toBeGreaterThan(0);
+  });
+
+  it("waits for the full horizon and enough history", () => {
+    const diverging = Array.from({ length: 5 }, () => -0.04);
+    expect(evaluateSignalOutcome(toAligned([...HISTORY, ...diverging]), signal(), PARAMS)).toBeNull();
+
+    const shortHistory = toAligned([...HISTORY.slice(0, 50), -0.03, 0]);
+    expect(
+      evaluateSignalOutcome(shortHistory, signal({ entryTime: START + 50 * STEP + 60 }), PARAMS)
+    ).toBeNull();
+  });
+
+  it("aggregates hit rate and returns per bucket", () => {
+    const records = [
+      record({ confidence_score: 0.55, exit_crossed: false, realized_return: -0.02 }),
+      record({ confidence_score: 0.72 }),
+      record({ confidence_score: 0.78, exit_crossed: false, realized_return: 0.004 }),
+      record({ confidence_score: 0.95, correlation: null, signal_direction: "short_a_long_b" }),
+    ];
+
+    const byConfidence = aggregateOutcomes(records, "confidence");
+    expect(byConfidence.map((b) => b.count)).toEqual([1, 0, 2, 0, 1]);
+    expect(byConfidence[2].hitRate).toBe(0.5);
+    expect(byConfidence[2].winRate).toBe(1);
+    expect(byConfidence[2].avgReturn).toBeCloseTo(0.007, 10);
+
+    expect(aggregateOutcomes(records, "correlation").reduce((n, b) => n + b.count, 0)).toBe(3);
+    expect(aggregateOutcomes(records, "direction").map((b) => b.count)).toEqual([3, 1]);
+
+    const overall = summarizeOutcomes(records);
+    expect(overall.count).toBe(4);
+    expect(overall.hitRate).toBe(0.5);
+  });
+});
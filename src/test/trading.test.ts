@@ -0,0 +1,165 @@
+import { describe, it, expect } from "vitest";
+import {
+  createBybitTradingAdapter,
+  createHmacSigner,
+  createOkxTradingAdapter,
+  formatDecimal,
+  fromOkxInstrument,
+  isTradingError,
+  parseBinanceOrder,
+  parseBinancePositions,
+  parseBybitOrder,
+  parseBybitPositions,
+  parseOkxOrder,
+  parseOkxPositions,
+  toHex,
+} from "@/lib/trading";
+
+const caught = (fn: () => unknown) => {
+  try {
+    fn();
+  } catch (e) {
+    return e;
+  }
+  throw new Error("expected a throw");
+};
+
+describe("trading adapters", () => {
+  it("signs with HMAC-SHA256", async () => {
+    const sign = createHmacSigner("key");
+    expect(toHex(await sign("The quick brown fox jumps over the lazy dog"))).toBe(
+      "f7bc83f430538424b13298e6aa6fb143ef4d59a14946175997479dbc2d1a3cd8"
+    );
+  });
+
+  it("formats order fields without exponents", () => {
+    expect(formatDecimal(0.0000001)).toBe("0.0000001");
+    expect(formatDecimal(12)).toBe("12");
+    expect(formatDecimal(0.1 + 0.2)).toBe("0.3");
+  });
+
+  it("parses orders from each exchange into one shape", () => {
+    const bybit = parseBybitOrder({
+      retCode: 0,
+      result: { list: [{ orderId: "1", orderLinkId: "x", symbol: "ETHUSDT", side: "Sell", orderStatus: "PartiallyFilledCanceled", qty: "2", cumExecQty: "1.5", avgPrice: "2000" }] },
+    });
+    expect(bybit).toEqual({ orderId: "1", clientOrderId: "x", symbol: "ETHUSDT", side: "sell", status: "cancelled", quantity: 2, filledQuantity: 1.5, avgPrice: 2000 });
+
+    const binance = parseBinanceOrder({ orderId: 7, clientOrderId: "", symbol: "SOLUSDT", side: "BUY", status: "EXPIRED", origQty: "10", executedQty: "0", avgPrice: "0" });
+    expect(binance).toMatchObject({ orderId: "7", clientOrderId: null, status: "cancelled", filledQuantity: 0, avgPrice: null });
+
+    // 3 contracts of 0.1 BTC each
+    const okx = parseOkxOrder(
+      { code: "0", data: [{ ordId: "9", clOrdId: "", instId: "BTC-USDT-SWAP", side: "buy", state: "filled", sz: "3", accFillSz: "3", avgPx: "50000" }] },
+      0.1
+    );
+    expect(okx).toMatchObject({ symbol: "BTCUSDT", status: "filled", avgPrice: 50000 });
+    expect(okx.filledQuantity).toBeCloseTo(0.3, 12);
+  });
+
+  it("drops flat positions and normalizes side and margin mode", () => {
+    expect(
+      parseBybitPositions({
+        retCode: 0,
+        result: { list: [
+          { symbol: "ETHUSDT", side: "Sell", size: "1", avgPrice: "2000", markPrice: "1990", unrealisedPnl: "10", leverage: "3", tradeMode: 1, liqPrice: "" },
+          { symbol: "BTCUSDT", side: "", size: "0", avgPrice: "0", markPrice: "0", unrealisedPnl: "0", leverage: "10", tradeMode: 0, liqPrice: "" },
+        ] },
+      })
+    ).toEqual([
+      { symbol: "ETHUSDT", side: "short", size: 1, entryPrice: 2000, markPrice: 1990, unrealizedPnl: 10, leverage: 3, marginMode: "isolated", liquidationPrice: null },
+    ]);
+
+    expect(parseBinancePositions([{ symbol: "SOLUSDT", positionAmt: "-4", entryPrice: "100", markPrice: "101", unRealizedProfit: "-4", leverage: "5", marginType: "cross", liquidationPrice: "150" }]))
+      .toMatchObject([{ side: "short", size: 4, marginMode: "cross", liquidationPrice: 150 }]);
+
+    expect(parseOkxPositions(
+      { code: "0", data: [{ instId: "ETH-USDT-SWAP", pos: "-20", posSide: "net", avgPx: "2000", markPx: "2000", upl: "0", lever: "3", mgnMode: "isolated", liqPx: "2600" }] },
+      { "ETH-USDT-SWAP": 0.1 }
+    )).toMatchObject([{ symbol: "ETHUSDT", side: "short", size: 2, marginMode: "isolated" }]);
+    expect(fromOkxInstrument("1000PEPE-USDT-SWAP")).toBe("1000PEPEUSDT");
+  });
+
+  it("classifies exchange error codes", () => {
+    const limited = caught(() => parseBybitOrder({ retCode: 10006, retMsg: "Too many visits!" }));
+    expect(isTradingError(limited) && limited.kind).toBe("rate_limited");
+    const margin = caught(() => parseBinanceOrder({ code: -2019, msg: "Margin is insufficient." }));
+    expect(isTradingError(margin) && margin.kind).toBe("insufficient_balance");
+    const okx = caught(() => parseOkxOrder({ code: "1", msg: "Operation failed", data: [{ sCode: "51008", sMsg: "Insufficient balance" }] }, 1));
+    expect(isTradingError(okx) && [okx.kind, okx.message]).toEqual(["insufficient_balance", "OKX: Insufficient balance"]);
+  });
+
+  it("signs Bybit requests and turns HTTP 429 into a rate limit", async () => {
+    const calls: Array<{ url: string; init: RequestInit }> = [];
+    const responses = [
+      new Response(JSON.stringify({ retCode: 0, result: { orderId: "42" } })),
+      new Response("", { status: 429, headers: { "Retry-After": "2" } }),
+    ];
+    const adapter = createBybitTradingAdapter(
+      { apiKey: "k", sign: async (payload) => new TextEncoder().encode(payload).buffer as ArrayBuffer },
+      {
+        now: () => 1700000000000,
+        fetch: async (url, init) => {
+          calls.push({ url: String(url), init: init ?? {} });
+          return responses.shift()!;
+        },
+      }
+    );
+
+    const error = await adapter.placeOrder({ symbol: "ETHUSDT", side: "buy", type: "limit", quantity: 0.5, price: 2010, timeInForce: "ioc" }).catch((e) => e);
+    expect(isTradingError(error) && [error.kind, error.retryAfterMs]).toEqual(["rate_limited", 2000]);
+
+    const body = String(calls[0].init.body);
+    expect(JSON.parse(body)).toEqual({ category: "linear", symbol: "ETHUSDT", side: "Buy", orderType: "Limit", qty: "0.5", price: "2010", timeInForce: "IOC" });
+    const headers = calls[0].init.headers as Record<string, string>;
+    const signed = new TextDecoder().decode(Uint8Array.from(headers["X-BAPI-SIGN"].match(/../g)!.map((h) => parseInt(h, 16))));
+    expect(signed).toBe(`1700000000000k5000${body}`);
+  });
+
+  it("reads a placed Bybit order until it settles", async () => {
+    const bybitOrder = (orderStatus: string, cumExecQty: string) =>
+      new Response(JSON.stringify({ retCode: 0, result: { list: [{ orderId: "42", symbol: "ETHUSDT", side: "Buy", orderStatus, qty: "0.5", cumExecQty, avgPrice: "2005" }] } }));
+    const responses = [
+      new Response(JSON.stringify({ retCode: 0, result: { orderId: "42" } })),
+      bybitOrder("New", "0"),
+      bybitOrder("Filled", "0.5"),
+    ];
+    const waits: number[] = [];
+    const adapter = createBybitTradingAdapter(
+      { apiKey: "k", sign: async () => new ArrayBuffer(32) },
+      {
+        fetch: async () => responses.shift()!,
+        sleep: async (ms) => {
+          waits.push(ms);
+        },
+      }
+    );
+
+    const order = await adapter.placeOrder({ symbol: "ETHUSDT", side: "buy", type: "limit", quantity: 0.5, price: 2010, timeInForce: "ioc" });
+    expect(order).toMatchObject({ status: "filled", filledQuantity: 0.5, avgPrice: 2005 });
+    expect(waits).toHaveLength(1);
+  });
+
+  it("sizes OKX orders in contracts", async () => {
+    const bodies: string[] = [];
+    const adapter = createOkxTradingAdapter(
+      { apiKey: "k", passphrase: "p", sign: async () => new ArrayBuffer(32) },
+      {
+        fetch: async (url, init) => {
+          const path = String(url);
+          if (path.includes("/public/instruments")) return new Response(JSON.stringify({ code: "0", data: [{ ctVal: "0.01" }] }));
+          if (init?.method === "POST") {
+            bodies.push(String(init.body));
+            return new Response(JSON.stringify({ code: "0", data: [{ ordId: "1", sCode: "0" }] }));
+          }
+          return new Response(JSON.stringify({ code: "0", data: [{ ordId: "1", instId: "BTC-USDT-SWAP", side: "sell", state: "filled", sz: "25", accFillSz: "25", avgPx: "50000" }] }));
+        },
+      }
+    );
+    await adapter.setMarginMode("BTCUSDT", "isolated", 3);
+    const order = await adapter.placeOrder({ symbol: "BTCUSDT", side: "sell", type: "market", quantity: 0.25 });
+
+    expect(JSON.parse(bodies[1])).toMatchObject({ instId: "BTC-USDT-SWAP", tdMode: "isolated", ordType: "market", sz: "25" });
+    expect(order.filledQuantity).toBeCloseTo(0.25, 12);
+  });
+});
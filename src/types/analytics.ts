@@ -0,0 +1,97 @@
+// Performance Analytics Types
+
+export const STRATEGIES = ['pairs', 'funding_carry', 'options'] as const;
+export type Strategy = typeof STRATEGIES[number];
+
+export const STRATEGY_LABELS: Record<Strategy, string> = {
+  pairs: 'Pairs',
+  funding_carry: 'Funding Carry',
+  options: 'Options',
+};
+
+/** executions.order_details.kind each strategy records its executions under. */
+export const STRATEGY_KINDS: Record<Strategy, string> = {
+  pairs: 'pair',
+  funding_carry: 'funding_carry',
+  options: 'options',
+};
+
+/** Crypto trades every day, so daily returns annualize over calendar days. */
+export const ANALYTICS_PERIODS_PER_YEAR = 365;
+export const DEFAULT_STARTING_EQUITY = 10000;
+
+/** One execution whose position has been opened and closed again. */
+export interface ClosedTrade {
+  executionId: string;
+  strategy: Strategy;
+  /** "ETHUSDT / BTCUSDT" */
+  pair: string;
+  openedAt: string | null;
+  closedAt: string;
+  realizedPnl: number;
+  entryNotional: number;
+  holdingHours: number | null;
+  /** Half-life the signal's pair metrics predicted at entry. */
+  halfLifeHours: number | null;
+}
+
+/** One UTC day of the equity curve. */
+export interface DailyPerformance {
+  /** yyyy-mm-dd, UTC. */
+  date: string;
+  pnl: number;
+  /** Equity at the end of the day. */
+  equity: number;
+  /** PnL over equity at the start of the day. */
+  return: number;
+  /** Fraction below the running equity peak, 0–1. */
+  drawdown: number;
+}
+
+export interface DrawdownStats {
+  /** Deepest fall from a running peak, as a fraction of that peak. */
+  maxDrawdown: number;
+  maxDrawdownUsd: number;
+  /** Most days spent below a previous peak before recovering, or to date. */
+  longestDays: number;
+  /** Days below the peak as of the last day; 0 at a new high. */
+  currentDays: number;
+}
+
+export interface PerformanceStats {
+  trades: number;
+  totalPnl: number;
+  /** Total PnL over starting equity. */
+  totalReturn: number;
+  /** Annualized from daily returns; null with too little variation to measure. */
+  sharpe: number | null;
+  sortino: number | null;
+  drawdown: DrawdownStats;
+}
+
+export interface PairPerformance {
+  pair: string;
+  trades: number;
+  wins: number;
+  totalPnl: number;
+  avgHoldingHours: number | null;
+  avgHalfLifeHours: number | null;
+}
+
+/** How long trades were actually held against the half-life predicted at entry. */
+export interface HoldingVsHalfLife {
+  /** Trades with both a holding time and a predicted half-life. */
+  compared: number;
+  avgHoldingHours: number | null;
+  avgHalfLifeHours: number | null;
+  /** Median of holding time over half-life across compared trades. */
+  medianRatio: number | null;
+}
+
+/** One month of the returns calendar, weeks starting Monday. */
+export interface CalendarMonth {
+  /** yyyy-mm */
+  month: string;
+  /** Null cells pad the first week and days outside the curve. */
+  cells: (DailyPerformance | null)[];
+}
@@ -0,0 +1,36 @@
+// Exchange Account Types
+
+import type { TradingExchange } from '@/types/trading';
+
+export const EXCHANGE_ACCOUNT_STATUSES = ['untested', 'connected', 'failed', 'revoked'] as const;
+export type ExchangeAccountStatus = typeof EXCHANGE_ACCOUNT_STATUSES[number];
+
+export const EXCHANGE_ACCOUNT_STATUS_LABELS: Record<ExchangeAccountStatus, string> = {
+  untested: 'Not tested',
+  connected: 'Connected',
+  failed: 'Test failed',
+  revoked: 'Revoked',
+};
+
+export const TRADING_EXCHANGE_LABELS: Record<TradingExchange, string> = {
+  bybit: 'Bybit',
+  binance: 'Binance',
+  okx: 'OKX',
+};
+
+/** Credentials as typed into the account form; only the RPCs ever see the secret. */
+export interface ExchangeAccountForm {
+  exchange: TradingExchange;
+  label: string;
+  apiKey: string;
+  apiSecret: string;
+  /** OKX only. */
+  passphrase: string;
+}
+
+/** Response of the exchange-account-test edge function. */
+export interface ExchangeAccountTestResult {
+  connected: boolean;
+  /** Why the key was refused, or the exchange's error. */
+  error: string | null;
+}
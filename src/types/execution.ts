@@ -0,0 +1,87 @@
+// Execution Types
+
+import type { LegSide, MarginMode } from '@/types/sizing';
+import type { PairOrderOutcome, TradingAdapter } from '@/types/trading';
+
+export const EXECUTION_STATUSES = ['pending', 'preview', 'confirmed', 'success', 'failed', 'unwind_failed', 'cancelled'] as const;
+export type ExecutionStatus = typeof EXECUTION_STATUSES[number];
+
+/**
+ * Allowed moves between executions.status values. A row is created as a
+ * preview, confirmed explicitly by the user, then goes pending while its
+ * orders are worked and ends in success or failed. unwind_failed is a failed
+ * pair that left one leg open; its fills hold what is still open, and it
+ * counts as an open position until closed. Terminal states have no exits.
+ */
+export const EXECUTION_TRANSITIONS: Record<ExecutionStatus, ExecutionStatus[]> = {
+  preview: ['confirmed', 'cancelled'],
+  confirmed: ['pending', 'failed', 'cancelled'],
+  pending: ['success', 'failed', 'unwind_failed'],
+  success: [],
+  failed: [],
+  unwind_failed: [],
+  cancelled: [],
+};
+
+export type OrderType = 'market' | 'limit';
+
+/** Where confirmed orders go: simulated fills against recorded prices, or a connected exchange. */
+export type ExecutionVenue = 'paper' | 'exchange';
+
+/** Prices move; a preview older than this must be rebuilt before it can be confirmed. */
+export const PREVIEW_TTL_MS = 60 * 1000;
+
+export interface ExecutionOrderLeg {
+  symbol: string;
+  side: LegSide;
+  order_type: OrderType;
+  quantity: number;
+  reference_price: number;
+  /** Worst acceptable fill: the limit price, or the protection bound of a market order. */
+  worst_price: number;
+  notional: number;
+  leverage: number;
+  margin: number;
+}
+
+/** One leg fill recorded on an execution. Paper fills store a superset of this. */
+export interface ExecutionFill {
+  symbol: string;
+  side: LegSide;
+  quantity: number;
+  price: number;
+  fee: number;
+}
+
+/** Recorded when the position an execution opened is closed out. */
+export interface ExecutionClose {
+  closed_at: string;
+  reason: string;
+  fills: ExecutionFill[];
+}
+
+/** Shape of executions.order_details for pair executions. */
+export interface ExecutionOrderDetails {
+  kind: 'pair';
+  venue: ExecutionVenue;
+  signal_id: string;
+  direction: 'long_a_short_b' | 'short_a_long_b';
+  hedge_ratio: number;
+  margin_mode: MarginMode;
+  slippage_tolerance_percent: number;
+  gross_notional: number;
+  /** Notional of B minus |β| × notional of A, in USD. */
+  imbalance: number;
+  legs: ExecutionOrderLeg[];
+  preview_expires_at: string;
+  /** Set once a paper execution has been filled. */
+  paper_position_id?: string;
+  /** Exchange orders and their fills, once an exchange execution has been routed. */
+  routing?: PairOrderOutcome;
+  /** Exchange the orders were routed to; unset for paper. */
+  exchange?: TradingAdapter['exchange'];
+  /** Entry fills of both legs and when they happened, once the pair is open. */
+  fills?: ExecutionFill[];
+  filled_at?: string;
+  close?: ExecutionClose;
+}
@@ -0,0 +1,23 @@
+// Pair Chart Indicator Types
+
+/** Indicators drawn on the pair price scale. */
+export type OverlayIndicator = 'sma' | 'ema' | 'bollinger';
+/** Indicators drawn in their own synced pane below the pair chart. */
+export type PaneIndicator = 'percentB' | 'atr' | 'correlation' | 'beta';
+
+export const BOLLINGER_LENGTH = 20;
+export const BOLLINGER_MULTIPLIER = 2;
+export const ATR_LENGTH = 14;
+
+export const OVERLAY_INDICATOR_LABELS: Record<OverlayIndicator, string> = {
+  sma: 'SMA',
+  ema: 'EMA',
+  bollinger: `Bollinger Bands (${BOLLINGER_LENGTH}, ${BOLLINGER_MULTIPLIER})`,
+};
+
+export const PANE_INDICATOR_LABELS: Record<PaneIndicator, string> = {
+  percentB: `Bollinger %B (${BOLLINGER_LENGTH}, ${BOLLINGER_MULTIPLIER})`,
+  atr: `ATR (${ATR_LENGTH})`,
+  correlation: 'Rolling correlation (legs)',
+  beta: 'Rolling OLS beta (legs)',
+};
@@ -0,0 +1,91 @@
+// Market Data Types
+
+export const MARKET_DATA_EXCHANGES = ['bybit', 'binance', 'okx', 'local'] as const;
+export type MarketDataExchange = typeof MARKET_DATA_EXCHANGES[number];
+
+export const BAR_INTERVALS = ['5m', '15m', '1h', '4h'] as const;
+export type BarInterval = typeof BAR_INTERVALS[number];
+
+export const BAR_INTERVAL_SECONDS: Record<BarInterval, number> = {
+  '5m': 5 * 60,
+  '15m': 15 * 60,
+  '1h': 60 * 60,
+  '4h': 4 * 60 * 60,
+};
+
+/** One OHLCV bar. `time` is the bar open time in unix seconds (UTC). */
+export interface Candle {
+  time: number;
+  open: number;
+  high: number;
+  low: number;
+  close: number;
+  volume: number;
+}
+
+/** A bar where both legs of a pair have data at the same timestamp. */
+export interface AlignedCandle {
+  time: number;
+  a: Candle;
+  b: Candle;
+}
+
+export interface CandleRequest {
+  symbol: string;
+  interval: BarInterval;
+  /** Number of bars to load, most recent last. */
+  limit: number;
+  /** Inclusive upper bound in unix seconds. Defaults to now. */
+  endTime?: number;
+}
+
+export interface KlinePageRequest {
+  symbol: string;
+  interval: BarInterval;
+  limit: number;
+  endTime: number;
+}
+
+/** Order constraints for a linear perpetual; quantities are in base-asset units. */
+export interface InstrumentSpec {
+  symbol: string;
+  qtyStep: number;
+  minQty: number;
+  tickSize: number;
+  /** Smallest order value in quote currency, where the exchange enforces one. */
+  minNotional: number | null;
+}
+
+export interface MarketDataAdapter {
+  exchange: MarketDataExchange;
+  /** Largest page the exchange returns in a single kline request. */
+  maxPageSize: number;
+  /** Fetch one page of bars ending at or before `endTime`, sorted ascending. */
+  fetchPage: (request: KlinePageRequest) => Promise<Candle[]>;
+  /** Lot and tick sizes for a symbol; absent for sources without order books. */
+  fetchInstrument?: (symbol: string) => Promise<InstrumentSpec>;
+}
+
+/**
+ * Kalman filter noise for the dynamic hedge ratio. The state (β, α) follows a
+ * random walk with covariance δ/(1 − δ)·I; observations of ln A carry
+ * variance `observationVariance`.
+ */
+export interface KalmanParams {
+  delta: number;
+  observationVariance: number;
+}
+
+export const DEFAULT_KALMAN_PARAMS: KalmanParams = {
+  delta: 1e-4,
+  observationVariance: 1e-3,
+};
+
+/**
+ * Pair series construction: plain A/B ratio, log spread ln A − β·ln B with
+ * the static β from pair metrics, or the Kalman log spread ln A − β_t·ln B − α_t with time-varying β_t, α_t.
+ */
+export type PairConstruction =
+  | { mode: 'ratio' }
+  | { mode: 'spread'; beta: number }
+  | ({ mode: 'kalman' } & KalmanParams);
@@ -0,0 +1,67 @@
+// Signal Outcome Types
+
+import type { BarInterval } from '@/types/marketData';
+
+/** How expired signals are replayed against market data. */
+export interface OutcomeParams {
+  interval: BarInterval;
+  /** Horizon in multiples of the pair's half-life. */
+  halfLives: number;
+  /** The spread counts as reverted once |z| is back inside this band. */
+  exitZ: number;
+  /** Bars before the signal used to fix the spread's mean and std. */
+  lookbackBars: number;
+  /** Fewer pre-signal bars than this and the signal is not scored. */
+  minLookbackBars: number;
+}
+
+/** Stored on every outcome row so a change here doesn't mix rule sets. */
+export const DEFAULT_OUTCOME_PARAMS: OutcomeParams = {
+  interval: '15m',
+  halfLives: 3,
+  exitZ: 0.5,
+  lookbackBars: 400,
+  minLookbackBars: 100,
+};
+
+export type OutcomeGrouping = 'confidence' | 'correlation' | 'direction';
+
+export interface OutcomeBucket {
+  key: string;
+  label: string;
+  /** Inclusive lower bound; null for categorical buckets. */
+  min: number | null;
+}
+
+export const CONFIDENCE_BUCKETS: OutcomeBucket[] = [
+  { key: 'lt60', label: '< 60%', min: -Infinity },
+  { key: '60', label: '60–70%', min: 0.6 },
+  { key: '70', label: '70–80%', min: 0.7 },
+  { key: '80', label: '80–90%', min: 0.8 },
+  { key: '90', label: '≥ 90%', min: 0.9 },
+];
+
+export const CORRELATION_BUCKETS: OutcomeBucket[] = [
+  { key: 'lt70', label: '< 0.70', min: -Infinity },
+  { key: '70', label: '0.70–0.80', min: 0.7 },
+  { key: '80', label: '0.80–0.90', min: 0.8 },
+  { key: '90', label: '≥ 0.90', min: 0.9 },
+];
+
+export const DIRECTION_BUCKETS: OutcomeBucket[] = [
+  { key: 'long_a_short_b', label: 'Long A / Short B', min: null },
+  { key: 'short_a_long_b', label: 'Short A / Long B', min: null },
+];
+
+export interface OutcomeBucketStats {
+  key: string;
+  label: string;
+  count: number;
+  /** Share of signals whose z-score crossed the exit band within the horizon. */
+  hitRate: number;
+  /** Share of signals with a positive realized return. */
+  winRate: number;
+  avgReturn: number;
+  avgMfe: number;
+  avgMae: number;
+}
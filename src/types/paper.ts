@@ -0,0 +1,81 @@
+// Paper Trading Types
+
+import type { BarInterval, MarketDataExchange } from '@/types/marketData';
+import type { LegSide } from '@/types/sizing';
+
+export interface PaperSettings {
+  /** Adverse move applied to every simulated fill, in percent of price. */
+  slippagePercent: number;
+  /** Taker fee charged on each fill's notional, in percent. */
+  feePercent: number;
+  /** Close once the spread's z-score reverts inside ±exitZ (user_settings.zscore_exit_threshold). */
+  exitZ: number;
+  /** Stop out once |z| extends beyond this against the position. Null disables. */
+  stopZ: number | null;
+  /** Close after this many hours open. Null disables. */
+  maxHoldHours: number | null;
+}
+
+export const DEFAULT_PAPER_SETTINGS: PaperSettings = {
+  slippagePercent: 0.05,
+  feePercent: 0.055,
+  exitZ: 0.5,
+  stopZ: 4,
+  maxHoldHours: 72,
+};
+
+export const PAPER_POSITION_STATUSES = ['open', 'closed'] as const;
+export type PaperPositionStatus = typeof PAPER_POSITION_STATUSES[number];
+
+export type PaperCloseReason = 'manual' | 'exit_threshold' | 'stop_loss' | 'time_stop';
+
+export const PAPER_CLOSE_REASON_LABELS: Record<PaperCloseReason, string> = {
+  manual: 'Closed manually',
+  exit_threshold: 'Reverted to exit band',
+  stop_loss: 'Z-score stop',
+  time_stop: 'Time stop',
+};
+
+/** Source of the prices paper positions are filled and marked at. */
+export const PAPER_PRICE_EXCHANGE: MarketDataExchange = 'bybit';
+/** Bars used to freeze the spread's mean and std when a position opens. */
+export const PAPER_SPREAD_LOOKBACK_BARS = 400;
+export const PAPER_SPREAD_MIN_BARS = 100;
+/** Bar size used for marks; the latest bar's close is the current price. */
+export const PAPER_MARK_INTERVAL: BarInterval = '5m';
+export const PAPER_MARK_REFRESH_MS = 30 * 1000;
+
+/** One simulated fill, as stored in paper_positions.entry_fills / exit_fills. */
+export interface PaperFill {
+  symbol: string;
+  side: LegSide;
+  quantity: number;
+  /** Recorded price the fill was simulated from. */
+  reference_price: number;
+  /** Reference price moved against us by the slippage setting. */
+  price: number;
+  notional: number;
+  fee: number;
+}
+
+export interface PaperLegMark {
+  symbol: string;
+  side: LegSide;
+  quantity: number;
+  entryPrice: number;
+  markPrice: number;
+  /** Price PnL before fees, in USD. */
+  pnl: number;
+  /** Price move in the position's favour, as a fraction of entry. */
+  pnlPercent: number;
+}
+
+export interface PaperPositionMark {
+  legs: PaperLegMark[];
+  /** Leg PnL less entry fees; exit costs are only known once it closes. */
+  unrealizedPnl: number;
+  /** Unrealized PnL over the margin committed at entry. */
+  returnOnMargin: number;
+  z: number;
+  markedAt: number;
+}
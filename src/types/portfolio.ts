@@ -0,0 +1,77 @@
+// Portfolio Risk Types
+
+import type { BarInterval } from '@/types/marketData';
+import type { LegSide } from '@/types/sizing';
+
+/** Every asset's exposure is also expressed in BTC-equivalent terms against this market. */
+export const BTC_BETA_SYMBOL = 'BTCUSDT';
+
+/** Bars of log returns each asset's BTC beta is regressed over: about three weeks of hours. */
+export const BTC_BETA_INTERVAL: BarInterval = '1h';
+export const BTC_BETA_LOOKBACK_BARS = 500;
+
+/** Below this many aligned bars a beta isn't trusted and the asset counts at β 1. */
+export const BTC_BETA_MIN_BARS = 50;
+
+/** Quote currencies stripped from a perp symbol to get the underlying asset. */
+export const QUOTE_ASSETS = ['USDT', 'USDC', 'BUSD', 'USD'] as const;
+
+/** One leg of an open (or proposed) pair, as it contributes to portfolio exposure. */
+export interface ExposureLeg {
+  asset: string;
+  symbol: string;
+  /** Exchange the leg lives on; 'paper' for simulated positions. */
+  exchange: string;
+  side: LegSide;
+  quantity: number;
+  /** Fill price, or the reference price for a leg not yet filled. */
+  entryPrice: number;
+  margin: number;
+}
+
+export interface ExposureMarket {
+  /** Latest price per asset; legs without one are valued at their entry price. */
+  prices: Record<string, number>;
+  /** Return beta to BTC per asset; assets without one count at β 1. */
+  betas: Record<string, number>;
+}
+
+export interface DirectionalExposure {
+  long: number;
+  short: number;
+  /** Long minus short notional, in USD. */
+  net: number;
+  /** Long plus short notional, in USD. */
+  gross: number;
+}
+
+export interface AssetExposure extends DirectionalExposure {
+  asset: string;
+  exchanges: string[];
+  beta: number;
+  /** Net notional × beta: the BTC position this asset behaves like, in USD. */
+  btcExposure: number;
+}
+
+export interface ExchangeExposure extends DirectionalExposure {
+  exchange: string;
+  margin: number;
+}
+
+export interface PortfolioExposure extends DirectionalExposure {
+  assets: AssetExposure[];
+  exchanges: ExchangeExposure[];
+  /** Sum of every asset's beta-weighted exposure, in USD of BTC. */
+  btcExposure: number;
+  margin: number;
+  /** Margin as a fraction of equity; null when no equity is known. */
+  marginUtilization: number | null;
+}
+
+/** An asset a proposed trade would push past the user's exposure cap. */
+export interface ExposureCapBreach {
+  asset: string;
+  before: number;
+  after: number;
+  cap: number;
+}
@@ -0,0 +1,50 @@
+// Risk Limit Types
+
+import type { TradingExchange } from '@/types/trading';
+
+export const RISK_LIMIT_KEYS = [
+  'max_concurrent_pairs',
+  'max_leverage',
+  'max_pair_notional',
+  'max_daily_loss',
+  'allowed_exchanges',
+] as const;
+export type RiskLimitKey = typeof RISK_LIMIT_KEYS[number];
+
+export const RISK_LIMIT_LABELS: Record<RiskLimitKey, string> = {
+  max_concurrent_pairs: 'Max concurrent pairs',
+  max_leverage: 'Max leverage per leg',
+  max_pair_notional: 'Max notional per pair',
+  max_daily_loss: 'Max daily loss',
+  allowed_exchanges: 'Allowed exchanges',
+};
+
+/**
+ * One risk_limits row's limits. On the defaults row null means unlimited; on
+ * a user's override row null means the default applies.
+ */
+export interface RiskLimitValues {
+  max_concurrent_pairs: number | null;
+  max_leverage: number | null;
+  /** Gross notional of both legs, in USD. */
+  max_pair_notional: number | null;
+  /** Realized loss since 00:00 UTC, in USD. */
+  max_daily_loss: number | null;
+  /** Exchanges live executions may route to; paper trading is always allowed. */
+  allowed_exchanges: TradingExchange[] | null;
+}
+
+export const EMPTY_RISK_LIMITS: RiskLimitValues = {
+  max_concurrent_pairs: null,
+  max_leverage: null,
+  max_pair_notional: null,
+  max_daily_loss: null,
+  allowed_exchanges: null,
+};
+
+/** A limit an execution would break, as reported by the database. */
+export interface RiskLimitViolation {
+  /** Null for a limit this client doesn't know about yet. */
+  limit: RiskLimitKey | null;
+  message: string;
+}
@@ -0,0 +1,58 @@
+// Client-side Pair Scanner Types
+
+import type { BarInterval, Candle } from '@/types/marketData';
+
+/** Pair filters from user_settings; a pair must pass all of them. */
+export interface ScanThresholds {
+  minCorrelation: number;
+  maxCointegrationPValue: number;
+  /** Mean-reversion speed per hour, as stored in pair_metrics.ou_theta. */
+  ouThetaMin: number;
+  halfLifeMaxHours: number;
+  hurstMax: number;
+}
+
+/** Schema defaults for user_settings, used when a column is unset. */
+export const DEFAULT_SCAN_THRESHOLDS: ScanThresholds = {
+  minCorrelation: 0.7,
+  maxCointegrationPValue: 0.05,
+  ouThetaMin: 0.01,
+  halfLifeMaxHours: 72,
+  hurstMax: 0.5,
+};
+
+/** Filter a pair failed; 'data' means too few overlapping bars to test. */
+export type ScanFilter = 'data' | 'correlation' | 'cointegration' | 'ou_theta' | 'half_life' | 'hurst';
+
+export interface PairScanResult {
+  symbolA: string;
+  symbolB: string;
+  /** Overlapping bars the metrics were computed on. */
+  bars: number;
+  /** Pearson correlation of the legs' log returns. */
+  correlation: number | null;
+  /** Engle–Granger p-value of ln A on ln B. */
+  cointegrationPValue: number | null;
+  hedgeRatio: number | null;
+  ouThetaPerHour: number | null;
+  halfLifeHours: number | null;
+  hurst: number | null;
+  failures: ScanFilter[];
+}
+
+// --- Worker protocol ---
+
+export interface ScanWorkerRequest {
+  type: 'scan';
+  scanId: number;
+  interval: BarInterval;
+  /** Candles per symbol; every pair of keys is scanned. */
+  candles: Record<string, Candle[]>;
+  thresholds: ScanThresholds;
+  minBars: number;
+}
+
+export type ScanWorkerMessage =
+  | { type: 'results'; scanId: number; results: PairScanResult[]; completed: number; total: number }
+  | { type: 'done'; scanId: number }
+  | { type: 'error'; scanId: number; message: string };
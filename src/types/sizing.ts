@@ -0,0 +1,67 @@
+// Position Sizing Types
+
+export type PositionSizeMode = 'percent_equity' | 'fixed_notional';
+export type MarginMode = 'isolated' | 'cross';
+
+/** Execution defaults from user_settings that drive pair sizing. */
+export interface SizingSettings {
+  mode: PositionSizeMode;
+  /** Percent of equity or USD, depending on `mode`; sizes the gross notional of both legs. */
+  value: number;
+  leverageLong: number;
+  leverageShort: number;
+  marginMode: MarginMode;
+}
+
+/** Schema defaults for user_settings, used when a column is unset. */
+export const DEFAULT_SIZING_SETTINGS: SizingSettings = {
+  mode: 'percent_equity',
+  value: 5,
+  leverageLong: 3,
+  leverageShort: 3,
+  marginMode: 'isolated',
+};
+
+/**
+ * Maintenance margin as a fraction of notional, used for liquidation estimates.
+ * Exchanges tier this by position size; 0.5% is the entry tier on the majors.
+ */
+export const DEFAULT_MAINTENANCE_MARGIN_RATE = 0.005;
+
+export type LegSide = 'buy' | 'sell';
+
+export type LegWarning = 'below_min_qty' | 'below_min_notional' | 'no_instrument';
+
+export interface LegSizing {
+  symbol: string;
+  side: LegSide;
+  /** Reference price rounded to the instrument tick. */
+  price: number;
+  /** Null when the instrument couldn't be loaded. */
+  tickSize: number | null;
+  /** Notional this leg should carry before rounding. */
+  targetNotional: number;
+  /** Quantity rounded down to the lot step, in base units. */
+  quantity: number;
+  notional: number;
+  leverage: number;
+  margin: number;
+  /** Estimated liquidation price and how far away it is as a fraction of price. */
+  liquidationPrice: number;
+  liquidationDistance: number;
+  warnings: LegWarning[];
+}
+
+export interface PairSizing {
+  /** Gross notional the settings ask for across both legs. */
+  targetGrossNotional: number;
+  legA: LegSizing;
+  legB: LegSizing;
+  /** Notional of B minus |β| × notional of A after rounding; zero is beta-neutral. */
+  imbalance: number;
+  /** Imbalance as a fraction of gross notional. */
+  imbalanceRatio: number;
+  totalMargin: number;
+  /** Total margin exceeds the equity entered. */
+  exceedsEquity: boolean;
+}
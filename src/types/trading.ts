@@ -0,0 +1,124 @@
+// Trading Types
+
+import type { OrderType } from '@/types/execution';
+import type { LegSide, MarginMode } from '@/types/sizing';
+
+export const TRADING_EXCHANGES = ['bybit', 'binance', 'okx'] as const;
+export type TradingExchange = typeof TRADING_EXCHANGES[number];
+
+export type TimeInForce = 'gtc' | 'ioc';
+
+export interface OrderRequest {
+  symbol: string;
+  side: LegSide;
+  type: OrderType;
+  /** In base-asset units; adapters convert to contracts where the exchange needs it. */
+  quantity: number;
+  /** Required for limit orders. */
+  price?: number;
+  timeInForce?: TimeInForce;
+  reduceOnly?: boolean;
+  clientOrderId?: string;
+}
+
+export type OrderStatus = 'new' | 'partially_filled' | 'filled' | 'cancelled' | 'rejected';
+
+export interface OrderResult {
+  orderId: string;
+  clientOrderId: string | null;
+  symbol: string;
+  side: LegSide;
+  status: OrderStatus;
+  quantity: number;
+  filledQuantity: number;
+  /** Average fill price; null until something fills. */
+  avgPrice: number | null;
+}
+
+export interface ExchangePosition {
+  symbol: string;
+  side: 'long' | 'short';
+  /** Absolute size in base-asset units. */
+  size: number;
+  entryPrice: number;
+  markPrice: number;
+  unrealizedPnl: number;
+  leverage: number;
+  marginMode: MarginMode;
+  liquidationPrice: number | null;
+}
+
+export interface Balance {
+  asset: string;
+  total: number;
+  available: number;
+}
+
+export interface TradingAdapter {
+  exchange: TradingExchange | 'mock';
+  /** Send an order and resolve with its exchange id once accepted; it may still be working. */
+  submitOrder: (order: OrderRequest) => Promise<string>;
+  /** Send an order and wait until it is filled, cancelled or rejected, or the wait times out. */
+  placeOrder: (order: OrderRequest) => Promise<OrderResult>;
+  cancelOrder: (symbol: string, orderId: string) => Promise<OrderResult>;
+  getOrder: (symbol: string, orderId: string) => Promise<OrderResult>;
+  getOrderByClientId: (symbol: string, clientOrderId: string) => Promise<OrderResult>;
+  getPositions: () => Promise<ExchangePosition[]>;
+  getBalances: () => Promise<Balance[]>;
+  setLeverage: (symbol: string, leverage: number) => Promise<void>;
+  /** Some exchanges set leverage together with the margin mode, so it is passed along. */
+  setMarginMode: (symbol: string, mode: MarginMode, leverage: number) => Promise<void>;
+}
+
+/** Signs a request payload with the account secret; returns the raw MAC. */
+export type Signer = (payload: string) => Promise<ArrayBuffer>;
+
+export interface TradingCredentials {
+  apiKey: string;
+  sign: Signer;
+  /** OKX only. */
+  passphrase?: string;
+}
+
+export type TradingErrorKind =
+  | 'rejected'
+  | 'rate_limited'
+  | 'insufficient_balance'
+  | 'not_found'
+  | 'auth'
+  | 'network';
+
+/** Errors thrown by trading adapters carry a kind the execution flow can act on. */
+export interface TradingError extends Error {
+  kind: TradingErrorKind;
+  exchange: TradingAdapter['exchange'];
+  /** The exchange's own error code, when it sent one. */
+  code: string | null;
+  /** How long the exchange asked us to back off, for rate limits. */
+  retryAfterMs: number | null;
+}
+
+/**
+ * `unwind_failed`: a leg is open without its hedge. Either the second leg
+ * didn't open and flattening the first didn't finish, a partial fill couldn't
+ * be trimmed back to the hedge ratio, or a placed order's fill couldn't be read.
+ */
+export type PairOrderStatus = 'filled' | 'partial' | 'failed' | 'unwind_failed';
+
+export interface PairLegOrder {
+  symbol: string;
+  order: OrderResult | null;
+  error: string | null;
+}
+
+/** What happened when both legs of a pair were sent to an exchange. */
+export interface PairOrderOutcome {
+  status: PairOrderStatus;
+  legs: PairLegOrder[];
+  /**
+   * Reduce-only order that flattened the first leg after the second failed,
+   * or trimmed the fuller leg back to the hedge ratio after a partial fill.
+   */
+  unwind: OrderResult | null;
+  error: string | null;
+}
@@ -0,0 +1,41 @@
+/// <reference lib="webworker" />
+/**
+ * Runs a pair scan off the main thread. Results are posted in batches as
+ * pairs complete so the page can rank them while the scan continues.
+ * Cancelling is done by terminating the worker.
+ */
+
+import { enumeratePairs, scanPair } from '@/lib/pairScanner';
+import type { PairScanResult, ScanWorkerMessage, ScanWorkerRequest } from '@/types/scanner';
+
+declare const self: DedicatedWorkerGlobalScope;
+
+// Flush at most this often to keep re-renders cheap on large universes
+const BATCH_INTERVAL_MS = 150;
+
+const post = (message: ScanWorkerMessage) => self.postMessage(message);
+
+self.onmessage = (event: MessageEvent<ScanWorkerRequest>) => {
+  const { scanId, interval, candles, thresholds, minBars } = event.data;
+
+  try {
+    const pairs = enumeratePairs(Object.keys(candles));
+    let batch: PairScanResult[] = [];
+    let lastFlush = performance.now();
+
+    pairs.forEach(([symbolA, symbolB], i) => {
+      batch.push(scanPair(symbolA, symbolB, candles[symbolA], candles[symbolB], interval, thresholds, minBars));
+
+      const completed = i + 1;
+      if (completed === pairs.length || performance.now() - lastFlush >= BATCH_INTERVAL_MS) {
+        post({ type: 'results', scanId, results: batch, completed, total: pairs.length });
+        batch = [];
+        lastFlush = performance.now();
+      }
+    });
+
+    post({ type: 'done', scanId });
+  } catch (err) {
+    post({ type: 'error', scanId, message: err instanceof Error ? err.message : 'Scan failed' });
+  }
+};
@@ -0,0 +1,99 @@
+/**
+ * API key permission checks for connected exchange accounts. The exchanges
+ * each describe a key's scopes differently; these parsers reduce them to the
+ * few capabilities we care about so a key can be held to trade-only.
+ *
+ * Shared by edge functions; it has no imports so the app's tests can load it
+ * too.
+ */
+
+/** Mirrors TRADING_EXCHANGES. */
+export type KeyExchange = 'bybit' | 'binance' | 'okx';
+
+export interface ApiKeyPermissions {
+  read: boolean;
+  /** Can place derivatives orders. */
+  trade: boolean;
+  withdraw: boolean;
+  /** Can move funds between the account's own wallets or sub-accounts. */
+  transfer: boolean;
+}
+
+export type ApiKeyPermission = keyof ApiKeyPermissions;
+
+const PERMISSION_ORDER: ApiKeyPermission[] = ['read', 'trade', 'transfer', 'withdraw'];
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const strings = (value: unknown): string[] =>
+  Array.isArray(value) ? value.filter((v): v is string => typeof v === 'string') : [];
+
+/** `result` of Bybit GET /v5/user/query-api. */
+export function parseBybitKeyInfo(result: unknown): ApiKeyPermissions {
+  if (!isRecord(result) || !isRecord(result.permissions)) throw new Error('Unexpected Bybit key info response');
+  const scopes = result.permissions;
+  const readOnly = Number(result.readOnly) === 1;
+  const contract = strings(scopes.ContractTrade);
+  const wallet = strings(scopes.Wallet);
+  return {
+    read: true,
+    trade: !readOnly && (contract.includes('Order') || contract.includes('Position')),
+    withdraw: wallet.includes('Withdraw'),
+    transfer: wallet.includes('AccountTransfer') || wallet.includes('SubMemberTransfer'),
+  };
+}
+
+/** Body of Binance GET /sapi/v1/account/apiRestrictions. */
+export function parseBinanceKeyRestrictions(body: unknown): ApiKeyPermissions {
+  if (!isRecord(body) || typeof body.enableWithdrawals !== 'boolean') {
+    throw new Error('Unexpected Binance key restrictions response');
+  }
+  return {
+    read: body.enableReading === true,
+    trade: body.enableFutures === true,
+    withdraw: body.enableWithdrawals,
+    transfer: body.enableInternalTransfer === true || body.permitsUniversalTransfer === true,
+  };
+}
+
+/** First `data` entry of OKX GET /api/v5/account/config; `perm` is e.g. "read_only,trade". */
+export function parseOkxAccountConfig(config: unknown): ApiKeyPermissions {
+  if (!isRecord(config) || typeof config.perm !== 'string') throw new Error('Unexpected OKX account config response');
+  const perms = config.perm.split(',').map((p) => p.trim());
+  return {
+    read: perms.includes('read_only'),
+    trade: perms.includes('trade'),
+    withdraw: perms.includes('withdraw'),
+    transfer: false,
+  };
+}
+
+export function parseKeyPermissions(exchange: KeyExchange, payload: unknown): ApiKeyPermissions {
+  switch (exchange) {
+    case 'bybit':
+      return parseBybitKeyInfo(payload);
+    case 'binance':
+      return parseBinanceKeyRestrictions(payload);
+    case 'okx':
+      return parseOkxAccountConfig(payload);
+  }
+}
+
+/** Granted capabilities as stored in exchange_accounts.permissions. */
+export function permissionList(permissions: ApiKeyPermissions): ApiKeyPermission[] {
+  return PERMISSION_ORDER.filter((p) => permissions[p]);
+}
+
+/**
+ * Why a key can't be connected, or null when it can trade and nothing more
+ * dangerous. Withdrawal and transfer rights are refused outright: a leaked
+ * trade key can lose money, a leaked key that can move funds can lose all of
+ * it.
+ */
+export function tradeOnlyViolation(permissions: ApiKeyPermissions): string | null {
+  if (permissions.withdraw) return 'Key has withdrawal permission. Create a new key with trading permission only.';
+  if (permissions.transfer) return 'Key has transfer permission. Create a new key with trading permission only.';
+  if (!permissions.trade) return 'Key cannot trade derivatives. Enable contract or futures trading on the key.';
+  return null;
+}
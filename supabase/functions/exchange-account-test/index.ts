@@ -0,0 +1,157 @@
+/**
+ * Test an exchange account's stored key: ask the exchange what the key is
+ * allowed to do, then mark the account connected only if it can trade and
+ * cannot withdraw or transfer funds. Credentials are read from Vault here and
+ * never returned.
+ */
+
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2';
+import {
+  parseKeyPermissions,
+  permissionList,
+  tradeOnlyViolation,
+  type ApiKeyPermission,
+  type KeyExchange,
+} from '../_shared/exchangeKeys.ts';
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+};
+
+interface StoredCredentials {
+  api_key: string;
+  api_secret: string;
+  passphrase: string | null;
+}
+
+const json = (body: unknown, status = 200) =>
+  new Response(JSON.stringify(body), { status, headers: { ...corsHeaders, 'Content-Type': 'application/json' } });
+
+const encoder = new TextEncoder();
+
+async function hmac(secret: string, payload: string): Promise<Uint8Array> {
+  const key = await crypto.subtle.importKey('raw', encoder.encode(secret), { name: 'HMAC', hash: 'SHA-256' }, false, ['sign']);
+  return new Uint8Array(await crypto.subtle.sign('HMAC', key, encoder.encode(payload)));
+}
+
+const hex = (bytes: Uint8Array) => Array.from(bytes, (b) => b.toString(16).padStart(2, '0')).join('');
+
+const base64 = (bytes: Uint8Array) => btoa(String.fromCharCode(...bytes));
+
+/** The exchange's own description of the key, ready for parseKeyPermissions. */
+async function fetchKeyPermissions(exchange: KeyExchange, creds: StoredCredentials): Promise<unknown> {
+  switch (exchange) {
+    case 'bybit': {
+      const timestamp = String(Date.now());
+      const recvWindow = '5000';
+      const res = await fetch('https://api.bybit.com/v5/user/query-api', {
+        headers: {
+          'X-BAPI-API-KEY': creds.api_key,
+          'X-BAPI-TIMESTAMP': timestamp,
+          'X-BAPI-RECV-WINDOW': recvWindow,
+          'X-BAPI-SIGN': hex(await hmac(creds.api_secret, timestamp + creds.api_key + recvWindow)),
+        },
+      });
+      const body = await res.json();
+      if (body.retCode !== 0) throw new Error(`Bybit rejected the key: ${body.retMsg} (${body.retCode})`);
+      return body.result;
+    }
+    case 'binance': {
+      const query = `recvWindow=5000&timestamp=${Date.now()}`;
+      const signature = hex(await hmac(creds.api_secret, query));
+      const res = await fetch(`https://api.binance.com/sapi/v1/account/apiRestrictions?${query}&signature=${signature}`, {
+        headers: { 'X-MBX-APIKEY': creds.api_key },
+      });
+      const body = await res.json();
+      if (!res.ok) throw new Error(`Binance rejected the key: ${body.msg} (${body.code})`);
+      return body;
+    }
+    case 'okx': {
+      const path = '/api/v5/account/config';
+      const timestamp = new Date().toISOString();
+      const res = await fetch(`https://www.okx.com${path}`, {
+        headers: {
+          'OK-ACCESS-KEY': creds.api_key,
+          'OK-ACCESS-SIGN': base64(await hmac(creds.api_secret, `${timestamp}GET${path}`)),
+          'OK-ACCESS-TIMESTAMP': timestamp,
+          'OK-ACCESS-PASSPHRASE': creds.passphrase ?? '',
+        },
+      });
+      const body = await res.json();
+      if (body.code !== '0') throw new Error(`OKX rejected the key: ${body.msg} (${body.code})`);
+      return body.data?.[0];
+    }
+  }
+}
+
+Deno.serve(async (req) => {
+  if (req.method === 'OPTIONS') return new Response(null, { headers: corsHeaders });
+
+  const authorization = req.headers.get('Authorization');
+  if (!authorization) return json({ error: 'Not authenticated' }, 401);
+
+  const supabaseUrl = Deno.env.get('SUPABASE_URL') ?? '';
+  const userClient = createClient(supabaseUrl, Deno.env.get('SUPABASE_ANON_KEY') ?? '', {
+    global: { headers: { Authorization: authorization } },
+  });
+  const { data: { user } } = await userClient.auth.getUser();
+  if (!user) return json({ error: 'Not authenticated' }, 401);
+
+  const { account_id: accountId } = await req.json().catch(() => ({}));
+  if (typeof accountId !== 'string') return json({ error: 'account_id is required' }, 400);
+
+  const admin = createClient(supabaseUrl, Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? '');
+  const { data: account, error: accountError } = await admin
+    .from('exchange_accounts')
+    .select('*')
+    .eq('id', accountId)
+    .eq('user_id', user.id)
+    .maybeSingle();
+  if (accountError) return json({ error: accountError.message }, 500);
+  if (!account) return json({ error: 'Exchange account not found' }, 404);
+  if (account.status === 'revoked') return json({ error: 'Exchange account has been revoked' }, 409);
+
+  const { data: creds, error: credsError } = await admin.rpc('get_exchange_account_credentials', { _account_id: account.id });
+  if (credsError) return json({ error: credsError.message }, 500);
+  if (!creds) return json({ error: 'Stored credentials are missing; enter the key again' }, 409);
+
+  const exchange = account.exchange_name as KeyExchange;
+  let permissions: ApiKeyPermission[] = [];
+  let testError: string | null = null;
+  try {
+    const granted = parseKeyPermissions(exchange, await fetchKeyPermissions(exchange, creds as StoredCredentials));
+    permissions = permissionList(granted);
+    testError = tradeOnlyViolation(granted);
+  } catch (e) {
+    testError = e instanceof Error ? e.message : String(e);
+  }
+  const connected = testError === null;
+
+  const { data: updated, error: updateError } = await admin
+    .from('exchange_accounts')
+    .update({
+      is_connected: connected,
+      status: connected ? 'connected' : 'failed',
+      permissions,
+      last_tested_at: new Date().toISOString(),
+      last_test_error: testError,
+    })
+    .eq('id', account.id)
+    // A revoke that landed while the exchange was answering wins
+    .neq('status', 'revoked')
+    .select()
+    .maybeSingle();
+  if (updateError) return json({ error: updateError.message }, 500);
+  if (!updated) return json({ error: 'Exchange account has been revoked' }, 409);
+
+  await admin.from('audit_logs').insert({
+    user_id: user.id,
+    action: 'exchange_account_tested',
+    entity_type: 'exchange_account',
+    entity_id: account.id,
+    details: { exchange, connected, permissions, error: testError },
+  });
+
+  return json({ account: updated, connected, error: testError });
+});
@@ -0,0 +1,3 @@
+-- Stream signal and scan status changes to the Dashboard over Supabase Realtime
+ALTER PUBLICATION supabase_realtime ADD TABLE public.signals;
+ALTER PUBLICATION supabase_realtime ADD TABLE public.global_scan_config;
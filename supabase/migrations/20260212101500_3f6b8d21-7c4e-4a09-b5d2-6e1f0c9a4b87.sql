@@ -0,0 +1,46 @@
+-- Per-signal outcome, scored once a signal's horizon has passed
+CREATE TABLE public.signal_outcomes (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  signal_id UUID REFERENCES public.signals(id) ON DELETE SET NULL UNIQUE,
+  -- Snapshot of the signal, kept so the scorecard survives signal cleanup
+  symbol_a TEXT NOT NULL,
+  symbol_b TEXT NOT NULL,
+  signal_direction TEXT NOT NULL,
+  confidence_score NUMERIC,
+  correlation NUMERIC,
+  half_life_hours NUMERIC,
+  hedge_ratio NUMERIC NOT NULL,
+  signal_created_at TIMESTAMPTZ NOT NULL,
+  -- Scoring rules the outcome was computed under
+  bar_interval TEXT NOT NULL,
+  horizon_half_lives NUMERIC NOT NULL,
+  horizon_bars INTEGER NOT NULL,
+  exit_threshold NUMERIC NOT NULL,
+  -- Result
+  entry_z NUMERIC NOT NULL,
+  exit_z NUMERIC NOT NULL,
+  exit_crossed BOOLEAN NOT NULL,
+  bars_to_exit INTEGER,
+  bars_held INTEGER NOT NULL,
+  max_favorable_excursion NUMERIC NOT NULL,
+  max_adverse_excursion NUMERIC NOT NULL,
+  realized_return NUMERIC NOT NULL,
+  evaluated_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+CREATE INDEX idx_signal_outcomes_signal_created_at ON public.signal_outcomes(signal_created_at DESC);
+
+ALTER TABLE public.signal_outcomes ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Active users can view signal outcomes"
+  ON public.signal_outcomes FOR SELECT
+  TO authenticated
+  USING (public.is_user_active(auth.uid()));
+
+-- The scorecard is shared and the first result per signal sticks, so only
+-- admins may record outcomes
+CREATE POLICY "Admins can manage signal outcomes"
+  ON public.signal_outcomes FOR ALL
+  TO authenticated
+  USING (public.has_role(auth.uid(), 'admin'))
+  WITH CHECK (public.has_role(auth.uid(), 'admin'));
@@ -0,0 +1,117 @@
+-- Paper trading: simulated fill costs and exit rules live with the user's other defaults
+ALTER TABLE public.user_settings
+  ADD COLUMN paper_slippage_percent NUMERIC DEFAULT 0.05,
+  ADD COLUMN paper_fee_percent NUMERIC DEFAULT 0.055,
+  ADD COLUMN paper_stop_zscore NUMERIC DEFAULT 4.0,
+  ADD COLUMN paper_max_hold_hours NUMERIC DEFAULT 72;
+
+-- Open and closed paper pair positions, one per filled paper execution
+CREATE TABLE public.paper_positions (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID REFERENCES auth.users(id) ON DELETE CASCADE NOT NULL,
+  execution_id UUID REFERENCES public.executions(id) ON DELETE SET NULL UNIQUE,
+  signal_id UUID REFERENCES public.signals(id) ON DELETE SET NULL,
+  symbol_a TEXT NOT NULL,
+  symbol_b TEXT NOT NULL,
+  direction TEXT NOT NULL CHECK (direction IN ('long_a_short_b', 'short_a_long_b')),
+  hedge_ratio NUMERIC NOT NULL,
+  -- Spread statistics frozen at entry; marks and exit rules use these
+  spread_mean NUMERIC NOT NULL,
+  spread_std NUMERIC NOT NULL,
+  entry_z NUMERIC NOT NULL,
+  gross_notional NUMERIC NOT NULL,
+  margin NUMERIC NOT NULL,
+  entry_fills JSONB NOT NULL,
+  entry_fees NUMERIC NOT NULL DEFAULT 0,
+  -- Rules the position was opened under
+  slippage_percent NUMERIC NOT NULL,
+  fee_percent NUMERIC NOT NULL,
+  exit_z NUMERIC NOT NULL,
+  stop_z NUMERIC,
+  max_hold_hours NUMERIC,
+  status TEXT NOT NULL DEFAULT 'open' CHECK (status IN ('open', 'closed')),
+  exit_fills JSONB,
+  exit_fees NUMERIC,
+  close_reason TEXT,
+  close_z NUMERIC,
+  realized_pnl NUMERIC,
+  opened_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  closed_at TIMESTAMPTZ,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+CREATE INDEX idx_paper_positions_user_status ON public.paper_positions(user_id, status, opened_at DESC);
+
+ALTER TABLE public.paper_positions ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view own paper positions"
+  ON public.paper_positions FOR SELECT
+  TO authenticated
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can create own paper positions"
+  ON public.paper_positions FOR INSERT
+  TO authenticated
+  WITH CHECK (auth.uid() = user_id AND public.is_user_active(auth.uid()));
+
+CREATE POLICY "Users can update own paper positions"
+  ON public.paper_positions FOR UPDATE
+  TO authenticated
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Admins can view all paper positions"
+  ON public.paper_positions FOR SELECT
+  TO authenticated
+  USING (public.has_role(auth.uid(), 'admin'));
+
+CREATE TRIGGER update_paper_positions_updated_at
+  BEFORE UPDATE ON public.paper_positions
+  FOR EACH ROW
+  EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Open a paper position and finish its pending execution as success in one
+-- transaction, so a refused transition can't leave an open position behind a
+-- failed execution. Runs as the caller: both writes go through RLS and the
+-- executions triggers.
+CREATE OR REPLACE FUNCTION public.open_paper_position(_position JSONB)
+RETURNS public.paper_positions
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+DECLARE
+  _row public.paper_positions;
+BEGIN
+  INSERT INTO public.paper_positions (
+    user_id, execution_id, signal_id, symbol_a, symbol_b, direction, hedge_ratio,
+    spread_mean, spread_std, entry_z, gross_notional, margin, entry_fills, entry_fees,
+    slippage_percent, fee_percent, exit_z, stop_z, max_hold_hours, opened_at
+  )
+  SELECT
+    p.user_id, p.execution_id, p.signal_id, p.symbol_a, p.symbol_b, p.direction, p.hedge_ratio,
+    p.spread_mean, p.spread_std, p.entry_z, p.gross_notional, p.margin, p.entry_fills, coalesce(p.entry_fees, 0),
+    p.slippage_percent, p.fee_percent, p.exit_z, p.stop_z, p.max_hold_hours, coalesce(p.opened_at, now())
+  FROM jsonb_populate_record(NULL::public.paper_positions, _position) p
+  RETURNING * INTO _row;
+
+  UPDATE public.executions
+  SET
+    status = 'success',
+    order_details = order_details || jsonb_build_object(
+      'paper_position_id', _row.id,
+      'fills', _row.entry_fills,
+      'filled_at', _row.opened_at
+    ),
+    updated_at = now()
+  WHERE id = _row.execution_id
+    AND status = 'pending'
+    AND order_details->>'venue' = 'paper';
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'This execution was changed elsewhere; reload it and try again';
+  END IF;
+  RETURN _row;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.open_paper_position(JSONB) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.open_paper_position(JSONB) TO authenticated;
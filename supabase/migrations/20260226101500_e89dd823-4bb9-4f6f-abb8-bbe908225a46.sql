@@ -0,0 +1,231 @@
+-- Exchange accounts: API secrets live in Supabase Vault, never in a table the
+-- client can read. Each account's credentials are one vault secret named
+-- exchange_account_<id>; the row itself only keeps the last 4 key characters.
+CREATE EXTENSION IF NOT EXISTS supabase_vault WITH SCHEMA vault;
+
+ALTER TABLE public.exchange_accounts
+  ADD COLUMN label TEXT,
+  ADD COLUMN status TEXT NOT NULL DEFAULT 'untested' CHECK (status IN ('untested', 'connected', 'failed', 'revoked')),
+  ADD COLUMN last_tested_at TIMESTAMPTZ,
+  ADD COLUMN last_test_error TEXT,
+  ADD COLUMN revoked_at TIMESTAMPTZ;
+
+ALTER TABLE public.exchange_accounts ALTER COLUMN permissions SET DEFAULT '{}';
+
+CREATE INDEX idx_exchange_accounts_user ON public.exchange_accounts(user_id, created_at DESC);
+
+-- Writes go through the functions below so the vault and the row stay in step
+DROP POLICY "Users can manage own exchange accounts" ON public.exchange_accounts;
+
+CREATE POLICY "Users can view own exchange accounts"
+  ON public.exchange_accounts FOR SELECT
+  TO authenticated
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Admins can view all exchange accounts"
+  ON public.exchange_accounts FOR SELECT
+  TO authenticated
+  USING (public.has_role(auth.uid(), 'admin'));
+
+-- Add an account; the key starts untested and disconnected
+CREATE OR REPLACE FUNCTION public.add_exchange_account(
+  _exchange_name TEXT,
+  _label TEXT,
+  _api_key TEXT,
+  _api_secret TEXT,
+  _passphrase TEXT DEFAULT NULL
+)
+RETURNS UUID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _user_id UUID := auth.uid();
+  _account_id UUID := gen_random_uuid();
+  _hint TEXT;
+BEGIN
+  IF _user_id IS NULL OR NOT public.is_user_active(_user_id) THEN
+    RAISE EXCEPTION 'Not authorized' USING ERRCODE = '42501';
+  END IF;
+  IF _exchange_name NOT IN ('bybit', 'binance', 'okx') THEN
+    RAISE EXCEPTION 'Unsupported exchange %', _exchange_name;
+  END IF;
+  IF coalesce(btrim(_api_key), '') = '' OR coalesce(btrim(_api_secret), '') = '' THEN
+    RAISE EXCEPTION 'API key and secret are required';
+  END IF;
+  IF _exchange_name = 'okx' AND coalesce(btrim(_passphrase), '') = '' THEN
+    RAISE EXCEPTION 'OKX keys need their passphrase';
+  END IF;
+
+  _hint := right(btrim(_api_key), 4);
+
+  PERFORM vault.create_secret(
+    jsonb_build_object(
+      'api_key', btrim(_api_key),
+      'api_secret', btrim(_api_secret),
+      'passphrase', nullif(btrim(_passphrase), '')
+    )::text,
+    'exchange_account_' || _account_id,
+    'API credentials for exchange account ' || _account_id
+  );
+
+  INSERT INTO public.exchange_accounts (id, user_id, exchange_name, label, api_key_hint, is_connected, permissions, status)
+  VALUES (_account_id, _user_id, _exchange_name, nullif(btrim(_label), ''), _hint, false, '{}', 'untested');
+
+  INSERT INTO public.audit_logs (user_id, action, entity_type, entity_id, details)
+  VALUES (
+    _user_id, 'exchange_account_added', 'exchange_account', _account_id,
+    jsonb_build_object('exchange', _exchange_name, 'label', nullif(btrim(_label), ''), 'api_key_hint', _hint)
+  );
+
+  RETURN _account_id;
+END;
+$$;
+
+-- Rename an account and optionally rotate its key; a new key must be tested again
+CREATE OR REPLACE FUNCTION public.update_exchange_account(
+  _account_id UUID,
+  _label TEXT,
+  _api_key TEXT DEFAULT NULL,
+  _api_secret TEXT DEFAULT NULL,
+  _passphrase TEXT DEFAULT NULL
+)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _user_id UUID := auth.uid();
+  _account public.exchange_accounts;
+  _rotate BOOLEAN := coalesce(btrim(_api_key), '') <> '';
+  _secret TEXT;
+  _secret_id UUID;
+BEGIN
+  IF _user_id IS NULL OR NOT public.is_user_active(_user_id) THEN
+    RAISE EXCEPTION 'Not authorized' USING ERRCODE = '42501';
+  END IF;
+
+  SELECT * INTO _account FROM public.exchange_accounts
+  WHERE id = _account_id AND user_id = _user_id
+  FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Exchange account not found';
+  END IF;
+  IF _account.status = 'revoked' THEN
+    RAISE EXCEPTION 'Exchange account has been revoked';
+  END IF;
+
+  IF _rotate THEN
+    IF coalesce(btrim(_api_secret), '') = '' THEN
+      RAISE EXCEPTION 'API secret is required when replacing the key';
+    END IF;
+    IF _account.exchange_name = 'okx' AND coalesce(btrim(_passphrase), '') = '' THEN
+      RAISE EXCEPTION 'OKX keys need their passphrase';
+    END IF;
+
+    _secret := jsonb_build_object(
+      'api_key', btrim(_api_key),
+      'api_secret', btrim(_api_secret),
+      'passphrase', nullif(btrim(_passphrase), '')
+    )::text;
+    SELECT id INTO _secret_id FROM vault.secrets WHERE name = 'exchange_account_' || _account_id;
+    IF _secret_id IS NULL THEN
+      PERFORM vault.create_secret(_secret, 'exchange_account_' || _account_id, 'API credentials for exchange account ' || _account_id);
+    ELSE
+      PERFORM vault.update_secret(_secret_id, _secret);
+    END IF;
+
+    UPDATE public.exchange_accounts
+    SET label = nullif(btrim(_label), ''),
+        api_key_hint = right(btrim(_api_key), 4),
+        is_connected = false,
+        permissions = '{}',
+        status = 'untested',
+        last_tested_at = NULL,
+        last_test_error = NULL
+    WHERE id = _account_id;
+  ELSE
+    UPDATE public.exchange_accounts
+    SET label = nullif(btrim(_label), '')
+    WHERE id = _account_id;
+  END IF;
+
+  INSERT INTO public.audit_logs (user_id, action, entity_type, entity_id, details)
+  VALUES (
+    _user_id, 'exchange_account_updated', 'exchange_account', _account_id,
+    jsonb_build_object(
+      'exchange', _account.exchange_name,
+      'label', nullif(btrim(_label), ''),
+      'key_rotated', _rotate,
+      'api_key_hint', CASE WHEN _rotate THEN right(btrim(_api_key), 4) ELSE _account.api_key_hint END
+    )
+  );
+END;
+$$;
+
+-- Revoke an account: the secret is destroyed, the row stays for the audit trail
+CREATE OR REPLACE FUNCTION public.revoke_exchange_account(_account_id UUID)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _user_id UUID := auth.uid();
+  _account public.exchange_accounts;
+BEGIN
+  IF _user_id IS NULL THEN
+    RAISE EXCEPTION 'Not authorized' USING ERRCODE = '42501';
+  END IF;
+
+  SELECT * INTO _account FROM public.exchange_accounts
+  WHERE id = _account_id AND user_id = _user_id
+  FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Exchange account not found';
+  END IF;
+  IF _account.status = 'revoked' THEN
+    RETURN;
+  END IF;
+
+  DELETE FROM vault.secrets WHERE name = 'exchange_account_' || _account_id;
+
+  UPDATE public.exchange_accounts
+  SET status = 'revoked',
+      is_connected = false,
+      permissions = '{}',
+      revoked_at = now()
+  WHERE id = _account_id;
+
+  INSERT INTO public.audit_logs (user_id, action, entity_type, entity_id, details)
+  VALUES (
+    _user_id, 'exchange_account_revoked', 'exchange_account', _account_id,
+    jsonb_build_object('exchange', _account.exchange_name, 'label', _account.label, 'api_key_hint', _account.api_key_hint)
+  );
+END;
+$$;
+
+-- Decrypted credentials, for server-side callers (edge functions) only
+CREATE OR REPLACE FUNCTION public.get_exchange_account_credentials(_account_id UUID)
+RETURNS JSONB
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT decrypted_secret::jsonb
+  FROM vault.decrypted_secrets
+  WHERE name = 'exchange_account_' || _account_id
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.add_exchange_account(TEXT, TEXT, TEXT, TEXT, TEXT) FROM PUBLIC, anon;
+REVOKE EXECUTE ON FUNCTION public.update_exchange_account(UUID, TEXT, TEXT, TEXT, TEXT) FROM PUBLIC, anon;
+REVOKE EXECUTE ON FUNCTION public.revoke_exchange_account(UUID) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.add_exchange_account(TEXT, TEXT, TEXT, TEXT, TEXT) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.update_exchange_account(UUID, TEXT, TEXT, TEXT, TEXT) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.revoke_exchange_account(UUID) TO authenticated;
+
+REVOKE EXECUTE ON FUNCTION public.get_exchange_account_credentials(UUID) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.get_exchange_account_credentials(UUID) TO service_role;
@@ -0,0 +1,16 @@
+-- Trade history reads fills and closes from executions.order_details. Paper
+-- executions filled before those fields existed get them from their positions.
+UPDATE public.executions e
+SET order_details = e.order_details
+  || jsonb_build_object('fills', p.entry_fills, 'filled_at', p.opened_at)
+  || CASE
+       WHEN p.status = 'closed' THEN jsonb_build_object(
+         'close', jsonb_build_object('closed_at', p.closed_at, 'reason', p.close_reason, 'fills', p.exit_fills)
+       )
+       ELSE '{}'::jsonb
+     END
+FROM public.paper_positions p
+WHERE p.execution_id = e.id
+  AND NOT (e.order_details ? 'fills');
+
+CREATE INDEX IF NOT EXISTS idx_executions_user_created ON public.executions(user_id, created_at DESC);
@@ -0,0 +1,4 @@
+-- Portfolio risk: cap on the net notional any single asset may carry across open pairs.
+-- NULL leaves the cap off; the execution preview only warns, it never blocks.
+ALTER TABLE public.user_settings
+  ADD COLUMN max_asset_exposure_usd NUMERIC CHECK (max_asset_exposure_usd IS NULL OR max_asset_exposure_usd > 0);
@@ -0,0 +1,332 @@
+-- Pre-trade risk limits. One row with a NULL user_id holds the platform
+-- defaults (a NULL limit there means unlimited); a row per user overrides
+-- them column by column (a NULL limit there inherits the default).
+CREATE TABLE public.risk_limits (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID REFERENCES auth.users(id) ON DELETE CASCADE UNIQUE,
+  max_concurrent_pairs INTEGER CHECK (max_concurrent_pairs > 0),
+  max_leverage NUMERIC CHECK (max_leverage >= 1),
+  max_pair_notional NUMERIC CHECK (max_pair_notional > 0),
+  max_daily_loss NUMERIC CHECK (max_daily_loss > 0),
+  allowed_exchanges TEXT[] CHECK (allowed_exchanges <@ ARRAY['bybit', 'binance', 'okx']),
+  updated_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+-- At most one defaults row
+CREATE UNIQUE INDEX idx_risk_limits_default ON public.risk_limits ((user_id IS NULL)) WHERE user_id IS NULL;
+
+INSERT INTO public.risk_limits (user_id, max_concurrent_pairs, max_leverage, max_pair_notional, max_daily_loss, allowed_exchanges)
+VALUES (NULL, 5, 10, 50000, 2500, ARRAY['bybit', 'binance', 'okx']);
+
+ALTER TABLE public.risk_limits ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view own risk limits"
+  ON public.risk_limits FOR SELECT
+  TO authenticated
+  USING (user_id IS NULL OR auth.uid() = user_id);
+
+CREATE POLICY "Admins can manage risk limits"
+  ON public.risk_limits FOR ALL
+  TO authenticated
+  USING (public.has_role(auth.uid(), 'admin'))
+  WITH CHECK (public.has_role(auth.uid(), 'admin'));
+
+CREATE TRIGGER update_risk_limits_updated_at
+  BEFORE UPDATE ON public.risk_limits
+  FOR EACH ROW
+  EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Defaults with the user's overrides applied; no row at all means no limits
+CREATE OR REPLACE FUNCTION public.effective_risk_limits(_user_id UUID)
+RETURNS TABLE (
+  max_concurrent_pairs INTEGER,
+  max_leverage NUMERIC,
+  max_pair_notional NUMERIC,
+  max_daily_loss NUMERIC,
+  allowed_exchanges TEXT[]
+)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT
+    coalesce(o.max_concurrent_pairs, d.max_concurrent_pairs),
+    coalesce(o.max_leverage, d.max_leverage),
+    coalesce(o.max_pair_notional, d.max_pair_notional),
+    coalesce(o.max_daily_loss, d.max_daily_loss),
+    coalesce(o.allowed_exchanges, d.allowed_exchanges)
+  FROM (SELECT * FROM public.risk_limits WHERE user_id IS NULL) d
+  FULL JOIN (SELECT * FROM public.risk_limits WHERE user_id = _user_id) o ON true
+$$;
+
+-- Every limit a pair execution with these order details would break.
+-- Notional and leverage are worked out from the legs and fills rather than
+-- taken from the summary fields, and details too incomplete to check count
+-- as a violation. _require_exchange is set once an exchange execution is
+-- past confirmation and must say where it is routed. _execution_id is left
+-- out of the open-pair count so a row isn't counted against itself as it
+-- moves through its statuses.
+CREATE OR REPLACE FUNCTION public.risk_limit_violations(
+  _user_id UUID,
+  _order_details JSONB,
+  _row_leverage NUMERIC DEFAULT NULL,
+  _execution_id UUID DEFAULT NULL,
+  _require_exchange BOOLEAN DEFAULT false
+)
+RETURNS TABLE (limit_key TEXT, message TEXT)
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _limits RECORD;
+  _venue TEXT := _order_details->>'venue';
+  _exchange TEXT := _order_details->>'exchange';
+  _legs JSONB := _order_details->'legs';
+  _legs_valid BOOLEAN;
+  _leverage NUMERIC;
+  _notional NUMERIC;
+  _fill_notional NUMERIC;
+  _open_pairs INTEGER;
+  _realized_today NUMERIC;
+BEGIN
+  SELECT * INTO _limits FROM public.effective_risk_limits(_user_id);
+  IF NOT FOUND THEN
+    RETURN;
+  END IF;
+
+  IF _venue IS NULL OR _venue NOT IN ('paper', 'exchange') THEN
+    RETURN QUERY SELECT 'order_details', 'The execution has no valid venue';
+  END IF;
+
+  IF jsonb_typeof(_legs) = 'array' AND jsonb_array_length(_legs) = 2 THEN
+    SELECT
+      bool_and(
+        jsonb_typeof(leg->'quantity') = 'number' AND (leg->>'quantity')::numeric > 0
+        AND jsonb_typeof(leg->'reference_price') = 'number' AND (leg->>'reference_price')::numeric > 0
+        AND jsonb_typeof(leg->'leverage') = 'number' AND (leg->>'leverage')::numeric >= 1
+      ),
+      max(CASE WHEN jsonb_typeof(leg->'leverage') = 'number' THEN (leg->>'leverage')::numeric END),
+      sum(CASE
+        WHEN jsonb_typeof(leg->'quantity') = 'number' AND jsonb_typeof(leg->'reference_price') = 'number'
+        THEN abs((leg->>'quantity')::numeric * (leg->>'reference_price')::numeric)
+      END)
+    INTO _legs_valid, _leverage, _notional
+    FROM jsonb_array_elements(_legs) leg;
+  END IF;
+  IF NOT coalesce(_legs_valid, false) THEN
+    RETURN QUERY SELECT 'order_details', 'Both legs need a quantity, reference price and leverage';
+  END IF;
+
+  -- Filled size counts if it came out larger than the order
+  IF jsonb_typeof(_order_details->'fills') = 'array' THEN
+    SELECT sum(CASE
+      WHEN jsonb_typeof(f->'quantity') = 'number' AND jsonb_typeof(f->'price') = 'number'
+      THEN abs((f->>'quantity')::numeric * (f->>'price')::numeric)
+    END)
+    INTO _fill_notional
+    FROM jsonb_array_elements(_order_details->'fills') f;
+  END IF;
+  _notional := greatest(_notional, _fill_notional);
+  _leverage := greatest(_leverage, _row_leverage);
+
+  IF _venue = 'exchange' AND _limits.allowed_exchanges IS NOT NULL THEN
+    IF cardinality(_limits.allowed_exchanges) = 0 THEN
+      RETURN QUERY SELECT 'allowed_exchanges', 'Live trading is not enabled for your account';
+    ELSIF _exchange IS NOT NULL AND NOT _exchange = ANY(_limits.allowed_exchanges) THEN
+      RETURN QUERY SELECT 'allowed_exchanges',
+        format('%s is not an allowed exchange (allowed: %s)', _exchange, array_to_string(_limits.allowed_exchanges, ', '));
+    END IF;
+  END IF;
+  IF _venue = 'exchange' AND _exchange IS NULL AND _require_exchange THEN
+    RETURN QUERY SELECT 'allowed_exchanges', 'An exchange execution must name its exchange before it is routed';
+  END IF;
+
+  IF _limits.max_leverage IS NOT NULL AND _leverage > _limits.max_leverage THEN
+    RETURN QUERY SELECT 'max_leverage', format('Leg leverage %s× is above the %s× limit', _leverage, _limits.max_leverage);
+  END IF;
+
+  IF _limits.max_pair_notional IS NOT NULL AND _notional > _limits.max_pair_notional THEN
+    RETURN QUERY SELECT 'max_pair_notional',
+      format('Gross notional $%s is above the $%s per-pair limit', round(_notional, 2), _limits.max_pair_notional);
+  END IF;
+
+  IF _limits.max_concurrent_pairs IS NOT NULL THEN
+    -- In flight, or filled (including a leg a failed unwind left) and not yet closed
+    SELECT count(*) INTO _open_pairs
+    FROM public.executions e
+    WHERE e.user_id = _user_id
+      AND e.id IS DISTINCT FROM _execution_id
+      AND (
+        e.status IN ('confirmed', 'pending')
+        OR (e.status IN ('success', 'unwind_failed') AND e.order_details ? 'fills' AND NOT e.order_details ? 'close')
+      );
+    IF _open_pairs >= _limits.max_concurrent_pairs THEN
+      RETURN QUERY SELECT 'max_concurrent_pairs',
+        format('%s pairs already open or in flight; the limit is %s', _open_pairs, _limits.max_concurrent_pairs);
+    END IF;
+  END IF;
+
+  IF _limits.max_daily_loss IS NOT NULL THEN
+    -- Realized PnL of pairs closed since 00:00 UTC: every entry and exit fill
+    -- signed by side, less fees
+    SELECT coalesce(sum(
+      CASE WHEN f->>'side' = 'sell' THEN 1 ELSE -1 END * (f->>'quantity')::numeric * (f->>'price')::numeric
+      - coalesce((f->>'fee')::numeric, 0)
+    ), 0)
+    INTO _realized_today
+    FROM public.executions e,
+      jsonb_array_elements(coalesce(e.order_details->'fills', '[]'::jsonb) || coalesce(e.order_details->'close'->'fills', '[]'::jsonb)) f
+    WHERE e.user_id = _user_id
+      AND e.status IN ('success', 'unwind_failed')
+      AND e.order_details ? 'close'
+      AND (e.order_details->'close'->>'closed_at')::timestamptz >= date_trunc('day', now() AT TIME ZONE 'UTC') AT TIME ZONE 'UTC';
+    IF -_realized_today >= _limits.max_daily_loss THEN
+      RETURN QUERY SELECT 'max_daily_loss',
+        format('Today''s realized loss of $%s has reached the $%s daily limit', round(-_realized_today, 2), _limits.max_daily_loss);
+    END IF;
+  END IF;
+END;
+$$;
+
+-- Checked whenever an execution is created or moves toward opening a
+-- position, so limits hold no matter what the client sends
+CREATE OR REPLACE FUNCTION public.enforce_execution_risk_limits()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _violation RECORD;
+BEGIN
+  IF NEW.status IN ('failed', 'unwind_failed', 'cancelled') THEN
+    RETURN NEW;
+  END IF;
+  -- Routing already passed the check on its way to pending; re-checking the
+  -- fill would only strand orders that are live on the exchange. What the
+  -- check read can't change afterwards (see guard_execution_terms).
+  IF TG_OP = 'UPDATE' AND (NEW.status = OLD.status OR OLD.status = 'pending') THEN
+    RETURN NEW;
+  END IF;
+
+  -- One check per user at a time, so two confirms can't both count the same
+  -- open pairs. Taken before the check's query so its snapshot sees whatever
+  -- the other transaction committed.
+  PERFORM pg_advisory_xact_lock(hashtext(NEW.user_id::text));
+
+  SELECT * INTO _violation
+  FROM public.risk_limit_violations(
+    NEW.user_id,
+    NEW.order_details,
+    greatest(NEW.leverage_long, NEW.leverage_short),
+    NEW.id,
+    NEW.status NOT IN ('preview', 'confirmed')
+  )
+  LIMIT 1;
+  IF FOUND THEN
+    RAISE EXCEPTION 'Risk limit exceeded: %', _violation.message
+      USING ERRCODE = 'check_violation', HINT = _violation.limit_key;
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER enforce_execution_risk_limits
+  BEFORE INSERT OR UPDATE OF status ON public.executions
+  FOR EACH ROW
+  EXECUTE FUNCTION public.enforce_execution_risk_limits();
+
+-- Users may insert and update their own executions, so everything the risk
+-- check reads is frozen once written. A row starts as a bare preview;
+-- routing details are added exactly once at the step that produces them,
+-- and a close only on a filled, successful row.
+CREATE OR REPLACE FUNCTION public.guard_execution_terms()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+DECLARE
+  _old JSONB;
+  _new JSONB := coalesce(NEW.order_details, '{}'::jsonb);
+  _key TEXT;
+BEGIN
+  IF TG_OP = 'INSERT' THEN
+    IF NEW.status <> 'preview' THEN
+      RAISE EXCEPTION 'An execution starts as a preview' USING ERRCODE = 'check_violation';
+    END IF;
+    IF _new ?| ARRAY['exchange', 'routing', 'fills', 'filled_at', 'paper_position_id', 'close'] THEN
+      RAISE EXCEPTION 'A new execution cannot carry routing, fills or a close' USING ERRCODE = 'check_violation';
+    END IF;
+    RETURN NEW;
+  END IF;
+
+  _old := coalesce(OLD.order_details, '{}'::jsonb);
+  IF NEW.user_id IS DISTINCT FROM OLD.user_id
+    OR NEW.signal_id IS DISTINCT FROM OLD.signal_id
+    OR NEW.leverage_long IS DISTINCT FROM OLD.leverage_long
+    OR NEW.leverage_short IS DISTINCT FROM OLD.leverage_short
+    OR NEW.position_size IS DISTINCT FROM OLD.position_size
+    OR (_new - ARRAY['exchange', 'routing', 'fills', 'filled_at', 'paper_position_id', 'close'])
+      IS DISTINCT FROM (_old - ARRAY['exchange', 'routing', 'fills', 'filled_at', 'paper_position_id', 'close'])
+  THEN
+    RAISE EXCEPTION 'An execution''s order terms cannot be changed once written'
+      USING ERRCODE = 'check_violation';
+  END IF;
+
+  FOREACH _key IN ARRAY ARRAY['exchange', 'routing', 'fills', 'filled_at', 'paper_position_id', 'close'] LOOP
+    IF _old ? _key AND _new->_key IS DISTINCT FROM _old->_key THEN
+      RAISE EXCEPTION 'order_details.% cannot be changed once recorded', _key
+        USING ERRCODE = 'check_violation';
+    END IF;
+  END LOOP;
+
+  IF _new ? 'exchange' AND NOT _old ? 'exchange' AND NOT (OLD.status = 'confirmed' AND NEW.status = 'pending') THEN
+    RAISE EXCEPTION 'The exchange is recorded when routing starts' USING ERRCODE = 'check_violation';
+  END IF;
+  IF (
+    (_new ? 'routing' AND NOT _old ? 'routing')
+    OR (_new ? 'fills' AND NOT _old ? 'fills')
+    OR (_new ? 'filled_at' AND NOT _old ? 'filled_at')
+    OR (_new ? 'paper_position_id' AND NOT _old ? 'paper_position_id')
+  ) AND NOT (OLD.status = 'pending' AND NEW.status <> 'pending') THEN
+    RAISE EXCEPTION 'Fills are recorded when a pending execution finishes' USING ERRCODE = 'check_violation';
+  END IF;
+  IF _new ? 'close' AND NOT _old ? 'close'
+    AND NOT (OLD.status IN ('success', 'unwind_failed') AND NEW.status = OLD.status AND _old ? 'fills')
+  THEN
+    RAISE EXCEPTION 'Only a filled execution can be closed' USING ERRCODE = 'check_violation';
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER guard_execution_terms
+  BEFORE INSERT OR UPDATE ON public.executions
+  FOR EACH ROW
+  EXECUTE FUNCTION public.guard_execution_terms();
+
+-- What the execution preview shows before anything is written
+CREATE OR REPLACE FUNCTION public.check_risk_limits(_order_details JSONB)
+RETURNS TABLE (limit_key TEXT, message TEXT)
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Not authorized' USING ERRCODE = '42501';
+  END IF;
+  RETURN QUERY SELECT * FROM public.risk_limit_violations(auth.uid(), _order_details);
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.effective_risk_limits(UUID) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.risk_limit_violations(UUID, JSONB, NUMERIC, UUID, BOOLEAN) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.check_risk_limits(JSONB) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.check_risk_limits(JSONB) TO authenticated;
@@ -0,0 +1,89 @@
+-- Global trading kill switch. Lives on the global config row, which every
+-- active user can already read and which is published to realtime.
+ALTER TABLE public.global_scan_config
+  ADD COLUMN trading_halted BOOLEAN NOT NULL DEFAULT false,
+  ADD COLUMN trading_halt_reason TEXT,
+  ADD COLUMN trading_halted_at TIMESTAMPTZ,
+  ADD COLUMN trading_halted_by UUID REFERENCES auth.users(id) ON DELETE SET NULL;
+
+-- While halted no execution may be created or move toward opening a
+-- position. Rows already pending are mid-routing and are left to finish.
+CREATE OR REPLACE FUNCTION public.block_executions_while_halted()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _reason TEXT;
+BEGIN
+  IF NEW.status IN ('failed', 'unwind_failed', 'cancelled') THEN
+    RETURN NEW;
+  END IF;
+  IF TG_OP = 'UPDATE' AND (NEW.status = OLD.status OR OLD.status = 'pending') THEN
+    RETURN NEW;
+  END IF;
+
+  SELECT trading_halt_reason INTO _reason
+  FROM public.global_scan_config
+  WHERE trading_halted
+  LIMIT 1;
+  IF FOUND THEN
+    RAISE EXCEPTION 'Trading is halted: %', coalesce(_reason, 'no reason given')
+      USING ERRCODE = 'object_not_in_prerequisite_state';
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER block_executions_while_halted
+  BEFORE INSERT OR UPDATE OF status ON public.executions
+  FOR EACH ROW
+  EXECUTE FUNCTION public.block_executions_while_halted();
+
+-- Halt or resume trading. Halting can also cancel every preview and
+-- confirmed execution still waiting; returns how many were cancelled.
+CREATE OR REPLACE FUNCTION public.set_trading_halt(
+  _halted BOOLEAN,
+  _reason TEXT DEFAULT NULL,
+  _cancel_open BOOLEAN DEFAULT false
+)
+RETURNS INTEGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _cancelled INTEGER := 0;
+BEGIN
+  IF auth.uid() IS NULL OR NOT public.has_role(auth.uid(), 'admin') THEN
+    RAISE EXCEPTION 'Not authorized' USING ERRCODE = '42501';
+  END IF;
+  IF _halted AND coalesce(btrim(_reason), '') = '' THEN
+    RAISE EXCEPTION 'A trading halt needs a reason';
+  END IF;
+
+  UPDATE public.global_scan_config
+  SET
+    trading_halted = _halted,
+    trading_halt_reason = CASE WHEN _halted THEN btrim(_reason) END,
+    trading_halted_at = CASE WHEN _halted THEN now() END,
+    trading_halted_by = CASE WHEN _halted THEN auth.uid() END,
+    updated_at = now();
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Global scan config is missing; the halt was not recorded';
+  END IF;
+
+  IF _halted AND _cancel_open THEN
+    UPDATE public.executions
+    SET status = 'cancelled', error_message = 'Cancelled by trading halt: ' || btrim(_reason)
+    WHERE status IN ('preview', 'confirmed');
+    GET DIAGNOSTICS _cancelled = ROW_COUNT;
+  END IF;
+
+  RETURN _cancelled;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.set_trading_halt(BOOLEAN, TEXT, BOOLEAN) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.set_trading_halt(BOOLEAN, TEXT, BOOLEAN) TO authenticated;
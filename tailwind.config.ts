@@ -107,12 +107,17 @@ export default {
           from: { transform: "translateX(100%)" },
           to: { transform: "translateX(0)" },
         },
+        "signal-flash": {
+          "0%, 30%": { backgroundColor: "hsl(var(--primary) / 0.2)" },
+          "100%": { backgroundColor: "transparent" },
+        },
       },
       animation: {
         "accordion-down": "accordion-down 0.2s ease-out",
         "accordion-up": "accordion-up 0.2s ease-out",
         "pulse-glow": "pulse-glow 2s ease-in-out infinite",
         "slide-in-right": "slide-in-right 0.3s ease-out",
+        "signal-flash": "signal-flash 6s ease-out",
       },
     },
   },